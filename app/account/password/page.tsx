@@ -0,0 +1,10 @@
+import { ChangePasswordForm } from "@/components/auth/change-password-form"
+
+export default function ChangePasswordPage() {
+  return (
+    <div className="mx-auto w-full max-w-md space-y-4">
+      <h1 className="text-3xl font-bold">Change Password</h1>
+      <ChangePasswordForm />
+    </div>
+  )
+}
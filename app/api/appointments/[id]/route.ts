@@ -0,0 +1,55 @@
+import { getAppointmentById, updateAppointment, deleteAppointment } from "@/lib/actions";
+import { actionResponse, checkBaseVersion, serverError } from "@/lib/api-response";
+
+// Interface for route params
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// GET handler to retrieve a specific appointment
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const response = await getAppointmentById(id);
+    return actionResponse(response, "Failed to fetch appointment", {
+      notFound: "Appointment not found",
+    });
+  } catch (error: any) {
+    return serverError("Error fetching appointment", error);
+  }
+}
+
+// PUT handler to update a specific appointment
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const data = await request.json();
+
+    const conflict = await checkBaseVersion(request, () => getAppointmentById(id));
+    if (conflict) return conflict;
+
+    const response = await updateAppointment(id, data);
+    return actionResponse(response, "Failed to update appointment", {
+      notFound: "Appointment not found",
+    });
+  } catch (error: any) {
+    return serverError("Error updating appointment", error);
+  }
+}
+
+// DELETE handler to delete a specific appointment
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+
+    const conflict = await checkBaseVersion(request, () => getAppointmentById(id));
+    if (conflict) return conflict;
+
+    const response = await deleteAppointment(id);
+    return actionResponse(response, "Failed to delete appointment");
+  } catch (error: any) {
+    return serverError("Error deleting appointment", error);
+  }
+}
@@ -0,0 +1,27 @@
+import { createAppointment, getAppointments } from "@/lib/actions";
+import { actionResponse, serverError } from "@/lib/api-response";
+
+// GET handler to retrieve appointments, optionally only those overlapping ?from&to
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const response = await getAppointments(
+      searchParams.get("from") || undefined,
+      searchParams.get("to") || undefined
+    );
+    return actionResponse(response, "Failed to fetch appointments");
+  } catch (error: any) {
+    return serverError("Error fetching appointments", error);
+  }
+}
+
+// POST handler to book a new appointment
+export async function POST(request: Request) {
+  try {
+    const data = await request.json();
+    const response = await createAppointment(data);
+    return actionResponse(response, "Failed to create appointment", { status: 201 });
+  } catch (error: any) {
+    return serverError("Error creating appointment", error);
+  }
+}
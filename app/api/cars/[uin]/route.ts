@@ -0,0 +1,55 @@
+import { getCarByUin, updateCar, deleteCar } from "@/lib/actions";
+import { actionResponse, checkBaseVersion, serverError } from "@/lib/api-response";
+
+// Interface for route params
+interface RouteParams {
+  params: {
+    uin: string;
+  };
+}
+
+// GET handler to retrieve a specific car
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { uin } = params;
+    const response = await getCarByUin(uin);
+    return actionResponse(response, "Failed to fetch car", {
+      notFound: "Car not found",
+    });
+  } catch (error: any) {
+    return serverError("Error fetching car", error);
+  }
+}
+
+// PUT handler to update a specific car
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    const { uin } = params;
+    const data = await request.json();
+
+    const conflict = await checkBaseVersion(request, () => getCarByUin(uin));
+    if (conflict) return conflict;
+
+    const response = await updateCar(uin, data);
+    return actionResponse(response, "Failed to update car", {
+      notFound: "Car not found",
+    });
+  } catch (error: any) {
+    return serverError("Error updating car", error);
+  }
+}
+
+// DELETE handler to delete a specific car
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { uin } = params;
+
+    const conflict = await checkBaseVersion(request, () => getCarByUin(uin));
+    if (conflict) return conflict;
+
+    const response = await deleteCar(uin);
+    return actionResponse(response, "Failed to delete car");
+  } catch (error: any) {
+    return serverError("Error deleting car", error);
+  }
+}
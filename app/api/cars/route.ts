@@ -0,0 +1,23 @@
+import { getCars, createCar } from "@/lib/actions";
+import { actionResponse, serverError } from "@/lib/api-response";
+
+// GET handler to retrieve all cars
+export async function GET() {
+  try {
+    const response = await getCars();
+    return actionResponse(response, "Failed to fetch cars");
+  } catch (error: any) {
+    return serverError("Error fetching cars", error);
+  }
+}
+
+// POST handler to create a new car
+export async function POST(request: Request) {
+  try {
+    const data = await request.json();
+    const response = await createCar(data);
+    return actionResponse(response, "Failed to create car", { status: 201 });
+  } catch (error: any) {
+    return serverError("Error creating car", error);
+  }
+}
@@ -0,0 +1,55 @@
+import { deleteClaim, getClaimById, updateClaim } from "@/lib/actions";
+import { actionResponse, checkBaseVersion, serverError } from "@/lib/api-response";
+
+// Interface for route params
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// GET handler to retrieve a specific insurance claim
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const response = await getClaimById(id);
+    return actionResponse(response, "Failed to fetch insurance claim", {
+      notFound: "Insurance claim not found",
+    });
+  } catch (error: any) {
+    return serverError("Error fetching insurance claim", error);
+  }
+}
+
+// PUT handler to update a claim or record the insurer's decision
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const data = await request.json();
+
+    const conflict = await checkBaseVersion(request, () => getClaimById(id));
+    if (conflict) return conflict;
+
+    const response = await updateClaim(id, data);
+    return actionResponse(response, "Failed to update insurance claim", {
+      notFound: "Insurance claim not found",
+    });
+  } catch (error: any) {
+    return serverError("Error updating insurance claim", error);
+  }
+}
+
+// DELETE handler to delete a specific insurance claim
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+
+    const conflict = await checkBaseVersion(request, () => getClaimById(id));
+    if (conflict) return conflict;
+
+    const response = await deleteClaim(id);
+    return actionResponse(response, "Failed to delete insurance claim");
+  } catch (error: any) {
+    return serverError("Error deleting insurance claim", error);
+  }
+}
@@ -0,0 +1,29 @@
+import { createClaim, getClaimByMaintenanceId, getClaims } from "@/lib/actions";
+import { actionResponse, serverError } from "@/lib/api-response";
+
+// GET handler to retrieve insurance claims, or the claim of one request with ?maintenanceId
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const maintenanceId = searchParams.get("maintenanceId");
+    if (maintenanceId) {
+      const response = await getClaimByMaintenanceId(maintenanceId);
+      return actionResponse(response, "Failed to fetch insurance claim");
+    }
+    const response = await getClaims();
+    return actionResponse(response, "Failed to fetch insurance claims");
+  } catch (error: any) {
+    return serverError("Error fetching insurance claims", error);
+  }
+}
+
+// POST handler to submit an insurance claim for a maintenance request
+export async function POST(request: Request) {
+  try {
+    const data = await request.json();
+    const response = await createClaim(data);
+    return actionResponse(response, "Failed to create insurance claim", { status: 201 });
+  } catch (error: any) {
+    return serverError("Error creating insurance claim", error);
+  }
+}
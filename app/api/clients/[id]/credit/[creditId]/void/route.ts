@@ -0,0 +1,22 @@
+import { voidClientCredit } from "@/lib/actions";
+import { actionResponse, serverError } from "@/lib/api-response";
+
+// Interface for route params
+interface RouteParams {
+  params: {
+    id: string;
+    creditId: string;
+  };
+}
+
+// POST handler to void an entry on a client's credit account
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { creditId } = params;
+    const { reason } = await request.json();
+    const response = await voidClientCredit(creditId, reason || "");
+    return actionResponse(response, "Failed to void credit entry");
+  } catch (error: any) {
+    return serverError("Error voiding credit entry", error);
+  }
+}
@@ -0,0 +1,49 @@
+import { addClientDeposit, applyClientCredit, getClientCredit, refundClientCredit } from "@/lib/actions";
+import { actionResponse, jsonError, serverError } from "@/lib/api-response";
+
+// Interface for route params
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// GET handler to retrieve a client's available credit and credit history
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const response = await getClientCredit(id);
+    return actionResponse(response, "Failed to fetch client credit");
+  } catch (error: any) {
+    return serverError("Error fetching client credit", error);
+  }
+}
+
+// POST handler to record a deposit, apply credit to a maintenance request, or refund credit
+// Body: { type: "deposit" | "apply" | "refund", amount, maintenanceId?, method?, reference?, notes?, date? }
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const { type, amount, maintenanceId, method, reference, notes, date } = await request.json();
+    const details = { method, reference, notes, date };
+
+    if (type === "apply") {
+      return actionResponse(await applyClientCredit(id, maintenanceId, Number(amount)), "Failed to apply credit", {
+        status: 201,
+      });
+    }
+    if (type === "refund") {
+      return actionResponse(await refundClientCredit(id, Number(amount), details), "Failed to refund credit", {
+        status: 201,
+      });
+    }
+    if (type === "deposit") {
+      return actionResponse(await addClientDeposit(id, Number(amount), details), "Failed to record deposit", {
+        status: 201,
+      });
+    }
+    return jsonError("Type must be deposit, apply or refund", 400);
+  } catch (error: any) {
+    return serverError("Error updating client credit", error);
+  }
+}
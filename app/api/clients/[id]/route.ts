@@ -0,0 +1,55 @@
+import { getClientById, updateClient, deleteClient } from "@/lib/actions";
+import { actionResponse, checkBaseVersion, serverError } from "@/lib/api-response";
+
+// Interface for route params
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// GET handler to retrieve a specific client
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const response = await getClientById(id);
+    return actionResponse(response, "Failed to fetch client", {
+      notFound: "Client not found",
+    });
+  } catch (error: any) {
+    return serverError("Error fetching client", error);
+  }
+}
+
+// PUT handler to update a specific client
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const data = await request.json();
+
+    const conflict = await checkBaseVersion(request, () => getClientById(id));
+    if (conflict) return conflict;
+
+    const response = await updateClient(id, data);
+    return actionResponse(response, "Failed to update client", {
+      notFound: "Client not found",
+    });
+  } catch (error: any) {
+    return serverError("Error updating client", error);
+  }
+}
+
+// DELETE handler to delete a specific client
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+
+    const conflict = await checkBaseVersion(request, () => getClientById(id));
+    if (conflict) return conflict;
+
+    const response = await deleteClient(id);
+    return actionResponse(response, "Failed to delete client");
+  } catch (error: any) {
+    return serverError("Error deleting client", error);
+  }
+}
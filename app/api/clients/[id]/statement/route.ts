@@ -0,0 +1,73 @@
+import { getClientStatement } from "@/lib/actions";
+import { renderStatementCsv, renderStatementHtml, renderStatementPdf } from "@/lib/statements";
+import { NextResponse } from "next/server";
+
+// Interface for route params
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// GET handler to render a client's statement of account
+// Query: ?from=YYYY-MM-DD (default: all activity), ?to=YYYY-MM-DD (default today), ?format=html|pdf|csv (default html)
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get("from") || undefined;
+    const to = searchParams.get("to") || undefined;
+    const format = searchParams.get("format");
+
+    const response = await getClientStatement(id, from, to);
+
+    if (!response.success || !response.data) {
+      return NextResponse.json(
+        { success: false, error: response.error || "Failed to build client statement" },
+        { status: response.error === "Client not found" ? 404 : 400 }
+      );
+    }
+
+    const statement = response.data;
+    const filename = `statement-${statement.client.name.replace(/[^a-z0-9]+/gi, "-").toLowerCase()}-${statement.to}`;
+
+    if (format === "pdf") {
+      return new NextResponse(renderStatementPdf(statement), {
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `attachment; filename="${filename}.pdf"`,
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    if (format === "csv") {
+      return new NextResponse(renderStatementCsv(statement), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${filename}.csv"`,
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    const query = new URLSearchParams({ to: statement.to, ...(statement.from ? { from: statement.from } : {}) });
+    const baseUrl = `/api/clients/${encodeURIComponent(id)}/statement?${query.toString()}`;
+
+    return new NextResponse(
+      renderStatementHtml(statement, { pdfUrl: `${baseUrl}&format=pdf`, csvUrl: `${baseUrl}&format=csv` }),
+      {
+        headers: {
+          "Content-Type": "text/html; charset=utf-8",
+          "Cache-Control": "no-store",
+        },
+      }
+    );
+  } catch (error: any) {
+    console.error("Error generating client statement:", error);
+    return NextResponse.json(
+      { success: false, error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { getClients, createClient } from "@/lib/actions";
+import { actionResponse, serverError } from "@/lib/api-response";
+
+// GET handler to retrieve all clients
+export async function GET() {
+  try {
+    const response = await getClients();
+    return actionResponse(response, "Failed to fetch clients");
+  } catch (error: any) {
+    return serverError("Error fetching clients", error);
+  }
+}
+
+// POST handler to create a new client
+export async function POST(request: Request) {
+  try {
+    const data = await request.json();
+    const response = await createClient(data);
+    return actionResponse(response, "Failed to create client", { status: 201 });
+  } catch (error: any) {
+    return serverError("Error creating client", error);
+  }
+}
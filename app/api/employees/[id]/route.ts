@@ -0,0 +1,55 @@
+import { getEmployeeById, updateEmployee, deleteEmployee } from "@/lib/actions";
+import { actionResponse, checkBaseVersion, serverError } from "@/lib/api-response";
+
+// Interface for route params
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// GET handler to retrieve a specific employee
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const response = await getEmployeeById(id);
+    return actionResponse(response, "Failed to fetch employee", {
+      notFound: "Employee not found",
+    });
+  } catch (error: any) {
+    return serverError("Error fetching employee", error);
+  }
+}
+
+// PUT handler to update a specific employee
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const data = await request.json();
+
+    const conflict = await checkBaseVersion(request, () => getEmployeeById(id));
+    if (conflict) return conflict;
+
+    const response = await updateEmployee(id, data);
+    return actionResponse(response, "Failed to update employee", {
+      notFound: "Employee not found",
+    });
+  } catch (error: any) {
+    return serverError("Error updating employee", error);
+  }
+}
+
+// DELETE handler to delete a specific employee
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+
+    const conflict = await checkBaseVersion(request, () => getEmployeeById(id));
+    if (conflict) return conflict;
+
+    const response = await deleteEmployee(id);
+    return actionResponse(response, "Failed to delete employee");
+  } catch (error: any) {
+    return serverError("Error deleting employee", error);
+  }
+}
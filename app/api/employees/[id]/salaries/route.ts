@@ -0,0 +1,20 @@
+import { getSalariesByEmployeeId } from "@/lib/actions";
+import { actionResponse, serverError } from "@/lib/api-response";
+
+// Interface for route params
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// GET handler to retrieve the salary history of an employee
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const response = await getSalariesByEmployeeId(id);
+    return actionResponse(response, "Failed to fetch salaries");
+  } catch (error: any) {
+    return serverError("Error fetching salaries", error);
+  }
+}
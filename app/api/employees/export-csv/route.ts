@@ -0,0 +1,12 @@
+import { exportEmployeesToCSV } from "@/lib/actions";
+import { actionResponse, serverError } from "@/lib/api-response";
+
+// GET handler to export employees as CSV
+export async function GET() {
+  try {
+    const response = await exportEmployeesToCSV();
+    return actionResponse(response, "Failed to export employees");
+  } catch (error: any) {
+    return serverError("Error exporting employees", error);
+  }
+}
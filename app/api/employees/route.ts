@@ -0,0 +1,23 @@
+import { getEmployees, createEmployee } from "@/lib/actions";
+import { actionResponse, serverError } from "@/lib/api-response";
+
+// GET handler to retrieve all employees
+export async function GET() {
+  try {
+    const response = await getEmployees();
+    return actionResponse(response, "Failed to fetch employees");
+  } catch (error: any) {
+    return serverError("Error fetching employees", error);
+  }
+}
+
+// POST handler to create a new employee
+export async function POST(request: Request) {
+  try {
+    const data = await request.json();
+    const response = await createEmployee(data);
+    return actionResponse(response, "Failed to create employee", { status: 201 });
+  } catch (error: any) {
+    return serverError("Error creating employee", error);
+  }
+}
@@ -0,0 +1,32 @@
+import { deleteBudget, updateBudget } from "@/lib/actions";
+import { actionResponse, serverError } from "@/lib/api-response";
+
+// Interface for route params
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// PUT handler to change a budget's period, amount or notes
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const data = await request.json();
+    const response = await updateBudget(id, data);
+    return actionResponse(response, "Failed to update budget");
+  } catch (error: any) {
+    return serverError("Error updating budget", error);
+  }
+}
+
+// DELETE handler to delete a budget
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const response = await deleteBudget(id);
+    return actionResponse(response, "Failed to delete budget");
+  } catch (error: any) {
+    return serverError("Error deleting budget", error);
+  }
+}
@@ -0,0 +1,30 @@
+import { createBudget, getBudgetReport, getBudgets } from "@/lib/actions";
+import { actionResponse, serverError } from "@/lib/api-response";
+
+// GET handler to retrieve budgets
+// ?report=1[&date=YYYY-MM-DD] compares them with actual income and spending instead
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    if (searchParams.get("report")) {
+      const response = await getBudgetReport(searchParams.get("date") || undefined);
+      return actionResponse(response, "Failed to build budget report");
+    }
+
+    const response = await getBudgets();
+    return actionResponse(response, "Failed to fetch budgets");
+  } catch (error: any) {
+    return serverError("Error fetching budgets", error);
+  }
+}
+
+// POST handler to set the budget of a finance category
+export async function POST(request: Request) {
+  try {
+    const data = await request.json();
+    const response = await createBudget(data);
+    return actionResponse(response, "Failed to create budget", { status: 201 });
+  } catch (error: any) {
+    return serverError("Error creating budget", error);
+  }
+}
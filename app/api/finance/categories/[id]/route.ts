@@ -0,0 +1,55 @@
+import { getFinanceCategoryById, updateFinanceCategory, deleteFinanceCategory } from "@/lib/actions";
+import { actionResponse, checkBaseVersion, serverError } from "@/lib/api-response";
+
+// Interface for route params
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// GET handler to retrieve a specific finance category
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const response = await getFinanceCategoryById(id);
+    return actionResponse(response, "Failed to fetch finance category", {
+      notFound: "Finance category not found",
+    });
+  } catch (error: any) {
+    return serverError("Error fetching finance category", error);
+  }
+}
+
+// PUT handler to update a specific finance category
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const data = await request.json();
+
+    const conflict = await checkBaseVersion(request, () => getFinanceCategoryById(id));
+    if (conflict) return conflict;
+
+    const response = await updateFinanceCategory(id, data);
+    return actionResponse(response, "Failed to update finance category", {
+      notFound: "Finance category not found",
+    });
+  } catch (error: any) {
+    return serverError("Error updating finance category", error);
+  }
+}
+
+// DELETE handler to delete a specific finance category
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+
+    const conflict = await checkBaseVersion(request, () => getFinanceCategoryById(id));
+    if (conflict) return conflict;
+
+    const response = await deleteFinanceCategory(id);
+    return actionResponse(response, "Failed to delete finance category");
+  } catch (error: any) {
+    return serverError("Error deleting finance category", error);
+  }
+}
@@ -0,0 +1,35 @@
+import {
+  createFinanceCategory,
+  getFinanceCategories,
+  getFinanceCategoriesByType,
+} from "@/lib/actions";
+import { actionResponse, jsonError, serverError } from "@/lib/api-response";
+
+// GET handler to retrieve finance categories, optionally filtered with ?type=income|expense
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const type = searchParams.get("type");
+    if (type && type !== "income" && type !== "expense") {
+      return jsonError("Type must be income or expense", 400);
+    }
+
+    const response = type
+      ? await getFinanceCategoriesByType(type as "income" | "expense")
+      : await getFinanceCategories();
+    return actionResponse(response, "Failed to fetch finance categories");
+  } catch (error: any) {
+    return serverError("Error fetching finance categories", error);
+  }
+}
+
+// POST handler to create a new finance category
+export async function POST(request: Request) {
+  try {
+    const data = await request.json();
+    const response = await createFinanceCategory(data);
+    return actionResponse(response, "Failed to create finance category", { status: 201 });
+  } catch (error: any) {
+    return serverError("Error creating finance category", error);
+  }
+}
@@ -0,0 +1,20 @@
+import { deleteExchangeRate } from "@/lib/actions";
+import { actionResponse, serverError } from "@/lib/api-response";
+
+// Interface for route params
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// DELETE handler to remove an exchange rate
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const response = await deleteExchangeRate(id);
+    return actionResponse(response, "Failed to delete exchange rate");
+  } catch (error: any) {
+    return serverError("Error deleting exchange rate", error);
+  }
+}
@@ -0,0 +1,24 @@
+import { getExchangeRates, saveExchangeRate } from "@/lib/actions";
+import { actionResponse, serverError } from "@/lib/api-response";
+
+// GET handler to retrieve all exchange rates, newest first
+export async function GET() {
+  try {
+    const response = await getExchangeRates();
+    return actionResponse(response, "Failed to fetch exchange rates");
+  } catch (error: any) {
+    return serverError("Error fetching exchange rates", error);
+  }
+}
+
+// POST handler to set the rate of a currency for a day
+// Body: { currency: "EUR", date: "YYYY-MM-DD", rate: 1.08 } (base currency per unit)
+export async function POST(request: Request) {
+  try {
+    const { currency, date, rate } = await request.json();
+    const response = await saveExchangeRate(currency, date, rate);
+    return actionResponse(response, "Failed to save exchange rate");
+  } catch (error: any) {
+    return serverError("Error saving exchange rate", error);
+  }
+}
@@ -0,0 +1,16 @@
+import { exportFinanceRecordsToCSV } from "@/lib/actions";
+import { actionResponse, serverError } from "@/lib/api-response";
+
+// GET handler to export finance records as CSV, optionally limited with ?from&to
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const response = await exportFinanceRecordsToCSV(
+      searchParams.get("from") || undefined,
+      searchParams.get("to") || undefined
+    );
+    return actionResponse(response, "Failed to export finance records");
+  } catch (error: any) {
+    return serverError("Error exporting finance records", error);
+  }
+}
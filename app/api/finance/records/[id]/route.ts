@@ -0,0 +1,55 @@
+import { getFinanceRecordById, updateFinanceRecord, deleteFinanceRecord } from "@/lib/actions";
+import { actionResponse, checkBaseVersion, serverError } from "@/lib/api-response";
+
+// Interface for route params
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// GET handler to retrieve a specific finance record
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const response = await getFinanceRecordById(id);
+    return actionResponse(response, "Failed to fetch finance record", {
+      notFound: "Finance record not found",
+    });
+  } catch (error: any) {
+    return serverError("Error fetching finance record", error);
+  }
+}
+
+// PUT handler to update a specific finance record
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const data = await request.json();
+
+    const conflict = await checkBaseVersion(request, () => getFinanceRecordById(id));
+    if (conflict) return conflict;
+
+    const response = await updateFinanceRecord(id, data);
+    return actionResponse(response, "Failed to update finance record", {
+      notFound: "Finance record not found",
+    });
+  } catch (error: any) {
+    return serverError("Error updating finance record", error);
+  }
+}
+
+// DELETE handler to delete a specific finance record
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+
+    const conflict = await checkBaseVersion(request, () => getFinanceRecordById(id));
+    if (conflict) return conflict;
+
+    const response = await deleteFinanceRecord(id);
+    return actionResponse(response, "Failed to delete finance record");
+  } catch (error: any) {
+    return serverError("Error deleting finance record", error);
+  }
+}
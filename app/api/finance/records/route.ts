@@ -0,0 +1,49 @@
+import {
+  createFinanceRecord,
+  getFinanceRecords,
+  getFinanceRecordsByCategoryId,
+  getFinanceRecordsByDateRange,
+  getFinanceRecordsByType,
+} from "@/lib/actions";
+import { actionResponse, jsonError, serverError } from "@/lib/api-response";
+
+// GET handler to retrieve finance records. Supports one filter at a time:
+// ?from=YYYY-MM-DD[&to=YYYY-MM-DD], ?type=income|expense or ?categoryId=...
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get("from");
+    const to = searchParams.get("to");
+    const type = searchParams.get("type");
+    const categoryId = searchParams.get("categoryId");
+
+    if (type && type !== "income" && type !== "expense") {
+      return jsonError("Type must be income or expense", 400);
+    }
+
+    let response;
+    if (from) {
+      response = await getFinanceRecordsByDateRange(from, to || undefined);
+    } else if (type) {
+      response = await getFinanceRecordsByType(type as "income" | "expense");
+    } else if (categoryId) {
+      response = await getFinanceRecordsByCategoryId(categoryId);
+    } else {
+      response = await getFinanceRecords();
+    }
+    return actionResponse(response, "Failed to fetch finance records");
+  } catch (error: any) {
+    return serverError("Error fetching finance records", error);
+  }
+}
+
+// POST handler to create a new finance record
+export async function POST(request: Request) {
+  try {
+    const data = await request.json();
+    const response = await createFinanceRecord(data);
+    return actionResponse(response, "Failed to create finance record", { status: 201 });
+  } catch (error: any) {
+    return serverError("Error creating finance record", error);
+  }
+}
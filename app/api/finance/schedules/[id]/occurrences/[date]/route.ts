@@ -0,0 +1,43 @@
+import { postScheduledOccurrence, updateScheduledOccurrence } from "@/lib/actions";
+import { actionResponse, jsonError, serverError } from "@/lib/api-response";
+
+// Interface for route params
+interface RouteParams {
+  params: {
+    id: string;
+    date: string;
+  };
+}
+
+// POST handler for a single occurrence of a recurring schedule
+// Body: { action: "post" } | { action: "skip" } | { action: "adjust", amount?, description? } | { action: "restore" }
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { id, date } = params;
+    const { action, amount, description } = await request.json();
+
+    let response;
+    switch (action) {
+      case "post":
+        response = await postScheduledOccurrence(id, date);
+        break;
+      case "skip":
+        response = await updateScheduledOccurrence(id, date, { skip: true });
+        break;
+      case "adjust":
+        response = await updateScheduledOccurrence(id, date, {
+          ...(amount !== undefined ? { amount: Number(amount) } : {}),
+          description,
+        });
+        break;
+      case "restore":
+        response = await updateScheduledOccurrence(id, date, null);
+        break;
+      default:
+        return jsonError("Action must be post, skip, adjust or restore", 400);
+    }
+    return actionResponse(response, "Failed to update scheduled occurrence");
+  } catch (error: any) {
+    return serverError("Error updating scheduled occurrence", error);
+  }
+}
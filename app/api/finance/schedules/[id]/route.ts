@@ -0,0 +1,32 @@
+import { deleteRecurringSchedule, updateRecurringSchedule } from "@/lib/actions";
+import { actionResponse, serverError } from "@/lib/api-response";
+
+// Interface for route params
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// PUT handler to update a recurring schedule; posted records are left as they are
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const data = await request.json();
+    const response = await updateRecurringSchedule(id, data);
+    return actionResponse(response, "Failed to update recurring schedule");
+  } catch (error: any) {
+    return serverError("Error updating recurring schedule", error);
+  }
+}
+
+// DELETE handler to delete a recurring schedule
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const response = await deleteRecurringSchedule(id);
+    return actionResponse(response, "Failed to delete recurring schedule");
+  } catch (error: any) {
+    return serverError("Error deleting recurring schedule", error);
+  }
+}
@@ -0,0 +1,33 @@
+import { createRecurringSchedule, getRecurringSchedules, getScheduledOccurrences } from "@/lib/actions";
+import { actionResponse, serverError } from "@/lib/api-response";
+
+// GET handler to retrieve recurring schedules
+// ?occurrences=1[&from=YYYY-MM-DD&to=YYYY-MM-DD] lists their occurrences instead
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    if (searchParams.get("occurrences")) {
+      const response = await getScheduledOccurrences(
+        searchParams.get("from") || undefined,
+        searchParams.get("to") || undefined
+      );
+      return actionResponse(response, "Failed to fetch scheduled occurrences");
+    }
+
+    const response = await getRecurringSchedules();
+    return actionResponse(response, "Failed to fetch recurring schedules");
+  } catch (error: any) {
+    return serverError("Error fetching recurring schedules", error);
+  }
+}
+
+// POST handler to create a recurring schedule
+export async function POST(request: Request) {
+  try {
+    const data = await request.json();
+    const response = await createRecurringSchedule(data);
+    return actionResponse(response, "Failed to create recurring schedule", { status: 201 });
+  } catch (error: any) {
+    return serverError("Error creating recurring schedule", error);
+  }
+}
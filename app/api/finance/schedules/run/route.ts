@@ -0,0 +1,12 @@
+import { postDueScheduledRecords } from "@/lib/actions";
+import { actionResponse, serverError } from "@/lib/api-response";
+
+// POST handler to post the records auto schedules have come due for, e.g. from a daily cron job
+export async function POST() {
+  try {
+    const response = await postDueScheduledRecords();
+    return actionResponse(response, "Failed to post scheduled records");
+  } catch (error: any) {
+    return serverError("Error posting scheduled records", error);
+  }
+}
@@ -0,0 +1,55 @@
+import { getInsuranceById, updateInsurance, deleteInsurance } from "@/lib/actions";
+import { actionResponse, checkBaseVersion, serverError } from "@/lib/api-response";
+
+// Interface for route params
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// GET handler to retrieve a specific insurance company
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const response = await getInsuranceById(id);
+    return actionResponse(response, "Failed to fetch insurance company", {
+      notFound: "Insurance company not found",
+    });
+  } catch (error: any) {
+    return serverError("Error fetching insurance company", error);
+  }
+}
+
+// PUT handler to update a specific insurance company
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const data = await request.json();
+
+    const conflict = await checkBaseVersion(request, () => getInsuranceById(id));
+    if (conflict) return conflict;
+
+    const response = await updateInsurance(id, data);
+    return actionResponse(response, "Failed to update insurance company", {
+      notFound: "Insurance company not found",
+    });
+  } catch (error: any) {
+    return serverError("Error updating insurance company", error);
+  }
+}
+
+// DELETE handler to delete a specific insurance company
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+
+    const conflict = await checkBaseVersion(request, () => getInsuranceById(id));
+    if (conflict) return conflict;
+
+    const response = await deleteInsurance(id);
+    return actionResponse(response, "Failed to delete insurance company");
+  } catch (error: any) {
+    return serverError("Error deleting insurance company", error);
+  }
+}
@@ -0,0 +1,23 @@
+import { getInsuranceCompanies, createInsurance } from "@/lib/actions";
+import { actionResponse, serverError } from "@/lib/api-response";
+
+// GET handler to retrieve all insurance companies
+export async function GET() {
+  try {
+    const response = await getInsuranceCompanies();
+    return actionResponse(response, "Failed to fetch insurance companies");
+  } catch (error: any) {
+    return serverError("Error fetching insurance companies", error);
+  }
+}
+
+// POST handler to create a new insurance company
+export async function POST(request: Request) {
+  try {
+    const data = await request.json();
+    const response = await createInsurance(data);
+    return actionResponse(response, "Failed to create insurance company", { status: 201 });
+  } catch (error: any) {
+    return serverError("Error creating insurance company", error);
+  }
+}
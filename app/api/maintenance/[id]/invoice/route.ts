@@ -0,0 +1,68 @@
+import { getMaintenanceDocument, issueMaintenanceDocument } from "@/lib/actions";
+import { actionResponse, getErrorStatus, jsonError, serverError } from "@/lib/api-response";
+import { renderInvoiceHtml, renderInvoicePdf } from "@/lib/invoices";
+import { NextResponse } from "next/server";
+
+// Interface for route params
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// GET handler to render an invoice or quote as a printable HTML page or a PDF download
+// Query: ?type=invoice|quote (default invoice), ?format=html|pdf (default html)
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const { searchParams } = new URL(request.url);
+    const kind = searchParams.get("type") === "quote" ? "quote" : "invoice";
+    const format = searchParams.get("format") === "pdf" ? "pdf" : "html";
+
+    const response = await getMaintenanceDocument(id, kind);
+
+    if (!response.success || !response.data) {
+      const error = response.error || `Failed to generate ${kind}`;
+      return jsonError(error, getErrorStatus(error));
+    }
+
+    const document = response.data;
+
+    if (format === "pdf") {
+      return new NextResponse(renderInvoicePdf(document), {
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `attachment; filename="${document.number}.pdf"`,
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    return new NextResponse(
+      renderInvoiceHtml(document, {
+        pdfUrl: `/api/maintenance/${encodeURIComponent(id)}/invoice?type=${kind}&format=pdf`,
+      }),
+      {
+        headers: {
+          "Content-Type": "text/html; charset=utf-8",
+          "Cache-Control": "no-store",
+        },
+      }
+    );
+  } catch (error: any) {
+    return serverError("Error generating maintenance document", error);
+  }
+}
+
+// POST handler to issue the invoice or quote number (?type=invoice|quote, default invoice)
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const { searchParams } = new URL(request.url);
+    const kind = searchParams.get("type") === "quote" ? "quote" : "invoice";
+    const response = await issueMaintenanceDocument(id, kind);
+    return actionResponse(response, `Failed to issue ${kind}`);
+  } catch (error: any) {
+    return serverError("Error issuing maintenance document", error);
+  }
+}
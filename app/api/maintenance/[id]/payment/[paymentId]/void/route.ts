@@ -0,0 +1,22 @@
+import { voidPayment } from "@/lib/actions";
+import { actionResponse, serverError } from "@/lib/api-response";
+
+// Interface for route params
+interface RouteParams {
+  params: {
+    id: string;
+    paymentId: string;
+  };
+}
+
+// POST handler to void a ledger entry of a maintenance request
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { paymentId } = params;
+    const { reason } = await request.json();
+    const response = await voidPayment(paymentId, reason || "");
+    return actionResponse(response, "Failed to void payment");
+  } catch (error: any) {
+    return serverError("Error voiding payment", error);
+  }
+}
@@ -0,0 +1,36 @@
+import { getPaymentsByMaintenanceId, makePayment, refundPayment } from "@/lib/actions";
+import { actionResponse, serverError } from "@/lib/api-response";
+
+// Interface for route params
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// GET handler to retrieve the payment history of a maintenance request
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const response = await getPaymentsByMaintenanceId(id);
+    return actionResponse(response, "Failed to fetch payments");
+  } catch (error: any) {
+    return serverError("Error fetching payments", error);
+  }
+}
+
+// POST handler to record a payment (or refund) against a maintenance request
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const { amount, type, payer, method, currency, reference, notes, date } = await request.json();
+    const details = { payer, method, currency, reference, notes, date };
+    const response =
+      type === "refund"
+        ? await refundPayment(id, Number(amount), details)
+        : await makePayment(id, Number(amount), details);
+    return actionResponse(response, "Failed to process payment");
+  } catch (error: any) {
+    return serverError("Error processing payment", error);
+  }
+}
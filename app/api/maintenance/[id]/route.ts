@@ -1,5 +1,5 @@
 import { getMaintenanceById, updateMaintenanceRequest, deleteMaintenanceRequest } from "@/lib/actions";
-import { NextResponse } from "next/server";
+import { actionResponse, checkBaseVersion, serverError } from "@/lib/api-response";
 
 // Interface for route params
 interface RouteParams {
@@ -13,21 +13,11 @@ export async function GET(request: Request, { params }: RouteParams) {
   try {
     const { id } = params;
     const response = await getMaintenanceById(id);
-    
-    if (response.success) {
-      return NextResponse.json({ success: true, data: response.data });
-    } else {
-      return NextResponse.json(
-        { success: false, error: response.error || "Failed to fetch maintenance request" },
-        { status: 400 }
-      );
-    }
+    return actionResponse(response, "Failed to fetch maintenance request", {
+      notFound: "Maintenance request not found",
+    });
   } catch (error: any) {
-    console.error("Error fetching maintenance request:", error);
-    return NextResponse.json(
-      { success: false, error: error.message || "Internal server error" },
-      { status: 500 }
-    );
+    return serverError("Error fetching maintenance request", error);
   }
 }
 
@@ -36,22 +26,17 @@ export async function PUT(request: Request, { params }: RouteParams) {
   try {
     const { id } = params;
     const data = await request.json();
+
+    // Reject writes based on an older version than the one stored
+    const conflict = await checkBaseVersion(request, () => getMaintenanceById(id));
+    if (conflict) return conflict;
+
     const response = await updateMaintenanceRequest(id, data);
-    
-    if (response.success) {
-      return NextResponse.json({ success: true, data: response.data });
-    } else {
-      return NextResponse.json(
-        { success: false, error: response.error || "Failed to update maintenance request" },
-        { status: 400 }
-      );
-    }
+    return actionResponse(response, "Failed to update maintenance request", {
+      notFound: "Maintenance request not found",
+    });
   } catch (error: any) {
-    console.error("Error updating maintenance request:", error);
-    return NextResponse.json(
-      { success: false, error: error.message || "Internal server error" },
-      { status: 500 }
-    );
+    return serverError("Error updating maintenance request", error);
   }
 }
 
@@ -59,21 +44,13 @@ export async function PUT(request: Request, { params }: RouteParams) {
 export async function DELETE(request: Request, { params }: RouteParams) {
   try {
     const { id } = params;
+
+    const conflict = await checkBaseVersion(request, () => getMaintenanceById(id));
+    if (conflict) return conflict;
+
     const response = await deleteMaintenanceRequest(id);
-    
-    if (response.success) {
-      return NextResponse.json({ success: true });
-    } else {
-      return NextResponse.json(
-        { success: false, error: response.error || "Failed to delete maintenance request" },
-        { status: 400 }
-      );
-    }
+    return actionResponse(response, "Failed to delete maintenance request");
   } catch (error: any) {
-    console.error("Error deleting maintenance request:", error);
-    return NextResponse.json(
-      { success: false, error: error.message || "Internal server error" },
-      { status: 500 }
-    );
+    return serverError("Error deleting maintenance request", error);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,34 @@
+import { clockOn, createTimeEntry, getTimeEntries } from "@/lib/actions";
+import { actionResponse, serverError } from "@/lib/api-response";
+
+// Interface for route params
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// GET handler to list the time booked against a maintenance request
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const response = await getTimeEntries(id);
+    return actionResponse(response, "Failed to fetch time entries");
+  } catch (error: any) {
+    return serverError("Error fetching time entries", error);
+  }
+}
+
+// POST handler to clock a technician on, or to add finished time when an end time is given
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const data = await request.json();
+    const response = data.endTime
+      ? await createTimeEntry({ ...data, maintenanceId: id })
+      : await clockOn(id, data.employeeId, data.serviceId);
+    return actionResponse(response, "Failed to save time entry", { status: 201 });
+  } catch (error: any) {
+    return serverError("Error saving time entry", error);
+  }
+}
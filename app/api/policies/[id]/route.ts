@@ -0,0 +1,55 @@
+import { deletePolicy, getPolicyById, updatePolicy } from "@/lib/actions";
+import { actionResponse, checkBaseVersion, serverError } from "@/lib/api-response";
+
+// Interface for route params
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// GET handler to retrieve a specific insurance policy
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const response = await getPolicyById(id);
+    return actionResponse(response, "Failed to fetch insurance policy", {
+      notFound: "Insurance policy not found",
+    });
+  } catch (error: any) {
+    return serverError("Error fetching insurance policy", error);
+  }
+}
+
+// PUT handler to update a specific insurance policy
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const data = await request.json();
+
+    const conflict = await checkBaseVersion(request, () => getPolicyById(id));
+    if (conflict) return conflict;
+
+    const response = await updatePolicy(id, data);
+    return actionResponse(response, "Failed to update insurance policy", {
+      notFound: "Insurance policy not found",
+    });
+  } catch (error: any) {
+    return serverError("Error updating insurance policy", error);
+  }
+}
+
+// DELETE handler to delete a specific insurance policy
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+
+    const conflict = await checkBaseVersion(request, () => getPolicyById(id));
+    if (conflict) return conflict;
+
+    const response = await deletePolicy(id);
+    return actionResponse(response, "Failed to delete insurance policy");
+  } catch (error: any) {
+    return serverError("Error deleting insurance policy", error);
+  }
+}
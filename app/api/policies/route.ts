@@ -0,0 +1,24 @@
+import { createPolicy, getPolicies } from "@/lib/actions";
+import { actionResponse, serverError } from "@/lib/api-response";
+
+// GET handler to retrieve insurance policies, optionally only one car's with ?carUin
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const response = await getPolicies(searchParams.get("carUin") || undefined);
+    return actionResponse(response, "Failed to fetch insurance policies");
+  } catch (error: any) {
+    return serverError("Error fetching insurance policies", error);
+  }
+}
+
+// POST handler to add a policy to a car
+export async function POST(request: Request) {
+  try {
+    const data = await request.json();
+    const response = await createPolicy(data);
+    return actionResponse(response, "Failed to create insurance policy", { status: 201 });
+  } catch (error: any) {
+    return serverError("Error creating insurance policy", error);
+  }
+}
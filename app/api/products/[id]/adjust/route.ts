@@ -0,0 +1,21 @@
+import { adjustInventory } from "@/lib/actions";
+import { actionResponse, serverError } from "@/lib/api-response";
+
+// Interface for route params
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// POST handler to adjust warehouse/shop stock, optionally booking the cost as an expense
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const data = await request.json();
+    const response = await adjustInventory(id, data);
+    return actionResponse(response, "Failed to adjust inventory");
+  } catch (error: any) {
+    return serverError("Error adjusting inventory", error);
+  }
+}
@@ -0,0 +1,55 @@
+import { getProductById, updateProduct, deleteProduct } from "@/lib/actions";
+import { actionResponse, checkBaseVersion, serverError } from "@/lib/api-response";
+
+// Interface for route params
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// GET handler to retrieve a specific product
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const response = await getProductById(id);
+    return actionResponse(response, "Failed to fetch product", {
+      notFound: "Product not found",
+    });
+  } catch (error: any) {
+    return serverError("Error fetching product", error);
+  }
+}
+
+// PUT handler to update a specific product
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const data = await request.json();
+
+    const conflict = await checkBaseVersion(request, () => getProductById(id));
+    if (conflict) return conflict;
+
+    const response = await updateProduct(id, data);
+    return actionResponse(response, "Failed to update product", {
+      notFound: "Product not found",
+    });
+  } catch (error: any) {
+    return serverError("Error updating product", error);
+  }
+}
+
+// DELETE handler to delete a specific product
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+
+    const conflict = await checkBaseVersion(request, () => getProductById(id));
+    if (conflict) return conflict;
+
+    const response = await deleteProduct(id);
+    return actionResponse(response, "Failed to delete product");
+  } catch (error: any) {
+    return serverError("Error deleting product", error);
+  }
+}
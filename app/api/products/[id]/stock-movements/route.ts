@@ -0,0 +1,20 @@
+import { getStockMovements } from "@/lib/actions";
+import { actionResponse, serverError } from "@/lib/api-response";
+
+// Interface for route params
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// GET handler to retrieve a product's stock movement history, newest first
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const response = await getStockMovements(id);
+    return actionResponse(response, "Failed to fetch stock movements");
+  } catch (error: any) {
+    return serverError("Error fetching stock movements", error);
+  }
+}
@@ -0,0 +1,28 @@
+import { transferStock } from "@/lib/actions";
+import { actionResponse, jsonError, serverError } from "@/lib/api-response";
+
+// Interface for route params
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+const LOCATIONS = ["warehouse", "shop"];
+
+// POST handler to move stock between the warehouse and the shop
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const { quantity, from, to } = await request.json();
+
+    if (typeof quantity !== "number" || !LOCATIONS.includes(from) || !LOCATIONS.includes(to)) {
+      return jsonError("A numeric quantity and from/to locations (warehouse or shop) are required", 400);
+    }
+
+    const response = await transferStock(id, quantity, from, to);
+    return actionResponse(response, "Failed to transfer stock");
+  } catch (error: any) {
+    return serverError("Error transferring stock", error);
+  }
+}
@@ -0,0 +1,30 @@
+import { getProducts } from "@/lib/actions";
+import { renderProductLabelsPdf } from "@/lib/labels";
+import { getErrorStatus, jsonError, serverError } from "@/lib/api-response";
+import { NextResponse } from "next/server";
+
+// GET handler to render a sheet of shelf labels as a PDF
+// Query: ?ids=<id>,<id> (default every product), ?copies=<labels per product> (default 1)
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const ids = searchParams.get("ids")?.split(",").filter(Boolean);
+    const copies = Math.min(Math.max(Math.floor(Number(searchParams.get("copies")) || 1), 1), 100);
+
+    const response = await getProducts();
+    if (!response.success || !response.data) {
+      return jsonError(response.error || "Failed to fetch products", getErrorStatus(response.error));
+    }
+
+    const products = ids ? response.data.filter((product) => ids.includes(product.id)) : response.data;
+    return new NextResponse(renderProductLabelsPdf(products, copies), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": 'inline; filename="shelf-labels.pdf"',
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error: any) {
+    return serverError("Error generating shelf labels", error);
+  }
+}
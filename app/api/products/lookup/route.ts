@@ -0,0 +1,20 @@
+import { getProductByCode } from "@/lib/actions";
+import { actionResponse, jsonError, serverError } from "@/lib/api-response";
+
+// GET handler to find a product by SKU, barcode or part number
+// Query: ?code=<scanned or typed code>
+export async function GET(request: Request) {
+  try {
+    const code = new URL(request.url).searchParams.get("code")?.trim();
+    if (!code) {
+      return jsonError("A code is required", 400);
+    }
+
+    const response = await getProductByCode(code);
+    return actionResponse(response, "Failed to look up product", {
+      notFound: "Product not found",
+    });
+  } catch (error: any) {
+    return serverError("Error looking up product", error);
+  }
+}
@@ -0,0 +1,23 @@
+import { getProducts, createProduct } from "@/lib/actions";
+import { actionResponse, serverError } from "@/lib/api-response";
+
+// GET handler to retrieve all products
+export async function GET() {
+  try {
+    const response = await getProducts();
+    return actionResponse(response, "Failed to fetch products");
+  } catch (error: any) {
+    return serverError("Error fetching products", error);
+  }
+}
+
+// POST handler to create a new product
+export async function POST(request: Request) {
+  try {
+    const data = await request.json();
+    const response = await createProduct(data);
+    return actionResponse(response, "Failed to create product", { status: 201 });
+  } catch (error: any) {
+    return serverError("Error creating product", error);
+  }
+}
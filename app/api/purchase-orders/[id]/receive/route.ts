@@ -0,0 +1,23 @@
+import { receivePurchaseOrder } from "@/lib/actions";
+import { actionResponse, serverError } from "@/lib/api-response";
+
+// Interface for route params
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// POST handler to book a delivery in against a purchase order
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const data = await request.json();
+    const response = await receivePurchaseOrder(id, data);
+    return actionResponse(response, "Failed to receive goods", {
+      notFound: "Purchase order not found",
+    });
+  } catch (error: any) {
+    return serverError("Error receiving goods", error);
+  }
+}
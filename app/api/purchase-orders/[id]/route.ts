@@ -0,0 +1,55 @@
+import { deletePurchaseOrder, getPurchaseOrderById, updatePurchaseOrder } from "@/lib/actions";
+import { actionResponse, checkBaseVersion, serverError } from "@/lib/api-response";
+
+// Interface for route params
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// GET handler to retrieve a specific purchase order
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const response = await getPurchaseOrderById(id);
+    return actionResponse(response, "Failed to fetch purchase order", {
+      notFound: "Purchase order not found",
+    });
+  } catch (error: any) {
+    return serverError("Error fetching purchase order", error);
+  }
+}
+
+// PUT handler to update a purchase order or change its status
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const data = await request.json();
+
+    const conflict = await checkBaseVersion(request, () => getPurchaseOrderById(id));
+    if (conflict) return conflict;
+
+    const response = await updatePurchaseOrder(id, data);
+    return actionResponse(response, "Failed to update purchase order", {
+      notFound: "Purchase order not found",
+    });
+  } catch (error: any) {
+    return serverError("Error updating purchase order", error);
+  }
+}
+
+// DELETE handler to delete a purchase order
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+
+    const conflict = await checkBaseVersion(request, () => getPurchaseOrderById(id));
+    if (conflict) return conflict;
+
+    const response = await deletePurchaseOrder(id);
+    return actionResponse(response, "Failed to delete purchase order");
+  } catch (error: any) {
+    return serverError("Error deleting purchase order", error);
+  }
+}
@@ -0,0 +1,24 @@
+import { createPurchaseOrder, getPurchaseOrders } from "@/lib/actions";
+import { actionResponse, serverError } from "@/lib/api-response";
+
+// GET handler to retrieve purchase orders, optionally only one supplier's with ?supplierId
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const response = await getPurchaseOrders(searchParams.get("supplierId") || undefined);
+    return actionResponse(response, "Failed to fetch purchase orders");
+  } catch (error: any) {
+    return serverError("Error fetching purchase orders", error);
+  }
+}
+
+// POST handler to draft a new purchase order
+export async function POST(request: Request) {
+  try {
+    const data = await request.json();
+    const response = await createPurchaseOrder(data);
+    return actionResponse(response, "Failed to create purchase order", { status: 201 });
+  } catch (error: any) {
+    return serverError("Error creating purchase order", error);
+  }
+}
@@ -0,0 +1,55 @@
+import { getSalaryById, updateSalary, deleteSalary } from "@/lib/actions";
+import { actionResponse, checkBaseVersion, serverError } from "@/lib/api-response";
+
+// Interface for route params
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// GET handler to retrieve a specific salary
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const response = await getSalaryById(id);
+    return actionResponse(response, "Failed to fetch salary", {
+      notFound: "Salary not found",
+    });
+  } catch (error: any) {
+    return serverError("Error fetching salary", error);
+  }
+}
+
+// PUT handler to update a specific salary
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const data = await request.json();
+
+    const conflict = await checkBaseVersion(request, () => getSalaryById(id));
+    if (conflict) return conflict;
+
+    const response = await updateSalary(id, data);
+    return actionResponse(response, "Failed to update salary", {
+      notFound: "Salary not found",
+    });
+  } catch (error: any) {
+    return serverError("Error updating salary", error);
+  }
+}
+
+// DELETE handler to delete a specific salary
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+
+    const conflict = await checkBaseVersion(request, () => getSalaryById(id));
+    if (conflict) return conflict;
+
+    const response = await deleteSalary(id);
+    return actionResponse(response, "Failed to delete salary");
+  } catch (error: any) {
+    return serverError("Error deleting salary", error);
+  }
+}
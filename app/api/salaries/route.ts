@@ -0,0 +1,23 @@
+import { getSalaries, createSalary } from "@/lib/actions";
+import { actionResponse, serverError } from "@/lib/api-response";
+
+// GET handler to retrieve all salaries
+export async function GET() {
+  try {
+    const response = await getSalaries();
+    return actionResponse(response, "Failed to fetch salaries");
+  } catch (error: any) {
+    return serverError("Error fetching salaries", error);
+  }
+}
+
+// POST handler to create a new salary
+export async function POST(request: Request) {
+  try {
+    const data = await request.json();
+    const response = await createSalary(data);
+    return actionResponse(response, "Failed to create salary", { status: 201 });
+  } catch (error: any) {
+    return serverError("Error creating salary", error);
+  }
+}
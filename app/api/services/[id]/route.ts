@@ -0,0 +1,55 @@
+import { getServiceById, updateService, deleteService } from "@/lib/actions";
+import { actionResponse, checkBaseVersion, serverError } from "@/lib/api-response";
+
+// Interface for route params
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// GET handler to retrieve a specific service
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const response = await getServiceById(id);
+    return actionResponse(response, "Failed to fetch service", {
+      notFound: "Service not found",
+    });
+  } catch (error: any) {
+    return serverError("Error fetching service", error);
+  }
+}
+
+// PUT handler to update a specific service
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const data = await request.json();
+
+    const conflict = await checkBaseVersion(request, () => getServiceById(id));
+    if (conflict) return conflict;
+
+    const response = await updateService(id, data);
+    return actionResponse(response, "Failed to update service", {
+      notFound: "Service not found",
+    });
+  } catch (error: any) {
+    return serverError("Error updating service", error);
+  }
+}
+
+// DELETE handler to delete a specific service
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+
+    const conflict = await checkBaseVersion(request, () => getServiceById(id));
+    if (conflict) return conflict;
+
+    const response = await deleteService(id);
+    return actionResponse(response, "Failed to delete service");
+  } catch (error: any) {
+    return serverError("Error deleting service", error);
+  }
+}
@@ -0,0 +1,23 @@
+import { getServices, createService } from "@/lib/actions";
+import { actionResponse, serverError } from "@/lib/api-response";
+
+// GET handler to retrieve all services
+export async function GET() {
+  try {
+    const response = await getServices();
+    return actionResponse(response, "Failed to fetch services");
+  } catch (error: any) {
+    return serverError("Error fetching services", error);
+  }
+}
+
+// POST handler to create a new service
+export async function POST(request: Request) {
+  try {
+    const data = await request.json();
+    const response = await createService(data);
+    return actionResponse(response, "Failed to create service", { status: 201 });
+  } catch (error: any) {
+    return serverError("Error creating service", error);
+  }
+}
@@ -0,0 +1,55 @@
+import { getSupplierById, updateSupplier, deleteSupplier } from "@/lib/actions";
+import { actionResponse, checkBaseVersion, serverError } from "@/lib/api-response";
+
+// Interface for route params
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// GET handler to retrieve a specific supplier
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const response = await getSupplierById(id);
+    return actionResponse(response, "Failed to fetch supplier", {
+      notFound: "Supplier not found",
+    });
+  } catch (error: any) {
+    return serverError("Error fetching supplier", error);
+  }
+}
+
+// PUT handler to update a specific supplier
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const data = await request.json();
+
+    const conflict = await checkBaseVersion(request, () => getSupplierById(id));
+    if (conflict) return conflict;
+
+    const response = await updateSupplier(id, data);
+    return actionResponse(response, "Failed to update supplier", {
+      notFound: "Supplier not found",
+    });
+  } catch (error: any) {
+    return serverError("Error updating supplier", error);
+  }
+}
+
+// DELETE handler to delete a specific supplier
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+
+    const conflict = await checkBaseVersion(request, () => getSupplierById(id));
+    if (conflict) return conflict;
+
+    const response = await deleteSupplier(id);
+    return actionResponse(response, "Failed to delete supplier");
+  } catch (error: any) {
+    return serverError("Error deleting supplier", error);
+  }
+}
@@ -0,0 +1,23 @@
+import { getSuppliers, createSupplier } from "@/lib/actions";
+import { actionResponse, serverError } from "@/lib/api-response";
+
+// GET handler to retrieve all suppliers
+export async function GET() {
+  try {
+    const response = await getSuppliers();
+    return actionResponse(response, "Failed to fetch suppliers");
+  } catch (error: any) {
+    return serverError("Error fetching suppliers", error);
+  }
+}
+
+// POST handler to create a new supplier
+export async function POST(request: Request) {
+  try {
+    const data = await request.json();
+    const response = await createSupplier(data);
+    return actionResponse(response, "Failed to create supplier", { status: 201 });
+  } catch (error: any) {
+    return serverError("Error creating supplier", error);
+  }
+}
@@ -0,0 +1,21 @@
+import { clockOff } from "@/lib/actions";
+import { actionResponse, serverError } from "@/lib/api-response";
+
+// Interface for route params
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// POST handler to stop a running clock
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const { notes } = await request.json().catch(() => ({}));
+    const response = await clockOff(id, notes);
+    return actionResponse(response, "Failed to clock off");
+  } catch (error: any) {
+    return serverError("Error clocking off", error);
+  }
+}
@@ -0,0 +1,32 @@
+import { deleteTimeEntry, updateTimeEntry } from "@/lib/actions";
+import { actionResponse, serverError } from "@/lib/api-response";
+
+// Interface for route params
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// PUT handler to correct the times or notes of a time entry
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const data = await request.json();
+    const response = await updateTimeEntry(id, data);
+    return actionResponse(response, "Failed to update time entry");
+  } catch (error: any) {
+    return serverError("Error updating time entry", error);
+  }
+}
+
+// DELETE handler to remove a time entry
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const response = await deleteTimeEntry(id);
+    return actionResponse(response, "Failed to delete time entry");
+  } catch (error: any) {
+    return serverError("Error deleting time entry", error);
+  }
+}
@@ -0,0 +1,47 @@
+import { getAppointments, getBays, getCars, getClients, getServices } from "@/lib/actions"
+import { AppointmentsCalendar } from "@/components/appointments/appointments-calendar"
+import { RefreshButton } from "@/components/refresh-button"
+
+export default async function AppointmentsPage() {
+  const [appointmentsResponse, baysResponse, clientsResponse, carsResponse, servicesResponse] = await Promise.all([
+    getAppointments(),
+    getBays(),
+    getClients(),
+    getCars(),
+    getServices(),
+  ])
+
+  const failed = [appointmentsResponse, baysResponse, clientsResponse, carsResponse, servicesResponse].find(
+    (response) => !response.success
+  )
+
+  if (failed) {
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold">Appointments</h1>
+          <RefreshButton />
+        </div>
+        <div className="p-4 border border-destructive/50 rounded-md bg-destructive/10 text-destructive">
+          Error loading appointments: {failed.error}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold">Appointments</h1>
+        <RefreshButton />
+      </div>
+      <AppointmentsCalendar
+        appointments={appointmentsResponse.data || []}
+        bays={baysResponse.data || []}
+        clients={clientsResponse.data || []}
+        cars={carsResponse.data || []}
+        services={servicesResponse.data || []}
+      />
+    </div>
+  )
+}
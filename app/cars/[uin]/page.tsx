@@ -19,7 +19,10 @@ export default async function CarDetailPage({
       car={data.car}
       client={data.client}
       insurance={data.insurance}
+      policies={data.policies}
       maintenanceHistory={data.maintenanceHistory}
+      mileageHistory={data.mileageHistory}
+      serviceSchedule={data.serviceSchedule}
       stats={data.stats}
     />
   )
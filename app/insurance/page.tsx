@@ -1,6 +1,17 @@
-import { getInsuranceCompanies } from "@/lib/actions"
+import {
+  getCars,
+  getClaims,
+  getInsuranceCompanies,
+  getInsurerReceivables,
+  getMaintenanceRequests,
+  getPolicies,
+} from "@/lib/actions"
 import { InsuranceTable } from "@/components/insurance/insurance-table"
+import { ClaimsTable } from "@/components/insurance/claims-table"
+import { PoliciesTable } from "@/components/insurance/policies-table"
+import { InsurerReceivables } from "@/components/insurance/insurer-receivables"
 import { RefreshButton } from "@/components/refresh-button"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 
 export default async function InsurancePage() {
   // Fetch insurance companies from the database
@@ -20,14 +31,49 @@ export default async function InsurancePage() {
     )
   }
 
+  // Policies, claims and receivables are secondary; the companies still show if they fail to load
+  const [policiesResult, carsResult, claimsResult, receivablesResult, requestsResult] = await Promise.all([
+    getPolicies(),
+    getCars(),
+    getClaims(),
+    getInsurerReceivables(),
+    getMaintenanceRequests(),
+  ])
+
   return (
     <div className="space-y-4">
       <div className="flex items-center justify-between">
         <h1 className="text-3xl font-bold">Insurance Companies</h1>
         <RefreshButton />
       </div>
-      <InsuranceTable insuranceCompanies={insuranceCompanies || []} />
+      <Tabs defaultValue="companies">
+        <TabsList>
+          <TabsTrigger value="companies">Companies</TabsTrigger>
+          <TabsTrigger value="policies">Policies</TabsTrigger>
+          <TabsTrigger value="claims">Claims</TabsTrigger>
+          <TabsTrigger value="receivables">Receivables</TabsTrigger>
+        </TabsList>
+        <TabsContent value="companies">
+          <InsuranceTable insuranceCompanies={insuranceCompanies || []} />
+        </TabsContent>
+        <TabsContent value="policies">
+          <PoliciesTable
+            policies={policiesResult.data || []}
+            insurers={insuranceCompanies || []}
+            cars={carsResult.data || []}
+          />
+        </TabsContent>
+        <TabsContent value="claims">
+          <ClaimsTable
+            claims={claimsResult.data || []}
+            insurers={insuranceCompanies || []}
+            requests={requestsResult.data || []}
+          />
+        </TabsContent>
+        <TabsContent value="receivables">
+          <InsurerReceivables receivables={receivablesResult.data || []} />
+        </TabsContent>
+      </Tabs>
     </div>
   )
 }
-
@@ -1,43 +1,84 @@
 import type React from "react"
 import type { Metadata } from "next"
 import { Inter } from "next/font/google"
+import { headers } from "next/headers"
+import { redirect } from "next/navigation"
 import "./globals.css"
 import { ThemeProvider } from "@/components/theme-provider"
 import Sidebar from "@/components/sidebar"
 import Header from "@/components/header"
 import { Toaster } from "@/components/ui/toaster"
 import { Providers } from "./providers"
+import { SettingsProvider } from "@/components/settings/settings-provider"
+import { CurrentUserProvider } from "@/components/auth/current-user-provider"
+import { getSettings } from "@/lib/actions"
+import { DEFAULT_SETTINGS, type SafeUser } from "@/lib/db"
+import { getCurrentUser } from "@/lib/auth/session"
 
 const inter = Inter({ subsets: ["latin"] })
 
-export const metadata: Metadata = {
-  title: "Mechanic Garage Management System",
-  description: "A comprehensive system for managing mechanic garage operations",
+export async function generateMetadata(): Promise<Metadata> {
+  const { data: settings } = await getSettings()
+  return {
+    title: `${(settings || DEFAULT_SETTINGS).general.garageName} Management System`,
+    description: "A comprehensive system for managing mechanic garage operations",
     generator: 'v0.dev'
+  }
 }
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode
 }>) {
+  const { data: settings } = await getSettings()
+  const currentUser = await getCurrentUser()
+  const pathname = (await headers()).get("x-pathname") || "/"
+
+  // Signed-out visitors only get the sign-in page, and an expired password
+  // has to be changed before anything else
+  const isAuthPage = pathname === "/login"
+  if (!currentUser && !isAuthPage) redirect("/login")
+  if (currentUser && isAuthPage) redirect("/")
+  if (currentUser?.passwordExpired && pathname !== "/account/password") {
+    redirect("/account/password")
+  }
+
+  // The client only needs the profile, not the session details
+  let user: SafeUser | null = null
+  if (currentUser) {
+    const { sessionId, passwordExpired, ...profile } = currentUser
+    user = profile
+  }
+
+  // Sign-in and forced password changes get a bare page without navigation
+  const isBarePage = !currentUser || currentUser.passwordExpired
+
   return (
     <html lang="en" suppressHydrationWarning>
       <body className={inter.className}>
         <ThemeProvider attribute="class" defaultTheme="system" enableSystem disableTransitionOnChange>
-          <div className="flex h-screen overflow-hidden">
-            <div className="hidden md:block">
-              <Sidebar />
-            </div>
-            <div className="flex flex-col flex-1 overflow-hidden">
-              <Header />
-              <main className="flex-1 overflow-auto p-4 md:p-6">
-                <Providers>
-                  {children}
-                </Providers>
-              </main>
-            </div>
-          </div>
+          <SettingsProvider settings={settings || DEFAULT_SETTINGS}>
+            <CurrentUserProvider user={user}>
+              {isBarePage ? (
+                <main className="flex min-h-screen items-center justify-center p-4">{children}</main>
+              ) : (
+                <div className="flex h-screen overflow-hidden">
+                  <div className="hidden md:block">
+                    <Sidebar />
+                  </div>
+                  <div className="flex flex-col flex-1 overflow-hidden">
+                    <Header />
+                    <main className="flex-1 overflow-auto p-4 md:p-6">
+                      <Providers>
+                        {children}
+                      </Providers>
+                    </main>
+                  </div>
+                </div>
+              )}
+            </CurrentUserProvider>
+          </SettingsProvider>
           <Toaster />
         </ThemeProvider>
       </body>
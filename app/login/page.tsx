@@ -0,0 +1,13 @@
+import { LoginForm } from "@/components/auth/login-form"
+import { needsSetup } from "@/lib/auth-actions"
+
+export default async function LoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ from?: string }>
+}) {
+  const { from } = await searchParams
+  const { data: setupRequired } = await needsSetup()
+
+  return <LoginForm setupRequired={!!setupRequired} redirectTo={from} />
+}
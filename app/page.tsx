@@ -1,8 +1,35 @@
-import { getSystemAnalytics } from "@/lib/actions"
+import { getBudgetAlerts, getExpiringPolicies, getServiceReminders, getSystemAnalytics } from "@/lib/actions"
 import { AnalyticsDashboard } from "@/components/dashboard/analytics-dashboard"
+import { ServiceReminders } from "@/components/dashboard/service-reminders"
+import { ExpiringPolicies } from "@/components/dashboard/expiring-policies"
+import { BudgetAlerts } from "@/components/dashboard/budget-alerts"
 
 export default async function DashboardPage() {
-  const { success, data, error } = await getSystemAnalytics("month")
+  const [{ success, data, error }, reminders, expiring, budgets] = await Promise.all([
+    getSystemAnalytics("month"),
+    getServiceReminders(),
+    getExpiringPolicies(),
+    getBudgetAlerts(),
+  ])
+
+  // Roles without access to cars don't get the reminder list
+  const serviceReminders = reminders.success && reminders.data ? (
+    <ServiceReminders reminders={reminders.data} />
+  ) : null
+
+  // Likewise for roles that can't see insurance
+  const expiringPolicies = expiring.success && expiring.data ? (
+    <ExpiringPolicies policies={expiring.data.policies} alertDays={expiring.data.alertDays} />
+  ) : null
+
+  // Budgets only show up when a category needs attention, and only for finance roles
+  const budgetAlerts = budgets.success && budgets.data && budgets.data.rows.length > 0 ? (
+    <BudgetAlerts
+      rows={budgets.data.rows}
+      alertPercent={budgets.data.alertPercent}
+      currency={budgets.data.currency}
+    />
+  ) : null
 
   // If we can't get analytics, show a basic dashboard
   if (!success || !data) {
@@ -12,10 +39,19 @@ export default async function DashboardPage() {
         <div className="p-4 border border-destructive/50 rounded-md bg-destructive/10 text-destructive">
           Error loading analytics: {error || "Failed to load dashboard data"}
         </div>
+        {serviceReminders}
+        {expiringPolicies}
+        {budgetAlerts}
       </div>
     )
   }
 
-  return <AnalyticsDashboard initialData={data} />
+  return (
+    <div className="space-y-6">
+      <AnalyticsDashboard initialData={data} />
+      {serviceReminders}
+      {expiringPolicies}
+      {budgetAlerts}
+    </div>
+  )
 }
-
@@ -0,0 +1,31 @@
+import { getProducts } from "@/lib/actions"
+import { StockCount } from "@/components/products/stock-count"
+import { RefreshButton } from "@/components/refresh-button"
+
+export default async function StockCountPage() {
+  const { success, data: products, error } = await getProducts()
+
+  if (!success) {
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold">Stock Count</h1>
+          <RefreshButton />
+        </div>
+        <div className="p-4 border border-destructive/50 rounded-md bg-destructive/10 text-destructive">
+          Error loading products: {error}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold">Stock Count</h1>
+        <RefreshButton />
+      </div>
+      <StockCount products={products || []} />
+    </div>
+  )
+}
@@ -9,6 +9,13 @@ export function Providers({ children }: { children: React.ReactNode }) {
   useEffect(() => {
     // Setup background sync process when component mounts (only in browser)
     setupBackgroundSync()
+
+    // Lets visited pages open offline; skipped in development where it would cache stale builds
+    if (process.env.NODE_ENV === 'production' && 'serviceWorker' in navigator) {
+      navigator.serviceWorker.register('/sw.js').catch((error) => {
+        console.error('Service worker registration failed:', error)
+      })
+    }
   }, [])
 
   return (
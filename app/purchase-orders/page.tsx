@@ -0,0 +1,41 @@
+import { getProducts, getPurchaseOrders, getSuppliers } from "@/lib/actions"
+import { PurchaseOrdersPageClient } from "@/components/purchase-orders/purchase-orders-page-client"
+import { RefreshButton } from "@/components/refresh-button"
+
+export default async function PurchaseOrdersPage() {
+  const [ordersResponse, suppliersResponse, productsResponse] = await Promise.all([
+    getPurchaseOrders(),
+    getSuppliers(),
+    getProducts(),
+  ])
+
+  const failed = [ordersResponse, suppliersResponse, productsResponse].find((response) => !response.success)
+
+  if (failed) {
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold">Purchase Orders</h1>
+          <RefreshButton />
+        </div>
+        <div className="p-4 border border-destructive/50 rounded-md bg-destructive/10 text-destructive">
+          Error loading purchase orders: {failed.error}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold">Purchase Orders</h1>
+        <RefreshButton />
+      </div>
+      <PurchaseOrdersPageClient
+        orders={ordersResponse.data || []}
+        suppliers={suppliersResponse.data || []}
+        products={productsResponse.data || []}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,13 @@
+import { StockAtDateReport } from "@/components/reports/stock-at-date-report"
+
+export default function StockReportPage() {
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold">Stock Valuation</h1>
+      </div>
+
+      <StockAtDateReport />
+    </div>
+  )
+}
@@ -0,0 +1,385 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useForm } from "react-hook-form"
+import * as z from "zod"
+import { addMinutes, differenceInMinutes, format } from "date-fns"
+import type { Appointment, Bay, Car, Client, Service } from "@/lib/db"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertTriangle, WifiOff } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { useOnlineStatus } from "@/lib/network-status"
+import { api } from "@/lib/api-client"
+import { SLOT_MINUTES, findBookingConflict } from "@/lib/appointments"
+
+const DURATION_OPTIONS = [30, 60, 90, 120, 180, 240, 360, 480]
+
+const appointmentSchema = z.object({
+  clientId: z.string().min(1, { message: "Client is required." }),
+  carUin: z.string().min(1, { message: "Car is required." }),
+  bayId: z.string().min(1, { message: "Bay is required." }),
+  date: z.string().min(1, { message: "Date is required." }),
+  startTime: z.string().min(1, { message: "Start time is required." }),
+  duration: z.coerce.number().int().min(SLOT_MINUTES, { message: `Book at least ${SLOT_MINUTES} minutes.` }),
+  serviceIds: z.array(z.string()),
+  notes: z.string().optional(),
+})
+
+type AppointmentFormValues = z.infer<typeof appointmentSchema>
+
+function formatDuration(minutes: number) {
+  const hours = Math.floor(minutes / 60)
+  const rest = minutes % 60
+  if (hours === 0) return `${rest} min`
+  return rest ? `${hours} h ${rest} min` : `${hours} h`
+}
+
+// The date and time inputs are in local time
+function toSlotTimes(values: Pick<AppointmentFormValues, "date" | "startTime" | "duration">) {
+  const start = new Date(`${values.date}T${values.startTime}`)
+  if (Number.isNaN(start.getTime())) return null
+  return {
+    startTime: start.toISOString(),
+    endTime: addMinutes(start, Number(values.duration) || 0).toISOString(),
+  }
+}
+
+interface AppointmentFormProps {
+  appointment?: Appointment
+  initialSlot?: { bayId: string; start: Date } // Set when booking from an empty calendar slot
+  clients: Client[]
+  cars: Car[]
+  services: Service[]
+  bays: Bay[]
+  appointments: Appointment[]
+  onSubmit: () => void
+  onCancel: () => void
+}
+
+export function AppointmentForm({
+  appointment,
+  initialSlot,
+  clients,
+  cars,
+  services,
+  bays,
+  appointments,
+  onSubmit,
+  onCancel,
+}: AppointmentFormProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [formError, setFormError] = useState<string | null>(null)
+  const isOnline = useOnlineStatus()
+  const { toast } = useToast()
+
+  const start = appointment ? new Date(appointment.startTime) : initialSlot?.start || new Date()
+  const duration = appointment
+    ? differenceInMinutes(new Date(appointment.endTime), new Date(appointment.startTime))
+    : 60
+  const activeBays = bays.filter((bay) => bay.isActive || bay.id === appointment?.bayId)
+
+  const form = useForm<AppointmentFormValues>({
+    resolver: zodResolver(appointmentSchema),
+    defaultValues: {
+      clientId: appointment?.clientId || "",
+      carUin: appointment?.carUin || "",
+      bayId: appointment?.bayId || initialSlot?.bayId || activeBays[0]?.id || "",
+      date: format(start, "yyyy-MM-dd"),
+      startTime: format(start, "HH:mm"),
+      duration,
+      serviceIds: appointment?.serviceIds || [],
+      notes: appointment?.notes || "",
+    },
+  })
+
+  const [clientId, carUin, bayId, date, startTime, selectedDuration] = form.watch([
+    "clientId",
+    "carUin",
+    "bayId",
+    "date",
+    "startTime",
+    "duration",
+  ])
+  const clientCars = cars.filter((car) => car.clientId === clientId)
+  const durationOptions = DURATION_OPTIONS.includes(duration)
+    ? DURATION_OPTIONS
+    : [...DURATION_OPTIONS, duration].sort((a, b) => a - b)
+
+  // Warn about double bookings while the slot is being picked; the server checks again on save
+  const conflict = useMemo(() => {
+    const bay = bays.find((b) => b.id === bayId)
+    const times = toSlotTimes({ date, startTime, duration: selectedDuration })
+    if (!bay || !carUin || !times) return null
+    return findBookingConflict({ id: appointment?.id, carUin, bayId, ...times }, appointments, bay)
+  }, [appointments, bays, appointment?.id, carUin, bayId, date, startTime, selectedDuration])
+
+  const handleClientChange = (value: string) => {
+    form.setValue("clientId", value)
+    // The car has to belong to the client
+    form.setValue("carUin", "")
+  }
+
+  const handleSubmit = async (values: AppointmentFormValues) => {
+    setFormError(null)
+    setIsSubmitting(true)
+
+    try {
+      const times = toSlotTimes(values)
+      if (!times) {
+        throw new Error("Please enter a valid date and start time")
+      }
+
+      const data = {
+        clientId: values.clientId,
+        carUin: values.carUin,
+        bayId: values.bayId,
+        serviceIds: values.serviceIds,
+        notes: values.notes,
+        ...times,
+      }
+
+      const response = appointment?.id
+        ? await api.put(`/api/appointments/${appointment.id}`, data, { baseVersion: appointment.updatedAt })
+        : await api.post("/api/appointments", data)
+
+      if (response.error) {
+        throw new Error(response.error.message || "Failed to save appointment")
+      }
+
+      const action = appointment?.id ? "updated" : "booked"
+      toast({
+        title: response.offline ? "Saved offline" : "Success",
+        description: response.offline
+          ? `Appointment will be ${action} when you're back online.`
+          : `Appointment ${action} successfully.`,
+      })
+
+      onSubmit()
+    } catch (error: any) {
+      setFormError(error.message || "An unexpected error occurred while processing the form")
+
+      toast({
+        title: "Error",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        {formError && <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">{formError}</div>}
+
+        {!isOnline && (
+          <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md p-3 mb-4">
+            <div className="flex items-center gap-2 text-yellow-800 dark:text-yellow-400">
+              <WifiOff className="h-4 w-4" />
+              <div className="text-sm font-medium">You are currently offline. Your changes will be saved locally and synchronized when your connection is restored.</div>
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="clientId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Client</FormLabel>
+                <Select onValueChange={handleClientChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a client" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {clients.map((client) => (
+                      <SelectItem key={client.id} value={client.id}>
+                        {client.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="carUin"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Car</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value} disabled={!clientId}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder={clientId ? "Select a car" : "Select a client first"} />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {clientCars.map((car) => (
+                      <SelectItem key={car.uin} value={car.uin}>
+                        {car.make} {car.model} ({car.licensePlate})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <FormField
+            control={form.control}
+            name="bayId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Bay</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a bay" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {activeBays.map((bay) => (
+                      <SelectItem key={bay.id} value={bay.id}>
+                        {bay.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="date"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Date</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="startTime"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Start Time</FormLabel>
+                <FormControl>
+                  <Input type="time" step={SLOT_MINUTES * 60} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="duration"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Duration</FormLabel>
+                <Select onValueChange={field.onChange} value={String(field.value)}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select duration" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {durationOptions.map((minutes) => (
+                      <SelectItem key={minutes} value={String(minutes)}>
+                        {formatDuration(minutes)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {conflict && (
+          <div className="flex items-center gap-2 rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            {conflict}
+          </div>
+        )}
+
+        <FormField
+          control={form.control}
+          name="serviceIds"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Services</FormLabel>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2 rounded-md border p-3 max-h-48 overflow-y-auto">
+                {services.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No services have been set up</p>
+                ) : (
+                  services.map((service) => (
+                    <label key={service.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={field.value.includes(service.id)}
+                        onCheckedChange={(checked) =>
+                          field.onChange(
+                            checked ? [...field.value, service.id] : field.value.filter((id) => id !== service.id)
+                          )
+                        }
+                      />
+                      {service.name}
+                    </label>
+                  ))
+                )}
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notes</FormLabel>
+              <FormControl>
+                <Textarea placeholder="What the customer reported, parts to order..." {...field} value={field.value || ""} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isSubmitting || !!conflict}>
+            {isSubmitting ? "Saving..." : appointment ? "Update Appointment" : "Book Appointment"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,546 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import {
+  addDays,
+  addMinutes,
+  differenceInMinutes,
+  format,
+  isSameDay,
+  isToday,
+  startOfDay,
+  startOfWeek,
+} from "date-fns"
+import { CalendarClock, ChevronLeft, ChevronRight, Pencil, PlusIcon, Settings2, Trash2, Wrench } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent } from "@/components/ui/card"
+import {
+  Dialog,
+  ScrollableDialogContent as DialogContent,
+  ScrollableDialogHeader as DialogHeader,
+  ScrollableDialogTitle as DialogTitle,
+  ScrollableDialogBody,
+} from "@/components/ui/scrollable-dialog"
+import { ConfirmationDialog } from "@/components/ui/confirmation-dialog"
+import { useToast } from "@/components/ui/use-toast"
+import { usePermission } from "@/components/auth/current-user-provider"
+import { AppointmentForm } from "@/components/appointments/appointment-form"
+import { BayManager } from "@/components/appointments/bay-manager"
+import { MaintenanceForm } from "@/components/maintenance/maintenance-form"
+import { api } from "@/lib/api-client"
+import {
+  APPOINTMENT_STATUS_LABELS,
+  CALENDAR_END_HOUR,
+  CALENDAR_START_HOUR,
+  SLOT_MINUTES,
+} from "@/lib/appointments"
+import type { Appointment, AppointmentStatus, Bay, Car, Client, Service } from "@/lib/db"
+import { cn } from "@/lib/utils"
+
+const SLOT_HEIGHT = 40 // px per slot row in the day view
+
+const STATUS_BADGE_VARIANTS: Record<AppointmentStatus, "secondary" | "warning" | "success" | "outline" | "destructive"> = {
+  scheduled: "secondary",
+  arrived: "warning",
+  converted: "success",
+  cancelled: "outline",
+  "no-show": "destructive",
+}
+
+const STATUS_BLOCK_CLASSES: Record<AppointmentStatus, string> = {
+  scheduled: "border-cyan-300 bg-cyan-50 dark:bg-cyan-900/30",
+  arrived: "border-yellow-300 bg-yellow-50 dark:bg-yellow-900/30",
+  converted: "border-green-300 bg-green-50 dark:bg-green-900/30",
+  cancelled: "border-muted bg-muted/50 text-muted-foreground line-through",
+  "no-show": "border-red-300 bg-red-50 text-muted-foreground dark:bg-red-900/30",
+}
+
+function AppointmentStatusBadge({ status }: { status: AppointmentStatus }) {
+  return <Badge variant={STATUS_BADGE_VARIANTS[status]}>{APPOINTMENT_STATUS_LABELS[status]}</Badge>
+}
+
+function formatTimeRange(appointment: Appointment) {
+  return `${format(new Date(appointment.startTime), "HH:mm")} - ${format(new Date(appointment.endTime), "HH:mm")}`
+}
+
+// Side-by-side columns for appointments sharing a bay, so bays with capacity above one stay readable
+function assignLanes(appointments: Appointment[]) {
+  const laneEnds: number[] = []
+  const lanes = new Map<string, number>()
+  for (const appointment of appointments) {
+    const start = new Date(appointment.startTime).getTime()
+    let lane = laneEnds.findIndex((end) => end <= start)
+    if (lane === -1) lane = laneEnds.length
+    laneEnds[lane] = new Date(appointment.endTime).getTime()
+    lanes.set(appointment.id, lane)
+  }
+  return { lanes, laneCount: Math.max(1, laneEnds.length) }
+}
+
+interface AppointmentsCalendarProps {
+  appointments: Appointment[]
+  bays: Bay[]
+  clients: Client[]
+  cars: Car[]
+  services: Service[]
+}
+
+export function AppointmentsCalendar({ appointments, bays, clients, cars, services }: AppointmentsCalendarProps) {
+  const router = useRouter()
+  const { toast } = useToast()
+  const canEdit = usePermission("appointments:edit")
+  const canDelete = usePermission("appointments:delete")
+  const canStartJob = usePermission("maintenance:edit")
+  const canManageBays = usePermission("settings:edit")
+
+  const [view, setView] = useState<"day" | "week">("day")
+  const [date, setDate] = useState(() => startOfDay(new Date()))
+  const [formState, setFormState] = useState<{ appointment?: Appointment; initialSlot?: { bayId: string; start: Date } } | null>(null)
+  const [selected, setSelected] = useState<Appointment | null>(null)
+  const [jobAppointment, setJobAppointment] = useState<Appointment | null>(null)
+  const [deleting, setDeleting] = useState<Appointment | null>(null)
+  const [isBayManagerOpen, setIsBayManagerOpen] = useState(false)
+  const [isUpdating, setIsUpdating] = useState(false)
+
+  const clientsById = useMemo(() => new Map(clients.map((client) => [client.id, client])), [clients])
+  const carsByUin = useMemo(() => new Map(cars.map((car) => [car.uin, car])), [cars])
+  const baysById = useMemo(() => new Map(bays.map((bay) => [bay.id, bay])), [bays])
+  const servicesById = useMemo(() => new Map(services.map((service) => [service.id, service])), [services])
+
+  const weekStart = startOfWeek(date, { weekStartsOn: 1 })
+  const weekDays = Array.from({ length: 7 }, (_, index) => addDays(weekStart, index))
+  const dayAppointments = appointments.filter((appointment) => isSameDay(new Date(appointment.startTime), date))
+
+  // Inactive bays still show while they have bookings on the day
+  const dayBays = bays.filter(
+    (bay) => bay.isActive || dayAppointments.some((appointment) => appointment.bayId === bay.id)
+  )
+
+  const slots = Array.from(
+    { length: ((CALENDAR_END_HOUR - CALENDAR_START_HOUR) * 60) / SLOT_MINUTES },
+    (_, index) => addMinutes(date, CALENDAR_START_HOUR * 60 + index * SLOT_MINUTES)
+  )
+
+  const describeCar = (carUin: string) => {
+    const car = carsByUin.get(carUin)
+    return car ? `${car.make} ${car.model} (${car.licensePlate})` : carUin
+  }
+
+  const move = (direction: 1 | -1) => setDate((current) => addDays(current, direction * (view === "day" ? 1 : 7)))
+
+  const refresh = () => {
+    setFormState(null)
+    setSelected(null)
+    router.refresh()
+  }
+
+  const setStatus = async (appointment: Appointment, status: AppointmentStatus) => {
+    setIsUpdating(true)
+    try {
+      const response = await api.put(
+        `/api/appointments/${appointment.id}`,
+        { status },
+        { baseVersion: appointment.updatedAt }
+      )
+      if (response.error) {
+        throw new Error(response.error.message || "Failed to update appointment")
+      }
+      toast({
+        title: response.offline ? "Saved offline" : "Success",
+        description: `Appointment marked as ${APPOINTMENT_STATUS_LABELS[status].toLowerCase()}.`,
+      })
+      refresh()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update appointment",
+        variant: "destructive",
+      })
+    } finally {
+      setIsUpdating(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!deleting) return
+    setIsUpdating(true)
+    try {
+      const response = await api.delete(`/api/appointments/${deleting.id}`, { baseVersion: deleting.updatedAt })
+      if (response.error) {
+        throw new Error(response.error.message || "Failed to delete appointment")
+      }
+      toast({ title: "Success", description: "Appointment deleted." })
+      setDeleting(null)
+      refresh()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete appointment",
+        variant: "destructive",
+      })
+    } finally {
+      setIsUpdating(false)
+    }
+  }
+
+  const renderDayView = () => {
+    const dayStart = addMinutes(date, CALENDAR_START_HOUR * 60)
+    const dayEnd = addMinutes(date, CALENDAR_END_HOUR * 60)
+
+    return (
+      <div className="overflow-x-auto rounded-md border">
+        <div
+          className="grid min-w-max"
+          style={{ gridTemplateColumns: `4rem repeat(${dayBays.length}, minmax(10rem, 1fr))` }}
+        >
+          <div className="border-b bg-muted/50" />
+          {dayBays.map((bay) => (
+            <div key={bay.id} className="border-b border-l bg-muted/50 px-2 py-2 text-sm font-semibold">
+              {bay.name}
+              <span className="ml-1 font-normal text-muted-foreground">
+                {bay.capacity > 1 && `(${bay.capacity} cars)`}
+                {!bay.isActive && " · inactive"}
+              </span>
+            </div>
+          ))}
+
+          <div>
+            {slots.map((slot) => (
+              <div key={slot.toISOString()} className="border-b pr-2 text-right text-xs text-muted-foreground" style={{ height: SLOT_HEIGHT }}>
+                {slot.getMinutes() === 0 && format(slot, "HH:mm")}
+              </div>
+            ))}
+          </div>
+
+          {dayBays.map((bay) => {
+            // Cancelled and no-show appointments don't hold the bay, so they stay off the grid
+            const bayAppointments = dayAppointments
+              .filter((appointment) => appointment.bayId === bay.id)
+              .filter((appointment) => appointment.status !== "cancelled" && appointment.status !== "no-show")
+            const { lanes, laneCount } = assignLanes(bayAppointments)
+
+            return (
+              <div key={bay.id} className="relative border-l">
+                {slots.map((slot) => (
+                  <button
+                    key={slot.toISOString()}
+                    type="button"
+                    className="block w-full border-b hover:bg-muted/50 disabled:cursor-default disabled:hover:bg-transparent"
+                    style={{ height: SLOT_HEIGHT }}
+                    disabled={!canEdit || !bay.isActive}
+                    onClick={() => setFormState({ initialSlot: { bayId: bay.id, start: slot } })}
+                  >
+                    <span className="sr-only">Book {bay.name} at {format(slot, "HH:mm")}</span>
+                  </button>
+                ))}
+
+                {bayAppointments.map((appointment) => {
+                  const start = new Date(Math.max(new Date(appointment.startTime).getTime(), dayStart.getTime()))
+                  const end = new Date(Math.min(new Date(appointment.endTime).getTime(), dayEnd.getTime()))
+                  if (end <= start) return null
+                  const lane = lanes.get(appointment.id) ?? 0
+
+                  return (
+                    <button
+                      key={appointment.id}
+                      type="button"
+                      className={cn(
+                        "absolute overflow-hidden rounded-md border px-2 py-1 text-left text-xs shadow-sm hover:shadow",
+                        STATUS_BLOCK_CLASSES[appointment.status]
+                      )}
+                      style={{
+                        top: (differenceInMinutes(start, dayStart) / SLOT_MINUTES) * SLOT_HEIGHT,
+                        height: Math.max((differenceInMinutes(end, start) / SLOT_MINUTES) * SLOT_HEIGHT - 2, 18),
+                        left: `calc(${(lane / laneCount) * 100}% + 2px)`,
+                        width: `calc(${100 / laneCount}% - 4px)`,
+                      }}
+                      onClick={() => setSelected(appointment)}
+                    >
+                      <div className="font-semibold">{formatTimeRange(appointment)}</div>
+                      <div className="truncate">{clientsById.get(appointment.clientId)?.name || "Unknown client"}</div>
+                      <div className="truncate text-muted-foreground">{describeCar(appointment.carUin)}</div>
+                    </button>
+                  )
+                })}
+              </div>
+            )
+          })}
+        </div>
+      </div>
+    )
+  }
+
+  const renderWeekView = () => (
+    <div className="grid grid-cols-1 gap-2 md:grid-cols-7">
+      {weekDays.map((day) => {
+        const appointmentsOnDay = appointments.filter((appointment) => isSameDay(new Date(appointment.startTime), day))
+        return (
+          <div key={day.toISOString()} className="min-h-[12rem] rounded-md border">
+            <button
+              type="button"
+              className={cn(
+                "w-full border-b bg-muted/50 px-2 py-2 text-left text-sm font-semibold hover:bg-muted",
+                isToday(day) && "text-cyan-600"
+              )}
+              onClick={() => {
+                setDate(day)
+                setView("day")
+              }}
+            >
+              {format(day, "EEE d MMM")}
+            </button>
+            <div className="space-y-1 p-1">
+              {appointmentsOnDay.length === 0 ? (
+                <p className="px-1 py-2 text-xs text-muted-foreground">No appointments</p>
+              ) : (
+                appointmentsOnDay.map((appointment) => (
+                  <button
+                    key={appointment.id}
+                    type="button"
+                    className={cn(
+                      "block w-full rounded-md border px-2 py-1 text-left text-xs hover:shadow",
+                      STATUS_BLOCK_CLASSES[appointment.status]
+                    )}
+                    onClick={() => setSelected(appointment)}
+                  >
+                    <div className="font-semibold">{formatTimeRange(appointment)}</div>
+                    <div className="truncate">{clientsById.get(appointment.clientId)?.name || "Unknown client"}</div>
+                    <div className="truncate text-muted-foreground">
+                      {baysById.get(appointment.bayId)?.name || "Unknown bay"}
+                    </div>
+                  </button>
+                ))
+              )}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => move(-1)}>
+            <ChevronLeft className="h-4 w-4" />
+            <span className="sr-only">Previous</span>
+          </Button>
+          <Button variant="outline" onClick={() => setDate(startOfDay(new Date()))}>
+            Today
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => move(1)}>
+            <ChevronRight className="h-4 w-4" />
+            <span className="sr-only">Next</span>
+          </Button>
+          <span className="ml-2 font-semibold">
+            {view === "day"
+              ? format(date, "EEEE d MMMM yyyy")
+              : `${format(weekStart, "d MMM")} - ${format(addDays(weekStart, 6), "d MMM yyyy")}`}
+          </span>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <div className="flex rounded-md border p-0.5">
+            <Button variant={view === "day" ? "secondary" : "ghost"} size="sm" onClick={() => setView("day")}>
+              Day
+            </Button>
+            <Button variant={view === "week" ? "secondary" : "ghost"} size="sm" onClick={() => setView("week")}>
+              Week
+            </Button>
+          </div>
+          {canManageBays && (
+            <Button variant="outline" onClick={() => setIsBayManagerOpen(true)}>
+              <Settings2 className="mr-2 h-4 w-4" />
+              Bays
+            </Button>
+          )}
+          {canEdit && (
+            <Button onClick={() => setFormState({})} disabled={!bays.some((bay) => bay.isActive)}>
+              <PlusIcon className="mr-2 h-4 w-4" />
+              New Appointment
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {bays.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <CalendarClock className="mx-auto mb-4 h-10 w-10 text-muted-foreground" />
+            <p className="text-muted-foreground">
+              {canManageBays
+                ? "Add your workshop bays to start booking appointments."
+                : "No workshop bays have been set up yet. Ask the owner to add them in order to book appointments."}
+            </p>
+            {canManageBays && (
+              <Button className="mt-4" onClick={() => setIsBayManagerOpen(true)}>
+                <PlusIcon className="mr-2 h-4 w-4" />
+                Add Bays
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      ) : view === "day" ? (
+        renderDayView()
+      ) : (
+        renderWeekView()
+      )}
+
+      {/* Appointment Details Dialog */}
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Appointment</DialogTitle>
+          </DialogHeader>
+          <ScrollableDialogBody>
+            {selected && (
+              <div className="space-y-4">
+                <div className="grid grid-cols-[8rem_1fr] gap-y-2 text-sm">
+                  <span className="text-muted-foreground">Status</span>
+                  <span>
+                    <AppointmentStatusBadge status={selected.status} />
+                  </span>
+                  <span className="text-muted-foreground">When</span>
+                  <span>
+                    {format(new Date(selected.startTime), "EEE d MMM yyyy")}, {formatTimeRange(selected)}
+                  </span>
+                  <span className="text-muted-foreground">Bay</span>
+                  <span>{baysById.get(selected.bayId)?.name || "Unknown bay"}</span>
+                  <span className="text-muted-foreground">Client</span>
+                  <Link href={`/clients/${selected.clientId}`} className="hover:underline">
+                    {clientsById.get(selected.clientId)?.name || "Unknown client"}
+                  </Link>
+                  <span className="text-muted-foreground">Car</span>
+                  <Link href={`/cars/${selected.carUin}`} className="hover:underline">
+                    {describeCar(selected.carUin)}
+                  </Link>
+                  <span className="text-muted-foreground">Services</span>
+                  <span>
+                    {selected.serviceIds.map((id) => servicesById.get(id)?.name || id).join(", ") || "-"}
+                  </span>
+                  {selected.notes && (
+                    <>
+                      <span className="text-muted-foreground">Notes</span>
+                      <span className="whitespace-pre-wrap">{selected.notes}</span>
+                    </>
+                  )}
+                </div>
+
+                <div className="flex flex-wrap justify-end gap-2">
+                  {canDelete && (
+                    <Button variant="ghost" disabled={isUpdating} onClick={() => setDeleting(selected)}>
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      Delete
+                    </Button>
+                  )}
+                  {canEdit && (selected.status === "scheduled" || selected.status === "arrived") && (
+                    <>
+                      <Button variant="outline" disabled={isUpdating} onClick={() => setStatus(selected, "cancelled")}>
+                        Cancel Booking
+                      </Button>
+                      <Button
+                        variant="outline"
+                        disabled={isUpdating}
+                        onClick={() => setFormState({ appointment: selected })}
+                      >
+                        <Pencil className="mr-2 h-4 w-4" />
+                        Edit
+                      </Button>
+                    </>
+                  )}
+                  {canEdit && selected.status === "scheduled" && (
+                    <>
+                      <Button variant="outline" disabled={isUpdating} onClick={() => setStatus(selected, "no-show")}>
+                        No-show
+                      </Button>
+                      <Button disabled={isUpdating} onClick={() => setStatus(selected, "arrived")}>
+                        Mark Arrived
+                      </Button>
+                    </>
+                  )}
+                  {canStartJob && selected.status === "arrived" && (
+                    <Button
+                      disabled={isUpdating}
+                      onClick={() => {
+                        setJobAppointment(selected)
+                        setSelected(null)
+                      }}
+                    >
+                      <Wrench className="mr-2 h-4 w-4" />
+                      Start Job
+                    </Button>
+                  )}
+                  {canEdit && (selected.status === "cancelled" || selected.status === "no-show") && (
+                    <Button variant="outline" disabled={isUpdating} onClick={() => setStatus(selected, "scheduled")}>
+                      Reinstate
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+          </ScrollableDialogBody>
+        </DialogContent>
+      </Dialog>
+
+      {/* Book / Edit Appointment Dialog */}
+      <Dialog open={!!formState} onOpenChange={(open) => !open && setFormState(null)}>
+        <DialogContent className="sm:max-w-[700px]">
+          <DialogHeader>
+            <DialogTitle>{formState?.appointment ? "Edit Appointment" : "Book Appointment"}</DialogTitle>
+          </DialogHeader>
+          <ScrollableDialogBody>
+            {formState && (
+              <AppointmentForm
+                appointment={formState.appointment}
+                initialSlot={formState.initialSlot}
+                clients={clients}
+                cars={cars}
+                services={services}
+                bays={bays}
+                appointments={appointments}
+                onSubmit={refresh}
+                onCancel={() => setFormState(null)}
+              />
+            )}
+          </ScrollableDialogBody>
+        </DialogContent>
+      </Dialog>
+
+      {/* Start Job Dialog */}
+      <Dialog open={!!jobAppointment} onOpenChange={(open) => !open && setJobAppointment(null)}>
+        <DialogContent className="sm:max-w-[800px]">
+          <DialogHeader>
+            <DialogTitle>New Maintenance Request</DialogTitle>
+          </DialogHeader>
+          <ScrollableDialogBody>
+            {jobAppointment && (
+              <MaintenanceForm
+                appointment={jobAppointment}
+                onSubmit={() => {
+                  setJobAppointment(null)
+                  router.refresh()
+                }}
+                onCancel={() => setJobAppointment(null)}
+              />
+            )}
+          </ScrollableDialogBody>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmationDialog
+        open={!!deleting}
+        onOpenChange={(open) => !open && setDeleting(null)}
+        title="Delete Appointment"
+        description="Are you sure you want to delete this appointment? Cancelling keeps it on record instead."
+        onConfirm={handleDelete}
+        isLoading={isUpdating}
+      />
+
+      {canManageBays && <BayManager bays={bays} open={isBayManagerOpen} onOpenChange={setIsBayManagerOpen} />}
+    </div>
+  )
+}
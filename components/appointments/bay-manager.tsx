@@ -0,0 +1,165 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ConfirmationDialog } from "@/components/ui/confirmation-dialog"
+import { toast } from "@/components/ui/use-toast"
+import { createBay, deleteBay, updateBay } from "@/lib/actions"
+import type { Bay } from "@/lib/db"
+
+interface BayManagerProps {
+  bays: Bay[]
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// Workshop bays and how many cars each can take at once
+export function BayManager({ bays, open, onOpenChange }: BayManagerProps) {
+  const router = useRouter()
+  const [isSaving, setIsSaving] = useState(false)
+  const [newName, setNewName] = useState("")
+  const [newCapacity, setNewCapacity] = useState(1)
+  const [deleteTarget, setDeleteTarget] = useState<Bay | null>(null)
+
+  const runAction = async (action: () => Promise<{ success: boolean; error?: string }>, successMessage: string) => {
+    setIsSaving(true)
+    const response = await action()
+    setIsSaving(false)
+
+    if (!response.success) {
+      toast({
+        title: "Error",
+        description: response.error || "Failed to save bay.",
+        variant: "destructive",
+      })
+      return false
+    }
+
+    toast({ title: "Success", description: successMessage })
+    router.refresh()
+    return true
+  }
+
+  const handleAdd = async () => {
+    const saved = await runAction(() => createBay({ name: newName, capacity: newCapacity }), "Bay added.")
+    if (saved) {
+      setNewName("")
+      setNewCapacity(1)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return
+    const bay = deleteTarget
+    await runAction(() => deleteBay(bay.id), `${bay.name} deleted.`)
+    setDeleteTarget(null)
+  }
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>Workshop Bays</DialogTitle>
+            <DialogDescription>
+              Capacity is how many cars a bay can hold at the same time. Inactive bays can't take new bookings.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead className="w-24">Capacity</TableHead>
+                <TableHead className="w-20">Active</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {bays.map((bay) => (
+                <TableRow key={bay.id}>
+                  <TableCell>
+                    <Input
+                      defaultValue={bay.name}
+                      disabled={isSaving}
+                      onBlur={(event) => {
+                        const name = event.target.value.trim()
+                        if (name && name !== bay.name) runAction(() => updateBay(bay.id, { name }), "Bay renamed.")
+                      }}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={1}
+                      defaultValue={bay.capacity}
+                      disabled={isSaving}
+                      onBlur={(event) => {
+                        const capacity = Number(event.target.value)
+                        if (capacity !== bay.capacity) {
+                          runAction(() => updateBay(bay.id, { capacity }), "Bay capacity updated.")
+                        }
+                      }}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={bay.isActive}
+                      disabled={isSaving}
+                      onCheckedChange={(isActive) =>
+                        runAction(
+                          () => updateBay(bay.id, { isActive }),
+                          isActive ? `${bay.name} is open for bookings.` : `${bay.name} is closed for bookings.`
+                        )
+                      }
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="icon" disabled={isSaving} onClick={() => setDeleteTarget(bay)}>
+                      <Trash2 className="h-4 w-4" />
+                      <span className="sr-only">Delete</span>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              <TableRow>
+                <TableCell>
+                  <Input placeholder="e.g. Bay 1, Lift A" value={newName} onChange={(event) => setNewName(event.target.value)} />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={newCapacity}
+                    onChange={(event) => setNewCapacity(Number(event.target.value))}
+                  />
+                </TableCell>
+                <TableCell colSpan={2}>
+                  <Button size="sm" disabled={isSaving || !newName.trim()} onClick={handleAdd}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add
+                  </Button>
+                </TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmationDialog
+        open={!!deleteTarget}
+        onOpenChange={(open) => !open && setDeleteTarget(null)}
+        title="Delete bay"
+        description={`Delete ${deleteTarget?.name}? Bays with upcoming appointments can't be deleted, mark them inactive instead.`}
+        onConfirm={handleDelete}
+        isLoading={isSaving}
+      />
+    </>
+  )
+}
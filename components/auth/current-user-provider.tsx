@@ -0,0 +1,22 @@
+"use client"
+
+import React, { createContext, useContext } from "react"
+import type { SafeUser } from "@/lib/db"
+import { hasPermission, type Permission } from "@/lib/auth/permissions"
+
+const CurrentUserContext = createContext<SafeUser | null>(null)
+
+export function CurrentUserProvider({ user, children }: { user: SafeUser | null; children: React.ReactNode }) {
+  return <CurrentUserContext.Provider value={user}>{children}</CurrentUserContext.Provider>
+}
+
+// Null on the sign-in pages
+export function useCurrentUser(): SafeUser | null {
+  return useContext(CurrentUserContext)
+}
+
+// For hiding UI only; the server actions check permissions again
+export function usePermission(permission: Permission): boolean {
+  const user = useCurrentUser()
+  return hasPermission(user?.role, permission)
+}
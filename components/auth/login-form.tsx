@@ -0,0 +1,230 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useForm } from "react-hook-form"
+import * as z from "zod"
+import { Button } from "@/components/ui/button"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { toast } from "@/components/ui/use-toast"
+import { useSettings } from "@/components/settings/settings-provider"
+import { login, setupOwner } from "@/lib/auth-actions"
+import { MIN_PASSWORD_LENGTH } from "@/lib/auth/password-policy"
+import { clearSessionData } from "@/hooks/use-sign-out"
+
+const loginSchema = z.object({
+  username: z.string().min(1, { message: "Username is required." }),
+  password: z.string().min(1, { message: "Password is required." }),
+})
+
+const setupSchema = z
+  .object({
+    name: z.string().min(2, { message: "Name must be at least 2 characters." }),
+    username: z.string().min(3, { message: "Username must be at least 3 characters." }),
+    password: z.string().min(MIN_PASSWORD_LENGTH, {
+      message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`,
+    }),
+    confirmPassword: z.string(),
+  })
+  .refine((values) => values.password === values.confirmPassword, {
+    message: "Passwords do not match.",
+    path: ["confirmPassword"],
+  })
+
+// Only follow same-site paths back after signing in
+function getSafeRedirect(redirectTo?: string) {
+  return redirectTo && redirectTo.startsWith("/") && !redirectTo.startsWith("//") ? redirectTo : "/"
+}
+
+export function LoginForm({ setupRequired, redirectTo }: { setupRequired: boolean; redirectTo?: string }) {
+  const router = useRouter()
+  const { general } = useSettings()
+  const [isLoading, setIsLoading] = useState(false)
+
+  // Signed-out users land here, including when their session expired, so
+  // nothing from that session may carry over to whoever signs in next
+  useEffect(() => {
+    clearSessionData()
+  }, [])
+
+  const loginForm = useForm<z.infer<typeof loginSchema>>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: { username: "", password: "" },
+  })
+
+  const setupForm = useForm<z.infer<typeof setupSchema>>({
+    resolver: zodResolver(setupSchema),
+    defaultValues: { name: "", username: "", password: "", confirmPassword: "" },
+  })
+
+  const finish = (destination: string) => {
+    router.replace(destination)
+    router.refresh()
+  }
+
+  const onLogin = async (values: z.infer<typeof loginSchema>) => {
+    setIsLoading(true)
+    try {
+      const response = await login(values.username, values.password)
+      if (!response.success) {
+        throw new Error(response.error || "Failed to sign in")
+      }
+      finish(response.data?.passwordExpired ? "/account/password" : getSafeRedirect(redirectTo))
+    } catch (error) {
+      toast({
+        title: "Sign in failed",
+        description: error instanceof Error ? error.message : "Failed to sign in.",
+        variant: "destructive",
+      })
+      loginForm.resetField("password")
+      setIsLoading(false)
+    }
+  }
+
+  const onSetup = async (values: z.infer<typeof setupSchema>) => {
+    setIsLoading(true)
+    try {
+      const response = await setupOwner({
+        name: values.name,
+        username: values.username,
+        password: values.password,
+      })
+      if (!response.success) {
+        throw new Error(response.error || "Failed to create owner account")
+      }
+      toast({
+        title: "Account created",
+        description: "Your owner account is ready. You can add staff accounts under Settings.",
+        variant: "success",
+      })
+      finish("/")
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create owner account.",
+        variant: "destructive",
+      })
+      setIsLoading(false)
+    }
+  }
+
+  if (setupRequired) {
+    return (
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Welcome to {general.garageName}</CardTitle>
+          <CardDescription>Create the owner account. The owner can add accounts for the rest of the team.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...setupForm}>
+            <form onSubmit={setupForm.handleSubmit(onSetup)} className="space-y-4">
+              <FormField
+                control={setupForm.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Full Name</FormLabel>
+                    <FormControl>
+                      <Input autoComplete="name" {...field} />
+                    </FormControl>
+                    <FormDescription>Shown in the activity log next to your changes.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={setupForm.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Username</FormLabel>
+                    <FormControl>
+                      <Input autoComplete="username" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={setupForm.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="new-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={setupForm.control}
+                name="confirmPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Confirm Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="new-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" className="w-full" disabled={isLoading}>
+                {isLoading ? "Creating account..." : "Create Owner Account"}
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle>{general.garageName}</CardTitle>
+        <CardDescription>Sign in to continue.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...loginForm}>
+          <form onSubmit={loginForm.handleSubmit(onLogin)} className="space-y-4">
+            <FormField
+              control={loginForm.control}
+              name="username"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Username</FormLabel>
+                  <FormControl>
+                    <Input autoComplete="username" autoFocus {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={loginForm.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Password</FormLabel>
+                  <FormControl>
+                    <Input type="password" autoComplete="current-password" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" className="w-full" disabled={isLoading}>
+              {isLoading ? "Signing in..." : "Sign In"}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  )
+}
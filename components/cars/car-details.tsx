@@ -2,13 +2,15 @@
 
 import { useState } from "react"
 import { useRouter } from "next/navigation"
-import { formatCurrency } from "@/lib/utils"
+import { useFormatCurrency } from "@/components/settings/settings-provider"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { CarForm } from "@/components/cars/car-form"
 import { MaintenanceForm } from "@/components/maintenance/maintenance-form"
+import { CarMileage } from "@/components/cars/car-mileage"
+import { CarPolicies } from "@/components/cars/car-policies"
 import {
   Dialog,
   DialogTrigger,
@@ -30,7 +32,8 @@ import {
   Legend,
 } from "recharts"
 import { ArrowLeft, Car, Plus } from "lucide-react"
-import type { Car as CarType, Client, Insurance, MaintenanceRequest } from "@/lib/db"
+import type { Car as CarType, Client, Insurance, InsurancePolicy, MaintenanceRequest } from "@/lib/db"
+import { formatDistance, type OdometerReading, type ServiceScheduleItem } from "@/lib/service-reminders"
 
 interface EnrichedMaintenanceRequest extends MaintenanceRequest {
   serviceDetails?: Array<{
@@ -53,16 +56,30 @@ interface CarDetailsProps {
   car: CarType
   client: Client
   insurance: Insurance | null
+  policies: InsurancePolicy[]
   maintenanceHistory: EnrichedMaintenanceRequest[]
+  mileageHistory: OdometerReading[]
+  serviceSchedule: ServiceScheduleItem[]
   stats: {
     maintenanceCount: number
     totalCost: number
     outstandingBalance: number
     lastService?: Date | null
+    estimatedOdometer?: number
   }
 }
 
-export function CarDetails({ car, client, insurance, maintenanceHistory, stats }: CarDetailsProps) {
+export function CarDetails({
+  car,
+  client,
+  insurance,
+  policies,
+  maintenanceHistory,
+  mileageHistory,
+  serviceSchedule,
+  stats,
+}: CarDetailsProps) {
+  const formatCurrency = useFormatCurrency()
   const router = useRouter()
   const [isEditCarDialogOpen, setIsEditCarDialogOpen] = useState(false)
   const [isAddMaintenanceDialogOpen, setIsAddMaintenanceDialogOpen] = useState(false)
@@ -159,7 +176,10 @@ export function CarDetails({ car, client, insurance, maintenanceHistory, stats }
             <ScrollableDialogBody>
               <CarForm
                 car={car}
-                onSubmit={() => setIsEditCarDialogOpen(false)}
+                onSubmit={() => {
+                  setIsEditCarDialogOpen(false)
+                  router.refresh()
+                }}
                 onCancel={() => setIsEditCarDialogOpen(false)}
               />
             </ScrollableDialogBody>
@@ -295,45 +315,22 @@ export function CarDetails({ car, client, insurance, maintenanceHistory, stats }
                 <p className="text-sm font-medium">Last Service</p>
                 <p>{stats.lastService ? new Date(stats.lastService).toLocaleDateString() : "Never"}</p>
               </div>
+              <div>
+                <p className="text-sm font-medium">Odometer (estimated)</p>
+                <p>{stats.estimatedOdometer !== undefined ? formatDistance(stats.estimatedOdometer) : "No readings yet"}</p>
+              </div>
             </CardContent>
           </Card>
         </div>
 
         <div className="mt-4">
-          <Card>
-            <CardHeader>
-              <CardTitle>Insurance Information</CardTitle>
-            </CardHeader>
-            <CardContent>
-              {insurance ? (
-                <div className="space-y-2">
-                  <div>
-                    <p className="text-sm font-medium">Insurance Company</p>
-                    <p>{insurance.name}</p>
-                  </div>
-                  <div>
-                    <p className="text-sm font-medium">Policy Number</p>
-                    <p>{insurance.policyNumber || "Not provided"}</p>
-                  </div>
-                  <div>
-                    <p className="text-sm font-medium">Coverage Type</p>
-                    <p>{insurance.coverageType || "Not specified"}</p>
-                  </div>
-                  <div>
-                    <p className="text-sm font-medium">Expiry Date</p>
-                    <p>{insurance.expiryDate ? new Date(insurance.expiryDate).toLocaleDateString() : "Not provided"}</p>
-                  </div>
-                </div>
-              ) : (
-                <p className="text-muted-foreground">No insurance information available</p>
-              )}
-            </CardContent>
-          </Card>
+          <CarPolicies carUin={car.uin} policies={policies} />
         </div>
 
         <Tabs defaultValue="history">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="history">Maintenance History</TabsTrigger>
+            <TabsTrigger value="mileage">Mileage & Schedule</TabsTrigger>
             <TabsTrigger value="services">Services & Parts</TabsTrigger>
             <TabsTrigger value="analytics">Analytics</TabsTrigger>
           </TabsList>
@@ -355,7 +352,10 @@ export function CarDetails({ car, client, insurance, maintenanceHistory, stats }
                     <MaintenanceForm
                       initialCarUin={car.uin}
                       initialClientId={client.id}
-                      onSubmit={() => setIsAddMaintenanceDialogOpen(false)}
+                      onSubmit={() => {
+                        setIsAddMaintenanceDialogOpen(false)
+                        router.refresh()
+                      }}
                       onCancel={() => setIsAddMaintenanceDialogOpen(false)}
                     />
                   </ScrollableDialogBody>
@@ -379,6 +379,7 @@ export function CarDetails({ car, client, insurance, maintenanceHistory, stats }
                     <tr>
                       <th className="px-4 py-3.5 text-left text-sm font-semibold">ID</th>
                       <th className="px-4 py-3.5 text-left text-sm font-semibold">Date</th>
+                      <th className="px-4 py-3.5 text-left text-sm font-semibold">Odometer</th>
                       <th className="px-4 py-3.5 text-left text-sm font-semibold">Status</th>
                       <th className="px-4 py-3.5 text-left text-sm font-semibold">Services</th>
                       <th className="px-4 py-3.5 text-left text-sm font-semibold">Products</th>
@@ -394,6 +395,9 @@ export function CarDetails({ car, client, insurance, maintenanceHistory, stats }
                         <td className="whitespace-nowrap px-4 py-2 text-sm">
                           {new Date(request.startDate).toLocaleDateString()}
                         </td>
+                        <td className="whitespace-nowrap px-4 py-2 text-sm">
+                          {request.odometer != null ? formatDistance(request.odometer) : "-"}
+                        </td>
                         <td className="whitespace-nowrap px-4 py-2 text-sm">
                           <Badge
                             variant={
@@ -438,6 +442,14 @@ export function CarDetails({ car, client, insurance, maintenanceHistory, stats }
             )}
           </TabsContent>
 
+          <TabsContent value="mileage" className="space-y-4">
+            <CarMileage
+              mileageHistory={mileageHistory}
+              serviceSchedule={serviceSchedule}
+              estimatedOdometer={stats.estimatedOdometer}
+            />
+          </TabsContent>
+
           <TabsContent value="services" className="space-y-4">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <Card>
@@ -150,7 +150,7 @@ export function CarForm({ car, onSubmit, onCancel, isLoading: externalLoading =
       
       // Use the appropriate HTTP method based on the operation
       const response = car?.uin
-        ? await api.put(endpoint, values)
+        ? await api.put(endpoint, values, { baseVersion: car.updatedAt })
         : await api.post(endpoint, values);
       
       if (response.error) {
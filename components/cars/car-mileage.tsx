@@ -0,0 +1,163 @@
+"use client"
+
+import { format } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts"
+import {
+  describeRemaining,
+  formatDistance,
+  type OdometerReading,
+  type ServiceDueStatus,
+  type ServiceScheduleItem,
+} from "@/lib/service-reminders"
+
+const STATUS_LABELS: Record<ServiceDueStatus, string> = {
+  overdue: "Overdue",
+  "due-soon": "Due soon",
+  ok: "OK",
+}
+
+export function ServiceDueBadge({ status }: { status: ServiceDueStatus }) {
+  return (
+    <Badge variant={status === "overdue" ? "destructive" : status === "due-soon" ? "warning" : "success"}>
+      {STATUS_LABELS[status]}
+    </Badge>
+  )
+}
+
+interface CarMileageProps {
+  mileageHistory: OdometerReading[]
+  serviceSchedule: ServiceScheduleItem[]
+  estimatedOdometer?: number
+}
+
+export function CarMileage({ mileageHistory, serviceSchedule, estimatedOdometer }: CarMileageProps) {
+  const chartData = mileageHistory.map((reading) => ({
+    date: format(new Date(reading.date), "MMM d, yyyy"),
+    odometer: reading.odometer,
+  }))
+  const lastReading = mileageHistory[mileageHistory.length - 1]
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Service Schedule</CardTitle>
+          <CardDescription>
+            Next due dates for services with a repeat interval, counted from the last time each was done here
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {serviceSchedule.length === 0 ? (
+            <div className="text-center py-4">
+              <p className="text-muted-foreground">No interval services have been done on this car yet</p>
+            </div>
+          ) : (
+            <div className="rounded-md border overflow-hidden">
+              <table className="min-w-full divide-y divide-border">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="px-4 py-3.5 text-left text-sm font-semibold">Service</th>
+                    <th className="px-4 py-3.5 text-left text-sm font-semibold">Last Done</th>
+                    <th className="px-4 py-3.5 text-left text-sm font-semibold">Next Due</th>
+                    <th className="px-4 py-3.5 text-left text-sm font-semibold">Remaining</th>
+                    <th className="px-4 py-3.5 text-left text-sm font-semibold">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border bg-background">
+                  {serviceSchedule.map((item) => (
+                    <tr key={item.serviceId}>
+                      <td className="whitespace-nowrap px-4 py-2 text-sm font-medium">{item.serviceName}</td>
+                      <td className="whitespace-nowrap px-4 py-2 text-sm">
+                        {new Date(item.lastServiceDate).toLocaleDateString()}
+                        {item.lastServiceOdometer !== undefined && ` at ${formatDistance(item.lastServiceOdometer)}`}
+                      </td>
+                      <td className="whitespace-nowrap px-4 py-2 text-sm">
+                        {[
+                          item.nextDueOdometer !== undefined ? formatDistance(item.nextDueOdometer) : null,
+                          item.nextDueDate ? new Date(item.nextDueDate).toLocaleDateString() : null,
+                        ]
+                          .filter(Boolean)
+                          .join(" or ") || "-"}
+                      </td>
+                      <td className="whitespace-nowrap px-4 py-2 text-sm">{describeRemaining(item)}</td>
+                      <td className="whitespace-nowrap px-4 py-2 text-sm">
+                        <ServiceDueBadge status={item.status} />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Mileage History</CardTitle>
+          <CardDescription>
+            {lastReading
+              ? `Last reading ${formatDistance(lastReading.odometer)} on ${new Date(lastReading.date).toLocaleDateString()}`
+              : "Odometer readings are recorded with each maintenance request"}
+            {estimatedOdometer !== undefined &&
+              lastReading &&
+              estimatedOdometer > lastReading.odometer &&
+              ` · about ${formatDistance(estimatedOdometer)} today`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {mileageHistory.length === 0 ? (
+            <div className="text-center py-4">
+              <p className="text-muted-foreground">No odometer readings recorded</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="h-[250px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="date" />
+                    <YAxis />
+                    <Tooltip formatter={(value) => formatDistance(Number(value))} />
+                    <Line type="monotone" dataKey="odometer" name="Odometer" stroke="#8884d8" activeDot={{ r: 6 }} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="rounded-md border overflow-hidden self-start">
+                <table className="min-w-full divide-y divide-border">
+                  <thead className="bg-muted/50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-sm font-semibold">Date</th>
+                      <th className="px-4 py-2 text-right text-sm font-semibold">Odometer</th>
+                      <th className="px-4 py-2 text-right text-sm font-semibold">Since Previous</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border bg-background">
+                    {[...mileageHistory].reverse().map((reading, index, readings) => {
+                      const previous = readings[index + 1]
+                      return (
+                        <tr key={reading.maintenanceId}>
+                          <td className="whitespace-nowrap px-4 py-2 text-sm">
+                            {new Date(reading.date).toLocaleDateString()}
+                          </td>
+                          <td className="whitespace-nowrap px-4 py-2 text-sm text-right">
+                            {formatDistance(reading.odometer)}
+                          </td>
+                          <td className="whitespace-nowrap px-4 py-2 text-sm text-right text-muted-foreground">
+                            {previous ? `+${formatDistance(reading.odometer - previous.odometer)}` : "-"}
+                          </td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
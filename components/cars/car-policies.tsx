@@ -0,0 +1,187 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { Edit, Plus, Trash2 } from "lucide-react"
+import type { Insurance, InsurancePolicy } from "@/lib/db"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  Dialog,
+  ScrollableDialogContent as DialogContent,
+  ScrollableDialogHeader as DialogHeader,
+  ScrollableDialogTitle as DialogTitle,
+  ScrollableDialogBody,
+} from "@/components/ui/scrollable-dialog"
+import { ConfirmationDialog } from "@/components/ui/confirmation-dialog"
+import { useToast } from "@/hooks/use-toast"
+import { usePermission } from "@/components/auth/current-user-provider"
+import { useSettings } from "@/components/settings/settings-provider"
+import { PolicyForm } from "@/components/insurance/policy-form"
+import { PolicyExpiryBadge } from "@/components/insurance/policy-expiry-badge"
+import { getInsuranceCompanies } from "@/lib/actions"
+import { api } from "@/lib/api-client"
+import { describeExpiry, getPolicyExpiryStatus } from "@/lib/policies"
+
+interface CarPoliciesProps {
+  carUin: string
+  policies: InsurancePolicy[]
+}
+
+// Every policy the car has had, newest first, with renewals due flagged
+export function CarPolicies({ carUin, policies }: CarPoliciesProps) {
+  const router = useRouter()
+  const { toast } = useToast()
+  const { notifications } = useSettings()
+  const canEdit = usePermission("insurance:edit")
+  const canDelete = usePermission("insurance:delete")
+
+  const [insurers, setInsurers] = useState<Insurance[]>([])
+  const [editingPolicy, setEditingPolicy] = useState<InsurancePolicy | null>(null)
+  const [isAdding, setIsAdding] = useState(false)
+  const [deletingPolicy, setDeletingPolicy] = useState<InsurancePolicy | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  useEffect(() => {
+    getInsuranceCompanies().then((response) => {
+      if (response.success && response.data) setInsurers(response.data)
+    })
+  }, [])
+
+  const insurerName = (id: string) => insurers.find((insurer) => insurer.id === id)?.name || "Unknown insurer"
+
+  const handleSaved = () => {
+    setIsAdding(false)
+    setEditingPolicy(null)
+    router.refresh()
+  }
+
+  const handleDelete = async () => {
+    if (!deletingPolicy) return
+    setIsDeleting(true)
+    const response = await api.delete(`/api/policies/${deletingPolicy.id}`, { baseVersion: deletingPolicy.updatedAt })
+    setIsDeleting(false)
+
+    if (response.error) {
+      toast({
+        title: "Error",
+        description: response.error.message || "Failed to delete insurance policy",
+        variant: "destructive",
+      })
+      return
+    }
+
+    toast({ title: "Success", description: `Policy ${deletingPolicy.policyNumber} deleted.` })
+    setDeletingPolicy(null)
+    router.refresh()
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Insurance Policies</CardTitle>
+          <CardDescription>
+            Policies expiring within {notifications.policyExpiryAlertDays} days are flagged for renewal.
+          </CardDescription>
+        </div>
+        {canEdit && (
+          <Button size="sm" onClick={() => setIsAdding(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Policy
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {policies.length === 0 ? (
+          <p className="text-muted-foreground">No insurance policies recorded</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Insurer</TableHead>
+                <TableHead>Policy Number</TableHead>
+                <TableHead>Coverage</TableHead>
+                <TableHead>Start</TableHead>
+                <TableHead>Expiry</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {policies.map((policy) => (
+                <TableRow key={policy.id}>
+                  <TableCell className="font-medium">{insurerName(policy.insuranceId)}</TableCell>
+                  <TableCell>{policy.policyNumber}</TableCell>
+                  <TableCell>{policy.coverageType || "Not specified"}</TableCell>
+                  <TableCell>{new Date(policy.startDate).toLocaleDateString()}</TableCell>
+                  <TableCell>
+                    {policy.expiryDate ? new Date(policy.expiryDate).toLocaleDateString() : "Not provided"}
+                    <div className="text-xs text-muted-foreground">{describeExpiry(policy)}</div>
+                  </TableCell>
+                  <TableCell>
+                    <PolicyExpiryBadge status={getPolicyExpiryStatus(policy, notifications.policyExpiryAlertDays)} />
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    {canEdit && (
+                      <Button variant="ghost" size="icon" onClick={() => setEditingPolicy(policy)}>
+                        <Edit className="h-4 w-4" />
+                        <span className="sr-only">Edit</span>
+                      </Button>
+                    )}
+                    {canDelete && (
+                      <Button variant="ghost" size="icon" onClick={() => setDeletingPolicy(policy)}>
+                        <Trash2 className="h-4 w-4" />
+                        <span className="sr-only">Delete</span>
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog
+        open={isAdding || editingPolicy !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setIsAdding(false)
+            setEditingPolicy(null)
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingPolicy ? "Edit Policy" : "Add Policy"}</DialogTitle>
+          </DialogHeader>
+          <ScrollableDialogBody>
+            <PolicyForm
+              key={editingPolicy?.id || "new"}
+              carUin={carUin}
+              insurers={insurers}
+              policy={editingPolicy || undefined}
+              onSubmit={handleSaved}
+              onCancel={() => {
+                setIsAdding(false)
+                setEditingPolicy(null)
+              }}
+            />
+          </ScrollableDialogBody>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmationDialog
+        open={deletingPolicy !== null}
+        onOpenChange={(open) => !open && setDeletingPolicy(null)}
+        title="Delete insurance policy"
+        description={`Delete policy ${deletingPolicy?.policyNumber || ""}? This cannot be undone.`}
+        onConfirm={handleDelete}
+        isLoading={isDeleting}
+        confirmText="Delete"
+      />
+    </Card>
+  )
+}
@@ -4,7 +4,7 @@ import { useState } from "react"
 import { Button } from "@/components/ui/button"
 import { PlusIcon, Pencil, Trash2 } from "lucide-react"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
-import { CarForm, type CarFormValues } from "@/components/cars/car-form"
+import { CarForm } from "@/components/cars/car-form"
 import {
   Dialog,
   ScrollableDialogContent as DialogContent,
@@ -13,7 +13,7 @@ import {
   ScrollableDialogBody,
 } from "@/components/ui/scrollable-dialog"
 import { ConfirmationDialog } from "@/components/ui/confirmation-dialog"
-import { updateCar, deleteCar } from "@/lib/actions"
+import { deleteCar } from "@/lib/actions"
 import { useToast } from "@/components/ui/use-toast"
 import { useRouter } from "next/navigation"
 import Link from "next/link"
@@ -32,38 +32,11 @@ export function CarsTable({ cars = [], loading = false, onRefresh, onAddCar }: C
   const { toast } = useToast()
   const router = useRouter()
 
-  const handleEditCar = async (data: CarFormValues) => {
-    if (!editingCar) return
-
-    setIsSubmitting(true)
-    try {
-      const result = await updateCar(editingCar.uin, data)
-
-      if (result.success) {
-        toast({
-          title: "Success",
-          description: "Car updated successfully",
-        })
-        setEditingCar(null)
-        if (onRefresh) onRefresh()
-        else router.refresh()
-      } else {
-        toast({
-          title: "Error",
-          description: result.error || "Failed to update car",
-          variant: "destructive",
-        })
-      }
-    } catch (error) {
-      console.error("Error updating car:", error)
-      toast({
-        title: "Error",
-        description: "An unexpected error occurred",
-        variant: "destructive",
-      })
-    } finally {
-      setIsSubmitting(false)
-    }
+  // CarForm saves through the API itself
+  const handleEditCar = () => {
+    setEditingCar(null)
+    if (onRefresh) onRefresh()
+    else router.refresh()
   }
 
   const handleDeleteCar = async () => {
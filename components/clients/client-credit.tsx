@@ -0,0 +1,377 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { ArrowDownToLine, ArrowUpFromLine, Wallet } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  Dialog,
+  ScrollableDialogContent as DialogContent,
+  ScrollableDialogHeader as DialogHeader,
+  ScrollableDialogTitle as DialogTitle,
+  ScrollableDialogBody,
+} from "@/components/ui/scrollable-dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+import { useToast } from "@/hooks/use-toast"
+import { usePermission } from "@/components/auth/current-user-provider"
+import {
+  addClientDeposit,
+  applyClientCredit,
+  getClientCredit,
+  refundClientCredit,
+  voidClientCredit,
+} from "@/lib/actions"
+import { CREDIT_TYPE_LABELS, isCreditIn } from "@/lib/credits"
+import type { CreditTransaction, PaymentMethod } from "@/lib/db"
+import { useFormatCurrency } from "@/components/settings/settings-provider"
+
+type CreditAction = "deposit" | "apply" | "refund"
+
+type OpenRequest = {
+  id: string
+  invoiceNumber?: string
+  carUin: string
+  startDate: string
+  balance: number
+}
+
+const paymentMethods: { value: PaymentMethod; label: string }[] = [
+  { value: "cash", label: "Cash" },
+  { value: "card", label: "Card" },
+  { value: "bank_transfer", label: "Bank Transfer" },
+  { value: "check", label: "Check" },
+]
+
+const actionTitles: Record<CreditAction, string> = {
+  deposit: "Record Deposit",
+  apply: "Apply Credit",
+  refund: "Refund Credit",
+}
+
+interface ClientCreditProps {
+  clientId: string
+}
+
+// The client's credit account: deposits and overpayments held for them, and where the credit went
+export function ClientCredit({ clientId }: ClientCreditProps) {
+  const formatCurrency = useFormatCurrency()
+  const router = useRouter()
+  const { toast } = useToast()
+  const canEdit = usePermission("payments:edit")
+  const canDelete = usePermission("payments:delete")
+
+  const [balance, setBalance] = useState(0)
+  const [transactions, setTransactions] = useState<CreditTransaction[]>([])
+  const [openRequests, setOpenRequests] = useState<OpenRequest[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const [action, setAction] = useState<CreditAction | null>(null)
+  const [amount, setAmount] = useState("")
+  const [method, setMethod] = useState<PaymentMethod>("cash")
+  const [reference, setReference] = useState("")
+  const [notes, setNotes] = useState("")
+  const [maintenanceId, setMaintenanceId] = useState("")
+  const [voidReason, setVoidReason] = useState("")
+
+  const loadCredit = useCallback(async () => {
+    const response = await getClientCredit(clientId)
+    if (response.success && response.data) {
+      setBalance(response.data.balance)
+      setTransactions(response.data.transactions)
+      setOpenRequests(response.data.openRequests)
+    }
+    setIsLoading(false)
+  }, [clientId])
+
+  useEffect(() => {
+    loadCredit()
+  }, [loadCredit])
+
+  const selectedRequest = openRequests.find((request) => request.id === maintenanceId)
+
+  const openAction = (next: CreditAction) => {
+    const request = next === "apply" ? openRequests[0] : undefined
+    setAction(next)
+    setMaintenanceId(request?.id || "")
+    setAmount(next === "deposit" ? "" : String(request ? Math.min(balance, request.balance) : balance))
+    setMethod("cash")
+    setReference("")
+    setNotes("")
+  }
+
+  const runAction = async (
+    run: () => Promise<{ success: boolean; error?: string }>,
+    successMessage: string,
+  ) => {
+    setIsSaving(true)
+    const response = await run()
+    setIsSaving(false)
+
+    if (!response.success) {
+      toast({
+        title: "Error",
+        description: response.error || "Failed to update client credit",
+        variant: "destructive",
+      })
+      return false
+    }
+
+    toast({ title: "Success", description: successMessage })
+    await loadCredit()
+    router.refresh()
+    return true
+  }
+
+  const handleSubmit = async () => {
+    const value = Number(amount)
+    const details = { method, reference: reference.trim() || undefined, notes: notes.trim() || undefined }
+    const done =
+      action === "deposit"
+        ? await runAction(() => addClientDeposit(clientId, value, details), `Deposit of ${formatCurrency(value)} recorded.`)
+        : action === "apply"
+          ? await runAction(
+              () => applyClientCredit(clientId, maintenanceId, value),
+              `${formatCurrency(value)} of credit applied.`,
+            )
+          : await runAction(
+              () => refundClientCredit(clientId, value, details),
+              `${formatCurrency(value)} of credit refunded.`,
+            )
+    if (done) setAction(null)
+  }
+
+  const handleVoid = (entry: CreditTransaction) =>
+    runAction(() => voidClientCredit(entry.id, voidReason), `${CREDIT_TYPE_LABELS[entry.type]} voided.`).then(
+      () => setVoidReason(""),
+    )
+
+  const maxAmount = action === "apply" ? Math.min(balance, selectedRequest?.balance || 0) : action === "refund" ? balance : undefined
+  const isValid =
+    Number(amount) > 0 && (maxAmount === undefined || Number(amount) <= maxAmount) && (action !== "apply" || !!selectedRequest)
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+        <div className="space-y-1.5">
+          <CardTitle className="text-base">Credit Account</CardTitle>
+          <CardDescription>Deposits and overpayments held for the client, to apply to jobs or refund.</CardDescription>
+        </div>
+        {canEdit && (
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={() => openAction("deposit")}>
+              <ArrowDownToLine className="mr-2 h-4 w-4" />
+              Record Deposit
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={balance <= 0 || openRequests.length === 0}
+              onClick={() => openAction("apply")}
+            >
+              <Wallet className="mr-2 h-4 w-4" />
+              Apply Credit
+            </Button>
+            <Button size="sm" variant="outline" disabled={balance <= 0} onClick={() => openAction("refund")}>
+              <ArrowUpFromLine className="mr-2 h-4 w-4" />
+              Refund Credit
+            </Button>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <p className="text-sm font-medium">Available Credit</p>
+          <p className="text-2xl font-bold text-green-600">{formatCurrency(balance)}</p>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading credit account...</p>
+        ) : transactions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No credit movements yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Job</TableHead>
+                <TableHead>Method</TableHead>
+                <TableHead>Reference</TableHead>
+                <TableHead>By</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {transactions.map((entry) => (
+                <TableRow key={entry.id} className={entry.status === "voided" ? "text-muted-foreground line-through" : ""}>
+                  <TableCell>{new Date(entry.date).toLocaleDateString()}</TableCell>
+                  <TableCell>
+                    <Badge variant={isCreditIn(entry) ? "outline" : "secondary"}>
+                      {entry.status === "voided"
+                        ? `${CREDIT_TYPE_LABELS[entry.type]} (voided)`
+                        : CREDIT_TYPE_LABELS[entry.type]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{entry.maintenanceId ? `${entry.maintenanceId.slice(0, 8)}...` : "-"}</TableCell>
+                  <TableCell className="capitalize">{entry.method ? entry.method.replace("_", " ") : "-"}</TableCell>
+                  <TableCell>{entry.reference || "-"}</TableCell>
+                  <TableCell>{entry.receivedBy}</TableCell>
+                  <TableCell className="text-right">
+                    {isCreditIn(entry) ? "" : "-"}
+                    {formatCurrency(entry.amount)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {canDelete && entry.status === "completed" && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="sm" disabled={isSaving}>
+                            Void
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Void this {CREDIT_TYPE_LABELS[entry.type].toLowerCase()}?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              {entry.type === "application"
+                                ? "The payment it made on the job is voided and the amount returns to the credit account."
+                                : "The entry stays in the history but no longer counts towards the available credit."}
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <Input
+                            placeholder="Reason for voiding"
+                            value={voidReason}
+                            onChange={(e) => setVoidReason(e.target.value)}
+                          />
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleVoid(entry)} disabled={!voidReason.trim()}>
+                              Void
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={action !== null} onOpenChange={(open) => !open && setAction(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{action ? actionTitles[action] : ""}</DialogTitle>
+          </DialogHeader>
+          <ScrollableDialogBody>
+            <div className="space-y-4">
+              {action === "apply" && (
+                <div className="space-y-1">
+                  <Label>Maintenance Request</Label>
+                  <Select
+                    value={maintenanceId}
+                    onValueChange={(value) => {
+                      setMaintenanceId(value)
+                      const request = openRequests.find((open) => open.id === value)
+                      if (request) setAmount(String(Math.min(balance, request.balance)))
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select request" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {openRequests.map((request) => (
+                        <SelectItem key={request.id} value={request.id}>
+                          {request.invoiceNumber || `${request.id.slice(0, 8)}...`} &middot; {request.carUin} &middot;{" "}
+                          {formatCurrency(request.balance)} due
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="space-y-1">
+                <Label>Amount</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min={0.01}
+                  max={maxAmount}
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                />
+                {maxAmount !== undefined && (
+                  <p className="text-xs text-muted-foreground">Up to {formatCurrency(maxAmount)}</p>
+                )}
+              </div>
+
+              {action !== "apply" && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-1">
+                    <Label>Method</Label>
+                    <Select value={method} onValueChange={(value) => setMethod(value as PaymentMethod)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {paymentMethods.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Reference</Label>
+                    <Input
+                      placeholder="Slip, transfer or check number"
+                      value={reference}
+                      onChange={(e) => setReference(e.target.value)}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {action !== "apply" && (
+                <div className="space-y-1">
+                  <Label>Notes</Label>
+                  <Input value={notes} onChange={(e) => setNotes(e.target.value)} />
+                </div>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setAction(null)} disabled={isSaving}>
+                  Cancel
+                </Button>
+                <Button onClick={handleSubmit} disabled={isSaving || !isValid}>
+                  {isSaving ? "Processing..." : action ? actionTitles[action] : ""}
+                </Button>
+              </div>
+            </div>
+          </ScrollableDialogBody>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
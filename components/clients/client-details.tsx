@@ -2,13 +2,15 @@
 
 import { useState } from "react"
 import { useRouter } from "next/navigation"
-import { formatCurrency } from "@/lib/utils"
+import { useFormatCurrency } from "@/components/settings/settings-provider"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { CarForm } from "@/components/cars/car-form"
 import { ClientForm } from "@/components/clients/client-form"
+import { ClientStatement } from "@/components/clients/client-statement"
+import { ClientCredit } from "@/components/clients/client-credit"
 import {
   Dialog,
   DialogTrigger,
@@ -30,11 +32,13 @@ interface ClientDetailsProps {
     maintenanceCount: number
     totalSpent: number
     outstandingBalance: number
+    creditBalance?: number
     lastVisit?: Date
   }
 }
 
 export function ClientDetails({ client, cars, maintenanceRequests, stats }: ClientDetailsProps) {
+  const formatCurrency = useFormatCurrency()
   const router = useRouter()
   const [isAddCarDialogOpen, setIsAddCarDialogOpen] = useState(false)
   const [isEditClientDialogOpen, setIsEditClientDialogOpen] = useState(false)
@@ -91,7 +95,10 @@ export function ClientDetails({ client, cars, maintenanceRequests, stats }: Clie
             <ScrollableDialogBody>
               <ClientForm
                 client={client}
-                onSubmit={() => setIsEditClientDialogOpen(false)}
+                onSubmit={() => {
+                  setIsEditClientDialogOpen(false)
+                  router.refresh()
+                }}
                 onCancel={() => setIsEditClientDialogOpen(false)}
               />
             </ScrollableDialogBody>
@@ -165,6 +172,12 @@ export function ClientDetails({ client, cars, maintenanceRequests, stats }: Clie
                 <p className="text-sm font-medium">Outstanding Balance</p>
                 <p className="text-xl font-bold text-red-500">{formatCurrency(stats.outstandingBalance)}</p>
               </div>
+              {(stats.creditBalance || 0) > 0 && (
+                <div>
+                  <p className="text-sm font-medium">Available Credit</p>
+                  <p className="text-xl font-bold text-green-600">{formatCurrency(stats.creditBalance || 0)}</p>
+                </div>
+              )}
               <div>
                 <p className="text-sm font-medium">Last Visit</p>
                 <p>{stats.lastVisit ? new Date(stats.lastVisit).toLocaleDateString() : "Never"}</p>
@@ -209,9 +222,11 @@ export function ClientDetails({ client, cars, maintenanceRequests, stats }: Clie
         </div>
 
         <Tabs defaultValue="cars">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="cars">Cars</TabsTrigger>
             <TabsTrigger value="maintenance">Maintenance History</TabsTrigger>
+            <TabsTrigger value="statement">Statement</TabsTrigger>
+            <TabsTrigger value="credit">Credit</TabsTrigger>
             <TabsTrigger value="analytics">Analytics</TabsTrigger>
           </TabsList>
 
@@ -231,7 +246,10 @@ export function ClientDetails({ client, cars, maintenanceRequests, stats }: Clie
                   <ScrollableDialogBody>
                     <CarForm
                       initialClientId={client.id}
-                      onSubmit={() => setIsAddCarDialogOpen(false)}
+                      onSubmit={() => {
+                        setIsAddCarDialogOpen(false)
+                        router.refresh()
+                      }}
                       onCancel={() => setIsAddCarDialogOpen(false)}
                     />
                   </ScrollableDialogBody>
@@ -360,6 +378,14 @@ export function ClientDetails({ client, cars, maintenanceRequests, stats }: Clie
             )}
           </TabsContent>
 
+          <TabsContent value="statement" className="space-y-4">
+            <ClientStatement clientId={client.id} />
+          </TabsContent>
+
+          <TabsContent value="credit" className="space-y-4">
+            <ClientCredit clientId={client.id} />
+          </TabsContent>
+
           <TabsContent value="analytics" className="space-y-4">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
               {cars.length > 0 && (
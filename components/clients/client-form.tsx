@@ -64,7 +64,7 @@ export function ClientForm({ client, onSubmit, onCancel, isLoading: externalLoad
       
       // Use appropriate HTTP method based on whether we're creating or updating
       const response = client?.id
-        ? await api.put(endpoint, values)
+        ? await api.put(endpoint, values, { baseVersion: client.updatedAt })
         : await api.post(endpoint, values);
       
       if (response.error) {
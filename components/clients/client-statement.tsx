@@ -0,0 +1,151 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format, subDays } from "date-fns"
+import { Download, FileText, Printer } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { getClientStatement } from "@/lib/actions"
+import type { ClientStatement as Statement } from "@/lib/statements"
+import { useFormatCurrency } from "@/components/settings/settings-provider"
+
+interface ClientStatementProps {
+  clientId: string
+}
+
+// Statement of account over a date range, with the printable and exported versions rendered server-side
+export function ClientStatement({ clientId }: ClientStatementProps) {
+  const formatCurrency = useFormatCurrency()
+  const [from, setFrom] = useState(format(subDays(new Date(), 90), "yyyy-MM-dd"))
+  const [to, setTo] = useState(format(new Date(), "yyyy-MM-dd"))
+  const [statement, setStatement] = useState<Statement | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    if (!to) return
+    setIsLoading(true)
+    getClientStatement(clientId, from || undefined, to).then((response) => {
+      if (response.success && response.data) {
+        setStatement(response.data)
+        setError(null)
+      } else {
+        setError(response.error || "Failed to build client statement")
+      }
+      setIsLoading(false)
+    })
+  }, [clientId, from, to])
+
+  const openStatement = (output?: "pdf" | "csv") => {
+    const query = new URLSearchParams({ to, ...(from ? { from } : {}), ...(output ? { format: output } : {}) })
+    window.open(`/api/clients/${encodeURIComponent(clientId)}/statement?${query.toString()}`, "_blank")
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+        <div className="space-y-1.5">
+          <CardTitle className="text-base">Statement of Account</CardTitle>
+          <CardDescription>
+            Invoices for the client&apos;s share of each job and the payments against them. Leave the start date
+            empty for the full history.
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" disabled={!statement} onClick={() => openStatement()}>
+            <Printer className="mr-2 h-4 w-4" />
+            Print
+          </Button>
+          <Button variant="outline" size="sm" disabled={!statement} onClick={() => openStatement("pdf")}>
+            <FileText className="mr-2 h-4 w-4" />
+            PDF
+          </Button>
+          <Button variant="outline" size="sm" disabled={!statement} onClick={() => openStatement("csv")}>
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="statement-from">From</Label>
+            <Input id="statement-from" type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="statement-to">To</Label>
+            <Input id="statement-to" type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+
+        {error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : isLoading && !statement ? (
+          <p className="py-4 text-center text-sm text-muted-foreground">Loading statement...</p>
+        ) : statement ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Reference</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead className="text-right">Debit</TableHead>
+                <TableHead className="text-right">Credit</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              <TableRow>
+                <TableCell>{statement.from ? new Date(`${statement.from}T00:00:00`).toLocaleDateString() : ""}</TableCell>
+                <TableCell colSpan={5} className="font-medium">
+                  Opening balance
+                </TableCell>
+                <TableCell className="text-right font-medium">{formatCurrency(statement.openingBalance)}</TableCell>
+              </TableRow>
+              {statement.entries.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    No activity in this period
+                  </TableCell>
+                </TableRow>
+              ) : (
+                statement.entries.map((entry, index) => (
+                  <TableRow key={`${entry.maintenanceId}-${entry.type}-${index}`}>
+                    <TableCell>{new Date(`${entry.date}T00:00:00`).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      <Badge variant={entry.type === "invoice" ? "outline" : "secondary"} className="capitalize">
+                        {entry.type}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{entry.reference}</TableCell>
+                    <TableCell>{entry.description}</TableCell>
+                    <TableCell className="text-right">{entry.debit ? formatCurrency(entry.debit) : ""}</TableCell>
+                    <TableCell className="text-right">{entry.credit ? formatCurrency(entry.credit) : ""}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(entry.balance)}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={4}>Closing balance</TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(statement.entries.reduce((sum, entry) => sum + entry.debit, 0))}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(statement.entries.reduce((sum, entry) => sum + entry.credit, 0))}
+                </TableCell>
+                <TableCell className="text-right">{formatCurrency(statement.closingBalance)}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        ) : null}
+      </CardContent>
+    </Card>
+  )
+}
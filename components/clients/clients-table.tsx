@@ -1,10 +1,13 @@
 "use client"
 
 import { useState } from "react"
+import { useRouter } from "next/navigation"
 import type { ColumnDef } from "@tanstack/react-table"
 import { Trash2, Plus } from "lucide-react"
 import type { Client } from "@/lib/db"
 import { AdvancedDataTable } from "@/components/ui/advanced-data-table"
+import { StaleDataNotice } from "@/components/stale-data-notice"
+import { useCachedCollection } from "@/lib/offline-collections"
 import { Button } from "@/components/ui/button"
 import { ClientForm } from "@/components/clients/client-form"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
@@ -19,7 +22,7 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog"
-import { createClient, deleteClient, updateClientField } from "@/lib/actions"
+import { deleteClient, updateClientField } from "@/lib/actions"
 import { toast } from "@/components/ui/use-toast"
 import { ScrollableDialogBody } from "@/components/ui/scrollable-dialog"
 import { EditableCell } from "@/components/ui/editable-cell"
@@ -28,7 +31,10 @@ interface ClientsTableProps {
   clients: Client[]
 }
 
-export function ClientsTable({ clients }: ClientsTableProps) {
+export function ClientsTable({ clients: serverClients }: ClientsTableProps) {
+  // Falls back to the offline cache when there is no connection
+  const { data: clients, staleSince } = useCachedCollection("clients", serverClients)
+  const router = useRouter()
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
 
@@ -59,33 +65,10 @@ export function ClientsTable({ clients }: ClientsTableProps) {
     }
   }
 
-  const handleSubmit = async (client: Partial<Client>) => {
-    setIsLoading(true)
-    try {
-      const result = await createClient(client)
-
-      if (result.success) {
-        toast({
-          title: "Client created",
-          description: `${client.name} has been created successfully.`,
-        })
-        setIsAddDialogOpen(false)
-      } else {
-        toast({
-          title: "Error",
-          description: result.error,
-          variant: "destructive",
-        })
-      }
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "An unexpected error occurred.",
-        variant: "destructive",
-      })
-    } finally {
-      setIsLoading(false)
-    }
+  // ClientForm saves through the API itself; reload the list it came from
+  const handleSubmit = () => {
+    setIsAddDialogOpen(false)
+    router.refresh()
   }
 
   const handleUpdateField = async (id: string, field: string, value: string | number) => {
@@ -226,7 +209,8 @@ export function ClientsTable({ clients }: ClientsTableProps) {
   )
 
   return (
-    <div>
+    <div className="space-y-4">
+      <StaleDataNotice since={staleSince} />
       <div className="flex justify-end mb-4">
         <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
           <DialogTrigger asChild>
@@ -241,7 +225,7 @@ export function ClientsTable({ clients }: ClientsTableProps) {
             </DialogHeader>
             <ScrollableDialogBody>
               <ClientForm
-                onSubmit={(data) => handleSubmit(data)}
+                onSubmit={handleSubmit}
                 onCancel={() => setIsAddDialogOpen(false)}
                 isLoading={isLoading}
               />
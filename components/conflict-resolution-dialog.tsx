@@ -0,0 +1,208 @@
+"use client"
+
+import { useEffect, useMemo, useState } from 'react'
+import { format } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { toast } from '@/components/ui/use-toast'
+import { getConflictedOperations, type PendingOperation } from '@/lib/offline-storage'
+import { resolveConflict, type ConflictResolution } from '@/lib/sync-service'
+import { getConflictingFields } from '@/lib/conflicts'
+
+type Choice = 'local' | 'server'
+
+// PUT "/api/maintenance/abc123" -> "Update maintenance abc123"
+function describeOperation(operation: PendingOperation) {
+  const [entity, id] = operation.url.replace(/^\/api\//, '').split('/')
+  const action = operation.method === 'DELETE' ? 'Delete' : 'Update'
+  return `${action} ${entity}${id ? ` ${id.slice(0, 8)}` : ''}`
+}
+
+// "additionalFee" -> "Additional fee"
+function formatFieldName(field: string) {
+  const words = field.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase()
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === '') return <span className="text-muted-foreground">-</span>
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  if (typeof value === 'object') {
+    return <pre className="max-h-32 overflow-auto whitespace-pre-wrap text-xs">{JSON.stringify(value, null, 2)}</pre>
+  }
+  return String(value)
+}
+
+export function ConflictResolutionDialog({
+  open,
+  onOpenChange,
+  onResolved,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onResolved?: () => void
+}) {
+  const [operations, setOperations] = useState<PendingOperation[]>([])
+  const [choices, setChoices] = useState<Record<string, Choice>>({})
+  const [isResolving, setIsResolving] = useState(false)
+
+  const operation = operations[0]
+  const server = operation?.conflict?.server ?? null
+  const fields = useMemo(() => getConflictingFields(operation?.data, server), [operation, server])
+
+  const reload = () => {
+    setOperations(getConflictedOperations())
+    setChoices({})
+  }
+
+  useEffect(() => {
+    if (open) reload()
+  }, [open])
+
+  const resolve = async (resolution: ConflictResolution) => {
+    if (!operation) return
+    setIsResolving(true)
+    try {
+      const result = await resolveConflict(operation.id, resolution)
+      if (result === 'conflict') {
+        toast({
+          title: 'Changed again',
+          description: 'The record was changed again while you were resolving. Please review the new values.',
+          variant: 'destructive',
+        })
+      } else if (result === 'failed') {
+        throw new Error('Could not save your choice. Check your connection and try again.')
+      } else {
+        toast({ title: 'Conflict resolved', description: `${describeOperation(operation)} has been settled.` })
+        onResolved?.()
+      }
+
+      const remaining = getConflictedOperations()
+      setOperations(remaining)
+      setChoices({})
+      if (remaining.length === 0) onOpenChange(false)
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to resolve the conflict.',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsResolving(false)
+    }
+  }
+
+  const applyMerge = () =>
+    resolve({ keep: 'merge', serverFields: fields.filter((field) => (choices[field] || 'local') === 'server') })
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Resolve conflicting changes</DialogTitle>
+          <DialogDescription>
+            Someone else saved these records after your change was made. Choose which version to keep.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!operation ? (
+          <p className="text-sm text-muted-foreground">There are no conflicts to resolve.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between text-sm">
+              <div className="font-medium">{describeOperation(operation)}</div>
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <span>Your change from {format(new Date(operation.timestamp), 'MMM d, HH:mm')}</span>
+                {operations.length > 1 && <Badge variant="secondary">{operations.length - 1} more</Badge>}
+              </div>
+            </div>
+
+            {!server ? (
+              <p className="text-sm">
+                {operation.method === 'DELETE'
+                  ? 'This record has already been deleted.'
+                  : 'This record has been deleted, so your changes can no longer be applied.'}
+              </p>
+            ) : operation.method === 'DELETE' ? (
+              <p className="text-sm">
+                You deleted this record, but it was edited afterwards. Delete it anyway, or keep the edited record?
+              </p>
+            ) : fields.length === 0 ? (
+              <p className="text-sm">
+                The other changes don't touch the fields you edited, so your change can be applied as it is.
+              </p>
+            ) : (
+              <div className="max-h-[50vh] overflow-auto rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Field</TableHead>
+                      <TableHead>Your version</TableHead>
+                      <TableHead>Current version</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {fields.map((field) => (
+                      <TableRow key={field}>
+                        <TableCell className="font-medium">{formatFieldName(field)}</TableCell>
+                        <TableCell colSpan={2} className="p-0">
+                          <RadioGroup
+                            className="grid grid-cols-2 gap-0"
+                            value={choices[field] || 'local'}
+                            onValueChange={(value) => setChoices((prev) => ({ ...prev, [field]: value as Choice }))}
+                          >
+                            {(['local', 'server'] as Choice[]).map((choice) => (
+                              <label key={choice} className="flex cursor-pointer items-start gap-2 p-4">
+                                <RadioGroupItem value={choice} className="mt-0.5" />
+                                <div className="min-w-0 text-sm">
+                                  {formatValue(choice === 'local' ? operation.data?.[field] : server[field])}
+                                </div>
+                              </label>
+                            ))}
+                          </RadioGroup>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+
+        {operation && (
+          <DialogFooter className="gap-2 sm:gap-0">
+            {!server ? (
+              operation.method === 'DELETE' ? (
+                <Button onClick={() => resolve({ keep: 'server' })} disabled={isResolving}>
+                  OK
+                </Button>
+              ) : (
+                <Button onClick={() => resolve({ keep: 'server' })} disabled={isResolving}>
+                  Discard my changes
+                </Button>
+              )
+            ) : (
+              <>
+                <Button variant="outline" onClick={() => resolve({ keep: 'server' })} disabled={isResolving}>
+                  {operation.method === 'DELETE' ? 'Keep the record' : 'Keep current version'}
+                </Button>
+                {operation.method !== 'DELETE' && fields.length > 0 && (
+                  <Button variant="outline" onClick={applyMerge} disabled={isResolving}>
+                    Save selected fields
+                  </Button>
+                )}
+                <Button onClick={() => resolve({ keep: 'local' })} disabled={isResolving}>
+                  {operation.method === 'DELETE' ? 'Delete anyway' : 'Keep my version'}
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
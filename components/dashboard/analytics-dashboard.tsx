@@ -1,7 +1,7 @@
 "use client"
 
 import { useState } from "react"
-import { formatCurrency } from "@/lib/utils"
+import { useFormatCurrency } from "@/components/settings/settings-provider"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Button } from "@/components/ui/button"
@@ -31,6 +31,7 @@ interface AnalyticsData {
     totalRevenue: number
     paidRevenue: number
     outstandingRevenue: number
+    costOfGoods: number
     statusDistribution: {
       pending: number
       inProgress: number
@@ -40,6 +41,7 @@ interface AnalyticsData {
   }
   inventory: {
     totalProducts: number
+    totalValue: number
     lowStockProducts: number
     totalWarehouseStock: number
     totalShopStock: number
@@ -56,6 +58,7 @@ interface AnalyticsDashboardProps {
 }
 
 export function AnalyticsDashboard({ initialData }: AnalyticsDashboardProps) {
+  const formatCurrency = useFormatCurrency()
   const [data, setData] = useState<AnalyticsData>(initialData)
   const [period, setPeriod] = useState<"week" | "month" | "year">(initialData.period || "month")
   const [isLoading, setIsLoading] = useState(false)
@@ -178,8 +181,10 @@ export function AnalyticsDashboard({ initialData }: AnalyticsDashboardProps) {
             <CardTitle className="text-sm font-medium">Inventory</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{data.inventory.totalProducts}</div>
-            <p className="text-xs text-muted-foreground">{data.inventory.lowStockProducts} items low on stock</p>
+            <div className="text-2xl font-bold">{formatCurrency(data.inventory.totalValue)}</div>
+            <p className="text-xs text-muted-foreground">
+              {data.inventory.totalProducts} products, {data.inventory.lowStockProducts} low on stock
+            </p>
           </CardContent>
         </Card>
       </div>
@@ -404,9 +409,15 @@ export function AnalyticsDashboard({ initialData }: AnalyticsDashboardProps) {
                     </div>
                   </div>
 
-                  <div className="pt-2">
-                    <p className="text-sm text-muted-foreground">Outstanding Revenue</p>
-                    <p className="text-xl font-medium">{formatCurrency(data.maintenance.outstandingRevenue)}</p>
+                  <div className="grid grid-cols-2 gap-4 pt-2">
+                    <div className="space-y-1">
+                      <p className="text-sm text-muted-foreground">Outstanding Revenue</p>
+                      <p className="text-xl font-medium">{formatCurrency(data.maintenance.outstandingRevenue)}</p>
+                    </div>
+                    <div className="space-y-1">
+                      <p className="text-sm text-muted-foreground">Cost of Parts Used</p>
+                      <p className="text-xl font-medium">{formatCurrency(data.maintenance.costOfGoods)}</p>
+                    </div>
                   </div>
                 </div>
               </CardContent>
@@ -453,6 +464,11 @@ export function AnalyticsDashboard({ initialData }: AnalyticsDashboardProps) {
                     </div>
                   </div>
 
+                  <div className="space-y-1">
+                    <p className="text-sm text-muted-foreground">Stock Value at Cost</p>
+                    <p className="text-xl font-medium">{formatCurrency(data.inventory.totalValue)}</p>
+                  </div>
+
                   <div className="space-y-2">
                     <div className="flex justify-between text-sm">
                       <span>Low Stock Rate</span>
@@ -0,0 +1,61 @@
+import Link from "next/link"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { BUDGET_PERIOD_LABELS, type BudgetRow } from "@/lib/budgets"
+import { formatCurrency } from "@/lib/utils"
+
+interface BudgetAlertsProps {
+  rows: BudgetRow[]
+  alertPercent: number
+  currency: string
+}
+
+// Expense categories that have used most of this period's budget or gone past it
+export function BudgetAlerts({ rows, alertPercent, currency }: BudgetAlertsProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Budget Alerts</CardTitle>
+        <CardDescription>Expense categories at {alertPercent}% of their budget or more</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border overflow-x-auto">
+          <table className="min-w-full divide-y divide-border">
+            <thead className="bg-muted/50">
+              <tr>
+                <th className="px-4 py-3 text-left text-sm font-semibold">Category</th>
+                <th className="px-4 py-3 text-left text-sm font-semibold">Period</th>
+                <th className="px-4 py-3 text-right text-sm font-semibold">Budgeted</th>
+                <th className="px-4 py-3 text-right text-sm font-semibold">Spent</th>
+                <th className="px-4 py-3 text-right text-sm font-semibold">Used</th>
+                <th className="px-4 py-3 text-left text-sm font-semibold">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border bg-background">
+              {rows.map((row) => (
+                <tr key={row.budgetId}>
+                  <td className="whitespace-nowrap px-4 py-2 text-sm">
+                    <Link href="/finances" className="font-medium hover:underline">
+                      {row.categoryName}
+                    </Link>
+                  </td>
+                  <td className="whitespace-nowrap px-4 py-2 text-sm">{BUDGET_PERIOD_LABELS[row.period]}</td>
+                  <td className="whitespace-nowrap px-4 py-2 text-right text-sm">{formatCurrency(row.budgeted, currency)}</td>
+                  <td className="whitespace-nowrap px-4 py-2 text-right text-sm">{formatCurrency(row.actual, currency)}</td>
+                  <td className="whitespace-nowrap px-4 py-2 text-right text-sm">{row.percentUsed}%</td>
+                  <td className="whitespace-nowrap px-4 py-2 text-sm">
+                    {row.status === "over" ? (
+                      <Badge variant="destructive">Over budget</Badge>
+                    ) : (
+                      <Badge variant="outline">Near limit</Badge>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
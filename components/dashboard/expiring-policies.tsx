@@ -0,0 +1,76 @@
+import Link from "next/link"
+import { Phone } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { PolicyExpiryBadge } from "@/components/insurance/policy-expiry-badge"
+import { describeExpiry, type ExpiringPolicy } from "@/lib/policies"
+
+interface ExpiringPoliciesProps {
+  policies: ExpiringPolicy[]
+  alertDays: number
+}
+
+// Cars whose insurance has lapsed or is about to, so the owners can be reminded to renew
+export function ExpiringPolicies({ policies, alertDays }: ExpiringPoliciesProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Expiring Insurance Policies</CardTitle>
+        <CardDescription>Policies expired or expiring within {alertDays} days</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {policies.length === 0 ? (
+          <p className="text-center py-4 text-muted-foreground">No policies are expiring soon</p>
+        ) : (
+          <div className="rounded-md border overflow-x-auto">
+            <table className="min-w-full divide-y divide-border">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-sm font-semibold">Client</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold">Car</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold">Insurer</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold">Policy</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold">Expiry</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border bg-background">
+                {policies.map((policy) => (
+                  <tr key={policy.id}>
+                    <td className="whitespace-nowrap px-4 py-2 text-sm">
+                      <Link href={`/clients/${policy.clientId}`} className="font-medium hover:underline">
+                        {policy.clientName}
+                      </Link>
+                      {policy.clientContact && (
+                        <a
+                          href={`tel:${policy.clientContact}`}
+                          className="flex items-center gap-1 text-muted-foreground hover:underline"
+                        >
+                          <Phone className="h-3 w-3" />
+                          {policy.clientContact}
+                        </a>
+                      )}
+                    </td>
+                    <td className="whitespace-nowrap px-4 py-2 text-sm">
+                      <Link href={`/cars/${policy.carUin}`} className="hover:underline">
+                        {policy.carDetails} ({policy.licensePlate})
+                      </Link>
+                    </td>
+                    <td className="whitespace-nowrap px-4 py-2 text-sm">{policy.insurerName}</td>
+                    <td className="whitespace-nowrap px-4 py-2 text-sm">{policy.policyNumber}</td>
+                    <td className="whitespace-nowrap px-4 py-2 text-sm">
+                      {policy.expiryDate && new Date(policy.expiryDate).toLocaleDateString()}
+                      <div className="text-xs text-muted-foreground">{describeExpiry(policy)}</div>
+                    </td>
+                    <td className="whitespace-nowrap px-4 py-2 text-sm">
+                      <PolicyExpiryBadge status={policy.status} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,74 @@
+import Link from "next/link"
+import { Phone } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ServiceDueBadge } from "@/components/cars/car-mileage"
+import {
+  DUE_SOON_DAYS,
+  DUE_SOON_DISTANCE,
+  describeRemaining,
+  formatDistance,
+  type ServiceReminder,
+} from "@/lib/service-reminders"
+
+// Cars with an interval service overdue or coming up, so the front desk can call the owners
+export function ServiceReminders({ reminders }: { reminders: ServiceReminder[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Service Reminders</CardTitle>
+        <CardDescription>
+          Services overdue or due within {formatDistance(DUE_SOON_DISTANCE)} or {DUE_SOON_DAYS} days
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {reminders.length === 0 ? (
+          <p className="text-center py-4 text-muted-foreground">No services are due soon</p>
+        ) : (
+          <div className="rounded-md border overflow-x-auto">
+            <table className="min-w-full divide-y divide-border">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-sm font-semibold">Client</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold">Car</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold">Service</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold">Remaining</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border bg-background">
+                {reminders.map((reminder) => (
+                  <tr key={`${reminder.carUin}-${reminder.serviceId}`}>
+                    <td className="whitespace-nowrap px-4 py-2 text-sm">
+                      <Link href={`/clients/${reminder.clientId}`} className="font-medium hover:underline">
+                        {reminder.clientName}
+                      </Link>
+                      {reminder.clientContact && (
+                        <a
+                          href={`tel:${reminder.clientContact}`}
+                          className="flex items-center gap-1 text-muted-foreground hover:underline"
+                        >
+                          <Phone className="h-3 w-3" />
+                          {reminder.clientContact}
+                        </a>
+                      )}
+                    </td>
+                    <td className="whitespace-nowrap px-4 py-2 text-sm">
+                      <Link href={`/cars/${reminder.carUin}`} className="hover:underline">
+                        {reminder.carDetails} ({reminder.licensePlate})
+                      </Link>
+                    </td>
+                    <td className="whitespace-nowrap px-4 py-2 text-sm">{reminder.serviceName}</td>
+                    <td className="whitespace-nowrap px-4 py-2 text-sm">{describeRemaining(reminder)}</td>
+                    <td className="whitespace-nowrap px-4 py-2 text-sm">
+                      <ServiceDueBadge status={reminder.status} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -16,7 +16,8 @@ import {
   SelectValue 
 } from "@/components/ui/select";
 import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card";
-import { cn, formatCurrency } from "@/lib/utils";
+import { cn } from "@/lib/utils";
+import { useFormatCurrency } from "@/components/settings/settings-provider";
 import { Textarea } from "@/components/ui/textarea";
 import { api } from "@/lib/api-client";
 import { useOnlineStatus } from "@/lib/network-status";
@@ -40,6 +41,7 @@ import { toast } from "sonner";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { format } from "date-fns";
 import { Calendar } from "@/components/ui/calendar";
+import { LabourReport } from "@/components/employees/labour-report";
 
 type EmployeeProps = {
   id: string;
@@ -72,6 +74,7 @@ export function EmployeesPageClient({
   initialEmployees: EmployeeProps[];
   initialSalaries: SalaryProps[];
 }) {
+  const formatCurrency = useFormatCurrency();
   // Online status
   const isOnline = useOnlineStatus();
   
@@ -305,7 +308,9 @@ export function EmployeesPageClient({
       };
 
       // Use the offline-aware API client
-      const response = await api.put(`/api/employees/${editingEmployee.id}`, data);
+      const response = await api.put(`/api/employees/${editingEmployee.id}`, data, {
+        baseVersion: editingEmployee.updatedAt,
+      });
       
       if (response.error) {
         throw new Error(response.error.message || "Failed to update employee");
@@ -343,7 +348,9 @@ export function EmployeesPageClient({
       }
 
       // Use the offline-aware API client
-      const response = await api.delete(`/api/employees/${selectedEmployee.id}`);
+      const response = await api.delete(`/api/employees/${selectedEmployee.id}`, {
+        baseVersion: selectedEmployee.updatedAt,
+      });
       
       if (response.error) {
         throw new Error(response.error.message || "Failed to delete employee");
@@ -458,7 +465,9 @@ export function EmployeesPageClient({
       };
 
       // Use the offline-aware API client
-      const response = await api.put(`/api/salaries/${editingSalary.id}`, data);
+      const response = await api.put(`/api/salaries/${editingSalary.id}`, data, {
+        baseVersion: editingSalary.updatedAt,
+      });
       
       if (response.error) {
         throw new Error(response.error.message || "Failed to update salary record");
@@ -501,7 +510,9 @@ export function EmployeesPageClient({
       }
 
       // Use the offline-aware API client
-      const response = await api.delete(`/api/salaries/${selectedSalary.id}`);
+      const response = await api.delete(`/api/salaries/${selectedSalary.id}`, {
+        baseVersion: selectedSalary.updatedAt,
+      });
       
       if (response.error) {
         throw new Error(response.error.message || "Failed to delete salary record");
@@ -705,9 +716,10 @@ export function EmployeesPageClient({
       </div>
 
       <Tabs defaultValue="employees">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="employees">Employees</TabsTrigger>
           <TabsTrigger value="salaries">Salaries</TabsTrigger>
+          <TabsTrigger value="labour">Labour</TabsTrigger>
         </TabsList>
         <TabsContent value="employees" className="space-y-4">
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
@@ -1553,6 +1565,10 @@ export function EmployeesPageClient({
             </DialogContent>
           </Dialog>
         </TabsContent>
+
+        <TabsContent value="labour" className="space-y-4">
+          <LabourReport />
+        </TabsContent>
       </Tabs>
     </div>
   );
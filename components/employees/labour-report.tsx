@@ -0,0 +1,124 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { DateRange } from "react-day-picker"
+import { endOfDay, startOfDay, startOfMonth } from "date-fns"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { CalendarDateRangePicker } from "@/components/ui/date-range-picker"
+import { getLabourReport } from "@/lib/actions"
+import { formatHours, type TechnicianLabour } from "@/lib/labour"
+
+function EfficiencyBadge({ efficiency }: { efficiency?: number }) {
+  if (efficiency === undefined) return <span className="text-muted-foreground">-</span>
+  // Above 100% the work took less time than the book allows
+  return (
+    <Badge variant={efficiency >= 100 ? "success" : efficiency >= 80 ? "warning" : "destructive"}>{efficiency}%</Badge>
+  )
+}
+
+// Clocked time against standard time per technician, over jobs completed in the range
+export function LabourReport() {
+  const [dateRange, setDateRange] = useState<DateRange>({ from: startOfMonth(new Date()), to: new Date() })
+  const [rows, setRows] = useState<TechnicianLabour[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadReport = async () => {
+      if (!dateRange.from) return
+      setIsLoading(true)
+      const response = await getLabourReport(
+        startOfDay(dateRange.from).toISOString(),
+        endOfDay(dateRange.to || dateRange.from).toISOString()
+      )
+      if (response.success && response.data) {
+        setRows(response.data)
+        setError(null)
+      } else {
+        setError(response.error || "Failed to load the labour report")
+      }
+      setIsLoading(false)
+    }
+
+    loadReport()
+  }, [dateRange])
+
+  const totals = rows.reduce(
+    (sum, row) => ({
+      standardHours: sum.standardHours + row.standardHours,
+      actualHours: sum.actualHours + row.actualHours,
+    }),
+    { standardHours: 0, actualHours: 0 }
+  )
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Labour</CardTitle>
+          <CardDescription>
+            Clocked time against the standard time of the services each technician did, on completed jobs
+          </CardDescription>
+        </div>
+        <CalendarDateRangePicker date={dateRange} onUpdate={setDateRange} />
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <div className="p-4 border border-destructive/50 rounded-md bg-destructive/10 text-destructive">{error}</div>
+        ) : isLoading ? (
+          <p className="text-center py-4 text-muted-foreground">Loading labour report...</p>
+        ) : rows.length === 0 ? (
+          <p className="text-center py-4 text-muted-foreground">No labour recorded on jobs completed in this period</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Technician</TableHead>
+                <TableHead className="text-right">Jobs</TableHead>
+                <TableHead className="text-right">Standard Time</TableHead>
+                <TableHead className="text-right">Actual Time</TableHead>
+                <TableHead className="text-right">Difference</TableHead>
+                <TableHead className="text-right">Efficiency</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => {
+                const difference = row.actualHours - row.standardHours
+                return (
+                  <TableRow key={row.employeeId}>
+                    <TableCell className="font-medium">{row.employeeName}</TableCell>
+                    <TableCell className="text-right">{row.jobs}</TableCell>
+                    <TableCell className="text-right">{formatHours(row.standardHours)}</TableCell>
+                    <TableCell className="text-right">{formatHours(row.actualHours)}</TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      {difference === 0 ? "-" : `${difference > 0 ? "+" : "-"}${formatHours(Math.abs(difference))}`}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <EfficiencyBadge efficiency={row.efficiency} />
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+              <TableRow className="font-medium">
+                <TableCell>Total</TableCell>
+                <TableCell />
+                <TableCell className="text-right">{formatHours(totals.standardHours)}</TableCell>
+                <TableCell className="text-right">{formatHours(totals.actualHours)}</TableCell>
+                <TableCell />
+                <TableCell className="text-right">
+                  <EfficiencyBadge
+                    efficiency={
+                      totals.actualHours > 0 ? Math.round((totals.standardHours / totals.actualHours) * 100) : undefined
+                    }
+                  />
+                </TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
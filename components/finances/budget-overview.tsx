@@ -0,0 +1,343 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Edit, Plus, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ConfirmationDialog } from "@/components/ui/confirmation-dialog"
+import { usePermission } from "@/components/auth/current-user-provider"
+import { useSettings } from "@/components/settings/settings-provider"
+import { createBudget, deleteBudget, getBudgetReport, getBudgets, updateBudget } from "@/lib/actions"
+import { BUDGET_PERIOD_LABELS, type BudgetRow, type BudgetStatus } from "@/lib/budgets"
+import type { Budget, BudgetPeriod, FinanceCategory } from "@/lib/db"
+import { formatCurrency } from "@/lib/utils"
+
+interface BudgetOverviewProps {
+  categories: Pick<FinanceCategory, "id" | "name" | "type">[]
+  day: string // yyyy-MM-dd; budgets are compared over the month or year containing it
+  refreshKey?: unknown // Changes whenever the finance records do
+}
+
+const STATUS_LABELS: Record<BudgetStatus, string> = {
+  ok: "On track",
+  warning: "Near limit",
+  over: "Over budget",
+}
+
+const STATUS_VARIANTS: Record<BudgetStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  ok: "secondary",
+  warning: "outline",
+  over: "destructive",
+}
+
+const emptyBudget = () => ({
+  categoryId: "",
+  period: "monthly" as BudgetPeriod,
+  amount: "",
+  notes: "",
+})
+
+const formatDay = (day: string) => new Date(`${day}T00:00:00`).toLocaleDateString()
+
+// Planned income and spending per category against what was actually booked
+export function BudgetOverview({ categories, day, refreshKey }: BudgetOverviewProps) {
+  const { general } = useSettings()
+  const canEdit = usePermission("finance:edit")
+  const canDelete = usePermission("finance:delete")
+
+  const [budgets, setBudgets] = useState<Budget[]>([])
+  const [rows, setRows] = useState<BudgetRow[]>([])
+  const [alertPercent, setAlertPercent] = useState(0)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const [editing, setEditing] = useState<Budget | null>(null)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [form, setForm] = useState(emptyBudget())
+  const [deleting, setDeleting] = useState<BudgetRow | null>(null)
+
+  const money = (amount: number) => formatCurrency(amount, general.currency)
+  // One budget per category, so only categories without one can be picked for a new budget
+  const availableCategories = categories.filter(
+    (category) => category.id === form.categoryId || !budgets.some((budget) => budget.categoryId === category.id),
+  )
+
+  const fetchBudgets = async () => {
+    const [budgetsResponse, reportResponse] = await Promise.all([getBudgets(), getBudgetReport(day)])
+    if (budgetsResponse.success && budgetsResponse.data) setBudgets(budgetsResponse.data)
+    if (reportResponse.success && reportResponse.data) {
+      setRows(reportResponse.data.rows)
+      setAlertPercent(reportResponse.data.alertPercent)
+    }
+    if (!budgetsResponse.success || !reportResponse.success) {
+      toast.error(budgetsResponse.error || reportResponse.error || "Failed to fetch budgets")
+    }
+    setIsLoading(false)
+  }
+
+  useEffect(() => {
+    fetchBudgets()
+  }, [day, refreshKey])
+
+  const openDialog = (budget?: Budget) => {
+    setEditing(budget || null)
+    setForm(
+      budget
+        ? {
+            categoryId: budget.categoryId,
+            period: budget.period,
+            amount: String(budget.amount),
+            notes: budget.notes || "",
+          }
+        : emptyBudget(),
+    )
+    setDialogOpen(true)
+  }
+
+  const handleSave = async () => {
+    if (!form.categoryId || !(Number(form.amount) > 0)) {
+      toast.error("Choose a category and enter an amount greater than zero")
+      return
+    }
+
+    setIsSaving(true)
+    const data = { period: form.period, amount: Number(form.amount), notes: form.notes }
+    const response = editing
+      ? await updateBudget(editing.id, data)
+      : await createBudget({ ...data, categoryId: form.categoryId })
+    setIsSaving(false)
+
+    if (response.success) {
+      toast.success(editing ? "Budget updated" : "Budget created")
+      setDialogOpen(false)
+      fetchBudgets()
+    } else {
+      toast.error(response.error || "Failed to save budget")
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!deleting) return
+    const response = await deleteBudget(deleting.budgetId)
+    if (response.success) {
+      toast.success(`Budget for ${deleting.categoryName} deleted`)
+      fetchBudgets()
+    } else {
+      toast.error(response.error || "Failed to delete budget")
+    }
+    setDeleting(null)
+  }
+
+  const chartData = rows.map((row) => ({ name: row.categoryName, budgeted: row.budgeted, actual: row.actual }))
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Budget vs Actual</CardTitle>
+            <CardDescription>
+              Month or year containing {formatDay(day)}. Expense categories are flagged at {alertPercent}% of their
+              budget.
+            </CardDescription>
+          </div>
+          {canEdit && (
+            <Button size="sm" onClick={() => openDialog()} disabled={budgets.length >= categories.length}>
+              <Plus className="mr-2 h-4 w-4" />
+              Set Budget
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Period</TableHead>
+                  <TableHead className="text-right">Budgeted</TableHead>
+                  <TableHead className="text-right">Actual</TableHead>
+                  <TableHead className="text-right">Variance</TableHead>
+                  <TableHead className="text-right">Used</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="h-24 text-center text-muted-foreground">
+                      Loading budgets...
+                    </TableCell>
+                  </TableRow>
+                ) : rows.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="h-24 text-center text-muted-foreground">
+                      No budgets set yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  rows.map((row) => (
+                    <TableRow key={row.budgetId}>
+                      <TableCell>
+                        <div className="font-medium">{row.categoryName}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {row.type === "income" ? "Income" : "Expense"}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {BUDGET_PERIOD_LABELS[row.period]}
+                        <div className="text-xs text-muted-foreground">
+                          {formatDay(row.from)} - {formatDay(row.to)}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{money(row.budgeted)}</TableCell>
+                      <TableCell className="text-right">{money(row.actual)}</TableCell>
+                      <TableCell className={`text-right ${row.variance >= 0 ? "text-green-600" : "text-red-600"}`}>
+                        {money(row.variance)}
+                      </TableCell>
+                      <TableCell className="text-right">{row.percentUsed}%</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[row.status]}>{STATUS_LABELS[row.status]}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {canEdit && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => {
+                              const budget = budgets.find((entry) => entry.id === row.budgetId)
+                              if (budget) openDialog(budget)
+                            }}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {canDelete && (
+                          <Button variant="ghost" size="sm" onClick={() => setDeleting(row)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          {chartData.length > 0 && (
+            <div className="h-[300px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="name" />
+                  <YAxis />
+                  <Tooltip formatter={(value: any) => money(value)} />
+                  <Legend />
+                  <Bar dataKey="budgeted" name="Budgeted" fill="#60a5fa" />
+                  <Bar dataKey="actual" name="Actual" fill="#f59e0b" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Budget" : "Set Budget"}</DialogTitle>
+            <DialogDescription>
+              Amount planned for the category each month or year, in {general.currency}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-2">
+            <div className="space-y-1">
+              <Label htmlFor="budget-category">Category</Label>
+              <Select
+                value={form.categoryId}
+                onValueChange={(categoryId) => setForm({ ...form, categoryId })}
+                disabled={editing !== null}
+              >
+                <SelectTrigger id="budget-category">
+                  <SelectValue placeholder="Select a category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableCategories.map((category) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      {category.name} ({category.type === "income" ? "Income" : "Expense"})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="budget-period">Period</Label>
+                <Select
+                  value={form.period}
+                  onValueChange={(period) => setForm({ ...form, period: period as BudgetPeriod })}
+                >
+                  <SelectTrigger id="budget-period">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(BUDGET_PERIOD_LABELS) as BudgetPeriod[]).map((period) => (
+                      <SelectItem key={period} value={period}>
+                        {BUDGET_PERIOD_LABELS[period]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="budget-amount">Amount</Label>
+                <Input
+                  id="budget-amount"
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  value={form.amount}
+                  onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="budget-notes">Notes</Label>
+              <Input
+                id="budget-notes"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? "Saving..." : editing ? "Save Changes" : "Set Budget"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmationDialog
+        open={deleting !== null}
+        onOpenChange={(open) => !open && setDeleting(null)}
+        title="Delete budget?"
+        description={`${deleting?.categoryName || "The category"} will no longer be compared against a budget. Its records are not affected.`}
+        onConfirm={handleDelete}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,244 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import { Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ConfirmationDialog } from "@/components/ui/confirmation-dialog"
+import { usePermission } from "@/components/auth/current-user-provider"
+import { useSettings } from "@/components/settings/settings-provider"
+import { deleteExchangeRate, getExchangeRates, saveExchangeRate } from "@/lib/actions"
+import { findExchangeRate, getSecondaryCurrencies } from "@/lib/currency"
+import type { ExchangeRate } from "@/lib/db"
+
+// Daily rates of the secondary currencies against the base currency. A rate applies from its
+// date until the next one, so transactions are converted with the rate of the day they happened.
+export function ExchangeRates() {
+  const { general } = useSettings()
+  const canEdit = usePermission("finance:edit")
+  const canDelete = usePermission("finance:delete")
+  const currencies = getSecondaryCurrencies(general)
+
+  const [rates, setRates] = useState<ExchangeRate[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [deleting, setDeleting] = useState<ExchangeRate | null>(null)
+  const [form, setForm] = useState({
+    currency: currencies[0] || "",
+    date: format(new Date(), "yyyy-MM-dd"),
+    rate: "",
+  })
+
+  const fetchRates = async () => {
+    const response = await getExchangeRates()
+    if (response.success && response.data) {
+      setRates(response.data)
+    } else {
+      toast.error(response.error || "Failed to fetch exchange rates")
+    }
+    setIsLoading(false)
+  }
+
+  useEffect(() => {
+    fetchRates()
+  }, [])
+
+  const handleSave = async () => {
+    const rate = Number(form.rate)
+    if (!form.currency || !form.date || !(rate > 0)) {
+      toast.error("Choose a currency and date and enter a rate greater than zero")
+      return
+    }
+
+    setIsSaving(true)
+    const response = await saveExchangeRate(form.currency, form.date, rate)
+    setIsSaving(false)
+
+    if (response.success) {
+      toast.success(`${form.currency} rate for ${new Date(`${form.date}T00:00:00`).toLocaleDateString()} saved`)
+      setForm({ ...form, rate: "" })
+      fetchRates()
+    } else {
+      toast.error(response.error || "Failed to save exchange rate")
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!deleting) return
+    const response = await deleteExchangeRate(deleting.id)
+    if (response.success) {
+      toast.success("Exchange rate deleted")
+      fetchRates()
+    } else {
+      toast.error(response.error || "Failed to delete exchange rate")
+    }
+    setDeleting(null)
+  }
+
+  const today = format(new Date(), "yyyy-MM-dd")
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Exchange Rates</CardTitle>
+          <CardDescription>
+            Value of one unit of each secondary currency in {general.currency}. Payments and records in another
+            currency are converted with the latest rate on or before their date, and reports are in {general.currency}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {currencies.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No secondary currencies are set up. Add them to the general settings to enter rates.
+            </p>
+          ) : (
+            <>
+              <div className="grid gap-4 md:grid-cols-3">
+                {currencies.map((currency) => {
+                  const current = findExchangeRate(rates, currency, today)
+                  return (
+                    <div key={currency} className="rounded-md border p-3">
+                      <div className="text-sm text-muted-foreground">1 {currency}</div>
+                      <div className="text-xl font-bold">
+                        {current ? `${current.rate} ${general.currency}` : "No rate"}
+                      </div>
+                      {current && (
+                        <div className="text-xs text-muted-foreground">
+                          Since {new Date(`${current.date}T00:00:00`).toLocaleDateString()}
+                        </div>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+
+              {canEdit && (
+                <div className="flex flex-wrap items-end gap-4">
+                  <div className="space-y-1">
+                    <Label htmlFor="rate-currency">Currency</Label>
+                    <Select value={form.currency} onValueChange={(currency) => setForm({ ...form, currency })}>
+                      <SelectTrigger id="rate-currency" className="w-28">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {currencies.map((currency) => (
+                          <SelectItem key={currency} value={currency}>
+                            {currency}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="rate-date">Date</Label>
+                    <Input
+                      id="rate-date"
+                      type="date"
+                      value={form.date}
+                      onChange={(e) => setForm({ ...form, date: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="rate-value">Rate ({general.currency})</Label>
+                    <Input
+                      id="rate-value"
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={form.rate}
+                      onChange={(e) => setForm({ ...form, rate: e.target.value })}
+                      className="w-36"
+                    />
+                  </div>
+                  <Button onClick={handleSave} disabled={isSaving}>
+                    {isSaving ? "Saving..." : "Save Rate"}
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Rate History</CardTitle>
+          <CardDescription>Saving a rate for a day that already has one replaces it</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Currency</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead className="text-right">Per {general.currency}</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="h-24 text-center text-muted-foreground">
+                      Loading exchange rates...
+                    </TableCell>
+                  </TableRow>
+                ) : rates.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="h-24 text-center text-muted-foreground">
+                      No exchange rates entered yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  rates.map((rate) => (
+                    <TableRow key={rate.id}>
+                      <TableCell>{new Date(`${rate.date}T00:00:00`).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        {rate.currency}
+                        {!currencies.includes(rate.currency) && (
+                          <Badge variant="outline" className="ml-2">
+                            Not accepted
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        1 {rate.currency} = {rate.rate} {general.currency}
+                      </TableCell>
+                      <TableCell className="text-right text-muted-foreground">
+                        {(1 / rate.rate).toFixed(4)} {rate.currency}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {canDelete && (
+                          <Button variant="ghost" size="sm" onClick={() => setDeleting(rate)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <ConfirmationDialog
+        open={deleting !== null}
+        onOpenChange={(open) => !open && setDeleting(null)}
+        title="Delete exchange rate?"
+        description="Records already converted keep the rate they were booked at. New transactions on these dates will use the previous rate."
+        onConfirm={handleDelete}
+      />
+    </div>
+  )
+}
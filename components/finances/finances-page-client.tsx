@@ -6,6 +6,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell } from "recharts";
 import { useEffect, useState } from "react";
 import { DateRange } from "react-day-picker";
+import { format } from "date-fns";
 import { CalendarDateRangePicker } from "../ui/date-range-picker";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
@@ -19,7 +20,6 @@ import {
   SelectValue 
 } from "@/components/ui/select";
 import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card";
-import { formatCurrency } from "@/lib/utils";
 import { Textarea } from "@/components/ui/textarea";
 import { TableHead, TableRow, TableHeader, TableCell, TableBody, Table } from "@/components/ui/table";
 import { FileDown, Plus, Info, ArrowUpRight, ArrowDownRight } from "lucide-react";
@@ -30,7 +30,9 @@ import {
   deleteFinanceCategory,
   deleteFinanceRecord,
   exportFinanceRecordsToCSV,
+  getFinanceRecords,
   getFinancialSummary, 
+  postDueScheduledRecords,
   updateFinanceCategory, 
   updateFinanceRecord 
 } from "@/lib/actions";
@@ -39,6 +41,12 @@ import { toast } from "sonner";
 import { Badge } from "@/components/ui/badge";
 import { getDateRangeLabel } from "@/lib/date-utils";
 import { useOnlineStatus } from "@/lib/network-status";
+import { getSecondaryCurrencies } from "@/lib/currency";
+import { useSettings, useFormatCurrency } from "@/components/settings/settings-provider";
+import { usePermission } from "@/components/auth/current-user-provider";
+import { ExchangeRates } from "@/components/finances/exchange-rates";
+import { RecurringSchedules } from "@/components/finances/recurring-schedules";
+import { BudgetOverview } from "@/components/finances/budget-overview";
 
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884d8', '#82ca9d', '#ff7300', '#a4de6c'];
 
@@ -59,9 +67,12 @@ type FinanceRecordProps = {
   description: string;
   date: string;
   referenceNumber?: string;
-  relatedEntityType?: "maintenance" | "salary" | "product" | "service" | "other";
+  relatedEntityType?: "maintenance" | "salary" | "product" | "service" | "purchase-order" | "other";
   relatedEntityId?: string;
-  paymentMethod?: "cash" | "card" | "bank_transfer" | "check" | "other";
+  paymentMethod?: "cash" | "card" | "bank_transfer" | "check" | "credit" | "other";
+  currency?: string;
+  foreignAmount?: number;
+  exchangeRate?: number;
   attachmentUrl?: string;
   notes?: string;
   createdBy: string;
@@ -69,6 +80,17 @@ type FinanceRecordProps = {
   updatedAt: string;
 };
 
+// Original amount of a record converted from a secondary currency, shown under the base amount
+function ForeignAmount({ record, baseCurrency }: { record: FinanceRecordProps; baseCurrency: string }) {
+  const formatCurrency = useFormatCurrency();
+  if (!record.currency || record.currency === baseCurrency || record.foreignAmount === undefined) return null;
+  return (
+    <div className="text-xs font-normal text-muted-foreground">
+      {formatCurrency(Number(record.foreignAmount), record.currency)} @ {record.exchangeRate}
+    </div>
+  );
+}
+
 export function FinancesPageClient({
   initialCategories = [],
   initialRecords = [],
@@ -80,8 +102,13 @@ export function FinancesPageClient({
   initialIncomeCategories: FinanceCategoryProps[];
   initialExpenseCategories: FinanceCategoryProps[];
 }) {
+  const formatCurrency = useFormatCurrency();
   // Online status
   const isOnline = useOnlineStatus();
+
+  const { general } = useSettings();
+  const secondaryCurrencies = getSecondaryCurrencies(general);
+  const canEditFinance = usePermission("finance:edit");
   
   // State
   const [categories, setCategories] = useState<FinanceCategoryProps[]>(initialCategories);
@@ -103,6 +130,7 @@ export function FinancesPageClient({
   const [newRecord, setNewRecord] = useState({
     categoryId: "",
     amount: "",
+    currency: "", // Empty = base currency
     description: ""
   });
 
@@ -203,6 +231,27 @@ export function FinancesPageClient({
   // Prepare time series data for bar chart
   const timeSeriesData = financialSummary?.timeSeriesData || [];
 
+  // Reload the records after others were posted, e.g. from a recurring schedule
+  const refreshRecords = async () => {
+    const result = await getFinanceRecords();
+    if (result.success && result.data) {
+      setRecords(result.data);
+    }
+  };
+
+  // Post what auto schedules have come due once the page is open; the page render only reads
+  useEffect(() => {
+    if (!canEditFinance || !isOnline) return;
+
+    postDueScheduledRecords().then((result) => {
+      const posted = result.success && result.data ? result.data.posted.length : 0;
+      if (posted > 0) {
+        toast.success(`Posted ${posted} scheduled record${posted === 1 ? "" : "s"}`);
+        refreshRecords();
+      }
+    });
+  }, [canEditFinance, isOnline]);
+
   // Handle add record
   const handleAddRecord = async () => {
     try {
@@ -536,6 +585,30 @@ export function FinancesPageClient({
                     className="col-span-3"
                   />
                 </div>
+                {secondaryCurrencies.length > 0 && (
+                  <div className="grid grid-cols-4 items-center gap-4">
+                    <Label htmlFor="record-currency" className="text-right">
+                      Currency
+                    </Label>
+                    <Select
+                      value={newRecord.currency || general.currency}
+                      onValueChange={(value) =>
+                        setNewRecord({ ...newRecord, currency: value === general.currency ? "" : value })
+                      }
+                    >
+                      <SelectTrigger id="record-currency" className="col-span-3">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {[general.currency, ...secondaryCurrencies].map((code) => (
+                          <SelectItem key={code} value={code}>
+                            {code}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
                 <div className="grid grid-cols-4 items-center gap-4">
                   <Label htmlFor="record-description" className="text-right">
                     Description
@@ -561,10 +634,12 @@ export function FinancesPageClient({
       </div>
 
       <Tabs defaultValue="overview" value={selectedTab} onValueChange={setSelectedTab}>
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="income">Income</TabsTrigger>
           <TabsTrigger value="expenses">Expenses</TabsTrigger>
+          <TabsTrigger value="recurring">Recurring</TabsTrigger>
+          <TabsTrigger value="exchange-rates">Exchange Rates</TabsTrigger>
         </TabsList>
         <TabsContent value="overview" className="space-y-4">
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
@@ -819,6 +894,7 @@ export function FinancesPageClient({
                               <span className={category?.type === "income" ? "text-green-600" : "text-red-600"}>
                                 {formatCurrency(record.amount)}
                               </span>
+                              <ForeignAmount record={record} baseCurrency={general.currency} />
                             </TableCell>
                             <TableCell>
                               <Badge variant={category?.type === "income" ? "success" : "destructive"}>
@@ -839,6 +915,12 @@ export function FinancesPageClient({
               </Table>
             </CardContent>
           </Card>
+
+          <BudgetOverview
+            categories={categories}
+            day={format(dateRange.to || new Date(), "yyyy-MM-dd")}
+            refreshKey={records}
+          />
         </TabsContent>
 
         <TabsContent value="income" className="space-y-4">
@@ -911,6 +993,7 @@ export function FinancesPageClient({
                               </TableCell>
                               <TableCell className="font-medium text-green-600">
                                 {formatCurrency(record.amount)}
+                                <ForeignAmount record={record} baseCurrency={general.currency} />
                               </TableCell>
                               <TableCell>{record.referenceNumber || "-"}</TableCell>
                               <TableCell>
@@ -1061,6 +1144,7 @@ export function FinancesPageClient({
                               </TableCell>
                               <TableCell className="font-medium text-red-600">
                                 {formatCurrency(record.amount)}
+                                <ForeignAmount record={record} baseCurrency={general.currency} />
                               </TableCell>
                               <TableCell>{record.referenceNumber || "-"}</TableCell>
                               <TableCell>
@@ -1140,6 +1224,14 @@ export function FinancesPageClient({
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="recurring" className="space-y-4">
+          <RecurringSchedules categories={categories} onRecordsChanged={refreshRecords} />
+        </TabsContent>
+
+        <TabsContent value="exchange-rates" className="space-y-4">
+          <ExchangeRates />
+        </TabsContent>
       </Tabs>
     </div>
   );
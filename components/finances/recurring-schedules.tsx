@@ -0,0 +1,564 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import { Edit, Plus, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ConfirmationDialog } from "@/components/ui/confirmation-dialog"
+import { usePermission } from "@/components/auth/current-user-provider"
+import { useSettings } from "@/components/settings/settings-provider"
+import {
+  createRecurringSchedule,
+  deleteRecurringSchedule,
+  getRecurringSchedules,
+  getScheduledOccurrences,
+  postScheduledOccurrence,
+  updateRecurringSchedule,
+  updateScheduledOccurrence,
+} from "@/lib/actions"
+import { getSecondaryCurrencies } from "@/lib/currency"
+import { FREQUENCY_LABELS, type OccurrenceStatus, type ScheduledOccurrence } from "@/lib/recurring"
+import type { FinanceCategory, RecurringFrequency, RecurringSchedule } from "@/lib/db"
+import { formatCurrency } from "@/lib/utils"
+
+interface RecurringSchedulesProps {
+  categories: Pick<FinanceCategory, "id" | "name" | "type">[]
+  onRecordsChanged: () => void // Records were posted, so the lists around this need a refresh
+}
+
+const STATUS_VARIANTS: Record<OccurrenceStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  due: "destructive",
+  upcoming: "outline",
+  posted: "secondary",
+  skipped: "outline",
+}
+
+const emptySchedule = () => ({
+  description: "",
+  categoryId: "",
+  amount: "",
+  currency: "",
+  frequency: "monthly" as RecurringFrequency,
+  startDate: format(new Date(), "yyyy-MM-dd"),
+  endDate: "",
+  mode: "remind" as RecurringSchedule["mode"],
+  notes: "",
+})
+
+const formatDay = (day: string) => new Date(`${day}T00:00:00`).toLocaleDateString()
+
+// Rent, utilities and other repeating income or expenses, with the occurrences coming up
+export function RecurringSchedules({ categories, onRecordsChanged }: RecurringSchedulesProps) {
+  const { general } = useSettings()
+  const canEdit = usePermission("finance:edit")
+  const canDelete = usePermission("finance:delete")
+  const secondaryCurrencies = getSecondaryCurrencies(general)
+
+  const [schedules, setSchedules] = useState<RecurringSchedule[]>([])
+  const [occurrences, setOccurrences] = useState<ScheduledOccurrence[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const [editing, setEditing] = useState<RecurringSchedule | null>(null)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [form, setForm] = useState(emptySchedule())
+  const [deleting, setDeleting] = useState<RecurringSchedule | null>(null)
+  const [adjusting, setAdjusting] = useState<ScheduledOccurrence | null>(null)
+  const [adjustment, setAdjustment] = useState({ amount: "", description: "" })
+
+  const categoryName = (id: string) => categories.find((category) => category.id === id)?.name || "Unknown"
+  const scheduleOf = (occurrence: ScheduledOccurrence) => schedules.find((entry) => entry.id === occurrence.scheduleId)
+  const money = (amount: number, currency?: string) => formatCurrency(amount, currency || general.currency)
+
+  const fetchSchedules = async () => {
+    const [schedulesResponse, occurrencesResponse] = await Promise.all([
+      getRecurringSchedules(),
+      getScheduledOccurrences(),
+    ])
+    if (schedulesResponse.success && schedulesResponse.data) setSchedules(schedulesResponse.data)
+    if (occurrencesResponse.success && occurrencesResponse.data) setOccurrences(occurrencesResponse.data)
+    if (!schedulesResponse.success || !occurrencesResponse.success) {
+      toast.error(schedulesResponse.error || occurrencesResponse.error || "Failed to fetch recurring schedules")
+    }
+    setIsLoading(false)
+  }
+
+  useEffect(() => {
+    fetchSchedules()
+  }, [])
+
+  const openDialog = (schedule?: RecurringSchedule) => {
+    setEditing(schedule || null)
+    setForm(
+      schedule
+        ? {
+            description: schedule.description,
+            categoryId: schedule.categoryId,
+            amount: String(schedule.amount),
+            currency: schedule.currency || "",
+            frequency: schedule.frequency,
+            startDate: schedule.startDate,
+            endDate: schedule.endDate || "",
+            mode: schedule.mode,
+            notes: schedule.notes || "",
+          }
+        : { ...emptySchedule(), categoryId: categories.find((category) => category.type === "expense")?.id || "" },
+    )
+    setDialogOpen(true)
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    const data = { ...form, amount: Number(form.amount) }
+    const response = editing ? await updateRecurringSchedule(editing.id, data) : await createRecurringSchedule(data)
+    setIsSaving(false)
+
+    if (response.success) {
+      toast.success(editing ? "Schedule updated" : "Schedule created")
+      setDialogOpen(false)
+      fetchSchedules()
+      onRecordsChanged()
+    } else {
+      toast.error(response.error || "Failed to save schedule")
+    }
+  }
+
+  const handleToggleActive = async (schedule: RecurringSchedule, active: boolean) => {
+    const response = await updateRecurringSchedule(schedule.id, { active })
+    if (response.success) {
+      toast.success(active ? `${schedule.description} resumed` : `${schedule.description} paused`)
+      fetchSchedules()
+      onRecordsChanged()
+    } else {
+      toast.error(response.error || "Failed to update schedule")
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!deleting) return
+    const response = await deleteRecurringSchedule(deleting.id)
+    if (response.success) {
+      toast.success("Schedule deleted")
+      fetchSchedules()
+    } else {
+      toast.error(response.error || "Failed to delete schedule")
+    }
+    setDeleting(null)
+  }
+
+  const handlePost = async (occurrence: ScheduledOccurrence) => {
+    const response = await postScheduledOccurrence(occurrence.scheduleId, occurrence.date)
+    if (response.success && response.data) {
+      toast.success(`${occurrence.description} posted for ${formatDay(occurrence.date)}`)
+      onRecordsChanged()
+      fetchSchedules()
+    } else {
+      toast.error(response.error || "Failed to post record")
+    }
+  }
+
+  const handleOccurrenceChange = async (
+    occurrence: ScheduledOccurrence,
+    change: { skip?: boolean; amount?: number; description?: string } | null,
+  ) => {
+    const response = await updateScheduledOccurrence(occurrence.scheduleId, occurrence.date, change)
+    if (response.success) {
+      toast.success(
+        change === null ? "Occurrence restored" : change.skip ? "Occurrence skipped" : "Occurrence adjusted",
+      )
+      setAdjusting(null)
+      fetchSchedules()
+      onRecordsChanged()
+    } else {
+      toast.error(response.error || "Failed to update occurrence")
+    }
+  }
+
+  const openAdjust = (occurrence: ScheduledOccurrence) => {
+    setAdjustment({ amount: String(occurrence.amount), description: occurrence.description })
+    setAdjusting(occurrence)
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Upcoming</CardTitle>
+          <CardDescription>
+            Occurrences from the last 30 days and the next 60. Auto schedules post themselves once due; reminders wait
+            for you to post them.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="h-24 text-center text-muted-foreground">
+                      Loading schedules...
+                    </TableCell>
+                  </TableRow>
+                ) : occurrences.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="h-24 text-center text-muted-foreground">
+                      Nothing scheduled in this period
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  occurrences.map((occurrence) => (
+                    <TableRow
+                      key={`${occurrence.scheduleId}-${occurrence.date}`}
+                      className={occurrence.status === "skipped" ? "text-muted-foreground line-through" : ""}
+                    >
+                      <TableCell>{formatDay(occurrence.date)}</TableCell>
+                      <TableCell>
+                        {occurrence.description}
+                        {occurrence.adjusted && (
+                          <Badge variant="outline" className="ml-2">
+                            Adjusted
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{categoryName(occurrence.categoryId)}</TableCell>
+                      <TableCell className="text-right">{money(occurrence.amount, occurrence.currency)}</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[occurrence.status]} className="capitalize">
+                          {occurrence.status === "upcoming" && occurrence.mode === "auto" ? "auto" : occurrence.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="space-x-1 text-right whitespace-nowrap">
+                        {canEdit && (occurrence.status === "due" || occurrence.status === "upcoming") && (
+                          <>
+                            <Button variant="outline" size="sm" onClick={() => handlePost(occurrence)}>
+                              Post
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => openAdjust(occurrence)}>
+                              Adjust
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => handleOccurrenceChange(occurrence, { skip: true })}>
+                              Skip
+                            </Button>
+                          </>
+                        )}
+                        {canEdit && occurrence.status !== "posted" && (occurrence.status === "skipped" || occurrence.adjusted) && (
+                          <Button variant="ghost" size="sm" onClick={() => handleOccurrenceChange(occurrence, null)}>
+                            Restore
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>Recurring Schedules</CardTitle>
+            <CardDescription>
+              Changes apply to occurrences not posted yet. Deleting a schedule keeps the records it posted.
+            </CardDescription>
+          </div>
+          {canEdit && (
+            <Button size="sm" onClick={() => openDialog()}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Schedule
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Frequency</TableHead>
+                  <TableHead>Period</TableHead>
+                  <TableHead>Mode</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {schedules.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="h-24 text-center text-muted-foreground">
+                      {isLoading ? "Loading schedules..." : "No recurring schedules yet"}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  schedules.map((schedule) => (
+                    <TableRow key={schedule.id}>
+                      <TableCell className="font-medium">{schedule.description}</TableCell>
+                      <TableCell>{categoryName(schedule.categoryId)}</TableCell>
+                      <TableCell className="text-right">{money(schedule.amount, schedule.currency)}</TableCell>
+                      <TableCell>{FREQUENCY_LABELS[schedule.frequency]}</TableCell>
+                      <TableCell>
+                        {formatDay(schedule.startDate)}
+                        {schedule.endDate ? ` - ${formatDay(schedule.endDate)}` : " onwards"}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={schedule.mode === "auto" ? "secondary" : "outline"}>
+                          {schedule.mode === "auto" ? "Auto-post" : "Remind me"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={schedule.active}
+                          disabled={!canEdit}
+                          onCheckedChange={(active) => handleToggleActive(schedule, active)}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {canEdit && (
+                          <Button variant="ghost" size="sm" onClick={() => openDialog(schedule)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {canDelete && (
+                          <Button variant="ghost" size="sm" onClick={() => setDeleting(schedule)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Schedule" : "New Recurring Schedule"}</DialogTitle>
+            <DialogDescription>
+              The record is repeated on the start date and every week, month or year after it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-2">
+            <div className="space-y-1">
+              <Label htmlFor="schedule-description">Description</Label>
+              <Input
+                id="schedule-description"
+                value={form.description}
+                placeholder="e.g. Workshop rent"
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="schedule-category">Category</Label>
+              <Select value={form.categoryId} onValueChange={(categoryId) => setForm({ ...form, categoryId })}>
+                <SelectTrigger id="schedule-category">
+                  <SelectValue placeholder="Select a category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      {category.name} ({category.type === "income" ? "Income" : "Expense"})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="schedule-amount">Amount</Label>
+                <Input
+                  id="schedule-amount"
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  value={form.amount}
+                  onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                />
+              </div>
+              {secondaryCurrencies.length > 0 && (
+                <div className="space-y-1">
+                  <Label htmlFor="schedule-currency">Currency</Label>
+                  <Select
+                    value={form.currency || general.currency}
+                    onValueChange={(value) => setForm({ ...form, currency: value === general.currency ? "" : value })}
+                  >
+                    <SelectTrigger id="schedule-currency">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {[general.currency, ...secondaryCurrencies].map((code) => (
+                        <SelectItem key={code} value={code}>
+                          {code}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="schedule-frequency">Frequency</Label>
+                <Select
+                  value={form.frequency}
+                  onValueChange={(frequency) => setForm({ ...form, frequency: frequency as RecurringFrequency })}
+                >
+                  <SelectTrigger id="schedule-frequency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(FREQUENCY_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="schedule-mode">Mode</Label>
+                <Select
+                  value={form.mode}
+                  onValueChange={(mode) => setForm({ ...form, mode: mode as RecurringSchedule["mode"] })}
+                >
+                  <SelectTrigger id="schedule-mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="remind">Remind me</SelectItem>
+                    <SelectItem value="auto">Auto-post</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="schedule-start">Start date</Label>
+                <Input
+                  id="schedule-start"
+                  type="date"
+                  value={form.startDate}
+                  onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="schedule-end">End date (optional)</Label>
+                <Input
+                  id="schedule-end"
+                  type="date"
+                  min={form.startDate}
+                  value={form.endDate}
+                  onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                />
+              </div>
+            </div>
+            {form.mode === "auto" && form.startDate < format(new Date(), "yyyy-MM-dd") && (
+              <p className="text-xs text-muted-foreground">
+                Occurrences since {formatDay(form.startDate)} that were not posted yet will be posted right away.
+              </p>
+            )}
+            <div className="space-y-1">
+              <Label htmlFor="schedule-notes">Notes</Label>
+              <Input
+                id="schedule-notes"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? "Saving..." : editing ? "Save Changes" : "Create Schedule"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={adjusting !== null} onOpenChange={(open) => !open && setAdjusting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Adjust occurrence</DialogTitle>
+            <DialogDescription>
+              {adjusting &&
+                `Only the ${formatDay(adjusting.date)} occurrence of ${scheduleOf(adjusting)?.description || adjusting.description} changes.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-2">
+            <div className="space-y-1">
+              <Label htmlFor="occurrence-amount">Amount ({adjusting?.currency || general.currency})</Label>
+              <Input
+                id="occurrence-amount"
+                type="number"
+                min="0.01"
+                step="0.01"
+                value={adjustment.amount}
+                onChange={(e) => setAdjustment({ ...adjustment, amount: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="occurrence-description">Description</Label>
+              <Input
+                id="occurrence-description"
+                value={adjustment.description}
+                onChange={(e) => setAdjustment({ ...adjustment, description: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAdjusting(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() =>
+                adjusting &&
+                handleOccurrenceChange(adjusting, {
+                  amount: Number(adjustment.amount),
+                  description: adjustment.description,
+                })
+              }
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmationDialog
+        open={deleting !== null}
+        onOpenChange={(open) => !open && setDeleting(null)}
+        title="Delete recurring schedule?"
+        description="No further records will be posted. Records it already posted stay in the finances."
+        onConfirm={handleDelete}
+      />
+    </div>
+  )
+}
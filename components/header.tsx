@@ -1,15 +1,30 @@
 "use client"
 
 import { useState } from "react"
-import { Bell, Search, Menu } from "lucide-react"
+import Link from "next/link"
+import { Bell, Search, Menu, UserCircle, KeyRound, LogOut } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet"
 import Sidebar from "@/components/sidebar"
 import { ModeToggle } from "@/components/mode-toggle"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useCurrentUser } from "@/components/auth/current-user-provider"
+import { useSignOut } from "@/hooks/use-sign-out"
+import { ROLE_LABELS } from "@/lib/auth/permissions"
 
 export default function Header() {
   const [searchQuery, setSearchQuery] = useState("")
+  const user = useCurrentUser()
+
+  const handleLogout = useSignOut()
 
   return (
     <header className="sticky top-0 z-30 flex h-16 items-center gap-4 border-b bg-background px-4 md:px-6">
@@ -44,6 +59,36 @@ export default function Header() {
           <span className="sr-only">Notifications</span>
         </Button>
         <ModeToggle />
+        {user && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" className="gap-2 px-2">
+                <UserCircle className="h-5 w-5" />
+                <span className="hidden text-left text-sm leading-tight sm:block">
+                  <span className="block font-medium">{user.name}</span>
+                  <span className="block text-xs text-muted-foreground">{ROLE_LABELS[user.role]}</span>
+                </span>
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>
+                {user.name}
+                <span className="block text-xs font-normal text-muted-foreground">@{user.username}</span>
+              </DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem asChild>
+                <Link href="/account/password">
+                  <KeyRound className="mr-2 h-4 w-4" />
+                  Change password
+                </Link>
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={handleLogout}>
+                <LogOut className="mr-2 h-4 w-4" />
+                Sign out
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
       </div>
     </header>
   )
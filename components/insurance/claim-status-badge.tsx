@@ -0,0 +1,14 @@
+import { Badge } from "@/components/ui/badge"
+import type { ClaimStatus } from "@/lib/db"
+import { CLAIM_STATUS_LABELS } from "@/lib/claims"
+
+const STATUS_BADGE_VARIANTS: Record<ClaimStatus, "warning" | "success" | "outline" | "destructive"> = {
+  submitted: "warning",
+  approved: "outline",
+  rejected: "destructive",
+  paid: "success",
+}
+
+export function ClaimStatusBadge({ status }: { status: ClaimStatus }) {
+  return <Badge variant={STATUS_BADGE_VARIANTS[status]}>{CLAIM_STATUS_LABELS[status]}</Badge>
+}
@@ -0,0 +1,96 @@
+"use client"
+
+import type { ColumnDef } from "@tanstack/react-table"
+import Link from "next/link"
+import type { Claim, Insurance, MaintenanceRequest } from "@/lib/db"
+import { DataTable } from "@/components/ui/data-table"
+import { ClaimStatusBadge } from "@/components/insurance/claim-status-badge"
+import { useFormatCurrency } from "@/components/settings/settings-provider"
+
+type ClaimRow = Claim & {
+  insurerName: string
+  carUin?: string
+  insurerBalance: number
+}
+
+interface ClaimsTableProps {
+  claims: Claim[]
+  insurers: Insurance[]
+  requests: MaintenanceRequest[]
+}
+
+// Every insurance claim; decisions are recorded from the maintenance request's Insurance tab
+export function ClaimsTable({ claims, insurers, requests }: ClaimsTableProps) {
+  const formatCurrency = useFormatCurrency()
+  const rows: ClaimRow[] = claims.map((claim) => {
+    const request = requests.find((item) => item.id === claim.maintenanceId)
+    return {
+      ...claim,
+      insurerName: insurers.find((insurer) => insurer.id === claim.insuranceId)?.name || "Unknown insurer",
+      carUin: request?.carUin,
+      insurerBalance: request?.insurerBalance || 0,
+    }
+  })
+
+  const columns: ColumnDef<ClaimRow>[] = [
+    {
+      accessorKey: "claimNumber",
+      header: "Claim Number",
+      cell: ({ row }) => <span className="font-medium">{row.original.claimNumber}</span>,
+    },
+    {
+      accessorKey: "insurerName",
+      header: "Insurer",
+    },
+    {
+      accessorKey: "maintenanceId",
+      header: "Request",
+      cell: ({ row }) => (
+        <Link href="/maintenance" className="font-mono text-xs hover:underline">
+          #{row.original.maintenanceId.slice(0, 8)}
+          {row.original.carUin && ` (${row.original.carUin})`}
+        </Link>
+      ),
+    },
+    {
+      accessorKey: "submittedAt",
+      header: "Submitted",
+      cell: ({ row }) => new Date(row.original.submittedAt).toLocaleDateString(),
+    },
+    {
+      accessorKey: "status",
+      header: "Status",
+      cell: ({ row }) => (
+        <ClaimStatusBadge status={row.original.status} />
+      ),
+    },
+    {
+      accessorKey: "claimedAmount",
+      header: () => <div className="text-right">Claimed</div>,
+      cell: ({ row }) => <div className="text-right">{formatCurrency(row.original.claimedAmount)}</div>,
+    },
+    {
+      accessorKey: "approvedAmount",
+      header: () => <div className="text-right">Approved</div>,
+      cell: ({ row }) => (
+        <div className="text-right">
+          {row.original.approvedAmount !== undefined && row.original.status !== "submitted" && row.original.status !== "rejected"
+            ? formatCurrency(row.original.approvedAmount)
+            : "-"}
+        </div>
+      ),
+    },
+    {
+      accessorKey: "deductible",
+      header: () => <div className="text-right">Deductible</div>,
+      cell: ({ row }) => <div className="text-right">{formatCurrency(row.original.deductible)}</div>,
+    },
+    {
+      accessorKey: "insurerBalance",
+      header: () => <div className="text-right">Insurer Owes</div>,
+      cell: ({ row }) => <div className="text-right font-medium">{formatCurrency(row.original.insurerBalance)}</div>,
+    },
+  ]
+
+  return <DataTable columns={columns} data={rows} searchKey="claimNumber" />
+}
@@ -1,5 +1,6 @@
 "use client"
 
+import { useState } from "react"
 import { zodResolver } from "@hookform/resolvers/zod"
 import { useForm } from "react-hook-form"
 import * as z from "zod"
@@ -8,6 +9,10 @@ import { Button } from "@/components/ui/button"
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
 import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
+import { WifiOff } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { useOnlineStatus } from "@/lib/network-status"
+import { api } from "@/lib/api-client"
 
 const insuranceSchema = z.object({
   name: z.string().min(2, {
@@ -36,7 +41,12 @@ interface InsuranceFormProps {
   isLoading?: boolean
 }
 
-export function InsuranceForm({ insurance, onSubmit, onCancel, isLoading = false }: InsuranceFormProps) {
+export function InsuranceForm({ insurance, onSubmit, onCancel, isLoading: externalLoading = false }: InsuranceFormProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [formError, setFormError] = useState<string | null>(null)
+  const isOnline = useOnlineStatus()
+  const { toast } = useToast()
+
   const form = useForm<InsuranceFormValues>({
     resolver: zodResolver(insuranceSchema),
     defaultValues: {
@@ -48,13 +58,65 @@ export function InsuranceForm({ insurance, onSubmit, onCancel, isLoading = false
     },
   })
 
-  const handleSubmit = (values: InsuranceFormValues) => {
-    onSubmit(values)
+  const handleSubmit = async (values: InsuranceFormValues) => {
+    setFormError(null)
+    setIsSubmitting(true)
+
+    try {
+      // Determine the endpoint and method based on whether we're updating or creating
+      const endpoint = insurance?.id
+        ? `/api/insurance/${insurance.id}`
+        : '/api/insurance';
+
+      // Use the appropriate HTTP method based on the operation
+      const response = insurance?.id
+        ? await api.put(endpoint, values, { baseVersion: insurance.updatedAt })
+        : await api.post(endpoint, values);
+
+      if (response.error) {
+        throw new Error(response.error.message || "Failed to save insurance company");
+      }
+
+      // Show appropriate message based on offline status
+      const action = insurance?.id ? "updated" : "created";
+      const successMessage = response.offline
+        ? `Insurance company will be ${action} when you're back online.`
+        : `Insurance company ${action} successfully.`;
+
+      toast({
+        title: response.offline ? "Saved offline" : "Success",
+        description: successMessage,
+      });
+
+      // Call the original onSubmit handler
+      onSubmit(values);
+    } catch (error: any) {
+      setFormError(error.message || "An unexpected error occurred while processing the form")
+
+      toast({
+        title: "Error",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false)
+    }
   }
 
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        {formError && <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">{formError}</div>}
+
+        {!isOnline && (
+          <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md p-3 mb-4">
+            <div className="flex items-center gap-2 text-yellow-800 dark:text-yellow-400">
+              <WifiOff className="h-4 w-4" />
+              <div className="text-sm font-medium">You are currently offline. Your changes will be saved locally and synchronized when your connection is restored.</div>
+            </div>
+          </div>
+        )}
+
         <FormField
           control={form.control}
           name="name"
@@ -126,11 +188,11 @@ export function InsuranceForm({ insurance, onSubmit, onCancel, isLoading = false
         />
 
         <div className="flex justify-end gap-2">
-          <Button type="button" variant="outline" onClick={onCancel} disabled={isLoading}>
+          <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting || externalLoading}>
             Cancel
           </Button>
-          <Button type="submit" disabled={isLoading}>
-            {isLoading ? "Saving..." : insurance ? "Update Insurance" : "Add Insurance"}
+          <Button type="submit" disabled={isSubmitting || externalLoading}>
+            {isSubmitting || externalLoading ? "Saving..." : insurance ? "Update Insurance" : "Add Insurance"}
           </Button>
         </div>
       </form>
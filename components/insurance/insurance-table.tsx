@@ -1,6 +1,7 @@
 "use client"
 
 import { useState } from "react"
+import { useRouter } from "next/navigation"
 import type { ColumnDef } from "@tanstack/react-table"
 import { Trash2, Plus } from "lucide-react"
 import type { Insurance } from "@/lib/db"
@@ -19,7 +20,7 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog"
-import { createInsurance, deleteInsurance, updateInsuranceField } from "@/lib/actions"
+import { deleteInsurance, updateInsuranceField } from "@/lib/actions"
 import { toast } from "@/components/ui/use-toast"
 import { ScrollableDialogBody } from "@/components/ui/scrollable-dialog"
 import { EditableCell } from "@/components/ui/editable-cell"
@@ -29,6 +30,7 @@ interface InsuranceTableProps {
 }
 
 export function InsuranceTable({ insuranceCompanies }: InsuranceTableProps) {
+  const router = useRouter()
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
 
@@ -59,33 +61,10 @@ export function InsuranceTable({ insuranceCompanies }: InsuranceTableProps) {
     }
   }
 
-  const handleSubmit = async (insurance: Partial<Insurance>) => {
-    setIsLoading(true)
-    try {
-      const result = await createInsurance(insurance)
-
-      if (result.success) {
-        toast({
-          title: "Insurance company created",
-          description: `${insurance.name} has been created successfully.`,
-        })
-        setIsAddDialogOpen(false)
-      } else {
-        toast({
-          title: "Error",
-          description: result.error,
-          variant: "destructive",
-        })
-      }
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "An unexpected error occurred.",
-        variant: "destructive",
-      })
-    } finally {
-      setIsLoading(false)
-    }
+  // InsuranceForm saves through the API itself; reload the list it came from
+  const handleSubmit = () => {
+    setIsAddDialogOpen(false)
+    router.refresh()
   }
 
   const handleUpdateField = async (id: string, field: string, value: string | number) => {
@@ -248,7 +227,7 @@ export function InsuranceTable({ insuranceCompanies }: InsuranceTableProps) {
             </DialogHeader>
             <ScrollableDialogBody>
               <InsuranceForm
-                onSubmit={(data) => handleSubmit(data)}
+                onSubmit={handleSubmit}
                 onCancel={() => setIsAddDialogOpen(false)}
                 isLoading={isLoading}
               />
@@ -0,0 +1,81 @@
+"use client"
+
+import { format } from "date-fns"
+import type { InsurerReceivable } from "@/lib/claims"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useFormatCurrency } from "@/components/settings/settings-provider"
+
+interface InsurerReceivablesProps {
+  receivables: InsurerReceivable[]
+}
+
+export function InsurerReceivables({ receivables }: InsurerReceivablesProps) {
+  const formatCurrency = useFormatCurrency()
+  const totals = receivables.reduce(
+    (sum, row) => ({
+      openClaims: sum.openClaims + row.openClaims,
+      billed: sum.billed + row.billed,
+      received: sum.received + row.received,
+      outstanding: sum.outstanding + row.outstanding,
+    }),
+    { openClaims: 0, billed: 0, received: 0, outstanding: 0 }
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Insurer Receivables</CardTitle>
+        <CardDescription>
+          The insurers&apos; share of each claimed request, less what they have paid. Rejected claims are left out.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Insurer</TableHead>
+              <TableHead className="text-right">Open Claims</TableHead>
+              <TableHead>Oldest Open Claim</TableHead>
+              <TableHead className="text-right">Billed</TableHead>
+              <TableHead className="text-right">Received</TableHead>
+              <TableHead className="text-right">Outstanding</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {receivables.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground">
+                  No insurance claims yet
+                </TableCell>
+              </TableRow>
+            ) : (
+              receivables.map((row) => (
+                <TableRow key={row.insuranceId}>
+                  <TableCell className="font-medium">{row.name}</TableCell>
+                  <TableCell className="text-right">{row.openClaims}</TableCell>
+                  <TableCell>{row.oldestOpenClaim ? format(new Date(row.oldestOpenClaim), "PP") : "-"}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(row.billed)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(row.received)}</TableCell>
+                  <TableCell className="text-right font-medium">{formatCurrency(row.outstanding)}</TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+          {receivables.length > 0 && (
+            <TableFooter>
+              <TableRow>
+                <TableCell>Total</TableCell>
+                <TableCell className="text-right">{totals.openClaims}</TableCell>
+                <TableCell />
+                <TableCell className="text-right">{formatCurrency(totals.billed)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(totals.received)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(totals.outstanding)}</TableCell>
+              </TableRow>
+            </TableFooter>
+          )}
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
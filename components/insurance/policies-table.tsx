@@ -0,0 +1,148 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import type { ColumnDef } from "@tanstack/react-table"
+import Link from "next/link"
+import { ArrowRightLeft } from "lucide-react"
+import type { Car, Insurance, InsurancePolicy } from "@/lib/db"
+import { DataTable } from "@/components/ui/data-table"
+import { Button } from "@/components/ui/button"
+import { ConfirmationDialog } from "@/components/ui/confirmation-dialog"
+import { useToast } from "@/hooks/use-toast"
+import { usePermission } from "@/components/auth/current-user-provider"
+import { useSettings } from "@/components/settings/settings-provider"
+import { PolicyExpiryBadge } from "@/components/insurance/policy-expiry-badge"
+import { migrateLegacyPolicies } from "@/lib/actions"
+import { getPolicyExpiryStatus, hasLegacyPolicy, type PolicyExpiryStatus } from "@/lib/policies"
+
+type PolicyRow = InsurancePolicy & {
+  insurerName: string
+  carDetails: string
+  status: PolicyExpiryStatus
+}
+
+interface PoliciesTableProps {
+  policies: InsurancePolicy[]
+  insurers: Insurance[]
+  cars: Car[]
+}
+
+// Policies of every car; they are added and renewed from the car's page
+export function PoliciesTable({ policies, insurers, cars }: PoliciesTableProps) {
+  const router = useRouter()
+  const { toast } = useToast()
+  const { notifications } = useSettings()
+  const canEdit = usePermission("insurance:edit")
+  const [isConfirmingMigration, setIsConfirmingMigration] = useState(false)
+  const [isMigrating, setIsMigrating] = useState(false)
+
+  const legacyInsurers = insurers.filter(hasLegacyPolicy)
+
+  const rows: PolicyRow[] = policies.map((policy) => {
+    const car = cars.find((item) => item.uin === policy.carUin)
+    return {
+      ...policy,
+      insurerName: insurers.find((insurer) => insurer.id === policy.insuranceId)?.name || "Unknown insurer",
+      carDetails: car ? `${car.make} ${car.model} (${car.licensePlate})` : policy.carUin,
+      status: getPolicyExpiryStatus(policy, notifications.policyExpiryAlertDays),
+    }
+  })
+
+  const handleMigrate = async () => {
+    setIsMigrating(true)
+    const response = await migrateLegacyPolicies()
+    setIsMigrating(false)
+    setIsConfirmingMigration(false)
+
+    if (!response.success || !response.data) {
+      toast({
+        title: "Error",
+        description: response.error || "Failed to convert insurance policies",
+        variant: "destructive",
+      })
+      return
+    }
+
+    const { converted, policies: created, skipped } = response.data
+    toast({
+      title: "Policies converted",
+      description:
+        `${created} policies created from ${converted} insurance companies.` +
+        (skipped.length ? ` Not converted, as no car is insured with them: ${skipped.join(", ")}.` : ""),
+    })
+    router.refresh()
+  }
+
+  const columns: ColumnDef<PolicyRow>[] = [
+    {
+      accessorKey: "policyNumber",
+      header: "Policy Number",
+      cell: ({ row }) => <span className="font-medium">{row.original.policyNumber}</span>,
+    },
+    {
+      accessorKey: "carDetails",
+      header: "Car",
+      cell: ({ row }) => (
+        <Link href={`/cars/${row.original.carUin}`} className="hover:underline">
+          {row.original.carDetails}
+        </Link>
+      ),
+    },
+    {
+      accessorKey: "insurerName",
+      header: "Insurer",
+    },
+    {
+      accessorKey: "coverageType",
+      header: "Coverage",
+      cell: ({ row }) => row.original.coverageType || "-",
+    },
+    {
+      accessorKey: "startDate",
+      header: "Start",
+      cell: ({ row }) => new Date(row.original.startDate).toLocaleDateString(),
+    },
+    {
+      accessorKey: "expiryDate",
+      header: "Expiry",
+      cell: ({ row }) => (row.original.expiryDate ? new Date(row.original.expiryDate).toLocaleDateString() : "-"),
+    },
+    {
+      accessorKey: "status",
+      header: "Status",
+      cell: ({ row }) => <PolicyExpiryBadge status={row.original.status} />,
+    },
+  ]
+
+  return (
+    <div className="space-y-4">
+      {legacyInsurers.length > 0 && (
+        <div className="flex items-center justify-between gap-4 rounded-md border border-yellow-200 bg-yellow-50 p-4 text-yellow-800 dark:border-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400">
+          <p className="text-sm">
+            {legacyInsurers.length} insurance {legacyInsurers.length === 1 ? "company still has a policy" : "companies still have a policy"}{" "}
+            stored on the company record. Convert them to a policy for each car insured with the company.
+          </p>
+          {canEdit && (
+            <Button variant="outline" disabled={isMigrating} onClick={() => setIsConfirmingMigration(true)}>
+              <ArrowRightLeft className="mr-2 h-4 w-4" />
+              Convert
+            </Button>
+          )}
+        </div>
+      )}
+
+      <DataTable columns={columns} data={rows} searchKey="policyNumber" />
+
+      <ConfirmationDialog
+        open={isConfirmingMigration}
+        onOpenChange={setIsConfirmingMigration}
+        title="Convert insurance policies"
+        description={`Create a policy for every car insured with ${legacyInsurers.map((insurer) => insurer.name).join(", ")} and remove the policy details from the company records?`}
+        onConfirm={handleMigrate}
+        isLoading={isMigrating}
+        confirmText="Convert"
+      />
+    </div>
+  )
+}
@@ -0,0 +1,13 @@
+import { Badge } from "@/components/ui/badge"
+import { POLICY_EXPIRY_LABELS, type PolicyExpiryStatus } from "@/lib/policies"
+
+const STATUS_BADGE_VARIANTS: Record<PolicyExpiryStatus, "destructive" | "warning" | "success" | "outline"> = {
+  expired: "destructive",
+  expiring: "warning",
+  active: "success",
+  "no-expiry": "outline",
+}
+
+export function PolicyExpiryBadge({ status }: { status: PolicyExpiryStatus }) {
+  return <Badge variant={STATUS_BADGE_VARIANTS[status]}>{POLICY_EXPIRY_LABELS[status]}</Badge>
+}
@@ -0,0 +1,208 @@
+"use client"
+
+import { useState } from "react"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useForm } from "react-hook-form"
+import * as z from "zod"
+import type { Insurance, InsurancePolicy } from "@/lib/db"
+import { Button } from "@/components/ui/button"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { WifiOff } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { useOnlineStatus } from "@/lib/network-status"
+import { api } from "@/lib/api-client"
+
+const policySchema = z
+  .object({
+    insuranceId: z.string().min(1, { message: "Select the insurance company." }),
+    policyNumber: z.string().trim().min(1, { message: "Policy number is required." }),
+    coverageType: z.string(),
+    startDate: z.string().min(1, { message: "Start date is required." }),
+    expiryDate: z.string().min(1, { message: "Expiry date is required." }),
+    notes: z.string(),
+  })
+  .refine((values) => values.expiryDate >= values.startDate, {
+    message: "Expiry date can't be before the start date.",
+    path: ["expiryDate"],
+  })
+
+type PolicyFormValues = z.infer<typeof policySchema>
+
+interface PolicyFormProps {
+  carUin: string
+  insurers: Insurance[]
+  policy?: InsurancePolicy
+  onSubmit: () => void
+  onCancel: () => void
+}
+
+export function PolicyForm({ carUin, insurers, policy, onSubmit, onCancel }: PolicyFormProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const isOnline = useOnlineStatus()
+  const { toast } = useToast()
+
+  const form = useForm<PolicyFormValues>({
+    resolver: zodResolver(policySchema),
+    defaultValues: {
+      insuranceId: policy?.insuranceId || "",
+      policyNumber: policy?.policyNumber || "",
+      coverageType: policy?.coverageType || "",
+      startDate: policy?.startDate?.split("T")[0] || new Date().toISOString().split("T")[0],
+      expiryDate: policy?.expiryDate?.split("T")[0] || "",
+      notes: policy?.notes || "",
+    },
+  })
+
+  const handleSubmit = async (values: PolicyFormValues) => {
+    setIsSubmitting(true)
+    try {
+      const response = policy
+        ? await api.put(`/api/policies/${policy.id}`, values, { baseVersion: policy.updatedAt })
+        : await api.post("/api/policies", { ...values, carUin })
+      if (response.error) {
+        throw new Error(response.error.message || "Failed to save insurance policy")
+      }
+
+      const action = policy ? "updated" : "added"
+      toast({
+        title: response.offline ? "Saved offline" : "Success",
+        description: response.offline
+          ? `Policy ${values.policyNumber.trim()} will be ${action} when you're back online.`
+          : `Policy ${values.policyNumber.trim()} ${action}.`,
+      })
+      onSubmit()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save insurance policy",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        {!isOnline && (
+          <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md p-3">
+            <div className="flex items-center gap-2 text-yellow-800 dark:text-yellow-400">
+              <WifiOff className="h-4 w-4" />
+              <div className="text-sm font-medium">You are currently offline. Your changes will be saved locally and synchronized when your connection is restored.</div>
+            </div>
+          </div>
+        )}
+
+        <FormField
+          control={form.control}
+          name="insuranceId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Insurance Company</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select insurer" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {insurers.map((insurer) => (
+                    <SelectItem key={insurer.id} value={insurer.id}>
+                      {insurer.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="policyNumber"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Policy Number</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="coverageType"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Coverage</FormLabel>
+                <FormControl>
+                  <Input placeholder="Comprehensive, third party..." {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="startDate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Start Date</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="expiryDate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Expiry Date</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notes</FormLabel>
+              <FormControl>
+                <Textarea rows={2} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? "Saving..." : policy ? "Save Policy" : "Add Policy"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  )
+}
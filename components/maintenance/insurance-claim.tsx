@@ -0,0 +1,321 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { format } from "date-fns"
+import { ShieldCheck, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Separator } from "@/components/ui/separator"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ConfirmationDialog } from "@/components/ui/confirmation-dialog"
+import { useToast } from "@/components/ui/use-toast"
+import { usePermission } from "@/components/auth/current-user-provider"
+import { ClaimStatusBadge } from "@/components/insurance/claim-status-badge"
+import { createClaim, deleteClaim, getClaimByMaintenanceId, getInsuranceCompanies, updateClaim } from "@/lib/actions"
+import { CLAIM_STATUS_LABELS, CLAIM_STATUS_TRANSITIONS, getInsurerPortion } from "@/lib/claims"
+import type { Claim, ClaimStatus, Insurance, MaintenanceRequest } from "@/lib/db"
+import { useFormatCurrency } from "@/components/settings/settings-provider"
+
+const transitionLabels: Record<ClaimStatus, string> = {
+  submitted: "Resubmit",
+  approved: "Approve",
+  rejected: "Reject",
+  paid: "Paid",
+}
+
+interface InsuranceClaimProps {
+  request: MaintenanceRequest
+  carInsuranceId?: string
+}
+
+// The insurance claim of a maintenance request and how its total is split with the customer
+export function InsuranceClaim({ request, carInsuranceId }: InsuranceClaimProps) {
+  const formatCurrency = useFormatCurrency()
+  const router = useRouter()
+  const { toast } = useToast()
+  const canEdit = usePermission("insurance:edit")
+  const canDelete = usePermission("insurance:delete")
+
+  const [claim, setClaim] = useState<Claim | null>(null)
+  const [insurers, setInsurers] = useState<Insurance[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false)
+
+  const [insuranceId, setInsuranceId] = useState(carInsuranceId || "")
+  const [claimNumber, setClaimNumber] = useState("")
+  const [claimedAmount, setClaimedAmount] = useState(String(request.totalCost || 0))
+  const [deductible, setDeductible] = useState("0")
+  const [notes, setNotes] = useState("")
+  const [approvedAmount, setApprovedAmount] = useState("")
+
+  const loadClaim = useCallback(async () => {
+    const [claimResponse, insurersResponse] = await Promise.all([
+      getClaimByMaintenanceId(request.id),
+      getInsuranceCompanies(),
+    ])
+    if (claimResponse.success) {
+      setClaim(claimResponse.data || null)
+      setApprovedAmount(String(claimResponse.data?.approvedAmount ?? claimResponse.data?.claimedAmount ?? ""))
+    }
+    if (insurersResponse.success && insurersResponse.data) setInsurers(insurersResponse.data)
+    setIsLoading(false)
+  }, [request.id])
+
+  useEffect(() => {
+    loadClaim()
+  }, [loadClaim])
+
+  const runAction = async (action: () => Promise<{ success: boolean; error?: string }>, successMessage: string) => {
+    setIsSaving(true)
+    const response = await action()
+    setIsSaving(false)
+
+    if (!response.success) {
+      toast({
+        title: "Error",
+        description: response.error || "Failed to save insurance claim",
+        variant: "destructive",
+      })
+      return false
+    }
+
+    toast({ title: "Success", description: successMessage })
+    await loadClaim()
+    router.refresh()
+    return true
+  }
+
+  const insurerName = (id: string) => insurers.find((insurer) => insurer.id === id)?.name || "Unknown insurer"
+
+  const handleSubmitClaim = () =>
+    runAction(
+      () =>
+        createClaim({
+          maintenanceId: request.id,
+          insuranceId,
+          claimNumber,
+          claimedAmount,
+          deductible,
+          notes,
+        }),
+      `Claim ${claimNumber.trim()} submitted to ${insurerName(insuranceId)}.`
+    )
+
+  const handleStatus = (status: ClaimStatus) =>
+    claim &&
+    runAction(
+      () => updateClaim(claim.id, status === "approved" ? { status, approvedAmount } : { status }),
+      `Claim ${claim.claimNumber} ${status === "submitted" ? "resubmitted" : CLAIM_STATUS_LABELS[status].toLowerCase()}.`
+    )
+
+  const handleDelete = async () => {
+    if (!claim) return
+    const deleted = await runAction(() => deleteClaim(claim.id), `Claim ${claim.claimNumber} deleted.`)
+    if (deleted) setIsConfirmingDelete(false)
+  }
+
+  if (isLoading) {
+    return <p className="py-4 text-center text-sm text-muted-foreground">Loading insurance claim...</p>
+  }
+
+  if (!claim) {
+    if (!canEdit) {
+      return <p className="py-4 text-center text-sm text-muted-foreground">No insurance claim for this request.</p>
+    }
+
+    return (
+      <div className="rounded-md border p-4 space-y-4">
+        <div>
+          <h4 className="font-medium">Submit Insurance Claim</h4>
+          <p className="text-sm text-muted-foreground">
+            The insurer&apos;s share is billed to them; the customer pays the rest, including the deductible.
+          </p>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label>Insurance Company</Label>
+            <Select value={insuranceId} onValueChange={setInsuranceId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select insurer" />
+              </SelectTrigger>
+              <SelectContent>
+                {insurers.map((insurer) => (
+                  <SelectItem key={insurer.id} value={insurer.id}>
+                    {insurer.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Claim Number</Label>
+            <Input value={claimNumber} onChange={(e) => setClaimNumber(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label>Claimed Amount</Label>
+            <Input
+              type="number"
+              step="0.01"
+              min={0}
+              value={claimedAmount}
+              onChange={(e) => setClaimedAmount(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Deductible</Label>
+            <Input type="number" step="0.01" min={0} value={deductible} onChange={(e) => setDeductible(e.target.value)} />
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label>Notes</Label>
+          <Textarea rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+        </div>
+        <div className="flex justify-end">
+          <Button disabled={isSaving || !insuranceId || !claimNumber.trim()} onClick={handleSubmitClaim}>
+            <ShieldCheck className="mr-2 h-4 w-4" />
+            Submit Claim
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  const insurerPortion = getInsurerPortion(claim, request.totalCost)
+  const insurerPaid = request.insurerPaid || 0
+  const customerPaid = request.customerPaid ?? request.paidAmount
+  const customerPortion = request.totalCost - insurerPortion
+  const transitions = CLAIM_STATUS_TRANSITIONS[claim.status]
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="pb-2 flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-sm">
+            {insurerName(claim.insuranceId)} &middot; Claim {claim.claimNumber}
+          </CardTitle>
+          <ClaimStatusBadge status={claim.status} />
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm">
+          <div className="flex justify-between">
+            <span>Submitted:</span>
+            <span>{format(new Date(claim.submittedAt), "PP")}</span>
+          </div>
+          {claim.decidedAt && claim.status !== "submitted" && (
+            <div className="flex justify-between">
+              <span>{claim.status === "rejected" ? "Rejected" : "Approved"}:</span>
+              <span>{format(new Date(claim.decidedAt), "PP")}</span>
+            </div>
+          )}
+          <div className="flex justify-between">
+            <span>Claimed:</span>
+            <span className="font-medium">{formatCurrency(claim.claimedAmount)}</span>
+          </div>
+          {claim.approvedAmount !== undefined && claim.status !== "submitted" && claim.status !== "rejected" && (
+            <div className="flex justify-between">
+              <span>Approved:</span>
+              <span className="font-medium">{formatCurrency(claim.approvedAmount)}</span>
+            </div>
+          )}
+          <div className="flex justify-between">
+            <span>Deductible:</span>
+            <span className="font-medium">{formatCurrency(claim.deductible)}</span>
+          </div>
+          {claim.notes && <p className="text-muted-foreground">{claim.notes}</p>}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm">Insurer</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span>Portion:</span>
+              <span className="font-medium">{formatCurrency(insurerPortion)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Paid:</span>
+              <span className="font-medium">{formatCurrency(insurerPaid)}</span>
+            </div>
+            <Separator />
+            <div className="flex justify-between font-bold">
+              <span>Balance:</span>
+              <span>{formatCurrency(insurerPortion - insurerPaid)}</span>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm">Customer</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span>Portion:</span>
+              <span className="font-medium">{formatCurrency(customerPortion)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Paid:</span>
+              <span className="font-medium">{formatCurrency(customerPaid)}</span>
+            </div>
+            <Separator />
+            <div className="flex justify-between font-bold">
+              <span>Balance:</span>
+              <span>{formatCurrency(customerPortion - customerPaid)}</span>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {(canEdit && transitions.length > 0) || canDelete ? (
+        <div className="flex flex-wrap items-end justify-end gap-2">
+          {canEdit && transitions.includes("approved") && (
+            <div className="space-y-1">
+              <Label>Approved Amount</Label>
+              <Input
+                type="number"
+                step="0.01"
+                min={0}
+                className="w-36"
+                value={approvedAmount}
+                onChange={(e) => setApprovedAmount(e.target.value)}
+              />
+            </div>
+          )}
+          {canEdit &&
+            transitions.map((status) => (
+              <Button
+                key={status}
+                variant={status === "rejected" ? "outline" : "default"}
+                disabled={isSaving || (status === "approved" && approvedAmount === "")}
+                onClick={() => handleStatus(status)}
+              >
+                {transitionLabels[status]}
+              </Button>
+            ))}
+          {canDelete && (
+            <Button variant="ghost" size="icon" disabled={isSaving} onClick={() => setIsConfirmingDelete(true)}>
+              <Trash2 className="h-4 w-4" />
+              <span className="sr-only">Delete claim</span>
+            </Button>
+          )}
+        </div>
+      ) : null}
+
+      <ConfirmationDialog
+        open={isConfirmingDelete}
+        onOpenChange={setIsConfirmingDelete}
+        title="Delete insurance claim"
+        description={`Delete claim ${claim.claimNumber}? The full total goes back to the customer.`}
+        onConfirm={handleDelete}
+        isLoading={isSaving}
+        confirmText="Delete"
+      />
+    </div>
+  )
+}
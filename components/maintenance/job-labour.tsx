@@ -0,0 +1,321 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { format } from "date-fns"
+import { Clock, Play, Plus, Square, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/components/ui/use-toast"
+import { usePermission } from "@/components/auth/current-user-provider"
+import { clockOff, clockOn, createTimeEntry, deleteTimeEntry, getTechnicians, getTimeEntries } from "@/lib/actions"
+import { formatHours, getEntryHours, getLoggedHours, getStandardHours } from "@/lib/labour"
+import type { MaintenanceRequest, Service, TimeEntry } from "@/lib/db"
+import { useFormatCurrency } from "@/components/settings/settings-provider"
+
+// Select items can't have an empty value
+const WHOLE_JOB = "whole-job"
+
+type Technician = { id: string; name: string; position: string; isActive: boolean }
+
+interface JobLabourProps {
+  request: MaintenanceRequest
+  services: Service[]
+}
+
+// Clock-on/clock-off time for a maintenance job, against its standard time
+export function JobLabour({ request, services }: JobLabourProps) {
+  const formatCurrency = useFormatCurrency()
+  const router = useRouter()
+  const { toast } = useToast()
+  const canEdit = usePermission("maintenance:edit")
+  const canDelete = usePermission("maintenance:delete")
+
+  const [entries, setEntries] = useState<TimeEntry[]>([])
+  const [technicians, setTechnicians] = useState<Technician[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [now, setNow] = useState(() => new Date())
+  const [employeeId, setEmployeeId] = useState("")
+  const [serviceId, setServiceId] = useState(WHOLE_JOB)
+  const [isAddingTime, setIsAddingTime] = useState(false)
+  const [manualStart, setManualStart] = useState("")
+  const [manualEnd, setManualEnd] = useState("")
+
+  const isOpen = request.status !== "completed" && request.status !== "cancelled"
+
+  const loadEntries = useCallback(async () => {
+    const [entriesResponse, techniciansResponse] = await Promise.all([
+      getTimeEntries(request.id),
+      getTechnicians(),
+    ])
+    if (entriesResponse.success && entriesResponse.data) setEntries(entriesResponse.data)
+    if (techniciansResponse.success && techniciansResponse.data) setTechnicians(techniciansResponse.data)
+    setIsLoading(false)
+  }, [request.id])
+
+  useEffect(() => {
+    loadEntries()
+  }, [loadEntries])
+
+  // Keep running clocks ticking
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 30_000)
+    return () => clearInterval(timer)
+  }, [])
+
+  const runAction = async (action: () => Promise<{ success: boolean; error?: string }>, successMessage: string) => {
+    setIsSaving(true)
+    const response = await action()
+    setIsSaving(false)
+
+    if (!response.success) {
+      toast({
+        title: "Error",
+        description: response.error || "Failed to save time entry",
+        variant: "destructive",
+      })
+      return false
+    }
+
+    toast({ title: "Success", description: successMessage })
+    await loadEntries()
+    router.refresh()
+    return true
+  }
+
+  const technicianName = (id: string) => technicians.find((technician) => technician.id === id)?.name || "Former employee"
+  const serviceName = (id?: string) =>
+    id ? services.find((service) => service.id === id)?.name || "Unknown service" : "Whole job"
+
+  const jobLines = request.servicesUsed.filter(
+    (line, index, lines) => lines.findIndex((other) => other.serviceId === line.serviceId) === index
+  )
+  const runningIds = new Set(entries.filter((entry) => !entry.endTime).map((entry) => entry.employeeId))
+  const activeTechnicians = technicians.filter((technician) => technician.isActive)
+
+  const loggedHours = getLoggedHours(entries)
+  const runningHours = entries
+    .filter((entry) => !entry.endTime)
+    .reduce((sum, entry) => sum + getEntryHours(entry, now), 0)
+  const standardHours = request.servicesUsed.reduce(
+    (sum, line) => sum + getStandardHours(services.find((service) => service.id === line.serviceId), line.quantity),
+    0
+  )
+
+  const handleClockOn = () =>
+    runAction(
+      () => clockOn(request.id, employeeId, serviceId === WHOLE_JOB ? undefined : serviceId),
+      `${technicianName(employeeId)} clocked on.`
+    )
+
+  const handleAddTime = async () => {
+    const saved = await runAction(
+      () =>
+        createTimeEntry({
+          maintenanceId: request.id,
+          employeeId,
+          serviceId: serviceId === WHOLE_JOB ? undefined : serviceId,
+          startTime: new Date(manualStart).toISOString(),
+          endTime: new Date(manualEnd).toISOString(),
+        }),
+      "Time added."
+    )
+    if (saved) {
+      setIsAddingTime(false)
+      setManualStart("")
+      setManualEnd("")
+    }
+  }
+
+  if (isLoading) {
+    return <p className="py-4 text-center text-sm text-muted-foreground">Loading time entries...</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm">Logged</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatHours(loggedHours)}</div>
+            {runningHours > 0 && (
+              <p className="text-xs text-muted-foreground">+ {formatHours(runningHours)} on running clocks</p>
+            )}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm">Standard Time</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{standardHours > 0 ? formatHours(standardHours) : "-"}</div>
+            {standardHours > 0 && loggedHours > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {Math.round((standardHours / loggedHours) * 100)}% efficiency
+              </p>
+            )}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm">Labour Charge</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {request.labourBilling === "hourly" ? (
+              <>
+                <div className="text-2xl font-bold">{formatCurrency(request.serviceCost || 0)}</div>
+                <p className="text-xs text-muted-foreground">
+                  {formatHours(request.labourHours || 0)} at {formatCurrency(request.labourRate || 0)}/h
+                </p>
+              </>
+            ) : (
+              <>
+                <div className="text-2xl font-bold">{formatCurrency(request.serviceCost || 0)}</div>
+                <p className="text-xs text-muted-foreground">Standard service fees</p>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {canEdit && isOpen && (
+        <div className="rounded-md border p-3 space-y-3">
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-1">
+              <Label>Technician</Label>
+              <Select value={employeeId} onValueChange={setEmployeeId}>
+                <SelectTrigger className="w-48">
+                  <SelectValue placeholder="Select technician" />
+                </SelectTrigger>
+                <SelectContent>
+                  {activeTechnicians.map((technician) => (
+                    <SelectItem key={technician.id} value={technician.id}>
+                      {technician.name}
+                      {runningIds.has(technician.id) && " (clocked on)"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Working on</Label>
+              <Select value={serviceId} onValueChange={setServiceId}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={WHOLE_JOB}>Whole job</SelectItem>
+                  {jobLines.map((line) => (
+                    <SelectItem key={line.serviceId} value={line.serviceId}>
+                      {serviceName(line.serviceId)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button disabled={isSaving || !employeeId || runningIds.has(employeeId)} onClick={handleClockOn}>
+              <Play className="mr-2 h-4 w-4" />
+              Clock On
+            </Button>
+            <Button variant="outline" disabled={isSaving} onClick={() => setIsAddingTime(!isAddingTime)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Time
+            </Button>
+          </div>
+
+          {isAddingTime && (
+            <div className="flex flex-wrap items-end gap-2">
+              <div className="space-y-1">
+                <Label>From</Label>
+                <Input type="datetime-local" value={manualStart} onChange={(event) => setManualStart(event.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label>To</Label>
+                <Input type="datetime-local" value={manualEnd} onChange={(event) => setManualEnd(event.target.value)} />
+              </div>
+              <Button disabled={isSaving || !employeeId || !manualStart || !manualEnd} onClick={handleAddTime}>
+                Save Time
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="rounded-md border">
+        <table className="min-w-full divide-y divide-border">
+          <thead>
+            <tr className="divide-x divide-border">
+              <th className="px-4 py-3.5 text-left text-sm font-semibold">Technician</th>
+              <th className="px-4 py-3.5 text-left text-sm font-semibold">Working on</th>
+              <th className="px-4 py-3.5 text-left text-sm font-semibold">Clocked On</th>
+              <th className="px-4 py-3.5 text-left text-sm font-semibold">Clocked Off</th>
+              <th className="px-4 py-3.5 text-left text-sm font-semibold">Time</th>
+              <th className="px-4 py-3.5" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border">
+            {entries.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="px-4 py-2 text-sm text-center">
+                  No time booked yet
+                </td>
+              </tr>
+            ) : (
+              entries.map((entry) => (
+                <tr key={entry.id} className="divide-x divide-border">
+                  <td className="whitespace-nowrap px-4 py-2 text-sm">{technicianName(entry.employeeId)}</td>
+                  <td className="whitespace-nowrap px-4 py-2 text-sm">{serviceName(entry.serviceId)}</td>
+                  <td className="whitespace-nowrap px-4 py-2 text-sm">
+                    {format(new Date(entry.startTime), "MMM d, HH:mm")}
+                  </td>
+                  <td className="whitespace-nowrap px-4 py-2 text-sm">
+                    {entry.endTime ? (
+                      format(new Date(entry.endTime), "MMM d, HH:mm")
+                    ) : (
+                      <Badge variant="warning">
+                        <Clock className="mr-1 h-3 w-3" />
+                        Running
+                      </Badge>
+                    )}
+                  </td>
+                  <td className="whitespace-nowrap px-4 py-2 text-sm">{formatHours(getEntryHours(entry, now))}</td>
+                  <td className="whitespace-nowrap px-4 py-2 text-sm text-right">
+                    {canEdit && isOpen && !entry.endTime && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={isSaving}
+                        onClick={() => runAction(() => clockOff(entry.id), `${technicianName(entry.employeeId)} clocked off.`)}
+                      >
+                        <Square className="mr-2 h-3 w-3" />
+                        Clock Off
+                      </Button>
+                    )}
+                    {canDelete && isOpen && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        disabled={isSaving}
+                        onClick={() => runAction(() => deleteTimeEntry(entry.id), "Time entry deleted.")}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        <span className="sr-only">Delete</span>
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
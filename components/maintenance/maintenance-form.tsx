@@ -4,19 +4,21 @@ import { useState, useEffect, useCallback } from "react"
 import { zodResolver } from "@hookform/resolvers/zod"
 import { useFieldArray, useForm } from "react-hook-form"
 import * as z from "zod"
-import type { MaintenanceRequest } from "@/lib/db"
+import type { Appointment, MaintenanceRequest } from "@/lib/db"
 import { Button } from "@/components/ui/button"
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
 import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
 import { Trash2, Plus, WifiOff } from "lucide-react"
 import {
   getCars,
   getClients,
   getServices,
   getProducts,
+  getTechnicians,
   createMaintenanceRequest,
   updateMaintenanceRequest,
 } from "@/lib/actions"
@@ -24,6 +26,12 @@ import { useToast } from "@/components/ui/use-toast"
 import { useOnlineStatus } from "@/lib/network-status"
 import { api } from "@/lib/api-client"
 import { queueOfflineOperation } from "@/lib/offline-storage"
+import { LABOUR_BILLING_LABELS, getStandardHours, formatHours } from "@/lib/labour"
+import { getLineUnitPrice } from "@/lib/line-prices"
+import { BarcodeScanInput } from "@/components/products/barcode-scan-input"
+
+// Select items can't have an empty value
+const UNASSIGNED = "unassigned"
 
 const maintenanceSchema = z.object({
   carUin: z.string().min(1, {
@@ -37,9 +45,12 @@ const maintenanceSchema = z.object({
       z.object({
         serviceId: z.string().min(1, { message: "Service is required" }),
         quantity: z.coerce.number().int().min(1, { message: "Quantity must be at least 1" }),
+        technicianId: z.string().optional(),
       }),
     )
     .min(1, { message: "At least one service is required" }),
+  assignedEmployeeIds: z.array(z.string()),
+  labourBilling: z.enum(["standard", "hourly"]),
   productsUsed: z.array(
     z.object({
       productId: z.string().min(1, { message: "Product is required" }),
@@ -52,6 +63,11 @@ const maintenanceSchema = z.object({
   discountJustification: z.string().max(30).optional(),
   startDate: z.string().min(1, { message: "Start date is required" }),
   endDate: z.string().optional(),
+  // Left empty when the reading wasn't taken
+  odometer: z.preprocess(
+    (value) => (value === "" || value === null ? undefined : value),
+    z.coerce.number().int().min(0, { message: "Odometer reading can't be negative" }).optional(),
+  ),
   status: z.enum(["pending", "in-progress", "completed", "cancelled"]),
 })
 
@@ -59,16 +75,25 @@ interface MaintenanceFormProps {
   request?: MaintenanceRequest
   initialCarUin?: string
   initialClientId?: string
+  appointment?: Appointment // Prefills a new request from a booked appointment
   onSubmit: () => void
   onCancel: () => void
 }
 
-export function MaintenanceForm({ request, initialCarUin, initialClientId, onSubmit, onCancel }: MaintenanceFormProps) {
+export function MaintenanceForm({
+  request,
+  initialCarUin,
+  initialClientId,
+  appointment,
+  onSubmit,
+  onCancel,
+}: MaintenanceFormProps) {
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [cars, setCars] = useState<any[]>([])
   const [clients, setClients] = useState<any[]>([])
   const [services, setServices] = useState<any[]>([])
   const [products, setProducts] = useState<any[]>([])
+  const [technicians, setTechnicians] = useState<any[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const { toast } = useToast()
 
@@ -78,12 +103,8 @@ export function MaintenanceForm({ request, initialCarUin, initialClientId, onSub
       setIsLoading(true)
       try {
         // Fetch all required data in parallel
-        const [carsResponse, clientsResponse, servicesResponse, productsResponse] = await Promise.all([
-          getCars(),
-          getClients(),
-          getServices(),
-          getProducts(),
-        ])
+        const [carsResponse, clientsResponse, servicesResponse, productsResponse, techniciansResponse] =
+          await Promise.all([getCars(), getClients(), getServices(), getProducts(), getTechnicians()])
 
         if (carsResponse.success && carsResponse.data) {
           setCars(carsResponse.data)
@@ -100,6 +121,10 @@ export function MaintenanceForm({ request, initialCarUin, initialClientId, onSub
         if (productsResponse.success && productsResponse.data) {
           setProducts(productsResponse.data)
         }
+
+        if (techniciansResponse.success && techniciansResponse.data) {
+          setTechnicians(techniciansResponse.data)
+        }
       } catch (error) {
         console.error("Error fetching data:", error)
         toast({
@@ -130,26 +155,34 @@ export function MaintenanceForm({ request, initialCarUin, initialClientId, onSub
   }, [cars]);
   
   // Effect to update filtered cars when clients or cars data changes
+  const selectedClientId = request?.clientId || appointment?.clientId
   useEffect(() => {
-    if (request?.clientId) {
-      filterCarsByClient(request.clientId);
+    if (selectedClientId) {
+      filterCarsByClient(selectedClientId);
     } else {
       setFilteredCars(cars);
     }
-  }, [request?.clientId, cars, filterCarsByClient]);
+  }, [selectedClientId, cars, filterCarsByClient]);
+
+  const appointmentServices = appointment?.serviceIds.length
+    ? appointment.serviceIds.map((serviceId) => ({ serviceId, quantity: 1 }))
+    : undefined
 
   const form = useForm<z.infer<typeof maintenanceSchema>>({
     resolver: zodResolver(maintenanceSchema),
     defaultValues: {
-      carUin: request?.carUin || initialCarUin || "",
-      clientId: request?.clientId || initialClientId || "",
-      servicesUsed: request?.servicesUsed || [{ serviceId: services.length > 0 ? services[0].id : "select-service", quantity: 1 }],
+      carUin: request?.carUin || appointment?.carUin || initialCarUin || "",
+      clientId: request?.clientId || appointment?.clientId || initialClientId || "",
+      servicesUsed: request?.servicesUsed || appointmentServices || [{ serviceId: services.length > 0 ? services[0].id : "select-service", quantity: 1 }],
       productsUsed: request?.productsUsed || [],
+      assignedEmployeeIds: request?.assignedEmployeeIds || [],
+      labourBilling: request?.labourBilling || "standard",
       additionalFee: request?.additionalFee || 0,
       discount: request?.discount || 0,
       discountJustification: request?.discountJustification || "",
       startDate: request?.startDate || new Date().toISOString().split("T")[0],
       endDate: request?.endDate ? request.endDate.split("T")[0] : undefined,
+      odometer: request?.odometer,
       status: request?.status || "pending",
     },
   })
@@ -172,6 +205,18 @@ export function MaintenanceForm({ request, initialCarUin, initialClientId, onSub
     name: "productsUsed",
   })
 
+  // A scanned part is added to its shop line, or that line goes up by one
+  const handleProductScan = (product: { id: string }) => {
+    const index = form.getValues("productsUsed").findIndex(
+      (productUsed) => productUsed.productId === product.id && productUsed.stockSource === "shop"
+    )
+    if (index === -1) {
+      appendProduct({ productId: product.id, quantity: 1, stockSource: "shop" })
+    } else {
+      form.setValue(`productsUsed.${index}.quantity`, Number(form.getValues(`productsUsed.${index}.quantity`)) + 1)
+    }
+  }
+
   // Track online status
   const isOnline = useOnlineStatus()
 
@@ -197,13 +242,15 @@ export function MaintenanceForm({ request, initialCarUin, initialClientId, onSub
         paidAmount: 0, // Initial paid amount is 0
         remainingBalance: subtotal, // Initial remaining balance is the total cost
         paymentStatus: "pending" as const,
+        // Marks the appointment as converted once the request is saved
+        ...(!request && appointment ? { appointmentId: appointment.id } : {}),
       }
 
       // If we're updating an existing request
       if (request?.id) {
         // Use the offline-aware API client instead of direct action call
         const endpoint = `/api/maintenance/${request.id}`;
-        const response = await api.put(endpoint, requestData);
+        const response = await api.put(endpoint, requestData, { baseVersion: request.updatedAt });
 
         if (response.error) {
           throw new Error(response.error.message || "Failed to update maintenance request");
@@ -251,13 +298,15 @@ export function MaintenanceForm({ request, initialCarUin, initialClientId, onSub
     }
   }
 
-  // Helper function to calculate services total
+  // Helper function to calculate services total. Lines already on the request
+  // keep the price they were saved with, as on the server.
   const calculateServicesTotal = async (servicesUsed: z.infer<typeof maintenanceSchema>['servicesUsed']) => {
     let total = 0
     for (const serviceUsed of servicesUsed) {
       const service = services.find((s) => s.id === serviceUsed.serviceId)
-      if (service) {
-        total += service.standardFee * serviceUsed.quantity
+      const saved = request?.servicesUsed.find((line) => line.serviceId === serviceUsed.serviceId)
+      if (service || saved?.unitPrice !== undefined) {
+        total += getLineUnitPrice({ unitPrice: saved?.unitPrice }, service?.standardFee) * serviceUsed.quantity
       }
     }
     return total
@@ -270,9 +319,10 @@ export function MaintenanceForm({ request, initialCarUin, initialClientId, onSub
     let total = 0
     for (const productUsed of productsUsed) {
       const product = products.find((p) => p.id === productUsed.productId)
-      if (product) {
+      const saved = request?.productsUsed.find((line) => line.productId === productUsed.productId)
+      if (product || saved?.unitPrice !== undefined) {
         // Use salePrice for customer charges, fall back to price for backward compatibility
-        const priceToUse = product.salePrice ?? product.price
+        const priceToUse = getLineUnitPrice({ unitPrice: saved?.unitPrice }, product?.salePrice ?? product?.price)
         total += priceToUse * productUsed.quantity
       }
     }
@@ -329,6 +379,18 @@ export function MaintenanceForm({ request, initialCarUin, initialClientId, onSub
   // Use the filtered cars for the selected client
   const clientCars = filteredCars;
 
+  // Former employees stay listed on jobs they were already assigned to
+  const assignableTechnicians = technicians.filter(
+    (technician) =>
+      technician.isActive ||
+      request?.assignedEmployeeIds?.includes(technician.id) ||
+      request?.servicesUsed.some((line) => line.technicianId === technician.id),
+  )
+
+  const standardHours = form
+    .watch("servicesUsed")
+    .reduce((sum, line) => sum + getStandardHours(services.find((s) => s.id === line.serviceId), line.quantity), 0)
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center p-8">
@@ -343,7 +405,7 @@ export function MaintenanceForm({ request, initialCarUin, initialClientId, onSub
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
           <FormField
             control={form.control}
             name="clientId"
@@ -393,6 +455,20 @@ export function MaintenanceForm({ request, initialCarUin, initialClientId, onSub
               </FormItem>
             )}
           />
+
+          <FormField
+            control={form.control}
+            name="odometer"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Odometer (km)</FormLabel>
+                <FormControl>
+                  <Input type="number" min={0} step={1} placeholder="e.g. 48250" {...field} value={field.value ?? ""} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -460,6 +536,46 @@ export function MaintenanceForm({ request, initialCarUin, initialClientId, onSub
           />
         </div>
 
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Technicians</CardTitle>
+            <CardDescription>Who is working on this job. Anyone given a service below is added automatically.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <FormField
+              control={form.control}
+              name="assignedEmployeeIds"
+              render={({ field }) => (
+                <FormItem>
+                  {assignableTechnicians.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No active employees</p>
+                  ) : (
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                      {assignableTechnicians.map((technician) => (
+                        <label key={technician.id} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={field.value.includes(technician.id)}
+                            onCheckedChange={(checked) =>
+                              field.onChange(
+                                checked
+                                  ? [...field.value, technician.id]
+                                  : field.value.filter((id) => id !== technician.id),
+                              )
+                            }
+                          />
+                          {technician.name}
+                          <span className="text-muted-foreground">{technician.position}</span>
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader>
             <CardTitle className="text-lg flex justify-between items-center">
@@ -474,6 +590,7 @@ export function MaintenanceForm({ request, initialCarUin, initialClientId, onSub
                 Add Service
               </Button>
             </CardTitle>
+            {standardHours > 0 && <CardDescription>Standard time: {formatHours(standardHours)}</CardDescription>}
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
@@ -504,6 +621,35 @@ export function MaintenanceForm({ request, initialCarUin, initialClientId, onSub
                     )}
                   />
 
+                  <FormField
+                    control={form.control}
+                    name={`servicesUsed.${index}.technicianId`}
+                    render={({ field }) => (
+                      <FormItem className="w-44">
+                        <FormLabel>Technician</FormLabel>
+                        <Select
+                          onValueChange={(value) => field.onChange(value === UNASSIGNED ? undefined : value)}
+                          defaultValue={field.value || UNASSIGNED}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Unassigned" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                            {assignableTechnicians.map((technician) => (
+                              <SelectItem key={technician.id} value={technician.id}>
+                                {technician.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
                   <FormField
                     control={form.control}
                     name={`servicesUsed.${index}.quantity`}
@@ -551,6 +697,7 @@ export function MaintenanceForm({ request, initialCarUin, initialClientId, onSub
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
+              <BarcodeScanInput products={products} onScan={handleProductScan} />
               {productFields.map((field, index) => (
                 <div key={field.id} className="flex items-end gap-4">
                   <FormField
@@ -568,6 +715,7 @@ export function MaintenanceForm({ request, initialCarUin, initialClientId, onSub
                           <SelectContent>
                             {products.map((product) => (
                               <SelectItem key={product.id} value={product.id}>
+                                {product.sku ? `${product.sku} - ` : ""}
                                 {product.name} (${product.salePrice || product.price}) 
                                 [Shop: {product.shopStock}, Warehouse: {product.warehouseStock}]
                               </SelectItem>
@@ -625,7 +773,29 @@ export function MaintenanceForm({ request, initialCarUin, initialClientId, onSub
           </CardContent>
         </Card>
 
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <FormField
+            control={form.control}
+            name="labourBilling"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Labour Billing</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select billing" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="standard">{LABOUR_BILLING_LABELS.standard}</SelectItem>
+                    <SelectItem value="hourly">{LABOUR_BILLING_LABELS.hourly}</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
           <FormField
             control={form.control}
             name="additionalFee"
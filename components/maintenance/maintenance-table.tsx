@@ -2,13 +2,15 @@
 
 import { useState, useEffect } from "react"
 import type { ColumnDef } from "@tanstack/react-table"
-import { Edit, Trash2, Plus, FileText, CreditCard, Download, CalendarIcon } from "lucide-react"
+import { Edit, Trash2, Plus, FileText, FileCheck, CreditCard, Download, CalendarIcon } from "lucide-react"
 import type { MaintenanceRequest } from "@/lib/db"
 import { DataTable } from "@/components/ui/data-table"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { MaintenanceForm } from "@/components/maintenance/maintenance-form"
-import { PaymentForm } from "@/components/maintenance/payment-form"
+import { JobLabour } from "@/components/maintenance/job-labour"
+import { InsuranceClaim } from "@/components/maintenance/insurance-claim"
+import { PaymentForm, type PaymentSubmission } from "@/components/maintenance/payment-form"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Calendar } from "@/components/ui/calendar"
@@ -36,14 +38,18 @@ import {
 
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
 import { format } from "date-fns"
-import { deleteMaintenanceRequest, makePayment, getClients, getCars, getServices, getProducts } from "@/lib/actions"
+import { deleteMaintenanceRequest, makePayment } from "@/lib/actions"
+import { loadCollection, useCachedCollection } from "@/lib/offline-collections"
+import { StaleDataNotice } from "@/components/stale-data-notice"
 import { toast } from "@/components/ui/use-toast"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Separator } from "@/components/ui/separator"
-import { formatCurrency } from "@/lib/utils"
+import { useFormatCurrency } from "@/components/settings/settings-provider"
+import { usePermission } from "@/components/auth/current-user-provider"
 import Link from "next/link"
 import { api } from "@/lib/api-client"
+import { getLineUnitPrice } from "@/lib/line-prices"
 import { useOnlineStatus } from "@/lib/network-status"
 
 // Extended type to include client and car details
@@ -70,7 +76,11 @@ interface MaintenanceTableProps {
   maintenanceRequests: MaintenanceRequest[]
 }
 
-export function MaintenanceTable({ maintenanceRequests }: MaintenanceTableProps) {
+export function MaintenanceTable({ maintenanceRequests: serverRequests }: MaintenanceTableProps) {
+  const formatCurrency = useFormatCurrency()
+  const canEdit = usePermission("maintenance:edit")
+  // Falls back to the offline cache (open requests only) when there is no connection
+  const { data: maintenanceRequests, staleSince } = useCachedCollection("maintenance", serverRequests)
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false)
   const [editingRequest, setEditingRequest] = useState<MaintenanceRequest | null>(null)
   const [payingRequest, setPayingRequest] = useState<MaintenanceRequest | null>(null)
@@ -95,36 +105,18 @@ export function MaintenanceTable({ maintenanceRequests }: MaintenanceTableProps)
       setLoadingError(null)
       try {
         console.log("Fetching reference data for maintenance table...")
-        const [clientsResponse, carsResponse, servicesResponse, productsResponse] = await Promise.all([
-          getClients(),
-          getCars(),
-          getServices(),
-          getProducts(),
+        // Uses the offline cache when the server can't be reached
+        const [clientsResult, carsResult, servicesResult, productsResult] = await Promise.all([
+          loadCollection("clients"),
+          loadCollection("cars"),
+          loadCollection("services"),
+          loadCollection("products"),
         ])
 
-        if (clientsResponse.success && clientsResponse.data) {
-          setClients(clientsResponse.data)
-        } else {
-          console.error("Failed to fetch clients:", clientsResponse.error)
-        }
-
-        if (carsResponse.success && carsResponse.data) {
-          setCars(carsResponse.data)
-        } else {
-          console.error("Failed to fetch cars:", carsResponse.error)
-        }
-
-        if (servicesResponse.success && servicesResponse.data) {
-          setServices(servicesResponse.data)
-        } else {
-          console.error("Failed to fetch services:", servicesResponse.error)
-        }
-
-        if (productsResponse.success && productsResponse.data) {
-          setProducts(productsResponse.data)
-        } else {
-          console.error("Failed to fetch products:", productsResponse.error)
-        }
+        setClients(clientsResult.data)
+        setCars(carsResult.data)
+        setServices(servicesResult.data)
+        setProducts(productsResult.data)
 
         setDataInitialized(true)
       } catch (error) {
@@ -174,7 +166,7 @@ export function MaintenanceTable({ maintenanceRequests }: MaintenanceTableProps)
             return {
               ...serviceUsed,
               name: service ? service.name : `Service #${serviceUsed.serviceId}`,
-              cost: service ? service.standardFee * serviceUsed.quantity : 0,
+              cost: getLineUnitPrice(serviceUsed, service?.standardFee) * serviceUsed.quantity,
             }
           })
 
@@ -187,8 +179,8 @@ export function MaintenanceTable({ maintenanceRequests }: MaintenanceTableProps)
             return {
               ...productUsed,
               name: product ? product.name : `Product #${productUsed.productId}`,
-              unitPrice: product ? product.salePrice : 0,
-              cost: product ? product.salePrice * productUsed.quantity : 0,
+              unitPrice: getLineUnitPrice(productUsed, product?.salePrice),
+              cost: getLineUnitPrice(productUsed, product?.salePrice) * productUsed.quantity,
             }
           })
 
@@ -281,7 +273,7 @@ export function MaintenanceTable({ maintenanceRequests }: MaintenanceTableProps)
     setIsLoading(true)
     try {
       // Use the offline-aware API client instead of directly calling deleteMaintenanceRequest
-      const response = await api.delete(`/api/maintenance/${request.id}`);
+      const response = await api.delete(`/api/maintenance/${request.id}`, { baseVersion: request.updatedAt });
       
       if (!response.error) {
         const successMessage = response.offline 
@@ -314,19 +306,20 @@ export function MaintenanceTable({ maintenanceRequests }: MaintenanceTableProps)
     setPayingRequest(request)
   }
 
-  const handlePaymentSubmit = async (id: string, amount: number) => {
+  const handlePaymentSubmit = async (id: string, payment: PaymentSubmission) => {
     setIsLoading(true)
     try {
       // Use the offline-aware API client instead of directly calling makePayment
-      const response = await api.post(`/api/maintenance/${id}/payment`, { amount });
+      const response = await api.post(`/api/maintenance/${id}/payment`, payment);
+      const label = payment.type === "refund" ? "Refund" : "Payment"
       
       if (!response.error) {
         const successMessage = response.offline 
-          ? `Payment of $${amount} has been saved and will be processed when online.`
-          : `Payment of $${amount} has been processed.`;
+          ? `${label} of ${formatCurrency(payment.amount, payment.currency)} has been saved and will be processed when online.`
+          : `${label} of ${formatCurrency(payment.amount, payment.currency)} has been processed.`;
         
         toast({
-          title: response.offline ? "Payment saved offline" : "Payment successful",
+          title: response.offline ? `${label} saved offline` : `${label} successful`,
           description: successMessage,
         })
         setPayingRequest(null)
@@ -348,189 +341,40 @@ export function MaintenanceTable({ maintenanceRequests }: MaintenanceTableProps)
     }
   }
 
-  const handlePrint = (request: EnrichedMaintenanceRequest) => {
-    // Generate a printable invoice
-    const printWindow = window.open("", "_blank")
-    if (printWindow) {
-      printWindow.document.write(`
-        <html>
-          <head>
-            <title>Invoice #${request.id}</title>
-            <style>
-              body { font-family: Arial, sans-serif; margin: 20px; }
-              .header { margin-bottom: 20px; }
-              .invoice-box { max-width: 800px; margin: auto; padding: 30px; border: 1px solid #eee; box-shadow: 0 0 10px rgba(0, 0, 0, 0.15); }
-              .title { font-size: 24px; font-weight: bold; margin-bottom: 10px; }
-              .info { margin-bottom: 20px; }
-              .info-line { margin: 5px 0; }
-              table { width: 100%; border-collapse: collapse; margin-bottom: 20px; }
-              th, td { padding: 10px; text-align: left; border-bottom: 1px solid #ddd; }
-              th { background-color: #f8f8f8; }
-              .total-line { font-weight: bold; }
-              .footer { margin-top: 30px; font-size: 12px; text-align: center; color: #777; }
-            </style>
-          </head>
-          <body>
-            <div class="invoice-box">
-              <div class="header">
-                <div class="title">INVOICE</div>
-                <div class="info">
-                  <div class="info-line"><strong>Invoice #:</strong> ${request.id}</div>
-                  <div class="info-line"><strong>Date:</strong> ${new Date(request.startDate).toLocaleDateString()}</div>
-                  <div class="info-line"><strong>Status:</strong> ${request.status}</div>
-                  <div class="info-line"><strong>Payment Status:</strong> ${request.paymentStatus}</div>
-                </div>
-              </div>
-              
-              <div class="client-info">
-                <div class="title">Client Information</div>
-                <div class="info-line"><strong>Client:</strong> ${request.clientName || "Unknown Client"}</div>
-                <div class="info-line"><strong>Car:</strong> ${request.carDetails || request.carUin}</div>
-              </div>
-              
-              <div class="services">
-                <div class="title">Services</div>
-                <table>
-                  <thead>
-                    <tr>
-                      <th>Service</th>
-                      <th>Quantity</th>
-                      <th>Unit Price</th>
-                      <th>Total</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    ${
-                      request.serviceDetails
-                        ? request.serviceDetails
-                            .map(
-                              (service) => `
-                      <tr>
-                        <td>${service.name}</td>
-                        <td>${service.quantity}</td>
-                        <td>$${(service.cost / service.quantity).toFixed(2)}</td>
-                        <td>$${service.cost.toFixed(2)}</td>
-                      </tr>
-                    `,
-                            )
-                            .join("")
-                        : request.servicesUsed
-                            .map((service) => {
-                              const serviceInfo = services.find((s) => s.id === service.serviceId)
-                              return `
-                          <tr>
-                            <td>${serviceInfo ? serviceInfo.name : service.serviceId}</td>
-                            <td>${service.quantity}</td>
-                            <td>$${serviceInfo ? serviceInfo.standardFee.toFixed(2) : "0.00"}</td>
-                            <td>$${serviceInfo ? (serviceInfo.standardFee * service.quantity).toFixed(2) : "0.00"}</td>
-                          </tr>
-                        `
-                            })
-                            .join("")
-                    }
-                  </tbody>
-                </table>
-              </div>
-              
-              <div class="products">
-                <div class="title">Products</div>
-                <table>
-                  <thead>
-                    <tr>
-                      <th>Product</th>
-                      <th>Quantity</th>
-                      <th>Unit Price</th>
-                      <th>Source</th>
-                      <th>Total</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    ${
-                      request.productDetails
-                        ? request.productDetails
-                            .map(
-                              (product) => `
-                      <tr>
-                        <td>${product.name}</td>
-                        <td>${product.quantity}</td>
-                        <td>$${product.unitPrice.toFixed(2)}</td>
-                        <td>${product.stockSource}</td>
-                        <td>$${product.cost.toFixed(2)}</td>
-                      </tr>
-                    `,
-                            )
-                            .join("")
-                        : request.productsUsed
-                            .map((product) => {
-                              const productInfo = products.find((p) => p.id === product.productId)
-                              return `
-                          <tr>
-                            <td>${productInfo ? productInfo.name : product.productId}</td>
-                            <td>${product.quantity}</td>
-                            <td>$${productInfo ? productInfo.salePrice.toFixed(2) : "0.00"}</td>
-                            <td>${product.stockSource}</td>
-                            <td>$${productInfo ? (productInfo.salePrice * product.quantity).toFixed(2) : "0.00"}</td>
-                          </tr>
-                        `
-                            })
-                            .join("")
-                    }
-                  </tbody>
-                </table>
-              </div>
-              
-              <div class="summary">
-                <div class="title">Summary</div>
-                <table>
-                  <tr>
-                    <td>Total Cost:</td>
-                    <td>$${typeof request.totalCost === 'number' ? request.totalCost.toFixed(2) : '0.00'}</td>
-                  </tr>
-                  ${
-                    request.discount
-                      ? `
-                  <tr>
-                    <td>Discount:</td>
-                    <td>$${typeof request.discount === 'number' ? request.discount.toFixed(2) : '0.00'}</td>
-                  </tr>
-                  `
-                      : ""
-                  }
-                  ${
-                    request.additionalFee
-                      ? `
-                  <tr>
-                    <td>Additional Fee:</td>
-                    <td>$${typeof request.additionalFee === 'number' ? request.additionalFee.toFixed(2) : '0.00'}</td>
-                  </tr>
-                  `
-                      : ""
-                  }
-                  <tr>
-                    <td>Paid Amount:</td>
-                    <td>$${typeof request.paidAmount === 'number' ? request.paidAmount.toFixed(2) : '0.00'}</td>
-                  </tr>
-                  <tr class="total-line">
-                    <td>Remaining Balance:</td>
-                    <td>$${typeof request.remainingBalance === 'number' ? request.remainingBalance.toFixed(2) : '0.00'}</td>
-                  </tr>
-                </table>
-              </div>
-              
-              <div class="footer">
-                <p>Thank you for your business!</p>
-              </div>
-            </div>
-            <script>
-              window.onload = function() {
-                window.print();
-              }
-            </script>
-          </body>
-        </html>
-      `)
-      printWindow.document.close()
+  const handleOpenDocument = (
+    request: EnrichedMaintenanceRequest,
+    kind: "invoice" | "quote",
+    format: "html" | "pdf" = "html",
+  ) => {
+    // Invoices and quotes are rendered server-side so they carry the garage details and a sequential number
+    window.open(`/api/maintenance/${encodeURIComponent(request.id)}/invoice?type=${kind}&format=${format}`, "_blank")
+  }
+
+  // Numbers are sequential, so issuing needs a connection rather than the offline queue
+  const handleIssueDocument = async (request: EnrichedMaintenanceRequest, kind: "invoice" | "quote") => {
+    const label = kind === "invoice" ? "Invoice" : "Quote"
+    const response = await api.post<MaintenanceRequest>(
+      `/api/maintenance/${encodeURIComponent(request.id)}/invoice?type=${kind}`,
+      {},
+      { offlineFallback: false },
+    )
+
+    if (response.error || !response.data) {
+      toast({
+        title: "Error",
+        description: response.error?.message || `Failed to issue ${kind}`,
+        variant: "destructive",
+      })
+      return
     }
+
+    const issued = response.data
+    setViewingRequest({ ...request, invoiceNumber: issued.invoiceNumber, quoteNumber: issued.quoteNumber })
+    toast({
+      title: `${label} issued`,
+      description: `${label} ${kind === "invoice" ? issued.invoiceNumber : issued.quoteNumber} has been issued.`,
+    })
+    handleOpenDocument(request, kind)
   }
 
   const handleExportCSV = () => {
@@ -692,7 +536,7 @@ export function MaintenanceTable({ maintenanceRequests }: MaintenanceTableProps)
               <span className="sr-only">View</span>
             </Button>
 
-            {request.remainingBalance > 0 && (
+            {(request.remainingBalance > 0 || request.paidAmount > 0) && (
               <Dialog open={payingRequest?.id === request.id} onOpenChange={(open) => !open && setPayingRequest(null)}>
                 <DialogTrigger asChild>
                   <Button variant="ghost" size="icon" onClick={() => handlePay(request)}>
@@ -700,14 +544,14 @@ export function MaintenanceTable({ maintenanceRequests }: MaintenanceTableProps)
                     <span className="sr-only">Pay</span>
                   </Button>
                 </DialogTrigger>
-                <DialogContent>
+                <DialogContent className="max-w-3xl">
                   <DialogHeader>
-                    <DialogTitle>Make Payment</DialogTitle>
+                    <DialogTitle>Payments</DialogTitle>
                   </DialogHeader>
                   {payingRequest && (
                     <PaymentForm
                       request={payingRequest}
-                      onSubmit={(amount) => handlePaymentSubmit(payingRequest.id, amount)}
+                      onSubmit={(payment) => handlePaymentSubmit(payingRequest.id, payment)}
                       onCancel={() => setPayingRequest(null)}
                       isLoading={isLoading}
                     />
@@ -843,6 +687,8 @@ export function MaintenanceTable({ maintenanceRequests }: MaintenanceTableProps)
   return (
     <div>
       <div className="flex flex-col space-y-4">
+        <StaleDataNotice since={staleSince} note="Only open requests are available offline." />
+
         {/* Advanced filters */}
         <div className="flex flex-col sm:flex-row gap-4 items-start">
           <div className="w-full sm:w-1/3">
@@ -1105,10 +951,12 @@ export function MaintenanceTable({ maintenanceRequests }: MaintenanceTableProps)
                 </div>
 
                 <Tabs defaultValue="services">
-                  <TabsList className="grid w-full grid-cols-3">
+                  <TabsList className="grid w-full grid-cols-5">
                     <TabsTrigger value="services">Services</TabsTrigger>
                     <TabsTrigger value="products">Products</TabsTrigger>
+                    <TabsTrigger value="labour">Labour</TabsTrigger>
                     <TabsTrigger value="payment">Payment</TabsTrigger>
+                    <TabsTrigger value="insurance">Insurance</TabsTrigger>
                   </TabsList>
 
                   <TabsContent value="services" className="space-y-4">
@@ -1137,6 +985,7 @@ export function MaintenanceTable({ maintenanceRequests }: MaintenanceTableProps)
                               ))
                             : viewingRequest.servicesUsed.map((service, index) => {
                                 const serviceInfo = services.find((s) => s.id === service.serviceId)
+                                const unitPrice = getLineUnitPrice(service, serviceInfo?.standardFee)
                                 return (
                                   <tr key={index} className="divide-x divide-border">
                                     <td className="whitespace-nowrap px-4 py-2 text-sm">
@@ -1144,10 +993,10 @@ export function MaintenanceTable({ maintenanceRequests }: MaintenanceTableProps)
                                     </td>
                                     <td className="whitespace-nowrap px-4 py-2 text-sm">{service.quantity}</td>
                                     <td className="whitespace-nowrap px-4 py-2 text-sm">
-                                      ${serviceInfo ? serviceInfo.standardFee.toFixed(2) : "0.00"}
+                                      ${unitPrice.toFixed(2)}
                                     </td>
                                     <td className="whitespace-nowrap px-4 py-2 text-sm">
-                                      ${serviceInfo ? (serviceInfo.standardFee * service.quantity).toFixed(2) : "0.00"}
+                                      ${(unitPrice * service.quantity).toFixed(2)}
                                     </td>
                                   </tr>
                                 )
@@ -1164,6 +1013,11 @@ export function MaintenanceTable({ maintenanceRequests }: MaintenanceTableProps)
                         </tbody>
                       </table>
                     </div>
+                    {viewingRequest.labourBilling === "hourly" && (
+                      <p className="text-sm text-muted-foreground">
+                        Labour on this job is billed by the hour instead of the service fees, see the Labour tab.
+                      </p>
+                    )}
                   </TabsContent>
 
                   <TabsContent value="products" className="space-y-4">
@@ -1196,6 +1050,7 @@ export function MaintenanceTable({ maintenanceRequests }: MaintenanceTableProps)
                               ))
                             : viewingRequest.productsUsed.map((product, index) => {
                                 const productInfo = products.find((p) => p.id === product.productId)
+                                const unitPrice = getLineUnitPrice(product, productInfo?.salePrice)
                                 return (
                                   <tr key={index} className="divide-x divide-border">
                                     <td className="whitespace-nowrap px-4 py-2 text-sm">
@@ -1203,13 +1058,13 @@ export function MaintenanceTable({ maintenanceRequests }: MaintenanceTableProps)
                                     </td>
                                     <td className="whitespace-nowrap px-4 py-2 text-sm">{product.quantity}</td>
                                     <td className="whitespace-nowrap px-4 py-2 text-sm">
-                                      ${productInfo ? productInfo.salePrice.toFixed(2) : "0.00"}
+                                      ${unitPrice.toFixed(2)}
                                     </td>
                                     <td className="whitespace-nowrap px-4 py-2 text-sm capitalize">
                                       {product.stockSource}
                                     </td>
                                     <td className="whitespace-nowrap px-4 py-2 text-sm">
-                                      ${productInfo ? (productInfo.salePrice * product.quantity).toFixed(2) : "0.00"}
+                                      ${(unitPrice * product.quantity).toFixed(2)}
                                     </td>
                                   </tr>
                                 )
@@ -1228,6 +1083,10 @@ export function MaintenanceTable({ maintenanceRequests }: MaintenanceTableProps)
                     </div>
                   </TabsContent>
 
+                  <TabsContent value="labour" className="space-y-4">
+                    <JobLabour request={viewingRequest} services={services} />
+                  </TabsContent>
+
                   <TabsContent value="payment" className="space-y-4">
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                       <Card>
@@ -1251,6 +1110,12 @@ export function MaintenanceTable({ maintenanceRequests }: MaintenanceTableProps)
                               <span className="font-medium">${typeof viewingRequest.additionalFee === 'number' ? viewingRequest.additionalFee.toFixed(2) : '0.00'}</span>
                             </div>
                           )}
+                          {(viewingRequest.taxAmount || 0) > 0 && (
+                            <div className="flex justify-between items-center">
+                              <span>Tax ({viewingRequest.taxRate}%, included in total):</span>
+                              <span className="font-medium">{formatCurrency(viewingRequest.taxAmount || 0)}</span>
+                            </div>
+                          )}
                           <Separator />
                           <div className="flex justify-between items-center">
                             <span>Paid Amount:</span>
@@ -1260,6 +1125,18 @@ export function MaintenanceTable({ maintenanceRequests }: MaintenanceTableProps)
                             <span>Remaining Balance:</span>
                             <span>${typeof viewingRequest.remainingBalance === 'number' ? viewingRequest.remainingBalance.toFixed(2) : '0.00'}</span>
                           </div>
+                          {(viewingRequest.insurerPortion || 0) > 0 && (
+                            <>
+                              <div className="flex justify-between items-center text-sm">
+                                <span>Due from insurer:</span>
+                                <span className="font-medium">{formatCurrency(viewingRequest.insurerBalance || 0)}</span>
+                              </div>
+                              <div className="flex justify-between items-center text-sm">
+                                <span>Due from customer:</span>
+                                <span className="font-medium">{formatCurrency(viewingRequest.customerBalance || 0)}</span>
+                              </div>
+                            </>
+                          )}
                           <div className="pt-2">
                             <Badge
                               variant={
@@ -1303,12 +1180,39 @@ export function MaintenanceTable({ maintenanceRequests }: MaintenanceTableProps)
                       </div>
                     )}
                   </TabsContent>
+
+                  <TabsContent value="insurance" className="space-y-4">
+                    <InsuranceClaim
+                      request={viewingRequest}
+                      carInsuranceId={cars.find((car) => car.uin === viewingRequest.carUin)?.insuranceId}
+                    />
+                  </TabsContent>
                 </Tabs>
 
                 <div className="flex justify-end gap-2 pt-4">
-                  <Button variant="outline" onClick={() => handlePrint(viewingRequest)}>
+                  {canEdit && !viewingRequest.quoteNumber && (
+                    <Button variant="outline" onClick={() => handleIssueDocument(viewingRequest, "quote")}>
+                      <FileCheck className="mr-2 h-4 w-4" />
+                      Issue Quote
+                    </Button>
+                  )}
+                  <Button variant="outline" onClick={() => handleOpenDocument(viewingRequest, "quote")}>
                     <FileText className="mr-2 h-4 w-4" />
-                    Generate Invoice
+                    {viewingRequest.quoteNumber ? "Quote" : "Draft Quote"}
+                  </Button>
+                  {canEdit && !viewingRequest.invoiceNumber && (
+                    <Button variant="outline" onClick={() => handleIssueDocument(viewingRequest, "invoice")}>
+                      <FileCheck className="mr-2 h-4 w-4" />
+                      Issue Invoice
+                    </Button>
+                  )}
+                  <Button variant="outline" onClick={() => handleOpenDocument(viewingRequest, "invoice")}>
+                    <FileText className="mr-2 h-4 w-4" />
+                    {viewingRequest.invoiceNumber ? "Invoice" : "Draft Invoice"}
+                  </Button>
+                  <Button variant="outline" onClick={() => handleOpenDocument(viewingRequest, "invoice", "pdf")}>
+                    <Download className="mr-2 h-4 w-4" />
+                    Invoice PDF
                   </Button>
                   <Button
                     variant="outline"
@@ -1,17 +1,47 @@
 "use client"
 
-import { useState } from "react"
+import { useState, useEffect } from "react"
 import { zodResolver } from "@hookform/resolvers/zod"
 import { useForm } from "react-hook-form"
 import * as z from "zod"
-import type { MaintenanceRequest } from "@/lib/db"
+import type { ExchangeRate, MaintenanceRequest, Payment, PaymentMethod, PaymentPayer } from "@/lib/db"
 import { Button } from "@/components/ui/button"
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
 import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Badge } from "@/components/ui/badge"
+import { Separator } from "@/components/ui/separator"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
 import { AlertTriangle } from "lucide-react"
 import { toast } from "@/components/ui/use-toast"
+import { getExchangeRates, getPaymentsByMaintenanceId } from "@/lib/actions"
+import { api } from "@/lib/api-client"
+import { roundCurrency } from "@/lib/utils"
+import { getPayer } from "@/lib/claims"
+import { findExchangeRate, getSecondaryCurrencies } from "@/lib/currency"
+import { useSettings, useFormatCurrency } from "@/components/settings/settings-provider"
+
+const paymentMethods: { value: PaymentMethod; label: string }[] = [
+  { value: "cash", label: "Cash" },
+  { value: "card", label: "Card" },
+  { value: "bank_transfer", label: "Bank Transfer" },
+  { value: "check", label: "Check" },
+]
 
 const paymentSchema = z.object({
+  type: z.enum(["payment", "refund"]),
+  payer: z.enum(["customer", "insurer"]),
   amount: z.coerce
     .number()
     .min(0.01, {
@@ -20,27 +50,110 @@ const paymentSchema = z.object({
     .refine((val) => val <= 10000, {
       message: "Amount cannot exceed $10,000.",
     }),
+  method: z.enum(["cash", "card", "bank_transfer", "check"]),
+  currency: z.string(),
+  reference: z.string().optional(),
+  notes: z.string().optional(),
 })
 
+export type PaymentSubmission = z.infer<typeof paymentSchema>
+
 interface PaymentFormProps {
   request: MaintenanceRequest
-  onSubmit: (amount: number) => void
+  onSubmit: (payment: PaymentSubmission) => void
   onCancel: () => void
   isLoading?: boolean
 }
 
 export function PaymentForm({ request, onSubmit, onCancel, isLoading: externalLoading }: PaymentFormProps) {
+  const formatCurrency = useFormatCurrency()
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [confirmStep, setConfirmStep] = useState(false)
+  const [payments, setPayments] = useState<Payment[]>([])
+  const [isLoadingHistory, setIsLoadingHistory] = useState(true)
+  const [voidReason, setVoidReason] = useState("")
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([])
+
+  const { general } = useSettings()
+  const secondaryCurrencies = getSecondaryCurrencies(general)
+
+  const remainingBalance =
+    typeof request.remainingBalance === 'number' && !isNaN(request.remainingBalance) ? request.remainingBalance : 0
+  const paidAmount = typeof request.paidAmount === 'number' && !isNaN(request.paidAmount) ? request.paidAmount : 0
 
-  const form = useForm<z.infer<typeof paymentSchema>>({
+  // With an insurance claim each payer has their own balance
+  const hasClaim = (request.insurerPortion || 0) > 0 || (request.insurerPaid || 0) > 0
+  const balanceOf = (payer: PaymentPayer) =>
+    !hasClaim ? remainingBalance : payer === "insurer" ? request.insurerBalance || 0 : request.customerBalance || 0
+  const paidBy = (payer: PaymentPayer) =>
+    !hasClaim ? paidAmount : payer === "insurer" ? request.insurerPaid || 0 : request.customerPaid || 0
+  const defaultPayer: PaymentPayer = hasClaim && balanceOf("customer") <= 0 && balanceOf("insurer") > 0 ? "insurer" : "customer"
+
+  const form = useForm<PaymentSubmission>({
     resolver: zodResolver(paymentSchema),
     defaultValues: {
-      amount: typeof request.remainingBalance === 'number' && !isNaN(request.remainingBalance) ? request.remainingBalance : 0.01,
+      type: balanceOf(defaultPayer) > 0 ? "payment" : "refund",
+      payer: defaultPayer,
+      amount: balanceOf(defaultPayer) > 0 ? balanceOf(defaultPayer) : 0.01,
+      method: "cash",
+      currency: general.currency,
+      reference: "",
+      notes: "",
     },
   })
 
-  const handleSubmit = async (values: z.infer<typeof paymentSchema>) => {
+  const type = form.watch("type")
+  const payer = form.watch("payer")
+  const amount = form.watch("amount")
+  const currency = form.watch("currency")
+  const payerBalance = balanceOf(payer)
+  const payerPaid = paidBy(payer)
+
+  // Amounts in a secondary currency are booked at today's rate
+  const isForeign = currency !== general.currency
+  const rate = isForeign ? findExchangeRate(exchangeRates, currency, new Date().toISOString()) : null
+  const baseAmount = isForeign ? (rate ? roundCurrency(Number(amount) * rate.rate) : null) : Number(amount)
+
+  // Load the payment ledger of this request
+  const fetchPayments = async () => {
+    setIsLoadingHistory(true)
+    try {
+      const response = await getPaymentsByMaintenanceId(request.id)
+      if (response.success && response.data) {
+        setPayments(response.data)
+      } else {
+        console.error("Failed to fetch payments:", response.error)
+      }
+    } catch (error) {
+      console.error("Error fetching payments:", error)
+    } finally {
+      setIsLoadingHistory(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchPayments()
+  }, [request.id])
+
+  useEffect(() => {
+    if (!secondaryCurrencies.length) return
+    getExchangeRates().then((response) => {
+      if (response.success && response.data) setExchangeRates(response.data)
+    })
+  }, [secondaryCurrencies.length])
+
+  const handleSubmit = async (values: PaymentSubmission) => {
+    if (baseAmount === null) {
+      form.setError("currency", { message: `No exchange rate has been entered for ${values.currency} yet.` })
+      return
+    }
+
+    // Refunds can never exceed what the payer actually paid
+    if (values.type === "refund" && baseAmount > payerPaid) {
+      form.setError("amount", { message: `Refund cannot exceed the paid amount of ${formatCurrency(payerPaid)}.` })
+      return
+    }
+
     if (!confirmStep) {
       setConfirmStep(true)
       return
@@ -49,12 +162,12 @@ export function PaymentForm({ request, onSubmit, onCancel, isLoading: externalLo
     setIsSubmitting(true)
 
     try {
-      // Call the onSubmit callback with the amount
+      // Call the onSubmit callback with the payment details
       // This will be handled by the parent component
-      onSubmit(values.amount)
+      onSubmit(values)
 
       // Don't make the payment here - let the parent component handle it
-      // The makePayment server action is already being called in the parent
+      // The payment API is already being called in the parent
     } catch (error) {
       console.error("Error submitting payment:", error)
       toast({
@@ -67,87 +180,380 @@ export function PaymentForm({ request, onSubmit, onCancel, isLoading: externalLo
     }
   }
 
+  const handleVoid = async (payment: Payment) => {
+    setIsSubmitting(true)
+    try {
+      const response = await api.post(`/api/maintenance/${request.id}/payment/${payment.id}/void`, {
+        reason: voidReason,
+      })
+
+      if (!response.error) {
+        toast({
+          title: response.offline ? "Void saved offline" : "Payment voided",
+          description: response.offline
+            ? "The payment will be voided when you're back online."
+            : `${formatCurrency(payment.amount)} ${payment.type} has been voided.`,
+        })
+        setVoidReason("")
+        fetchPayments()
+      } else {
+        toast({
+          title: "Error",
+          description: response.error.message || "Failed to void payment",
+          variant: "destructive",
+        })
+      }
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
   const loading = isSubmitting || externalLoading
 
   return (
-    <Form {...form}>
-      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
-        <div className="grid gap-4">
-          <div className="grid grid-cols-2 gap-4">
-            <div>
-              <div className="text-sm font-medium">Total Cost</div>
-              <div className="text-2xl font-bold">
-                ${
-                  typeof request.totalCost === 'number' && !isNaN(request.totalCost) 
-                  ? request.totalCost.toFixed(2) 
-                  : '0.00'
-                }
+    <div className="space-y-6">
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+          <div className="grid gap-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <div className="text-sm font-medium">Total Cost</div>
+                <div className="text-2xl font-bold">
+                  ${
+                    typeof request.totalCost === 'number' && !isNaN(request.totalCost)
+                    ? request.totalCost.toFixed(2)
+                    : '0.00'
+                  }
+                </div>
+              </div>
+              <div>
+                <div className="text-sm font-medium">Paid</div>
+                <div className="text-2xl font-bold">${paidAmount.toFixed(2)}</div>
+              </div>
+              <div>
+                <div className="text-sm font-medium">Remaining Balance</div>
+                <div className="text-2xl font-bold">${remainingBalance.toFixed(2)}</div>
               </div>
             </div>
-            <div>
-              <div className="text-sm font-medium">Remaining Balance</div>
-              <div className="text-2xl font-bold">
-                ${
-                  typeof request.remainingBalance === 'number' && !isNaN(request.remainingBalance) 
-                  ? request.remainingBalance.toFixed(2) 
-                  : '0.00'
-                }
+
+            {hasClaim && (
+              <div className="grid grid-cols-2 gap-4 rounded-md border p-3 text-sm">
+                <div>
+                  <div className="text-muted-foreground">Due from insurer</div>
+                  <div className="font-medium">
+                    {formatCurrency(balanceOf("insurer"))} of {formatCurrency(request.insurerPortion || 0)}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Due from customer</div>
+                  <div className="font-medium">
+                    {formatCurrency(balanceOf("customer"))} of {formatCurrency(request.customerPortion || 0)}
+                  </div>
+                </div>
               </div>
+            )}
+
+            {hasClaim && (
+              <FormField
+                control={form.control}
+                name="payer"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Payer</FormLabel>
+                    <Select
+                      onValueChange={(value) => {
+                        field.onChange(value)
+                        const balance = balanceOf(value as PaymentPayer)
+                        form.setValue("amount", balance > 0 ? balance : 0.01)
+                      }}
+                      value={field.value}
+                      disabled={loading}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="customer">Customer</SelectItem>
+                        <SelectItem value="insurer">Insurer</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <div className={`grid gap-4 ${secondaryCurrencies.length ? "grid-cols-3" : "grid-cols-2"}`}>
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value} disabled={loading}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="payment">Payment</SelectItem>
+                        <SelectItem value="refund" disabled={payerPaid <= 0}>
+                          Refund
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="method"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Method</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value} disabled={loading}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {paymentMethods.map((method) => (
+                          <SelectItem key={method.value} value={method.value}>
+                            {method.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {secondaryCurrencies.length > 0 && (
+                <FormField
+                  control={form.control}
+                  name="currency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Currency</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value} disabled={loading}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {[general.currency, ...secondaryCurrencies].map((code) => (
+                            <SelectItem key={code} value={code}>
+                              {code}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="amount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    {type === "refund" ? "Refund Amount" : "Payment Amount"} ({currency})
+                  </FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min={0.01}
+                      max={
+                        isForeign
+                          ? undefined
+                          : type === "refund"
+                            ? payerPaid
+                            : payer === "insurer"
+                              ? Math.max(payerBalance, 0.01)
+                              : undefined
+                      }
+                      {...field}
+                      disabled={loading}
+                    />
+                  </FormControl>
+                  {isForeign && (
+                    <p className="text-xs text-muted-foreground">
+                      {rate
+                        ? `${formatCurrency(baseAmount || 0)} at 1 ${currency} = ${rate.rate} ${general.currency} (rate of ${new Date(`${rate.date}T00:00:00`).toLocaleDateString()})`
+                        : `No exchange rate has been entered for ${currency} yet.`}
+                    </p>
+                  )}
+                  {type === "payment" && payer === "customer" && baseAmount !== null && baseAmount > Math.max(payerBalance, 0) && (
+                    <p className="text-xs text-muted-foreground">
+                      {formatCurrency(baseAmount - Math.max(payerBalance, 0))} over the balance will be kept as
+                      credit on the client&apos;s account.
+                    </p>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="reference"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Reference</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Slip, transfer or check number" {...field} disabled={loading} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes</FormLabel>
+                    <FormControl>
+                      <Input {...field} disabled={loading} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
             </div>
           </div>
 
-          <FormField
-            control={form.control}
-            name="amount"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Payment Amount ($)</FormLabel>
-                <FormControl>
-                  <Input
-                    type="number"
-                    step="0.01"
-                    min={0.01}
-                    max={typeof request.remainingBalance === 'number' && !isNaN(request.remainingBalance) ? request.remainingBalance : 0.01}
-                    {...field}
-                    disabled={loading}
-                  />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-        </div>
-
-        {confirmStep && (
-          <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md p-4 my-4">
-            <div className="flex items-center gap-2 text-yellow-800 dark:text-yellow-400">
-              <AlertTriangle className="h-5 w-5" />
-              <div className="font-medium">⚠ Are you sure? This action cannot be undone!</div>
+          {confirmStep && (
+            <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md p-4 my-4">
+              <div className="flex items-center gap-2 text-yellow-800 dark:text-yellow-400">
+                <AlertTriangle className="h-5 w-5" />
+                <div className="font-medium">⚠ Are you sure? This action cannot be undone!</div>
+              </div>
             </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => {
+                if (confirmStep) {
+                  setConfirmStep(false)
+                } else {
+                  onCancel()
+                }
+              }}
+              disabled={loading}
+            >
+              {confirmStep ? "Back" : "Cancel"}
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading
+                ? "Processing..."
+                : confirmStep
+                  ? type === "refund" ? "Confirm Refund" : "Confirm Payment"
+                  : type === "refund" ? "Issue Refund" : "Make Payment"}
+            </Button>
           </div>
-        )}
+        </form>
+      </Form>
 
-        <div className="flex justify-end gap-2">
-          <Button
-            type="button"
-            variant="outline"
-            onClick={() => {
-              if (confirmStep) {
-                setConfirmStep(false)
-              } else {
-                onCancel()
-              }
-            }}
-            disabled={loading}
-          >
-            {confirmStep ? "Back" : "Cancel"}
-          </Button>
-          <Button type="submit" disabled={loading}>
-            {loading ? "Processing..." : confirmStep ? "Confirm Payment" : "Make Payment"}
-          </Button>
-        </div>
-      </form>
-    </Form>
+      <Separator />
+
+      <div className="space-y-2">
+        <h4 className="font-medium">Payment History</h4>
+        {isLoadingHistory ? (
+          <p className="text-sm text-muted-foreground">Loading payments...</p>
+        ) : payments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No payments recorded yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Type</TableHead>
+                {hasClaim && <TableHead>Payer</TableHead>}
+                <TableHead>Method</TableHead>
+                <TableHead>Reference</TableHead>
+                <TableHead>Taken By</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {payments.map((payment) => (
+                <TableRow key={payment.id} className={payment.status === "voided" ? "text-muted-foreground line-through" : ""}>
+                  <TableCell>{new Date(payment.date).toLocaleDateString()}</TableCell>
+                  <TableCell>
+                    <Badge variant={payment.type === "refund" ? "warning" : "outline"} className="capitalize">
+                      {payment.status === "voided" ? `${payment.type} (voided)` : payment.type}
+                    </Badge>
+                  </TableCell>
+                  {hasClaim && <TableCell className="capitalize">{getPayer(payment)}</TableCell>}
+                  <TableCell className="capitalize">{payment.method.replace("_", " ")}</TableCell>
+                  <TableCell>{payment.reference || "-"}</TableCell>
+                  <TableCell>{payment.receivedBy}</TableCell>
+                  <TableCell className="text-right">
+                    {payment.type === "refund" ? "-" : ""}
+                    {formatCurrency(payment.amount)}
+                    {payment.currency && payment.foreignAmount !== undefined && (
+                      <div className="text-xs text-muted-foreground">
+                        {formatCurrency(payment.foreignAmount, payment.currency)}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {/* Credit applications are voided from the client's credit account */}
+                    {payment.status === "completed" && payment.method !== "credit" && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="sm" disabled={loading}>
+                            Void
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Void this {payment.type}?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              The entry stays in the history but no longer counts towards the paid amount.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <Input
+                            placeholder="Reason for voiding"
+                            value={voidReason}
+                            onChange={(e) => setVoidReason(e.target.value)}
+                          />
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleVoid(payment)} disabled={!voidReason.trim()}>
+                              Void
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
   )
 }
-
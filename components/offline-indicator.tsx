@@ -2,30 +2,36 @@
 
 import { useEffect, useState } from 'react'
 import { useOnlineStatus } from '@/lib/network-status'
-import { WifiOff, Upload } from 'lucide-react'
-import { hasPendingOperations, getPendingOperationsCount } from '@/lib/offline-storage'
+import { WifiOff, Upload, GitMerge } from 'lucide-react'
+import { hasPendingOperations, getPendingOperationsCount, getConflictCount } from '@/lib/offline-storage'
 import { manualSync } from '@/lib/sync-service'
 import { Button } from '@/components/ui/button'
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
+import { ConflictResolutionDialog } from '@/components/conflict-resolution-dialog'
 
 // Offline indicator component shows when the user is working offline
 export function OfflineIndicator() {
   const isOnline = useOnlineStatus()
   const [pendingCount, setPendingCount] = useState(0)
+  const [conflictCount, setConflictCount] = useState(0)
+  const [isResolving, setIsResolving] = useState(false)
+
+  const refreshCounts = () => {
+    setPendingCount(getPendingOperationsCount())
+    setConflictCount(getConflictCount())
+  }
   
   // Update pending operations count every 5 seconds
   useEffect(() => {
-    setPendingCount(getPendingOperationsCount())
+    refreshCounts()
     
-    const interval = setInterval(() => {
-      setPendingCount(getPendingOperationsCount())
-    }, 5000)
+    const interval = setInterval(refreshCounts, 5000)
     
     return () => clearInterval(interval)
   }, [])
   
-  // If online and no pending operations, don't show anything
-  if (isOnline && pendingCount === 0) {
+  // If online and nothing is waiting, don't show anything
+  if (isOnline && pendingCount === 0 && conflictCount === 0) {
     return null
   }
   
@@ -53,7 +59,7 @@ export function OfflineIndicator() {
                 size="sm" 
                 variant="outline" 
                 className="bg-orange-100 text-orange-800 hover:bg-orange-200 border-orange-300"
-                onClick={() => manualSync()}
+                onClick={() => manualSync().then(refreshCounts)}
               >
                 <Upload className="w-4 h-4 mr-1" />
                 <span>Sync ({pendingCount})</span>
@@ -64,7 +70,34 @@ export function OfflineIndicator() {
             </TooltipContent>
           </Tooltip>
         )}
+
+        {conflictCount > 0 && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                size="sm"
+                variant="outline"
+                className="bg-red-100 text-red-800 hover:bg-red-200 border-red-300"
+                onClick={() => setIsResolving(true)}
+              >
+                <GitMerge className="w-4 h-4 mr-1" />
+                <span>Resolve ({conflictCount})</span>
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>{conflictCount} of your changes conflict with edits made by someone else.</p>
+            </TooltipContent>
+          </Tooltip>
+        )}
       </TooltipProvider>
+      <ConflictResolutionDialog
+        open={isResolving}
+        onOpenChange={(open) => {
+          setIsResolving(open)
+          refreshCounts()
+        }}
+        onResolved={refreshCounts}
+      />
     </div>
   )
 }
@@ -0,0 +1,64 @@
+"use client"
+
+import { useState, type KeyboardEvent } from "react"
+import { ScanBarcode } from "lucide-react"
+import type { Product } from "@/lib/db"
+import { Input } from "@/components/ui/input"
+import { cn } from "@/lib/utils"
+import { findProductByCode } from "@/lib/product-codes"
+
+interface BarcodeScanInputProps<T extends Product> {
+  products: T[]
+  onScan: (product: T) => void
+  placeholder?: string
+  notFoundMessage?: (code: string) => string
+  autoFocus?: boolean
+  className?: string
+}
+
+// Keyboard-wedge scanners type the code and press Enter, so a scan is handled
+// on Enter. Enter never submits the surrounding form.
+export function BarcodeScanInput<T extends Product>({
+  products,
+  onScan,
+  placeholder = "Scan or type a barcode, SKU or part number",
+  notFoundMessage = (code) => `No product matches ${code}`,
+  autoFocus,
+  className,
+}: BarcodeScanInputProps<T>) {
+  const [code, setCode] = useState("")
+  const [error, setError] = useState<string | null>(null)
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key !== "Enter") return
+    event.preventDefault()
+    if (!code.trim()) return
+
+    const product = findProductByCode(products, code)
+    if (product) {
+      onScan(product)
+      setError(null)
+    } else {
+      setError(notFoundMessage(code.trim()))
+    }
+    setCode("")
+  }
+
+  return (
+    <div className={cn("space-y-1", className)}>
+      <div className="relative">
+        <ScanBarcode className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+        <Input
+          value={code}
+          onChange={(event) => setCode(event.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={placeholder}
+          autoFocus={autoFocus}
+          autoComplete="off"
+          className="pl-8"
+        />
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  )
+}
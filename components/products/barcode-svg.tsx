@@ -0,0 +1,41 @@
+"use client"
+
+import type { BarcodeSymbol } from "@/lib/barcodes"
+
+interface BarcodeSvgProps {
+  symbol: BarcodeSymbol
+  height?: number
+}
+
+// Preview of a label barcode; the printed labels are drawn the same way in lib/labels.ts
+export function BarcodeSvg({ symbol, height = 60 }: BarcodeSvgProps) {
+  const quietZone = 10
+  const width = symbol.modules.length + quietZone * 2
+
+  const bars: { x: number; width: number }[] = []
+  for (let start = 0; start < symbol.modules.length; start++) {
+    if (symbol.modules[start] !== "1") continue
+    let end = start
+    while (symbol.modules[end + 1] === "1") end++
+    bars.push({ x: quietZone + start, width: end - start + 1 })
+    start = end
+  }
+
+  return (
+    <div className="inline-flex flex-col items-center rounded-md border bg-white p-2 text-black">
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        width={width * 2}
+        height={height}
+        preserveAspectRatio="none"
+        role="img"
+        aria-label={symbol.value}
+      >
+        {bars.map((bar) => (
+          <rect key={bar.x} x={bar.x} y={0} width={bar.width} height={height} fill="currentColor" />
+        ))}
+      </svg>
+      <span className="font-mono text-xs">{symbol.value}</span>
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+"use client"
+
+import { useState } from "react"
+import { Printer } from "lucide-react"
+import type { Product } from "@/lib/db"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { getLabelSymbol } from "@/lib/barcodes"
+
+interface PrintLabelsFormProps {
+  products: Product[]
+  onCancel: () => void
+}
+
+// Picks products for a sheet of shelf labels, rendered as a PDF by /api/products/labels
+export function PrintLabelsForm({ products, onCancel }: PrintLabelsFormProps) {
+  const labelled = products
+    .filter((product) => getLabelSymbol(product))
+    .sort((a, b) => a.name.localeCompare(b.name))
+  const [selected, setSelected] = useState<string[]>(labelled.map((product) => product.id))
+  const [copies, setCopies] = useState(1)
+
+  const toggle = (id: string, checked: boolean) =>
+    setSelected((current) => (checked ? [...current, id] : current.filter((selectedId) => selectedId !== id)))
+
+  const print = () => {
+    const params = new URLSearchParams({ ids: selected.join(","), copies: String(copies) })
+    window.open(`/api/products/labels?${params}`, "_blank")
+  }
+
+  return (
+    <div className="space-y-4">
+      {labelled.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No products have a barcode or SKU yet. Add them from a product&apos;s codes to print labels.
+        </p>
+      ) : (
+        <>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="select-all-labels"
+                checked={selected.length === labelled.length}
+                onCheckedChange={(checked) => setSelected(checked ? labelled.map((product) => product.id) : [])}
+              />
+              <Label htmlFor="select-all-labels">All products ({labelled.length})</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Label htmlFor="label-copies">Labels each</Label>
+              <Input
+                id="label-copies"
+                type="number"
+                min={1}
+                max={100}
+                className="w-20"
+                value={copies}
+                onChange={(event) => setCopies(Math.max(1, Math.floor(Number(event.target.value)) || 1))}
+              />
+            </div>
+          </div>
+
+          <div className="max-h-80 space-y-2 overflow-y-auto rounded-md border p-3">
+            {labelled.map((product) => (
+              <div key={product.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`label-${product.id}`}
+                  checked={selected.includes(product.id)}
+                  onCheckedChange={(checked) => toggle(product.id, checked === true)}
+                />
+                <Label htmlFor={`label-${product.id}`} className="flex-1 font-normal">
+                  {product.name}
+                </Label>
+                <span className="font-mono text-xs text-muted-foreground">{getLabelSymbol(product)?.value}</span>
+              </div>
+            ))}
+          </div>
+
+          {labelled.length < products.length && (
+            <p className="text-xs text-muted-foreground">
+              {products.length - labelled.length} products without a barcode or SKU are not listed.
+            </p>
+          )}
+        </>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Close
+        </Button>
+        <Button type="button" disabled={!selected.length} onClick={print}>
+          <Printer className="mr-2 h-4 w-4" />
+          Print {selected.length * copies} Labels
+        </Button>
+      </div>
+    </div>
+  )
+}
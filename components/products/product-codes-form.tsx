@@ -0,0 +1,160 @@
+"use client"
+
+import { useState } from "react"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useForm } from "react-hook-form"
+import * as z from "zod"
+import { Printer } from "lucide-react"
+import type { Product } from "@/lib/db"
+import { Button } from "@/components/ui/button"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { useToast } from "@/hooks/use-toast"
+import { BarcodeSvg } from "@/components/products/barcode-svg"
+import { api } from "@/lib/api-client"
+import { getLabelSymbol } from "@/lib/barcodes"
+import { parseBarcodes } from "@/lib/product-codes"
+
+const codesSchema = z.object({
+  sku: z.string().max(40),
+  partNumber: z.string().max(40),
+  barcodes: z.string().refine((value) => parseBarcodes(value).every((code) => /^[\x20-\x7e]+$/.test(code)), {
+    message: "Barcodes can only contain letters, digits, spaces and symbols found on a keyboard.",
+  }),
+})
+
+interface ProductCodesFormProps {
+  product: Product
+  onSubmit: () => void
+  onCancel: () => void
+}
+
+// SKU, part number and barcodes of an existing product, with its shelf label
+export function ProductCodesForm({ product, onSubmit, onCancel }: ProductCodesFormProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const { toast } = useToast()
+
+  const form = useForm<z.infer<typeof codesSchema>>({
+    resolver: zodResolver(codesSchema),
+    defaultValues: {
+      sku: product.sku || "",
+      partNumber: product.partNumber || "",
+      barcodes: (product.barcodes || []).join("\n"),
+    },
+  })
+
+  const values = form.watch()
+  const symbol = getLabelSymbol({ sku: values.sku?.trim(), barcodes: parseBarcodes(values.barcodes) })
+  const isDirty = form.formState.isDirty
+
+  const handleSubmit = async (values: z.infer<typeof codesSchema>) => {
+    setIsSubmitting(true)
+    try {
+      const response = await api.put(
+        `/api/products/${product.id}`,
+        { sku: values.sku, partNumber: values.partNumber, barcodes: parseBarcodes(values.barcodes) },
+        { baseVersion: product.updatedAt }
+      )
+      if (response.error) {
+        throw new Error(response.error.message || "Failed to save product codes")
+      }
+      toast({
+        title: response.offline ? "Saved offline" : "Success",
+        description: `Codes for ${product.name} saved.`,
+      })
+      onSubmit()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save product codes",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="sku"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>SKU</FormLabel>
+                <FormControl>
+                  <Input placeholder="OIL-FLT-001" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="partNumber"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Manufacturer Part Number</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="barcodes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Barcodes</FormLabel>
+              <FormControl>
+                <Textarea rows={4} className="font-mono" placeholder="One per line" {...field} />
+              </FormControl>
+              <FormDescription>
+                One per line. Click in the box and scan to add one. The first is printed on the shelf label.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="space-y-2">
+          <div className="text-sm font-medium">Shelf Label</div>
+          {symbol ? (
+            <div className="flex items-end gap-4">
+              <BarcodeSvg symbol={symbol} />
+              <Button
+                type="button"
+                variant="outline"
+                disabled={isDirty}
+                onClick={() => window.open(`/api/products/labels?ids=${product.id}`, "_blank")}
+              >
+                <Printer className="mr-2 h-4 w-4" />
+                Print Label
+              </Button>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">Add a barcode or SKU to print a shelf label.</p>
+          )}
+          {symbol && isDirty && <p className="text-xs text-muted-foreground">Save the changes to print this label.</p>}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? "Saving..." : "Save Codes"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  )
+}
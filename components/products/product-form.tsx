@@ -14,6 +14,8 @@ import { WifiOff } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
 import { useOnlineStatus } from "@/lib/network-status"
 import { api } from "@/lib/api-client"
+import { useSettings } from "@/components/settings/settings-provider"
+import { parseBarcodes } from "@/lib/product-codes"
 
 const productSchema = z.object({
   name: z.string().min(2, {
@@ -40,6 +42,9 @@ const productSchema = z.object({
   supplierId: z.string().min(1, {
     message: "Supplier is required.",
   }),
+  sku: z.string().max(40),
+  partNumber: z.string().max(40),
+  barcodes: z.string(), // One per line
 })
 
 export type ProductFormValues = z.infer<typeof productSchema>
@@ -57,6 +62,7 @@ export function ProductForm({ product, suppliers, onSubmit, onCancel, isLoading:
   const [formError, setFormError] = useState<string | null>(null)
   const isOnline = useOnlineStatus()
   const { toast } = useToast()
+  const { general } = useSettings()
   
   const form = useForm<ProductFormValues>({
     resolver: zodResolver(productSchema),
@@ -67,8 +73,11 @@ export function ProductForm({ product, suppliers, onSubmit, onCancel, isLoading:
       salePrice: product?.salePrice || 0,
       warehouseStock: product?.warehouseStock || 0,
       shopStock: product?.shopStock || 0,
-      lowStockThreshold: product?.lowStockThreshold || 5,
+      lowStockThreshold: product?.lowStockThreshold || general.defaultLowStockThreshold,
       supplierId: product?.supplierId || "",
+      sku: product?.sku || "",
+      partNumber: product?.partNumber || "",
+      barcodes: (product?.barcodes || []).join("\n"),
     },
   })
 
@@ -83,9 +92,10 @@ export function ProductForm({ product, suppliers, onSubmit, onCancel, isLoading:
         : '/api/products';
       
       // Use the appropriate HTTP method based on the operation
+      const data = { ...values, barcodes: parseBarcodes(values.barcodes) };
       const response = product?.id
-        ? await api.put(endpoint, values)
-        : await api.post(endpoint, values);
+        ? await api.put(endpoint, data, { baseVersion: product.updatedAt })
+        : await api.post(endpoint, data);
       
       if (response.error) {
         throw new Error(response.error.message || "Failed to save product");
@@ -266,6 +276,50 @@ export function ProductForm({ product, suppliers, onSubmit, onCancel, isLoading:
           )}
         />
 
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="sku"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>SKU</FormLabel>
+                <FormControl>
+                  <Input placeholder="OIL-FLT-001" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="partNumber"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Manufacturer Part Number</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="barcodes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Barcodes</FormLabel>
+              <FormControl>
+                <Textarea rows={2} className="font-mono" placeholder="One per line, or scan into the box" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         <div className="flex justify-end gap-2">
           <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting || externalLoading}>
             Cancel
@@ -1,10 +1,14 @@
 "use client"
 
 import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
 import type { ColumnDef } from "@tanstack/react-table"
-import { Trash2, Plus, ArrowLeftRight } from "lucide-react"
+import Link from "next/link"
+import { Trash2, Plus, ArrowLeftRight, History, Barcode, Printer, ScanBarcode } from "lucide-react"
 import type { Product } from "@/lib/db"
 import { AdvancedDataTable } from "@/components/ui/advanced-data-table"
+import { StaleDataNotice } from "@/components/stale-data-notice"
+import { useCachedCollection } from "@/lib/offline-collections"
 import { Button } from "@/components/ui/button"
 import { ProductForm } from "@/components/products/product-form"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
@@ -19,24 +23,35 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog"
-import { createProduct, deleteProduct, updateProductField, getSuppliers, transferStock } from "@/lib/actions"
+import { deleteProduct, updateProductField, getSuppliers, transferStock } from "@/lib/actions"
 import { toast } from "@/components/ui/use-toast"
 import { ScrollableDialogBody } from "@/components/ui/scrollable-dialog"
 import { EditableCell } from "@/components/ui/editable-cell"
 import { EditableSelect } from "@/components/ui/editable-select"
 import { StockTransferForm } from "@/components/products/stock-transfer-form"
+import { StockHistory } from "@/components/products/stock-history"
+import { ProductCodesForm } from "@/components/products/product-codes-form"
+import { PrintLabelsForm } from "@/components/products/print-labels-form"
 import { Badge } from "@/components/ui/badge"
 // Import the formatCurrency function
-import { formatCurrency } from "@/lib/utils"
+import { useFormatCurrency } from "@/components/settings/settings-provider"
+import { getProductCodes } from "@/lib/product-codes"
 
 interface ProductsTableProps {
   products: Product[]
 }
 
-export function ProductsTable({ products }: ProductsTableProps) {
+export function ProductsTable({ products: serverProducts }: ProductsTableProps) {
+  const formatCurrency = useFormatCurrency()
+  // Falls back to the offline cache when there is no connection
+  const { data: products, staleSince } = useCachedCollection("products", serverProducts)
+  const router = useRouter()
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const [transferringProduct, setTransferringProduct] = useState<Product | null>(null)
+  const [historyProduct, setHistoryProduct] = useState<Product | null>(null)
+  const [codesProduct, setCodesProduct] = useState<Product | null>(null)
+  const [isPrintingLabels, setIsPrintingLabels] = useState(false)
   const [suppliers, setSuppliers] = useState<{ id: string; name: string }[]>([])
 
   // Fetch suppliers for the dropdown
@@ -82,33 +97,10 @@ export function ProductsTable({ products }: ProductsTableProps) {
     }
   }
 
-  const handleSubmit = async (product: Partial<Product>) => {
-    setIsLoading(true)
-    try {
-      const result = await createProduct(product)
-
-      if (result.success) {
-        toast({
-          title: "Product created",
-          description: `${product.name} has been created successfully.`,
-        })
-        setIsAddDialogOpen(false)
-      } else {
-        toast({
-          title: "Error",
-          description: result.error,
-          variant: "destructive",
-        })
-      }
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "An unexpected error occurred.",
-        variant: "destructive",
-      })
-    } finally {
-      setIsLoading(false)
-    }
+  // ProductForm saves through the API itself; reload the list it came from
+  const handleSubmit = () => {
+    setIsAddDialogOpen(false)
+    router.refresh()
   }
 
   const handleUpdateField = async (id: string, field: string, value: string | number) => {
@@ -166,6 +158,30 @@ export function ProductsTable({ products }: ProductsTableProps) {
       },
       filterFn: "includesString",
     },
+    {
+      id: "codes",
+      header: "SKU / Barcodes",
+      // Filtering matches any of the product's codes
+      accessorFn: (product) => getProductCodes(product).join(" "),
+      cell: ({ row }) => {
+        const product = row.original
+        const barcodes = product.barcodes || []
+        return (
+          <div className="space-y-0.5 text-xs">
+            {product.sku ? <div className="font-mono font-medium">{product.sku}</div> : null}
+            {product.partNumber ? <div className="text-muted-foreground">MPN {product.partNumber}</div> : null}
+            {barcodes.length > 0 ? (
+              <div className="font-mono text-muted-foreground">
+                {barcodes[0]}
+                {barcodes.length > 1 && ` +${barcodes.length - 1}`}
+              </div>
+            ) : null}
+            {!product.sku && !product.partNumber && !barcodes.length && <span className="text-muted-foreground">-</span>}
+          </div>
+        )
+      },
+      filterFn: "includesString",
+    },
     {
       accessorKey: "description",
       header: "Description",
@@ -319,6 +335,53 @@ export function ProductsTable({ products }: ProductsTableProps) {
 
         return (
           <div className="flex items-center justify-end gap-2">
+            <Dialog
+              open={codesProduct?.id === product.id}
+              onOpenChange={(open) => !open && setCodesProduct(null)}
+            >
+              <DialogTrigger asChild>
+                <Button variant="ghost" size="icon" onClick={() => setCodesProduct(product)}>
+                  <Barcode className="h-4 w-4" />
+                  <span className="sr-only">Codes and Label</span>
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Codes - {product.name}</DialogTitle>
+                </DialogHeader>
+                <ScrollableDialogBody>
+                  {codesProduct && (
+                    <ProductCodesForm
+                      product={codesProduct}
+                      onSubmit={() => {
+                        setCodesProduct(null)
+                        router.refresh()
+                      }}
+                      onCancel={() => setCodesProduct(null)}
+                    />
+                  )}
+                </ScrollableDialogBody>
+              </DialogContent>
+            </Dialog>
+
+            <Dialog
+              open={historyProduct?.id === product.id}
+              onOpenChange={(open) => !open && setHistoryProduct(null)}
+            >
+              <DialogTrigger asChild>
+                <Button variant="ghost" size="icon" onClick={() => setHistoryProduct(product)}>
+                  <History className="h-4 w-4" />
+                  <span className="sr-only">Stock History</span>
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-4xl">
+                <DialogHeader>
+                  <DialogTitle>Stock History - {product.name}</DialogTitle>
+                </DialogHeader>
+                <ScrollableDialogBody>{historyProduct && <StockHistory product={historyProduct} />}</ScrollableDialogBody>
+              </DialogContent>
+            </Dialog>
+
             <Dialog
               open={transferringProduct?.id === product.id}
               onOpenChange={(open) => !open && setTransferringProduct(null)}
@@ -386,6 +449,7 @@ export function ProductsTable({ products }: ProductsTableProps) {
   const totalsRow = (
     <tr>
       <td className="p-2 font-medium sticky left-0 bg-background z-20">Total: {totalProducts}</td>
+      <td className="p-2"></td> {/* SKU / Barcodes */}
       <td className="p-2"></td> {/* Description */}
       <td className="p-2"></td> {/* Purchase Price */}
       <td className="p-2"></td> {/* Sale Price */}
@@ -400,8 +464,33 @@ export function ProductsTable({ products }: ProductsTableProps) {
   )
 
   return (
-    <div>
-      <div className="flex justify-end mb-4">
+    <div className="space-y-4">
+      <StaleDataNotice since={staleSince} />
+      <div className="flex justify-end gap-2 mb-4">
+        <Button variant="outline" asChild>
+          <Link href="/products/stock-count">
+            <ScanBarcode className="mr-2 h-4 w-4" />
+            Stock Count
+          </Link>
+        </Button>
+
+        <Dialog open={isPrintingLabels} onOpenChange={setIsPrintingLabels}>
+          <DialogTrigger asChild>
+            <Button variant="outline">
+              <Printer className="mr-2 h-4 w-4" />
+              Print Labels
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Print Shelf Labels</DialogTitle>
+            </DialogHeader>
+            <ScrollableDialogBody>
+              <PrintLabelsForm products={products} onCancel={() => setIsPrintingLabels(false)} />
+            </ScrollableDialogBody>
+          </DialogContent>
+        </Dialog>
+
         <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
           <DialogTrigger asChild>
             <Button>
@@ -416,7 +505,7 @@ export function ProductsTable({ products }: ProductsTableProps) {
             <ScrollableDialogBody>
               <ProductForm
                 suppliers={suppliers}
-                onSubmit={(data) => handleSubmit(data)}
+                onSubmit={handleSubmit}
                 onCancel={() => setIsAddDialogOpen(false)}
                 isLoading={isLoading}
               />
@@ -0,0 +1,191 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Trash2 } from "lucide-react"
+import type { Product, StockLocation } from "@/lib/db"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ConfirmationDialog } from "@/components/ui/confirmation-dialog"
+import { useToast } from "@/hooks/use-toast"
+import { BarcodeScanInput } from "@/components/products/barcode-scan-input"
+import { applyStockCount } from "@/lib/actions"
+
+type CountLine = { productId: string; quantity: number }
+
+interface StockCountProps {
+  products: Product[]
+}
+
+// Counting one location by scanning every item on the shelves. Each scan adds
+// one; counts can be corrected by hand before they replace the stock figures.
+export function StockCount({ products }: StockCountProps) {
+  const router = useRouter()
+  const { toast } = useToast()
+  const [location, setLocation] = useState<StockLocation>("shop")
+  const [lines, setLines] = useState<CountLine[]>([])
+  const [lastScannedId, setLastScannedId] = useState<string | null>(null)
+  const [isConfirming, setIsConfirming] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const field = location === "warehouse" ? "warehouseStock" : "shopStock"
+  const productById = (id: string) => products.find((product) => product.id === id)
+
+  const handleScan = (product: Product) => {
+    setLines((current) =>
+      current.some((line) => line.productId === product.id)
+        ? current.map((line) => (line.productId === product.id ? { ...line, quantity: line.quantity + 1 } : line))
+        : [{ productId: product.id, quantity: 1 }, ...current]
+    )
+    setLastScannedId(product.id)
+  }
+
+  const setQuantity = (productId: string, value: string) =>
+    setLines((current) =>
+      current.map((line) =>
+        line.productId === productId ? { ...line, quantity: Math.max(0, Math.floor(Number(value)) || 0) } : line
+      )
+    )
+
+  const changedCount = lines.filter((line) => line.quantity !== Number(productById(line.productId)?.[field] || 0)).length
+
+  const handleApply = async () => {
+    setIsSubmitting(true)
+    const response = await applyStockCount(location, lines)
+    setIsSubmitting(false)
+    setIsConfirming(false)
+
+    if (!response.success) {
+      toast({
+        title: "Error",
+        description: response.error || "Failed to apply stock count",
+        variant: "destructive",
+      })
+      return
+    }
+
+    toast({
+      title: "Success",
+      description: `Stock count applied. ${response.data?.changed || 0} of ${response.data?.counted || 0} counted products changed.`,
+    })
+    setLines([])
+    setLastScannedId(null)
+    router.refresh()
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Stock Count</CardTitle>
+          <CardDescription>
+            Scan each item at the location. Only products that are counted are changed.
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Label>Location</Label>
+          <Select
+            value={location}
+            onValueChange={(value) => setLocation(value as StockLocation)}
+            disabled={lines.length > 0}
+          >
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="shop">Shop</SelectItem>
+              <SelectItem value="warehouse">Warehouse</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <BarcodeScanInput products={products} onScan={handleScan} autoFocus />
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Product</TableHead>
+              <TableHead>SKU</TableHead>
+              <TableHead className="text-right">On Record</TableHead>
+              <TableHead className="w-32 text-right">Counted</TableHead>
+              <TableHead className="text-right">Difference</TableHead>
+              <TableHead className="w-12" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {lines.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground">
+                  Nothing counted yet
+                </TableCell>
+              </TableRow>
+            ) : (
+              lines.map((line) => {
+                const product = productById(line.productId)
+                const onRecord = Number(product?.[field] || 0)
+                const difference = line.quantity - onRecord
+                return (
+                  <TableRow key={line.productId} className={line.productId === lastScannedId ? "bg-muted/50" : undefined}>
+                    <TableCell className="font-medium">{product?.name || "Unknown product"}</TableCell>
+                    <TableCell className="font-mono text-xs">{product?.sku || "-"}</TableCell>
+                    <TableCell className="text-right">{onRecord}</TableCell>
+                    <TableCell className="text-right">
+                      <Input
+                        type="number"
+                        min={0}
+                        className="ml-auto w-24 text-right"
+                        value={line.quantity}
+                        onChange={(event) => setQuantity(line.productId, event.target.value)}
+                      />
+                    </TableCell>
+                    <TableCell
+                      className={`text-right font-medium ${
+                        difference < 0 ? "text-destructive" : difference > 0 ? "text-green-600" : ""
+                      }`}
+                    >
+                      {difference > 0 ? `+${difference}` : difference}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setLines((current) => current.filter((item) => item.productId !== line.productId))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        <span className="sr-only">Remove</span>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                )
+              })
+            )}
+          </TableBody>
+        </Table>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" disabled={!lines.length || isSubmitting} onClick={() => setLines([])}>
+            Clear
+          </Button>
+          <Button disabled={!lines.length || isSubmitting} onClick={() => setIsConfirming(true)}>
+            Apply Count
+          </Button>
+        </div>
+      </CardContent>
+
+      <ConfirmationDialog
+        open={isConfirming}
+        onOpenChange={setIsConfirming}
+        title="Apply stock count"
+        description={`Set ${location} stock to the counted figures? ${changedCount} of ${lines.length} counted products will change.`}
+        onConfirm={handleApply}
+        isLoading={isSubmitting}
+        confirmText="Apply Count"
+      />
+    </Card>
+  )
+}
@@ -0,0 +1,117 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import type { Product, StockMovement } from "@/lib/db"
+import { Badge } from "@/components/ui/badge"
+import { getStockMovements } from "@/lib/actions"
+import { STOCK_MOVEMENT_REASON_LABELS } from "@/lib/stock-movements"
+import { useFormatCurrency } from "@/components/settings/settings-provider"
+
+function documentLabel(movement: StockMovement) {
+  if (!movement.documentId) return "-"
+  if (movement.documentType === "maintenance") return `Job #${movement.documentId.slice(0, 8)}`
+  if (movement.documentType === "purchase-order") return movement.notes || "Purchase order"
+  return "-"
+}
+
+interface StockHistoryProps {
+  product: Product
+}
+
+// Every recorded change to a product's stock, newest first
+export function StockHistory({ product }: StockHistoryProps) {
+  const formatCurrency = useFormatCurrency()
+  const [movements, setMovements] = useState<StockMovement[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadMovements = async () => {
+      const response = await getStockMovements(product.id)
+      if (response.success && response.data) {
+        setMovements(response.data)
+      } else {
+        setError(response.error || "Failed to load stock history")
+      }
+      setIsLoading(false)
+    }
+
+    loadMovements()
+  }, [product.id])
+
+  if (error) {
+    return <div className="p-4 border border-destructive/50 rounded-md bg-destructive/10 text-destructive">{error}</div>
+  }
+
+  if (isLoading) {
+    return <p className="py-4 text-center text-sm text-muted-foreground">Loading stock history...</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-6 text-sm">
+        <div>
+          <span className="text-muted-foreground">Warehouse:</span> {product.warehouseStock}
+        </div>
+        <div>
+          <span className="text-muted-foreground">Shop:</span> {product.shopStock}
+        </div>
+      </div>
+
+      <div className="rounded-md border">
+        <table className="min-w-full divide-y divide-border">
+          <thead>
+            <tr className="divide-x divide-border">
+              <th className="px-4 py-3.5 text-left text-sm font-semibold">Date</th>
+              <th className="px-4 py-3.5 text-left text-sm font-semibold">Location</th>
+              <th className="px-4 py-3.5 text-left text-sm font-semibold">Reason</th>
+              <th className="px-4 py-3.5 text-right text-sm font-semibold">Change</th>
+              <th className="px-4 py-3.5 text-right text-sm font-semibold">Balance</th>
+              <th className="px-4 py-3.5 text-right text-sm font-semibold">Unit Cost</th>
+              <th className="px-4 py-3.5 text-left text-sm font-semibold">Document</th>
+              <th className="px-4 py-3.5 text-left text-sm font-semibold">By</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border">
+            {movements.length === 0 ? (
+              <tr>
+                <td colSpan={8} className="px-4 py-2 text-sm text-center">
+                  No stock movements recorded yet
+                </td>
+              </tr>
+            ) : (
+              movements.map((movement) => (
+                <tr key={movement.id} className="divide-x divide-border">
+                  <td className="whitespace-nowrap px-4 py-2 text-sm">
+                    {format(new Date(movement.createdAt), "MMM d, yyyy HH:mm")}
+                  </td>
+                  <td className="whitespace-nowrap px-4 py-2 text-sm capitalize">{movement.location}</td>
+                  <td className="px-4 py-2 text-sm">
+                    <Badge variant="outline">{STOCK_MOVEMENT_REASON_LABELS[movement.reason]}</Badge>
+                    {movement.notes && movement.documentType !== "purchase-order" && (
+                      <div className="text-xs text-muted-foreground">{movement.notes}</div>
+                    )}
+                  </td>
+                  <td
+                    className={`whitespace-nowrap px-4 py-2 text-sm text-right font-medium ${
+                      movement.quantity < 0 ? "text-destructive" : "text-green-600"
+                    }`}
+                  >
+                    {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+                  </td>
+                  <td className="whitespace-nowrap px-4 py-2 text-sm text-right">{movement.balance}</td>
+                  <td className="whitespace-nowrap px-4 py-2 text-sm text-right">
+                    {movement.unitCost === undefined ? "-" : formatCurrency(Number(movement.unitCost))}
+                  </td>
+                  <td className="whitespace-nowrap px-4 py-2 text-sm">{documentLabel(movement)}</td>
+                  <td className="whitespace-nowrap px-4 py-2 text-sm">{movement.userName}</td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
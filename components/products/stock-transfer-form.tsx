@@ -1,5 +1,6 @@
 "use client"
 
+import { useState } from "react"
 import { zodResolver } from "@hookform/resolvers/zod"
 import { useForm } from "react-hook-form"
 import * as z from "zod"
@@ -10,6 +11,7 @@ import { Input } from "@/components/ui/input"
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
 import { Label } from "@/components/ui/label"
 import { ArrowRight } from "lucide-react"
+import { BarcodeScanInput } from "@/components/products/barcode-scan-input"
 
 const transferSchema = z
   .object({
@@ -41,6 +43,14 @@ export function StockTransferForm({ product, onSubmit, onCancel, isLoading = fal
     },
   })
 
+  // Scanning each item as it is moved counts the quantity up from the first scan
+  const [scanned, setScanned] = useState(0)
+  const handleScan = () => {
+    const count = scanned + 1
+    setScanned(count)
+    form.setValue("quantity", count, { shouldValidate: true })
+  }
+
   const handleSubmit = (values: z.infer<typeof transferSchema>) => {
     onSubmit(values.quantity, values.from, values.to)
   }
@@ -123,6 +133,13 @@ export function StockTransferForm({ product, onSubmit, onCancel, isLoading = fal
           )}
         />
 
+        <BarcodeScanInput
+          products={[product]}
+          onScan={handleScan}
+          placeholder="Scan each item being moved"
+          notFoundMessage={(code) => `${code} isn't a code for ${product.name}`}
+        />
+
         <FormField
           control={form.control}
           name="quantity"
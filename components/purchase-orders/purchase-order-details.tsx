@@ -0,0 +1,115 @@
+"use client"
+
+import { format } from "date-fns"
+import type { Product, PurchaseOrder, Supplier } from "@/lib/db"
+import { getOrderTotal, getOutstandingQuantity } from "@/lib/purchase-orders"
+import { useFormatCurrency } from "@/components/settings/settings-provider"
+import { PurchaseOrderStatusBadge } from "@/components/purchase-orders/purchase-order-status-badge"
+
+interface PurchaseOrderDetailsProps {
+  order: PurchaseOrder
+  supplier?: Supplier
+  products: Product[]
+}
+
+export function PurchaseOrderDetails({ order, supplier, products }: PurchaseOrderDetailsProps) {
+  const formatCurrency = useFormatCurrency()
+  const productName = (id: string) => products.find((product) => product.id === id)?.name || "Unknown product"
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+        <div>
+          <div className="text-muted-foreground">Supplier</div>
+          <div className="font-medium">{supplier?.name || "Unknown supplier"}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">Status</div>
+          <PurchaseOrderStatusBadge status={order.status} />
+        </div>
+        <div>
+          <div className="text-muted-foreground">Ordered</div>
+          <div className="font-medium">{order.orderDate ? format(new Date(order.orderDate), "PP") : "-"}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">Expected</div>
+          <div className="font-medium">{order.expectedDate ? format(new Date(order.expectedDate), "PP") : "-"}</div>
+        </div>
+      </div>
+
+      <div className="rounded-md border">
+        <table className="min-w-full divide-y divide-border">
+          <thead>
+            <tr className="divide-x divide-border">
+              <th className="px-4 py-3.5 text-left text-sm font-semibold">Product</th>
+              <th className="px-4 py-3.5 text-right text-sm font-semibold">Ordered</th>
+              <th className="px-4 py-3.5 text-right text-sm font-semibold">Received</th>
+              <th className="px-4 py-3.5 text-right text-sm font-semibold">Outstanding</th>
+              <th className="px-4 py-3.5 text-right text-sm font-semibold">Unit Cost</th>
+              <th className="px-4 py-3.5 text-right text-sm font-semibold">Total</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border">
+            {order.lines.map((line) => (
+              <tr key={line.productId} className="divide-x divide-border">
+                <td className="whitespace-nowrap px-4 py-2 text-sm">{productName(line.productId)}</td>
+                <td className="whitespace-nowrap px-4 py-2 text-sm text-right">{line.quantity}</td>
+                <td className="whitespace-nowrap px-4 py-2 text-sm text-right">{line.receivedQuantity}</td>
+                <td className="whitespace-nowrap px-4 py-2 text-sm text-right">{getOutstandingQuantity(line)}</td>
+                <td className="whitespace-nowrap px-4 py-2 text-sm text-right">{formatCurrency(line.unitCost)}</td>
+                <td className="whitespace-nowrap px-4 py-2 text-sm text-right">
+                  {formatCurrency(line.quantity * line.unitCost)}
+                </td>
+              </tr>
+            ))}
+            <tr className="divide-x divide-border font-medium">
+              <td colSpan={5} className="px-4 py-2 text-sm text-right">
+                Order total
+              </td>
+              <td className="whitespace-nowrap px-4 py-2 text-sm text-right">{formatCurrency(getOrderTotal(order.lines))}</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      {order.receipts.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold">Deliveries</h3>
+          <div className="rounded-md border">
+            <table className="min-w-full divide-y divide-border">
+              <thead>
+                <tr className="divide-x divide-border">
+                  <th className="px-4 py-3.5 text-left text-sm font-semibold">Date</th>
+                  <th className="px-4 py-3.5 text-left text-sm font-semibold">Into</th>
+                  <th className="px-4 py-3.5 text-left text-sm font-semibold">Products</th>
+                  <th className="px-4 py-3.5 text-left text-sm font-semibold">Received By</th>
+                  <th className="px-4 py-3.5 text-right text-sm font-semibold">Amount</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {order.receipts.map((receipt) => (
+                  <tr key={receipt.id} className="divide-x divide-border">
+                    <td className="whitespace-nowrap px-4 py-2 text-sm">{format(new Date(receipt.date), "PP")}</td>
+                    <td className="whitespace-nowrap px-4 py-2 text-sm capitalize">{receipt.location}</td>
+                    <td className="px-4 py-2 text-sm">
+                      {receipt.lines.map((line) => `${line.quantity} × ${productName(line.productId)}`).join(", ")}
+                    </td>
+                    <td className="whitespace-nowrap px-4 py-2 text-sm">{receipt.receivedBy}</td>
+                    <td className="whitespace-nowrap px-4 py-2 text-sm text-right">{formatCurrency(receipt.amount)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {order.notes && (
+        <div className="text-sm">
+          <div className="text-muted-foreground">Notes</div>
+          <p className="whitespace-pre-wrap">{order.notes}</p>
+        </div>
+      )}
+    </div>
+  )
+}
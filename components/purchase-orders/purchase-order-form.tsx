@@ -0,0 +1,279 @@
+"use client"
+
+import { useState } from "react"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useFieldArray, useForm } from "react-hook-form"
+import * as z from "zod"
+import { Plus, Trash2 } from "lucide-react"
+import type { Product, PurchaseOrder, Supplier } from "@/lib/db"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import { api } from "@/lib/api-client"
+import { getOrderTotal } from "@/lib/purchase-orders"
+import { useFormatCurrency } from "@/components/settings/settings-provider"
+
+const purchaseOrderSchema = z.object({
+  supplierId: z.string().min(1, { message: "Supplier is required." }),
+  expectedDate: z.string().optional(),
+  lines: z
+    .array(
+      z.object({
+        productId: z.string().min(1, { message: "Product is required." }),
+        quantity: z.coerce.number().int().min(1, { message: "At least 1." }),
+        unitCost: z.coerce.number().min(0, { message: "Can't be negative." }),
+      })
+    )
+    .min(1, { message: "Add at least one product." }),
+  notes: z.string().optional(),
+})
+
+type PurchaseOrderFormValues = z.infer<typeof purchaseOrderSchema>
+
+interface PurchaseOrderFormProps {
+  order?: PurchaseOrder
+  supplierId?: string // Preselected when ordering from a supplier
+  suppliers: Supplier[]
+  products: Product[]
+  onSubmit: () => void
+  onCancel: () => void
+}
+
+export function PurchaseOrderForm({ order, supplierId, suppliers, products, onSubmit, onCancel }: PurchaseOrderFormProps) {
+  const formatCurrency = useFormatCurrency()
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [formError, setFormError] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  const form = useForm<PurchaseOrderFormValues>({
+    resolver: zodResolver(purchaseOrderSchema),
+    defaultValues: {
+      supplierId: order?.supplierId || supplierId || "",
+      expectedDate: order?.expectedDate || "",
+      lines: order?.lines.map(({ productId, quantity, unitCost }) => ({ productId, quantity, unitCost })) || [],
+      notes: order?.notes || "",
+    },
+  })
+
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: "lines",
+  })
+
+  const [selectedSupplierId, lines] = form.watch(["supplierId", "lines"])
+
+  // The supplier's own products are listed first
+  const productOptions = [...products].sort(
+    (a, b) =>
+      Number(b.supplierId === selectedSupplierId) - Number(a.supplierId === selectedSupplierId) ||
+      a.name.localeCompare(b.name)
+  )
+
+  const handleProductChange = (index: number, productId: string) => {
+    form.setValue(`lines.${index}.productId`, productId)
+    // Start from the last price paid, the agreed cost can be entered over it
+    const product = products.find((p) => p.id === productId)
+    if (product) form.setValue(`lines.${index}.unitCost`, product.purchasePrice)
+  }
+
+  const handleSubmit = async (values: PurchaseOrderFormValues) => {
+    setFormError(null)
+    setIsSubmitting(true)
+
+    try {
+      const response = order?.id
+        ? await api.put(`/api/purchase-orders/${order.id}`, values, { baseVersion: order.updatedAt })
+        : await api.post("/api/purchase-orders", values)
+
+      if (response.error) {
+        throw new Error(response.error.message || "Failed to save purchase order")
+      }
+
+      toast({
+        title: response.offline ? "Saved offline" : "Success",
+        description: response.offline
+          ? "The purchase order will be saved when you're back online."
+          : `Purchase order ${order?.id ? "updated" : "created"} successfully.`,
+      })
+
+      onSubmit()
+    } catch (error: any) {
+      setFormError(error.message || "An unexpected error occurred while processing the form")
+
+      toast({
+        title: "Error",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        {formError && <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">{formError}</div>}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="supplierId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Supplier</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a supplier" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {suppliers.map((supplier) => (
+                      <SelectItem key={supplier.id} value={supplier.id}>
+                        {supplier.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="expectedDate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Expected Delivery</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} value={field.value || ""} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle className="text-base">Products</CardTitle>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => append({ productId: "", quantity: 1, unitCost: 0 })}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Product
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {fields.length === 0 && (
+                <p className="text-sm text-muted-foreground">No products on the order yet</p>
+              )}
+              {fields.map((field, index) => (
+                <div key={field.id} className="flex items-end gap-4">
+                  <FormField
+                    control={form.control}
+                    name={`lines.${index}.productId`}
+                    render={({ field }) => (
+                      <FormItem className="flex-1">
+                        <FormLabel>Product</FormLabel>
+                        <Select onValueChange={(value) => handleProductChange(index, value)} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select a product" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {productOptions.map((product) => (
+                              <SelectItem key={product.id} value={product.id}>
+                                {product.name} [Shop: {product.shopStock}, Warehouse: {product.warehouseStock}]
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name={`lines.${index}.quantity`}
+                    render={({ field }) => (
+                      <FormItem className="w-24">
+                        <FormLabel>Quantity</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={1} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name={`lines.${index}.unitCost`}
+                    render={({ field }) => (
+                      <FormItem className="w-32">
+                        <FormLabel>Unit Cost</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} step="0.01" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <Button type="button" variant="ghost" size="icon" onClick={() => remove(index)}>
+                    <Trash2 className="h-4 w-4" />
+                    <span className="sr-only">Remove</span>
+                  </Button>
+                </div>
+              ))}
+              {form.formState.errors.lines?.message && (
+                <p className="text-sm font-medium text-destructive">{form.formState.errors.lines.message}</p>
+              )}
+              {fields.length > 0 && (
+                <div className="flex justify-end text-sm font-medium">
+                  Order total: {formatCurrency(getOrderTotal(lines || []))}
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notes</FormLabel>
+              <FormControl>
+                <Textarea placeholder="Delivery instructions, quote reference..." {...field} value={field.value || ""} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? "Saving..." : order ? "Update Order" : "Create Order"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  )
+}
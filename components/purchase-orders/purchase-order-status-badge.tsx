@@ -0,0 +1,15 @@
+import { Badge } from "@/components/ui/badge"
+import type { PurchaseOrderStatus } from "@/lib/db"
+import { PURCHASE_ORDER_STATUS_LABELS } from "@/lib/purchase-orders"
+
+const STATUS_BADGE_VARIANTS: Record<PurchaseOrderStatus, "secondary" | "warning" | "success" | "outline" | "default"> = {
+  draft: "outline",
+  sent: "default",
+  "partially-received": "warning",
+  received: "success",
+  cancelled: "secondary",
+}
+
+export function PurchaseOrderStatusBadge({ status }: { status: PurchaseOrderStatus }) {
+  return <Badge variant={STATUS_BADGE_VARIANTS[status]}>{PURCHASE_ORDER_STATUS_LABELS[status]}</Badge>
+}
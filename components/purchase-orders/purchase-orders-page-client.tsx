@@ -0,0 +1,322 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { format } from "date-fns"
+import { PackageCheck, Pencil, Plus, Send, Trash2, Undo2, XCircle } from "lucide-react"
+import type { Product, PurchaseOrder, PurchaseOrderStatus, Supplier } from "@/lib/db"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { ConfirmationDialog } from "@/components/ui/confirmation-dialog"
+import { ScrollableDialogBody } from "@/components/ui/scrollable-dialog"
+import { useToast } from "@/hooks/use-toast"
+import { usePermission } from "@/components/auth/current-user-provider"
+import { PurchaseOrderForm } from "@/components/purchase-orders/purchase-order-form"
+import { PurchaseOrderDetails } from "@/components/purchase-orders/purchase-order-details"
+import { PurchaseOrderStatusBadge } from "@/components/purchase-orders/purchase-order-status-badge"
+import { ReceiveGoodsForm } from "@/components/purchase-orders/receive-goods-form"
+import { ReorderSuggestions } from "@/components/purchase-orders/reorder-suggestions"
+import { api } from "@/lib/api-client"
+import {
+  PURCHASE_ORDER_STATUS_LABELS,
+  getOrderTotal,
+  getOutstandingValue,
+  isOpenPurchaseOrder,
+} from "@/lib/purchase-orders"
+import { useFormatCurrency } from "@/components/settings/settings-provider"
+
+// Select items can't have an empty value
+const ALL_ORDERS = "all"
+const OPEN_ORDERS = "open"
+
+type DialogMode = "view" | "edit" | "receive"
+
+interface PurchaseOrdersPageClientProps {
+  orders: PurchaseOrder[]
+  suppliers: Supplier[]
+  products: Product[]
+}
+
+export function PurchaseOrdersPageClient({ orders, suppliers, products }: PurchaseOrdersPageClientProps) {
+  const formatCurrency = useFormatCurrency()
+  const router = useRouter()
+  const { toast } = useToast()
+  const canEdit = usePermission("suppliers:edit")
+  const canDelete = usePermission("suppliers:delete")
+  const canReceive = usePermission("products:edit")
+
+  const [tab, setTab] = useState("orders")
+  const [statusFilter, setStatusFilter] = useState<string>(ALL_ORDERS)
+  const [isCreating, setIsCreating] = useState(false)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [mode, setMode] = useState<DialogMode>("view")
+  const [deleting, setDeleting] = useState<PurchaseOrder | null>(null)
+  const [isUpdating, setIsUpdating] = useState(false)
+
+  // Looked up by id so the dialog shows the order as re-rendered after a refresh
+  const selected = orders.find((order) => order.id === selectedId) || null
+  const supplierName = (id: string) => suppliers.find((supplier) => supplier.id === id)?.name || "Unknown supplier"
+
+  const visibleOrders = orders.filter((order) =>
+    statusFilter === ALL_ORDERS
+      ? true
+      : statusFilter === OPEN_ORDERS
+        ? isOpenPurchaseOrder(order)
+        : order.status === statusFilter
+  )
+
+  const openOrder = (order: PurchaseOrder) => {
+    setSelectedId(order.id)
+    setMode("view")
+  }
+
+  const closeDialog = () => {
+    setSelectedId(null)
+    setMode("view")
+  }
+
+  const handleSaved = () => {
+    setIsCreating(false)
+    setMode("view")
+    router.refresh()
+  }
+
+  const setStatus = async (order: PurchaseOrder, status: PurchaseOrderStatus) => {
+    setIsUpdating(true)
+    try {
+      const response = await api.put(`/api/purchase-orders/${order.id}`, { status }, { baseVersion: order.updatedAt })
+      if (response.error) {
+        throw new Error(response.error.message || "Failed to update purchase order")
+      }
+      toast({
+        title: response.offline ? "Saved offline" : "Success",
+        description: `${order.orderNumber} marked as ${PURCHASE_ORDER_STATUS_LABELS[status].toLowerCase()}.`,
+      })
+      router.refresh()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update purchase order",
+        variant: "destructive",
+      })
+    } finally {
+      setIsUpdating(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!deleting) return
+    setIsUpdating(true)
+    try {
+      const response = await api.delete(`/api/purchase-orders/${deleting.id}`, { baseVersion: deleting.updatedAt })
+      if (response.error) {
+        throw new Error(response.error.message || "Failed to delete purchase order")
+      }
+      toast({ title: "Success", description: `${deleting.orderNumber} deleted.` })
+      setDeleting(null)
+      closeDialog()
+      router.refresh()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete purchase order",
+        variant: "destructive",
+      })
+    } finally {
+      setIsUpdating(false)
+    }
+  }
+
+  const renderActions = (order: PurchaseOrder) => (
+    <DialogFooter className="flex-wrap gap-2 sm:justify-end">
+      {canEdit && order.status === "draft" && (
+        <>
+          <Button variant="outline" onClick={() => setMode("edit")}>
+            <Pencil className="mr-2 h-4 w-4" />
+            Edit
+          </Button>
+          <Button disabled={isUpdating} onClick={() => setStatus(order, "sent")}>
+            <Send className="mr-2 h-4 w-4" />
+            Mark as Sent
+          </Button>
+        </>
+      )}
+      {canEdit && order.status === "sent" && (
+        <Button variant="outline" disabled={isUpdating} onClick={() => setStatus(order, "draft")}>
+          <Undo2 className="mr-2 h-4 w-4" />
+          Back to Draft
+        </Button>
+      )}
+      {canReceive && isOpenPurchaseOrder(order) && (
+        <Button onClick={() => setMode("receive")}>
+          <PackageCheck className="mr-2 h-4 w-4" />
+          Receive Goods
+        </Button>
+      )}
+      {canEdit && order.status !== "received" && order.status !== "cancelled" && (
+        <Button variant="outline" disabled={isUpdating} onClick={() => setStatus(order, "cancelled")}>
+          <XCircle className="mr-2 h-4 w-4" />
+          {order.status === "partially-received" ? "Close Order" : "Cancel Order"}
+        </Button>
+      )}
+      {canDelete && order.receipts.length === 0 && (
+        <Button variant="destructive" disabled={isUpdating} onClick={() => setDeleting(order)}>
+          <Trash2 className="mr-2 h-4 w-4" />
+          Delete
+        </Button>
+      )}
+    </DialogFooter>
+  )
+
+  return (
+    <Tabs value={tab} onValueChange={setTab}>
+      <TabsList className="grid w-full grid-cols-2">
+        <TabsTrigger value="orders">Orders</TabsTrigger>
+        <TabsTrigger value="reorder">Reorder Suggestions</TabsTrigger>
+      </TabsList>
+      <TabsContent value="orders" className="space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_ORDERS}>All orders</SelectItem>
+              <SelectItem value={OPEN_ORDERS}>Awaiting delivery</SelectItem>
+              {(Object.keys(PURCHASE_ORDER_STATUS_LABELS) as PurchaseOrderStatus[]).map((status) => (
+                <SelectItem key={status} value={status}>
+                  {PURCHASE_ORDER_STATUS_LABELS[status]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {canEdit && (
+            <Button onClick={() => setIsCreating(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Purchase Order
+            </Button>
+          )}
+        </div>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Order</TableHead>
+                <TableHead>Supplier</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Ordered</TableHead>
+                <TableHead>Expected</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead className="text-right">Outstanding</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleOrders.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    No purchase orders
+                  </TableCell>
+                </TableRow>
+              ) : (
+                visibleOrders.map((order) => (
+                  <TableRow key={order.id} className="cursor-pointer" onClick={() => openOrder(order)}>
+                    <TableCell className="font-medium">{order.orderNumber}</TableCell>
+                    <TableCell>{supplierName(order.supplierId)}</TableCell>
+                    <TableCell>
+                      <PurchaseOrderStatusBadge status={order.status} />
+                    </TableCell>
+                    <TableCell>{order.orderDate ? format(new Date(order.orderDate), "PP") : "-"}</TableCell>
+                    <TableCell>{order.expectedDate ? format(new Date(order.expectedDate), "PP") : "-"}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(getOrderTotal(order.lines))}</TableCell>
+                    <TableCell className="text-right">
+                      {isOpenPurchaseOrder(order) ? formatCurrency(getOutstandingValue(order)) : "-"}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </TabsContent>
+
+      <TabsContent value="reorder">
+        <ReorderSuggestions
+          suppliers={suppliers}
+          onOrdersCreated={() => {
+            setStatusFilter("draft")
+            setTab("orders")
+          }}
+        />
+      </TabsContent>
+
+      <Dialog open={isCreating} onOpenChange={setIsCreating}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>New Purchase Order</DialogTitle>
+          </DialogHeader>
+          <ScrollableDialogBody>
+            <PurchaseOrderForm
+              suppliers={suppliers}
+              products={products}
+              onSubmit={handleSaved}
+              onCancel={() => setIsCreating(false)}
+            />
+          </ScrollableDialogBody>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="max-w-3xl">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {mode === "edit" ? "Edit " : mode === "receive" ? "Receive Goods on " : ""}
+                  {selected.orderNumber}
+                </DialogTitle>
+              </DialogHeader>
+              <ScrollableDialogBody>
+                {mode === "edit" ? (
+                  <PurchaseOrderForm
+                    order={selected}
+                    suppliers={suppliers}
+                    products={products}
+                    onSubmit={handleSaved}
+                    onCancel={() => setMode("view")}
+                  />
+                ) : mode === "receive" ? (
+                  <ReceiveGoodsForm
+                    order={selected}
+                    products={products}
+                    onSubmit={handleSaved}
+                    onCancel={() => setMode("view")}
+                  />
+                ) : (
+                  <PurchaseOrderDetails
+                    order={selected}
+                    supplier={suppliers.find((supplier) => supplier.id === selected.supplierId)}
+                    products={products}
+                  />
+                )}
+              </ScrollableDialogBody>
+              {mode === "view" && renderActions(selected)}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmationDialog
+        open={!!deleting}
+        onOpenChange={(open) => !open && setDeleting(null)}
+        title="Delete purchase order"
+        description={`Delete ${deleting?.orderNumber}? Orders with goods received can't be deleted.`}
+        onConfirm={handleDelete}
+        isLoading={isUpdating}
+      />
+    </Tabs>
+  )
+}
@@ -0,0 +1,142 @@
+"use client"
+
+import { useState } from "react"
+import { format } from "date-fns"
+import type { Product, PurchaseOrder } from "@/lib/db"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import { receivePurchaseOrder } from "@/lib/actions"
+import { getOutstandingQuantity } from "@/lib/purchase-orders"
+import { useFormatCurrency } from "@/components/settings/settings-provider"
+
+interface ReceiveGoodsFormProps {
+  order: PurchaseOrder
+  products: Product[]
+  onSubmit: () => void
+  onCancel: () => void
+}
+
+// Books a delivery in; quantities start at everything still outstanding
+export function ReceiveGoodsForm({ order, products, onSubmit, onCancel }: ReceiveGoodsFormProps) {
+  const formatCurrency = useFormatCurrency()
+  const { toast } = useToast()
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [formError, setFormError] = useState<string | null>(null)
+  const [location, setLocation] = useState<"warehouse" | "shop">("warehouse")
+  const [date, setDate] = useState(format(new Date(), "yyyy-MM-dd"))
+  const [quantities, setQuantities] = useState<Record<string, string>>(() =>
+    Object.fromEntries(order.lines.map((line) => [line.productId, String(getOutstandingQuantity(line))]))
+  )
+
+  const openLines = order.lines.filter((line) => getOutstandingQuantity(line) > 0)
+  const amount = openLines.reduce(
+    (sum, line) => sum + (Number(quantities[line.productId]) || 0) * line.unitCost,
+    0
+  )
+
+  const handleSubmit = async () => {
+    setFormError(null)
+    setIsSubmitting(true)
+
+    const response = await receivePurchaseOrder(order.id, {
+      location,
+      date,
+      lines: openLines.map((line) => ({ productId: line.productId, quantity: quantities[line.productId] })),
+    })
+    setIsSubmitting(false)
+
+    if (!response.success) {
+      setFormError(response.error || "Failed to receive goods")
+      toast({
+        title: "Error",
+        description: response.error || "Failed to receive goods",
+        variant: "destructive",
+      })
+      return
+    }
+
+    toast({
+      title: "Success",
+      description: `Goods received into the ${location} and ${formatCurrency(response.data?.receipt.amount || 0)} recorded as an expense.`,
+    })
+    onSubmit()
+  }
+
+  return (
+    <div className="space-y-4">
+      {formError && <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">{formError}</div>}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Receive into</Label>
+          <Select value={location} onValueChange={(value) => setLocation(value as "warehouse" | "shop")}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="warehouse">Warehouse</SelectItem>
+              <SelectItem value="shop">Shop</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Delivery date</Label>
+          <Input type="date" value={date} onChange={(event) => setDate(event.target.value)} />
+        </div>
+      </div>
+
+      <div className="rounded-md border">
+        <table className="min-w-full divide-y divide-border">
+          <thead>
+            <tr className="divide-x divide-border">
+              <th className="px-4 py-3.5 text-left text-sm font-semibold">Product</th>
+              <th className="px-4 py-3.5 text-right text-sm font-semibold">Outstanding</th>
+              <th className="px-4 py-3.5 text-right text-sm font-semibold">Unit Cost</th>
+              <th className="px-4 py-3.5 text-right text-sm font-semibold">Delivered</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border">
+            {openLines.map((line) => (
+              <tr key={line.productId} className="divide-x divide-border">
+                <td className="whitespace-nowrap px-4 py-2 text-sm">
+                  {products.find((product) => product.id === line.productId)?.name || "Unknown product"}
+                </td>
+                <td className="whitespace-nowrap px-4 py-2 text-sm text-right">{getOutstandingQuantity(line)}</td>
+                <td className="whitespace-nowrap px-4 py-2 text-sm text-right">{formatCurrency(line.unitCost)}</td>
+                <td className="px-4 py-2 text-sm">
+                  <Input
+                    type="number"
+                    min={0}
+                    max={getOutstandingQuantity(line)}
+                    className="ml-auto w-24 text-right"
+                    value={quantities[line.productId] ?? ""}
+                    onChange={(event) =>
+                      setQuantities((current) => ({ ...current, [line.productId]: event.target.value }))
+                    }
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Received products take the order&apos;s unit cost as their purchase price. The delivery is recorded as a{" "}
+        {formatCurrency(amount)} inventory purchase expense.
+      </p>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button disabled={isSubmitting || openLines.length === 0} onClick={handleSubmit}>
+          {isSubmitting ? "Receiving..." : "Receive Goods"}
+        </Button>
+      </div>
+    </div>
+  )
+}
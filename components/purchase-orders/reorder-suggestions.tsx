@@ -0,0 +1,212 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { FilePlus } from "lucide-react"
+import type { Supplier } from "@/lib/db"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { usePermission } from "@/components/auth/current-user-provider"
+import { createPurchaseOrdersFromSuggestions, getReorderSuggestions } from "@/lib/actions"
+import { USAGE_LOOKBACK_DAYS, type ReorderSuggestion } from "@/lib/reorder"
+import { useFormatCurrency } from "@/components/settings/settings-provider"
+
+function DaysLeftBadge({ suggestion }: { suggestion: ReorderSuggestion }) {
+  if (suggestion.daysLeft === undefined) return <span className="text-muted-foreground">No recent use</span>
+  // Stock runs out before a new delivery could arrive
+  return (
+    <Badge variant={suggestion.daysLeft <= suggestion.leadTimeDays ? "destructive" : "warning"}>
+      {suggestion.daysLeft} days
+    </Badge>
+  )
+}
+
+interface ReorderSuggestionsProps {
+  suppliers: Supplier[]
+  onOrdersCreated: () => void
+}
+
+// Products due for reordering by usage on past jobs, grouped by supplier
+export function ReorderSuggestions({ suppliers, onOrdersCreated }: ReorderSuggestionsProps) {
+  const formatCurrency = useFormatCurrency()
+  const router = useRouter()
+  const { toast } = useToast()
+  const canEdit = usePermission("suppliers:edit")
+
+  const [suggestions, setSuggestions] = useState<ReorderSuggestion[]>([])
+  const [quantities, setQuantities] = useState<Record<string, string>>({})
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadSuggestions = useCallback(async () => {
+    setIsLoading(true)
+    const response = await getReorderSuggestions()
+    if (response.success && response.data) {
+      setSuggestions(response.data)
+      setQuantities(Object.fromEntries(response.data.map((s) => [s.productId, String(s.quantity)])))
+      setSelected(new Set(response.data.map((s) => s.productId)))
+      setError(null)
+    } else {
+      setError(response.error || "Failed to load reorder suggestions")
+    }
+    setIsLoading(false)
+  }, [])
+
+  useEffect(() => {
+    loadSuggestions()
+  }, [loadSuggestions])
+
+  const supplierIds = Array.from(new Set(suggestions.map((s) => s.supplierId)))
+  const supplierName = (id: string) => suppliers.find((supplier) => supplier.id === id)?.name || "No supplier"
+
+  const toggle = (productId: string, checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current)
+      if (checked) next.add(productId)
+      else next.delete(productId)
+      return next
+    })
+  }
+
+  const handleCreateOrders = async () => {
+    setIsSaving(true)
+    const response = await createPurchaseOrdersFromSuggestions(
+      suggestions
+        .filter((s) => selected.has(s.productId) && Number(quantities[s.productId]) > 0)
+        .map((s) => ({ productId: s.productId, quantity: quantities[s.productId], unitCost: s.unitCost }))
+    )
+    setIsSaving(false)
+
+    if (!response.success) {
+      toast({
+        title: "Error",
+        description: response.error || "Failed to create purchase orders",
+        variant: "destructive",
+      })
+      return
+    }
+
+    const count = response.data?.length || 0
+    toast({
+      title: "Success",
+      description: `${count} draft purchase order${count === 1 ? "" : "s"} created.`,
+    })
+    await loadSuggestions()
+    router.refresh()
+    onOrdersCreated()
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Reorder Suggestions</CardTitle>
+          <CardDescription>
+            Based on parts used on jobs over the last {USAGE_LOOKBACK_DAYS} days, each supplier&apos;s lead time and the
+            safety stock set in the settings. Stock already on order is taken into account.
+          </CardDescription>
+        </div>
+        {canEdit && suggestions.length > 0 && (
+          <Button disabled={isSaving || selected.size === 0} onClick={handleCreateOrders}>
+            <FilePlus className="mr-2 h-4 w-4" />
+            {isSaving ? "Creating..." : "Create Draft Orders"}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error ? (
+          <div className="p-4 border border-destructive/50 rounded-md bg-destructive/10 text-destructive">{error}</div>
+        ) : isLoading ? (
+          <p className="text-center py-4 text-muted-foreground">Loading reorder suggestions...</p>
+        ) : suggestions.length === 0 ? (
+          <p className="text-center py-4 text-muted-foreground">Nothing needs reordering</p>
+        ) : (
+          supplierIds.map((supplierId) => {
+            const rows = suggestions.filter((s) => s.supplierId === supplierId)
+            const total = rows
+              .filter((s) => selected.has(s.productId))
+              .reduce((sum, s) => sum + (Number(quantities[s.productId]) || 0) * s.unitCost, 0)
+
+            return (
+              <div key={supplierId} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-semibold">{supplierName(supplierId)}</h3>
+                  <span className="text-sm text-muted-foreground">
+                    Lead time {rows[0].leadTimeDays} days · {formatCurrency(total)}
+                  </span>
+                </div>
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        {canEdit && <TableHead className="w-10" />}
+                        <TableHead>Product</TableHead>
+                        <TableHead className="text-right">In Stock</TableHead>
+                        <TableHead className="text-right">On Order</TableHead>
+                        <TableHead className="text-right">Daily Use</TableHead>
+                        <TableHead>Stock Left</TableHead>
+                        <TableHead className="text-right">Reorder Point</TableHead>
+                        <TableHead className="text-right">Order Qty</TableHead>
+                        <TableHead className="text-right">Unit Cost</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rows.map((suggestion) => (
+                        <TableRow key={suggestion.productId}>
+                          {canEdit && (
+                            <TableCell>
+                              <Checkbox
+                                checked={selected.has(suggestion.productId)}
+                                onCheckedChange={(checked) => toggle(suggestion.productId, checked === true)}
+                              />
+                            </TableCell>
+                          )}
+                          <TableCell className="font-medium">{suggestion.productName}</TableCell>
+                          <TableCell className="text-right">{suggestion.stock}</TableCell>
+                          <TableCell className="text-right">{suggestion.onOrder || "-"}</TableCell>
+                          <TableCell className="text-right">
+                            {suggestion.dailyUsage ? suggestion.dailyUsage.toFixed(2) : "-"}
+                          </TableCell>
+                          <TableCell>
+                            <DaysLeftBadge suggestion={suggestion} />
+                          </TableCell>
+                          <TableCell className="text-right">{suggestion.reorderPoint}</TableCell>
+                          <TableCell className="text-right">
+                            {canEdit ? (
+                              <Input
+                                type="number"
+                                min={1}
+                                className="ml-auto w-24 text-right"
+                                value={quantities[suggestion.productId] ?? ""}
+                                onChange={(event) =>
+                                  setQuantities((current) => ({
+                                    ...current,
+                                    [suggestion.productId]: event.target.value,
+                                  }))
+                                }
+                              />
+                            ) : (
+                              suggestion.quantity
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">{formatCurrency(suggestion.unitCost)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )
+          })
+        )}
+      </CardContent>
+    </Card>
+  )
+}
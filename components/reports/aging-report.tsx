@@ -0,0 +1,146 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Download } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { getAgingReport } from "@/lib/actions"
+import { AGING_BUCKETS, AGING_BUCKET_LABELS, type AgingBucket, type AgingRow } from "@/lib/statements"
+import { useFormatCurrency, useFormatCurrencyForCsv } from "@/components/settings/settings-provider"
+
+interface AgingReportProps {
+  date: string // yyyy-MM-dd the balances are aged to
+}
+
+export function AgingReport({ date }: AgingReportProps) {
+  const formatCurrency = useFormatCurrency()
+  const formatCurrencyForCsv = useFormatCurrencyForCsv()
+  const [rows, setRows] = useState<AgingRow[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    setIsLoading(true)
+    getAgingReport(date).then((response) => {
+      if (response.success && response.data) {
+        setRows(response.data)
+        setError(null)
+      } else {
+        setError(response.error || "Failed to build aging report")
+      }
+      setIsLoading(false)
+    })
+  }, [date])
+
+  const totals = AGING_BUCKETS.reduce(
+    (acc, bucket) => ({ ...acc, [bucket]: rows.reduce((sum, row) => sum + row.buckets[bucket], 0) }),
+    {} as Record<AgingBucket, number>,
+  )
+  const grandTotal = rows.reduce((sum, row) => sum + row.total, 0)
+
+  const handleExport = () => {
+    const headers = ["Client", "Open Invoices", ...AGING_BUCKETS.map((bucket) => AGING_BUCKET_LABELS[bucket]), "Total"]
+    const csvRows = rows.map((row) => [
+      `"${row.clientName.replace(/"/g, '""')}"`,
+      row.openInvoices,
+      ...AGING_BUCKETS.map((bucket) => formatCurrencyForCsv(row.buckets[bucket])),
+      formatCurrencyForCsv(row.total),
+    ])
+    const csvContent = [headers.join(","), ...csvRows.map((row) => row.join(","))].join("\n")
+
+    const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.setAttribute("href", url)
+    link.setAttribute("download", `aging-report-${date}.csv`)
+    link.style.visibility = "hidden"
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+  }
+
+  if (isLoading || error || rows.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Receivables Aging</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className={error ? "text-destructive" : "text-muted-foreground"}>
+            {isLoading ? "Loading aging report..." : error || "No client balances were open on this date."}
+          </p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-semibold">Receivables Aging</h3>
+          <p className="text-sm text-muted-foreground">
+            Client balances open on this date, by days since the job was invoiced. Insurer shares are on the
+            insurance page.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleExport}>
+          <Download className="mr-2 h-4 w-4" />
+          Export CSV
+        </Button>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Client</TableHead>
+              <TableHead className="text-right">Open Invoices</TableHead>
+              {AGING_BUCKETS.map((bucket) => (
+                <TableHead key={bucket} className="text-right">
+                  {AGING_BUCKET_LABELS[bucket]}
+                </TableHead>
+              ))}
+              <TableHead className="text-right">Total</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.clientId}>
+                <TableCell>
+                  <Link href={`/clients/${row.clientId}`} className="text-blue-600 hover:underline">
+                    {row.clientName}
+                  </Link>
+                </TableCell>
+                <TableCell className="text-right">{row.openInvoices}</TableCell>
+                {AGING_BUCKETS.map((bucket) => (
+                  <TableCell
+                    key={bucket}
+                    className={`text-right ${bucket === "90+" && row.buckets[bucket] > 0 ? "text-red-500 font-medium" : ""}`}
+                  >
+                    {row.buckets[bucket] ? formatCurrency(row.buckets[bucket]) : "-"}
+                  </TableCell>
+                ))}
+                <TableCell className="text-right font-medium">{formatCurrency(row.total)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+          <TableFooter>
+            <TableRow>
+              <TableCell>Total: {rows.length}</TableCell>
+              <TableCell className="text-right">{rows.reduce((sum, row) => sum + row.openInvoices, 0)}</TableCell>
+              {AGING_BUCKETS.map((bucket) => (
+                <TableCell key={bucket} className="text-right">
+                  {formatCurrency(totals[bucket])}
+                </TableCell>
+              ))}
+              <TableCell className="text-right">{formatCurrency(grandTotal)}</TableCell>
+            </TableRow>
+          </TableFooter>
+        </Table>
+      </div>
+    </div>
+  )
+}
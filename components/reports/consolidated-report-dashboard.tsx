@@ -12,6 +12,7 @@ import { getDailyReportData } from "@/lib/actions"
 import { formatCurrency } from "@/lib/utils"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { ConsolidatedTable } from "@/components/reports/consolidated-table"
+import { TaxSummary, summarizeTax } from "@/components/reports/tax-summary"
 
 // Helper function to get current date in Lebanon timezone (from existing code)
 function getLebanonDate() {
@@ -387,6 +388,7 @@ export function ConsolidatedReportDashboard() {
         totalPayments: reportData.totalPayments || 0,
         maintenance: reportData.maintenance?.length || 0,
       },
+      taxSummary: summarizeTax(reportData.maintenance || []),
       consolidated: consolidatedData,
       newCars: reportData.newCars || [],
       services: reportData.services || [],
@@ -567,14 +569,24 @@ export function ConsolidatedReportDashboard() {
           </CardContent>
         </Card>
       ) : consolidatedData.length > 0 ? (
-        <ConsolidatedTable 
-          data={consolidatedData} 
-          dateInfo={{
-            isDateRange: isDateRangeMode,
-            singleDate: selectedDate,
-            dateRange: dateRange
-          }}
-        />
+        <div className="space-y-6">
+          <TaxSummary
+            maintenance={reportData?.maintenance || []}
+            periodLabel={
+              isDateRangeMode
+                ? `${format(dateRange.start, "MMM d, yyyy")} to ${format(dateRange.end, "MMM d, yyyy")}`
+                : format(selectedDate, "MMMM d, yyyy")
+            }
+          />
+          <ConsolidatedTable 
+            data={consolidatedData} 
+            dateInfo={{
+              isDateRange: isDateRangeMode,
+              singleDate: selectedDate,
+              dateRange: dateRange
+            }}
+          />
+        </div>
       ) : (
         <Card>
           <CardContent className="pt-6">
@@ -10,7 +10,8 @@ import { ScrollableDialogBody } from "@/components/ui/scrollable-dialog"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
 import { ChevronDown, ChevronRight, Eye, FileText } from "lucide-react"
-import { formatCurrency, formatDate } from "@/lib/utils"
+import { formatDate } from "@/lib/utils"
+import { useFormatCurrency } from "@/components/settings/settings-provider"
 import { DataExport } from "@/components/reports/data-export"
 import { cn } from "@/lib/utils"
 
@@ -24,6 +25,7 @@ export interface ConsolidatedTableProps {
 }
 
 export function ConsolidatedTable({ data, dateInfo }: ConsolidatedTableProps) {
+  const formatCurrency = useFormatCurrency()
   const [selectedItem, setSelectedItem] = useState<any | null>(null)
   const [expandedCars, setExpandedCars] = useState<Set<string>>(new Set())
 
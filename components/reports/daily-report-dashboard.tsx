@@ -12,9 +12,10 @@ import { NewCarsReport } from "@/components/reports/new-cars-report"
 import { ServicesReport } from "@/components/reports/services-report"
 import { ProductsReport } from "@/components/reports/products-report"
 import { PaymentsReport } from "@/components/reports/payments-report"
+import { AgingReport } from "@/components/reports/aging-report"
 import { MaintenanceReport } from "@/components/reports/maintenance-report"
 import { getDailyReportData } from "@/lib/actions"
-import { formatCurrency } from "@/lib/utils"
+import { useFormatCurrency } from "@/components/settings/settings-provider"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 
 // Helper function to get current date in Lebanon timezone
@@ -33,6 +34,7 @@ function getLebanonDate() {
 }
 
 export function DailyReportDashboard() {
+  const formatCurrency = useFormatCurrency()
   const [selectedDate, setSelectedDate] = useState<Date>(getLebanonDate())
   const [isLoading, setIsLoading] = useState(true)
   const [reportData, setReportData] = useState<any>(null)
@@ -236,12 +238,13 @@ export function DailyReportDashboard() {
           </div>
 
           <Tabs defaultValue="maintenance">
-            <TabsList className="grid grid-cols-5 w-full">
+            <TabsList className="grid grid-cols-6 w-full">
               <TabsTrigger value="maintenance">Maintenance</TabsTrigger>
               <TabsTrigger value="cars">New Cars</TabsTrigger>
               <TabsTrigger value="services">Services</TabsTrigger>
               <TabsTrigger value="products">Products</TabsTrigger>
               <TabsTrigger value="payments">Payments</TabsTrigger>
+              <TabsTrigger value="aging">Receivables</TabsTrigger>
             </TabsList>
 
             <TabsContent value="maintenance" className="mt-4">
@@ -263,6 +266,10 @@ export function DailyReportDashboard() {
             <TabsContent value="payments" className="mt-4">
               <PaymentsReport data={reportData.payments || []} />
             </TabsContent>
+
+            <TabsContent value="aging" className="mt-4">
+              <AgingReport date={format(selectedDate, "yyyy-MM-dd")} />
+            </TabsContent>
           </Tabs>
         </>
       ) : (
@@ -4,6 +4,7 @@ import { useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Download } from "lucide-react"
 import { formatCellValue, getAllUniqueKeys, filterDisplayKeys } from "@/lib/utils/table-utils"
+import { useFormatCurrencyForCsv } from "@/components/settings/settings-provider"
 
 interface DataExportProps {
   data: any[]
@@ -11,6 +12,7 @@ interface DataExportProps {
 }
 
 export function DataExport({ data, filename = "export" }: DataExportProps) {
+  const formatCurrencyForCsv = useFormatCurrencyForCsv()
   const [isExporting, setIsExporting] = useState(false)
 
   const handleExport = () => {
@@ -58,7 +60,7 @@ export function DataExport({ data, filename = "export" }: DataExportProps) {
           key.includes('fee')
         ) {
           if (typeof value === 'number') {
-            return `$${value.toFixed(2)}`
+            return formatCurrencyForCsv(value)
           }
         }
         
@@ -19,7 +19,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 import Link from "next/link"
-import { formatCurrency } from "@/lib/utils"
+import { useFormatCurrency } from "@/components/settings/settings-provider"
 
 // Extended LogEntry type to include enriched data
 type EnrichedLogEntry = LogEntry & {
@@ -52,6 +52,7 @@ interface LogsTableProps {
 }
 
 export function LogsTable({ logs: initialLogs }: LogsTableProps) {
+  const formatCurrency = useFormatCurrency()
   // Helper function to safely parse JSON
   // Helper function to format JSON in a human-readable way
   const tryParseJSON = (jsonString: string | null | undefined) => {
@@ -1109,7 +1110,7 @@ export function LogsTable({ logs: initialLogs }: LogsTableProps) {
                                             <tr key={index} className="border-b border-gray-100 dark:border-gray-800">
                                               <td className="py-1">{service.name}</td>
                                               <td className="text-center py-1">{service.quantity}</td>
-                                              <td className="text-right py-1">${service.cost}</td>
+                                              <td className="text-right py-1">{formatCurrency(service.cost)}</td>
                                             </tr>
                                           ))}
                                           <tr className="font-semibold">
@@ -1118,7 +1119,7 @@ export function LogsTable({ logs: initialLogs }: LogsTableProps) {
                                               {log.maintenanceDetails.serviceDetails.reduce((sum, service) => sum + service.quantity, 0)}
                                             </td>
                                             <td className="text-right py-1">
-                                              ${log.maintenanceDetails.serviceDetails.reduce((sum, service) => sum + service.cost, 0)}
+                                              {formatCurrency(log.maintenanceDetails.serviceDetails.reduce((sum, service) => sum + service.cost, 0))}
                                             </td>
                                           </tr>
                                         </tbody>
@@ -1142,7 +1143,7 @@ export function LogsTable({ logs: initialLogs }: LogsTableProps) {
                                             <tr key={index} className="border-b border-gray-100 dark:border-gray-800">
                                               <td className="py-1">{product.name}</td>
                                               <td className="text-center py-1">{product.quantity}</td>
-                                              <td className="text-right py-1">${product.cost}</td>
+                                              <td className="text-right py-1">{formatCurrency(product.cost)}</td>
                                             </tr>
                                           ))}
                                           <tr className="font-semibold">
@@ -1151,7 +1152,7 @@ export function LogsTable({ logs: initialLogs }: LogsTableProps) {
                                               {log.maintenanceDetails.productDetails.reduce((sum, product) => sum + product.quantity, 0)}
                                             </td>
                                             <td className="text-right py-1">
-                                              ${log.maintenanceDetails.productDetails.reduce((sum, product) => sum + product.cost, 0)}
+                                              {formatCurrency(log.maintenanceDetails.productDetails.reduce((sum, product) => sum + product.cost, 0))}
                                             </td>
                                           </tr>
                                         </tbody>
@@ -1191,7 +1192,7 @@ export function LogsTable({ logs: initialLogs }: LogsTableProps) {
                                     <tr key={idx} className="border-b border-muted">
                                       <td className="py-1 px-2">{service.name}</td>
                                       <td className="text-center py-1 px-2">{service.quantity}</td>
-                                      <td className="text-right py-1 px-2">${service.cost}</td>
+                                      <td className="text-right py-1 px-2">{formatCurrency(service.cost)}</td>
                                     </tr>
                                   ))}
                                   <tr className="font-medium">
@@ -1200,7 +1201,7 @@ export function LogsTable({ logs: initialLogs }: LogsTableProps) {
                                       {log.maintenanceDetails.serviceDetails.reduce((sum, service) => sum + service.quantity, 0)}
                                     </td>
                                     <td className="text-right py-1 px-2">
-                                      ${log.maintenanceDetails.serviceDetails.reduce((sum, service) => sum + service.cost, 0).toFixed(2)}
+                                      {formatCurrency(log.maintenanceDetails.serviceDetails.reduce((sum, service) => sum + service.cost, 0))}
                                     </td>
                                   </tr>
                                 </tbody>
@@ -1228,7 +1229,7 @@ export function LogsTable({ logs: initialLogs }: LogsTableProps) {
                                       <td className="py-1 px-2">{product.name}</td>
                                       <td className="text-center py-1 px-2">{product.quantity}</td>
                                       <td className="text-center py-1 px-2">{product.stockSource}</td>
-                                      <td className="text-right py-1 px-2">${product.cost}</td>
+                                      <td className="text-right py-1 px-2">{formatCurrency(product.cost)}</td>
                                     </tr>
                                   ))}
                                   <tr className="font-medium">
@@ -1238,7 +1239,7 @@ export function LogsTable({ logs: initialLogs }: LogsTableProps) {
                                     </td>
                                     <td className="text-center py-1 px-2"></td>
                                     <td className="text-right py-1 px-2">
-                                      ${log.maintenanceDetails.productDetails.reduce((sum, product) => sum + product.cost, 0).toFixed(2)}
+                                      {formatCurrency(log.maintenanceDetails.productDetails.reduce((sum, product) => sum + product.cost, 0))}
                                     </td>
                                   </tr>
                                 </tbody>
@@ -1252,10 +1253,10 @@ export function LogsTable({ logs: initialLogs }: LogsTableProps) {
                           <div className="bg-primary/10 dark:bg-primary/20 px-4 py-2 rounded-md">
                             <p className="text-sm font-semibold flex justify-between">
                               <span>Total Value:</span>
-                              <span className="ml-6">${(
+                              <span className="ml-6">{formatCurrency((
                                 (log.maintenanceDetails.serviceDetails?.reduce((sum, service) => sum + service.cost, 0) || 0) +
                                 (log.maintenanceDetails.productDetails?.reduce((sum, product) => sum + product.cost, 0) || 0)
-                              ).toFixed(2)}</span>
+                              ))}</span>
                             </p>
                           </div>
                         </div>
@@ -1269,24 +1270,24 @@ export function LogsTable({ logs: initialLogs }: LogsTableProps) {
                       <div className="grid grid-cols-3 gap-4">
                         <div className="space-y-1">
                           <p className="text-xs text-muted-foreground">Payment Amount</p>
-                          <p className="text-sm">${log.paymentAmount}</p>
+                          <p className="text-sm">{formatCurrency(log.paymentAmount)}</p>
                         </div>
                         {log.discount && (
                           <div className="space-y-1">
                             <p className="text-xs text-muted-foreground">Discount</p>
-                            <p className="text-sm">${log.discount}</p>
+                            <p className="text-sm">{formatCurrency(log.discount)}</p>
                           </div>
                         )}
                         {log.additionalFees && (
                           <div className="space-y-1">
                             <p className="text-xs text-muted-foreground">Additional Fees</p>
-                            <p className="text-sm">${log.additionalFees}</p>
+                            <p className="text-sm">{formatCurrency(log.additionalFees)}</p>
                           </div>
                         )}
                         {log.remainingBalance && (
                           <div className="space-y-1">
                             <p className="text-xs text-muted-foreground">Remaining Balance</p>
-                            <p className="text-sm">${log.remainingBalance}</p>
+                            <p className="text-sm">{formatCurrency(log.remainingBalance)}</p>
                           </div>
                         )}
                       </div>
@@ -1363,16 +1364,16 @@ export function LogsTable({ logs: initialLogs }: LogsTableProps) {
     <span key="total-table"></span>,
     <span key="total-client"></span>,
     <span key="total-car"></span>,
-    <span key="total-payment">${logs.reduce((sum, log) => sum + (log.paymentAmount || 0), 0).toFixed(2)}</span>,
+    <span key="total-payment">{formatCurrency(logs.reduce((sum, log) => sum + (log.paymentAmount || 0), 0))}</span>,
     <span key="total-admin"></span>,
-    <span key="total-maintenance">${logs.reduce((sum, log) => {
+    <span key="total-maintenance">{formatCurrency(logs.reduce((sum, log) => {
       if (log.tableName === "maintenance" && log.maintenanceId && log.maintenanceDetails) {
         const servicesCost = log.maintenanceDetails.serviceDetails?.reduce((total, service) => total + service.cost, 0) || 0;
         const productsCost = log.maintenanceDetails.productDetails?.reduce((total, product) => total + product.cost, 0) || 0;
         return sum + servicesCost + productsCost;
       }
       return sum;
-    }, 0).toFixed(2)}</span>,
+    }, 0))}</span>,
     <span key="total-time"></span>
   ]
 
@@ -11,13 +11,15 @@ import { Badge } from "@/components/ui/badge"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { ScrollableDialogBody } from "@/components/ui/scrollable-dialog"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { formatCurrency } from "@/lib/utils"
+import { useFormatCurrency, useFormatCurrencyForCsv } from "@/components/settings/settings-provider"
 
 interface MaintenanceReportProps {
   data: any[]
 }
 
 export function MaintenanceReport({ data }: MaintenanceReportProps) {
+  const formatCurrency = useFormatCurrency()
+  const formatCurrencyForCsv = useFormatCurrencyForCsv()
   const [isExporting, setIsExporting] = useState(false)
   const [selectedMaintenance, setSelectedMaintenance] = useState<any | null>(null)
 
@@ -123,7 +125,7 @@ export function MaintenanceReport({ data }: MaintenanceReportProps) {
           .map((col) => {
             const key = col.accessorKey as string
             if (key === "totalCost" || key === "paidAmount" || key === "remainingBalance") {
-              return `$${item[key].toFixed(2)}`
+              return formatCurrencyForCsv(item[key])
             }
             return item[key] || ""
           }),
@@ -8,13 +8,15 @@ import { Button } from "@/components/ui/button"
 import { Download } from "lucide-react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { formatCurrency } from "@/lib/utils"
+import { useFormatCurrency, useFormatCurrencyForCsv } from "@/components/settings/settings-provider"
 
 interface PaymentsReportProps {
   data: any[]
 }
 
 export function PaymentsReport({ data }: PaymentsReportProps) {
+  const formatCurrency = useFormatCurrency()
+  const formatCurrencyForCsv = useFormatCurrencyForCsv()
   const [isExporting, setIsExporting] = useState(false)
 
   const columns: ColumnDef<any>[] = [
@@ -27,6 +29,13 @@ export function PaymentsReport({ data }: PaymentsReportProps) {
       header: "Amount",
       cell: ({ row }) => formatCurrency(row.getValue("amount")),
     },
+    {
+      // Set when the payment was taken in a secondary currency; Amount is always the converted value
+      accessorKey: "foreignAmount",
+      header: "Original Amount",
+      cell: ({ row }) =>
+        row.original.currency ? formatCurrency(row.getValue("foreignAmount"), row.original.currency) : "-",
+    },
     {
       accessorKey: "paymentMethod",
       header: "Payment Method",
@@ -94,7 +103,10 @@ export function PaymentsReport({ data }: PaymentsReportProps) {
             return new Date(item[key]).toLocaleString()
           }
           if (key === "amount" || key === "remainingBalance") {
-            return `$${item[key].toFixed(2)}`
+            return formatCurrencyForCsv(item[key])
+          }
+          if (key === "foreignAmount") {
+            return item.currency ? formatCurrencyForCsv(item[key], item.currency) : ""
           }
           return item[key] || ""
         }),
@@ -8,13 +8,15 @@ import { Button } from "@/components/ui/button"
 import { Download } from "lucide-react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { formatCurrency } from "@/lib/utils"
+import { useFormatCurrency, useFormatCurrencyForCsv } from "@/components/settings/settings-provider"
 
 interface ProductsReportProps {
   data: any[]
 }
 
 export function ProductsReport({ data }: ProductsReportProps) {
+  const formatCurrency = useFormatCurrency()
+  const formatCurrencyForCsv = useFormatCurrencyForCsv()
   const [isExporting, setIsExporting] = useState(false)
 
   const columns: ColumnDef<any>[] = [
@@ -98,7 +100,7 @@ export function ProductsReport({ data }: ProductsReportProps) {
             return new Date(item[key]).toLocaleString()
           }
           if (key === "unitPrice" || key === "totalCost") {
-            return `$${item[key].toFixed(2)}`
+            return formatCurrencyForCsv(item[key])
           }
           return item[key] || ""
         }),
@@ -7,13 +7,15 @@ import { AdvancedDataTable } from "@/components/ui/advanced-data-table"
 import { Button } from "@/components/ui/button"
 import { Download } from "lucide-react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { formatCurrency } from "@/lib/utils"
+import { useFormatCurrency, useFormatCurrencyForCsv } from "@/components/settings/settings-provider"
 
 interface ServicesReportProps {
   data: any[]
 }
 
 export function ServicesReport({ data }: ServicesReportProps) {
+  const formatCurrency = useFormatCurrency()
+  const formatCurrencyForCsv = useFormatCurrencyForCsv()
   const [isExporting, setIsExporting] = useState(false)
 
   const columns: ColumnDef<any>[] = [
@@ -85,7 +87,7 @@ export function ServicesReport({ data }: ServicesReportProps) {
             return new Date(item[key]).toLocaleString()
           }
           if (key === "unitPrice" || key === "totalCost") {
-            return `$${item[key].toFixed(2)}`
+            return formatCurrencyForCsv(item[key])
           }
           return item[key] || ""
         }),
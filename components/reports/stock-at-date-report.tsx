@@ -0,0 +1,107 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useSettings, useFormatCurrency } from "@/components/settings/settings-provider"
+import { getStockAtDate } from "@/lib/actions"
+import { COSTING_METHOD_LABELS } from "@/lib/costing"
+import type { StockAtDate } from "@/lib/stock-movements"
+
+// Stock levels and their value at cost, rebuilt from the movement ledger for the end of a chosen day
+export function StockAtDateReport() {
+  const formatCurrency = useFormatCurrency()
+  const { general } = useSettings()
+  const [date, setDate] = useState(format(new Date(), "yyyy-MM-dd"))
+  const [rows, setRows] = useState<StockAtDate[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadReport = async () => {
+      if (!date) return
+      setIsLoading(true)
+      const response = await getStockAtDate(date)
+      if (response.success && response.data) {
+        setRows(response.data)
+        setError(null)
+      } else {
+        setError(response.error || "Failed to load stock levels")
+      }
+      setIsLoading(false)
+    }
+
+    loadReport()
+  }, [date])
+
+  const totals = rows.reduce(
+    (sum, row) => ({
+      warehouseStock: sum.warehouseStock + row.warehouseStock,
+      shopStock: sum.shopStock + row.shopStock,
+      value: sum.value + row.value,
+    }),
+    { warehouseStock: 0, shopStock: 0, value: 0 }
+  )
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Stock Valuation at Date</CardTitle>
+          <CardDescription>
+            Stock held at the end of the day, worked back from today&apos;s figures through the stock movements
+            recorded since. Valued at cost ({COSTING_METHOD_LABELS[general.costingMethod]}).
+          </CardDescription>
+        </div>
+        <Input
+          type="date"
+          className="w-44"
+          value={date}
+          max={format(new Date(), "yyyy-MM-dd")}
+          onChange={(event) => setDate(event.target.value)}
+        />
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <div className="p-4 border border-destructive/50 rounded-md bg-destructive/10 text-destructive">{error}</div>
+        ) : isLoading ? (
+          <p className="text-center py-4 text-muted-foreground">Loading stock levels...</p>
+        ) : rows.length === 0 ? (
+          <p className="text-center py-4 text-muted-foreground">No products existed on this date</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead className="text-right">Warehouse</TableHead>
+                <TableHead className="text-right">Shop</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead className="text-right">Value</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.productId}>
+                  <TableCell className="font-medium">{row.productName}</TableCell>
+                  <TableCell className="text-right">{row.warehouseStock}</TableCell>
+                  <TableCell className="text-right">{row.shopStock}</TableCell>
+                  <TableCell className="text-right">{row.warehouseStock + row.shopStock}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(row.value)}</TableCell>
+                </TableRow>
+              ))}
+              <TableRow className="font-medium">
+                <TableCell>Total</TableCell>
+                <TableCell className="text-right">{totals.warehouseStock}</TableCell>
+                <TableCell className="text-right">{totals.shopStock}</TableCell>
+                <TableCell className="text-right">{totals.warehouseStock + totals.shopStock}</TableCell>
+                <TableCell className="text-right">{formatCurrency(totals.value)}</TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
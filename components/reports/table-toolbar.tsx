@@ -1,7 +1,7 @@
 "use client"
 
 import { Card, CardContent } from "@/components/ui/card"
-import { formatCurrency } from "@/lib/utils"
+import { useFormatCurrency } from "@/components/settings/settings-provider"
 
 interface ReportSummary {
   date: string
@@ -17,6 +17,7 @@ export interface TableToolbarProps {
 }
 
 export function TableToolbar({ report }: TableToolbarProps) {
+  const formatCurrency = useFormatCurrency()
   return (
     <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
       <Card>
@@ -0,0 +1,114 @@
+"use client"
+
+import { useMemo } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { roundCurrency } from "@/lib/utils"
+import { useFormatCurrency } from "@/components/settings/settings-provider"
+
+export type TaxSummaryRow = {
+  taxRate: number
+  requests: number
+  netSales: number
+  taxableAmount: number
+  taxAmount: number
+  grossSales: number
+}
+
+// Group maintenance requests by the tax rate they were charged at. Requests created
+// before tax was tracked have no stored rate and are reported as untaxed.
+export function summarizeTax(maintenance: any[]): TaxSummaryRow[] {
+  const rows = new Map<number, TaxSummaryRow>()
+
+  maintenance
+    .filter((request) => request.status !== "cancelled")
+    .forEach((request) => {
+      const taxRate = Number(request.taxRate) || 0
+      const taxAmount = Number(request.taxAmount) || 0
+      const grossSales = Number(request.totalCost) || 0
+      const row = rows.get(taxRate) || {
+        taxRate,
+        requests: 0,
+        netSales: 0,
+        taxableAmount: 0,
+        taxAmount: 0,
+        grossSales: 0,
+      }
+
+      row.requests += 1
+      row.netSales = roundCurrency(row.netSales + (request.subtotal ?? grossSales - taxAmount))
+      row.taxableAmount = roundCurrency(row.taxableAmount + (Number(request.taxableAmount) || 0))
+      row.taxAmount = roundCurrency(row.taxAmount + taxAmount)
+      row.grossSales = roundCurrency(row.grossSales + grossSales)
+      rows.set(taxRate, row)
+    })
+
+  return Array.from(rows.values()).sort((a, b) => b.taxRate - a.taxRate)
+}
+
+export function TaxSummary({ maintenance, periodLabel }: { maintenance: any[]; periodLabel: string }) {
+  const formatCurrency = useFormatCurrency()
+  const rows = useMemo(() => summarizeTax(maintenance || []), [maintenance])
+
+  const totals = rows.reduce(
+    (sum, row) => ({
+      requests: sum.requests + row.requests,
+      netSales: roundCurrency(sum.netSales + row.netSales),
+      taxableAmount: roundCurrency(sum.taxableAmount + row.taxableAmount),
+      taxAmount: roundCurrency(sum.taxAmount + row.taxAmount),
+      grossSales: roundCurrency(sum.grossSales + row.grossSales),
+    }),
+    { requests: 0, netSales: 0, taxableAmount: 0, taxAmount: 0, grossSales: 0 },
+  )
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">Tax Summary</CardTitle>
+        <CardDescription>
+          Tax charged on maintenance requests for {periodLabel}, grouped by rate. Cancelled requests are excluded.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No maintenance requests in this period.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Rate</TableHead>
+                <TableHead className="text-right">Requests</TableHead>
+                <TableHead className="text-right">Net Sales</TableHead>
+                <TableHead className="text-right">Taxable Amount</TableHead>
+                <TableHead className="text-right">Tax</TableHead>
+                <TableHead className="text-right">Gross Sales</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.taxRate}>
+                  <TableCell>{row.taxRate ? `${row.taxRate}%` : "Untaxed"}</TableCell>
+                  <TableCell className="text-right">{row.requests}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(row.netSales)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(row.taxableAmount)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(row.taxAmount)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(row.grossSales)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell className="font-medium">Total</TableCell>
+                <TableCell className="text-right">{totals.requests}</TableCell>
+                <TableCell className="text-right">{formatCurrency(totals.netSales)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(totals.taxableAmount)}</TableCell>
+                <TableCell className="text-right font-medium">{formatCurrency(totals.taxAmount)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(totals.grossSales)}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
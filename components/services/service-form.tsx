@@ -6,7 +6,7 @@ import { useForm } from "react-hook-form"
 import * as z from "zod"
 import type { Service } from "@/lib/db"
 import { Button } from "@/components/ui/button"
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
 import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
 import { WifiOff } from "lucide-react"
@@ -24,6 +24,17 @@ const serviceSchema = z.object({
   standardFee: z.coerce.number().min(0, {
     message: "Standard fee must be a positive number.",
   }),
+  // 0 means the service isn't repeated on that basis
+  intervalKm: z.coerce.number().int().min(0, {
+    message: "Interval must be 0 or more.",
+  }),
+  intervalMonths: z.coerce.number().int().min(0, {
+    message: "Interval must be 0 or more.",
+  }),
+  // Book time the labour report compares clocked time against, 0 = not tracked
+  standardHours: z.coerce.number().min(0, {
+    message: "Standard time must be 0 or more.",
+  }),
 })
 
 export type ServiceFormValues = z.infer<typeof serviceSchema>
@@ -47,6 +58,9 @@ export function ServiceForm({ service, onSubmit, onCancel, isLoading: externalLo
       name: service?.name || "",
       description: service?.description || "",
       standardFee: service?.standardFee || 0,
+      intervalKm: service?.intervalKm || 0,
+      intervalMonths: service?.intervalMonths || 0,
+      standardHours: service?.standardHours || 0,
     },
   })
 
@@ -62,7 +76,7 @@ export function ServiceForm({ service, onSubmit, onCancel, isLoading: externalLo
       
       // Use the appropriate HTTP method based on the operation
       const response = service?.id
-        ? await api.put(endpoint, values)
+        ? await api.put(endpoint, values, { baseVersion: service.updatedAt })
         : await api.post(endpoint, values);
       
       if (response.error) {
@@ -138,19 +152,68 @@ export function ServiceForm({ service, onSubmit, onCancel, isLoading: externalLo
           )}
         />
 
-        <FormField
-          control={form.control}
-          name="standardFee"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>Standard Fee ($)</FormLabel>
-              <FormControl>
-                <Input type="number" min={0} step={0.01} {...field} />
-              </FormControl>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="standardFee"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Standard Fee ($)</FormLabel>
+                <FormControl>
+                  <Input type="number" min={0} step={0.01} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="standardHours"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Standard Time (hours)</FormLabel>
+                <FormControl>
+                  <Input type="number" min={0} step={0.25} {...field} />
+                </FormControl>
+                <FormDescription>0 if labour time isn't tracked</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="intervalKm"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Repeat every (km)</FormLabel>
+                <FormControl>
+                  <Input type="number" min={0} step={500} {...field} />
+                </FormControl>
+                <FormDescription>0 for no distance interval</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="intervalMonths"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Repeat every (months)</FormLabel>
+                <FormControl>
+                  <Input type="number" min={0} step={1} {...field} />
+                </FormControl>
+                <FormDescription>0 for no time interval</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
 
         <div className="flex justify-end gap-2">
           <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting || externalLoading}>
@@ -1,10 +1,13 @@
 "use client"
 
 import { useState } from "react"
+import { useRouter } from "next/navigation"
 import type { ColumnDef } from "@tanstack/react-table"
 import { Trash2, Plus } from "lucide-react"
 import type { Service } from "@/lib/db"
 import { AdvancedDataTable } from "@/components/ui/advanced-data-table"
+import { StaleDataNotice } from "@/components/stale-data-notice"
+import { useCachedCollection } from "@/lib/offline-collections"
 import { Button } from "@/components/ui/button"
 import { ServiceForm } from "@/components/services/service-form"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
@@ -19,16 +22,21 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog"
-import { createService, deleteService, updateServiceField } from "@/lib/actions"
+import { deleteService, updateServiceField } from "@/lib/actions"
 import { toast } from "@/components/ui/use-toast"
 import { ScrollableDialogBody } from "@/components/ui/scrollable-dialog"
 import { EditableCell } from "@/components/ui/editable-cell"
+import { formatDistance } from "@/lib/service-reminders"
+import { formatHours } from "@/lib/labour"
 
 interface ServicesTableProps {
   services: Service[]
 }
 
-export function ServicesTable({ services }: ServicesTableProps) {
+export function ServicesTable({ services: serverServices }: ServicesTableProps) {
+  // Falls back to the offline cache when there is no connection
+  const { data: services, staleSince } = useCachedCollection("services", serverServices)
+  const router = useRouter()
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
 
@@ -59,33 +67,10 @@ export function ServicesTable({ services }: ServicesTableProps) {
     }
   }
 
-  const handleSubmit = async (service: Partial<Service>) => {
-    setIsLoading(true)
-    try {
-      const result = await createService(service)
-
-      if (result.success) {
-        toast({
-          title: "Service created",
-          description: `${service.name} has been created successfully.`,
-        })
-        setIsAddDialogOpen(false)
-      } else {
-        toast({
-          title: "Error",
-          description: result.error,
-          variant: "destructive",
-        })
-      }
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "An unexpected error occurred.",
-        variant: "destructive",
-      })
-    } finally {
-      setIsLoading(false)
-    }
+  // ServiceForm saves through the API itself; reload the list it came from
+  const handleSubmit = () => {
+    setIsAddDialogOpen(false)
+    router.refresh()
   }
 
   const handleUpdateField = async (id: string, field: string, value: string | number) => {
@@ -142,6 +127,57 @@ export function ServicesTable({ services }: ServicesTableProps) {
       },
       filterFn: "numberRange",
     },
+    {
+      accessorKey: "standardHours",
+      header: "Standard Time",
+      cell: ({ row }) => {
+        const service = row.original
+        return (
+          <EditableCell
+            value={service.standardHours || 0}
+            inputType="number"
+            formatter={(value) => (Number(value) > 0 ? formatHours(Number(value)) : "-")}
+            onSave={async (value) => {
+              await handleUpdateField(service.id, "standardHours", value)
+            }}
+          />
+        )
+      },
+    },
+    {
+      accessorKey: "intervalKm",
+      header: "Interval (km)",
+      cell: ({ row }) => {
+        const service = row.original
+        return (
+          <EditableCell
+            value={service.intervalKm || 0}
+            inputType="number"
+            formatter={(value) => (Number(value) > 0 ? formatDistance(Number(value)) : "-")}
+            onSave={async (value) => {
+              await handleUpdateField(service.id, "intervalKm", value)
+            }}
+          />
+        )
+      },
+    },
+    {
+      accessorKey: "intervalMonths",
+      header: "Interval (months)",
+      cell: ({ row }) => {
+        const service = row.original
+        return (
+          <EditableCell
+            value={service.intervalMonths || 0}
+            inputType="number"
+            formatter={(value) => (Number(value) > 0 ? `${value} mo` : "-")}
+            onSave={async (value) => {
+              await handleUpdateField(service.id, "intervalMonths", value)
+            }}
+          />
+        )
+      },
+    },
     {
       accessorKey: "createdAt",
       header: "Created At",
@@ -196,11 +232,15 @@ export function ServicesTable({ services }: ServicesTableProps) {
       <td className="p-2">${totalFees.toFixed(2)}</td>
       <td className="p-2"></td>
       <td className="p-2"></td>
+      <td className="p-2"></td>
+      <td className="p-2"></td>
+      <td className="p-2"></td>
     </tr>
   )
 
   return (
-    <div>
+    <div className="space-y-4">
+      <StaleDataNotice since={staleSince} />
       <div className="flex justify-end mb-4">
         <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
           <DialogTrigger asChild>
@@ -215,7 +255,7 @@ export function ServicesTable({ services }: ServicesTableProps) {
             </DialogHeader>
             <ScrollableDialogBody>
               <ServiceForm
-                onSubmit={(data) => handleSubmit(data)}
+                onSubmit={handleSubmit}
                 onCancel={() => setIsAddDialogOpen(false)}
                 isLoading={isLoading}
               />
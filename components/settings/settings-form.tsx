@@ -9,10 +9,18 @@ import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, For
 import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
 import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { toast } from "@/components/ui/use-toast"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { DatabaseBackup } from "@/components/settings/database-backup"
+import { UserManagement } from "@/components/settings/user-management"
+import { useSettings } from "@/components/settings/settings-provider"
+import { usePermission } from "@/components/auth/current-user-provider"
+import { updateSettings } from "@/lib/actions"
+import { COSTING_METHOD_LABELS } from "@/lib/costing"
+import { isCurrencyCode, parseCurrencyList } from "@/lib/currency"
+import type { CostingMethod, Settings, SettingsSection } from "@/lib/db"
 
 const generalSettingsSchema = z.object({
   garageName: z.string().min(2, {
@@ -28,6 +36,28 @@ const generalSettingsSchema = z.object({
     message: "Address must be at least 5 characters.",
   }),
   taxRate: z.coerce.number().min(0).max(100),
+  taxServices: z.boolean(),
+  taxParts: z.boolean(),
+  currency: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .refine(isCurrencyCode, { message: "Enter a valid 3-letter currency code, e.g. USD or EUR." }),
+  secondaryCurrencies: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .refine(
+      (value) => value.split(/[\s,;]+/).filter(Boolean).every(isCurrencyCode),
+      { message: "Enter valid 3-letter currency codes separated by commas, e.g. EUR, GBP." },
+    )
+    .transform((value) => parseCurrencyList(value).join(", ")),
+  defaultLowStockThreshold: z.coerce.number().int().min(1),
+  labourRate: z.coerce.number().min(0),
+  defaultLeadTimeDays: z.coerce.number().int().min(0),
+  safetyStockDays: z.coerce.number().int().min(0),
+  reorderCoverDays: z.coerce.number().int().min(1),
+  costingMethod: z.enum(["fifo", "weighted-average"]),
 })
 
 const notificationSettingsSchema = z.object({
@@ -36,10 +66,11 @@ const notificationSettingsSchema = z.object({
   lowStockAlerts: z.boolean(),
   paymentReminders: z.boolean(),
   maintenanceUpdates: z.boolean(),
+  policyExpiryAlertDays: z.coerce.number().int().min(1).max(365),
+  budgetAlertPercent: z.coerce.number().int().min(1).max(200),
 })
 
 const securitySettingsSchema = z.object({
-  twoFactorAuth: z.boolean(),
   sessionTimeout: z.coerce.number().min(5).max(120),
   passwordExpiryDays: z.coerce.number().min(0).max(365),
 })
@@ -48,80 +79,45 @@ export function SettingsForm() {
   const [activeTab, setActiveTab] = useState("general")
   const [isLoading, setIsLoading] = useState(false)
 
+  const settings = useSettings()
+  const canManageUsers = usePermission("users:view")
+
   const generalForm = useForm<z.infer<typeof generalSettingsSchema>>({
     resolver: zodResolver(generalSettingsSchema),
-    defaultValues: {
-      garageName: "Mechanic Garage",
-      email: "contact@mechanicgarage.com",
-      phone: "+1 (555) 123-4567",
-      address: "123 Main St, Anytown, CA 12345",
-      taxRate: 8.5,
-    },
+    defaultValues: settings.general,
   })
 
   const notificationForm = useForm<z.infer<typeof notificationSettingsSchema>>({
     resolver: zodResolver(notificationSettingsSchema),
-    defaultValues: {
-      emailNotifications: true,
-      smsNotifications: false,
-      lowStockAlerts: true,
-      paymentReminders: true,
-      maintenanceUpdates: true,
-    },
+    defaultValues: settings.notifications,
   })
 
   const securityForm = useForm<z.infer<typeof securitySettingsSchema>>({
     resolver: zodResolver(securitySettingsSchema),
-    defaultValues: {
-      twoFactorAuth: false,
-      sessionTimeout: 30,
-      passwordExpiryDays: 90,
-    },
+    defaultValues: settings.security,
   })
 
-  const onGeneralSubmit = async (values: z.infer<typeof generalSettingsSchema>) => {
-    setIsLoading(true)
-    try {
-      // In a real app, this would save to the database
-      console.log("General settings:", values)
-
-      // Simulate API call
-      await new Promise((resolve) => setTimeout(resolve, 1000))
-
-      toast({
-        title: "Settings updated",
-        description: "Your general settings have been updated successfully.",
-        variant: "success",
-      })
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Failed to update settings.",
-        variant: "destructive",
-      })
-    } finally {
-      setIsLoading(false)
-    }
-  }
-
-  const onNotificationSubmit = async (values: z.infer<typeof notificationSettingsSchema>) => {
+  const saveSettings = async <K extends SettingsSection>(
+    section: K,
+    values: Partial<Settings[K]>,
+    label: string,
+  ) => {
     setIsLoading(true)
     try {
-      // In a real app, this would save to the database
-      console.log("Notification settings:", values)
-
-      // Simulate API call
-      await new Promise((resolve) => setTimeout(resolve, 1000))
+      const response = await updateSettings(section, values)
+      if (!response.success) {
+        throw new Error(response.error || "Failed to update settings")
+      }
 
       toast({
         title: "Settings updated",
-        description: "Your notification settings have been updated successfully.",
+        description: `Your ${label} settings have been updated successfully.`,
         variant: "success",
       })
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to update settings.",
+        description: error instanceof Error ? error.message : "Failed to update settings.",
         variant: "destructive",
       })
     } finally {
@@ -129,37 +125,20 @@ export function SettingsForm() {
     }
   }
 
-  const onSecuritySubmit = async (values: z.infer<typeof securitySettingsSchema>) => {
-    setIsLoading(true)
-    try {
-      // In a real app, this would save to the database
-      console.log("Security settings:", values)
+  const onGeneralSubmit = (values: z.infer<typeof generalSettingsSchema>) => saveSettings("general", values, "general")
 
-      // Simulate API call
-      await new Promise((resolve) => setTimeout(resolve, 1000))
+  const onNotificationSubmit = (values: z.infer<typeof notificationSettingsSchema>) =>
+    saveSettings("notifications", values, "notification")
 
-      toast({
-        title: "Settings updated",
-        description: "Your security settings have been updated successfully.",
-        variant: "success",
-      })
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Failed to update settings.",
-        variant: "destructive",
-      })
-    } finally {
-      setIsLoading(false)
-    }
-  }
+  const onSecuritySubmit = (values: z.infer<typeof securitySettingsSchema>) => saveSettings("security", values, "security")
 
   return (
     <Tabs defaultValue="general" value={activeTab} onValueChange={setActiveTab}>
-      <TabsList className="grid w-full grid-cols-3">
+      <TabsList className={`grid w-full ${canManageUsers ? "grid-cols-4" : "grid-cols-3"}`}>
         <TabsTrigger value="general">General</TabsTrigger>
         <TabsTrigger value="notifications">Notifications</TabsTrigger>
         <TabsTrigger value="security">Security</TabsTrigger>
+        {canManageUsers && <TabsTrigger value="users">Users</TabsTrigger>}
       </TabsList>
 
       <TabsContent value="general">
@@ -241,6 +220,183 @@ export function SettingsForm() {
                   )}
                 />
 
+                <FormField
+                  control={generalForm.control}
+                  name="taxServices"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                      <div className="space-y-0.5">
+                        <FormLabel className="text-base">Tax Services</FormLabel>
+                        <FormDescription>Apply tax to labour lines and additional fees</FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={generalForm.control}
+                  name="taxParts"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                      <div className="space-y-0.5">
+                        <FormLabel className="text-base">Tax Parts</FormLabel>
+                        <FormDescription>
+                          Apply tax to product lines. Rate changes only affect new maintenance requests.
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={generalForm.control}
+                  name="currency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Currency</FormLabel>
+                      <FormControl>
+                        <Input maxLength={3} className="uppercase" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Base currency used for invoices, reports and all amounts shown in the app. Exchange rates are
+                        entered against it.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={generalForm.control}
+                  name="secondaryCurrencies"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Secondary Currencies</FormLabel>
+                      <FormControl>
+                        <Input placeholder="EUR, GBP" className="uppercase" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Also quoted on invoices and accepted for payments, converted with the rates on the finances page
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={generalForm.control}
+                  name="labourRate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Labour Rate (per hour)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} step={0.01} {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Charged on jobs billed by hours worked. Jobs keep the rate they were switched to hourly billing with.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={generalForm.control}
+                  name="defaultLowStockThreshold"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Default Low Stock Threshold</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} step={1} {...field} />
+                      </FormControl>
+                      <FormDescription>Suggested threshold for newly added products</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <FormField
+                    control={generalForm.control}
+                    name="defaultLeadTimeDays"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Supplier Lead Time (days)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} step={1} {...field} />
+                        </FormControl>
+                        <FormDescription>Used for suppliers without their own lead time</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={generalForm.control}
+                    name="safetyStockDays"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Safety Stock (days)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} step={1} {...field} />
+                        </FormControl>
+                        <FormDescription>Extra usage kept in stock in case a delivery is late</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={generalForm.control}
+                    name="reorderCoverDays"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Reorder Cover (days)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={1} step={1} {...field} />
+                        </FormControl>
+                        <FormDescription>Usage a suggested order should last for</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={generalForm.control}
+                  name="costingMethod"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Stock Costing Method</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {(Object.keys(COSTING_METHOD_LABELS) as CostingMethod[]).map((method) => (
+                            <SelectItem key={method} value={method}>
+                              {COSTING_METHOD_LABELS[method]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        How parts used on jobs are costed and stock is valued. A change applies to stock used from
+                        then on.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <Button type="submit" disabled={isLoading}>
                   {isLoading ? "Saving..." : "Save Changes"}
                 </Button>
@@ -339,6 +495,40 @@ export function SettingsForm() {
                   )}
                 />
 
+                <FormField
+                  control={notificationForm.control}
+                  name="policyExpiryAlertDays"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Policy Expiry Alerts (days)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} max={365} {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Insurance policies expiring within this many days are listed on the dashboard
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={notificationForm.control}
+                  name="budgetAlertPercent"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Budget Alerts (%)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} max={200} {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Expense categories that have used this share of their budget are flagged on the dashboard
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <Button type="submit" disabled={isLoading}>
                   {isLoading ? "Saving..." : "Save Changes"}
                 </Button>
@@ -352,27 +542,11 @@ export function SettingsForm() {
         <Card>
           <CardHeader>
             <CardTitle>Security Settings</CardTitle>
-            <CardDescription>Manage your security preferences and account protection.</CardDescription>
+            <CardDescription>Session and password rules applied to every user account.</CardDescription>
           </CardHeader>
           <CardContent>
             <Form {...securityForm}>
               <form onSubmit={securityForm.handleSubmit(onSecuritySubmit)} className="space-y-4">
-                <FormField
-                  control={securityForm.control}
-                  name="twoFactorAuth"
-                  render={({ field }) => (
-                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
-                      <div className="space-y-0.5">
-                        <FormLabel className="text-base">Two-Factor Authentication</FormLabel>
-                        <FormDescription>Add an extra layer of security to your account</FormDescription>
-                      </div>
-                      <FormControl>
-                        <Switch checked={field.value} onCheckedChange={field.onChange} />
-                      </FormControl>
-                    </FormItem>
-                  )}
-                />
-
                 <FormField
                   control={securityForm.control}
                   name="sessionTimeout"
@@ -382,7 +556,7 @@ export function SettingsForm() {
                       <FormControl>
                         <Input type="number" min={5} max={120} {...field} />
                       </FormControl>
-                      <FormDescription>Automatically log out after this period of inactivity</FormDescription>
+                      <FormDescription>Users are signed out after this period of inactivity</FormDescription>
                       <FormMessage />
                     </FormItem>
                   )}
@@ -397,7 +571,9 @@ export function SettingsForm() {
                       <FormControl>
                         <Input type="number" min={0} max={365} {...field} />
                       </FormControl>
-                      <FormDescription>Force password change after this many days (0 = never)</FormDescription>
+                      <FormDescription>
+                        Users must choose a new password after this many days (0 = never)
+                      </FormDescription>
                       <FormMessage />
                     </FormItem>
                   )}
@@ -411,6 +587,12 @@ export function SettingsForm() {
           </CardContent>
         </Card>
       </TabsContent>
+
+      {canManageUsers && (
+        <TabsContent value="users">
+          <UserManagement />
+        </TabsContent>
+      )}
       <div className="mt-8">
         <DatabaseBackup />
       </div>
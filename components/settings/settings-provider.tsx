@@ -0,0 +1,37 @@
+"use client"
+
+import React, { createContext, useCallback, useContext } from "react"
+import type { Settings } from "@/lib/db"
+import { formatCurrency, formatCurrencyForCsv } from "@/lib/utils"
+
+const SettingsContext = createContext<Settings | null>(null)
+
+export function SettingsProvider({ settings, children }: { settings: Settings; children: React.ReactNode }) {
+  return <SettingsContext.Provider value={settings}>{children}</SettingsContext.Provider>
+}
+
+export function useSettings(): Settings {
+  const settings = useContext(SettingsContext)
+  if (!settings) {
+    throw new Error("useSettings must be used within a SettingsProvider")
+  }
+  return settings
+}
+
+// formatCurrency in the garage currency unless another one is given
+export function useFormatCurrency() {
+  const { general } = useSettings()
+  return useCallback(
+    (amount: number, currency?: string) => formatCurrency(amount, currency || general.currency),
+    [general.currency]
+  )
+}
+
+// Same for CSV cells
+export function useFormatCurrencyForCsv() {
+  const { general } = useSettings()
+  return useCallback(
+    (amount: number, currency?: string) => formatCurrencyForCsv(amount, currency || general.currency),
+    [general.currency]
+  )
+}
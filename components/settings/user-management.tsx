@@ -0,0 +1,378 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useForm } from "react-hook-form"
+import * as z from "zod"
+import { format } from "date-fns"
+import { KeyRound, Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ConfirmationDialog } from "@/components/ui/confirmation-dialog"
+import { toast } from "@/components/ui/use-toast"
+import { useCurrentUser } from "@/components/auth/current-user-provider"
+import { createUser, deleteUser, getUsers, updateUser } from "@/lib/actions"
+import { ROLES, ROLE_LABELS, type Role } from "@/lib/auth/permissions"
+import { MIN_PASSWORD_LENGTH } from "@/lib/auth/password-policy"
+import type { SafeUser } from "@/lib/db"
+
+const passwordField = z.string().min(MIN_PASSWORD_LENGTH, {
+  message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`,
+})
+
+const newUserSchema = z.object({
+  name: z.string().min(2, { message: "Name must be at least 2 characters." }),
+  username: z.string().min(3, { message: "Username must be at least 3 characters." }),
+  role: z.enum(ROLES as [Role, ...Role[]]),
+  password: passwordField,
+})
+
+const resetPasswordSchema = z.object({
+  password: passwordField,
+})
+
+const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  owner: "Full access, including settings and user accounts",
+  "front-desk": "Clients, cars, maintenance and taking payments",
+  mechanic: "Maintenance jobs and parts",
+  accountant: "Payments, finances and salaries, read-only elsewhere",
+}
+
+export function UserManagement() {
+  const currentUser = useCurrentUser()
+  const [users, setUsers] = useState<SafeUser[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isCreateOpen, setIsCreateOpen] = useState(false)
+  const [resetTarget, setResetTarget] = useState<SafeUser | null>(null)
+  const [deleteTarget, setDeleteTarget] = useState<SafeUser | null>(null)
+
+  const newUserForm = useForm<z.infer<typeof newUserSchema>>({
+    resolver: zodResolver(newUserSchema),
+    defaultValues: { name: "", username: "", role: "front-desk", password: "" },
+  })
+
+  const resetPasswordForm = useForm<z.infer<typeof resetPasswordSchema>>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: { password: "" },
+  })
+
+  const loadUsers = async () => {
+    setIsLoading(true)
+    const response = await getUsers()
+    if (response.success && response.data) {
+      setUsers(response.data)
+    } else {
+      toast({
+        title: "Error",
+        description: response.error || "Failed to load users.",
+        variant: "destructive",
+      })
+    }
+    setIsLoading(false)
+  }
+
+  useEffect(() => {
+    loadUsers()
+  }, [])
+
+  // Runs an action, reports the outcome and reloads the list
+  const runAction = async (
+    action: () => Promise<{ success: boolean; error?: string }>,
+    successMessage: string,
+  ) => {
+    setIsSaving(true)
+    try {
+      const response = await action()
+      if (!response.success) {
+        throw new Error(response.error || "Something went wrong")
+      }
+      toast({ title: "Users updated", description: successMessage, variant: "success" })
+      await loadUsers()
+      return true
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update users.",
+        variant: "destructive",
+      })
+      return false
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const onCreate = async (values: z.infer<typeof newUserSchema>) => {
+    const created = await runAction(
+      () => createUser(values as Required<typeof values>),
+      `${values.name} can now sign in as ${values.username}.`,
+    )
+    if (created) {
+      newUserForm.reset()
+      setIsCreateOpen(false)
+    }
+  }
+
+  const onResetPassword = async (values: z.infer<typeof resetPasswordSchema>) => {
+    if (!resetTarget) return
+    const reset = await runAction(
+      () => updateUser(resetTarget.id, { password: values.password }),
+      `${resetTarget.name} will be asked to choose a new password at their next sign-in.`,
+    )
+    if (reset) {
+      resetPasswordForm.reset()
+      setResetTarget(null)
+    }
+  }
+
+  const onDelete = async () => {
+    if (!deleteTarget) return
+    await runAction(() => deleteUser(deleteTarget.id), `${deleteTarget.name}'s account has been deleted.`)
+    setDeleteTarget(null)
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>User Accounts</CardTitle>
+          <CardDescription>Who can sign in and what each role is allowed to do.</CardDescription>
+        </div>
+        <Button onClick={() => setIsCreateOpen(true)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add User
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Last sign-in</TableHead>
+              <TableHead>Active</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground">
+                  Loading users...
+                </TableCell>
+              </TableRow>
+            ) : (
+              users.map((user) => {
+                const isSelf = user.id === currentUser?.id
+                return (
+                  <TableRow key={user.id}>
+                    <TableCell>
+                      <div className="font-medium">
+                        {user.name} {isSelf && <Badge variant="secondary">You</Badge>}
+                      </div>
+                      <div className="text-xs text-muted-foreground">@{user.username}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={user.role}
+                        disabled={isSaving || isSelf}
+                        onValueChange={(role) =>
+                          runAction(
+                            () => updateUser(user.id, { role: role as Role }),
+                            `${user.name} is now ${ROLE_LABELS[role as Role]}.`,
+                          )
+                        }
+                      >
+                        <SelectTrigger className="w-[150px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ROLES.map((role) => (
+                            <SelectItem key={role} value={role}>
+                              {ROLE_LABELS[role]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      {user.lastLoginAt ? format(new Date(user.lastLoginAt), "MMM d, yyyy HH:mm") : "Never"}
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={user.isActive}
+                        disabled={isSaving || isSelf}
+                        onCheckedChange={(isActive) =>
+                          runAction(
+                            () => updateUser(user.id, { isActive }),
+                            `${user.name}'s account has been ${isActive ? "activated" : "deactivated"}.`,
+                          )
+                        }
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={isSaving || isSelf}
+                        onClick={() => setResetTarget(user)}
+                      >
+                        <KeyRound className="h-4 w-4" />
+                        <span className="sr-only">Reset password</span>
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={isSaving || isSelf}
+                        onClick={() => setDeleteTarget(user)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        <span className="sr-only">Delete</span>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                )
+              })
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add User</DialogTitle>
+            <DialogDescription>Share the username and password with the new team member.</DialogDescription>
+          </DialogHeader>
+          <Form {...newUserForm}>
+            <form onSubmit={newUserForm.handleSubmit(onCreate)} className="space-y-4">
+              <FormField
+                control={newUserForm.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Full Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={newUserForm.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Username</FormLabel>
+                    <FormControl>
+                      <Input autoComplete="off" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={newUserForm.control}
+                name="role"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Role</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {ROLES.map((role) => (
+                          <SelectItem key={role} value={role}>
+                            {ROLE_LABELS[role]} - {ROLE_DESCRIPTIONS[role]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={newUserForm.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="new-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsCreateOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isSaving}>
+                  {isSaving ? "Saving..." : "Add User"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!resetTarget} onOpenChange={(open) => !open && setResetTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reset Password</DialogTitle>
+            <DialogDescription>
+              {resetTarget?.name} will be signed out and asked to change this password when they next sign in.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...resetPasswordForm}>
+            <form onSubmit={resetPasswordForm.handleSubmit(onResetPassword)} className="space-y-4">
+              <FormField
+                control={resetPasswordForm.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Temporary Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="new-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setResetTarget(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isSaving}>
+                  {isSaving ? "Saving..." : "Reset Password"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmationDialog
+        open={!!deleteTarget}
+        onOpenChange={(open) => !open && setDeleteTarget(null)}
+        title="Delete user"
+        description={`${deleteTarget?.name ?? "This user"} will be signed out and can no longer sign in. Their past activity stays in the logs.`}
+        onConfirm={onDelete}
+        isLoading={isSaving}
+      />
+    </Card>
+  )
+}
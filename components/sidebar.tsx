@@ -2,6 +2,7 @@
 
 import Link from "next/link";
 import { usePathname } from "next/navigation";
+import type { LucideIcon } from "lucide-react";
 import {
   Users,
   Car,
@@ -9,19 +10,37 @@ import {
   Wrench,
   Package,
   Truck,
+  PackageCheck,
   ClipboardList,
   Home,
   Settings,
   LogOut,
   BarChart2,
   CalendarDays,
+  CalendarClock,
   DollarSign,
   UserCircle,
+  History,
+  ScanBarcode,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { useSettings } from "@/components/settings/settings-provider";
+import { useCurrentUser } from "@/components/auth/current-user-provider";
 import { Button } from "@/components/ui/button";
+import { useSignOut } from "@/hooks/use-sign-out";
+import { hasPermission, type Permission } from "@/lib/auth/permissions";
 
-const routes = [
+type NavRoute = {
+  label: string;
+  icon: LucideIcon;
+  href: string;
+  color?: string;
+  // Hidden from roles without it; the dashboard has none
+  permission?: Permission;
+  submenu?: NavRoute[];
+};
+
+const routes: NavRoute[] = [
   {
     label: "Dashboard",
     icon: Home,
@@ -32,54 +51,91 @@ const routes = [
     label: "Clients",
     icon: Users,
     href: "/clients",
+    permission: "clients:view",
     color: "text-violet-500",
   },
   {
     label: "Cars",
     icon: Car,
     href: "/cars",
+    permission: "cars:view",
     color: "text-pink-700",
   },
   {
     label: "Insurance",
     icon: Building2,
     href: "/insurance",
+    permission: "insurance:view",
     color: "text-orange-500",
   },
   {
     label: "Services",
     icon: Wrench,
     href: "/services",
+    permission: "services:view",
     color: "text-emerald-500",
   },
   {
     label: "Products",
     icon: Package,
     href: "/products",
+    permission: "products:view",
     color: "text-blue-500",
+    submenu: [
+      {
+        label: "All Products",
+        href: "/products",
+        icon: Package,
+        permission: "products:view",
+      },
+      {
+        label: "Stock Count",
+        href: "/products/stock-count",
+        icon: ScanBarcode,
+        permission: "products:edit",
+      },
+    ],
   },
   {
     label: "Suppliers",
     icon: Truck,
     href: "/suppliers",
+    permission: "suppliers:view",
     color: "text-yellow-500",
   },
+  {
+    label: "Purchase Orders",
+    icon: PackageCheck,
+    href: "/purchase-orders",
+    permission: "suppliers:view",
+    color: "text-amber-600",
+  },
   {
     label: "Maintenance",
     icon: ClipboardList,
     href: "/maintenance",
+    permission: "maintenance:view",
     color: "text-red-500",
   },
+  {
+    label: "Appointments",
+    icon: CalendarClock,
+    href: "/appointments",
+    permission: "appointments:view",
+    color: "text-cyan-600",
+  },
   {
     label: "Finances",
     icon: DollarSign,
     href: "/finances",
+    permission: "finance:view",
     color: "text-green-600",
   },
   {
     label: "Employees",
     icon: UserCircle,
     href: "/employees",
+    permission: "employees:view",
     color: "text-indigo-500",
   },
   {
@@ -87,21 +143,31 @@ const routes = [
     icon: BarChart2,
     href: "/reports",
     color: "text-green-500",
+    permission: "reports:view",
     submenu: [
       {
         label: "Daily Report",
         href: "/reports",
         icon: CalendarDays,
+        permission: "reports:view",
       },
       {
         label: "Consolidated",
         href: "/reports/consolidated",
         icon: BarChart2,
+        permission: "reports:view",
+      },
+      {
+        label: "Stock Valuation",
+        href: "/reports/stock",
+        icon: History,
+        permission: "reports:view",
       },
       {
         label: "Activity Logs",
         href: "/logs",
         icon: ClipboardList,
+        permission: "logs:view",
       },
     ],
   },
@@ -109,15 +175,27 @@ const routes = [
 
 export default function Sidebar() {
   const pathname = usePathname();
+  const { general } = useSettings();
+  const user = useCurrentUser();
+
+  const canSee = (route: NavRoute) =>
+    !route.permission || hasPermission(user?.role, route.permission);
+
+  // Submenu pages share one parent entry, so keep it if any of its pages is visible
+  const visibleRoutes = routes
+    .map((route) => ({ ...route, submenu: route.submenu?.filter(canSee) }))
+    .filter((route) => (route.submenu ? route.submenu.length > 0 : canSee(route)));
+
+  const handleLogout = useSignOut();
 
   return (
     <div className="space-y-4 py-4 flex flex-col h-full bg-background border-r">
       <div className="px-3 py-2 flex-1 flex flex-col">
         <Link href="/" className="flex items-center pl-3 mb-8">
-          <h1 className="text-xl font-bold">Mechanic Garage</h1>
+          <h1 className="text-xl font-bold">{general.garageName}</h1>
         </Link>
         <div className="space-y-1 overflow-y-auto flex-1 max-h-[calc(100vh-200px)]">
-          {routes.map((route) => (
+          {visibleRoutes.map((route) => (
             <div key={route.href}>
               <Link
                 href={route.href}
@@ -160,23 +238,26 @@ export default function Sidebar() {
       </div>
       <div className="px-3 py-2 border-t">
         <div className="space-y-1 pt-2">
-          <Link
-            href="/settings"
-            className={cn(
-              "text-sm group flex p-3 w-full justify-start font-medium cursor-pointer hover:text-primary hover:bg-primary/10 rounded-lg transition",
-              pathname === "/settings"
-                ? "text-primary bg-primary/10"
-                : "text-muted-foreground",
-            )}
-          >
-            <div className="flex items-center flex-1">
-              <Settings className="h-5 w-5 mr-3 text-gray-500" />
-              Settings
-            </div>
-          </Link>
+          {hasPermission(user?.role, "settings:view") && (
+            <Link
+              href="/settings"
+              className={cn(
+                "text-sm group flex p-3 w-full justify-start font-medium cursor-pointer hover:text-primary hover:bg-primary/10 rounded-lg transition",
+                pathname === "/settings"
+                  ? "text-primary bg-primary/10"
+                  : "text-muted-foreground",
+              )}
+            >
+              <div className="flex items-center flex-1">
+                <Settings className="h-5 w-5 mr-3 text-gray-500" />
+                Settings
+              </div>
+            </Link>
+          )}
           <Button
             variant="ghost"
             className="w-full justify-start text-sm px-3 font-medium"
+            onClick={handleLogout}
           >
             <LogOut className="h-5 w-5 mr-3 text-gray-500" />
             Logout
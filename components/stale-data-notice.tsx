@@ -0,0 +1,19 @@
+"use client"
+
+import { format, formatDistanceToNow } from 'date-fns'
+import { CloudOff } from 'lucide-react'
+
+// Shown above lists rendered from the offline cache
+export function StaleDataNotice({ since, note }: { since: number | null; note?: string }) {
+  if (!since) return null
+
+  return (
+    <div className="flex items-center gap-2 rounded-md border border-orange-300 bg-orange-50 px-3 py-2 text-sm text-orange-800 dark:bg-orange-950 dark:text-orange-200">
+      <CloudOff className="h-4 w-4 shrink-0" />
+      <span>
+        You are offline. Showing data saved {formatDistanceToNow(since, { addSuffix: true })} (stale since{' '}
+        {format(since, 'MMM d, HH:mm')}).{note ? ` ${note}` : ''} It will refresh when you reconnect.
+      </span>
+    </div>
+  )
+}
@@ -1,13 +1,18 @@
 "use client"
 
+import { useState } from "react"
 import { zodResolver } from "@hookform/resolvers/zod"
 import { useForm } from "react-hook-form"
 import * as z from "zod"
 import type { Supplier } from "@/lib/db"
 import { Button } from "@/components/ui/button"
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
 import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
+import { WifiOff } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { useOnlineStatus } from "@/lib/network-status"
+import { api } from "@/lib/api-client"
 
 const supplierSchema = z.object({
   name: z.string().min(2, {
@@ -25,6 +30,9 @@ const supplierSchema = z.object({
   address: z.string().min(5, {
     message: "Address must be at least 5 characters.",
   }),
+  leadTimeDays: z.coerce.number().int().min(0, {
+    message: "Lead time can't be negative.",
+  }),
 })
 
 export type SupplierFormValues = z.infer<typeof supplierSchema>
@@ -36,7 +44,12 @@ interface SupplierFormProps {
   isLoading?: boolean
 }
 
-export function SupplierForm({ supplier, onSubmit, onCancel, isLoading = false }: SupplierFormProps) {
+export function SupplierForm({ supplier, onSubmit, onCancel, isLoading: externalLoading = false }: SupplierFormProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [formError, setFormError] = useState<string | null>(null)
+  const isOnline = useOnlineStatus()
+  const { toast } = useToast()
+
   const form = useForm<SupplierFormValues>({
     resolver: zodResolver(supplierSchema),
     defaultValues: {
@@ -45,16 +58,69 @@ export function SupplierForm({ supplier, onSubmit, onCancel, isLoading = false }
       email: supplier?.email || "",
       phone: supplier?.phone || "",
       address: supplier?.address || "",
+      leadTimeDays: supplier?.leadTimeDays || 0,
     },
   })
 
-  const handleSubmit = (values: SupplierFormValues) => {
-    onSubmit(values)
+  const handleSubmit = async (values: SupplierFormValues) => {
+    setFormError(null)
+    setIsSubmitting(true)
+
+    try {
+      // Determine the endpoint and method based on whether we're updating or creating
+      const endpoint = supplier?.id
+        ? `/api/suppliers/${supplier.id}`
+        : '/api/suppliers';
+
+      // Use the appropriate HTTP method based on the operation
+      const response = supplier?.id
+        ? await api.put(endpoint, values, { baseVersion: supplier.updatedAt })
+        : await api.post(endpoint, values);
+
+      if (response.error) {
+        throw new Error(response.error.message || "Failed to save supplier");
+      }
+
+      // Show appropriate message based on offline status
+      const action = supplier?.id ? "updated" : "created";
+      const successMessage = response.offline
+        ? `Supplier will be ${action} when you're back online.`
+        : `Supplier ${action} successfully.`;
+
+      toast({
+        title: response.offline ? "Saved offline" : "Success",
+        description: successMessage,
+      });
+
+      // Call the original onSubmit handler
+      onSubmit(values);
+    } catch (error: any) {
+      setFormError(error.message || "An unexpected error occurred while processing the form")
+
+      toast({
+        title: "Error",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false)
+    }
   }
 
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        {formError && <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">{formError}</div>}
+
+        {!isOnline && (
+          <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md p-3 mb-4">
+            <div className="flex items-center gap-2 text-yellow-800 dark:text-yellow-400">
+              <WifiOff className="h-4 w-4" />
+              <div className="text-sm font-medium">You are currently offline. Your changes will be saved locally and synchronized when your connection is restored.</div>
+            </div>
+          </div>
+        )}
+
         <FormField
           control={form.control}
           name="name"
@@ -125,12 +191,27 @@ export function SupplierForm({ supplier, onSubmit, onCancel, isLoading = false }
           )}
         />
 
+        <FormField
+          control={form.control}
+          name="leadTimeDays"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Lead Time (days)</FormLabel>
+              <FormControl>
+                <Input type="number" min={0} step={1} {...field} />
+              </FormControl>
+              <FormDescription>Days from ordering to delivery. Leave at 0 to use the garage default.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         <div className="flex justify-end gap-2">
-          <Button type="button" variant="outline" onClick={onCancel} disabled={isLoading}>
+          <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting || externalLoading}>
             Cancel
           </Button>
-          <Button type="submit" disabled={isLoading}>
-            {isLoading ? "Saving..." : supplier ? "Update Supplier" : "Add Supplier"}
+          <Button type="submit" disabled={isSubmitting || externalLoading}>
+            {isSubmitting || externalLoading ? "Saving..." : supplier ? "Update Supplier" : "Add Supplier"}
           </Button>
         </div>
       </form>
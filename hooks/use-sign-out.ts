@@ -0,0 +1,35 @@
+"use client"
+
+import { useCallback } from "react"
+import { useRouter } from "next/navigation"
+import { toast } from "@/components/ui/use-toast"
+import { logout } from "@/lib/auth-actions"
+import { clearCache } from "@/lib/offline-cache"
+import { clearOfflineData, clearPendingOperations } from "@/lib/offline-storage"
+
+// Forget everything the browser kept for a session that has ended. Queued
+// offline writes go too, or the next user to sign in would send them.
+export async function clearSessionData() {
+  clearPendingOperations()
+  clearOfflineData()
+  await clearCache()
+}
+
+export function useSignOut() {
+  const router = useRouter()
+
+  return useCallback(async () => {
+    const response = await logout()
+    if (!response.success) {
+      toast({
+        title: "Error",
+        description: response.error || "Failed to sign out",
+        variant: "destructive",
+      })
+      return
+    }
+    await clearSessionData()
+    router.replace("/login")
+    router.refresh()
+  }, [router])
+}
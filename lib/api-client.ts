@@ -1,8 +1,10 @@
 "use client"
 
 import { toast } from '@/components/ui/use-toast'
-import { queueOfflineOperation } from './offline-storage'
+import { markOperationConflict, queueOfflineOperation } from './offline-storage'
 import { checkConnectivity } from './network-status'
+import { BASE_VERSION_HEADER, type ConflictBody } from './conflicts'
+import { readCache, writeCache } from './offline-cache'
 
 // Interface for API request options
 interface ApiRequestOptions {
@@ -11,6 +13,7 @@ interface ApiRequestOptions {
   body?: any
   requiresAuth?: boolean
   offlineFallback?: boolean // Whether to allow offline fallback or require online
+  baseVersion?: string // updatedAt of the record being changed, enables conflict detection
 }
 
 // Default request options
@@ -29,9 +32,16 @@ const defaultOptions: ApiRequestOptions = {
 export async function apiRequest<T = any>(
   endpoint: string,
   options: ApiRequestOptions = {}
-): Promise<{ data: T | null; error: Error | null; offline: boolean }> {
+): Promise<{ data: T | null; error: Error | null; offline: boolean; conflict?: boolean; cachedAt?: number }> {
   // Merge default options with provided options
   const requestOptions: ApiRequestOptions = { ...defaultOptions, ...options }
+
+  if (requestOptions.baseVersion) {
+    requestOptions.headers = {
+      ...requestOptions.headers,
+      [BASE_VERSION_HEADER]: requestOptions.baseVersion,
+    }
+  }
   
   // If body is provided and is an object, convert to JSON string
   if (requestOptions.body && typeof requestOptions.body === 'object') {
@@ -45,16 +55,43 @@ export async function apiRequest<T = any>(
     // If we're online, make the actual API request
     if (isOnline) {
       const response = await fetch(endpoint, requestOptions as RequestInit)
-      
-      if (!response.ok) {
-        throw new Error(`API error: ${response.status} ${response.statusText}`)
+
+      // Someone else saved first: keep the change for the conflict dialog instead of dropping it
+      if (response.status === 409) {
+        const body = await response.json() as ConflictBody
+        const operationId = queueOfflineOperation(
+          requestOptions.method as 'GET' | 'POST' | 'PUT' | 'DELETE',
+          endpoint,
+          typeof requestOptions.body === 'string' ? JSON.parse(requestOptions.body) : requestOptions.body,
+          requestOptions.baseVersion
+        )
+        markOperationConflict(operationId, body.conflict.server)
+
+        return {
+          data: null,
+          error: new Error(`${body.error}. Resolve the conflict to choose which changes to keep.`),
+          offline: false,
+          conflict: true,
+        }
       }
       
       // Parse JSON response (or return null for no content)
       const contentType = response.headers.get('content-type')
-      const data = contentType?.includes('application/json') 
-        ? await response.json() as T
+      const body = contentType?.includes('application/json') 
+        ? await response.json()
         : null
+
+      if (!response.ok) {
+        throw new Error(body?.error || `API error: ${response.status} ${response.statusText}`)
+      }
+
+      // Routes answer with { success, data, error }; callers only want the data
+      const data = (body && typeof body.success === 'boolean' ? body.data ?? null : body) as T | null
+
+      // Keep successful reads so the same request can be answered offline
+      if (requestOptions.method === 'GET' && data !== null) {
+        await writeCache(`GET ${endpoint}`, data)
+      }
       
       return { data, error: null, offline: false }
     } 
@@ -69,8 +106,12 @@ export async function apiRequest<T = any>(
         }
       }
       
-      // For GET requests, we can't do much when offline except return an error
+      // For GET requests, answer from the offline cache if this was fetched before
       if (requestOptions.method === 'GET') {
+        const cached = await readCache<T>(`GET ${endpoint}`)
+        if (cached) {
+          return { data: cached.data, error: null, offline: true, cachedAt: cached.cachedAt }
+        }
         return { 
           data: null, 
           error: new Error('Cannot fetch data while offline'),
@@ -84,7 +125,8 @@ export async function apiRequest<T = any>(
         endpoint,
         typeof requestOptions.body === 'string' 
           ? JSON.parse(requestOptions.body) 
-          : requestOptions.body
+          : requestOptions.body,
+        requestOptions.baseVersion
       )
       
       // Notify the user that we're working offline
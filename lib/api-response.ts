@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import {
+  PASSWORD_EXPIRED_ERROR,
+  SESSION_EXPIRED_ERROR,
+  isPermissionDeniedError,
+} from "@/lib/auth/permissions";
+import {
+  createConflictBody,
+  getBaseVersion,
+  isStaleWrite,
+  type VersionedRecord,
+} from "@/lib/conflicts";
+import { isUnprintablePdfError } from "@/lib/pdf";
+
+// Helpers shared by the route handlers under app/api. Every response uses the
+// same { success, data, error } envelope the server actions return.
+
+export interface ActionResult<T = any> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+// Status code for a failed action, judged by its error message
+export function getErrorStatus(error?: string): number {
+  if (error === SESSION_EXPIRED_ERROR) return 401;
+  if (error === PASSWORD_EXPIRED_ERROR || isPermissionDeniedError(error)) return 403;
+  if (error && /not found/i.test(error)) return 404;
+  return 400;
+}
+
+export function jsonError(error: string, status: number) {
+  return NextResponse.json({ success: false, error }, { status });
+}
+
+// Turns an action result into a response. `notFound` makes an empty result a 404.
+export function actionResponse<T>(
+  result: ActionResult<T>,
+  fallbackError: string,
+  options: { status?: number; notFound?: string } = {}
+) {
+  if (!result.success) {
+    const error = result.error || fallbackError;
+    return jsonError(error, getErrorStatus(error));
+  }
+  if (options.notFound && (result.data === null || result.data === undefined)) {
+    return jsonError(options.notFound, 404);
+  }
+  return NextResponse.json(
+    { success: true, data: result.data },
+    { status: options.status ?? 200 }
+  );
+}
+
+// For exceptions the actions didn't catch; a malformed JSON body or a name the
+// PDF can't print is down to the request, not the server
+export function serverError(context: string, error: any) {
+  console.error(`${context}:`, error);
+  if (error instanceof SyntaxError) {
+    return jsonError("Request body must be valid JSON", 400);
+  }
+  if (isUnprintablePdfError(error)) {
+    return jsonError(error.message, 422);
+  }
+  return jsonError(error?.message || "Internal server error", 500);
+}
+
+/**
+ * Optimistic concurrency check for PUT/DELETE (see lib/conflicts.ts).
+ * Returns the response to send instead of performing the write, or null to go ahead.
+ */
+export async function checkBaseVersion(
+  request: Request,
+  loadCurrent: () => Promise<ActionResult<VersionedRecord | null | undefined>>
+) {
+  const baseVersion = getBaseVersion(request);
+  if (!baseVersion) return null;
+
+  const current = await loadCurrent();
+  // Let the write itself report permission and lookup errors
+  if (!current.success) return null;
+
+  // Deleting something that is already gone is what the caller wanted anyway
+  if (request.method === "DELETE" && !current.data) {
+    return NextResponse.json({ success: true });
+  }
+  if (isStaleWrite(baseVersion, current.data)) {
+    return NextResponse.json(createConflictBody(current.data ?? null), { status: 409 });
+  }
+  return null;
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import type { Appointment, AppointmentStatus } from "@/lib/db";
+import { findBookingConflict, isActiveAppointment } from "@/lib/appointments";
+import { type NewRecord, appointment, bay, stored } from "@/test/fixtures";
+
+const bay1 = stored(bay(), "b1");
+
+// A saved appointment in bay b1 on the test day, between the given hours
+function booked(id: string, startHour: number, endHour: number, overrides: Partial<NewRecord<Appointment>> = {}) {
+  const at = (hour: number) => `2024-05-06T${String(hour).padStart(2, "0")}:00:00.000Z`;
+  return stored(appointment(bay1.id, { startTime: at(startHour), endTime: at(endHour), ...overrides }), id);
+}
+
+describe("isActiveAppointment", () => {
+  it("holds the slot only while scheduled or arrived", () => {
+    const statuses: AppointmentStatus[] = ["scheduled", "arrived", "converted", "cancelled", "no-show"];
+    expect(statuses.filter((status) => isActiveAppointment({ status }))).toEqual(["scheduled", "arrived"]);
+  });
+});
+
+describe("findBookingConflict", () => {
+  const slot = { carUin: "car-new", bayId: bay1.id, startTime: "2024-05-06T10:00:00.000Z", endTime: "2024-05-06T11:00:00.000Z" };
+
+  it("rejects a slot that doesn't end after it starts", () => {
+    expect(findBookingConflict({ ...slot, endTime: slot.startTime }, [], bay1)).toBe(
+      "The appointment must end after it starts"
+    );
+  });
+
+  it("rejects a car that is booked elsewhere at the same time", () => {
+    const other = booked("a1", 10, 12, { carUin: "car-new", bayId: "b2" });
+    expect(findBookingConflict(slot, [other], bay1)).toBe("This car already has an appointment at that time");
+  });
+
+  it("rejects a bay that is at capacity", () => {
+    expect(findBookingConflict(slot, [booked("a1", 9, 11)], bay1)).toBe("Bay 1 is fully booked at that time");
+  });
+
+  it("allows back-to-back bookings and bookings up to the bay's capacity", () => {
+    expect(findBookingConflict(slot, [booked("a1", 9, 10), booked("a2", 11, 12)], bay1)).toBeNull();
+    const bigBay = { ...bay1, capacity: 2 };
+    expect(findBookingConflict(slot, [booked("a1", 9, 11)], bigBay)).toBeNull();
+    expect(findBookingConflict(slot, [booked("a1", 9, 11), booked("a2", 10, 12)], bigBay)).toBe(
+      "Bay 1 is fully booked at that time"
+    );
+  });
+
+  it("ignores inactive appointments and the appointment being moved", () => {
+    expect(findBookingConflict(slot, [booked("a1", 10, 11, { status: "cancelled" })], bay1)).toBeNull();
+    expect(findBookingConflict({ ...slot, id: "a1" }, [booked("a1", 10, 11)], bay1)).toBeNull();
+  });
+});
@@ -0,0 +1,70 @@
+import type { Appointment, AppointmentStatus, Bay } from "@/lib/db";
+
+// Hours shown on the calendar and the size of a bookable slot
+export const CALENDAR_START_HOUR = 7;
+export const CALENDAR_END_HOUR = 19;
+export const SLOT_MINUTES = 30;
+
+export const APPOINTMENT_STATUS_LABELS: Record<AppointmentStatus, string> = {
+  scheduled: "Scheduled",
+  arrived: "Arrived",
+  converted: "In workshop",
+  cancelled: "Cancelled",
+  "no-show": "No-show",
+};
+
+// Appointments that still hold their bay and time slot
+export function isActiveAppointment(appointment: Pick<Appointment, "status">): boolean {
+  return appointment.status === "scheduled" || appointment.status === "arrived";
+}
+
+export type BookingSlot = Pick<Appointment, "carUin" | "bayId" | "startTime" | "endTime"> & {
+  id?: string; // Set when moving an existing appointment, so it doesn't clash with itself
+};
+
+function overlaps(a: Pick<Appointment, "startTime" | "endTime">, b: Pick<Appointment, "startTime" | "endTime">) {
+  return new Date(a.startTime) < new Date(b.endTime) && new Date(b.startTime) < new Date(a.endTime);
+}
+
+// Most appointments in the bay at any one moment within the slot
+function getPeakOccupancy(slot: BookingSlot, others: Appointment[]): number {
+  const events = others.flatMap((appointment) => [
+    { time: Math.max(new Date(appointment.startTime).getTime(), new Date(slot.startTime).getTime()), change: 1 },
+    { time: Math.min(new Date(appointment.endTime).getTime(), new Date(slot.endTime).getTime()), change: -1 },
+  ]);
+  // Ends sort before starts at the same moment, back-to-back bookings don't overlap
+  events.sort((a, b) => a.time - b.time || a.change - b.change);
+
+  let current = 0;
+  let peak = 0;
+  for (const event of events) {
+    current += event.change;
+    peak = Math.max(peak, current);
+  }
+  return peak;
+}
+
+/**
+ * Why a slot can't be booked, or null when it can: the car is booked
+ * elsewhere at the same time, or the bay is already at capacity.
+ */
+export function findBookingConflict(slot: BookingSlot, appointments: Appointment[], bay: Bay): string | null {
+  if (!(new Date(slot.endTime) > new Date(slot.startTime))) {
+    return "The appointment must end after it starts";
+  }
+
+  const overlapping = appointments.filter(
+    (appointment) => appointment.id !== slot.id && isActiveAppointment(appointment) && overlaps(appointment, slot)
+  );
+
+  if (overlapping.some((appointment) => appointment.carUin === slot.carUin)) {
+    return "This car already has an appointment at that time";
+  }
+
+  const inBay = overlapping.filter((appointment) => appointment.bayId === slot.bayId);
+  if (getPeakOccupancy(slot, inBay) + 1 > Math.max(1, Number(bay.capacity) || 1)) {
+    return `${bay.name} is fully booked at that time`;
+  }
+
+  return null;
+}
@@ -0,0 +1,140 @@
+"use server";
+
+import { db } from "@/lib/db";
+import { hashPassword, verifyPassword } from "@/lib/auth/password";
+import { validatePassword } from "@/lib/auth/password-policy";
+import { SESSION_EXPIRED_ERROR } from "@/lib/auth/permissions";
+import {
+  endSession,
+  getCurrentUser,
+  isPasswordExpired,
+  startSession,
+} from "@/lib/auth/session";
+
+// True until the first (owner) account has been created
+export async function needsSetup() {
+  try {
+    const users = await db.users.getAll();
+    return { success: true, data: users.length === 0 };
+  } catch (error) {
+    console.error("Error checking user accounts:", error);
+    return { success: false, error: "Failed to check user accounts" };
+  }
+}
+
+export async function setupOwner(data: {
+  name: string;
+  username: string;
+  password: string;
+}) {
+  try {
+    const passwordError = validatePassword(data.password);
+    if (passwordError) return { success: false, error: passwordError };
+    if (!data.name?.trim() || !data.username?.trim()) {
+      return { success: false, error: "Name and username are required" };
+    }
+
+    const now = new Date().toISOString();
+    const passwordHash = await hashPassword(data.password);
+
+    // Checked and created together so two setups at once can't both make an owner
+    const user = await db.transaction(async () => {
+      const users = await db.users.getAll();
+      if (users.length > 0) return null;
+
+      return db.users.create({
+        name: data.name.trim(),
+        username: data.username,
+        role: "owner",
+        passwordHash,
+        passwordChangedAt: now,
+        isActive: true,
+        lastLoginAt: now,
+      }, data.name.trim());
+    });
+    if (!user) {
+      return { success: false, error: "An owner account already exists" };
+    }
+
+    await startSession(user);
+    return { success: true };
+  } catch (error: any) {
+    console.error("Error creating owner account:", error);
+    return {
+      success: false,
+      error: error.message || "Failed to create owner account",
+    };
+  }
+}
+
+export async function login(username: string, password: string) {
+  try {
+    const user = await db.users.getByUsername(username || "");
+
+    // Same message for unknown users and wrong passwords
+    if (!user || !(await verifyPassword(password || "", user.passwordHash))) {
+      return { success: false, error: "Invalid username or password" };
+    }
+    if (!user.isActive) {
+      return { success: false, error: "This account has been deactivated" };
+    }
+
+    await startSession(user);
+    await db.users.update(user.id, { lastLoginAt: new Date().toISOString() }, user.name);
+
+    const { security } = await db.settings.get();
+    return {
+      success: true,
+      data: {
+        passwordExpired: isPasswordExpired(user, security.passwordExpiryDays),
+      },
+    };
+  } catch (error) {
+    console.error("Error signing in:", error);
+    return { success: false, error: "Failed to sign in" };
+  }
+}
+
+export async function logout() {
+  try {
+    await endSession();
+    return { success: true };
+  } catch (error) {
+    console.error("Error signing out:", error);
+    return { success: false, error: "Failed to sign out" };
+  }
+}
+
+export async function changePassword(currentPassword: string, newPassword: string) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: SESSION_EXPIRED_ERROR };
+    }
+
+    const user = await db.users.getById(currentUser.id);
+    if (!user || !(await verifyPassword(currentPassword || "", user.passwordHash))) {
+      return { success: false, error: "Current password is incorrect" };
+    }
+
+    const passwordError = validatePassword(newPassword);
+    if (passwordError) return { success: false, error: passwordError };
+    if (await verifyPassword(newPassword, user.passwordHash)) {
+      return { success: false, error: "Choose a password different from the current one" };
+    }
+
+    await db.users.update(user.id, {
+      passwordHash: await hashPassword(newPassword),
+      passwordChangedAt: new Date().toISOString(),
+      mustChangePassword: false,
+    }, user.name);
+
+    // Sign out everywhere else
+    await db.sessions.deleteByUserId(user.id, currentUser.sessionId);
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error changing password:", error);
+    return { success: false, error: "Failed to change password" };
+  }
+}
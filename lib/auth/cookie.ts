@@ -0,0 +1,13 @@
+import { cookies } from "next/headers";
+
+export const SESSION_COOKIE = "garage_session";
+
+// Session token from the request cookies, or null outside a request (scripts, seeding)
+export async function getSessionToken(): Promise<string | null> {
+  try {
+    const cookieStore = await cookies();
+    return cookieStore.get(SESSION_COOKIE)?.value || null;
+  } catch {
+    return null;
+  }
+}
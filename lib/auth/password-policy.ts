@@ -0,0 +1,10 @@
+// Password rules, shared by the server actions and the sign-in forms
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export function validatePassword(password: string): string | null {
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+}
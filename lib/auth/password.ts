@@ -0,0 +1,33 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+// Stored as "scrypt:<salt>:<hash>", both hex encoded
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt:${salt.toString("hex")}:${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(
+  password: string,
+  storedHash: string
+): Promise<boolean> {
+  const [scheme, saltHex, hashHex] = (storedHash || "").split(":");
+  if (scheme !== "scrypt" || !saltHex || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = await scryptAsync(
+    password,
+    Buffer.from(saltHex, "hex"),
+    expected.length
+  );
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,103 @@
+// Roles and what they may do. Kept free of server imports so the UI can use
+// the same rules to hide navigation and actions.
+
+export type Role = "owner" | "front-desk" | "mechanic" | "accountant";
+
+export type Resource =
+  | "clients"
+  | "cars"
+  | "insurance"
+  | "services"
+  | "products"
+  | "suppliers"
+  | "maintenance"
+  | "appointments"
+  | "payments"
+  | "employees"
+  | "salaries"
+  | "finance"
+  | "reports"
+  | "logs"
+  | "settings"
+  | "users";
+
+export type Action = "view" | "edit" | "delete";
+
+export type Permission = `${Resource}:${Action}`;
+
+export const ROLES: Role[] = ["owner", "front-desk", "mechanic", "accountant"];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  owner: "Owner",
+  "front-desk": "Front desk",
+  mechanic: "Mechanic",
+  accountant: "Accountant",
+};
+
+function grant(resources: Resource[], actions: Action[]): Permission[] {
+  return resources.flatMap((resource) =>
+    actions.map((action) => `${resource}:${action}` as Permission)
+  );
+}
+
+const ROLE_PERMISSIONS: Record<Role, Permission[] | "all"> = {
+  owner: "all",
+  "front-desk": [
+    ...grant(
+      ["clients", "cars", "insurance", "maintenance", "appointments", "payments"],
+      ["view", "edit"]
+    ),
+    ...grant(["services", "products", "suppliers", "reports"], ["view"]),
+  ],
+  mechanic: [
+    ...grant(["maintenance", "products"], ["view", "edit"]),
+    ...grant(["clients", "cars", "services", "suppliers", "appointments"], ["view"]),
+  ],
+  accountant: [
+    ...grant(["payments", "salaries", "finance"], ["view", "edit", "delete"]),
+    ...grant(
+      [
+        "clients",
+        "cars",
+        "insurance",
+        "services",
+        "products",
+        "suppliers",
+        "maintenance",
+        "employees",
+        "reports",
+        "logs",
+      ],
+      ["view"]
+    ),
+  ],
+};
+
+export function hasPermission(
+  role: Role | null | undefined,
+  permission: Permission
+): boolean {
+  if (!role) return false;
+  const permissions = ROLE_PERMISSIONS[role];
+  if (!permissions) return false;
+  return permissions === "all" || permissions.includes(permission);
+}
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as string[]).includes(value);
+}
+
+// Error messages returned by the server actions; the API routes map them to 401/403
+export const SESSION_EXPIRED_ERROR = "Your session has expired. Please sign in again.";
+export const PASSWORD_EXPIRED_ERROR = "Your password has expired. Change it to continue.";
+
+const PERMISSION_DENIED_MARKER = "accounts are not allowed to";
+
+export function getPermissionDeniedError(role: Role, permission: Permission): string {
+  const [resource, action] = permission.split(":");
+  return `${ROLE_LABELS[role]} ${PERMISSION_DENIED_MARKER} ${action} ${resource}`;
+}
+
+export function isPermissionDeniedError(error: string | undefined): boolean {
+  return !!error && error.includes(PERMISSION_DENIED_MARKER);
+}
@@ -0,0 +1,80 @@
+import { cache } from "react";
+import { cookies } from "next/headers";
+import { db, toSafeUser } from "@/lib/db";
+import type { SafeUser, User } from "@/lib/db";
+import { SESSION_COOKIE, getSessionToken } from "@/lib/auth/cookie";
+
+export type CurrentUser = SafeUser & {
+  sessionId: string;
+  passwordExpired: boolean;
+};
+
+// Don't rewrite the session on every request, once a minute is enough
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+export function isPasswordExpired(
+  user: Pick<User, "passwordChangedAt" | "mustChangePassword">,
+  expiryDays: number
+): boolean {
+  if (user.mustChangePassword) return true;
+  if (!expiryDays || !user.passwordChangedAt) return false;
+  const expiresAt =
+    new Date(user.passwordChangedAt).getTime() + expiryDays * 24 * 60 * 60 * 1000;
+  return Date.now() > expiresAt;
+}
+
+// The signed-in user for this request, or null when signed out or the session timed out.
+// Cached per request so permission checks in several actions only read it once.
+export const getCurrentUser = cache(async (): Promise<CurrentUser | null> => {
+  const token = await getSessionToken();
+  if (!token) return null;
+
+  const session = await db.sessions.getByToken(token);
+  if (!session) return null;
+
+  const { security } = await db.settings.get();
+  const idleMs = Date.now() - new Date(session.lastActiveAt).getTime();
+  if (idleMs > security.sessionTimeout * 60 * 1000) {
+    await db.sessions.delete(session.id);
+    return null;
+  }
+
+  const user = await db.users.getById(session.userId);
+  if (!user || !user.isActive) {
+    await db.sessions.delete(session.id);
+    return null;
+  }
+
+  if (idleMs > TOUCH_INTERVAL_MS) {
+    await db.sessions.touch(session);
+  }
+
+  return {
+    ...toSafeUser(user),
+    sessionId: session.id,
+    passwordExpired: isPasswordExpired(user, security.passwordExpiryDays),
+  };
+});
+
+// Only callable from server actions and route handlers, which may set cookies
+export async function startSession(user: User): Promise<void> {
+  const { token } = await db.sessions.create(user.id);
+  const cookieStore = await cookies();
+  cookieStore.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+  });
+}
+
+export async function endSession(): Promise<void> {
+  const token = await getSessionToken();
+  if (token) {
+    const session = await db.sessions.getByToken(token);
+    if (session) await db.sessions.delete(session.id);
+  }
+
+  const cookieStore = await cookies();
+  cookieStore.delete(SESSION_COOKIE);
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { useTempStore } from "@/test/temp-store";
+import { BACKUP_VERSION, convertLegacyBackup, readBackup } from "@/lib/backups";
+
+const store = useTempStore();
+
+const legacyClient = {
+  id: "c-old",
+  name: "Old Client",
+  contact: "555-0100",
+  email: "old@example.com",
+  address: "1 Old Road",
+  createdAt: "2023-01-01T00:00:00.000Z",
+  updatedAt: "2023-01-01T00:00:00.000Z",
+};
+
+function legacyBackup(data: Record<string, unknown> = {}) {
+  return {
+    version: "1.0",
+    timestamp: "2023-06-01T00:00:00.000Z",
+    data: { clients: [legacyClient], cars: [], services: [], products: [], maintenance: [], ...data },
+  };
+}
+
+describe("readBackup", () => {
+  it("rejects files that are not backups", () => {
+    expect(readBackup(null)).toEqual({ error: "Invalid backup data format" });
+    expect(readBackup({ version: BACKUP_VERSION, store: { sets: [] } })).toEqual({
+      error: "Invalid backup data format",
+    });
+    expect(readBackup({ version: "3.0", store: {} })).toEqual({ error: "Backup version 3.0 is not supported" });
+  });
+
+  it("names the missing collection of a 1.0 backup", () => {
+    expect(readBackup({ version: "1.0", data: { clients: [] } })).toEqual({
+      error: "Missing or invalid cars data in backup",
+    });
+  });
+});
+
+describe("convertLegacyBackup", () => {
+  it("writes each record under its entity key", () => {
+    const { store: converted, replaces } = convertLegacyBackup({
+      ...legacyBackup().data,
+      cars: [{ uin: "car-1", clientId: "c-old" }],
+      settings: { general: { garageName: "Old Garage" } },
+    });
+
+    expect(converted.sets).toMatchObject({ clients: ["c-old"], cars: ["car-1"], maintenance: [] });
+    expect(converted.hashes["client:c-old"]).toEqual(legacyClient);
+    expect(converted.hashes["car:car-1"]).toEqual({ uin: "car-1", clientId: "c-old" });
+    expect(converted.hashes["settings:general"]).toEqual({ garageName: "Old Garage" });
+
+    expect(["clients", "client:x", "payments", "payment:x", "settings:general"].every(replaces)).toBe(true);
+    expect(["users", "user:x", "employees", "settings:security"].some(replaces)).toBe(false);
+  });
+});
+
+describe("db.backup", () => {
+  it("restores every key of a backup and keeps sessions and the audit log", async () => {
+    const db = await store.loadDb();
+    const client = await db.clients.create({
+      name: "Jane",
+      contact: "555-0101",
+      email: "jane@example.com",
+      address: "2 New Street",
+    }, "Owner");
+    const backup = readBackup({ version: BACKUP_VERSION, store: await db.backup.export() });
+    if ("error" in backup) throw new Error(backup.error);
+    expect(Object.keys(backup.store.hashes).some((key) => key.startsWith("session:"))).toBe(false);
+
+    await db.clients.delete(client.id, "Owner");
+    const { token } = await db.sessions.create("user-1");
+    await db.backup.restore(backup, "Owner");
+
+    expect(await db.clients.getById(client.id)).toMatchObject({ name: "Jane" });
+    expect(await db.sessions.getByToken(token)).toMatchObject({ userId: "user-1" });
+    const logs = await db.logs.getAll();
+    expect(logs.some((log) => log.tableName === "clients" && log.actionType === "delete")).toBe(true);
+    expect(logs.some((log) => log.afterValue?.includes("Database restored from backup"))).toBe(true);
+  });
+
+  it("restores a 1.0 backup over its own entities only", async () => {
+    const db = await store.loadDb();
+    await db.clients.create({ name: "Newer Client", contact: "", email: "", address: "" }, "Owner");
+    await db.users.create({
+      username: "owner",
+      name: "Owner",
+      role: "owner",
+      passwordHash: "hash",
+      passwordChangedAt: "2024-01-01T00:00:00.000Z",
+      isActive: true,
+    }, "Owner");
+
+    const restore = readBackup(legacyBackup());
+    if ("error" in restore) throw new Error(restore.error);
+    await db.backup.restore(restore, "Owner");
+
+    expect((await db.clients.getAll()).map((client) => client.name)).toEqual(["Old Client"]);
+    expect((await db.users.getAll()).map((user) => user.username)).toEqual(["owner"]);
+  });
+});
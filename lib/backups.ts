@@ -0,0 +1,128 @@
+import type { StoreSnapshot } from "@/lib/storage";
+
+// Backups are a copy of every key in the store. Version "1.0" backups only
+// held lists of a few entities; those are written back into the same keys.
+export const BACKUP_VERSION = "2.0";
+export const LEGACY_BACKUP_VERSION = "1.0";
+
+export type StoreBackup = {
+  version: typeof BACKUP_VERSION;
+  timestamp: string;
+  store: StoreSnapshot;
+};
+
+// What a restore writes, and which of the current keys it replaces
+export type BackupRestore = {
+  store: StoreSnapshot;
+  replaces: (key: string) => boolean;
+};
+
+// Index set and record key of each entity a 1.0 backup holds
+const LEGACY_COLLECTIONS = {
+  clients: { set: "clients", prefix: "client", idField: "id" },
+  cars: { set: "cars", prefix: "car", idField: "uin" },
+  insurance: { set: "insurance", prefix: "insurance", idField: "id" },
+  services: { set: "services", prefix: "service", idField: "id" },
+  products: { set: "products", prefix: "product", idField: "id" },
+  suppliers: { set: "suppliers", prefix: "supplier", idField: "id" },
+  maintenance: { set: "maintenance", prefix: "maintenance", idField: "id" },
+  logs: { set: "logs", prefix: "log", idField: "id" },
+} as const;
+
+const REQUIRED_LEGACY_COLLECTIONS = ["clients", "cars", "services", "products", "maintenance"] as const;
+
+const SETTINGS_SECTIONS = ["general", "notifications", "security"] as const;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+export function isStoreSnapshot(value: unknown): value is StoreSnapshot {
+  if (!isPlainObject(value)) return false;
+  const { sets, hashes } = value;
+  return (
+    isPlainObject(sets) &&
+    isPlainObject(hashes) &&
+    Object.values(sets).every(
+      (members) => Array.isArray(members) && members.every((member) => typeof member === "string")
+    ) &&
+    Object.values(hashes).every(isPlainObject)
+  );
+}
+
+function belongsTo(key: string, set: string, prefix: string): boolean {
+  return key === set || key.startsWith(`${prefix}:`);
+}
+
+/**
+ * Store keys for the entity lists in a 1.0 backup. Only the entities the
+ * backup holds are replaced; anything added in later versions (users,
+ * employees, finances...) is kept. Requests from then carry their paid total
+ * on the request itself, so the payment ledger is cleared with them and gets
+ * an opening entry per request on the next payment.
+ */
+export function convertLegacyBackup(data: unknown): BackupRestore {
+  if (!isPlainObject(data)) {
+    throw new Error("Invalid backup data format");
+  }
+  for (const collection of REQUIRED_LEGACY_COLLECTIONS) {
+    if (!Array.isArray(data[collection])) {
+      throw new Error(`Missing or invalid ${collection} data in backup`);
+    }
+  }
+
+  const store: StoreSnapshot = { sets: {}, hashes: {} };
+  const replaced: Array<{ set: string; prefix: string }> = [{ set: "payments", prefix: "payment" }];
+
+  for (const [collection, { set, prefix, idField }] of Object.entries(LEGACY_COLLECTIONS)) {
+    const records = data[collection];
+    if (!Array.isArray(records)) continue;
+
+    const ids: string[] = [];
+    for (const record of records) {
+      if (!isPlainObject(record) || !record[idField]) continue;
+      const id = String(record[idField]);
+      store.hashes[`${prefix}:${id}`] = record;
+      ids.push(id);
+    }
+    store.sets[set] = Array.from(new Set(ids));
+    replaced.push({ set, prefix });
+  }
+
+  const settings = isPlainObject(data.settings) ? data.settings : {};
+  for (const section of SETTINGS_SECTIONS) {
+    if (isPlainObject(settings[section])) {
+      store.hashes[`settings:${section}`] = settings[section];
+    }
+  }
+
+  return {
+    store,
+    replaces: (key) =>
+      replaced.some(({ set, prefix }) => belongsTo(key, set, prefix)) || key in store.hashes,
+  };
+}
+
+// What restoring a backup file does, or an error message for a file that can't be restored
+export function readBackup(backup: unknown): BackupRestore | { error: string } {
+  if (!isPlainObject(backup)) {
+    return { error: "Invalid backup data format" };
+  }
+
+  if (backup.version === BACKUP_VERSION) {
+    return isStoreSnapshot(backup.store)
+      ? { store: backup.store, replaces: () => true }
+      : { error: "Invalid backup data format" };
+  }
+
+  // Backups made before versions were written are in the 1.0 format
+  if ((backup.version === undefined || backup.version === LEGACY_BACKUP_VERSION) && backup.data) {
+    try {
+      return convertLegacyBackup(backup.data);
+    } catch (error: any) {
+      return { error: error.message };
+    }
+  }
+
+  return { error: `Backup version ${backup.version} is not supported` };
+}
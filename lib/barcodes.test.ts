@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { encodeCode128, encodeEan13, getEan13CheckDigit, getLabelSymbol, isValidEan13 } from "@/lib/barcodes";
+import { product } from "@/test/fixtures";
+
+describe("encodeCode128", () => {
+  it("draws the start, data, checksum and stop symbols", () => {
+    expect(encodeCode128("A")).toBe(
+      "11010010000" + // Start B
+        "10100011000" + // "A"
+        "10001011000" + // Checksum (104 + 33) % 103 = 34
+        "1100011101011" // Stop
+    );
+  });
+
+  it("refuses text outside printable ASCII", () => {
+    expect(() => encodeCode128("")).toThrow("can't be printed");
+    expect(() => encodeCode128("Ölfilter")).toThrow("can't be printed");
+  });
+});
+
+describe("EAN-13", () => {
+  it("works out and checks the check digit", () => {
+    expect(getEan13CheckDigit("590123412345")).toBe(7);
+    expect(isValidEan13("5901234123457")).toBe(true);
+    expect(isValidEan13("5901234123458")).toBe(false);
+    expect(isValidEan13("590123412345")).toBe(false);
+  });
+
+  it("draws the left half in the parity the first digit sets", () => {
+    expect(encodeEan13("5901234123457")).toBe(
+      "101" +
+        // 9 0 1 2 3 4 in L G G L L G parity
+        "0001011" + "0100111" + "0110011" + "0010011" + "0111101" + "0011101" +
+        "01010" +
+        // 1 2 3 4 5 7
+        "1100110" + "1101100" + "1000010" + "1011100" + "1001110" + "1000100" +
+        "101"
+    );
+  });
+
+  it("refuses numbers with the wrong check digit", () => {
+    expect(() => encodeEan13("5901234123458")).toThrow("not a valid EAN-13");
+  });
+});
+
+describe("getLabelSymbol", () => {
+  it("prints the first barcode, as EAN-13 when it is one", () => {
+    expect(getLabelSymbol(product("s1", { sku: "OF-1", barcodes: ["5901234123457", "OTHER"] }))).toMatchObject({
+      symbology: "ean13",
+      value: "5901234123457",
+    });
+    expect(getLabelSymbol(product("s1", { sku: "OF-1", barcodes: ["5901234123458"] }))).toMatchObject({
+      symbology: "code128",
+      value: "5901234123458",
+    });
+  });
+
+  it("falls back to the SKU and gives no label when neither can be printed", () => {
+    expect(getLabelSymbol(product("s1", { sku: "OF-1" }))).toMatchObject({ symbology: "code128", value: "OF-1" });
+    expect(getLabelSymbol(product("s1", { sku: "Ölfilter" }))).toBeNull();
+    expect(getLabelSymbol(product("s1"))).toBeNull();
+  });
+});
@@ -0,0 +1,107 @@
+// Barcode symbols for shelf labels, drawn as a row of modules ("1" = bar,
+// "0" = space) so they can be rendered to SVG in the browser or PDF on the server.
+
+import type { Product } from "@/lib/db";
+
+export type Symbology = "code128" | "ean13";
+
+export type BarcodeSymbol = {
+  symbology: Symbology;
+  value: string; // Text printed under the bars
+  modules: string;
+};
+
+// Code 128 bar/space widths for symbol values 0-106 (106 is the stop pattern)
+const CODE128_PATTERNS = [
+  "212222", "222122", "222221", "121223", "121322", "131222", "122213", "122312", "132212", "221213",
+  "221312", "231212", "112232", "122132", "122231", "113222", "123122", "123221", "223211", "221132",
+  "221231", "213212", "223112", "312131", "311222", "321122", "321221", "312212", "322112", "322211",
+  "212123", "212321", "232121", "111323", "131123", "131321", "112313", "132113", "132311", "211313",
+  "231113", "231311", "112133", "112331", "132131", "113123", "113321", "133121", "313121", "211331",
+  "231131", "213113", "213311", "213131", "311123", "311321", "331121", "312113", "312311", "332111",
+  "314111", "221411", "431111", "111224", "111422", "121124", "121421", "141122", "141221", "112214",
+  "112412", "122114", "122411", "142112", "142211", "241211", "221114", "413111", "241112", "134111",
+  "111242", "121142", "121241", "114212", "124112", "124211", "411212", "421112", "421211", "212141",
+  "214121", "412121", "111143", "111341", "131141", "114113", "114311", "411113", "411311", "113141",
+  "114131", "311141", "411131", "211412", "211214", "211232", "2331112",
+];
+const CODE128_START_B = 104;
+const CODE128_STOP = 106;
+
+// EAN-13 digit patterns: left half in odd (L) or even (G) parity, right half (R)
+const EAN_L = ["0001101", "0011001", "0010011", "0111101", "0100011", "0110001", "0101111", "0111011", "0110111", "0001011"];
+const EAN_G = ["0100111", "0110011", "0011011", "0100001", "0011101", "0111001", "0000101", "0010001", "0001001", "0010111"];
+const EAN_R = ["1110010", "1100110", "1101100", "1000010", "1011100", "1001110", "1010000", "1000100", "1001000", "1110100"];
+// The first digit isn't drawn; it sets the parity of the next six
+const EAN_PARITY = ["LLLLLL", "LLGLGG", "LLGGLG", "LLGGGL", "LGLLGG", "LGGLLG", "LGGGLL", "LGLGLG", "LGLGGL", "LGGLGL"];
+
+function widthsToModules(widths: string): string {
+  return widths
+    .split("")
+    .map((width, index) => (index % 2 === 0 ? "1" : "0").repeat(Number(width)))
+    .join("");
+}
+
+// Code 128 set B covers printable ASCII, enough for SKUs and most barcodes
+export function encodeCode128(value: string): string {
+  if (!value || !/^[\x20-\x7e]+$/.test(value)) {
+    throw new Error(`"${value}" can't be printed as a Code 128 barcode`);
+  }
+
+  const codes = value.split("").map((char) => char.charCodeAt(0) - 32);
+  const checksum = codes.reduce((sum, code, index) => sum + code * (index + 1), CODE128_START_B) % 103;
+
+  return [CODE128_START_B, ...codes, checksum, CODE128_STOP]
+    .map((code) => widthsToModules(CODE128_PATTERNS[code]))
+    .join("");
+}
+
+export function getEan13CheckDigit(digits: string): number {
+  const sum = digits
+    .slice(0, 12)
+    .split("")
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10;
+}
+
+export function isValidEan13(value: string): boolean {
+  return /^\d{13}$/.test(value) && getEan13CheckDigit(value) === Number(value[12]);
+}
+
+export function encodeEan13(value: string): string {
+  if (!isValidEan13(value)) {
+    throw new Error(`"${value}" is not a valid EAN-13 barcode`);
+  }
+
+  const digits = value.split("").map(Number);
+  const parity = EAN_PARITY[digits[0]];
+  const left = digits
+    .slice(1, 7)
+    .map((digit, index) => (parity[index] === "L" ? EAN_L : EAN_G)[digit])
+    .join("");
+  const right = digits
+    .slice(7)
+    .map((digit) => EAN_R[digit])
+    .join("");
+
+  return `101${left}01010${right}101`;
+}
+
+/**
+ * The symbol printed on a product's shelf label: its first barcode, as EAN-13
+ * when it is a valid one and Code 128 otherwise, or its SKU when it has no
+ * barcodes. Products with neither get no label.
+ */
+export function getLabelSymbol(product: Pick<Product, "sku" | "barcodes">): BarcodeSymbol | null {
+  const value = product.barcodes?.[0] || product.sku;
+  if (!value) return null;
+
+  if (isValidEan13(value)) {
+    return { symbology: "ean13", value, modules: encodeEan13(value) };
+  }
+  try {
+    return { symbology: "code128", value, modules: encodeCode128(value) };
+  } catch {
+    return null;
+  }
+}
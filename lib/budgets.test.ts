@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { buildBudgetReport, getBudgetPeriodRange, getBudgetStatus } from "@/lib/budgets";
+import { budget, financeCategory, financeRecord, stored } from "@/test/fixtures";
+
+describe("getBudgetPeriodRange", () => {
+  it("returns the month or year containing the day", () => {
+    expect(getBudgetPeriodRange("monthly", "2024-02-10")).toEqual({ from: "2024-02-01", to: "2024-02-29" });
+    expect(getBudgetPeriodRange("yearly", "2024-02-10")).toEqual({ from: "2024-01-01", to: "2024-12-31" });
+  });
+});
+
+describe("getBudgetStatus", () => {
+  it("warns from the alert percentage and flags expenses past their budget", () => {
+    expect(getBudgetStatus("expense", 79.9, 80)).toBe("ok");
+    expect(getBudgetStatus("expense", 80, 80)).toBe("warning");
+    expect(getBudgetStatus("expense", 100.1, 80)).toBe("over");
+  });
+
+  it("never flags income", () => {
+    expect(getBudgetStatus("income", 150, 80)).toBe("ok");
+  });
+});
+
+describe("buildBudgetReport", () => {
+  const categories = [
+    stored(financeCategory("Parts", "expense"), "parts"),
+    stored(financeCategory("Rent", "expense"), "rent"),
+    stored(financeCategory("Sales", "income"), "sales"),
+  ];
+
+  function record(categoryId: string, amount: number, date: string) {
+    return stored(financeRecord(categoryId, amount, { date }));
+  }
+
+  it("compares each budget with the records of its period", () => {
+    const rows = buildBudgetReport({
+      budgets: [
+        stored(budget("parts", 1000)),
+        stored(budget("rent", 1000)),
+        stored(budget("sales", 5000, { period: "yearly" })),
+        stored(budget("deleted", 100)),
+      ],
+      categories,
+      records: [
+        record("parts", 600, "2024-03-02T10:00:00.000Z"),
+        record("parts", 250, "2024-03-30"),
+        record("parts", 900, "2024-02-28"), // Previous month
+        record("rent", 1100, "2024-03-01"),
+        record("sales", 2000, "2024-01-15"),
+        record("sales", 4000, "2024-03-10"),
+      ],
+      day: "2024-03-15",
+      alertPercent: 80,
+    });
+
+    expect(rows.map(({ categoryName, actual, variance, percentUsed, status }) => ({
+      categoryName,
+      actual,
+      variance,
+      percentUsed,
+      status,
+    }))).toEqual([
+      { categoryName: "Rent", actual: 1100, variance: -100, percentUsed: 110, status: "over" },
+      { categoryName: "Parts", actual: 850, variance: 150, percentUsed: 85, status: "warning" },
+      { categoryName: "Sales", actual: 6000, variance: 1000, percentUsed: 120, status: "ok" },
+    ]);
+    expect(rows[2]).toMatchObject({ from: "2024-01-01", to: "2024-12-31" });
+  });
+});
@@ -0,0 +1,98 @@
+import { endOfMonth, endOfYear, format, parseISO, startOfMonth, startOfYear } from "date-fns";
+import type { Budget, BudgetPeriod, FinanceCategory, FinanceRecord } from "@/lib/db";
+import { roundCurrency } from "@/lib/utils";
+
+export const BUDGET_PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  monthly: "Monthly",
+  yearly: "Yearly",
+};
+
+// ok: within plan, warning: an expense past the alert percentage, over: an expense past its budget
+export type BudgetStatus = "ok" | "warning" | "over";
+
+export type BudgetRow = {
+  budgetId: string;
+  categoryId: string;
+  categoryName: string;
+  type: FinanceCategory["type"];
+  period: BudgetPeriod;
+  from: string; // yyyy-MM-dd range the budget is compared over
+  to: string;
+  budgeted: number;
+  actual: number;
+  variance: number; // Positive is good: spent less than planned, or earned more
+  percentUsed: number;
+  status: BudgetStatus;
+};
+
+// The month or year containing a day
+export function getBudgetPeriodRange(period: BudgetPeriod, day: string): { from: string; to: string } {
+  const date = parseISO(day);
+  const [start, end] =
+    period === "monthly" ? [startOfMonth(date), endOfMonth(date)] : [startOfYear(date), endOfYear(date)];
+  return { from: format(start, "yyyy-MM-dd"), to: format(end, "yyyy-MM-dd") };
+}
+
+export function getBudgetStatus(
+  type: FinanceCategory["type"],
+  percentUsed: number,
+  alertPercent: number
+): BudgetStatus {
+  // Income past its target is good news
+  if (type === "income") return "ok";
+  if (percentUsed > 100) return "over";
+  if (percentUsed >= alertPercent) return "warning";
+  return "ok";
+}
+
+// Budget against actual for the month or year of each budget that contains the day.
+// Record amounts are already in the base currency.
+export function buildBudgetReport({
+  budgets,
+  categories,
+  records,
+  day,
+  alertPercent,
+}: {
+  budgets: Budget[];
+  categories: FinanceCategory[];
+  records: FinanceRecord[];
+  day: string;
+  alertPercent: number;
+}): BudgetRow[] {
+  return budgets
+    .flatMap((budget): BudgetRow[] => {
+      const category = categories.find((entry) => entry.id === budget.categoryId);
+      if (!category) return [];
+
+      const { from, to } = getBudgetPeriodRange(budget.period, day);
+      const actual = roundCurrency(
+        records
+          .filter((record) => {
+            const date = record.date.split("T")[0];
+            return record.categoryId === budget.categoryId && date >= from && date <= to;
+          })
+          .reduce((sum, record) => sum + Number(record.amount), 0)
+      );
+      const budgeted = Number(budget.amount);
+      const percentUsed = budgeted > 0 ? Math.round((actual / budgeted) * 1000) / 10 : 0;
+
+      return [
+        {
+          budgetId: budget.id,
+          categoryId: category.id,
+          categoryName: category.name,
+          type: category.type,
+          period: budget.period,
+          from,
+          to,
+          budgeted,
+          actual,
+          variance: roundCurrency(category.type === "expense" ? budgeted - actual : actual - budgeted),
+          percentUsed,
+          status: getBudgetStatus(category.type, percentUsed, alertPercent),
+        },
+      ];
+    })
+    .sort((a, b) => a.type.localeCompare(b.type) || b.percentUsed - a.percentUsed);
+}
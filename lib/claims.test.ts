@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import type { Claim, Payment } from "@/lib/db";
+import { buildInsurerReceivables, getBillingSplit, getInsurerPortion, getPaidBy } from "@/lib/claims";
+import { type NewRecord, claim, payment, stored } from "@/test/fixtures";
+
+// A saved claim on request m1 with insurer i1
+function claimOnM1(overrides: Partial<NewRecord<Claim>> = {}) {
+  return stored(claim("m1", "i1", overrides));
+}
+
+function paidOnM1(amount: number, overrides: Partial<NewRecord<Payment>> = {}) {
+  return stored(payment("m1", amount, overrides));
+}
+
+describe("getInsurerPortion", () => {
+  it("assumes the claimed amount less the deductible until a decision", () => {
+    expect(getInsurerPortion(claimOnM1(), 1000)).toBe(700);
+  });
+
+  it("uses the approved amount once approved", () => {
+    expect(getInsurerPortion(claimOnM1({ status: "approved", approvedAmount: 500 }), 1000)).toBe(400);
+  });
+
+  it("never exceeds the request total or drops below zero", () => {
+    expect(getInsurerPortion(claimOnM1(), 300)).toBe(300);
+    expect(getInsurerPortion(claimOnM1({ claimedAmount: 50 }), 1000)).toBe(0);
+  });
+
+  it("leaves everything to the customer without a claim or once rejected", () => {
+    expect(getInsurerPortion(null, 1000)).toBe(0);
+    expect(getInsurerPortion(claimOnM1({ status: "rejected" }), 1000)).toBe(0);
+  });
+});
+
+describe("getPaidBy", () => {
+  it("nets refunds and skips voided entries for the given payer", () => {
+    const payments = [
+      paidOnM1(200),
+      paidOnM1(50, { type: "refund" }),
+      paidOnM1(75, { status: "voided" }),
+      paidOnM1(300, { payer: "insurer" }),
+    ];
+    expect(getPaidBy(payments, "customer")).toBe(150);
+    expect(getPaidBy(payments, "insurer")).toBe(300);
+  });
+});
+
+describe("getBillingSplit", () => {
+  it("splits the total and what each payer still owes", () => {
+    const split = getBillingSplit(1000, claimOnM1(), [paidOnM1(100), paidOnM1(250, { payer: "insurer" })]);
+    expect(split).toEqual({
+      insurerPortion: 700,
+      insurerPaid: 250,
+      insurerBalance: 450,
+      customerPortion: 300,
+      customerPaid: 100,
+      customerBalance: 200,
+    });
+  });
+});
+
+describe("buildInsurerReceivables", () => {
+  it("totals each insurer's claims, largest balance first", () => {
+    const insurers = [
+      { id: "i1", name: "Acme" },
+      { id: "i2", name: "Globex" },
+      { id: "i3", name: "No claims" },
+    ];
+    const claims = [
+      stored(claim("m1", "i1", { submittedAt: "2024-03-05" }), "a"),
+      stored(claim("m2", "i1", { submittedAt: "2024-02-01" }), "b"),
+      stored(claim("m3", "i1", { status: "rejected" }), "c"),
+      stored(claim("m4", "i2"), "d"),
+    ];
+    const requests = [
+      { id: "m1", insurerPortion: 500, insurerPaid: 100 },
+      { id: "m2", insurerPortion: 200, insurerPaid: 200 },
+      { id: "m3", insurerPortion: 900, insurerPaid: 0 },
+      { id: "m4", insurerPortion: 1000, insurerPaid: 0 },
+    ];
+
+    expect(buildInsurerReceivables(insurers, claims, requests)).toEqual([
+      {
+        insuranceId: "i2",
+        name: "Globex",
+        openClaims: 1,
+        billed: 1000,
+        received: 0,
+        outstanding: 1000,
+        oldestOpenClaim: "2024-03-01",
+      },
+      {
+        insuranceId: "i1",
+        name: "Acme",
+        openClaims: 1,
+        billed: 700,
+        received: 300,
+        outstanding: 400,
+        oldestOpenClaim: "2024-03-05",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,120 @@
+import type { Claim, ClaimStatus, Insurance, MaintenanceRequest, Payment, PaymentPayer } from "@/lib/db";
+import { roundCurrency } from "@/lib/utils";
+
+export const CLAIM_STATUS_LABELS: Record<ClaimStatus, string> = {
+  submitted: "Submitted",
+  approved: "Approved",
+  rejected: "Rejected",
+  paid: "Paid",
+};
+
+// Statuses a claim can be moved to by hand; it becomes paid once the insurer's payments cover its share
+export const CLAIM_STATUS_TRANSITIONS: Record<ClaimStatus, ClaimStatus[]> = {
+  submitted: ["approved", "rejected"],
+  approved: ["submitted", "rejected"],
+  rejected: ["submitted"],
+  paid: [],
+};
+
+export type BillingSplit = Required<
+  Pick<
+    MaintenanceRequest,
+    "insurerPortion" | "insurerPaid" | "insurerBalance" | "customerPortion" | "customerPaid" | "customerBalance"
+  >
+>;
+
+// The insurer pays what it covers less the deductible, never more than the request total.
+// Until a decision the claimed amount is assumed; a rejected claim leaves it all to the customer.
+export function getInsurerPortion(
+  claim: Pick<Claim, "status" | "claimedAmount" | "approvedAmount" | "deductible"> | null | undefined,
+  totalCost: number
+): number {
+  if (!claim || claim.status === "rejected") return 0;
+  const covered = claim.status === "submitted" ? claim.claimedAmount : claim.approvedAmount ?? claim.claimedAmount;
+  return roundCurrency(Math.min(Math.max(0, totalCost), Math.max(0, covered - claim.deductible)));
+}
+
+export function getPayer(payment: Pick<Payment, "payer">): PaymentPayer {
+  return payment.payer || "customer";
+}
+
+// Paid total of one payer, from the non-voided ledger entries
+export function getPaidBy(payments: Payment[], payer: PaymentPayer): number {
+  return payments
+    .filter((payment) => payment.status === "completed" && getPayer(payment) === payer)
+    .reduce((sum, payment) => (payment.type === "refund" ? sum - payment.amount : sum + payment.amount), 0);
+}
+
+export function getBillingSplit(
+  totalCost: number,
+  claim: Pick<Claim, "status" | "claimedAmount" | "approvedAmount" | "deductible"> | null | undefined,
+  payments: Payment[]
+): BillingSplit {
+  const insurerPortion = getInsurerPortion(claim, totalCost);
+  const customerPortion = roundCurrency(totalCost - insurerPortion);
+  const insurerPaid = roundCurrency(getPaidBy(payments, "insurer"));
+  const customerPaid = roundCurrency(getPaidBy(payments, "customer"));
+
+  return {
+    insurerPortion,
+    insurerPaid,
+    insurerBalance: roundCurrency(insurerPortion - insurerPaid),
+    customerPortion,
+    customerPaid,
+    customerBalance: roundCurrency(customerPortion - customerPaid),
+  };
+}
+
+export type InsurerReceivable = {
+  insuranceId: string;
+  name: string;
+  openClaims: number;
+  billed: number; // Insurer portions of the claims that are not rejected
+  received: number;
+  outstanding: number;
+  oldestOpenClaim?: string; // Submission date of the oldest claim still owed on
+};
+
+// What each insurer owes across its claims, largest balance first
+export function buildInsurerReceivables(
+  insurers: Pick<Insurance, "id" | "name">[],
+  claims: Claim[],
+  requests: Pick<MaintenanceRequest, "id" | "insurerPortion" | "insurerPaid">[]
+): InsurerReceivable[] {
+  const requestById = new Map(requests.map((request) => [request.id, request]));
+
+  return insurers
+    .map((insurer) => {
+      const row: InsurerReceivable = {
+        insuranceId: insurer.id,
+        name: insurer.name,
+        openClaims: 0,
+        billed: 0,
+        received: 0,
+        outstanding: 0,
+      };
+
+      claims
+        .filter((claim) => claim.insuranceId === insurer.id && claim.status !== "rejected")
+        .forEach((claim) => {
+          const request = requestById.get(claim.maintenanceId);
+          const billed = Number(request?.insurerPortion) || 0;
+          const received = Number(request?.insurerPaid) || 0;
+          row.billed += billed;
+          row.received += received;
+          if (billed - received > 0) {
+            row.openClaims++;
+            if (!row.oldestOpenClaim || claim.submittedAt < row.oldestOpenClaim) {
+              row.oldestOpenClaim = claim.submittedAt;
+            }
+          }
+        });
+
+      row.billed = roundCurrency(row.billed);
+      row.received = roundCurrency(row.received);
+      row.outstanding = roundCurrency(row.billed - row.received);
+      return row;
+    })
+    .filter((row) => row.billed > 0 || row.received > 0)
+    .sort((a, b) => b.outstanding - a.outstanding);
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { checkBaseVersion } from "@/lib/api-response";
+import { BASE_VERSION_HEADER, getConflictingFields, isStaleWrite } from "@/lib/conflicts";
+import { TIMESTAMP, client, stored } from "@/test/fixtures";
+
+const LATER = "2024-01-05T00:00:00.000Z";
+
+function write(method: "PUT" | "DELETE", baseVersion?: string) {
+  return new Request("http://garage.test/api/clients/c1", {
+    method,
+    headers: baseVersion ? { [BASE_VERSION_HEADER]: baseVersion } : {},
+  });
+}
+
+describe("isStaleWrite", () => {
+  it("lets writes through when the record is as the client loaded it", () => {
+    expect(isStaleWrite(TIMESTAMP, { updatedAt: TIMESTAMP })).toBe(false);
+  });
+
+  it("stops writes based on an older version or on a deleted record", () => {
+    expect(isStaleWrite(TIMESTAMP, { updatedAt: LATER })).toBe(true);
+    expect(isStaleWrite(TIMESTAMP, null)).toBe(true);
+  });
+
+  it("lets writes without a base version through", () => {
+    expect(isStaleWrite(null, { updatedAt: LATER })).toBe(false);
+  });
+});
+
+describe("checkBaseVersion", () => {
+  const current = stored(client(), "c1");
+
+  it("answers 409 with the server's record when someone saved in between", async () => {
+    const response = await checkBaseVersion(write("PUT", TIMESTAMP), async () => ({
+      success: true,
+      data: { ...current, updatedAt: LATER },
+    }));
+
+    expect(response?.status).toBe(409);
+    expect(await response?.json()).toMatchObject({
+      success: false,
+      conflict: { server: { id: "c1", updatedAt: LATER } },
+    });
+  });
+
+  it("goes ahead when the version matches or none was sent", async () => {
+    const load = async () => ({ success: true, data: current });
+
+    expect(await checkBaseVersion(write("PUT", TIMESTAMP), load)).toBeNull();
+    expect(await checkBaseVersion(write("PUT"), load)).toBeNull();
+  });
+
+  it("reports an edit of a deleted record as a conflict, but not its deletion", async () => {
+    const load = async () => ({ success: true, data: null });
+
+    const edit = await checkBaseVersion(write("PUT", TIMESTAMP), load);
+    expect(edit?.status).toBe(409);
+    expect(await edit?.json()).toMatchObject({ conflict: { server: null } });
+
+    const deletion = await checkBaseVersion(write("DELETE", TIMESTAMP), load);
+    expect(deletion?.status).toBe(200);
+  });
+
+  it("leaves lookup errors for the write to report", async () => {
+    const response = await checkBaseVersion(write("PUT", TIMESTAMP), async () => ({
+      success: false,
+      error: "Permission denied",
+    }));
+
+    expect(response).toBeNull();
+  });
+});
+
+describe("getConflictingFields", () => {
+  it("lists the fields the local change disagrees with, ignoring calculated ones", () => {
+    const server = { ...stored(client(), "c1"), updatedAt: LATER };
+    const local = { ...client({ email: "new@example.test" }), updatedAt: TIMESTAMP };
+
+    expect(getConflictingFields(local, server)).toEqual(["email"]);
+  });
+
+  it("finds nothing to compare against a deleted record", () => {
+    expect(getConflictingFields(client(), null)).toEqual([]);
+  });
+});
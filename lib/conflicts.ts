@@ -0,0 +1,81 @@
+/**
+ * Optimistic concurrency for writes made from the browser.
+ *
+ * Every PUT/DELETE sends the `updatedAt` of the record it was based on. The
+ * API route compares it with the stored record and answers 409 when someone
+ * else saved in between, so a write queued while offline can't silently
+ * overwrite newer changes. Shared by the routes and the sync service, so keep
+ * it free of server-only imports.
+ */
+
+export const BASE_VERSION_HEADER = "X-Base-Version";
+
+export interface VersionedRecord {
+  updatedAt?: string;
+}
+
+export interface ConflictBody<T = any> {
+  success: false;
+  error: string;
+  conflict: {
+    // The record as it is now, or null when it was deleted
+    server: T | null;
+  };
+}
+
+// Bookkeeping and values the server calculates itself; differences here
+// aren't something the user can meaningfully choose between
+const IGNORED_FIELDS = new Set([
+  "id",
+  "createdAt",
+  "updatedAt",
+  "totalCost",
+  "remainingBalance",
+  "paidAmount",
+  "paymentStatus",
+  "serviceCost",
+  "productCost",
+  "subtotal",
+  "taxRate",
+  "taxableAmount",
+  "taxAmount",
+  "invoiceNumber",
+  "quoteNumber",
+]);
+
+export function getBaseVersion(request: Request): string | null {
+  return request.headers.get(BASE_VERSION_HEADER);
+}
+
+// Writes without a base version (older clients, scripts) are let through
+export function isStaleWrite(
+  baseVersion: string | null,
+  current: VersionedRecord | null | undefined
+): boolean {
+  if (!baseVersion) return false;
+  if (!current) return true;
+  return current.updatedAt !== baseVersion;
+}
+
+export function createConflictBody<T>(server: T | null): ConflictBody<T> {
+  return {
+    success: false,
+    error: server
+      ? "This record was changed by someone else since you loaded it"
+      : "This record was deleted by someone else",
+    conflict: { server },
+  };
+}
+
+// Fields the local change sets to something other than the server's value
+export function getConflictingFields(
+  local: Record<string, any> | null | undefined,
+  server: Record<string, any> | null | undefined
+): string[] {
+  if (!local || !server) return [];
+  return Object.keys(local).filter(
+    (field) =>
+      !IGNORED_FIELDS.has(field) &&
+      JSON.stringify(local[field] ?? null) !== JSON.stringify(server[field] ?? null)
+  );
+}
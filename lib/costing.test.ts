@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import type { CostLayer } from "@/lib/db";
+import { getCostOfGoods, getStockValue } from "@/lib/costing";
+import { product, savedRequest, stored } from "@/test/fixtures";
+
+const filter = stored(product("s1", { purchasePrice: 4, warehouseStock: 6, shopStock: 4 }), "p1");
+
+function layer(unitCost: number, remaining: number, productId = filter.id): CostLayer {
+  return { id: `${productId}-${unitCost}`, productId, unitCost, quantity: remaining, remaining, receivedAt: "2024-01-01" };
+}
+
+describe("getStockValue", () => {
+  it("values stock at what is left of its cost layers", () => {
+    expect(getStockValue(filter, [layer(3, 4), layer(5, 6)])).toBe(42);
+  });
+
+  it("values stock no layer covers at the purchase price", () => {
+    expect(getStockValue(filter, [layer(3, 4)])).toBe(12 + 6 * 4);
+  });
+
+  it("ignores layers of other products", () => {
+    expect(getStockValue(filter, [layer(100, 10, "p2")])).toBe(40);
+  });
+});
+
+describe("getCostOfGoods", () => {
+  it("uses the cost recorded on each line", () => {
+    const request = savedRequest({
+      productsUsed: [
+        { productId: filter.id, quantity: 2, stockSource: "shop", unitCost: 3.5 },
+        { productId: filter.id, quantity: 1, stockSource: "warehouse", unitCost: 5 },
+      ],
+    });
+    expect(getCostOfGoods(request, [filter])).toBe(12);
+  });
+
+  it("falls back to the purchase price for lines from before costing began", () => {
+    const request = savedRequest({ productsUsed: [{ productId: filter.id, quantity: 3, stockSource: "shop" }] });
+    expect(getCostOfGoods(request, [filter])).toBe(12);
+
+    const removed = savedRequest({ productsUsed: [{ productId: "gone", quantity: 3, stockSource: "shop" }] });
+    expect(getCostOfGoods(removed, [filter])).toBe(0);
+  });
+});
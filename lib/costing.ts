@@ -0,0 +1,35 @@
+import type { CostLayer, CostingMethod, MaintenanceRequest, Product } from "@/lib/db";
+
+export const COSTING_METHOD_LABELS: Record<CostingMethod, string> = {
+  fifo: "FIFO (first in, first out)",
+  "weighted-average": "Weighted average",
+};
+
+/**
+ * Value of a product's stock at cost: what is left of its cost layers, plus
+ * any stock no layer covers yet (held before costing began) at the purchase price.
+ */
+export function getStockValue(product: Product, layers: CostLayer[]): number {
+  let covered = 0;
+  let value = 0;
+  for (const layer of layers) {
+    if (layer.productId !== product.id) continue;
+    covered += Number(layer.remaining || 0);
+    value += Number(layer.remaining || 0) * Number(layer.unitCost || 0);
+  }
+
+  const uncovered = Number(product.warehouseStock || 0) + Number(product.shopStock || 0) - covered;
+  return value + Math.max(uncovered, 0) * Number(product.purchasePrice || 0);
+}
+
+/**
+ * Cost of the parts used on a job. Lines from before costing began have no
+ * recorded cost and fall back to the product's purchase price.
+ */
+export function getCostOfGoods(request: Pick<MaintenanceRequest, "productsUsed">, products: Product[]): number {
+  return request.productsUsed.reduce((sum, line) => {
+    const unitCost =
+      line.unitCost ?? products.find((product) => product.id === line.productId)?.purchasePrice ?? 0;
+    return sum + Number(line.quantity || 0) * Number(unitCost);
+  }, 0);
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { getCreditBalance, getCustomerBalance, isCreditIn } from "@/lib/credits";
+import { creditTransaction, savedRequest, stored } from "@/test/fixtures";
+
+describe("getCreditBalance", () => {
+  it("adds deposits and overpayments and takes off applications and refunds", () => {
+    const entries = [
+      creditTransaction("c1", "deposit", 100),
+      creditTransaction("c1", "overpayment", 20.1),
+      creditTransaction("c1", "application", 50),
+      creditTransaction("c1", "refund", 30),
+    ].map((entry) => stored(entry));
+
+    expect(entries.filter(isCreditIn).map((entry) => entry.type)).toEqual(["deposit", "overpayment"]);
+    expect(getCreditBalance(entries)).toBe(40.1);
+  });
+
+  it("leaves voided entries out", () => {
+    const entries = [
+      creditTransaction("c1", "deposit", 100),
+      creditTransaction("c1", "application", 60, { status: "voided" }),
+    ].map((entry) => stored(entry));
+
+    expect(getCreditBalance(entries)).toBe(100);
+  });
+});
+
+describe("getCustomerBalance", () => {
+  it("counts only the client's share when an insurer pays the rest", () => {
+    expect(getCustomerBalance(savedRequest({ remainingBalance: 500 }))).toBe(500);
+    expect(getCustomerBalance(savedRequest({ remainingBalance: 500, customerBalance: 120 }))).toBe(120);
+  });
+});
@@ -0,0 +1,30 @@
+import type { CreditTransaction, CreditTransactionType, MaintenanceRequest } from "@/lib/db";
+import { roundCurrency } from "@/lib/utils";
+
+export const CREDIT_TYPE_LABELS: Record<CreditTransactionType, string> = {
+  deposit: "Deposit",
+  overpayment: "Overpayment",
+  application: "Applied to job",
+  refund: "Refund",
+};
+
+// Entries that add to the account; the others draw on it
+export function isCreditIn(entry: Pick<CreditTransaction, "type">): boolean {
+  return entry.type === "deposit" || entry.type === "overpayment";
+}
+
+// Available credit from the non-voided entries
+export function getCreditBalance(entries: CreditTransaction[]): number {
+  return roundCurrency(
+    entries
+      .filter((entry) => entry.status === "completed")
+      .reduce((sum, entry) => (isCreditIn(entry) ? sum + entry.amount : sum - entry.amount), 0)
+  );
+}
+
+// What the client still owes on a request; with an insurance claim only their share counts
+export function getCustomerBalance(
+  request: Pick<MaintenanceRequest, "remainingBalance" | "customerBalance">
+): number {
+  return roundCurrency(Number(request.customerBalance ?? request.remainingBalance) || 0);
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import {
+  convertFromBase,
+  convertToBase,
+  findExchangeRate,
+  getSecondaryCurrencies,
+  isCurrencyCode,
+  parseCurrencyList,
+  scaleConversion,
+} from "@/lib/currency";
+import { exchangeRate, stored } from "@/test/fixtures";
+
+const rates = [
+  exchangeRate("EUR", "2024-01-01", 1.1),
+  exchangeRate("EUR", "2024-02-01", 1.2),
+  exchangeRate("GBP", "2024-01-15", 1.3),
+].map((rate) => stored(rate));
+
+describe("currency codes", () => {
+  it("accepts ISO 4217 codes only", () => {
+    expect(isCurrencyCode("EUR")).toBe(true);
+    expect(isCurrencyCode("eur")).toBe(false);
+    expect(isCurrencyCode("EURO")).toBe(false);
+  });
+
+  it("parses a list, upper-casing and dropping duplicates and unknown codes", () => {
+    expect(parseCurrencyList("eur, GBP ,eur;xx1")).toEqual(["EUR", "GBP"]);
+    expect(parseCurrencyList(undefined)).toEqual([]);
+  });
+
+  it("leaves the base currency out of the secondary currencies", () => {
+    expect(getSecondaryCurrencies({ currency: "USD", secondaryCurrencies: "EUR, USD" })).toEqual(["EUR"]);
+  });
+});
+
+describe("findExchangeRate", () => {
+  it("takes the latest rate on or before the day", () => {
+    expect(findExchangeRate(rates, "EUR", "2024-01-31T12:00:00Z")?.rate).toBe(1.1);
+    expect(findExchangeRate(rates, "EUR", "2024-02-01")?.rate).toBe(1.2);
+  });
+
+  it("returns null before the first rate", () => {
+    expect(findExchangeRate(rates, "GBP", "2024-01-14")).toBeNull();
+  });
+});
+
+describe("convertToBase", () => {
+  it("leaves base currency amounts as they are", () => {
+    expect(convertToBase(10.005, "USD", "2024-03-01", rates, "USD")).toEqual({ amount: 10.01 });
+    expect(convertToBase(10, undefined, "2024-03-01", rates, "USD")).toEqual({ amount: 10 });
+  });
+
+  it("converts at the rate of the transaction date", () => {
+    expect(convertToBase(100, "EUR", "2024-01-20", rates, "USD")).toEqual({
+      amount: 110,
+      conversion: { currency: "EUR", foreignAmount: 100, exchangeRate: 1.1 },
+    });
+  });
+
+  it("throws when no rate has been entered yet", () => {
+    expect(() => convertToBase(100, "GBP", "2024-01-01", rates, "USD")).toThrow(
+      "No exchange rate for GBP on or before 2024-01-01"
+    );
+  });
+});
+
+describe("scaled and reverse conversions", () => {
+  it("scales the foreign amount to part of the base amount", () => {
+    expect(scaleConversion({ currency: "EUR", foreignAmount: 100, exchangeRate: 1.25 }, 50).foreignAmount).toBe(40);
+  });
+
+  it("converts base amounts back, treating a missing rate as zero", () => {
+    expect(convertFromBase(120, 1.2)).toBe(100);
+    expect(convertFromBase(120, 0)).toBe(0);
+  });
+});
@@ -0,0 +1,79 @@
+import type { ExchangeRate, GarageSettings } from "@/lib/db";
+import { roundCurrency } from "@/lib/utils";
+
+// How an amount taken in a secondary currency was converted; the record's own amount is in the base currency
+export type CurrencyConversion = {
+  currency: string;
+  foreignAmount: number;
+  exchangeRate: number; // Base currency value of one unit of the foreign currency
+};
+
+export function isCurrencyCode(value: string): boolean {
+  if (!/^[A-Z]{3}$/.test(value)) return false;
+  try {
+    new Intl.NumberFormat("en-US", { style: "currency", currency: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// "eur, GBP ,eur" -> ["EUR", "GBP"]; unknown codes are dropped
+export function parseCurrencyList(value: string | undefined): string[] {
+  const codes = (value || "")
+    .split(/[\s,;]+/)
+    .map((code) => code.trim().toUpperCase())
+    .filter(isCurrencyCode);
+  return Array.from(new Set(codes));
+}
+
+// Currencies the shop quotes and takes payment in besides the base currency
+export function getSecondaryCurrencies(
+  garage: Pick<GarageSettings, "currency" | "secondaryCurrencies">
+): string[] {
+  return parseCurrencyList(garage.secondaryCurrencies).filter((code) => code !== garage.currency);
+}
+
+// Rate in effect on a day: the latest one entered on or before it
+export function findExchangeRate(
+  rates: ExchangeRate[],
+  currency: string,
+  date: string
+): ExchangeRate | null {
+  const day = date.split("T")[0];
+  return rates
+    .filter((rate) => rate.currency === currency && rate.date <= day)
+    .reduce<ExchangeRate | null>((latest, rate) => (!latest || rate.date > latest.date ? rate : latest), null);
+}
+
+// Base currency amount of a transaction, converted at the rate of its date
+export function convertToBase(
+  amount: number,
+  currency: string | undefined,
+  date: string,
+  rates: ExchangeRate[],
+  baseCurrency: string
+): { amount: number; conversion?: CurrencyConversion } {
+  if (!currency || currency === baseCurrency) return { amount: roundCurrency(amount) };
+
+  const rate = findExchangeRate(rates, currency, date);
+  if (!rate) {
+    throw new Error(`No exchange rate for ${currency} on or before ${date.split("T")[0]}`);
+  }
+
+  const exchangeRate = Number(rate.rate);
+  return {
+    amount: roundCurrency(amount * exchangeRate),
+    conversion: { currency, foreignAmount: roundCurrency(amount), exchangeRate },
+  };
+}
+
+// The same conversion for part of the base amount, e.g. when an overpayment is split off
+export function scaleConversion(conversion: CurrencyConversion, baseAmount: number): CurrencyConversion {
+  return { ...conversion, foreignAmount: roundCurrency(baseAmount / conversion.exchangeRate) };
+}
+
+// Base currency amount shown in a secondary currency, e.g. invoice totals
+export function convertFromBase(amount: number, exchangeRate: number): number {
+  return exchangeRate > 0 ? roundCurrency(amount / exchangeRate) : 0;
+}
@@ -0,0 +1,238 @@
+import { describe, expect, it } from "vitest";
+import { type MaintenanceRequest, calculateMaintenanceTotals, type db as Db } from "@/lib/db";
+import {
+  ADMIN_NAME,
+  createRequest,
+  creditTransaction,
+  garageSettings,
+  payment,
+  product,
+  supplier,
+} from "@/test/fixtures";
+import { useTempStore } from "@/test/temp-store";
+
+const store = useTempStore();
+
+describe("products.moveStock", () => {
+  it("never takes stock below zero, even when jobs take it at the same time", async () => {
+    const db = await store.loadDb();
+    const { id: supplierId } = await db.suppliers.create(supplier(), ADMIN_NAME);
+    const { id } = await db.products.create(product(supplierId, { shopStock: 1 }), ADMIN_NAME);
+
+    const take = () => db.products.moveStock(id, "shop", -1, { reason: "sale" }, ADMIN_NAME);
+    const results = await Promise.allSettled([take(), take()]);
+
+    expect(results.map((result) => result.status).sort()).toEqual(["fulfilled", "rejected"]);
+    expect((await db.products.getById(id))?.shopStock).toBe(0);
+  });
+
+  it("leaves stock unchanged when a later step of the transaction fails", async () => {
+    const db = await store.loadDb();
+    const { id: supplierId } = await db.suppliers.create(supplier(), ADMIN_NAME);
+    const { id } = await db.products.create(product(supplierId, { warehouseStock: 5 }), ADMIN_NAME);
+
+    await expect(
+      db.transaction(async () => {
+        await db.products.moveStock(id, "warehouse", 3, { reason: "receipt" }, ADMIN_NAME);
+        throw new Error("Expense record failed");
+      })
+    ).rejects.toThrow("Expense record failed");
+
+    expect((await db.products.getById(id))?.warehouseStock).toBe(5);
+    expect(await db.stockMovements.getByProductId(id)).toHaveLength(1);
+  });
+});
+
+describe("activity log", () => {
+  it("records the user each write was made by", async () => {
+    const db = await store.loadDb();
+    const { id: supplierId } = await db.suppliers.create(supplier(), "Alex");
+    const { id } = await db.products.create(product(supplierId, { shopStock: 2 }), ADMIN_NAME);
+    await db.products.moveStock(id, "shop", -1, { reason: "sale" }, "Alex");
+
+    const logs = await db.logs.getAll();
+    expect(logs.map((log) => log.adminName).sort()).toEqual(["Alex", "Alex", ADMIN_NAME]);
+    expect((await db.stockMovements.getByProductId(id)).map((movement) => movement.userName)).toContain("Alex");
+  });
+});
+
+describe("payment ledger", () => {
+  it("keeps the request's paid total in step with payments and refunds", async () => {
+    const db = await store.loadDb();
+    const request = await createRequest(db);
+    await db.payments.create(payment(request.id, 40, { clientId: request.clientId }));
+    await db.payments.create(payment(request.id, 10, { clientId: request.clientId, type: "refund" }));
+
+    const updated = await db.maintenance.getById(request.id);
+    expect(updated).toMatchObject({
+      paidAmount: 30,
+      remainingBalance: request.totalCost - 30,
+      paymentStatus: "partial",
+    });
+    expect(await db.payments.getByMaintenanceId(request.id)).toHaveLength(2);
+  });
+
+  it("refuses refunds larger than what was paid", async () => {
+    const db = await store.loadDb();
+    const request = await createRequest(db);
+    await db.payments.create(payment(request.id, 20, { clientId: request.clientId }));
+
+    const refund = payment(request.id, 25, { clientId: request.clientId, type: "refund" });
+    await expect(db.payments.create(refund)).rejects.toThrow("Refund amount cannot exceed the amount paid");
+    expect((await db.maintenance.getById(request.id))?.paidAmount).toBe(20);
+  });
+
+  it("keeps voided payments in the ledger without counting them", async () => {
+    const db = await store.loadDb();
+    const request = await createRequest(db);
+    const { id } = await db.payments.create(payment(request.id, request.totalCost, { clientId: request.clientId }));
+    expect((await db.maintenance.getById(request.id))?.paymentStatus).toBe("paid");
+
+    await db.payments.void(id, "Card declined", ADMIN_NAME);
+
+    expect(await db.payments.getById(id)).toMatchObject({ status: "voided", voidReason: "Card declined" });
+    expect(await db.maintenance.getById(request.id)).toMatchObject({ paidAmount: 0, paymentStatus: "pending" });
+    await expect(db.payments.void(id, "Again", ADMIN_NAME)).rejects.toThrow("already been voided");
+  });
+
+  it("opens the ledger of requests paid before it existed with what they had paid", async () => {
+    const db = await store.loadDb();
+    const { getStorageAdapter } = await import("@/lib/storage");
+    const request = await createRequest(db);
+    await getStorageAdapter().hset(`maintenance:${request.id}`, { paidAmount: 30 });
+
+    await db.payments.create(payment(request.id, 20, { clientId: request.clientId }));
+
+    const ledger = await db.payments.getByMaintenanceId(request.id);
+    expect(ledger.map((entry) => [entry.reference, entry.amount])).toEqual(
+      expect.arrayContaining([["Opening balance", 30], [undefined, 20]])
+    );
+    expect((await db.maintenance.getById(request.id))?.paidAmount).toBe(50);
+  });
+
+  it("saves nothing, not even the opening entry, when a payment is refused", async () => {
+    const db = await store.loadDb();
+    const { getStorageAdapter } = await import("@/lib/storage");
+    const request = await createRequest(db);
+    await getStorageAdapter().hset(`maintenance:${request.id}`, { paidAmount: 30 });
+
+    await expect(
+      db.payments.create(payment(request.id, 20, { clientId: request.clientId, payer: "insurer" }))
+    ).rejects.toThrow("Record an insurance claim");
+
+    expect(await db.payments.getByMaintenanceId(request.id)).toEqual([]);
+  });
+});
+
+describe("client credit", () => {
+  // A request owing 100 and a client with the given deposit on account
+  async function withDeposit(db: typeof Db, amount: number) {
+    const request = await createRequest(db);
+    const deposit = await db.credits.create(
+      creditTransaction(request.clientId, "deposit", amount, { method: "cash" })
+    );
+    return { request, deposit };
+  }
+
+  function application(request: Pick<MaintenanceRequest, "id" | "clientId">, amount: number) {
+    return creditTransaction(request.clientId, "application", amount, { maintenanceId: request.id });
+  }
+
+  it("pays a request from the account and takes it off the balance", async () => {
+    const db = await store.loadDb();
+    const { request } = await withDeposit(db, 80);
+
+    await db.credits.create(application(request, 50));
+
+    expect(await db.credits.getBalance(request.clientId)).toBe(30);
+    expect((await db.maintenance.getById(request.id))?.paidAmount).toBe(50);
+    expect(await db.payments.getByMaintenanceId(request.id)).toEqual([
+      expect.objectContaining({ method: "credit", amount: 50 }),
+    ]);
+  });
+
+  it("refuses to apply more than the client has or owes", async () => {
+    const db = await store.loadDb();
+    const { request } = await withDeposit(db, 500);
+
+    await expect(db.credits.create(application(request, 150))).rejects.toThrow("cannot exceed what the client owes");
+    await expect(db.credits.create(application(request, 600))).rejects.toThrow("only has 500.00 of credit");
+    expect(await db.payments.getByMaintenanceId(request.id)).toEqual([]);
+  });
+
+  it("takes an application's payment back off the request when it is voided", async () => {
+    const db = await store.loadDb();
+    const { request } = await withDeposit(db, 80);
+    const applied = await db.credits.create(application(request, 50));
+
+    await db.credits.void(applied.id, "Wrong job", ADMIN_NAME);
+
+    expect(await db.credits.getBalance(request.clientId)).toBe(80);
+    expect(await db.payments.getByMaintenanceId(request.id)).toEqual([expect.objectContaining({ status: "voided" })]);
+    expect((await db.maintenance.getById(request.id))?.paidAmount).toBe(0);
+  });
+
+  it("won't void a deposit that has been spent", async () => {
+    const db = await store.loadDb();
+    const { request, deposit } = await withDeposit(db, 80);
+    await db.credits.create(application(request, 50));
+
+    await expect(db.credits.void(deposit.id, "Bounced", ADMIN_NAME)).rejects.toThrow("already been used");
+    expect(await db.credits.getBalance(request.clientId)).toBe(30);
+  });
+
+  it("keeps the entry and its payment when a later step of the void fails", async () => {
+    const db = await store.loadDb();
+    const { request } = await withDeposit(db, 80);
+    const applied = await db.credits.create(application(request, 50));
+
+    await expect(
+      db.transaction(async () => {
+        await db.credits.void(applied.id, "Wrong job", ADMIN_NAME);
+        throw new Error("Finance record failed");
+      })
+    ).rejects.toThrow("Finance record failed");
+
+    expect(await db.credits.getById(applied.id)).toMatchObject({ status: "completed" });
+    expect((await db.maintenance.getById(request.id))?.paidAmount).toBe(50);
+  });
+});
+
+describe("calculateMaintenanceTotals", () => {
+  it("taxes labour and fees but not parts when parts are exempt", () => {
+    const totals = calculateMaintenanceTotals(
+      { serviceCost: 100, productCost: 50, additionalFee: 10 },
+      garageSettings({ taxRate: 10, taxParts: false })
+    );
+    expect(totals).toEqual({
+      serviceCost: 100,
+      productCost: 50,
+      subtotal: 160,
+      taxRate: 10,
+      taxableAmount: 110,
+      taxAmount: 11,
+      totalCost: 171,
+    });
+  });
+
+  it("spreads a discount over taxed and untaxed lines in proportion", () => {
+    const totals = calculateMaintenanceTotals(
+      { serviceCost: 100, productCost: 100, discount: 50 },
+      garageSettings({ taxRate: 10, taxParts: false })
+    );
+    expect(totals).toMatchObject({ subtotal: 150, taxableAmount: 75, taxAmount: 7.5, totalCost: 157.5 });
+  });
+
+  it("rounds every amount to cents", () => {
+    const totals = calculateMaintenanceTotals(
+      { serviceCost: 33.333, productCost: 0 },
+      garageSettings({ taxRate: 8.5 })
+    );
+    expect(totals).toMatchObject({ serviceCost: 33.33, taxAmount: 2.83, totalCost: 36.16 });
+  });
+
+  it("charges no tax on a request with nothing on it", () => {
+    const totals = calculateMaintenanceTotals({ serviceCost: 0, productCost: 0 }, garageSettings({ taxRate: 10 }));
+    expect(totals).toMatchObject({ taxableAmount: 0, taxAmount: 0, totalCost: 0 });
+  });
+});
@@ -1,10 +1,21 @@
-import { Redis } from "@upstash/redis";
-
-// Initialize Redis client
-const redis = new Redis({
-  url: process.env.KV_REST_API_URL || "",
-  token: process.env.KV_REST_API_TOKEN || "",
-});
+import { createHash, randomBytes } from "crypto";
+import { getStorageAdapter, type StoreSnapshot } from "@/lib/storage";
+import type { BackupRestore } from "@/lib/backups";
+import { roundCurrency } from "@/lib/utils";
+import { findProductByCode, normalizeCode } from "@/lib/product-codes";
+import type { Role } from "@/lib/auth/permissions";
+import {
+  findBookingConflict,
+  isActiveAppointment,
+  type BookingSlot,
+} from "@/lib/appointments";
+import { getLoggedHours } from "@/lib/labour";
+import { CLAIM_STATUS_LABELS, CLAIM_STATUS_TRANSITIONS, getBillingSplit, getPaidBy } from "@/lib/claims";
+import { hasLegacyPolicy } from "@/lib/policies";
+import { CREDIT_TYPE_LABELS, getCreditBalance, getCustomerBalance } from "@/lib/credits";
+
+// Storage backend (Upstash Redis or the local data file, see lib/storage)
+const storage = getStorageAdapter();
 
 // Entity types
 export type Client = {
@@ -38,6 +49,7 @@ export type Insurance = {
   email: string;
   phone: string;
   address: string;
+  // Legacy single policy, converted to InsurancePolicy records by db.policies.migrateLegacy
   policyNumber?: string;
   coverageType?: string;
   expiryDate?: string;
@@ -45,11 +57,48 @@ export type Insurance = {
   updatedAt: string;
 };
 
+// A car's policy with an insurance company; a car can have several over the years
+export type InsurancePolicy = {
+  id: string;
+  carUin: string;
+  insuranceId: string;
+  policyNumber: string;
+  coverageType?: string;
+  startDate: string;
+  expiryDate?: string; // Only unset on policies migrated without one
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ClaimStatus = "submitted" | "approved" | "rejected" | "paid";
+
+// Insurance claim for the repair done on a maintenance request, one per request
+export type Claim = {
+  id: string;
+  maintenanceId: string;
+  insuranceId: string;
+  claimNumber: string; // Reference given by the insurer
+  status: ClaimStatus;
+  claimedAmount: number;
+  approvedAmount?: number; // Set when the insurer approves
+  deductible: number; // Excess the customer pays themselves
+  notes?: string;
+  submittedAt: string;
+  decidedAt?: string; // Approved or rejected
+  paidAt?: string; // The insurer's share was paid in full
+  createdAt: string;
+  updatedAt: string;
+};
+
 export type Service = {
   id: string;
   name: string;
   description: string;
   standardFee: number;
+  intervalKm?: number; // Recommended distance between services, unset = none
+  intervalMonths?: number; // Recommended time between services, unset = none
+  standardHours?: number; // Book labour time for one unit, unset = not tracked
   createdAt: string;
   updatedAt: string;
 };
@@ -65,10 +114,53 @@ export type Product = {
   shopStock: number;
   supplierId: string;
   lowStockThreshold: number;
+  sku?: string; // Our own stock code, unique
+  partNumber?: string; // Manufacturer part number
+  barcodes?: string[]; // Unique; the first is printed on shelf labels
   createdAt: string;
   updatedAt: string;
 };
 
+export type StockLocation = "warehouse" | "shop";
+
+export type StockMovementReason =
+  | "sale" // Used on a maintenance job
+  | "return" // Back from a job that was changed or deleted
+  | "transfer"
+  | "adjustment"
+  | "receipt" // Delivered by a supplier
+  | "stock-count"; // Stock set to a counted figure
+
+// Append-only record of a change to a product's stock
+export type StockMovement = {
+  id: string;
+  productId: string;
+  location: StockLocation;
+  quantity: number; // Change in stock, negative when stock goes out
+  balance: number; // Stock at the location after the movement
+  reason: StockMovementReason;
+  documentType?: "maintenance" | "purchase-order";
+  documentId?: string;
+  notes?: string;
+  unitCost?: number; // Cost per unit moved in or out; transfers keep their cost and have none
+  userName: string;
+  createdAt: string;
+};
+
+export type CostingMethod = "fifo" | "weighted-average";
+
+// Stock that came in at one unit cost. Stock going out draws layers down oldest
+// first under FIFO, or all in proportion under weighted average.
+export type CostLayer = {
+  id: string;
+  productId: string;
+  unitCost: number;
+  quantity: number; // As it came in
+  remaining: number;
+  movementId?: string; // None for stock held before costing began
+  receivedAt: string;
+};
+
 export type Supplier = {
   id: string;
   name: string;
@@ -76,6 +168,47 @@ export type Supplier = {
   address: string;
   phone: string;
   email: string;
+  leadTimeDays?: number; // Days from ordering to delivery, unset = garage default
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type PurchaseOrderStatus =
+  | "draft"
+  | "sent"
+  | "partially-received"
+  | "received"
+  | "cancelled";
+
+export type PurchaseOrderLine = {
+  productId: string;
+  quantity: number;
+  unitCost: number; // Agreed with the supplier, becomes the product's purchase price on receipt
+  receivedQuantity: number;
+};
+
+// A delivery booked in against an order
+export type GoodsReceipt = {
+  id: string;
+  date: string;
+  location: StockLocation;
+  lines: { productId: string; quantity: number }[];
+  amount: number;
+  financeRecordId?: string; // Expense recorded for the delivery
+  receivedBy: string;
+};
+
+// Restocking order placed with a supplier
+export type PurchaseOrder = {
+  id: string;
+  orderNumber: string;
+  supplierId: string;
+  status: PurchaseOrderStatus;
+  lines: PurchaseOrderLine[];
+  receipts: GoodsReceipt[];
+  orderDate?: string; // Set when the order is sent
+  expectedDate?: string;
+  notes?: string;
   createdAt: string;
   updatedAt: string;
 };
@@ -84,22 +217,50 @@ export type MaintenanceRequest = {
   id: string;
   carUin: string;
   clientId: string;
-  servicesUsed: { serviceId: string; quantity: number }[];
+  servicesUsed: {
+    serviceId: string;
+    quantity: number;
+    technicianId?: string; // Employee who did this line
+    unitPrice?: number; // Fee charged, saved when the line is first added
+  }[];
   productsUsed: {
     productId: string;
     quantity: number;
     stockSource: "warehouse" | "shop";
+    unitCost?: number; // Cost of goods per unit, set when the stock is taken
+    unitPrice?: number; // Sale price charged, saved when the line is first added
   }[];
   additionalFee: number;
   discount: number;
   discountJustification?: string;
-  totalCost: number;
+  serviceCost?: number; // Line totals at the last recalculation
+  productCost?: number;
+  subtotal?: number; // Before tax
+  taxRate?: number; // Snapshot, so later rate changes don't alter this request
+  taxableAmount?: number;
+  taxAmount?: number;
+  totalCost: number; // Including tax
   paidAmount: number;
   remainingBalance: number;
   paymentStatus: "pending" | "partial" | "paid";
+  // Split of the total while an insurance claim is open, kept in sync with the ledger
+  insurerPortion?: number;
+  insurerPaid?: number;
+  insurerBalance?: number;
+  customerPortion?: number;
+  customerPaid?: number;
+  customerBalance?: number;
   startDate: string;
   endDate?: string;
+  odometer?: number; // Reading in km when the car came in
+  appointmentId?: string; // Booking this request was opened from
+  assignedEmployeeIds?: string[];
+  labourBilling?: "standard" | "hourly"; // Unset = standard service fees
+  labourRate?: number; // Per hour, snapshot taken when hourly billing was chosen
+  labourHours?: number; // Finished time entries, kept in sync by db.timeEntries
   status: "pending" | "in-progress" | "completed" | "cancelled";
+  invoiceNumber?: string; // Assigned the first time an invoice is issued
+  quoteNumber?: string;
   createdAt: string;
   updatedAt: string;
   // Enriched properties (added at runtime)
@@ -121,6 +282,108 @@ export type MaintenanceRequest = {
   }>;
 };
 
+export type PaymentMethod = "cash" | "card" | "bank_transfer" | "check" | "credit"; // credit = from the client's credit account
+
+export type PaymentPayer = "customer" | "insurer";
+
+// One entry in the payment ledger of a maintenance request
+export type Payment = {
+  id: string;
+  maintenanceId: string;
+  clientId: string;
+  type: "payment" | "refund";
+  payer?: PaymentPayer; // Unset = customer
+  amount: number; // Always positive, refunds are subtracted from the paid total
+  date: string;
+  method: PaymentMethod;
+  currency?: string; // Unset = base currency; amount is then the converted value
+  foreignAmount?: number; // What was handed over, in that currency
+  exchangeRate?: number; // Rate of the payment date the amount was converted at
+  reference?: string; // Card slip, transfer or check number
+  receivedBy: string;
+  notes?: string;
+  status: "completed" | "voided";
+  voidedAt?: string;
+  voidedBy?: string;
+  voidReason?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+// Optional details captured when taking a payment
+export type PaymentDetails = Partial<
+  Pick<Payment, "payer" | "date" | "method" | "currency" | "reference" | "receivedBy" | "notes">
+>;
+
+export type CreditTransactionType = "deposit" | "overpayment" | "application" | "refund";
+
+// One movement on a client's credit account; deposits and overpayments add to it,
+// applications to a maintenance request and cash refunds draw on it
+export type CreditTransaction = {
+  id: string;
+  clientId: string;
+  type: CreditTransactionType;
+  amount: number; // Always positive
+  date: string;
+  method?: PaymentMethod; // How the money came in or went out; unset on applications
+  reference?: string;
+  maintenanceId?: string; // Request overpaid, or the one the credit was applied to
+  paymentId?: string; // Overpaid payment, or the payment an application created
+  receivedBy: string;
+  notes?: string;
+  status: "completed" | "voided";
+  voidedAt?: string;
+  voidedBy?: string;
+  voidReason?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+// A workshop bay appointments are booked into
+export type Bay = {
+  id: string;
+  name: string;
+  capacity: number; // Cars that fit in the bay at the same time
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type AppointmentStatus =
+  | "scheduled"
+  | "arrived"
+  | "converted" // A maintenance request was opened from it
+  | "cancelled"
+  | "no-show";
+
+export type Appointment = {
+  id: string;
+  clientId: string;
+  carUin: string;
+  serviceIds: string[]; // Requested when booking, the job may end up different
+  bayId: string;
+  startTime: string;
+  endTime: string;
+  status: AppointmentStatus;
+  notes?: string;
+  maintenanceId?: string; // Set once converted
+  createdAt: string;
+  updatedAt: string;
+};
+
+// A technician clocked on to a maintenance job
+export type TimeEntry = {
+  id: string;
+  maintenanceId: string;
+  employeeId: string;
+  serviceId?: string; // Line worked on, unset = the job in general
+  startTime: string;
+  endTime?: string; // Unset while the clock is running
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
 export type LogEntry = {
   id: string;
   actionType: "create" | "update" | "delete";
@@ -138,11 +401,37 @@ export type LogEntry = {
   startDate?: string;
   endDate?: string;
   paymentAmount?: number;
+  paymentId?: string;
+  paymentMethod?: PaymentMethod;
   discount?: number;
   additionalFees?: number;
   remainingBalance?: number;
 };
 
+export type User = {
+  id: string;
+  username: string; // Stored lower-cased
+  name: string; // Shown in activity logs
+  role: Role;
+  passwordHash: string;
+  passwordChangedAt: string;
+  mustChangePassword?: boolean; // Set when an owner resets the password
+  isActive: boolean;
+  lastLoginAt?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+// A user as it can be sent to the browser
+export type SafeUser = Omit<User, "passwordHash">;
+
+export type Session = {
+  id: string; // SHA-256 of the cookie token, the token itself is never stored
+  userId: string;
+  createdAt: string;
+  lastActiveAt: string;
+};
+
 export type Employee = {
   id: string;
   name: string;
@@ -185,9 +474,16 @@ export type FinanceRecord = {
   description: string;
   date: string;
   referenceNumber?: string;
-  relatedEntityType?: "maintenance" | "salary" | "product" | "service" | "other";
+  relatedEntityType?: "maintenance" | "salary" | "product" | "service" | "purchase-order" | "other";
   relatedEntityId?: string;
-  paymentMethod?: "cash" | "card" | "bank_transfer" | "check" | "other";
+  paymentMethod?: PaymentMethod | "other";
+  currency?: string; // Set when the money changed hands in a secondary currency
+  foreignAmount?: number;
+  exchangeRate?: number;
+  paymentId?: string; // Ledger entry this record was generated from
+  creditId?: string; // Credit account entry this record was generated from
+  scheduleId?: string; // Recurring schedule this record was posted from
+  scheduledFor?: string; // yyyy-MM-dd occurrence of that schedule
   attachmentUrl?: string;
   notes?: string;
   createdBy: string;
@@ -195,17 +491,524 @@ export type FinanceRecord = {
   updatedAt: string;
 };
 
+export type BudgetPeriod = "monthly" | "yearly";
+
+// Planned amount for a finance category per month or year, in the base currency
+export type Budget = {
+  id: string;
+  categoryId: string; // One budget per category
+  period: BudgetPeriod;
+  amount: number;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type RecurringFrequency = "weekly" | "monthly" | "yearly";
+
+// A change to one occurrence of a recurring schedule
+export type ScheduleException = {
+  date: string; // yyyy-MM-dd occurrence it applies to
+  skip?: boolean;
+  amount?: number;
+  description?: string;
+};
+
+// Template for a finance record that repeats, like rent or a subscription. Auto schedules
+// post their records once due; remind schedules wait for someone to post each one.
+export type RecurringSchedule = {
+  id: string;
+  categoryId: string;
+  amount: number;
+  currency?: string; // Unset = base currency, converted when each record is posted
+  description: string;
+  frequency: RecurringFrequency;
+  startDate: string; // yyyy-MM-dd of the first occurrence
+  endDate?: string; // Last day an occurrence can fall on
+  mode: "auto" | "remind";
+  paymentMethod?: FinanceRecord["paymentMethod"];
+  notes?: string;
+  active: boolean;
+  exceptions: ScheduleException[];
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+// Value of one unit of a secondary currency in the base currency, from the given day on
+export type ExchangeRate = {
+  id: string;
+  currency: string; // ISO 4217 code
+  date: string; // yyyy-MM-dd
+  rate: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+// Garage profile, printed on invoices and used for app-wide defaults
+export type GarageSettings = {
+  garageName: string;
+  email: string;
+  phone: string;
+  address: string;
+  taxRate: number; // Percentage, e.g. 8.5
+  taxServices: boolean; // Labour lines (and additional fees) are taxable
+  taxParts: boolean; // Product lines are taxable
+  currency: string; // ISO 4217 code
+  labourRate: number; // Charged per hour on jobs billed by time
+  defaultLowStockThreshold: number; // Suggested for new products
+  defaultLeadTimeDays: number; // Supplier delivery time when the supplier has none set
+  safetyStockDays: number; // Extra usage kept in stock against late deliveries
+  reorderCoverDays: number; // Usage a reorder should last for once delivered
+  costingMethod: CostingMethod; // How stock used on jobs is costed
+  secondaryCurrencies: string; // Comma-separated ISO codes also quoted and accepted
+};
+
+export type NotificationSettings = {
+  emailNotifications: boolean;
+  smsNotifications: boolean;
+  lowStockAlerts: boolean;
+  paymentReminders: boolean;
+  maintenanceUpdates: boolean;
+  policyExpiryAlertDays: number; // Policies expiring this soon are listed on the dashboard
+  budgetAlertPercent: number; // Expense categories past this share of their budget are flagged
+};
+
+export type SecuritySettings = {
+  sessionTimeout: number; // Minutes of inactivity
+  passwordExpiryDays: number; // 0 = never
+};
+
+export type Settings = {
+  general: GarageSettings;
+  notifications: NotificationSettings;
+  security: SecuritySettings;
+};
+
+export type SettingsSection = keyof Settings;
+
+export const DEFAULT_SETTINGS: Settings = {
+  general: {
+    garageName: "Mechanic Garage",
+    email: "contact@mechanicgarage.com",
+    phone: "+1 (555) 123-4567",
+    address: "123 Main St, Anytown, CA 12345",
+    taxRate: 8.5,
+    taxServices: true,
+    taxParts: true,
+    currency: "USD",
+    labourRate: 75,
+    defaultLowStockThreshold: 5,
+    defaultLeadTimeDays: 7,
+    safetyStockDays: 7,
+    reorderCoverDays: 30,
+    costingMethod: "fifo",
+    secondaryCurrencies: "",
+  },
+  notifications: {
+    emailNotifications: true,
+    smsNotifications: false,
+    lowStockAlerts: true,
+    paymentReminders: true,
+    maintenanceUpdates: true,
+    policyExpiryAlertDays: 30,
+    budgetAlertPercent: 80,
+  },
+  security: {
+    sessionTimeout: 30,
+    passwordExpiryDays: 90,
+  },
+};
+
+// Keep only known settings keys, coerced to the type of their default value
+function normalizeSettings<T extends Record<string, unknown>>(
+  defaults: T,
+  values: Record<string, unknown> | null
+): T {
+  const result: Record<string, unknown> = { ...defaults };
+
+  Object.keys(defaults).forEach((key) => {
+    const value = values?.[key];
+    // Settings that default to empty can be cleared again
+    if (value === undefined || value === null || (value === "" && defaults[key] !== "")) return;
+
+    switch (typeof defaults[key]) {
+      case "number":
+        if (!Number.isNaN(Number(value))) result[key] = Number(value);
+        break;
+      case "boolean":
+        result[key] = value === true || value === "true";
+        break;
+      default:
+        result[key] = String(value);
+    }
+  });
+
+  return result as T;
+}
+
+// Paid total of a request, derived from its non-voided ledger entries
+export function getLedgerPaidAmount(payments: Payment[]): number {
+  return payments
+    .filter((payment) => payment.status === "completed")
+    .reduce(
+      (sum, payment) =>
+        payment.type === "refund" ? sum - payment.amount : sum + payment.amount,
+      0
+    );
+}
+
+export function getPaymentStatus(
+  totalCost: number,
+  paidAmount: number
+): MaintenanceRequest["paymentStatus"] {
+  if (totalCost - paidAmount <= 0) return "paid";
+  if (paidAmount > 0) return "partial";
+  return "pending";
+}
+
+export function toSafeUser(user: User): SafeUser {
+  const { passwordHash: _passwordHash, ...safeUser } = user;
+  return safeUser;
+}
+
+function hashSessionToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Time can only be booked against jobs that are still being worked on
+async function getOpenJob(maintenanceId: string): Promise<MaintenanceRequest> {
+  const request = await db.maintenance.getById(maintenanceId);
+  if (!request) {
+    throw new Error(`Maintenance request with ID ${maintenanceId} does not exist`);
+  }
+  if (request.status === "completed" || request.status === "cancelled") {
+    throw new Error(`Time can't be changed on a ${request.status} job`);
+  }
+  return request;
+}
+
+function checkEntryTimes(entry: Pick<TimeEntry, "startTime" | "endTime">) {
+  if (Number.isNaN(new Date(entry.startTime).getTime())) {
+    throw new Error("A valid start time is required");
+  }
+  if (entry.endTime !== undefined && !(new Date(entry.endTime) > new Date(entry.startTime))) {
+    throw new Error("The clock-off time must be after the clock-on time");
+  }
+}
+
+const STOCK_FIELDS = {
+  warehouse: "warehouseStock",
+  shop: "shopStock",
+} as const satisfies Record<StockLocation, keyof Product>;
+
+// A SKU or barcode finds exactly one product, so no two products may share one
+async function checkProductCodes(codes: Pick<Product, "sku" | "barcodes">, productId?: string) {
+  const taken = new Map<string, string>();
+  for (const other of await db.products.getAll()) {
+    if (other.id === productId) continue;
+    for (const code of [other.sku, ...(other.barcodes || [])]) {
+      if (code) taken.set(normalizeCode(code), other.name);
+    }
+  }
+
+  if (codes.sku && taken.has(normalizeCode(codes.sku))) {
+    throw new Error(`SKU ${codes.sku} is already used by ${taken.get(normalizeCode(codes.sku))}`);
+  }
+  for (const barcode of codes.barcodes || []) {
+    if (taken.has(normalizeCode(barcode))) {
+      throw new Error(`Barcode ${barcode} is already used by ${taken.get(normalizeCode(barcode))}`);
+    }
+  }
+}
+
+/**
+ * Records a change to a product's stock and costs it. `product` is the product
+ * as it stood before the change. Stock coming in opens a cost layer, at the
+ * given unit cost or else the purchase price; stock going out draws the layers
+ * down by the garage's costing method. Transfers keep their cost.
+ */
+async function recordStockMovement(
+  product: Product,
+  movement: Omit<StockMovement, "id" | "createdAt">
+): Promise<StockMovement> {
+  if (movement.reason === "transfer" || !movement.quantity) {
+    return db.stockMovements.create(movement);
+  }
+
+  await db.costLayers.reconcile(product);
+
+  let unitCost = Number(movement.unitCost ?? product.purchasePrice ?? 0);
+  if (movement.quantity < 0) {
+    const { costingMethod } = (await db.settings.get()).general;
+    const cost = await db.costLayers.issue(product.id, -movement.quantity, costingMethod);
+    unitCost = Math.round((cost / -movement.quantity) * 10000) / 10000;
+  }
+
+  const newMovement = await db.stockMovements.create({ ...movement, unitCost });
+  if (movement.quantity > 0) {
+    await db.costLayers.add({
+      productId: product.id,
+      unitCost,
+      quantity: movement.quantity,
+      movementId: newMovement.id,
+      receivedAt: newMovement.createdAt,
+    });
+  }
+
+  return newMovement;
+}
+
+// Status changes made by hand; receiving goods moves orders on by itself
+const PURCHASE_ORDER_TRANSITIONS: Record<PurchaseOrderStatus, PurchaseOrderStatus[]> = {
+  draft: ["sent", "cancelled"],
+  sent: ["draft", "cancelled"],
+  "partially-received": ["cancelled"], // Closes what is still outstanding
+  received: [],
+  cancelled: [],
+};
+
+function checkPolicyDates(
+  policy: Pick<InsurancePolicy, "policyNumber" | "startDate" | "expiryDate">
+) {
+  if (!policy.policyNumber?.trim()) {
+    throw new Error("Policy number is required");
+  }
+  if (!policy.startDate || Number.isNaN(new Date(policy.startDate).getTime())) {
+    throw new Error("Start date is required");
+  }
+  if (policy.expiryDate && policy.expiryDate < policy.startDate) {
+    throw new Error("Expiry date can't be before the start date");
+  }
+}
+
+function checkClaimAmounts(
+  claim: Pick<Claim, "claimNumber" | "status" | "claimedAmount" | "approvedAmount" | "deductible">
+) {
+  if (!claim.claimNumber?.trim()) {
+    throw new Error("Claim number is required");
+  }
+  if (!(claim.claimedAmount > 0)) {
+    throw new Error("Claimed amount must be greater than zero");
+  }
+  if (!(claim.deductible >= 0)) {
+    throw new Error("Deductible can't be negative");
+  }
+  if (claim.status === "approved" || claim.status === "paid") {
+    if (claim.approvedAmount === undefined || !(claim.approvedAmount >= 0)) {
+      throw new Error("Enter the amount the insurer approved");
+    }
+  }
+}
+
+async function checkOrderLines(lines: Omit<PurchaseOrderLine, "receivedQuantity">[]) {
+  if (!lines.length) {
+    throw new Error("A purchase order needs at least one product");
+  }
+
+  const seen = new Set<string>();
+  for (const line of lines) {
+    const product = await db.products.getById(line.productId);
+    if (!product) {
+      throw new Error(`Product with ID ${line.productId} does not exist`);
+    }
+    if (seen.has(line.productId)) {
+      throw new Error(`${product.name} is on the order more than once`);
+    }
+    seen.add(line.productId);
+
+    if (!Number.isInteger(line.quantity) || line.quantity < 1) {
+      throw new Error(`The quantity of ${product.name} must be a whole number of at least 1`);
+    }
+    if (!(line.unitCost >= 0)) {
+      throw new Error(`The unit cost of ${product.name} can't be negative`);
+    }
+  }
+}
+
+// Totals of a maintenance request. The discount is spread proportionally over
+// taxable and non-taxable lines; the additional fee is taxed like labour.
+export function calculateMaintenanceTotals(
+  costs: {
+    serviceCost: number;
+    productCost: number;
+    additionalFee?: number;
+    discount?: number;
+  },
+  tax: Pick<GarageSettings, "taxRate" | "taxServices" | "taxParts">
+) {
+  const serviceCost = roundCurrency(costs.serviceCost);
+  const productCost = roundCurrency(costs.productCost);
+  const additionalFee = costs.additionalFee || 0;
+  const gross = serviceCost + productCost + additionalFee;
+  const subtotal = roundCurrency(gross - (costs.discount || 0));
+
+  const taxableGross =
+    (tax.taxServices ? serviceCost + additionalFee : 0) +
+    (tax.taxParts ? productCost : 0);
+  const taxableAmount =
+    gross > 0 ? roundCurrency(Math.max(0, (taxableGross * subtotal) / gross)) : 0;
+  const taxAmount = roundCurrency((taxableAmount * (tax.taxRate || 0)) / 100);
+
+  return {
+    serviceCost,
+    productCost,
+    subtotal,
+    taxRate: tax.taxRate || 0,
+    taxableAmount,
+    taxAmount,
+    totalCost: roundCurrency(subtotal + taxAmount),
+  };
+}
+
+// Unit prices already saved on a request's lines, by service or product id
+function getSavedPrices(
+  lines: Array<{ unitPrice?: number } & Record<string, unknown>>,
+  idField: "serviceId" | "productId"
+): Map<string, number> {
+  const prices = new Map<string, number>();
+  for (const line of lines) {
+    const id = String(line[idField]);
+    if (line.unitPrice !== undefined && !prices.has(id)) {
+      prices.set(id, Number(line.unitPrice));
+    }
+  }
+  return prices;
+}
+
+// Store keys backups leave alone (sessions) or merge (audit log)
+function isSessionKey(key: string): boolean {
+  return key === "sessions" || key.startsWith("session:");
+}
+
+function isLogKey(key: string): boolean {
+  return key === "logs" || key.startsWith("log:");
+}
+
 // Database operations
 export const db = {
+  // Run several operations as one atomic unit; writes roll back on error
+  async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    return storage.transaction(fn);
+  },
+
+  // Whole-store backups. Login sessions are never exported or replaced, and
+  // the audit log is merged rather than overwritten.
+  backup: {
+    async export(): Promise<StoreSnapshot> {
+      const { sets, hashes } = await storage.snapshot();
+      return {
+        sets: Object.fromEntries(
+          Object.entries(sets).filter(([key]) => !isSessionKey(key))
+        ),
+        hashes: Object.fromEntries(
+          Object.entries(hashes).filter(([key]) => !isSessionKey(key))
+        ),
+      };
+    },
+
+    async restore({ store: backup, replaces }: BackupRestore, adminName: string): Promise<void> {
+      await storage.transaction(async () => {
+        const current = await storage.snapshot();
+        const replaced = [
+          ...Object.keys(current.sets),
+          ...Object.keys(current.hashes),
+        ].filter((key) => !isSessionKey(key) && !isLogKey(key) && replaces(key));
+        if (replaced.length > 0) {
+          await storage.del(...replaced);
+        }
+
+        for (const [key, members] of Object.entries(backup.sets)) {
+          if (isSessionKey(key) || members.length === 0) continue;
+          await storage.sadd(key, ...members);
+        }
+        for (const [key, values] of Object.entries(backup.hashes)) {
+          if (isSessionKey(key)) continue;
+          // Entries already in the current log win over the backup's copy
+          if (isLogKey(key) && current.hashes[key]) continue;
+          await storage.hset(key, values);
+        }
+
+        await db.logs.create({
+          actionType: "create",
+          tableName: "system",
+          adminName,
+          afterValue: JSON.stringify({ message: "Database restored from backup" }),
+        });
+      });
+    },
+  },
+
+  // Settings operations (one hash per settings section)
+  settings: {
+    async get(): Promise<Settings> {
+      const [general, notifications, security] = await Promise.all([
+        storage.hgetall("settings:general"),
+        storage.hgetall("settings:notifications"),
+        storage.hgetall("settings:security"),
+      ]);
+
+      return {
+        general: normalizeSettings(DEFAULT_SETTINGS.general, general),
+        notifications: normalizeSettings(
+          DEFAULT_SETTINGS.notifications,
+          notifications
+        ),
+        security: normalizeSettings(DEFAULT_SETTINGS.security, security),
+      };
+    },
+
+    async update<K extends SettingsSection>(
+      section: K,
+      values: Partial<Settings[K]>
+    ): Promise<Settings[K]> {
+      return storage.transaction(async () => {
+        const settings = await this.get();
+        const before = settings[section];
+        const after = normalizeSettings(before, {
+          ...before,
+          ...values,
+        } as Record<string, unknown>) as Settings[K];
+
+        await storage.hset(`settings:${section}`, after as any);
+
+        // Log the action
+        await db.logs.create({
+          actionType: "update",
+          tableName: "settings",
+          adminName: "System",
+          beforeValue: JSON.stringify(before),
+          afterValue: JSON.stringify(after),
+        });
+
+        return after;
+      });
+    },
+  },
+
+  // Sequential counters used for document numbering
+  counters: {
+    async next(name: string): Promise<number> {
+      return storage.transaction(async () => {
+        const counter = await storage.hgetall<{ value: number }>(
+          `counter:${name}`
+        );
+        const value = Number(counter?.value || 0) + 1;
+        await storage.hset(`counter:${name}`, { value });
+        return value;
+      });
+    },
+  },
+
   // Client operations
   clients: {
     async getAll(): Promise<Client[]> {
-      const clientIds = await redis.smembers("clients");
+      const clientIds = await storage.smembers("clients");
       if (!clientIds.length) return [];
 
       const clients = await Promise.all(
         clientIds.map(async (id) => {
-          const client = await redis.hgetall(`client:${id}`);
+          const client = await storage.hgetall(`client:${id}`);
           return client as unknown as Client;
         })
       );
@@ -214,13 +1017,14 @@ export const db = {
     },
 
     async getById(id: string): Promise<Client | null> {
-      const client = await redis.hgetall(`client:${id}`);
+      const client = await storage.hgetall(`client:${id}`);
       if (!client || Object.keys(client).length === 0) return null;
       return Object.keys(client).length ? (client as unknown as Client) : null;
     },
 
     async create(
-      client: Omit<Client, "id" | "createdAt" | "updatedAt">
+      client: Omit<Client, "id" | "createdAt" | "updatedAt">,
+      adminName: string
     ): Promise<Client> {
       const id = crypto.randomUUID();
       const now = new Date().toISOString();
@@ -232,14 +1036,14 @@ export const db = {
         updatedAt: now,
       };
 
-      await redis.hset(`client:${id}`, newClient as any);
-      await redis.sadd("clients", id);
+      await storage.hset(`client:${id}`, newClient as any);
+      await storage.sadd("clients", id);
 
       // Log the action
       await db.logs.create({
         actionType: "create",
         tableName: "clients",
-        adminName: "System",
+        adminName,
         afterValue: JSON.stringify(newClient),
         clientId: id,
       });
@@ -249,7 +1053,8 @@ export const db = {
 
     async update(
       id: string,
-      data: Partial<Omit<Client, "id" | "createdAt" | "updatedAt">>
+      data: Partial<Omit<Client, "id" | "createdAt" | "updatedAt">>,
+      adminName: string
     ): Promise<Client | null> {
       const client = await this.getById(id);
       if (!client) return null;
@@ -262,13 +1067,13 @@ export const db = {
         updatedAt: new Date().toISOString(),
       };
 
-      await redis.hset(`client:${id}`, updatedClient as any);
+      await storage.hset(`client:${id}`, updatedClient as any);
 
       // Log the action
       await db.logs.create({
         actionType: "update",
         tableName: "clients",
-        adminName: "System",
+        adminName,
         beforeValue,
         afterValue: JSON.stringify(updatedClient),
         clientId: id,
@@ -277,7 +1082,7 @@ export const db = {
       return updatedClient;
     },
 
-    async delete(id: string): Promise<boolean> {
+    async delete(id: string, adminName: string): Promise<boolean> {
       const client = await this.getById(id);
       if (!client) return false;
 
@@ -287,14 +1092,18 @@ export const db = {
         throw new Error("Cannot delete client with associated cars");
       }
 
-      await redis.del(`client:${id}`);
-      await redis.srem("clients", id);
+      if ((await db.credits.getBalance(id)) !== 0) {
+        throw new Error("Refund the client's credit before deleting them");
+      }
+
+      await storage.del(`client:${id}`);
+      await storage.srem("clients", id);
 
       // Log the action
       await db.logs.create({
         actionType: "delete",
         tableName: "clients",
-        adminName: "System",
+        adminName,
         beforeValue: JSON.stringify(client),
         clientId: id,
       });
@@ -306,12 +1115,12 @@ export const db = {
   // Car operations
   cars: {
     async getAll(): Promise<Car[]> {
-      const carUins = await redis.smembers("cars");
+      const carUins = await storage.smembers("cars");
       if (!carUins.length) return [];
 
       const cars = await Promise.all(
         carUins.map(async (uin) => {
-          const car = await redis.hgetall(`car:${uin}`);
+          const car = await storage.hgetall(`car:${uin}`);
           return car as unknown as Car;
         })
       );
@@ -320,7 +1129,7 @@ export const db = {
     },
 
     async getByUin(uin: string): Promise<Car | null> {
-      const car = await redis.hgetall(`car:${uin}`);
+      const car = await storage.hgetall(`car:${uin}`);
       if (!car || Object.keys(car).length === 0) return null;
       return car as unknown as Car;
     },
@@ -330,7 +1139,7 @@ export const db = {
       return cars.filter((car) => car.clientId === clientId);
     },
 
-    async create(car: Omit<Car, "createdAt" | "updatedAt">): Promise<Car> {
+    async create(car: Omit<Car, "createdAt" | "updatedAt">, adminName: string): Promise<Car> {
       // Check if UIN already exists
       const existingCar = await this.getByUin(car.uin);
       if (existingCar) {
@@ -360,14 +1169,14 @@ export const db = {
         updatedAt: now,
       };
 
-      await redis.hset(`car:${car.uin}`, newCar as any);
-      await redis.sadd("cars", car.uin);
+      await storage.hset(`car:${car.uin}`, newCar as any);
+      await storage.sadd("cars", car.uin);
 
       // Log the action
       await db.logs.create({
         actionType: "create",
         tableName: "cars",
-        adminName: "System",
+        adminName,
         afterValue: JSON.stringify(newCar),
         carUin: car.uin,
         clientId: car.clientId,
@@ -379,7 +1188,8 @@ export const db = {
 
     async update(
       uin: string,
-      data: Partial<Omit<Car, "uin" | "createdAt" | "updatedAt">>
+      data: Partial<Omit<Car, "uin" | "createdAt" | "updatedAt">>,
+      adminName: string
     ): Promise<Car | null> {
       const car = await this.getByUin(uin);
       if (!car) return null;
@@ -410,13 +1220,13 @@ export const db = {
         updatedAt: new Date().toISOString(),
       };
 
-      await redis.hset(`car:${uin}`, updatedCar as any);
+      await storage.hset(`car:${uin}`, updatedCar as any);
 
       // Log the action
       await db.logs.create({
         actionType: "update",
         tableName: "cars",
-        adminName: "System",
+        adminName,
         beforeValue,
         afterValue: JSON.stringify(updatedCar),
         carUin: uin,
@@ -427,7 +1237,7 @@ export const db = {
       return updatedCar;
     },
 
-    async delete(uin: string): Promise<boolean> {
+    async delete(uin: string, adminName: string): Promise<boolean> {
       const car = await this.getByUin(uin);
       if (!car) return false;
 
@@ -439,14 +1249,22 @@ export const db = {
         );
       }
 
-      await redis.del(`car:${uin}`);
-      await redis.srem("cars", uin);
+      // The car's policies go with it
+      const policies = await db.policies.getByCarUin(uin);
+      await storage.transaction(async () => {
+        for (const policy of policies) {
+          await storage.del(`policy:${policy.id}`);
+          await storage.srem("policies", policy.id);
+        }
+        await storage.del(`car:${uin}`);
+        await storage.srem("cars", uin);
+      });
 
       // Log the action
       await db.logs.create({
         actionType: "delete",
         tableName: "cars",
-        adminName: "System",
+        adminName,
         beforeValue: JSON.stringify(car),
         carUin: uin,
         clientId: car.clientId,
@@ -524,12 +1342,12 @@ export const db = {
   // Insurance operations
   insurance: {
     async getAll(): Promise<Insurance[]> {
-      const insuranceIds = await redis.smembers("insurance");
+      const insuranceIds = await storage.smembers("insurance");
       if (!insuranceIds.length) return [];
 
       const insurances = await Promise.all(
         insuranceIds.map(async (id) => {
-          const insurance = await redis.hgetall(`insurance:${id}`);
+          const insurance = await storage.hgetall(`insurance:${id}`);
           return insurance as unknown as Insurance;
         })
       );
@@ -538,7 +1356,7 @@ export const db = {
     },
 
     async getById(id: string): Promise<Insurance | null> {
-      const insurance = await redis.hgetall(`insurance:${id}`);
+      const insurance = await storage.hgetall(`insurance:${id}`);
 
       if (!insurance || Object.keys(insurance).length === 0) return null;
       return Object.keys(insurance).length
@@ -547,7 +1365,8 @@ export const db = {
     },
 
     async create(
-      insurance: Omit<Insurance, "id" | "createdAt" | "updatedAt">
+      insurance: Omit<Insurance, "id" | "createdAt" | "updatedAt">,
+      adminName: string
     ): Promise<Insurance> {
       const id = crypto.randomUUID();
       const now = new Date().toISOString();
@@ -559,14 +1378,14 @@ export const db = {
         updatedAt: now,
       };
 
-      await redis.hset(`insurance:${id}`, newInsurance as any);
-      await redis.sadd("insurance", id);
+      await storage.hset(`insurance:${id}`, newInsurance as any);
+      await storage.sadd("insurance", id);
 
       // Log the action
       await db.logs.create({
         actionType: "create",
         tableName: "insurance",
-        adminName: "System",
+        adminName,
         afterValue: JSON.stringify(newInsurance),
         insuranceId: id,
       });
@@ -576,7 +1395,8 @@ export const db = {
 
     async update(
       id: string,
-      data: Partial<Omit<Insurance, "id" | "createdAt" | "updatedAt">>
+      data: Partial<Omit<Insurance, "id" | "createdAt" | "updatedAt">>,
+      adminName: string
     ): Promise<Insurance | null> {
       const insurance = await this.getById(id);
       if (!insurance) return null;
@@ -589,13 +1409,13 @@ export const db = {
         updatedAt: new Date().toISOString(),
       };
 
-      await redis.hset(`insurance:${id}`, updatedInsurance as any);
+      await storage.hset(`insurance:${id}`, updatedInsurance as any);
 
       // Log the action
       await db.logs.create({
         actionType: "update",
         tableName: "insurance",
-        adminName: "System",
+        adminName,
         beforeValue,
         afterValue: JSON.stringify(updatedInsurance),
         insuranceId: id,
@@ -604,7 +1424,7 @@ export const db = {
       return updatedInsurance;
     },
 
-    async delete(id: string): Promise<boolean> {
+    async delete(id: string, adminName: string): Promise<boolean> {
       const insurance = await this.getById(id);
       if (!insurance) return false;
 
@@ -616,14 +1436,24 @@ export const db = {
         throw new Error("Cannot delete insurance with associated cars");
       }
 
-      await redis.del(`insurance:${id}`);
-      await redis.srem("insurance", id);
+      const claims = await db.claims.getByInsuranceId(id);
+      if (claims.length > 0) {
+        throw new Error("Cannot delete insurance with claims on record");
+      }
+
+      const policies = await db.policies.getByInsuranceId(id);
+      if (policies.length > 0) {
+        throw new Error("Cannot delete insurance with policies on record");
+      }
+
+      await storage.del(`insurance:${id}`);
+      await storage.srem("insurance", id);
 
       // Log the action
       await db.logs.create({
         actionType: "delete",
         tableName: "insurance",
-        adminName: "System",
+        adminName,
         beforeValue: JSON.stringify(insurance),
         insuranceId: id,
       });
@@ -632,583 +1462,1662 @@ export const db = {
     },
   },
 
-  // Service operations
-  services: {
-    async getAll(): Promise<Service[]> {
-      const serviceIds = await redis.smembers("services");
-      if (!serviceIds.length) return [];
+  policies: {
+    async getAll(): Promise<InsurancePolicy[]> {
+      const policyIds = await storage.smembers("policies");
+      if (!policyIds.length) return [];
 
-      const services = await Promise.all(
-        serviceIds.map(async (id) => {
-          const service = await redis.hgetall(`service:${id}`);
-          return service as unknown as Service;
+      const policies = await Promise.all(
+        policyIds.map(async (id) => {
+          const policy = await storage.hgetall(`policy:${id}`);
+          return policy as unknown as InsurancePolicy;
         })
       );
 
-      return services.filter(Boolean);
+      return policies
+        .filter(Boolean)
+        .sort((a, b) => b.startDate.localeCompare(a.startDate));
     },
 
-    async getById(id: string): Promise<Service | null> {
-      const service = await redis.hgetall(`service:${id}`);
-      if (!service || Object.keys(service).length === 0) return null;
-      return Object.keys(service).length
-        ? (service as unknown as Service)
-        : null;
+    async getById(id: string): Promise<InsurancePolicy | null> {
+      const policy = await storage.hgetall(`policy:${id}`);
+      if (!policy || Object.keys(policy).length === 0) return null;
+      return policy as unknown as InsurancePolicy;
+    },
+
+    async getByCarUin(carUin: string): Promise<InsurancePolicy[]> {
+      const policies = await this.getAll();
+      return policies.filter((policy) => policy.carUin === carUin);
+    },
+
+    async getByInsuranceId(insuranceId: string): Promise<InsurancePolicy[]> {
+      const policies = await this.getAll();
+      return policies.filter((policy) => policy.insuranceId === insuranceId);
     },
 
     async create(
-      service: Omit<Service, "id" | "createdAt" | "updatedAt">
-    ): Promise<Service> {
+      policy: Omit<InsurancePolicy, "id" | "createdAt" | "updatedAt">,
+      adminName: string
+    ): Promise<InsurancePolicy> {
+      if (!(await db.cars.getByUin(policy.carUin))) {
+        throw new Error(`Car with UIN ${policy.carUin} does not exist`);
+      }
+      if (!(await db.insurance.getById(policy.insuranceId))) {
+        throw new Error(`Insurance company with ID ${policy.insuranceId} does not exist`);
+      }
+      checkPolicyDates(policy);
+
       const id = crypto.randomUUID();
       const now = new Date().toISOString();
 
-      const newService: Service = {
+      const newPolicy: InsurancePolicy = {
         id,
-        ...service,
+        ...policy,
+        policyNumber: policy.policyNumber.trim(),
         createdAt: now,
         updatedAt: now,
       };
 
-      await redis.hset(`service:${id}`, newService as any);
-      await redis.sadd("services", id);
+      await storage.hset(`policy:${id}`, newPolicy as any);
+      await storage.sadd("policies", id);
 
       // Log the action
       await db.logs.create({
         actionType: "create",
-        tableName: "services",
-        adminName: "System",
-        afterValue: JSON.stringify(newService),
-        serviceId: id,
+        tableName: "policies",
+        adminName,
+        afterValue: JSON.stringify(newPolicy),
+        carUin: policy.carUin,
+        insuranceId: policy.insuranceId,
       });
 
-      return newService;
+      return newPolicy;
     },
 
     async update(
       id: string,
-      data: Partial<Omit<Service, "id" | "createdAt" | "updatedAt">>
-    ): Promise<Service | null> {
-      const service = await this.getById(id);
-      if (!service) return null;
-
-      const beforeValue = JSON.stringify(service);
+      data: Partial<Omit<InsurancePolicy, "id" | "carUin" | "createdAt" | "updatedAt">>,
+      adminName: string
+    ): Promise<InsurancePolicy | null> {
+      const policy = await this.getById(id);
+      if (!policy) return null;
+
+      if (data.insuranceId !== undefined && !(await db.insurance.getById(data.insuranceId))) {
+        throw new Error(`Insurance company with ID ${data.insuranceId} does not exist`);
+      }
 
-      const updatedService: Service = {
-        ...service,
+      const updatedPolicy: InsurancePolicy = {
+        ...policy,
         ...data,
+        ...(data.policyNumber !== undefined ? { policyNumber: data.policyNumber.trim() } : {}),
         updatedAt: new Date().toISOString(),
       };
+      checkPolicyDates(updatedPolicy);
 
-      await redis.hset(`service:${id}`, updatedService as any);
+      await storage.hset(`policy:${id}`, updatedPolicy as any);
 
       // Log the action
       await db.logs.create({
         actionType: "update",
-        tableName: "services",
-        adminName: "System",
-        beforeValue,
-        afterValue: JSON.stringify(updatedService),
-        serviceId: id,
+        tableName: "policies",
+        adminName,
+        beforeValue: JSON.stringify(policy),
+        afterValue: JSON.stringify(updatedPolicy),
+        carUin: policy.carUin,
+        insuranceId: updatedPolicy.insuranceId,
       });
 
-      return updatedService;
+      return updatedPolicy;
     },
 
-    async delete(id: string): Promise<boolean> {
-      const service = await this.getById(id);
-      if (!service) return false;
-
-      // Check if service is used in any maintenance requests
-      const maintenanceRequests = await db.maintenance.getAll();
-      const associatedRequests = maintenanceRequests.filter((request) =>
-        request.servicesUsed.some((s) => s.serviceId === id)
-      );
-
-      if (associatedRequests.length > 0) {
-        throw new Error("Cannot delete service used in maintenance requests");
-      }
+    async delete(id: string, adminName: string): Promise<boolean> {
+      const policy = await this.getById(id);
+      if (!policy) return false;
 
-      await redis.del(`service:${id}`);
-      await redis.srem("services", id);
+      await storage.del(`policy:${id}`);
+      await storage.srem("policies", id);
 
       // Log the action
       await db.logs.create({
         actionType: "delete",
-        tableName: "services",
-        adminName: "System",
-        beforeValue: JSON.stringify(service),
-        serviceId: id,
+        tableName: "policies",
+        adminName,
+        beforeValue: JSON.stringify(policy),
+        carUin: policy.carUin,
+        insuranceId: policy.insuranceId,
       });
 
       return true;
     },
-  },
 
-  // Product operations
-  products: {
-    async getAll(): Promise<Product[]> {
-      const productIds = await redis.smembers("products");
-      if (!productIds.length) return [];
-
-      const products = await Promise.all(
-        productIds.map(async (id) => {
-          const product = await redis.hgetall(`product:${id}`);
-          return product as unknown as Product;
-        })
-      );
+    /**
+     * Convert the policy stored on insurance companies into a policy for each
+     * car insured with them, then clear it from the company. Companies no car
+     * is insured with keep theirs, so nothing is lost. Safe to run again.
+     */
+    async migrateLegacy(adminName: string): Promise<{ converted: number; policies: number; skipped: string[] }> {
+      return storage.transaction(async () => {
+        const [insurers, cars, existing] = await Promise.all([
+          db.insurance.getAll(),
+          db.cars.getAll(),
+          this.getAll(),
+        ]);
+        const result = { converted: 0, policies: 0, skipped: [] as string[] };
+
+        for (const insurer of insurers.filter(hasLegacyPolicy)) {
+          const insuredCars = cars.filter((car) => car.insuranceId === insurer.id);
+          if (!insuredCars.length) {
+            result.skipped.push(insurer.name);
+            continue;
+          }
 
-      return products.filter(Boolean);
-    },
+          for (const car of insuredCars) {
+            const policyNumber = (insurer.policyNumber || "").trim() || "Unknown";
+            const alreadyMigrated = existing.some(
+              (policy) =>
+                policy.carUin === car.uin &&
+                policy.insuranceId === insurer.id &&
+                policy.policyNumber === policyNumber
+            );
+            if (alreadyMigrated) continue;
+
+            const id = crypto.randomUUID();
+            const now = new Date().toISOString();
+            const policy: InsurancePolicy = {
+              id,
+              carUin: car.uin,
+              insuranceId: insurer.id,
+              policyNumber,
+              ...(insurer.coverageType ? { coverageType: insurer.coverageType } : {}),
+              // The old record had no start date; the car was insured with them since it was added at the latest
+              startDate: (car.createdAt || insurer.createdAt || now).split("T")[0],
+              ...(insurer.expiryDate ? { expiryDate: insurer.expiryDate.split("T")[0] } : {}),
+              notes: "Converted from the insurance company record",
+              createdAt: now,
+              updatedAt: now,
+            };
+            await storage.hset(`policy:${id}`, policy as any);
+            await storage.sadd("policies", id);
+            result.policies++;
+          }
 
-    async getById(id: string): Promise<Product | null> {
-      const product = await redis.hgetall(`product:${id}`);
+          // Hashes can't drop single fields, so the company is written again without them
+          const {
+            policyNumber: _policyNumber,
+            coverageType: _coverageType,
+            expiryDate: _expiryDate,
+            ...company
+          } = insurer;
+          await storage.del(`insurance:${insurer.id}`);
+          await storage.hset(`insurance:${insurer.id}`, {
+            ...company,
+            updatedAt: new Date().toISOString(),
+          } as any);
+          result.converted++;
+
+          // Log the action
+          await db.logs.create({
+            actionType: "update",
+            tableName: "insurance",
+            adminName,
+            beforeValue: JSON.stringify(insurer),
+            afterValue: JSON.stringify(company),
+            insuranceId: insurer.id,
+          });
+        }
 
-      if (!product || Object.keys(product).length === 0) return null;
-      return Object.keys(product).length
-        ? (product as unknown as Product)
-        : null;
+        return result;
+      });
     },
+  },
 
-    async create(
-      product: Omit<Product, "id" | "createdAt" | "updatedAt">
-    ): Promise<Product> {
-      const id = crypto.randomUUID();
-      const now = new Date().toISOString();
-
-      // Check if supplier exists
-      const supplier = await db.suppliers.getById(product.supplierId);
-      if (!supplier) {
-        throw new Error(
-          `Supplier with ID ${product.supplierId} does not exist`
-        );
-      }
-
-      const newProduct: Product = {
-        id,
-        ...product,
-        createdAt: now,
-        updatedAt: now,
-      };
+  claims: {
+    async getAll(): Promise<Claim[]> {
+      const claimIds = await storage.smembers("claims");
+      if (!claimIds.length) return [];
 
-      await redis.hset(`product:${id}`, newProduct as any);
-      await redis.sadd("products", id);
+      const claims = await Promise.all(
+        claimIds.map(async (id) => {
+          const claim = await storage.hgetall(`claim:${id}`);
+          return claim as unknown as Claim;
+        })
+      );
 
-      // Log the action
-      await db.logs.create({
-        actionType: "create",
-        tableName: "products",
-        adminName: "System",
-        afterValue: JSON.stringify(newProduct),
-        productId: id,
-      });
+      return claims
+        .filter(Boolean)
+        .sort((a, b) => b.submittedAt.localeCompare(a.submittedAt));
+    },
 
-      return newProduct;
+    async getById(id: string): Promise<Claim | null> {
+      const claim = await storage.hgetall(`claim:${id}`);
+      if (!claim || Object.keys(claim).length === 0) return null;
+      return claim as unknown as Claim;
     },
 
-    async update(
-      id: string,
-      data: Partial<Omit<Product, "id" | "createdAt" | "updatedAt">>
-    ): Promise<Product | null> {
-      const product = await this.getById(id);
-      if (!product) return null;
+    async getByMaintenanceId(maintenanceId: string): Promise<Claim | null> {
+      const claims = await this.getAll();
+      return claims.find((claim) => claim.maintenanceId === maintenanceId) || null;
+    },
 
-      const beforeValue = JSON.stringify(product);
+    async getByInsuranceId(insuranceId: string): Promise<Claim[]> {
+      const claims = await this.getAll();
+      return claims.filter((claim) => claim.insuranceId === insuranceId);
+    },
 
-      // Check if supplier exists if changing supplier
-      if (data.supplierId && data.supplierId !== product.supplierId) {
-        const supplier = await db.suppliers.getById(data.supplierId);
-        if (!supplier) {
-          throw new Error(`Supplier with ID ${data.supplierId} does not exist`);
+    async create(
+      claim: Omit<Claim, "id" | "status" | "approvedAmount" | "decidedAt" | "paidAt" | "createdAt" | "updatedAt">,
+      adminName: string
+    ): Promise<Claim> {
+      // The claim and the split it puts on the request are saved together
+      return storage.transaction(async () => {
+        const request = await db.maintenance.getById(claim.maintenanceId);
+        if (!request) {
+          throw new Error(`Maintenance request with ID ${claim.maintenanceId} does not exist`);
         }
-      }
-
-      const updatedProduct: Product = {
-        ...product,
-        ...data,
-        updatedAt: new Date().toISOString(),
-      };
-
-      await redis.hset(`product:${id}`, updatedProduct as any);
+        if (!(await db.insurance.getById(claim.insuranceId))) {
+          throw new Error(`Insurance company with ID ${claim.insuranceId} does not exist`);
+        }
+        if (await this.getByMaintenanceId(claim.maintenanceId)) {
+          throw new Error("This maintenance request already has an insurance claim");
+        }
+        checkClaimAmounts({ ...claim, status: "submitted" });
+
+        const id = crypto.randomUUID();
+        const now = new Date().toISOString();
+
+        const newClaim: Claim = {
+          id,
+          ...claim,
+          claimNumber: claim.claimNumber.trim(),
+          status: "submitted",
+          createdAt: now,
+          updatedAt: now,
+        };
+
+        await storage.hset(`claim:${id}`, newClaim as any);
+        await storage.sadd("claims", id);
+        await db.maintenance.syncPaymentTotals(claim.maintenanceId);
+
+        // Log the action
+        await db.logs.create({
+          actionType: "create",
+          tableName: "claims",
+          adminName,
+          afterValue: JSON.stringify(newClaim),
+          insuranceId: claim.insuranceId,
+          maintenanceId: claim.maintenanceId,
+          clientId: request.clientId,
+          carUin: request.carUin,
+        });
 
-      // Log the action
-      await db.logs.create({
-        actionType: "update",
-        tableName: "products",
-        adminName: "System",
-        beforeValue,
-        afterValue: JSON.stringify(updatedProduct),
-        productId: id,
+        return newClaim;
       });
-
-      return updatedProduct;
     },
 
-    async delete(id: string): Promise<boolean> {
-      const product = await this.getById(id);
-      if (!product) return false;
+    async update(
+      id: string,
+      data: Partial<
+        Pick<
+          Claim,
+          "insuranceId" | "claimNumber" | "status" | "claimedAmount" | "approvedAmount" | "deductible" | "notes" | "submittedAt"
+        >
+      >,
+      adminName: string
+    ): Promise<Claim | null> {
+      return storage.transaction(async () => {
+        const claim = await this.getById(id);
+        if (!claim) return null;
 
-      // Check if product is used in any maintenance requests
-      const maintenanceRequests = await db.maintenance.getAll();
-      const associatedRequests = maintenanceRequests.filter((request) =>
-        request.productsUsed.some((p) => p.productId === id)
-      );
+        if (
+          data.status !== undefined &&
+          data.status !== claim.status &&
+          !CLAIM_STATUS_TRANSITIONS[claim.status].includes(data.status)
+        ) {
+          throw new Error(
+            data.status === "paid"
+              ? "A claim is marked as paid once the insurer's payments cover its share"
+              : `A claim that is ${CLAIM_STATUS_LABELS[claim.status].toLowerCase()} can't be marked as ${CLAIM_STATUS_LABELS[data.status].toLowerCase()}`
+          );
+        }
+        if (data.insuranceId !== undefined && !(await db.insurance.getById(data.insuranceId))) {
+          throw new Error(`Insurance company with ID ${data.insuranceId} does not exist`);
+        }
 
-      if (associatedRequests.length > 0) {
-        throw new Error("Cannot delete product used in maintenance requests");
-      }
+        const status = data.status ?? claim.status;
+        const now = new Date().toISOString();
+        const updatedClaim: Claim = {
+          ...claim,
+          ...data,
+          ...(data.claimNumber !== undefined ? { claimNumber: data.claimNumber.trim() } : {}),
+          ...(status !== claim.status && (status === "approved" || status === "rejected")
+            ? { decidedAt: now }
+            : {}),
+          updatedAt: now,
+        };
+        checkClaimAmounts(updatedClaim);
+
+        // Whatever the insurer already paid must still be owed after the change
+        const payments = await db.payments.getByMaintenanceId(claim.maintenanceId);
+        const insurerPaid = getPaidBy(payments, "insurer");
+        if (insurerPaid > 0) {
+          const request = await db.maintenance.getById(claim.maintenanceId);
+          const split = getBillingSplit(request?.totalCost || 0, updatedClaim, payments);
+          if (split.insurerBalance < 0) {
+            throw new Error(
+              status === "rejected"
+                ? "Refund or void the insurer's payments before rejecting the claim"
+                : "The insurer has already paid more than this claim would cover"
+            );
+          }
+        }
 
-      await redis.del(`product:${id}`);
-      await redis.srem("products", id);
+        await storage.hset(`claim:${id}`, updatedClaim as any);
+        await db.maintenance.syncPaymentTotals(claim.maintenanceId);
+
+        // Log the action
+        await db.logs.create({
+          actionType: "update",
+          tableName: "claims",
+          adminName,
+          beforeValue: JSON.stringify(claim),
+          afterValue: JSON.stringify(updatedClaim),
+          insuranceId: updatedClaim.insuranceId,
+          maintenanceId: claim.maintenanceId,
+        });
 
-      // Log the action
-      await db.logs.create({
-        actionType: "delete",
-        tableName: "products",
-        adminName: "System",
-        beforeValue: JSON.stringify(product),
-        productId: id,
+        return (await this.getById(id)) || updatedClaim;
       });
-
-      return true;
     },
 
-    async transferStock(
-      id: string,
-      quantity: number,
-      from: "warehouse" | "shop",
-      to: "warehouse" | "shop"
-    ): Promise<Product | null> {
-      const product = await this.getById(id);
-      if (!product) return null;
-
-      if (from === to) {
-        throw new Error("Cannot transfer to the same location");
-      }
-
-      const beforeValue = JSON.stringify(product);
-
-      // Check if source has enough stock
-      if (from === "warehouse" && product.warehouseStock < quantity) {
-        throw new Error("Not enough stock in warehouse");
-      } else if (from === "shop" && product.shopStock < quantity) {
-        throw new Error("Not enough stock in shop");
-      }
+    async delete(id: string, adminName: string): Promise<boolean> {
+      return storage.transaction(async () => {
+        const claim = await this.getById(id);
+        if (!claim) return false;
 
-      const updatedProduct: Product = {
-        ...product,
-        warehouseStock:
-          from === "warehouse"
-            ? product.warehouseStock - quantity
-            : product.warehouseStock + quantity,
-        shopStock:
-          from === "shop"
-            ? product.shopStock - quantity
-            : product.shopStock + quantity,
-        updatedAt: new Date().toISOString(),
-      };
+        const payments = await db.payments.getByMaintenanceId(claim.maintenanceId);
+        if (getPaidBy(payments, "insurer") > 0) {
+          throw new Error("Cannot delete a claim the insurer has made payments on");
+        }
 
-      await redis.hset(`product:${id}`, updatedProduct as any);
+        await storage.del(`claim:${id}`);
+        await storage.srem("claims", id);
+        await db.maintenance.syncPaymentTotals(claim.maintenanceId);
+
+        // Log the action
+        await db.logs.create({
+          actionType: "delete",
+          tableName: "claims",
+          adminName,
+          beforeValue: JSON.stringify(claim),
+          insuranceId: claim.insuranceId,
+          maintenanceId: claim.maintenanceId,
+        });
 
-      // Log the action
-      await db.logs.create({
-        actionType: "update",
-        tableName: "products",
-        adminName: "System",
-        beforeValue,
-        afterValue: JSON.stringify(updatedProduct),
-        productId: id,
+        return true;
       });
-
-      return updatedProduct;
-    },
-
-    async checkLowStock(): Promise<Product[]> {
-      const products = await this.getAll();
-      return products.filter(
-        (product) =>
-          product.warehouseStock + product.shopStock <=
-          product.lowStockThreshold
-      );
     },
   },
 
-  // Supplier operations
-  suppliers: {
-    async getAll(): Promise<Supplier[]> {
-      const supplierIds = await redis.smembers("suppliers");
-      if (!supplierIds.length) return [];
+  // Service operations
+  services: {
+    async getAll(): Promise<Service[]> {
+      const serviceIds = await storage.smembers("services");
+      if (!serviceIds.length) return [];
 
-      const suppliers = await Promise.all(
-        supplierIds.map(async (id) => {
-          const supplier = await redis.hgetall(`supplier:${id}`);
-          return supplier as unknown as Supplier;
+      const services = await Promise.all(
+        serviceIds.map(async (id) => {
+          const service = await storage.hgetall(`service:${id}`);
+          return service as unknown as Service;
         })
       );
 
-      return suppliers.filter(Boolean);
+      return services.filter(Boolean);
     },
 
-    async getById(id: string): Promise<Supplier | null> {
-      const supplier = await redis.hgetall(`supplier:${id}`);
-
-      if (!supplier || Object.keys(supplier).length === 0) return null;
-      return Object.keys(supplier).length
-        ? (supplier as unknown as Supplier)
+    async getById(id: string): Promise<Service | null> {
+      const service = await storage.hgetall(`service:${id}`);
+      if (!service || Object.keys(service).length === 0) return null;
+      return Object.keys(service).length
+        ? (service as unknown as Service)
         : null;
     },
 
     async create(
-      supplier: Omit<Supplier, "id" | "createdAt" | "updatedAt">
-    ): Promise<Supplier> {
+      service: Omit<Service, "id" | "createdAt" | "updatedAt">,
+      adminName: string
+    ): Promise<Service> {
       const id = crypto.randomUUID();
       const now = new Date().toISOString();
 
-      const newSupplier: Supplier = {
+      const newService: Service = {
         id,
-        ...supplier,
+        ...service,
         createdAt: now,
         updatedAt: now,
       };
 
-      await redis.hset(`supplier:${id}`, newSupplier as any);
-      await redis.sadd("suppliers", id);
+      await storage.hset(`service:${id}`, newService as any);
+      await storage.sadd("services", id);
 
       // Log the action
       await db.logs.create({
         actionType: "create",
-        tableName: "suppliers",
-        adminName: "System",
-        afterValue: JSON.stringify(newSupplier),
+        tableName: "services",
+        adminName,
+        afterValue: JSON.stringify(newService),
+        serviceId: id,
       });
 
-      return newSupplier;
+      return newService;
     },
 
     async update(
       id: string,
-      data: Partial<Omit<Supplier, "id" | "createdAt" | "updatedAt">>
-    ): Promise<Supplier | null> {
-      const supplier = await this.getById(id);
-      if (!supplier) return null;
+      data: Partial<Omit<Service, "id" | "createdAt" | "updatedAt">>,
+      adminName: string
+    ): Promise<Service | null> {
+      const service = await this.getById(id);
+      if (!service) return null;
 
-      const beforeValue = JSON.stringify(supplier);
+      const beforeValue = JSON.stringify(service);
 
-      const updatedSupplier: Supplier = {
-        ...supplier,
+      const updatedService: Service = {
+        ...service,
         ...data,
         updatedAt: new Date().toISOString(),
       };
 
-      await redis.hset(`supplier:${id}`, updatedSupplier as any);
+      await storage.hset(`service:${id}`, updatedService as any);
 
       // Log the action
       await db.logs.create({
         actionType: "update",
-        tableName: "suppliers",
-        adminName: "System",
+        tableName: "services",
+        adminName,
         beforeValue,
-        afterValue: JSON.stringify(updatedSupplier),
+        afterValue: JSON.stringify(updatedService),
+        serviceId: id,
       });
 
-      return updatedSupplier;
+      return updatedService;
     },
 
-    async delete(id: string): Promise<boolean> {
-      const supplier = await this.getById(id);
-      if (!supplier) return false;
+    async delete(id: string, adminName: string): Promise<boolean> {
+      const service = await this.getById(id);
+      if (!service) return false;
 
-      // Check if supplier has associated products
-      const products = await db.products.getAll();
-      const associatedProducts = products.filter(
-        (product) => product.supplierId === id
+      // Check if service is used in any maintenance requests
+      const maintenanceRequests = await db.maintenance.getAll();
+      const associatedRequests = maintenanceRequests.filter((request) =>
+        request.servicesUsed.some((s) => s.serviceId === id)
       );
 
-      if (associatedProducts.length > 0) {
-        throw new Error("Cannot delete supplier with associated products");
+      if (associatedRequests.length > 0) {
+        throw new Error("Cannot delete service used in maintenance requests");
       }
 
-      await redis.del(`supplier:${id}`);
-      await redis.srem("suppliers", id);
+      await storage.del(`service:${id}`);
+      await storage.srem("services", id);
 
       // Log the action
       await db.logs.create({
         actionType: "delete",
-        tableName: "suppliers",
-        adminName: "System",
-        beforeValue: JSON.stringify(supplier),
+        tableName: "services",
+        adminName,
+        beforeValue: JSON.stringify(service),
+        serviceId: id,
       });
 
       return true;
     },
   },
 
-  // Maintenance operations
-  maintenance: {
-    async getAll(): Promise<MaintenanceRequest[]> {
-      const maintenanceIds = await redis.smembers("maintenance");
-      if (!maintenanceIds.length) return [];
+  // Product operations
+  products: {
+    async getAll(): Promise<Product[]> {
+      const productIds = await storage.smembers("products");
+      if (!productIds.length) return [];
 
-      const maintenanceRequests = await Promise.all(
-        maintenanceIds.map(async (id) => {
-          const request = await redis.hgetall(`maintenance:${id}`);
-          return request as unknown as MaintenanceRequest;
+      const products = await Promise.all(
+        productIds.map(async (id) => {
+          const product = await storage.hgetall(`product:${id}`);
+          return product as unknown as Product;
         })
       );
 
-      return maintenanceRequests.filter(Boolean);
+      return products.filter(Boolean);
     },
 
-    async getById(id: string): Promise<MaintenanceRequest | null> {
-      const request = await redis.hgetall(`maintenance:${id}`);
+    async getById(id: string): Promise<Product | null> {
+      const product = await storage.hgetall(`product:${id}`);
 
-      if (!request || Object.keys(request).length === 0) return null;
-      return Object.keys(request).length
-        ? (request as unknown as MaintenanceRequest)
+      if (!product || Object.keys(product).length === 0) return null;
+      return Object.keys(product).length
+        ? (product as unknown as Product)
         : null;
     },
 
-    async getByCarUin(carUin: string): Promise<MaintenanceRequest[]> {
-      const requests = await this.getAll();
-      return requests.filter((request) => request.carUin === carUin);
-    },
-
-    async getByClientId(clientId: string): Promise<MaintenanceRequest[]> {
-      const requests = await this.getAll();
-      return requests.filter((request) => request.clientId === clientId);
+    // Finds a product by its SKU, one of its barcodes or its part number
+    async getByCode(code: string): Promise<Product | null> {
+      const products: Product[] = await this.getAll();
+      const product = findProductByCode(products, code);
+      return product || null;
     },
 
     async create(
-      request: Omit<
-        MaintenanceRequest,
-        "id" | "totalCost" | "remainingBalance" | "createdAt" | "updatedAt"
-      >
-    ): Promise<MaintenanceRequest> {
-      const id = crypto.randomUUID();
-      const now = new Date().toISOString();
+      product: Omit<Product, "id" | "createdAt" | "updatedAt">,
+      adminName: string
+    ): Promise<Product> {
+      // The product, its opening stock movements and cost layers are saved together
+      return storage.transaction(async () => {
+        const id = crypto.randomUUID();
+        const now = new Date().toISOString();
 
-      // Check if car exists
-      const car = await db.cars.getByUin(request.carUin);
-      if (!car) {
-        throw new Error(`Car with UIN ${request.carUin} does not exist`);
-      }
+        // Check if supplier exists
+        const supplier = await db.suppliers.getById(product.supplierId);
+        if (!supplier) {
+          throw new Error(
+            `Supplier with ID ${product.supplierId} does not exist`
+          );
+        }
 
-      // Check if client exists
-      const client = await db.clients.getById(request.clientId);
-      if (!client) {
-        throw new Error(`Client with ID ${request.clientId} does not exist`);
-      }
+        await checkProductCodes(product);
+
+        const newProduct: Product = {
+          id,
+          ...product,
+          createdAt: now,
+          updatedAt: now,
+        };
+
+        await storage.hset(`product:${id}`, newProduct as any);
+        await storage.sadd("products", id);
+
+        // Log the action
+        await db.logs.create({
+          actionType: "create",
+          tableName: "products",
+          adminName,
+          afterValue: JSON.stringify(newProduct),
+          productId: id,
+        });
 
-      // Check if services exist and calculate service cost
-      let serviceCost = 0;
-      for (const serviceUsed of request.servicesUsed) {
-        const service = await db.services.getById(serviceUsed.serviceId);
-        if (!service) {
-          throw new Error(
-            `Service with ID ${serviceUsed.serviceId} does not exist`
+        // Opening stock starts the product's movement history
+        let before: Product = { ...newProduct, warehouseStock: 0, shopStock: 0 };
+        for (const location of ["warehouse", "shop"] as const) {
+          const field = STOCK_FIELDS[location];
+          const quantity = Number(newProduct[field] || 0);
+          if (quantity) {
+            await recordStockMovement(before, {
+              productId: id,
+              userName: adminName,
+              location,
+              quantity,
+              balance: quantity,
+              reason: "stock-count",
+              notes: "Opening stock",
+            });
+            before = { ...before, [field]: quantity };
+          }
+        }
+
+        return newProduct;
+      });
+    },
+
+    async update(
+      id: string,
+      data: Partial<Omit<Product, "id" | "createdAt" | "updatedAt">>,
+      adminName: string
+    ): Promise<Product | null> {
+      return storage.transaction(async () => {
+        const product = await this.getById(id);
+        if (!product) return null;
+
+        const beforeValue = JSON.stringify(product);
+
+        // Check if supplier exists if changing supplier
+        if (data.supplierId && data.supplierId !== product.supplierId) {
+          const supplier = await db.suppliers.getById(data.supplierId);
+          if (!supplier) {
+            throw new Error(`Supplier with ID ${data.supplierId} does not exist`);
+          }
+        }
+
+        if (data.sku !== undefined || data.barcodes !== undefined) {
+          await checkProductCodes(
+            { sku: data.sku ?? product.sku, barcodes: data.barcodes ?? product.barcodes },
+            id
           );
         }
-        serviceCost += service.standardFee * serviceUsed.quantity;
+
+        const updatedProduct: Product = {
+          ...product,
+          ...data,
+          updatedAt: new Date().toISOString(),
+        };
+
+        await storage.hset(`product:${id}`, updatedProduct as any);
+
+        // Stock edited directly is a correction to a counted figure;
+        // everything else goes through moveStock
+        let before: Product = { ...product, purchasePrice: updatedProduct.purchasePrice };
+        for (const location of ["warehouse", "shop"] as const) {
+          const field = STOCK_FIELDS[location];
+          const quantity = Number(updatedProduct[field] || 0) - Number(product[field] || 0);
+          if (data[field] !== undefined && quantity) {
+            await recordStockMovement(before, {
+              productId: id,
+              userName: adminName,
+              location,
+              quantity,
+              balance: Number(updatedProduct[field] || 0),
+              reason: "stock-count",
+            });
+            before = { ...before, [field]: updatedProduct[field] };
+          }
+        }
+
+        // Log the action
+        await db.logs.create({
+          actionType: "update",
+          tableName: "products",
+          adminName,
+          beforeValue,
+          afterValue: JSON.stringify(updatedProduct),
+          productId: id,
+        });
+
+        return updatedProduct;
+      });
+    },
+
+    async delete(id: string, adminName: string): Promise<boolean> {
+      const product = await this.getById(id);
+      if (!product) return false;
+
+      // Check if product is used in any maintenance requests
+      const maintenanceRequests = await db.maintenance.getAll();
+      const associatedRequests = maintenanceRequests.filter((request) =>
+        request.productsUsed.some((p) => p.productId === id)
+      );
+
+      if (associatedRequests.length > 0) {
+        throw new Error("Cannot delete product used in maintenance requests");
       }
 
-      // Check if products exist, have enough stock, and calculate product cost
-      let productCost = 0;
-      for (const productUsed of request.productsUsed) {
-        const product = await db.products.getById(productUsed.productId);
+      const purchaseOrders = await db.purchaseOrders.getAll();
+      if (purchaseOrders.some((order) => order.lines.some((line) => line.productId === id))) {
+        throw new Error("Cannot delete product used in purchase orders");
+      }
+
+      await storage.del(`product:${id}`);
+      await storage.srem("products", id);
+
+      // Log the action
+      await db.logs.create({
+        actionType: "delete",
+        tableName: "products",
+        adminName,
+        beforeValue: JSON.stringify(product),
+        productId: id,
+      });
+
+      return true;
+    },
+
+    // Take stock out of or put it into one location, recording the movement.
+    // A unit cost can be given for stock coming in; stock going out is costed
+    // from the cost layers.
+    async moveStock(
+      id: string,
+      location: StockLocation,
+      quantity: number,
+      movement: Pick<StockMovement, "reason" | "documentType" | "documentId" | "notes" | "unitCost">,
+      adminName: string
+    ): Promise<{ product: Product; movement?: StockMovement }> {
+      return storage.transaction(async () => {
+        const product = await this.getById(id);
         if (!product) {
-          throw new Error(
-            `Product with ID ${productUsed.productId} does not exist`
-          );
+          throw new Error(`Product with ID ${id} does not exist`);
         }
 
-        // Check stock
+        const field = STOCK_FIELDS[location];
+        const balance = Number(product[field] || 0) + quantity;
+        if (balance < 0) {
+          throw new Error(`Not enough ${location} stock for product ${product.name}`);
+        }
+        if (!quantity) return { product };
+
+        const updatedProduct: Product = {
+          ...product,
+          [field]: balance,
+          updatedAt: new Date().toISOString(),
+        };
+
+        await storage.hset(`product:${id}`, updatedProduct as any);
+
+        // Log the action
+        await db.logs.create({
+          actionType: "update",
+          tableName: "products",
+          adminName,
+          beforeValue: JSON.stringify(product),
+          afterValue: JSON.stringify(updatedProduct),
+          productId: id,
+        });
+
+        const newMovement = await recordStockMovement(product, {
+          productId: id,
+          userName: adminName,
+          location,
+          quantity,
+          balance,
+          ...movement,
+        });
+
+        return { product: updatedProduct, movement: newMovement };
+      });
+    },
+
+    async transferStock(
+      id: string,
+      quantity: number,
+      from: StockLocation,
+      to: StockLocation,
+      adminName: string
+    ): Promise<Product | null> {
+      // Both stock locations and their movements change together
+      return storage.transaction(async () => {
+        const product = await this.getById(id);
+        if (!product) return null;
+
+        if (from === to) {
+          throw new Error("Cannot transfer to the same location");
+        }
+
+        // Check if source has enough stock
+        if (from === "warehouse" && product.warehouseStock < quantity) {
+          throw new Error("Not enough stock in warehouse");
+        } else if (from === "shop" && product.shopStock < quantity) {
+          throw new Error("Not enough stock in shop");
+        }
+
+        const notes = `Transfer from ${from} to ${to}`;
+        await this.moveStock(id, from, -quantity, { reason: "transfer", notes }, adminName);
+        const { product: updatedProduct } = await this.moveStock(id, to, quantity, { reason: "transfer", notes }, adminName);
+        return updatedProduct;
+      });
+    },
+
+    async checkLowStock(): Promise<Product[]> {
+      const products = await this.getAll();
+      return products.filter(
+        (product) =>
+          product.warehouseStock + product.shopStock <=
+          product.lowStockThreshold
+      );
+    },
+  },
+
+  // Stock movement ledger. Movements are never changed or removed, so the
+  // stock on any past date can be worked back from the current figures.
+  stockMovements: {
+    async getAll(): Promise<StockMovement[]> {
+      const movementIds = await storage.smembers("stock-movements");
+      if (!movementIds.length) return [];
+
+      const movements = await Promise.all(
+        movementIds.map(async (id) => {
+          const movement = await storage.hgetall(`stock-movement:${id}`);
+          return movement as unknown as StockMovement;
+        })
+      );
+
+      return movements
+        .filter(Boolean)
+        .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+    },
+
+    async getByProductId(productId: string): Promise<StockMovement[]> {
+      const movements = await this.getAll();
+      return movements.filter((movement) => movement.productId === productId);
+    },
+
+    async create(
+      movement: Omit<StockMovement, "id" | "createdAt">
+    ): Promise<StockMovement> {
+      const id = crypto.randomUUID();
+      const newMovement: StockMovement = {
+        id,
+        ...movement,
+        createdAt: new Date().toISOString(),
+      };
+
+      await storage.hset(`stock-movement:${id}`, newMovement as any);
+      await storage.sadd("stock-movements", id);
+
+      return newMovement;
+    },
+  },
+
+  // Cost layers behind the stock value, kept in step with the stock movements
+  costLayers: {
+    async getAll(): Promise<CostLayer[]> {
+      const layerIds = await storage.smembers("cost-layers");
+      if (!layerIds.length) return [];
+
+      const layers = await Promise.all(
+        layerIds.map(async (id) => {
+          const layer = await storage.hgetall(`cost-layer:${id}`);
+          return layer as unknown as CostLayer;
+        })
+      );
+
+      return layers
+        .filter(Boolean)
+        .sort((a, b) => new Date(a.receivedAt).getTime() - new Date(b.receivedAt).getTime());
+    },
+
+    async getByProductId(productId: string): Promise<CostLayer[]> {
+      const layers = await this.getAll();
+      return layers.filter((layer) => layer.productId === productId);
+    },
+
+    async add(layer: Omit<CostLayer, "id" | "remaining">): Promise<CostLayer> {
+      const id = crypto.randomUUID();
+      const newLayer: CostLayer = { id, ...layer, remaining: layer.quantity };
+
+      await storage.hset(`cost-layer:${id}`, newLayer as any);
+      await storage.sadd("cost-layers", id);
+
+      return newLayer;
+    },
+
+    // Stock held before costing began, or never costed, is given an opening
+    // layer at the product's purchase price, dated when the product was added
+    async reconcile(product: Product): Promise<void> {
+      const layers = await this.getByProductId(product.id);
+      const covered = layers.reduce((sum, layer) => sum + Number(layer.remaining || 0), 0);
+      const uncovered = Number(product.warehouseStock || 0) + Number(product.shopStock || 0) - covered;
+
+      if (uncovered > 0) {
+        await this.add({
+          productId: product.id,
+          unitCost: Number(product.purchasePrice || 0),
+          quantity: uncovered,
+          receivedAt: product.createdAt,
+        });
+      }
+    },
+
+    // Draw the layers down for stock going out and return what it cost
+    async issue(productId: string, quantity: number, method: CostingMethod): Promise<number> {
+      const layers = (await this.getByProductId(productId)).filter((layer) => Number(layer.remaining) > 0);
+      const available = layers.reduce((sum, layer) => sum + Number(layer.remaining), 0);
+      if (!available) return 0;
+
+      // Weighted average takes the same share of every layer, which leaves
+      // the average cost of what is left unchanged
+      const share = Math.min(quantity / available, 1);
+      let outstanding = quantity;
+      let cost = 0;
+
+      for (const layer of layers) {
+        const remaining = Number(layer.remaining);
+        const taken = method === "weighted-average" ? remaining * share : Math.min(outstanding, remaining);
+        if (taken <= 0) break;
+
+        cost += taken * Number(layer.unitCost);
+        outstanding -= taken;
+
+        // Rounded so shares of a layer don't leave slivers behind
+        const left = Math.round((remaining - taken) * 1000000) / 1000000;
+        await storage.hset(`cost-layer:${layer.id}`, { ...layer, remaining: left } as any);
+      }
+
+      return cost;
+    },
+  },
+
+  // Supplier operations
+  suppliers: {
+    async getAll(): Promise<Supplier[]> {
+      const supplierIds = await storage.smembers("suppliers");
+      if (!supplierIds.length) return [];
+
+      const suppliers = await Promise.all(
+        supplierIds.map(async (id) => {
+          const supplier = await storage.hgetall(`supplier:${id}`);
+          return supplier as unknown as Supplier;
+        })
+      );
+
+      return suppliers.filter(Boolean);
+    },
+
+    async getById(id: string): Promise<Supplier | null> {
+      const supplier = await storage.hgetall(`supplier:${id}`);
+
+      if (!supplier || Object.keys(supplier).length === 0) return null;
+      return Object.keys(supplier).length
+        ? (supplier as unknown as Supplier)
+        : null;
+    },
+
+    async create(
+      supplier: Omit<Supplier, "id" | "createdAt" | "updatedAt">,
+      adminName: string
+    ): Promise<Supplier> {
+      const id = crypto.randomUUID();
+      const now = new Date().toISOString();
+
+      const newSupplier: Supplier = {
+        id,
+        ...supplier,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await storage.hset(`supplier:${id}`, newSupplier as any);
+      await storage.sadd("suppliers", id);
+
+      // Log the action
+      await db.logs.create({
+        actionType: "create",
+        tableName: "suppliers",
+        adminName,
+        afterValue: JSON.stringify(newSupplier),
+      });
+
+      return newSupplier;
+    },
+
+    async update(
+      id: string,
+      data: Partial<Omit<Supplier, "id" | "createdAt" | "updatedAt">>,
+      adminName: string
+    ): Promise<Supplier | null> {
+      const supplier = await this.getById(id);
+      if (!supplier) return null;
+
+      const beforeValue = JSON.stringify(supplier);
+
+      const updatedSupplier: Supplier = {
+        ...supplier,
+        ...data,
+        updatedAt: new Date().toISOString(),
+      };
+
+      await storage.hset(`supplier:${id}`, updatedSupplier as any);
+
+      // Log the action
+      await db.logs.create({
+        actionType: "update",
+        tableName: "suppliers",
+        adminName,
+        beforeValue,
+        afterValue: JSON.stringify(updatedSupplier),
+      });
+
+      return updatedSupplier;
+    },
+
+    async delete(id: string, adminName: string): Promise<boolean> {
+      const supplier = await this.getById(id);
+      if (!supplier) return false;
+
+      // Check if supplier has associated products
+      const products = await db.products.getAll();
+      const associatedProducts = products.filter(
+        (product) => product.supplierId === id
+      );
+
+      if (associatedProducts.length > 0) {
+        throw new Error("Cannot delete supplier with associated products");
+      }
+
+      const purchaseOrders = await db.purchaseOrders.getBySupplierId(id);
+      if (purchaseOrders.length > 0) {
+        throw new Error("Cannot delete supplier with purchase orders");
+      }
+
+      await storage.del(`supplier:${id}`);
+      await storage.srem("suppliers", id);
+
+      // Log the action
+      await db.logs.create({
+        actionType: "delete",
+        tableName: "suppliers",
+        adminName,
+        beforeValue: JSON.stringify(supplier),
+      });
+
+      return true;
+    },
+  },
+
+  // Purchase orders to suppliers
+  purchaseOrders: {
+    async getAll(): Promise<PurchaseOrder[]> {
+      const orderIds = await storage.smembers("purchase-orders");
+      if (!orderIds.length) return [];
+
+      const orders = await Promise.all(
+        orderIds.map(async (id) => {
+          const order = await storage.hgetall(`purchase-order:${id}`);
+          return order as unknown as PurchaseOrder;
+        })
+      );
+
+      return orders
+        .filter(Boolean)
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    },
+
+    async getById(id: string): Promise<PurchaseOrder | null> {
+      const order = await storage.hgetall(`purchase-order:${id}`);
+      if (!order || Object.keys(order).length === 0) return null;
+      return order as unknown as PurchaseOrder;
+    },
+
+    async getBySupplierId(supplierId: string): Promise<PurchaseOrder[]> {
+      const orders = await this.getAll();
+      return orders.filter((order) => order.supplierId === supplierId);
+    },
+
+    async create(
+      order: Pick<PurchaseOrder, "supplierId" | "expectedDate" | "notes"> & {
+        lines: Omit<PurchaseOrderLine, "receivedQuantity">[];
+      },
+      adminName: string
+    ): Promise<PurchaseOrder> {
+      return storage.transaction(async () => {
+        const supplier = await db.suppliers.getById(order.supplierId);
+        if (!supplier) {
+          throw new Error(`Supplier with ID ${order.supplierId} does not exist`);
+        }
+        await checkOrderLines(order.lines);
+
+        const id = crypto.randomUUID();
+        const now = new Date().toISOString();
+        const sequence = await db.counters.next("purchase-order");
+
+        const newOrder: PurchaseOrder = {
+          id,
+          ...order,
+          orderNumber: `PO-${String(sequence).padStart(6, "0")}`,
+          status: "draft",
+          lines: order.lines.map((line) => ({ ...line, receivedQuantity: 0 })),
+          receipts: [],
+          createdAt: now,
+          updatedAt: now,
+        };
+
+        await storage.hset(`purchase-order:${id}`, newOrder as any);
+        await storage.sadd("purchase-orders", id);
+
+        // Log the action
+        await db.logs.create({
+          actionType: "create",
+          tableName: "purchase-orders",
+          adminName,
+          afterValue: JSON.stringify(newOrder),
+        });
+
+        return newOrder;
+      });
+    },
+
+    async update(
+      id: string,
+      data: Partial<
+        Pick<PurchaseOrder, "supplierId" | "status" | "expectedDate" | "notes"> & {
+          lines: Omit<PurchaseOrderLine, "receivedQuantity">[];
+        }
+      >,
+      adminName: string
+    ): Promise<PurchaseOrder | null> {
+      return storage.transaction(async () => {
+        const order = await this.getById(id);
+        if (!order) return null;
+
+        // What was ordered is fixed once the supplier has the order
+        if ((data.supplierId !== undefined || data.lines !== undefined) && order.status !== "draft") {
+          throw new Error("Only draft purchase orders can be changed");
+        }
+        if (data.supplierId !== undefined && !(await db.suppliers.getById(data.supplierId))) {
+          throw new Error(`Supplier with ID ${data.supplierId} does not exist`);
+        }
+        if (data.lines !== undefined) {
+          await checkOrderLines(data.lines);
+        }
         if (
-          productUsed.stockSource === "warehouse" &&
-          product.warehouseStock < productUsed.quantity
+          data.status !== undefined &&
+          data.status !== order.status &&
+          !PURCHASE_ORDER_TRANSITIONS[order.status].includes(data.status)
         ) {
+          throw new Error(`A ${order.status} purchase order can't be marked as ${data.status}`);
+        }
+
+        const { lines, ...fields } = data;
+        const updatedOrder: PurchaseOrder = {
+          ...order,
+          ...fields,
+          ...(lines ? { lines: lines.map((line) => ({ ...line, receivedQuantity: 0 })) } : {}),
+          ...(data.status === "sent" && !order.orderDate
+            ? { orderDate: new Date().toISOString().split("T")[0] }
+            : {}),
+          updatedAt: new Date().toISOString(),
+        };
+
+        await storage.hset(`purchase-order:${id}`, updatedOrder as any);
+
+        // Log the action
+        await db.logs.create({
+          actionType: "update",
+          tableName: "purchase-orders",
+          adminName,
+          beforeValue: JSON.stringify(order),
+          afterValue: JSON.stringify(updatedOrder),
+        });
+
+        return updatedOrder;
+      });
+    },
+
+    /**
+     * Book a delivery in: the goods go into stock at the order's unit cost,
+     * which becomes each product's purchase price, and the amount is recorded
+     * as an inventory purchase expense.
+     */
+    async receive(
+      id: string,
+      delivery: Pick<GoodsReceipt, "location" | "lines" | "receivedBy"> & { date?: string }
+    ): Promise<{ order: PurchaseOrder; receipt: GoodsReceipt } | null> {
+      return storage.transaction(async () => {
+        const order = await this.getById(id);
+        if (!order) return null;
+
+        if (order.status !== "sent" && order.status !== "partially-received") {
           throw new Error(
-            `Not enough warehouse stock for product ${product.name}`
+            order.status === "draft"
+              ? "Mark the purchase order as sent before receiving goods"
+              : `Goods can't be received on a ${order.status} purchase order`
           );
-        } else if (
-          productUsed.stockSource === "shop" &&
-          product.shopStock < productUsed.quantity
-        ) {
-          throw new Error(`Not enough shop stock for product ${product.name}`);
         }
 
-        productCost += product.salePrice * productUsed.quantity;
+        const delivered = delivery.lines.filter((line) => line.quantity > 0);
+        if (!delivered.length) {
+          throw new Error("Enter the quantity delivered for at least one product");
+        }
 
-        // Update product stock
-        if (productUsed.stockSource === "warehouse") {
-          await db.products.update(productUsed.productId, {
-            warehouseStock: product.warehouseStock - productUsed.quantity,
-          });
-        } else {
-          await db.products.update(productUsed.productId, {
-            shopStock: product.shopStock - productUsed.quantity,
-          });
+        const lines = order.lines.map((line) => ({ ...line }));
+        let amount = 0;
+        let units = 0;
+
+        for (const item of delivered) {
+          const line = lines.find((orderLine) => orderLine.productId === item.productId);
+          const product = await db.products.getById(item.productId);
+          if (!line || !product) {
+            throw new Error(`Product with ID ${item.productId} is not on this order`);
+          }
+
+          const outstanding = line.quantity - line.receivedQuantity;
+          if (!Number.isInteger(item.quantity)) {
+            throw new Error(`The quantity of ${product.name} must be a whole number`);
+          }
+          if (item.quantity > outstanding) {
+            throw new Error(`Only ${outstanding} of ${product.name} are still to be delivered`);
+          }
+
+          line.receivedQuantity += item.quantity;
+          amount += item.quantity * line.unitCost;
+          units += item.quantity;
+
+          await db.products.moveStock(product.id, delivery.location, item.quantity, {
+            reason: "receipt",
+            documentType: "purchase-order",
+            documentId: id,
+            notes: order.orderNumber,
+            unitCost: line.unitCost,
+          }, delivery.receivedBy);
+          await db.products.update(product.id, { purchasePrice: line.unitCost }, delivery.receivedBy);
         }
+
+        amount = roundCurrency(amount);
+        const date = delivery.date || new Date().toISOString().split("T")[0];
+        const receipt: GoodsReceipt = {
+          id: crypto.randomUUID(),
+          date,
+          location: delivery.location,
+          lines: delivered.map((item) => ({ productId: item.productId, quantity: item.quantity })),
+          amount,
+          receivedBy: delivery.receivedBy,
+        };
+
+        if (amount > 0) {
+          // Find or create expense category for inventory purchases
+          let inventoryCategoryId = "";
+          const categories = await db.financeCategories.getAll();
+          const inventoryCategory = categories.find(
+            (cat) => cat.type === "expense" && cat.name === "Inventory Purchases"
+          );
+
+          if (inventoryCategory) {
+            inventoryCategoryId = inventoryCategory.id;
+          } else {
+            const newCategory = await db.financeCategories.create({
+              name: "Inventory Purchases",
+              type: "expense",
+              description: "Expenses for purchasing inventory and supplies",
+              isDefault: true,
+            }, delivery.receivedBy);
+            inventoryCategoryId = newCategory.id;
+          }
+
+          const supplier = await db.suppliers.getById(order.supplierId);
+          const record = await db.financeRecords.create({
+            categoryId: inventoryCategoryId,
+            amount,
+            description: `Goods received on ${order.orderNumber} (${units} units) for ${delivery.location}${
+              supplier ? ` from ${supplier.name}` : ""
+            }`,
+            date,
+            referenceNumber: order.orderNumber,
+            relatedEntityType: "purchase-order",
+            relatedEntityId: id,
+            createdBy: delivery.receivedBy,
+          }, delivery.receivedBy);
+          receipt.financeRecordId = record.id;
+        }
+
+        const updatedOrder: PurchaseOrder = {
+          ...order,
+          lines,
+          receipts: [...order.receipts, receipt],
+          status: lines.every((line) => line.receivedQuantity >= line.quantity)
+            ? "received"
+            : "partially-received",
+          updatedAt: new Date().toISOString(),
+        };
+
+        await storage.hset(`purchase-order:${id}`, updatedOrder as any);
+
+        // Log the action
+        await db.logs.create({
+          actionType: "update",
+          tableName: "purchase-orders",
+          adminName: delivery.receivedBy,
+          beforeValue: JSON.stringify(order),
+          afterValue: JSON.stringify(updatedOrder),
+        });
+
+        return { order: updatedOrder, receipt };
+      });
+    },
+
+    async delete(id: string, adminName: string): Promise<boolean> {
+      const order = await this.getById(id);
+      if (!order) return false;
+
+      // Received goods are backed by stock and finance records
+      if (order.receipts.length) {
+        throw new Error("Cannot delete a purchase order with goods received. Cancel it instead.");
       }
 
-      // Calculate total cost
-      const totalCost =
-        serviceCost +
-        productCost +
-        (request.additionalFee || 0) -
-        (request.discount || 0);
-      const remainingBalance = totalCost - (request.paidAmount || 0);
+      await storage.del(`purchase-order:${id}`);
+      await storage.srem("purchase-orders", id);
+
+      // Log the action
+      await db.logs.create({
+        actionType: "delete",
+        tableName: "purchase-orders",
+        adminName,
+        beforeValue: JSON.stringify(order),
+      });
+
+      return true;
+    },
+  },
+
+  // Workshop bays
+  bays: {
+    async getAll(): Promise<Bay[]> {
+      const bayIds = await storage.smembers("bays");
+      if (!bayIds.length) return [];
+
+      const bays = await Promise.all(
+        bayIds.map(async (id) => {
+          const bay = await storage.hgetall(`bay:${id}`);
+          return bay as unknown as Bay;
+        })
+      );
+
+      return bays
+        .filter(Boolean)
+        .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+    },
 
-      const newRequest: MaintenanceRequest = {
+    async getById(id: string): Promise<Bay | null> {
+      const bay = await storage.hgetall(`bay:${id}`);
+      if (!bay || Object.keys(bay).length === 0) return null;
+      return bay as unknown as Bay;
+    },
+
+    async create(bay: Omit<Bay, "id" | "createdAt" | "updatedAt">, adminName: string): Promise<Bay> {
+      const id = crypto.randomUUID();
+      const now = new Date().toISOString();
+
+      const newBay: Bay = {
         id,
-        ...request,
-        totalCost,
-        remainingBalance,
+        ...bay,
         createdAt: now,
         updatedAt: now,
       };
 
-      await redis.hset(`maintenance:${id}`, newRequest as any);
-      await redis.sadd("maintenance", id);
+      await storage.hset(`bay:${id}`, newBay as any);
+      await storage.sadd("bays", id);
 
       // Log the action
       await db.logs.create({
         actionType: "create",
-        tableName: "maintenance",
-        adminName: "System",
-        afterValue: JSON.stringify(newRequest),
-        maintenanceId: id,
-        clientId: request.clientId,
-        carUin: request.carUin,
-        startDate: request.startDate,
-        paymentAmount: request.paidAmount,
-        discount: request.discount,
-        additionalFees: request.additionalFee,
-        remainingBalance,
+        tableName: "bays",
+        adminName,
+        afterValue: JSON.stringify(newBay),
       });
 
-      return newRequest;
+      return newBay;
     },
 
     async update(
       id: string,
-      data: Partial<
-        Omit<
-          MaintenanceRequest,
-          "id" | "totalCost" | "remainingBalance" | "createdAt" | "updatedAt"
-        >
-      >
-    ): Promise<MaintenanceRequest | null> {
-      const request = await this.getById(id);
-      if (!request) return null;
+      data: Partial<Omit<Bay, "id" | "createdAt" | "updatedAt">>,
+      adminName: string
+    ): Promise<Bay | null> {
+      const bay = await this.getById(id);
+      if (!bay) return null;
+
+      const updatedBay: Bay = {
+        ...bay,
+        ...data,
+        updatedAt: new Date().toISOString(),
+      };
+
+      await storage.hset(`bay:${id}`, updatedBay as any);
+
+      // Log the action
+      await db.logs.create({
+        actionType: "update",
+        tableName: "bays",
+        adminName,
+        beforeValue: JSON.stringify(bay),
+        afterValue: JSON.stringify(updatedBay),
+      });
+
+      return updatedBay;
+    },
+
+    async delete(id: string, adminName: string): Promise<boolean> {
+      return storage.transaction(async () => {
+        const bay = await this.getById(id);
+        if (!bay) return false;
+
+        // Bookings would be left without a bay
+        const appointments = await db.appointments.getAll();
+        const upcoming = appointments.filter(
+          (appointment) =>
+            appointment.bayId === id &&
+            isActiveAppointment(appointment) &&
+            new Date(appointment.endTime) > new Date()
+        );
+        if (upcoming.length > 0) {
+          throw new Error(
+            `Cannot delete ${bay.name} while it has ${upcoming.length} upcoming appointment(s). Deactivate it instead.`
+          );
+        }
+
+        await storage.del(`bay:${id}`);
+        await storage.srem("bays", id);
+
+        // Log the action
+        await db.logs.create({
+          actionType: "delete",
+          tableName: "bays",
+          adminName,
+          beforeValue: JSON.stringify(bay),
+        });
+
+        return true;
+      });
+    },
+  },
+
+  // Appointment operations
+  appointments: {
+    async getAll(): Promise<Appointment[]> {
+      const appointmentIds = await storage.smembers("appointments");
+      if (!appointmentIds.length) return [];
+
+      const appointments = await Promise.all(
+        appointmentIds.map(async (id) => {
+          const appointment = await storage.hgetall(`appointment:${id}`);
+          return appointment as unknown as Appointment;
+        })
+      );
+
+      return appointments
+        .filter(Boolean)
+        .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+    },
+
+    async getById(id: string): Promise<Appointment | null> {
+      const appointment = await storage.hgetall(`appointment:${id}`);
+      if (!appointment || Object.keys(appointment).length === 0) return null;
+      return appointment as unknown as Appointment;
+    },
+
+    // Appointments overlapping the period
+    async getByRange(from: string, to: string): Promise<Appointment[]> {
+      const appointments = await this.getAll();
+      return appointments.filter(
+        (appointment) =>
+          new Date(appointment.startTime) < new Date(to) &&
+          new Date(appointment.endTime) > new Date(from)
+      );
+    },
+
+    // Throws when the slot clashes with another booking or the bay is full
+    async checkAvailability(slot: BookingSlot): Promise<void> {
+      const bay = await db.bays.getById(slot.bayId);
+      if (!bay) {
+        throw new Error(`Bay with ID ${slot.bayId} does not exist`);
+      }
+      if (!bay.isActive) {
+        throw new Error(`${bay.name} is not taking bookings`);
+      }
+
+      const conflict = findBookingConflict(slot, await this.getAll(), bay);
+      if (conflict) {
+        throw new Error(conflict);
+      }
+    },
+
+    async create(
+      appointment: Omit<Appointment, "id" | "createdAt" | "updatedAt">,
+      adminName: string
+    ): Promise<Appointment> {
+      // The availability check and the booking commit together
+      return storage.transaction(async () => {
+        const car = await db.cars.getByUin(appointment.carUin);
+        if (!car) {
+          throw new Error(`Car with UIN ${appointment.carUin} does not exist`);
+        }
+        if (car.clientId !== appointment.clientId) {
+          throw new Error("The car does not belong to this client");
+        }
+
+        if (isActiveAppointment(appointment)) {
+          await this.checkAvailability(appointment);
+        }
+
+        const id = crypto.randomUUID();
+        const now = new Date().toISOString();
+        const newAppointment: Appointment = {
+          id,
+          ...appointment,
+          createdAt: now,
+          updatedAt: now,
+        };
+
+        await storage.hset(`appointment:${id}`, newAppointment as any);
+        await storage.sadd("appointments", id);
+
+        // Log the action
+        await db.logs.create({
+          actionType: "create",
+          tableName: "appointments",
+          adminName,
+          afterValue: JSON.stringify(newAppointment),
+          clientId: appointment.clientId,
+          carUin: appointment.carUin,
+          startDate: appointment.startTime,
+          endDate: appointment.endTime,
+        });
+
+        return newAppointment;
+      });
+    },
+
+    async update(
+      id: string,
+      data: Partial<Omit<Appointment, "id" | "createdAt" | "updatedAt">>,
+      adminName: string
+    ): Promise<Appointment | null> {
+      return storage.transaction(async () => {
+        const appointment = await this.getById(id);
+        if (!appointment) return null;
+
+        const updatedAppointment: Appointment = {
+          ...appointment,
+          ...data,
+          updatedAt: new Date().toISOString(),
+        };
+
+        // Re-check the slot when the booking moves or is reinstated
+        const slotChanged =
+          updatedAppointment.bayId !== appointment.bayId ||
+          updatedAppointment.carUin !== appointment.carUin ||
+          updatedAppointment.startTime !== appointment.startTime ||
+          updatedAppointment.endTime !== appointment.endTime ||
+          !isActiveAppointment(appointment);
+        if (isActiveAppointment(updatedAppointment) && slotChanged) {
+          await this.checkAvailability(updatedAppointment);
+        }
+
+        await storage.hset(`appointment:${id}`, updatedAppointment as any);
+
+        // Log the action
+        await db.logs.create({
+          actionType: "update",
+          tableName: "appointments",
+          adminName,
+          beforeValue: JSON.stringify(appointment),
+          afterValue: JSON.stringify(updatedAppointment),
+          clientId: updatedAppointment.clientId,
+          carUin: updatedAppointment.carUin,
+          maintenanceId: updatedAppointment.maintenanceId,
+        });
+
+        return updatedAppointment;
+      });
+    },
+
+    async delete(id: string, adminName: string): Promise<boolean> {
+      const appointment = await this.getById(id);
+      if (!appointment) return false;
+
+      await storage.del(`appointment:${id}`);
+      await storage.srem("appointments", id);
+
+      // Log the action
+      await db.logs.create({
+        actionType: "delete",
+        tableName: "appointments",
+        adminName,
+        beforeValue: JSON.stringify(appointment),
+        clientId: appointment.clientId,
+        carUin: appointment.carUin,
+      });
+
+      return true;
+    },
+  },
+
+  // Maintenance operations
+  maintenance: {
+    async getAll(): Promise<MaintenanceRequest[]> {
+      const maintenanceIds = await storage.smembers("maintenance");
+      if (!maintenanceIds.length) return [];
+
+      const maintenanceRequests = await Promise.all(
+        maintenanceIds.map(async (id) => {
+          const request = await storage.hgetall(`maintenance:${id}`);
+          return request as unknown as MaintenanceRequest;
+        })
+      );
+
+      return maintenanceRequests.filter(Boolean);
+    },
+
+    async getById(id: string): Promise<MaintenanceRequest | null> {
+      const request = await storage.hgetall(`maintenance:${id}`);
+
+      if (!request || Object.keys(request).length === 0) return null;
+      return Object.keys(request).length
+        ? (request as unknown as MaintenanceRequest)
+        : null;
+    },
+
+    async getByCarUin(carUin: string): Promise<MaintenanceRequest[]> {
+      const requests = await this.getAll();
+      return requests.filter((request) => request.carUin === carUin);
+    },
 
-      const beforeValue = JSON.stringify(request);
+    async getByClientId(clientId: string): Promise<MaintenanceRequest[]> {
+      const requests = await this.getAll();
+      return requests.filter((request) => request.clientId === clientId);
+    },
+
+    async create(
+      request: Omit<
+        MaintenanceRequest,
+        "id" | "totalCost" | "remainingBalance" | "createdAt" | "updatedAt"
+      >,
+      adminName: string
+    ): Promise<MaintenanceRequest> {
+      // Stock checks, stock deductions, the request and its log commit together
+      return storage.transaction(async () => {
+        const id = crypto.randomUUID();
+        const now = new Date().toISOString();
+
+        // Check if car exists
+        const car = await db.cars.getByUin(request.carUin);
+        if (!car) {
+          throw new Error(`Car with UIN ${request.carUin} does not exist`);
+        }
 
-      // Recalculate costs if services or products changed
-      let totalCost = request.totalCost;
+        // Check if client exists
+        const client = await db.clients.getById(request.clientId);
+        if (!client) {
+          throw new Error(`Client with ID ${request.clientId} does not exist`);
+        }
 
-      if (data.servicesUsed) {
-        // Calculate new service cost
+        // Check if services exist and calculate service cost, saving each
+        // line's fee so later price changes don't alter this request
         let serviceCost = 0;
-        for (const serviceUsed of data.servicesUsed) {
+        const servicesUsed: MaintenanceRequest["servicesUsed"] = [];
+        for (const serviceUsed of request.servicesUsed) {
           const service = await db.services.getById(serviceUsed.serviceId);
           if (!service) {
             throw new Error(
@@ -1216,240 +3125,528 @@ export const db = {
             );
           }
           serviceCost += service.standardFee * serviceUsed.quantity;
+          servicesUsed.push({ ...serviceUsed, unitPrice: service.standardFee });
         }
 
-        // Adjust total cost by removing old service costs and adding new ones
-        // This is a simplification - in a real system you'd need to track the original costs
-        const oldServiceCost = request.servicesUsed.reduce(
-          async (acc, serviceUsed) => {
-            const service = await db.services.getById(serviceUsed.serviceId);
-            return (
-              (await acc) +
-              (service ? service.standardFee * serviceUsed.quantity : 0)
+        // Check if products exist, have enough stock, and calculate product cost
+        let productCost = 0;
+        const productsUsed: MaintenanceRequest["productsUsed"] = [];
+        for (const productUsed of request.productsUsed) {
+          const product = await db.products.getById(productUsed.productId);
+          if (!product) {
+            throw new Error(
+              `Product with ID ${productUsed.productId} does not exist`
             );
+          }
+
+          // Check stock
+          if (
+            productUsed.stockSource === "warehouse" &&
+            product.warehouseStock < productUsed.quantity
+          ) {
+            throw new Error(
+              `Not enough warehouse stock for product ${product.name}`
+            );
+          } else if (
+            productUsed.stockSource === "shop" &&
+            product.shopStock < productUsed.quantity
+          ) {
+            throw new Error(`Not enough shop stock for product ${product.name}`);
+          }
+
+          productCost += product.salePrice * productUsed.quantity;
+
+          // Update product stock, keeping what the parts cost
+          const { movement } = await db.products.moveStock(
+            productUsed.productId,
+            productUsed.stockSource,
+            -productUsed.quantity,
+            { reason: "sale", documentType: "maintenance", documentId: id },
+            adminName
+          );
+          productsUsed.push({
+            ...productUsed,
+            unitCost: movement?.unitCost,
+            unitPrice: product.salePrice,
+          });
+        }
+
+        // Calculate totals, taxed at the current rate
+        const { general } = await db.settings.get();
+
+        // Jobs billed by time take the current labour rate and start with no hours
+        const hourly = request.labourBilling === "hourly";
+        const labour = hourly ? { labourRate: general.labourRate, labourHours: 0 } : {};
+
+        const totals = calculateMaintenanceTotals(
+          {
+            serviceCost: hourly ? 0 : serviceCost,
+            productCost,
+            additionalFee: request.additionalFee,
+            discount: request.discount,
           },
-          Promise.resolve(0)
+          general
         );
+        const totalCost = totals.totalCost;
+        const initialPayment = request.paidAmount || 0;
+
+        // Paid totals come from the payment ledger, so start from zero
+        const newRequest: MaintenanceRequest = {
+          id,
+          ...request,
+          servicesUsed,
+          productsUsed,
+          ...labour,
+          ...totals,
+          paidAmount: 0,
+          remainingBalance: totalCost,
+          paymentStatus: getPaymentStatus(totalCost, 0),
+          createdAt: now,
+          updatedAt: now,
+        };
+
+        await storage.hset(`maintenance:${id}`, newRequest as any);
+        await storage.sadd("maintenance", id);
+
+        // Log the action
+        await db.logs.create({
+          actionType: "create",
+          tableName: "maintenance",
+          adminName,
+          afterValue: JSON.stringify(newRequest),
+          maintenanceId: id,
+          clientId: request.clientId,
+          carUin: request.carUin,
+          startDate: request.startDate,
+          discount: request.discount,
+          additionalFees: request.additionalFee,
+          remainingBalance: totalCost,
+        });
 
-        totalCost = totalCost - (await oldServiceCost) + serviceCost;
-      }
+        // Money taken up front is recorded in the ledger like any payment
+        if (initialPayment > 0) {
+          await db.payments.create({
+            maintenanceId: id,
+            clientId: request.clientId,
+            type: "payment",
+            amount: initialPayment,
+            date: now,
+            method: "cash",
+            receivedBy: adminName,
+          });
+          return (await this.getById(id)) as MaintenanceRequest;
+        }
 
-      if (data.productsUsed) {
-        // Handle product stock changes
-        // First, return the old products to stock
-        for (const productUsed of request.productsUsed) {
-          const product = await db.products.getById(productUsed.productId);
-          if (product) {
-            if (productUsed.stockSource === "warehouse") {
-              await db.products.update(productUsed.productId, {
-                warehouseStock: product.warehouseStock + productUsed.quantity,
-              });
-            } else {
-              await db.products.update(productUsed.productId, {
-                shopStock: product.shopStock + productUsed.quantity,
-              });
+        return newRequest;
+      });
+    },
+
+    async update(
+      id: string,
+      data: Partial<
+        Omit<
+          MaintenanceRequest,
+          "id" | "totalCost" | "remainingBalance" | "createdAt" | "updatedAt"
+        >
+      >,
+      adminName: string
+    ): Promise<MaintenanceRequest | null> {
+      // Stock returns, new deductions and the updated request commit together
+      return storage.transaction(async () => {
+        const request = await this.getById(id);
+        if (!request) return null;
+
+        const beforeValue = JSON.stringify(request);
+
+        // Only recalculate when a cost input changed, so historical totals stay put
+        const costsChanged =
+          data.servicesUsed !== undefined ||
+          data.productsUsed !== undefined ||
+          data.additionalFee !== undefined ||
+          data.discount !== undefined ||
+          data.labourBilling !== undefined ||
+          data.labourHours !== undefined;
+
+        const previousBilling = request.labourBilling || "standard";
+        const labourBilling = data.labourBilling || previousBilling;
+
+        // Line totals as last calculated (older requests didn't store them)
+        let serviceCost = request.serviceCost;
+        let productCost = request.productCost;
+
+        // Lines already on the request keep the price they were charged at;
+        // new lines (and lines saved before prices were kept) take the current one
+        const servicePrices = getSavedPrices(request.servicesUsed, "serviceId");
+        const productPrices = getSavedPrices(request.productsUsed, "productId");
+
+        let servicesUsed: MaintenanceRequest["servicesUsed"] | undefined;
+        if (
+          data.servicesUsed ||
+          (costsChanged && serviceCost === undefined) ||
+          (labourBilling === "standard" && previousBilling === "hourly")
+        ) {
+          // Calculate new service cost
+          serviceCost = 0;
+          const pricedLines: MaintenanceRequest["servicesUsed"] = [];
+          for (const serviceUsed of data.servicesUsed || request.servicesUsed) {
+            let unitPrice = servicePrices.get(serviceUsed.serviceId);
+            if (unitPrice === undefined) {
+              const service = await db.services.getById(serviceUsed.serviceId);
+              if (!service) {
+                if (!data.servicesUsed) continue;
+                throw new Error(
+                  `Service with ID ${serviceUsed.serviceId} does not exist`
+                );
+              }
+              unitPrice = service.standardFee;
             }
+            serviceCost += unitPrice * serviceUsed.quantity;
+            pricedLines.push({ ...serviceUsed, unitPrice });
           }
+          if (data.servicesUsed) servicesUsed = pricedLines;
         }
 
-        // Then, deduct the new products from stock
-        let productCost = 0;
-        for (const productUsed of data.productsUsed) {
-          const product = await db.products.getById(productUsed.productId);
-          if (!product) {
-            throw new Error(
-              `Product with ID ${productUsed.productId} does not exist`
-            );
+        let productsUsed: MaintenanceRequest["productsUsed"] | undefined;
+        if (data.productsUsed) {
+          // Only the difference between the old and new lines moves stock,
+          // so unchanged parts don't show up in the stock history
+          type StockChange = {
+            productId: string;
+            location: StockLocation;
+            quantity: number;
+            usedBefore: number;
+            costBefore: number | undefined; // Undefined if any earlier line wasn't costed
+            unitCost?: number;
+          };
+          const changes = new Map<string, StockChange>();
+          const getChange = (productId: string, location: StockLocation) => {
+            const key = `${productId}:${location}`;
+            const change = changes.get(key) || { productId, location, quantity: 0, usedBefore: 0, costBefore: 0 };
+            changes.set(key, change);
+            return change;
+          };
+          for (const productUsed of request.productsUsed) {
+            const change = getChange(productUsed.productId, productUsed.stockSource);
+            change.quantity += productUsed.quantity;
+            change.usedBefore += productUsed.quantity;
+            change.costBefore =
+              change.costBefore === undefined || productUsed.unitCost === undefined
+                ? undefined
+                : change.costBefore + productUsed.quantity * Number(productUsed.unitCost);
+          }
+          for (const productUsed of data.productsUsed) {
+            getChange(productUsed.productId, productUsed.stockSource).quantity -= productUsed.quantity;
           }
 
-          // Check stock
-          if (
-            productUsed.stockSource === "warehouse" &&
-            product.warehouseStock < productUsed.quantity
-          ) {
-            throw new Error(
-              `Not enough warehouse stock for product ${product.name}`
-            );
-          } else if (
-            productUsed.stockSource === "shop" &&
-            product.shopStock < productUsed.quantity
-          ) {
-            throw new Error(
-              `Not enough shop stock for product ${product.name}`
-            );
+          productCost = 0;
+          for (const productUsed of data.productsUsed) {
+            if (!productPrices.has(productUsed.productId)) {
+              const product = await db.products.getById(productUsed.productId);
+              if (!product) {
+                throw new Error(
+                  `Product with ID ${productUsed.productId} does not exist`
+                );
+              }
+              productPrices.set(productUsed.productId, product.salePrice);
+            }
+            productCost += productPrices.get(productUsed.productId)! * productUsed.quantity;
           }
 
-          productCost += product.salePrice * productUsed.quantity;
+          for (const change of changes.values()) {
+            const averageBefore =
+              change.usedBefore && change.costBefore !== undefined ? change.costBefore / change.usedBefore : undefined;
+            change.unitCost = change.usedBefore ? averageBefore : undefined;
+
+            // Parts of deleted products can't go back to stock
+            if (!change.quantity || !(await db.products.getById(change.productId))) continue;
+
+            // Parts go back at what they cost; extra parts are costed as they
+            // are taken and averaged in with the ones already on the job
+            const { movement } = await db.products.moveStock(change.productId, change.location, change.quantity, {
+              reason: change.quantity > 0 ? "return" : "sale",
+              documentType: "maintenance",
+              documentId: id,
+              unitCost: change.quantity > 0 ? averageBefore : undefined,
+            }, adminName);
+            if (change.quantity < 0 && movement?.unitCost !== undefined) {
+              const extra = -change.quantity;
+              change.unitCost = !change.usedBefore
+                ? movement.unitCost
+                : change.costBefore !== undefined
+                  ? (change.costBefore + extra * movement.unitCost) / (change.usedBefore + extra)
+                  : undefined;
+            }
+          }
 
-          // Update product stock
-          if (productUsed.stockSource === "warehouse") {
-            await db.products.update(productUsed.productId, {
-              warehouseStock: product.warehouseStock - productUsed.quantity,
-            });
-          } else {
-            await db.products.update(productUsed.productId, {
-              shopStock: product.shopStock - productUsed.quantity,
-            });
+          productsUsed = data.productsUsed.map((productUsed) => {
+            const { unitCost } = getChange(productUsed.productId, productUsed.stockSource);
+            return {
+              ...productUsed,
+              unitCost: unitCost === undefined ? undefined : Math.round(unitCost * 10000) / 10000,
+              unitPrice: productPrices.get(productUsed.productId),
+            };
+          });
+        } else if (costsChanged && productCost === undefined) {
+          productCost = 0;
+          for (const productUsed of request.productsUsed) {
+            let unitPrice = productPrices.get(productUsed.productId);
+            if (unitPrice === undefined) {
+              unitPrice = (await db.products.getById(productUsed.productId))?.salePrice || 0;
+            }
+            productCost += unitPrice * productUsed.quantity;
           }
         }
 
-        // Adjust total cost by removing old product costs and adding new ones
-        // This is a simplification - in a real system you'd need to track the original costs
-        const oldProductCost = request.productsUsed.reduce(
-          async (acc, productUsed) => {
-            const product = await db.products.getById(productUsed.productId);
-            return (
-              (await acc) + (product ? product.salePrice * productUsed.quantity : 0)
-            );
-          },
-          Promise.resolve(0)
-        );
+        // Requests keep the tax rate they were created with; older ones were untaxed
+        const { general } = await db.settings.get();
+
+        // Hourly jobs charge their logged hours at the rate taken when they
+        // were switched to hourly billing
+        let labour: Partial<MaintenanceRequest> = {};
+        if (labourBilling === "hourly") {
+          const labourRate =
+            previousBilling === "hourly" && request.labourRate !== undefined
+              ? request.labourRate
+              : general.labourRate;
+          const labourHours = data.labourHours ?? request.labourHours ?? 0;
+          labour = { labourRate, labourHours };
+          serviceCost = roundCurrency(labourHours * labourRate);
+        }
 
-        totalCost = totalCost - (await oldProductCost) + productCost;
-      }
+        const totals = costsChanged
+          ? calculateMaintenanceTotals(
+              {
+                serviceCost: serviceCost || 0,
+                productCost: productCost || 0,
+                additionalFee: data.additionalFee ?? request.additionalFee,
+                discount: data.discount ?? request.discount,
+              },
+              { ...general, taxRate: request.taxRate ?? 0 }
+            )
+          : null;
+        const totalCost = totals ? totals.totalCost : request.totalCost;
+
+        // Payment totals are owned by the ledger and tax figures are derived,
+        // so neither can be edited here
+        const {
+          paidAmount: _paidAmount,
+          paymentStatus: _paymentStatus,
+          serviceCost: _serviceCost,
+          productCost: _productCost,
+          subtotal: _subtotal,
+          taxRate: _taxRate,
+          taxableAmount: _taxableAmount,
+          taxAmount: _taxAmount,
+          ...changes
+        } = data;
+
+        // Calculate new remaining balance
+        const paidAmount = request.paidAmount;
+        const remainingBalance = totalCost - paidAmount;
+        const paymentStatus = getPaymentStatus(totalCost, paidAmount);
+
+        const updatedRequest: MaintenanceRequest = {
+          ...request,
+          ...changes,
+          ...(servicesUsed && { servicesUsed }),
+          ...(productsUsed && { productsUsed }),
+          ...labour,
+          ...totals,
+          totalCost,
+          paidAmount,
+          remainingBalance,
+          paymentStatus,
+          updatedAt: new Date().toISOString(),
+        };
+
+        await storage.hset(`maintenance:${id}`, updatedRequest as any);
+
+        // A new total moves the insurer/customer split
+        const syncedRequest = (await this.syncPaymentTotals(id)) || updatedRequest;
+
+        // Log the action
+        await db.logs.create({
+          actionType: "update",
+          tableName: "maintenance",
+          adminName,
+          beforeValue,
+          afterValue: JSON.stringify(syncedRequest),
+          maintenanceId: id,
+          clientId: syncedRequest.clientId,
+          carUin: syncedRequest.carUin,
+          startDate: syncedRequest.startDate,
+          endDate: syncedRequest.endDate,
+          discount: data.discount,
+          additionalFees: data.additionalFee,
+          remainingBalance,
+        });
 
-      // Adjust for changes in additional fee or discount
-      if (data.additionalFee !== undefined) {
-        totalCost =
-          totalCost - (request.additionalFee || 0) + (data.additionalFee || 0);
-      }
+        return syncedRequest;
+      });
+    },
 
-      if (data.discount !== undefined) {
-        totalCost = totalCost + (request.discount || 0) - (data.discount || 0);
-      }
+    async delete(id: string, adminName: string): Promise<boolean> {
+      // Returned stock and the removed request commit together
+      return storage.transaction(async () => {
+        const request = await this.getById(id);
+        if (!request) return false;
+
+        // Payments have finance records and may have put credit on the client's account,
+        // so they are voided first, which reverses those
+        const payments = await db.payments.getByMaintenanceId(id);
+        if (Number(request.paidAmount) > 0 || payments.some((payment) => payment.status === "completed")) {
+          throw new Error("Void the payments on this request before deleting it");
+        }
 
-      // Calculate new remaining balance
-      const paidAmount =
-        data.paidAmount !== undefined ? data.paidAmount : request.paidAmount;
-      const remainingBalance = totalCost - paidAmount;
-
-      // Update payment status based on remaining balance
-      let paymentStatus = request.paymentStatus;
-      if (remainingBalance <= 0) {
-        paymentStatus = "paid";
-      } else if (paidAmount > 0) {
-        paymentStatus = "partial";
-      } else {
-        paymentStatus = "pending";
-      }
+        // Return products to stock at what they cost
+        for (const productUsed of request.productsUsed) {
+          const product = await db.products.getById(productUsed.productId);
+          if (product) {
+            await db.products.moveStock(productUsed.productId, productUsed.stockSource, productUsed.quantity, {
+              reason: "return",
+              documentType: "maintenance",
+              documentId: id,
+              notes: "Maintenance request deleted",
+              unitCost: productUsed.unitCost,
+            }, adminName);
+          }
+        }
 
-      const updatedRequest: MaintenanceRequest = {
-        ...request,
-        ...data,
-        totalCost,
-        remainingBalance,
-        paymentStatus,
-        updatedAt: new Date().toISOString(),
-      };
+        // The voided ledger belongs to the request and goes with it
+        for (const payment of payments) {
+          await storage.del(`payment:${payment.id}`);
+          await storage.srem("payments", payment.id);
+        }
 
-      await redis.hset(`maintenance:${id}`, updatedRequest as any);
+        // So does the time booked against it
+        const entries = await db.timeEntries.getByMaintenanceId(id);
+        for (const entry of entries) {
+          await storage.del(`time-entry:${entry.id}`);
+          await storage.srem("time-entries", entry.id);
+        }
 
-      // Log the action
-      await db.logs.create({
-        actionType: "update",
-        tableName: "maintenance",
-        adminName: "System",
-        beforeValue,
-        afterValue: JSON.stringify(updatedRequest),
-        maintenanceId: id,
-        clientId: updatedRequest.clientId,
-        carUin: updatedRequest.carUin,
-        startDate: updatedRequest.startDate,
-        endDate: updatedRequest.endDate,
-        paymentAmount: data.paidAmount,
-        discount: data.discount,
-        additionalFees: data.additionalFee,
-        remainingBalance,
-      });
+        // And its insurance claim
+        const claim = await db.claims.getByMaintenanceId(id);
+        if (claim) {
+          await storage.del(`claim:${claim.id}`);
+          await storage.srem("claims", claim.id);
+        }
 
-      return updatedRequest;
+        await storage.del(`maintenance:${id}`);
+        await storage.srem("maintenance", id);
+
+        // Log the action
+        await db.logs.create({
+          actionType: "delete",
+          tableName: "maintenance",
+          adminName,
+          beforeValue: JSON.stringify(request),
+          maintenanceId: id,
+          clientId: request.clientId,
+          carUin: request.carUin,
+        });
+
+        return true;
+      });
     },
 
-    async delete(id: string): Promise<boolean> {
+    // Recompute paidAmount, remainingBalance and paymentStatus from the ledger,
+    // along with the insurer/customer split when the request has a claim
+    async syncPaymentTotals(id: string): Promise<MaintenanceRequest | null> {
       const request = await this.getById(id);
-      if (!request) return false;
-
-      // Return products to stock
-      for (const productUsed of request.productsUsed) {
-        const product = await db.products.getById(productUsed.productId);
-        if (product) {
-          if (productUsed.stockSource === "warehouse") {
-            await db.products.update(productUsed.productId, {
-              warehouseStock: product.warehouseStock + productUsed.quantity,
-            });
-          } else {
-            await db.products.update(productUsed.productId, {
-              shopStock: product.shopStock + productUsed.quantity,
-            });
-          }
+      if (!request) return null;
+
+      const payments = await db.payments.getByMaintenanceId(id);
+      const paidAmount = getLedgerPaidAmount(payments);
+      const claim = await db.claims.getByMaintenanceId(id);
+      const split = getBillingSplit(request.totalCost, claim, payments);
+
+      // A claim is paid once the insurer's payments cover its share, and reopens if one is voided
+      if (claim && (claim.status === "approved" || claim.status === "paid")) {
+        const isPaid = split.insurerPortion > 0 && split.insurerBalance <= 0;
+        if (isPaid !== (claim.status === "paid")) {
+          const now = new Date().toISOString();
+          await storage.hset(`claim:${claim.id}`, {
+            ...claim,
+            status: isPaid ? "paid" : "approved",
+            ...(isPaid ? { paidAt: now } : {}),
+            updatedAt: now,
+          } as any);
         }
       }
 
-      await redis.del(`maintenance:${id}`);
-      await redis.srem("maintenance", id);
+      const updatedRequest: MaintenanceRequest = {
+        ...request,
+        paidAmount,
+        remainingBalance: request.totalCost - paidAmount,
+        paymentStatus: getPaymentStatus(request.totalCost, paidAmount),
+        ...(claim || request.insurerPortion !== undefined ? split : {}),
+        updatedAt: new Date().toISOString(),
+      };
 
-      // Log the action
-      await db.logs.create({
-        actionType: "delete",
-        tableName: "maintenance",
-        adminName: "System",
-        beforeValue: JSON.stringify(request),
-        maintenanceId: id,
-        clientId: request.clientId,
-        carUin: request.carUin,
-      });
+      await storage.hset(`maintenance:${id}`, updatedRequest as any);
 
-      return true;
+      return updatedRequest;
     },
 
-    async makePayment(
-      id: string,
-      amount: number
-    ): Promise<MaintenanceRequest | null> {
+    // Logged hours from finished time entries; jobs billed by time are recalculated
+    async syncLabourHours(id: string, adminName: string): Promise<MaintenanceRequest | null> {
       const request = await this.getById(id);
       if (!request) return null;
 
-      if (amount <= 0) {
-        throw new Error("Payment amount must be greater than zero");
-      }
-
-      const beforeValue = JSON.stringify(request);
-
-      const newPaidAmount = request.paidAmount + amount;
-      const newRemainingBalance = request.totalCost - newPaidAmount;
+      const entries = await db.timeEntries.getByMaintenanceId(id);
+      const labourHours = getLoggedHours(entries);
+      if (labourHours === (request.labourHours ?? 0)) return request;
 
-      let newPaymentStatus = "pending";
-      if (newRemainingBalance <= 0) {
-        newPaymentStatus = "paid";
-      } else if (newPaidAmount > 0) {
-        newPaymentStatus = "partial";
+      if (request.labourBilling === "hourly") {
+        return this.update(id, { labourHours }, adminName);
       }
 
       const updatedRequest: MaintenanceRequest = {
         ...request,
-        paidAmount: newPaidAmount,
-        remainingBalance: newRemainingBalance,
-        paymentStatus: newPaymentStatus,
+        labourHours,
         updatedAt: new Date().toISOString(),
       };
+      await storage.hset(`maintenance:${id}`, updatedRequest as any);
+      return updatedRequest;
+    },
 
-      await redis.hset(`maintenance:${id}`, updatedRequest as any);
+    // Give a request its invoice or quote number, keeping any already issued
+    async assignDocumentNumber(
+      id: string,
+      kind: "invoice" | "quote",
+      adminName: string
+    ): Promise<MaintenanceRequest> {
+      return storage.transaction(async () => {
+        const request = await this.getById(id);
+        if (!request) throw new Error("Maintenance request not found");
+
+        const field = kind === "invoice" ? "invoiceNumber" : "quoteNumber";
+        if (request[field]) return request;
+
+        const sequence = await db.counters.next(kind);
+        const prefix = kind === "invoice" ? "INV" : "QUO";
+        const updatedRequest: MaintenanceRequest = {
+          ...request,
+          [field]: `${prefix}-${String(sequence).padStart(6, "0")}`,
+          updatedAt: new Date().toISOString(),
+        };
+
+        await storage.hset(`maintenance:${id}`, updatedRequest as any);
+
+        await db.logs.create({
+          actionType: "update",
+          tableName: "maintenance",
+          adminName,
+          beforeValue: JSON.stringify(request),
+          afterValue: JSON.stringify(updatedRequest),
+          maintenanceId: id,
+          clientId: request.clientId,
+          carUin: request.carUin,
+        });
 
-      // Log the action
-      await db.logs.create({
-        actionType: "update",
-        tableName: "maintenance",
-        adminName: "System",
-        beforeValue,
-        afterValue: JSON.stringify(updatedRequest),
-        maintenanceId: id,
-        clientId: request.clientId,
-        carUin: request.carUin,
-        paymentAmount: amount,
-        remainingBalance: newRemainingBalance,
+        return updatedRequest;
       });
-
-      return updatedRequest;
     },
 
     async getByDateRange(
@@ -1488,44 +3685,574 @@ export const db = {
             end = endOfWeek;
             break;
           }
-          case 'month': {
-            const startOfMonth = new Date(start.getFullYear(), start.getMonth(), 1);
-            const endOfMonth = new Date(start.getFullYear(), start.getMonth() + 1, 0);
-            endOfMonth.setHours(23, 59, 59, 999);
-            start = startOfMonth;
-            end = endOfMonth;
-            break;
+          case 'month': {
+            const startOfMonth = new Date(start.getFullYear(), start.getMonth(), 1);
+            const endOfMonth = new Date(start.getFullYear(), start.getMonth() + 1, 0);
+            endOfMonth.setHours(23, 59, 59, 999);
+            start = startOfMonth;
+            end = endOfMonth;
+            break;
+          }
+          case 'year': {
+            const startOfYear = new Date(start.getFullYear(), 0, 1);
+            const endOfYear = new Date(start.getFullYear(), 11, 31);
+            endOfYear.setHours(23, 59, 59, 999);
+            start = startOfYear;
+            end = endOfYear;
+            break;
+          }
+          default:
+            throw new Error('Invalid granularity provided.');
+        }
+      }
+    
+      return requests.filter((request) => {
+        const requestDate = new Date(request.createdAt);
+        return requestDate >= start && requestDate <= end;
+      });
+    }
+    ,
+  },
+
+  // Technician time entries against maintenance jobs
+  timeEntries: {
+    async getAll(): Promise<TimeEntry[]> {
+      const entryIds = await storage.smembers("time-entries");
+      if (!entryIds.length) return [];
+
+      const entries = await Promise.all(
+        entryIds.map(async (id) => {
+          const entry = await storage.hgetall(`time-entry:${id}`);
+          return entry as unknown as TimeEntry;
+        })
+      );
+
+      return entries
+        .filter(Boolean)
+        .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+    },
+
+    async getById(id: string): Promise<TimeEntry | null> {
+      const entry = await storage.hgetall(`time-entry:${id}`);
+      if (!entry || Object.keys(entry).length === 0) return null;
+      return entry as unknown as TimeEntry;
+    },
+
+    async getByMaintenanceId(maintenanceId: string): Promise<TimeEntry[]> {
+      const entries = await this.getAll();
+      return entries.filter((entry) => entry.maintenanceId === maintenanceId);
+    },
+
+    async getByEmployeeId(employeeId: string): Promise<TimeEntry[]> {
+      const entries = await this.getAll();
+      return entries.filter((entry) => entry.employeeId === employeeId);
+    },
+
+    // Entries whose clock is still running
+    async getRunning(): Promise<TimeEntry[]> {
+      const entries = await this.getAll();
+      return entries.filter((entry) => !entry.endTime);
+    },
+
+    async create(
+      entry: Omit<TimeEntry, "id" | "createdAt" | "updatedAt">,
+      adminName: string
+    ): Promise<TimeEntry> {
+      return storage.transaction(async () => {
+        const request = await getOpenJob(entry.maintenanceId);
+        checkEntryTimes(entry);
+
+        const employee = await db.employees.getById(entry.employeeId);
+        if (!employee) {
+          throw new Error(`Employee with ID ${entry.employeeId} does not exist`);
+        }
+        if (!employee.isActive) {
+          throw new Error(`${employee.name} is no longer an active employee`);
+        }
+        if (entry.serviceId && !request.servicesUsed.some((line) => line.serviceId === entry.serviceId)) {
+          throw new Error("That service is not part of this job");
+        }
+
+        // A technician can only be on one clock at a time
+        if (!entry.endTime) {
+          const running = await this.getByEmployeeId(entry.employeeId);
+          if (running.some((other) => !other.endTime)) {
+            throw new Error(`${employee.name} is already clocked on to a job`);
+          }
+        }
+
+        const id = crypto.randomUUID();
+        const now = new Date().toISOString();
+        const newEntry: TimeEntry = {
+          id,
+          ...entry,
+          createdAt: now,
+          updatedAt: now,
+        };
+
+        await storage.hset(`time-entry:${id}`, newEntry as any);
+        await storage.sadd("time-entries", id);
+
+        // Log the action
+        await db.logs.create({
+          actionType: "create",
+          tableName: "time-entries",
+          adminName,
+          afterValue: JSON.stringify(newEntry),
+          maintenanceId: entry.maintenanceId,
+        });
+
+        await db.maintenance.syncLabourHours(entry.maintenanceId, adminName);
+        return newEntry;
+      });
+    },
+
+    async update(
+      id: string,
+      data: Partial<Pick<TimeEntry, "startTime" | "endTime" | "notes">>,
+      adminName: string
+    ): Promise<TimeEntry | null> {
+      return storage.transaction(async () => {
+        const entry = await this.getById(id);
+        if (!entry) return null;
+
+        await getOpenJob(entry.maintenanceId);
+
+        const updatedEntry: TimeEntry = {
+          ...entry,
+          ...data,
+          updatedAt: new Date().toISOString(),
+        };
+        checkEntryTimes(updatedEntry);
+
+        await storage.hset(`time-entry:${id}`, updatedEntry as any);
+
+        // Log the action
+        await db.logs.create({
+          actionType: "update",
+          tableName: "time-entries",
+          adminName,
+          beforeValue: JSON.stringify(entry),
+          afterValue: JSON.stringify(updatedEntry),
+          maintenanceId: entry.maintenanceId,
+        });
+
+        await db.maintenance.syncLabourHours(entry.maintenanceId, adminName);
+        return updatedEntry;
+      });
+    },
+
+    async delete(id: string, adminName: string): Promise<boolean> {
+      return storage.transaction(async () => {
+        const entry = await this.getById(id);
+        if (!entry) return false;
+
+        await getOpenJob(entry.maintenanceId);
+
+        await storage.del(`time-entry:${id}`);
+        await storage.srem("time-entries", id);
+
+        // Log the action
+        await db.logs.create({
+          actionType: "delete",
+          tableName: "time-entries",
+          adminName,
+          beforeValue: JSON.stringify(entry),
+          maintenanceId: entry.maintenanceId,
+        });
+
+        await db.maintenance.syncLabourHours(entry.maintenanceId, adminName);
+        return true;
+      });
+    },
+  },
+
+  // Payment ledger operations
+  payments: {
+    async getAll(): Promise<Payment[]> {
+      const paymentIds = await storage.smembers("payments");
+      if (!paymentIds.length) return [];
+
+      const payments = await Promise.all(
+        paymentIds.map(async (id) => {
+          const payment = await storage.hgetall(`payment:${id}`);
+          return payment as unknown as Payment;
+        })
+      );
+
+      return payments.filter(Boolean);
+    },
+
+    async getById(id: string): Promise<Payment | null> {
+      const payment = await storage.hgetall(`payment:${id}`);
+      if (!payment || Object.keys(payment).length === 0) return null;
+      return payment as unknown as Payment;
+    },
+
+    async getByMaintenanceId(maintenanceId: string): Promise<Payment[]> {
+      const payments = await this.getAll();
+      return payments
+        .filter((payment) => payment.maintenanceId === maintenanceId)
+        .sort(
+          (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+        );
+    },
+
+    async create(
+      payment: Omit<Payment, "id" | "status" | "createdAt" | "updatedAt">
+    ): Promise<Payment> {
+      if (payment.amount <= 0) {
+        throw new Error("Payment amount must be greater than zero");
+      }
+
+      // The ledger entry and the request totals change together
+      return storage.transaction(async () => {
+        const request = await db.maintenance.getById(payment.maintenanceId);
+        if (!request) {
+          throw new Error(
+            `Maintenance request with ID ${payment.maintenanceId} does not exist`
+          );
+        }
+
+        const beforeValue = JSON.stringify(request);
+        const now = new Date().toISOString();
+
+        // Requests paid before the ledger existed get an opening entry first
+        const existingPayments = await this.getByMaintenanceId(request.id);
+        if (!existingPayments.length && request.paidAmount > 0) {
+          const openingId = crypto.randomUUID();
+          const openingPayment: Payment = {
+            id: openingId,
+            maintenanceId: request.id,
+            clientId: request.clientId,
+            type: "payment",
+            amount: request.paidAmount,
+            date: request.updatedAt,
+            method: "cash",
+            reference: "Opening balance",
+            receivedBy: "System",
+            notes: "Paid before the payment ledger was introduced",
+            status: "completed",
+            createdAt: now,
+            updatedAt: now,
+          };
+          await storage.hset(`payment:${openingId}`, openingPayment as any);
+          await storage.sadd("payments", openingId);
+        }
+
+        if (payment.payer === "insurer") {
+          const claim = await db.claims.getByMaintenanceId(request.id);
+          if (!claim) {
+            throw new Error("Record an insurance claim before taking payments from the insurer");
+          }
+          if (claim.status === "rejected") {
+            throw new Error("The insurance claim was rejected, so the insurer owes nothing");
+          }
+        }
+
+        // Each payer can only get back what they paid
+        if (payment.type === "refund") {
+          const paidByPayer = getPaidBy(
+            await this.getByMaintenanceId(request.id),
+            payment.payer || "customer"
+          );
+          if (payment.amount > paidByPayer) {
+            throw new Error(
+              payment.payer === "insurer"
+                ? "Refund amount cannot exceed the amount the insurer paid"
+                : "Refund amount cannot exceed the amount paid"
+            );
+          }
+        }
+
+        const id = crypto.randomUUID();
+        const newPayment: Payment = {
+          id,
+          ...payment,
+          status: "completed",
+          createdAt: now,
+          updatedAt: now,
+        };
+
+        await storage.hset(`payment:${id}`, newPayment as any);
+        await storage.sadd("payments", id);
+
+        const updatedRequest = await db.maintenance.syncPaymentTotals(
+          request.id
+        );
+
+        // Log the action
+        await db.logs.create({
+          actionType: "update",
+          tableName: "maintenance",
+          adminName: payment.receivedBy,
+          beforeValue,
+          afterValue: JSON.stringify(updatedRequest),
+          maintenanceId: request.id,
+          clientId: request.clientId,
+          carUin: request.carUin,
+          paymentAmount:
+            payment.type === "refund" ? -payment.amount : payment.amount,
+          paymentId: id,
+          paymentMethod: payment.method,
+          remainingBalance: updatedRequest?.remainingBalance,
+        });
+
+        return newPayment;
+      });
+    },
+
+    // Voided entries stay in the ledger for the audit trail but no longer count
+    async void(
+      id: string,
+      reason: string,
+      voidedBy: string
+    ): Promise<Payment | null> {
+      return storage.transaction(async () => {
+        const payment = await this.getById(id);
+        if (!payment) return null;
+
+        if (payment.status === "voided") {
+          throw new Error("Payment has already been voided");
+        }
+
+        const credits = (await db.credits.getByClientId(payment.clientId)).filter(
+          (entry) => entry.paymentId === id && entry.status === "completed"
+        );
+        if (credits.some((entry) => entry.type === "application")) {
+          throw new Error("This payment came from the client's credit; void the credit application instead");
+        }
+        // The excess of an overpaid payment goes with it
+        for (const entry of credits.filter((entry) => entry.type === "overpayment")) {
+          await db.credits.void(entry.id, reason, voidedBy);
+        }
+
+        const request = await db.maintenance.getById(payment.maintenanceId);
+        const beforeValue = request ? JSON.stringify(request) : undefined;
+        const now = new Date().toISOString();
+
+        const voidedPayment: Payment = {
+          ...payment,
+          status: "voided",
+          voidedAt: now,
+          voidedBy,
+          voidReason: reason,
+          updatedAt: now,
+        };
+
+        await storage.hset(`payment:${id}`, voidedPayment as any);
+
+        const updatedRequest = await db.maintenance.syncPaymentTotals(
+          payment.maintenanceId
+        );
+
+        // Log the action
+        await db.logs.create({
+          actionType: "update",
+          tableName: "maintenance",
+          adminName: voidedBy,
+          beforeValue,
+          afterValue: JSON.stringify(updatedRequest),
+          maintenanceId: payment.maintenanceId,
+          clientId: payment.clientId,
+          carUin: request?.carUin,
+          paymentAmount:
+            payment.type === "refund" ? payment.amount : -payment.amount,
+          paymentId: id,
+          paymentMethod: payment.method,
+          remainingBalance: updatedRequest?.remainingBalance,
+        });
+
+        return voidedPayment;
+      });
+    },
+  },
+
+  // Client credit account operations
+  credits: {
+    async getAll(): Promise<CreditTransaction[]> {
+      const creditIds = await storage.smembers("credits");
+      if (!creditIds.length) return [];
+
+      const credits = await Promise.all(
+        creditIds.map(async (id) => {
+          const credit = await storage.hgetall(`credit:${id}`);
+          return credit as unknown as CreditTransaction;
+        })
+      );
+
+      return credits
+        .filter(Boolean)
+        .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+    },
+
+    async getById(id: string): Promise<CreditTransaction | null> {
+      const credit = await storage.hgetall(`credit:${id}`);
+      if (!credit || Object.keys(credit).length === 0) return null;
+      return credit as unknown as CreditTransaction;
+    },
+
+    async getByClientId(clientId: string): Promise<CreditTransaction[]> {
+      const credits = await this.getAll();
+      return credits.filter((credit) => credit.clientId === clientId);
+    },
+
+    async getBalance(clientId: string): Promise<number> {
+      return getCreditBalance(await this.getByClientId(clientId));
+    },
+
+    // Applications also record a payment on the request, in the same transaction
+    async create(
+      credit: Omit<CreditTransaction, "id" | "status" | "createdAt" | "updatedAt">
+    ): Promise<CreditTransaction> {
+      if (!(credit.amount > 0)) {
+        throw new Error("Amount must be greater than zero");
+      }
+
+      return storage.transaction(async () => {
+        const client = await db.clients.getById(credit.clientId);
+        if (!client) {
+          throw new Error(`Client with ID ${credit.clientId} does not exist`);
+        }
+
+        const balance = await this.getBalance(credit.clientId);
+        if ((credit.type === "application" || credit.type === "refund") && credit.amount > balance) {
+          throw new Error(`The client only has ${balance.toFixed(2)} of credit available`);
+        }
+
+        const id = crypto.randomUUID();
+        const now = new Date().toISOString();
+        let paymentId = credit.paymentId;
+
+        if (credit.type === "application" || credit.type === "overpayment") {
+          const request = credit.maintenanceId ? await db.maintenance.getById(credit.maintenanceId) : null;
+          if (!request || request.clientId !== credit.clientId) {
+            throw new Error("Select a maintenance request of this client");
+          }
+
+          if (credit.type === "application") {
+            if (request.status === "cancelled") {
+              throw new Error("Credit cannot be applied to a cancelled request");
+            }
+            if (credit.amount > getCustomerBalance(request)) {
+              throw new Error("Credit applied cannot exceed what the client owes on the request");
+            }
+
+            const payment = await db.payments.create({
+              maintenanceId: request.id,
+              clientId: credit.clientId,
+              type: "payment",
+              amount: credit.amount,
+              date: credit.date,
+              method: "credit",
+              reference: "Account credit",
+              receivedBy: credit.receivedBy,
+              notes: credit.notes,
+            });
+            paymentId = payment.id;
           }
-          case 'year': {
-            const startOfYear = new Date(start.getFullYear(), 0, 1);
-            const endOfYear = new Date(start.getFullYear(), 11, 31);
-            endOfYear.setHours(23, 59, 59, 999);
-            start = startOfYear;
-            end = endOfYear;
-            break;
+        }
+
+        const newCredit: CreditTransaction = {
+          id,
+          ...credit,
+          ...(paymentId ? { paymentId } : {}),
+          status: "completed",
+          createdAt: now,
+          updatedAt: now,
+        };
+
+        await storage.hset(`credit:${id}`, newCredit as any);
+        await storage.sadd("credits", id);
+
+        // Log the action
+        await db.logs.create({
+          actionType: "create",
+          tableName: "credits",
+          adminName: credit.receivedBy,
+          afterValue: JSON.stringify(newCredit),
+          clientId: credit.clientId,
+          maintenanceId: credit.maintenanceId,
+          paymentAmount: credit.amount,
+          paymentId,
+          paymentMethod: credit.method,
+        });
+
+        return newCredit;
+      });
+    },
+
+    // Voided entries stay on the account for the audit trail but no longer count
+    async void(
+      id: string,
+      reason: string,
+      voidedBy: string
+    ): Promise<CreditTransaction | null> {
+      return storage.transaction(async () => {
+        const credit = await this.getById(id);
+        if (!credit) return null;
+
+        if (credit.status === "voided") {
+          throw new Error("Credit entry has already been voided");
+        }
+
+        // Money that came in can only be taken off the account while it is unspent
+        if (credit.type === "deposit" || credit.type === "overpayment") {
+          const balance = await this.getBalance(credit.clientId);
+          if (credit.amount > balance) {
+            throw new Error(
+              `${CREDIT_TYPE_LABELS[credit.type]} has already been used; void the applications or refunds first`
+            );
           }
-          default:
-            throw new Error('Invalid granularity provided.');
         }
-      }
-    
-      return requests.filter((request) => {
-        const requestDate = new Date(request.createdAt);
-        return requestDate >= start && requestDate <= end;
+
+        const now = new Date().toISOString();
+        const voidedCredit: CreditTransaction = {
+          ...credit,
+          status: "voided",
+          voidedAt: now,
+          voidedBy,
+          voidReason: reason,
+          updatedAt: now,
+        };
+
+        await storage.hset(`credit:${id}`, voidedCredit as any);
+
+        // An application's payment is taken back off the request
+        if (credit.type === "application" && credit.paymentId) {
+          const payment = await db.payments.getById(credit.paymentId);
+          if (payment && payment.status === "completed") {
+            await db.payments.void(credit.paymentId, reason, voidedBy);
+          }
+        }
+
+        // Log the action
+        await db.logs.create({
+          actionType: "update",
+          tableName: "credits",
+          adminName: voidedBy,
+          beforeValue: JSON.stringify(credit),
+          afterValue: JSON.stringify(voidedCredit),
+          clientId: credit.clientId,
+          maintenanceId: credit.maintenanceId,
+          paymentAmount: credit.amount,
+          paymentId: credit.paymentId,
+        });
+
+        return voidedCredit;
       });
-    }
-    ,
+    },
   },
 
   // Logging operations
   logs: {
     async getAll(): Promise<LogEntry[]> {
-      const logIds = await redis.smembers("logs");
+      const logIds = await storage.smembers("logs");
       if (!logIds.length) return [];
 
       const logs = await Promise.all(
         logIds.map(async (id) => {
-          const log = await redis.hgetall(`log:${id}`);
+          const log = await storage.hgetall(`log:${id}`);
           return log as unknown as LogEntry;
         })
       );
@@ -1539,7 +4266,7 @@ export const db = {
     },
 
     async getById(id: string): Promise<LogEntry | null> {
-      const log = await redis.hgetall(`log:${id}`);
+      const log = await storage.hgetall(`log:${id}`);
 
       if (!log || Object.keys(log).length === 0) return null;
       return Object.keys(log).length ? (log as unknown as LogEntry) : null;
@@ -1560,8 +4287,8 @@ export const db = {
         Object.entries(newLog).filter(([_, v]) => v !== null && v !== undefined)
       );
 
-      await redis.hset(`log:${id}`, filteredLog as any);
-      await redis.sadd("logs", id);
+      await storage.hset(`log:${id}`, filteredLog as any);
+      await storage.sadd("logs", id);
 
       return newLog;
     },
@@ -1651,15 +4378,182 @@ export const db = {
     },
   },
 
+  // User account operations
+  users: {
+    async getAll(): Promise<User[]> {
+      const userIds = await storage.smembers("users");
+      if (!userIds.length) return [];
+
+      const users = await Promise.all(
+        userIds.map(async (id) => {
+          const user = await storage.hgetall(`user:${id}`);
+          return user as unknown as User;
+        })
+      );
+
+      return users.filter(Boolean);
+    },
+
+    async getById(id: string): Promise<User | null> {
+      const user = await storage.hgetall(`user:${id}`);
+      if (!user || Object.keys(user).length === 0) return null;
+      return user as unknown as User;
+    },
+
+    async getByUsername(username: string): Promise<User | null> {
+      const users = await this.getAll();
+      const normalized = username.trim().toLowerCase();
+      return users.find((user) => user.username === normalized) || null;
+    },
+
+    async create(
+      user: Omit<User, "id" | "createdAt" | "updatedAt">,
+      adminName: string
+    ): Promise<User> {
+      return storage.transaction(async () => {
+        const username = user.username.trim().toLowerCase();
+        if (await this.getByUsername(username)) {
+          throw new Error(`Username ${username} is already taken`);
+        }
+
+        const id = crypto.randomUUID();
+        const now = new Date().toISOString();
+
+        const newUser: User = {
+          ...user,
+          id,
+          username,
+          createdAt: now,
+          updatedAt: now,
+        };
+
+        await storage.hset(`user:${id}`, newUser as any);
+        await storage.sadd("users", id);
+
+        // Log the action (never with the password hash)
+        await db.logs.create({
+          actionType: "create",
+          tableName: "users",
+          adminName,
+          afterValue: JSON.stringify(toSafeUser(newUser)),
+        });
+
+        return newUser;
+      });
+    },
+
+    async update(
+      id: string,
+      data: Partial<Omit<User, "id" | "username" | "createdAt" | "updatedAt">>,
+      adminName: string
+    ): Promise<User | null> {
+      const user = await this.getById(id);
+      if (!user) return null;
+
+      const updatedUser: User = {
+        ...user,
+        ...data,
+        updatedAt: new Date().toISOString(),
+      };
+
+      await storage.hset(`user:${id}`, updatedUser as any);
+
+      // Sign-ins only touch lastLoginAt and aren't worth a log entry
+      const changedKeys = Object.keys(data).filter((key) => key !== "lastLoginAt");
+      if (changedKeys.length) {
+        await db.logs.create({
+          actionType: "update",
+          tableName: "users",
+          adminName,
+          beforeValue: JSON.stringify(toSafeUser(user)),
+          afterValue: JSON.stringify(toSafeUser(updatedUser)),
+        });
+      }
+
+      return updatedUser;
+    },
+
+    async delete(id: string, adminName: string): Promise<boolean> {
+      return storage.transaction(async () => {
+        const user = await this.getById(id);
+        if (!user) return false;
+
+        await db.sessions.deleteByUserId(id);
+        await storage.del(`user:${id}`);
+        await storage.srem("users", id);
+
+        // Log the action
+        await db.logs.create({
+          actionType: "delete",
+          tableName: "users",
+          adminName,
+          beforeValue: JSON.stringify(toSafeUser(user)),
+        });
+
+        return true;
+      });
+    },
+  },
+
+  // Login sessions, keyed by a hash of the cookie token
+  sessions: {
+    async create(userId: string): Promise<{ token: string; session: Session }> {
+      const token = randomBytes(32).toString("hex");
+      const now = new Date().toISOString();
+      const session: Session = {
+        id: hashSessionToken(token),
+        userId,
+        createdAt: now,
+        lastActiveAt: now,
+      };
+
+      await storage.hset(`session:${session.id}`, session as any);
+      await storage.sadd("sessions", session.id);
+
+      return { token, session };
+    },
+
+    async getByToken(token: string): Promise<Session | null> {
+      const session = await storage.hgetall(`session:${hashSessionToken(token)}`);
+      if (!session || Object.keys(session).length === 0) return null;
+      return session as unknown as Session;
+    },
+
+    async touch(session: Session): Promise<Session> {
+      const updatedSession: Session = {
+        ...session,
+        lastActiveAt: new Date().toISOString(),
+      };
+      await storage.hset(`session:${session.id}`, updatedSession as any);
+      return updatedSession;
+    },
+
+    async delete(sessionId: string): Promise<void> {
+      await storage.del(`session:${sessionId}`);
+      await storage.srem("sessions", sessionId);
+    },
+
+    async deleteByUserId(userId: string, exceptSessionId?: string): Promise<void> {
+      const sessionIds = await storage.smembers("sessions");
+      for (const sessionId of sessionIds) {
+        if (sessionId === exceptSessionId) continue;
+        const session = await storage.hgetall<Session>(`session:${sessionId}`);
+        if (!session || session.userId === userId) {
+          await this.delete(sessionId);
+        }
+      }
+    },
+  },
+
   // Employee operations
   employees: {
     async getAll(): Promise<Employee[]> {
-      const employeeIds = await redis.smembers("employees");
+      const employeeIds = await storage.smembers("employees");
       if (!employeeIds.length) return [];
 
       const employees = await Promise.all(
         employeeIds.map(async (id) => {
-          const employee = await redis.hgetall(`employee:${id}`);
+          const employee = await storage.hgetall(`employee:${id}`);
           return employee as unknown as Employee;
         })
       );
@@ -1668,13 +4562,14 @@ export const db = {
     },
 
     async getById(id: string): Promise<Employee | null> {
-      const employee = await redis.hgetall(`employee:${id}`);
+      const employee = await storage.hgetall(`employee:${id}`);
       if (!employee || Object.keys(employee).length === 0) return null;
       return employee as unknown as Employee;
     },
 
     async create(
-      employee: Omit<Employee, "id" | "createdAt" | "updatedAt">
+      employee: Omit<Employee, "id" | "createdAt" | "updatedAt">,
+      adminName: string
     ): Promise<Employee> {
       const id = crypto.randomUUID();
       const now = new Date().toISOString();
@@ -1686,14 +4581,14 @@ export const db = {
         updatedAt: now,
       };
 
-      await redis.hset(`employee:${id}`, newEmployee as any);
-      await redis.sadd("employees", id);
+      await storage.hset(`employee:${id}`, newEmployee as any);
+      await storage.sadd("employees", id);
 
       // Log the action
       await db.logs.create({
         actionType: "create",
         tableName: "employees",
-        adminName: "System",
+        adminName,
         afterValue: JSON.stringify(newEmployee),
       });
 
@@ -1702,7 +4597,8 @@ export const db = {
 
     async update(
       id: string,
-      data: Partial<Omit<Employee, "id" | "createdAt" | "updatedAt">>
+      data: Partial<Omit<Employee, "id" | "createdAt" | "updatedAt">>,
+      adminName: string
     ): Promise<Employee | null> {
       const employee = await this.getById(id);
       if (!employee) return null;
@@ -1715,13 +4611,13 @@ export const db = {
         updatedAt: new Date().toISOString(),
       };
 
-      await redis.hset(`employee:${id}`, updatedEmployee as any);
+      await storage.hset(`employee:${id}`, updatedEmployee as any);
 
       // Log the action
       await db.logs.create({
         actionType: "update",
         tableName: "employees",
-        adminName: "System",
+        adminName,
         beforeValue,
         afterValue: JSON.stringify(updatedEmployee),
       });
@@ -1729,7 +4625,7 @@ export const db = {
       return updatedEmployee;
     },
 
-    async delete(id: string): Promise<boolean> {
+    async delete(id: string, adminName: string): Promise<boolean> {
       const employee = await this.getById(id);
       if (!employee) return false;
 
@@ -1739,14 +4635,14 @@ export const db = {
         throw new Error("Cannot delete employee with associated salaries");
       }
 
-      await redis.del(`employee:${id}`);
-      await redis.srem("employees", id);
+      await storage.del(`employee:${id}`);
+      await storage.srem("employees", id);
 
       // Log the action
       await db.logs.create({
         actionType: "delete",
         tableName: "employees",
-        adminName: "System",
+        adminName,
         beforeValue: JSON.stringify(employee),
       });
 
@@ -1757,12 +4653,12 @@ export const db = {
   // Salary operations
   salaries: {
     async getAll(): Promise<Salary[]> {
-      const salaryIds = await redis.smembers("salaries");
+      const salaryIds = await storage.smembers("salaries");
       if (!salaryIds.length) return [];
 
       const salaries = await Promise.all(
         salaryIds.map(async (id) => {
-          const salary = await redis.hgetall(`salary:${id}`);
+          const salary = await storage.hgetall(`salary:${id}`);
           return salary as unknown as Salary;
         })
       );
@@ -1771,7 +4667,7 @@ export const db = {
     },
 
     async getById(id: string): Promise<Salary | null> {
-      const salary = await redis.hgetall(`salary:${id}`);
+      const salary = await storage.hgetall(`salary:${id}`);
       if (!salary || Object.keys(salary).length === 0) return null;
       return salary as unknown as Salary;
     },
@@ -1782,7 +4678,8 @@ export const db = {
     },
 
     async create(
-      salary: Omit<Salary, "id" | "createdAt" | "updatedAt">
+      salary: Omit<Salary, "id" | "createdAt" | "updatedAt">,
+      adminName: string
     ): Promise<Salary> {
       // Validate employee exists
       const employee = await db.employees.getById(salary.employeeId);
@@ -1800,14 +4697,14 @@ export const db = {
         updatedAt: now,
       };
 
-      await redis.hset(`salary:${id}`, newSalary as any);
-      await redis.sadd("salaries", id);
+      await storage.hset(`salary:${id}`, newSalary as any);
+      await storage.sadd("salaries", id);
 
       // Log the action
       await db.logs.create({
         actionType: "create",
         tableName: "salaries",
-        adminName: "System",
+        adminName,
         afterValue: JSON.stringify(newSalary),
       });
 
@@ -1828,7 +4725,7 @@ export const db = {
             type: "expense",
             description: "Salary payments to employees",
             isDefault: true,
-          });
+          }, adminName);
           salaryCategoryId = newCategory.id;
         }
 
@@ -1842,8 +4739,8 @@ export const db = {
           relatedEntityId: id,
           paymentMethod: "bank_transfer",
           notes: newSalary.notes,
-          createdBy: "System",
-        });
+          createdBy: adminName,
+        }, adminName);
       }
 
       return newSalary;
@@ -1851,7 +4748,8 @@ export const db = {
 
     async update(
       id: string,
-      data: Partial<Omit<Salary, "id" | "createdAt" | "updatedAt">>
+      data: Partial<Omit<Salary, "id" | "createdAt" | "updatedAt">>,
+      adminName: string
     ): Promise<Salary | null> {
       const salary = await this.getById(id);
       if (!salary) return null;
@@ -1873,13 +4771,13 @@ export const db = {
         updatedAt: new Date().toISOString(),
       };
 
-      await redis.hset(`salary:${id}`, updatedSalary as any);
+      await storage.hset(`salary:${id}`, updatedSalary as any);
 
       // Log the action
       await db.logs.create({
         actionType: "update",
         tableName: "salaries",
-        adminName: "System",
+        adminName,
         beforeValue,
         afterValue: JSON.stringify(updatedSalary),
       });
@@ -1903,7 +4801,7 @@ export const db = {
             type: "expense",
             description: "Salary payments to employees",
             isDefault: true,
-          });
+          }, adminName);
           salaryCategoryId = newCategory.id;
         }
 
@@ -1917,25 +4815,25 @@ export const db = {
           relatedEntityId: id,
           paymentMethod: "bank_transfer",
           notes: updatedSalary.notes,
-          createdBy: "System",
-        });
+          createdBy: adminName,
+        }, adminName);
       }
 
       return updatedSalary;
     },
 
-    async delete(id: string): Promise<boolean> {
+    async delete(id: string, adminName: string): Promise<boolean> {
       const salary = await this.getById(id);
       if (!salary) return false;
 
-      await redis.del(`salary:${id}`);
-      await redis.srem("salaries", id);
+      await storage.del(`salary:${id}`);
+      await storage.srem("salaries", id);
 
       // Log the action
       await db.logs.create({
         actionType: "delete",
         tableName: "salaries",
-        adminName: "System",
+        adminName,
         beforeValue: JSON.stringify(salary),
       });
 
@@ -1950,7 +4848,7 @@ export const db = {
 
         // Delete related finance records
         for (const record of relatedRecords) {
-          await db.financeRecords.delete(record.id);
+          await db.financeRecords.delete(record.id, adminName);
         }
       }
 
@@ -2032,12 +4930,12 @@ export const db = {
   // Finance Category operations
   financeCategories: {
     async getAll(): Promise<FinanceCategory[]> {
-      const categoryIds = await redis.smembers("financeCategories");
+      const categoryIds = await storage.smembers("financeCategories");
       if (!categoryIds.length) return [];
 
       const categories = await Promise.all(
         categoryIds.map(async (id) => {
-          const category = await redis.hgetall(`financeCategory:${id}`);
+          const category = await storage.hgetall(`financeCategory:${id}`);
           return category as unknown as FinanceCategory;
         })
       );
@@ -2046,7 +4944,7 @@ export const db = {
     },
 
     async getById(id: string): Promise<FinanceCategory | null> {
-      const category = await redis.hgetall(`financeCategory:${id}`);
+      const category = await storage.hgetall(`financeCategory:${id}`);
       if (!category || Object.keys(category).length === 0) return null;
       return category as unknown as FinanceCategory;
     },
@@ -2057,7 +4955,8 @@ export const db = {
     },
 
     async create(
-      category: Omit<FinanceCategory, "id" | "createdAt" | "updatedAt">
+      category: Omit<FinanceCategory, "id" | "createdAt" | "updatedAt">,
+      adminName: string
     ): Promise<FinanceCategory> {
       const id = crypto.randomUUID();
       const now = new Date().toISOString();
@@ -2069,14 +4968,14 @@ export const db = {
         updatedAt: now,
       };
 
-      await redis.hset(`financeCategory:${id}`, newCategory as any);
-      await redis.sadd("financeCategories", id);
+      await storage.hset(`financeCategory:${id}`, newCategory as any);
+      await storage.sadd("financeCategories", id);
 
       // Log the action
       await db.logs.create({
         actionType: "create",
         tableName: "financeCategories",
-        adminName: "System",
+        adminName,
         afterValue: JSON.stringify(newCategory),
       });
 
@@ -2085,7 +4984,8 @@ export const db = {
 
     async update(
       id: string,
-      data: Partial<Omit<FinanceCategory, "id" | "createdAt" | "updatedAt">>
+      data: Partial<Omit<FinanceCategory, "id" | "createdAt" | "updatedAt">>,
+      adminName: string
     ): Promise<FinanceCategory | null> {
       const category = await this.getById(id);
       if (!category) return null;
@@ -2098,13 +4998,13 @@ export const db = {
         updatedAt: new Date().toISOString(),
       };
 
-      await redis.hset(`financeCategory:${id}`, updatedCategory as any);
+      await storage.hset(`financeCategory:${id}`, updatedCategory as any);
 
       // Log the action
       await db.logs.create({
         actionType: "update",
         tableName: "financeCategories",
-        adminName: "System",
+        adminName,
         beforeValue,
         afterValue: JSON.stringify(updatedCategory),
       });
@@ -2112,7 +5012,7 @@ export const db = {
       return updatedCategory;
     },
 
-    async delete(id: string): Promise<boolean> {
+    async delete(id: string, adminName: string): Promise<boolean> {
       const category = await this.getById(id);
       if (!category) return false;
 
@@ -2128,14 +5028,18 @@ export const db = {
         );
       }
 
-      await redis.del(`financeCategory:${id}`);
-      await redis.srem("financeCategories", id);
+      // A budget means nothing without its category
+      const budget = await db.budgets.getByCategoryId(id);
+      if (budget) await db.budgets.delete(budget.id, adminName);
+
+      await storage.del(`financeCategory:${id}`);
+      await storage.srem("financeCategories", id);
 
       // Log the action
       await db.logs.create({
         actionType: "delete",
         tableName: "financeCategories",
-        adminName: "System",
+        adminName,
         beforeValue: JSON.stringify(category),
       });
 
@@ -2146,12 +5050,12 @@ export const db = {
   // Finance Record operations
   financeRecords: {
     async getAll(): Promise<FinanceRecord[]> {
-      const recordIds = await redis.smembers("financeRecords");
+      const recordIds = await storage.smembers("financeRecords");
       if (!recordIds.length) return [];
 
       const records = await Promise.all(
         recordIds.map(async (id) => {
-          const record = await redis.hgetall(`financeRecord:${id}`);
+          const record = await storage.hgetall(`financeRecord:${id}`);
           return record as unknown as FinanceRecord;
         })
       );
@@ -2160,7 +5064,7 @@ export const db = {
     },
 
     async getById(id: string): Promise<FinanceRecord | null> {
-      const record = await redis.hgetall(`financeRecord:${id}`);
+      const record = await storage.hgetall(`financeRecord:${id}`);
       if (!record || Object.keys(record).length === 0) return null;
       return record as unknown as FinanceRecord;
     },
@@ -2187,7 +5091,8 @@ export const db = {
     },
 
     async create(
-      record: Omit<FinanceRecord, "id" | "createdAt" | "updatedAt">
+      record: Omit<FinanceRecord, "id" | "createdAt" | "updatedAt">,
+      adminName: string
     ): Promise<FinanceRecord> {
       // Validate category exists
       const category = await db.financeCategories.getById(record.categoryId);
@@ -2205,14 +5110,14 @@ export const db = {
         updatedAt: now,
       };
 
-      await redis.hset(`financeRecord:${id}`, newRecord as any);
-      await redis.sadd("financeRecords", id);
+      await storage.hset(`financeRecord:${id}`, newRecord as any);
+      await storage.sadd("financeRecords", id);
 
       // Log the action
       await db.logs.create({
         actionType: "create",
         tableName: "financeRecords",
-        adminName: "System",
+        adminName,
         afterValue: JSON.stringify(newRecord),
       });
 
@@ -2221,7 +5126,8 @@ export const db = {
 
     async update(
       id: string,
-      data: Partial<Omit<FinanceRecord, "id" | "createdAt" | "updatedAt">>
+      data: Partial<Omit<FinanceRecord, "id" | "createdAt" | "updatedAt">>,
+      adminName: string
     ): Promise<FinanceRecord | null> {
       const record = await this.getById(id);
       if (!record) return null;
@@ -2242,13 +5148,13 @@ export const db = {
         updatedAt: new Date().toISOString(),
       };
 
-      await redis.hset(`financeRecord:${id}`, updatedRecord as any);
+      await storage.hset(`financeRecord:${id}`, updatedRecord as any);
 
       // Log the action
       await db.logs.create({
         actionType: "update",
         tableName: "financeRecords",
-        adminName: "System",
+        adminName,
         beforeValue,
         afterValue: JSON.stringify(updatedRecord),
       });
@@ -2256,18 +5162,18 @@ export const db = {
       return updatedRecord;
     },
 
-    async delete(id: string): Promise<boolean> {
+    async delete(id: string, adminName: string): Promise<boolean> {
       const record = await this.getById(id);
       if (!record) return false;
 
-      await redis.del(`financeRecord:${id}`);
-      await redis.srem("financeRecords", id);
+      await storage.del(`financeRecord:${id}`);
+      await storage.srem("financeRecords", id);
 
       // Log the action
       await db.logs.create({
         actionType: "delete",
         tableName: "financeRecords",
-        adminName: "System",
+        adminName,
         beforeValue: JSON.stringify(record),
       });
 
@@ -2473,4 +5379,336 @@ export const db = {
       };
     },
   },
+
+  // Exchange rate operations (one rate per currency and day)
+  exchangeRates: {
+    async getAll(): Promise<ExchangeRate[]> {
+      const rateIds = await storage.smembers("exchange-rates");
+      if (!rateIds.length) return [];
+
+      const rates = await Promise.all(
+        rateIds.map(async (id) => {
+          const rate = await storage.hgetall(`exchange-rate:${id}`);
+          return rate as unknown as ExchangeRate;
+        })
+      );
+
+      return rates
+        .filter(Boolean)
+        .map((rate) => ({ ...rate, rate: Number(rate.rate) }))
+        .sort((a, b) => b.date.localeCompare(a.date) || a.currency.localeCompare(b.currency));
+    },
+
+    async getById(id: string): Promise<ExchangeRate | null> {
+      const rate = await storage.hgetall(`exchange-rate:${id}`);
+      if (!rate || Object.keys(rate).length === 0) return null;
+      return { ...(rate as unknown as ExchangeRate), rate: Number(rate.rate) };
+    },
+
+    async getByCurrency(currency: string): Promise<ExchangeRate[]> {
+      const rates = await this.getAll();
+      return rates.filter((rate) => rate.currency === currency);
+    },
+
+    // Entering a rate for a day that already has one replaces it
+    async upsert(
+      data: Omit<ExchangeRate, "id" | "createdAt" | "updatedAt">,
+      adminName: string
+    ): Promise<ExchangeRate> {
+      if (!(data.rate > 0)) {
+        throw new Error("Exchange rate must be greater than zero");
+      }
+
+      return storage.transaction(async () => {
+        const settings = await db.settings.get();
+        if (data.currency === settings.general.currency) {
+          throw new Error(`${data.currency} is the base currency and needs no exchange rate`);
+        }
+
+        const existing = (await this.getByCurrency(data.currency)).find(
+          (rate) => rate.date === data.date
+        );
+        const now = new Date().toISOString();
+        const rate: ExchangeRate = existing
+          ? { ...existing, rate: data.rate, updatedAt: now }
+          : { id: crypto.randomUUID(), ...data, createdAt: now, updatedAt: now };
+
+        await storage.hset(`exchange-rate:${rate.id}`, rate as any);
+        if (!existing) await storage.sadd("exchange-rates", rate.id);
+
+        // Log the action
+        await db.logs.create({
+          actionType: existing ? "update" : "create",
+          tableName: "exchangeRates",
+          adminName,
+          ...(existing ? { beforeValue: JSON.stringify(existing) } : {}),
+          afterValue: JSON.stringify(rate),
+        });
+
+        return rate;
+      });
+    },
+
+    // Records already converted keep the rate they were converted at
+    async delete(id: string, adminName: string): Promise<boolean> {
+      const rate = await this.getById(id);
+      if (!rate) return false;
+
+      await storage.del(`exchange-rate:${id}`);
+      await storage.srem("exchange-rates", id);
+
+      // Log the action
+      await db.logs.create({
+        actionType: "delete",
+        tableName: "exchangeRates",
+        adminName,
+        beforeValue: JSON.stringify(rate),
+      });
+
+      return true;
+    },
+  },
+
+  // Recurring finance schedule operations
+  recurringSchedules: {
+    async getAll(): Promise<RecurringSchedule[]> {
+      const scheduleIds = await storage.smembers("recurring-schedules");
+      if (!scheduleIds.length) return [];
+
+      const schedules = await Promise.all(
+        scheduleIds.map(async (id) => {
+          const schedule = await storage.hgetall(`recurring-schedule:${id}`);
+          return schedule as unknown as RecurringSchedule;
+        })
+      );
+
+      return schedules
+        .filter(Boolean)
+        .map((schedule) => ({ ...schedule, exceptions: schedule.exceptions || [] }))
+        .sort((a, b) => a.description.localeCompare(b.description));
+    },
+
+    async getById(id: string): Promise<RecurringSchedule | null> {
+      const schedule = await storage.hgetall(`recurring-schedule:${id}`);
+      if (!schedule || Object.keys(schedule).length === 0) return null;
+      const result = schedule as unknown as RecurringSchedule;
+      return { ...result, exceptions: result.exceptions || [] };
+    },
+
+    async create(
+      schedule: Omit<RecurringSchedule, "id" | "exceptions" | "createdAt" | "updatedAt">
+    ): Promise<RecurringSchedule> {
+      const category = await db.financeCategories.getById(schedule.categoryId);
+      if (!category) {
+        throw new Error(`Finance category with ID ${schedule.categoryId} does not exist`);
+      }
+
+      const id = crypto.randomUUID();
+      const now = new Date().toISOString();
+
+      const newSchedule: RecurringSchedule = {
+        id,
+        ...schedule,
+        exceptions: [],
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await storage.hset(`recurring-schedule:${id}`, newSchedule as any);
+      await storage.sadd("recurring-schedules", id);
+
+      // Log the action
+      await db.logs.create({
+        actionType: "create",
+        tableName: "recurringSchedules",
+        adminName: schedule.createdBy,
+        afterValue: JSON.stringify(newSchedule),
+      });
+
+      return newSchedule;
+    },
+
+    // Changes apply to occurrences not posted yet; posted records keep their values
+    async update(
+      id: string,
+      data: Partial<Omit<RecurringSchedule, "id" | "createdBy" | "createdAt" | "updatedAt">>,
+      adminName: string
+    ): Promise<RecurringSchedule | null> {
+      const schedule = await this.getById(id);
+      if (!schedule) return null;
+
+      if (data.categoryId && data.categoryId !== schedule.categoryId) {
+        const category = await db.financeCategories.getById(data.categoryId);
+        if (!category) {
+          throw new Error(`Finance category with ID ${data.categoryId} does not exist`);
+        }
+      }
+
+      const updatedSchedule: RecurringSchedule = {
+        ...schedule,
+        ...data,
+        updatedAt: new Date().toISOString(),
+      };
+
+      await storage.hset(`recurring-schedule:${id}`, updatedSchedule as any);
+
+      // Log the action
+      await db.logs.create({
+        actionType: "update",
+        tableName: "recurringSchedules",
+        adminName,
+        beforeValue: JSON.stringify(schedule),
+        afterValue: JSON.stringify(updatedSchedule),
+      });
+
+      return updatedSchedule;
+    },
+
+    // Skip or adjust one occurrence; null puts it back to the schedule's values
+    async setException(
+      id: string,
+      date: string,
+      exception: Omit<ScheduleException, "date"> | null,
+      adminName: string
+    ): Promise<RecurringSchedule | null> {
+      return storage.transaction(async () => {
+        const schedule = await this.getById(id);
+        if (!schedule) return null;
+
+        const exceptions = schedule.exceptions.filter((entry) => entry.date !== date);
+        if (exception) exceptions.push({ date, ...exception });
+        exceptions.sort((a, b) => a.date.localeCompare(b.date));
+
+        return this.update(id, { exceptions }, adminName);
+      });
+    },
+
+    // Records already posted stay in the finances
+    async delete(id: string, adminName: string): Promise<boolean> {
+      const schedule = await this.getById(id);
+      if (!schedule) return false;
+
+      await storage.del(`recurring-schedule:${id}`);
+      await storage.srem("recurring-schedules", id);
+
+      // Log the action
+      await db.logs.create({
+        actionType: "delete",
+        tableName: "recurringSchedules",
+        adminName,
+        beforeValue: JSON.stringify(schedule),
+      });
+
+      return true;
+    },
+  },
+
+  // Budget operations
+  budgets: {
+    async getAll(): Promise<Budget[]> {
+      const budgetIds = await storage.smembers("budgets");
+      if (!budgetIds.length) return [];
+
+      const budgets = await Promise.all(
+        budgetIds.map(async (id) => {
+          const budget = await storage.hgetall(`budget:${id}`);
+          return budget as unknown as Budget;
+        })
+      );
+
+      return budgets.filter(Boolean).map((budget) => ({ ...budget, amount: Number(budget.amount) }));
+    },
+
+    async getById(id: string): Promise<Budget | null> {
+      const budget = await storage.hgetall(`budget:${id}`);
+      if (!budget || Object.keys(budget).length === 0) return null;
+      return { ...(budget as unknown as Budget), amount: Number(budget.amount) };
+    },
+
+    async getByCategoryId(categoryId: string): Promise<Budget | null> {
+      const budgets = await this.getAll();
+      return budgets.find((budget) => budget.categoryId === categoryId) || null;
+    },
+
+    async create(budget: Omit<Budget, "id" | "createdAt" | "updatedAt">, adminName: string): Promise<Budget> {
+      return storage.transaction(async () => {
+        const category = await db.financeCategories.getById(budget.categoryId);
+        if (!category) {
+          throw new Error(`Finance category with ID ${budget.categoryId} does not exist`);
+        }
+        if (await this.getByCategoryId(budget.categoryId)) {
+          throw new Error(`${category.name} already has a budget; change that one instead`);
+        }
+
+        const id = crypto.randomUUID();
+        const now = new Date().toISOString();
+
+        const newBudget: Budget = {
+          id,
+          ...budget,
+          createdAt: now,
+          updatedAt: now,
+        };
+
+        await storage.hset(`budget:${id}`, newBudget as any);
+        await storage.sadd("budgets", id);
+
+        // Log the action
+        await db.logs.create({
+          actionType: "create",
+          tableName: "budgets",
+          adminName,
+          afterValue: JSON.stringify(newBudget),
+        });
+
+        return newBudget;
+      });
+    },
+
+    async update(
+      id: string,
+      data: Partial<Omit<Budget, "id" | "categoryId" | "createdAt" | "updatedAt">>,
+      adminName: string
+    ): Promise<Budget | null> {
+      const budget = await this.getById(id);
+      if (!budget) return null;
+
+      const updatedBudget: Budget = {
+        ...budget,
+        ...data,
+        updatedAt: new Date().toISOString(),
+      };
+
+      await storage.hset(`budget:${id}`, updatedBudget as any);
+
+      // Log the action
+      await db.logs.create({
+        actionType: "update",
+        tableName: "budgets",
+        adminName,
+        beforeValue: JSON.stringify(budget),
+        afterValue: JSON.stringify(updatedBudget),
+      });
+
+      return updatedBudget;
+    },
+
+    async delete(id: string, adminName: string): Promise<boolean> {
+      const budget = await this.getById(id);
+      if (!budget) return false;
+
+      await storage.del(`budget:${id}`);
+      await storage.srem("budgets", id);
+
+      // Log the action
+      await db.logs.create({
+        actionType: "delete",
+        tableName: "budgets",
+        adminName,
+        beforeValue: JSON.stringify(budget),
+      });
+
+      return true;
+    },
+  },
 };
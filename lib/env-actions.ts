@@ -1,7 +1,11 @@
 "use server"
 
+import { getDataFilePath, getStorageBackend } from "@/lib/storage"
+
 export async function getEnvVariables() {
   return {
+    STORAGE_BACKEND: getStorageBackend(),
+    GARAGE_DATA_FILE: getDataFilePath(),
     KV_URL: process.env.KV_URL || "Not set",
     KV_REST_API_URL: process.env.KV_REST_API_URL || "Not set",
     KV_REST_API_TOKEN: process.env.KV_REST_API_TOKEN ||"Not set",
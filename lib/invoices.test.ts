@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import type { MaintenanceRequest } from "@/lib/db";
+import { buildInvoiceDocument, renderInvoicePdf } from "@/lib/invoices";
+import { PDF_UNPRINTABLE_ERROR } from "@/lib/pdf";
+import { client, garageSettings, savedRequest, stored } from "@/test/fixtures";
+
+function build(overrides: Partial<MaintenanceRequest> = {}, clientName = "Jane Doe") {
+  return buildInvoiceDocument({
+    kind: "invoice",
+    request: savedRequest({ id: "m1", ...overrides }),
+    client: stored(client({ name: clientName })),
+    car: null,
+    payments: [],
+    garage: garageSettings(),
+  });
+}
+
+describe("buildInvoiceDocument", () => {
+  it("is a draft until a number is issued", () => {
+    expect(build()).toMatchObject({ number: "m1", draft: true });
+    expect(build({ invoiceNumber: "INV-000007" })).toMatchObject({ number: "INV-000007", draft: false });
+  });
+});
+
+describe("renderInvoicePdf", () => {
+  it("prints Latin names", () => {
+    const pdf = renderInvoicePdf(build({}, "José Müller")).toString("latin1");
+    expect(pdf.startsWith("%PDF-1.4")).toBe(true);
+    expect(pdf).toContain("José Müller");
+  });
+
+  it("refuses names the PDF fonts can't print instead of writing question marks", () => {
+    expect(() => renderInvoicePdf(build({}, "محمد علي"))).toThrow(PDF_UNPRINTABLE_ERROR);
+  });
+});
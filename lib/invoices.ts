@@ -0,0 +1,668 @@
+import type {
+  Car,
+  Client,
+  ExchangeRate,
+  GarageSettings,
+  MaintenanceRequest,
+  Payment,
+  PaymentMethod,
+} from "@/lib/db";
+import { convertFromBase, findExchangeRate, getSecondaryCurrencies } from "@/lib/currency";
+import { createPdfDocument } from "@/lib/pdf";
+import { roundCurrency } from "@/lib/utils";
+
+export type InvoiceKind = "invoice" | "quote";
+
+export type InvoiceLine = {
+  type: "service" | "product";
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+};
+
+// Everything needed to render an invoice or quote, independent of the output format
+export type InvoiceDocument = {
+  kind: InvoiceKind;
+  number: string; // The request id until a number is issued
+  draft: boolean; // No invoice or quote number issued yet
+  issueDate: string;
+  validUntil?: string; // Quotes only
+  garage: GarageSettings;
+  client: {
+    name: string;
+    email?: string;
+    contact?: string;
+    address?: string;
+  };
+  vehicle: string;
+  maintenanceId: string;
+  status: MaintenanceRequest["status"];
+  paymentStatus: MaintenanceRequest["paymentStatus"];
+  lines: InvoiceLine[];
+  subtotal: number;
+  discount: number;
+  discountJustification?: string;
+  additionalFee: number;
+  total: number;
+  taxRate: number; // As stored on the request, not the current setting
+  taxableAmount: number;
+  taxAmount: number;
+  paidAmount: number;
+  balanceDue: number;
+  payments: Array<{
+    date: string;
+    type: Payment["type"];
+    method: PaymentMethod;
+    reference?: string;
+    amount: number;
+    currency?: string;
+    foreignAmount?: number;
+  }>;
+  // Total and balance in each secondary currency at the rate of the issue date;
+  // currencies with no rate entered yet are left out
+  conversions: Array<{
+    currency: string;
+    exchangeRate: number;
+    total: number;
+    balanceDue: number;
+  }>;
+};
+
+// Quotes stay valid for this many days after they are issued
+const QUOTE_VALIDITY_DAYS = 30;
+
+const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: "Cash",
+  card: "Card",
+  bank_transfer: "Bank transfer",
+  check: "Check",
+  credit: "Account credit",
+};
+
+const PAYMENT_STATUS_LABELS: Record<MaintenanceRequest["paymentStatus"], string> = {
+  pending: "Unpaid",
+  partial: "Partially paid",
+  paid: "Paid",
+};
+
+export function buildInvoiceDocument({
+  kind,
+  request,
+  client,
+  car,
+  payments,
+  garage,
+  exchangeRates = [],
+  issueDate = new Date().toISOString(),
+}: {
+  kind: InvoiceKind;
+  request: MaintenanceRequest;
+  client: Client | null;
+  car: Car | null;
+  payments: Payment[];
+  garage: GarageSettings;
+  exchangeRates?: ExchangeRate[];
+  issueDate?: string;
+}): InvoiceDocument {
+  const lines: InvoiceLine[] = [
+    ...(request.serviceDetails || []).map((service) => ({
+      type: "service" as const,
+      description: service.name,
+      quantity: service.quantity,
+      unitPrice: service.quantity ? service.cost / service.quantity : 0,
+      amount: service.cost,
+    })),
+    ...(request.productDetails || []).map((product) => ({
+      type: "product" as const,
+      description: product.name,
+      quantity: product.quantity,
+      unitPrice: product.unitPrice,
+      amount: product.cost,
+    })),
+  ];
+
+  const total = Number(request.totalCost) || 0;
+  const paidAmount = Number(request.paidAmount) || 0;
+  const balanceDue = roundCurrency(total - paidAmount);
+
+  let validUntil: string | undefined;
+  if (kind === "quote") {
+    const expiry = new Date(issueDate);
+    expiry.setDate(expiry.getDate() + QUOTE_VALIDITY_DAYS);
+    validUntil = expiry.toISOString();
+  }
+
+  const issuedNumber = kind === "invoice" ? request.invoiceNumber : request.quoteNumber;
+
+  return {
+    kind,
+    number: issuedNumber || request.id,
+    draft: !issuedNumber,
+    issueDate,
+    validUntil,
+    garage,
+    client: {
+      name: client?.name || request.clientName || "Unknown Client",
+      email: client?.email,
+      contact: client?.contact,
+      address: client?.address,
+    },
+    vehicle: car
+      ? `${car.make} ${car.model} ${car.year} (${car.licensePlate})`
+      : request.carDetails || request.carUin,
+    maintenanceId: request.id,
+    status: request.status,
+    paymentStatus: request.paymentStatus,
+    lines,
+    // Prefer the stored line totals so the document matches what was charged
+    subtotal: roundCurrency(
+      request.serviceCost !== undefined && request.productCost !== undefined
+        ? Number(request.serviceCost) + Number(request.productCost)
+        : lines.reduce((sum, line) => sum + line.amount, 0)
+    ),
+    discount: Number(request.discount) || 0,
+    discountJustification: request.discountJustification,
+    additionalFee: Number(request.additionalFee) || 0,
+    total,
+    taxRate: Number(request.taxRate) || 0,
+    taxableAmount: Number(request.taxableAmount) || 0,
+    taxAmount: Number(request.taxAmount) || 0,
+    paidAmount,
+    balanceDue,
+    payments: payments
+      .filter((payment) => payment.status === "completed")
+      .map((payment) => ({
+        date: payment.date,
+        type: payment.type,
+        method: payment.method,
+        reference: payment.reference,
+        amount: payment.amount,
+        ...(payment.currency
+          ? { currency: payment.currency, foreignAmount: Number(payment.foreignAmount) }
+          : {}),
+      })),
+    conversions: getSecondaryCurrencies(garage).flatMap((currency) => {
+      const rate = findExchangeRate(exchangeRates, currency, issueDate);
+      if (!rate) return [];
+      return [
+        {
+          currency,
+          exchangeRate: rate.rate,
+          total: convertFromBase(total, rate.rate),
+          balanceDue: convertFromBase(balanceDue, rate.rate),
+        },
+      ];
+    }),
+  };
+}
+
+function createFormatters(document: InvoiceDocument) {
+  const currency = new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: document.garage.currency || "USD",
+  });
+  const date = new Intl.DateTimeFormat("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+
+  return {
+    money: (amount: number, code?: string) =>
+      code
+        ? new Intl.NumberFormat("en-US", { style: "currency", currency: code }).format(amount)
+        : currency.format(amount),
+    date: (value: string) => date.format(new Date(value)),
+  };
+}
+
+// Payment method, with what was handed over when it was not the base currency
+function getPaymentMethodLabel(
+  payment: InvoiceDocument["payments"][number],
+  format: ReturnType<typeof createFormatters>
+): string {
+  const label = PAYMENT_METHOD_LABELS[payment.method] || payment.method;
+  return payment.currency && payment.foreignAmount !== undefined
+    ? `${label} (${format.money(payment.foreignAmount, payment.currency)})`
+    : label;
+}
+
+function getTitle(document: InvoiceDocument): string {
+  const title = document.kind === "invoice" ? "Invoice" : "Quote";
+  return document.draft ? `Draft ${title.toLowerCase()}` : title;
+}
+
+function getFooterText(document: InvoiceDocument): string {
+  return document.kind === "quote"
+    ? "This quote is an estimate. Final charges may change if additional work is required."
+    : "Thank you for your business!";
+}
+
+export function escapeHtml(value: string | number | undefined): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Summary rows shared by the HTML and PDF renderers
+function getSummaryRows(document: InvoiceDocument) {
+  const format = createFormatters(document);
+  const rows: Array<{ label: string; value: string; emphasis?: boolean }> = [
+    { label: "Subtotal", value: format.money(document.subtotal) },
+  ];
+
+  if (document.additionalFee) {
+    rows.push({
+      label: "Additional fee",
+      value: format.money(document.additionalFee),
+    });
+  }
+  if (document.discount) {
+    rows.push({ label: "Discount", value: `-${format.money(document.discount)}` });
+  }
+
+  if (document.taxRate) {
+    rows.push({
+      label: `Tax (${document.taxRate}% of ${format.money(document.taxableAmount)})`,
+      value: format.money(document.taxAmount),
+    });
+  }
+
+  rows.push({ label: "Total", value: format.money(document.total), emphasis: true });
+
+  if (document.kind === "invoice") {
+    rows.push(
+      { label: "Paid", value: format.money(document.paidAmount) },
+      {
+        label: "Balance due",
+        value: format.money(document.balanceDue),
+        emphasis: true,
+      }
+    );
+  }
+
+  document.conversions.forEach((conversion) => {
+    const rate = `1 ${conversion.currency} = ${conversion.exchangeRate} ${document.garage.currency}`;
+    rows.push({
+      label: `Total in ${conversion.currency} (${rate})`,
+      value: format.money(conversion.total, conversion.currency),
+    });
+    if (document.kind === "invoice") {
+      rows.push({
+        label: `Balance due in ${conversion.currency}`,
+        value: format.money(conversion.balanceDue, conversion.currency),
+      });
+    }
+  });
+
+  return rows;
+}
+
+export function renderInvoiceHtml(
+  document: InvoiceDocument,
+  { pdfUrl }: { pdfUrl?: string } = {}
+): string {
+  const format = createFormatters(document);
+  const title = getTitle(document);
+
+  const lineRows = document.lines.length
+    ? document.lines
+        .map(
+          (line) => `
+          <tr>
+            <td>${escapeHtml(line.description)}</td>
+            <td>${line.type === "service" ? "Service" : "Part"}</td>
+            <td class="num">${escapeHtml(line.quantity)}</td>
+            <td class="num">${format.money(line.unitPrice)}</td>
+            <td class="num">${format.money(line.amount)}</td>
+          </tr>`
+        )
+        .join("")
+    : `<tr><td colspan="5" class="muted">No services or parts recorded.</td></tr>`;
+
+  const summaryRows = getSummaryRows(document)
+    .map(
+      (row) => `
+          <tr${row.emphasis ? ' class="emphasis"' : ""}>
+            <td>${escapeHtml(row.label)}</td>
+            <td class="num">${escapeHtml(row.value)}</td>
+          </tr>`
+    )
+    .join("");
+
+  const paymentRows = document.payments
+    .map(
+      (payment) => `
+          <tr>
+            <td>${format.date(payment.date)}</td>
+            <td>${payment.type === "refund" ? "Refund" : "Payment"}</td>
+            <td>${escapeHtml(getPaymentMethodLabel(payment, format))}</td>
+            <td>${escapeHtml(payment.reference || "")}</td>
+            <td class="num">${payment.type === "refund" ? "-" : ""}${format.money(payment.amount)}</td>
+          </tr>`
+    )
+    .join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>${title} ${escapeHtml(document.number)}</title>
+    <style>
+      * { box-sizing: border-box; }
+      body { font-family: Arial, Helvetica, sans-serif; color: #111; margin: 0; background: #f4f4f5; }
+      .toolbar { display: flex; gap: 8px; justify-content: flex-end; max-width: 800px; margin: 16px auto 0; }
+      .toolbar button, .toolbar a { font: inherit; font-size: 14px; padding: 8px 14px; border: 1px solid #d4d4d8; border-radius: 6px; background: #fff; color: #111; text-decoration: none; cursor: pointer; }
+      .page { max-width: 800px; margin: 16px auto; padding: 40px; background: #fff; border: 1px solid #e4e4e7; }
+      .header { display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 32px; }
+      .garage-name { font-size: 22px; font-weight: bold; margin-bottom: 4px; }
+      .title { font-size: 28px; font-weight: bold; text-transform: uppercase; text-align: right; }
+      .muted { color: #71717a; }
+      .meta div, .garage div { margin: 2px 0; }
+      .meta { text-align: right; }
+      .parties { display: flex; justify-content: space-between; margin-bottom: 24px; }
+      .section-title { font-size: 12px; font-weight: bold; text-transform: uppercase; color: #71717a; margin-bottom: 6px; }
+      table { width: 100%; border-collapse: collapse; margin-bottom: 24px; }
+      th, td { padding: 8px; text-align: left; border-bottom: 1px solid #e4e4e7; font-size: 14px; }
+      th { background: #f4f4f5; font-size: 12px; text-transform: uppercase; }
+      .num { text-align: right; white-space: nowrap; }
+      .summary { width: 50%; margin-left: auto; }
+      .summary .emphasis td { font-weight: bold; }
+      .badge { display: inline-block; padding: 2px 8px; border-radius: 999px; font-size: 12px; font-weight: bold; background: #f4f4f5; }
+      .badge.paid { background: #dcfce7; color: #166534; }
+      .badge.partial { background: #fef9c3; color: #854d0e; }
+      .badge.pending { background: #fee2e2; color: #991b1b; }
+      .footer { margin-top: 32px; font-size: 12px; text-align: center; color: #71717a; }
+      @media print {
+        body { background: #fff; }
+        .toolbar { display: none; }
+        .page { margin: 0; border: none; padding: 0; max-width: none; }
+      }
+    </style>
+  </head>
+  <body>
+    <div class="toolbar">
+      <button type="button" onclick="window.print()">Print</button>
+      ${pdfUrl ? `<a href="${escapeHtml(pdfUrl)}">Download PDF</a>` : ""}
+    </div>
+    <div class="page">
+      <div class="header">
+        <div class="garage">
+          <div class="garage-name">${escapeHtml(document.garage.garageName)}</div>
+          <div>${escapeHtml(document.garage.address)}</div>
+          <div>${escapeHtml(document.garage.phone)}</div>
+          <div>${escapeHtml(document.garage.email)}</div>
+        </div>
+        <div>
+          <div class="title">${title}</div>
+          <div class="meta">
+            <div><strong>${title} #:</strong> ${escapeHtml(document.number)}</div>
+            <div><strong>Date:</strong> ${format.date(document.issueDate)}</div>
+            ${
+              document.validUntil
+                ? `<div><strong>Valid until:</strong> ${format.date(document.validUntil)}</div>`
+                : `<div><strong>Status:</strong> <span class="badge ${document.paymentStatus}">${PAYMENT_STATUS_LABELS[document.paymentStatus]}</span></div>`
+            }
+          </div>
+        </div>
+      </div>
+
+      <div class="parties">
+        <div>
+          <div class="section-title">Bill to</div>
+          <div><strong>${escapeHtml(document.client.name)}</strong></div>
+          ${document.client.address ? `<div>${escapeHtml(document.client.address)}</div>` : ""}
+          ${document.client.contact ? `<div>${escapeHtml(document.client.contact)}</div>` : ""}
+          ${document.client.email ? `<div>${escapeHtml(document.client.email)}</div>` : ""}
+        </div>
+        <div style="text-align: right">
+          <div class="section-title">Vehicle</div>
+          <div>${escapeHtml(document.vehicle)}</div>
+          <div class="muted">Job ${escapeHtml(document.maintenanceId)}</div>
+        </div>
+      </div>
+
+      <table>
+        <thead>
+          <tr>
+            <th>Description</th>
+            <th>Type</th>
+            <th class="num">Qty</th>
+            <th class="num">Unit price</th>
+            <th class="num">Amount</th>
+          </tr>
+        </thead>
+        <tbody>${lineRows}
+        </tbody>
+      </table>
+
+      <table class="summary">
+        <tbody>${summaryRows}
+        </tbody>
+      </table>
+
+      ${
+        document.discountJustification && document.discount
+          ? `<p class="muted">Discount: ${escapeHtml(document.discountJustification)}</p>`
+          : ""
+      }
+
+      ${
+        document.kind === "invoice" && paymentRows
+          ? `
+      <div class="section-title">Payments received</div>
+      <table>
+        <thead>
+          <tr>
+            <th>Date</th>
+            <th>Type</th>
+            <th>Method</th>
+            <th>Reference</th>
+            <th class="num">Amount</th>
+          </tr>
+        </thead>
+        <tbody>${paymentRows}
+        </tbody>
+      </table>`
+          : ""
+      }
+
+      <div class="footer">
+        ${getFooterText(document)}
+      </div>
+    </div>
+  </body>
+</html>`;
+}
+
+export function renderInvoicePdf(document: InvoiceDocument): Buffer {
+  const format = createFormatters(document);
+  const title = getTitle(document);
+  const pdf = createPdfDocument();
+  const margin = 48;
+  const right = pdf.width - margin;
+  const bottom = pdf.height - margin;
+  const muted: [number, number, number] = [0.45, 0.45, 0.48];
+
+  // Column positions for the line item table
+  const columns = {
+    description: margin + 6,
+    type: margin + 250,
+    quantity: margin + 340,
+    unitPrice: margin + 420,
+    amount: right - 6,
+  };
+
+  let y = margin + 10;
+
+  // Start a new page when the next block would not fit
+  const ensureSpace = (height: number) => {
+    if (y + height > bottom) {
+      pdf.addPage();
+      y = margin + 10;
+    }
+  };
+
+  const tableHeader = (labels: Array<[string, number, "left" | "right"]>) => {
+    pdf.rect(margin, y, right - margin, 20, [0.96, 0.96, 0.97]);
+    labels.forEach(([label, x, align]) =>
+      pdf.text(x, y + 14, label.toUpperCase(), { size: 8, font: "bold", align })
+    );
+    y += 20;
+  };
+
+  // Header: garage details on the left, document details on the right
+  pdf.text(margin, y + 6, document.garage.garageName, { size: 18, font: "bold" });
+  pdf.text(right, y + 6, title.toUpperCase(), { size: 22, font: "bold", align: "right" });
+  y += 24;
+
+  const garageLines = [
+    document.garage.address,
+    document.garage.phone,
+    document.garage.email,
+  ].filter(Boolean);
+  const metaLines: string[] = [
+    `${title} #: ${document.number}`,
+    `Date: ${format.date(document.issueDate)}`,
+    document.validUntil
+      ? `Valid until: ${format.date(document.validUntil)}`
+      : `Status: ${PAYMENT_STATUS_LABELS[document.paymentStatus]}`,
+  ];
+  for (let i = 0; i < Math.max(garageLines.length, metaLines.length); i++) {
+    if (garageLines[i]) pdf.text(margin, y, garageLines[i], { size: 9 });
+    if (metaLines[i]) pdf.text(right, y, metaLines[i], { size: 9, align: "right" });
+    y += 13;
+  }
+  y += 18;
+
+  // Client and vehicle
+  pdf.text(margin, y, "BILL TO", { size: 8, font: "bold", color: muted });
+  pdf.text(right, y, "VEHICLE", { size: 8, font: "bold", color: muted, align: "right" });
+  y += 14;
+  const clientLines = [
+    document.client.address,
+    document.client.contact,
+    document.client.email,
+  ].filter((line): line is string => Boolean(line));
+  pdf.text(margin, y, document.client.name, { size: 10, font: "bold" });
+  pdf.text(right, y, document.vehicle, { size: 10, align: "right" });
+  y += 13;
+  pdf.text(right, y, `Job ${document.maintenanceId}`, {
+    size: 8,
+    color: muted,
+    align: "right",
+  });
+  clientLines.forEach((line) => {
+    pdf.text(margin, y, line, { size: 9 });
+    y += 12;
+  });
+  y += 20;
+
+  // Line items
+  tableHeader([
+    ["Description", columns.description, "left"],
+    ["Type", columns.type, "left"],
+    ["Qty", columns.quantity, "right"],
+    ["Unit price", columns.unitPrice, "right"],
+    ["Amount", columns.amount, "right"],
+  ]);
+
+  if (!document.lines.length) {
+    pdf.text(columns.description, y + 14, "No services or parts recorded.", {
+      size: 9,
+      color: muted,
+    });
+    y += 20;
+  }
+
+  document.lines.forEach((line) => {
+    ensureSpace(20);
+    let description = line.description;
+    while (
+      description.length > 3 &&
+      pdf.measure(description, 9) > columns.type - columns.description - 10
+    ) {
+      description = `${description.slice(0, -4)}...`;
+    }
+    pdf.text(columns.description, y + 14, description, { size: 9 });
+    pdf.text(columns.type, y + 14, line.type === "service" ? "Service" : "Part", { size: 9 });
+    pdf.text(columns.quantity, y + 14, String(line.quantity), { size: 9, align: "right" });
+    pdf.text(columns.unitPrice, y + 14, format.money(line.unitPrice), {
+      size: 9,
+      align: "right",
+    });
+    pdf.text(columns.amount, y + 14, format.money(line.amount), { size: 9, align: "right" });
+    y += 20;
+    pdf.line(margin, y, right, y);
+  });
+  y += 16;
+
+  // Totals
+  const summaryRows = getSummaryRows(document);
+  ensureSpace(summaryRows.length * 16 + 10);
+  summaryRows.forEach((row) => {
+    const font = row.emphasis ? "bold" : "regular";
+    pdf.text(right - 220, y + 12, row.label, { size: 9, font });
+    pdf.text(right - 6, y + 12, row.value, { size: 9, font, align: "right" });
+    y += 16;
+  });
+
+  if (document.discountJustification && document.discount) {
+    y += 8;
+    ensureSpace(16);
+    pdf.text(margin, y + 12, `Discount: ${document.discountJustification}`, {
+      size: 8,
+      color: muted,
+    });
+    y += 16;
+  }
+
+  // Payment history
+  if (document.kind === "invoice" && document.payments.length) {
+    y += 20;
+    ensureSpace(60);
+    pdf.text(margin, y, "PAYMENTS RECEIVED", { size: 8, font: "bold", color: muted });
+    y += 8;
+    tableHeader([
+      ["Date", columns.description, "left"],
+      ["Type", margin + 120, "left"],
+      ["Method", columns.type, "left"],
+      ["Reference", columns.quantity, "left"],
+      ["Amount", columns.amount, "right"],
+    ]);
+    document.payments.forEach((payment) => {
+      ensureSpace(20);
+      pdf.text(columns.description, y + 14, format.date(payment.date), { size: 9 });
+      pdf.text(margin + 120, y + 14, payment.type === "refund" ? "Refund" : "Payment", {
+        size: 9,
+      });
+      pdf.text(columns.type, y + 14, getPaymentMethodLabel(payment, format), {
+        size: 9,
+      });
+      pdf.text(columns.quantity, y + 14, payment.reference || "", { size: 9 });
+      pdf.text(
+        columns.amount,
+        y + 14,
+        `${payment.type === "refund" ? "-" : ""}${format.money(payment.amount)}`,
+        { size: 9, align: "right" }
+      );
+      y += 20;
+      pdf.line(margin, y, right, y);
+    });
+  }
+
+  // Footer
+  y += 30;
+  ensureSpace(20);
+  pdf.text(pdf.width / 2, y, getFooterText(document), {
+    size: 9,
+    color: muted,
+    align: "center",
+  });
+
+  return pdf.toBuffer();
+}
@@ -0,0 +1,79 @@
+import type { Product } from "@/lib/db";
+import { getLabelSymbol } from "@/lib/barcodes";
+import { createPdfDocument } from "@/lib/pdf";
+
+// A4 sheet of 3 x 8 labels, 70 x 37 mm each
+const COLUMNS = 3;
+const ROWS = 8;
+const LABEL_WIDTH = 198.43;
+const LABEL_HEIGHT = 104.88;
+const PADDING = 10;
+const BAR_HEIGHT = 40;
+const QUIET_ZONE = 10; // Modules of space each side of the bars
+
+function fitText(value: string, maxWidth: number, measure: (value: string) => number): string {
+  if (measure(value) <= maxWidth) return value;
+  let text = value;
+  while (text.length > 1 && measure(`${text}...`) > maxWidth) {
+    text = text.slice(0, -1);
+  }
+  return `${text}...`;
+}
+
+/**
+ * Shelf labels for the given products, `copies` of each, with the product name,
+ * its codes and the barcode from getLabelSymbol. Products that have no barcode
+ * or SKU are skipped.
+ */
+export function renderProductLabelsPdf(products: Product[], copies = 1): Buffer {
+  const pdf = createPdfDocument();
+  const black: [number, number, number] = [0, 0, 0];
+  const muted: [number, number, number] = [0.35, 0.35, 0.38];
+  const marginX = (pdf.width - COLUMNS * LABEL_WIDTH) / 2;
+  const marginY = (pdf.height - ROWS * LABEL_HEIGHT) / 2;
+  const textWidth = LABEL_WIDTH - PADDING * 2;
+
+  const labels = products.flatMap((product) => {
+    const symbol = getLabelSymbol(product);
+    return symbol ? Array.from({ length: copies }, () => ({ product, symbol })) : [];
+  });
+
+  labels.forEach(({ product, symbol }, index) => {
+    const slot = index % (COLUMNS * ROWS);
+    if (index > 0 && slot === 0) pdf.addPage();
+
+    const x = marginX + (slot % COLUMNS) * LABEL_WIDTH;
+    const y = marginY + Math.floor(slot / COLUMNS) * LABEL_HEIGHT;
+    const centre = x + LABEL_WIDTH / 2;
+
+    pdf.text(x + PADDING, y + PADDING + 8, fitText(product.name, textWidth, (value) => pdf.measure(value, 9, "bold")), {
+      size: 9,
+      font: "bold",
+    });
+    const codes = [product.sku && `SKU ${product.sku}`, product.partNumber && `MPN ${product.partNumber}`]
+      .filter(Boolean)
+      .join("  ");
+    if (codes) {
+      pdf.text(x + PADDING, y + PADDING + 19, fitText(codes, textWidth, (value) => pdf.measure(value, 7)), {
+        size: 7,
+        color: muted,
+      });
+    }
+
+    // Bars are drawn as one rectangle per run of dark modules
+    const moduleWidth = Math.min(1.5, textWidth / (symbol.modules.length + QUIET_ZONE * 2));
+    const barsLeft = centre - (symbol.modules.length * moduleWidth) / 2;
+    const barsTop = y + PADDING + 26;
+    for (let start = 0; start < symbol.modules.length; start++) {
+      if (symbol.modules[start] !== "1") continue;
+      let end = start;
+      while (symbol.modules[end + 1] === "1") end++;
+      pdf.rect(barsLeft + start * moduleWidth, barsTop, (end - start + 1) * moduleWidth, BAR_HEIGHT, black);
+      start = end;
+    }
+
+    pdf.text(centre, barsTop + BAR_HEIGHT + 10, symbol.value, { size: 8, align: "center" });
+  });
+
+  return pdf.toBuffer();
+}
@@ -0,0 +1,126 @@
+import type { Employee, MaintenanceRequest, Service, TimeEntry } from "@/lib/db";
+
+export type LabourBilling = NonNullable<MaintenanceRequest["labourBilling"]>;
+
+export const LABOUR_BILLING_LABELS: Record<LabourBilling, string> = {
+  standard: "Standard fee per service",
+  hourly: "Hours worked × labour rate",
+};
+
+export type TechnicianLabour = {
+  employeeId: string;
+  employeeName: string;
+  jobs: number;
+  standardHours: number; // Book time of the lines credited to them
+  actualHours: number; // Clocked time
+  efficiency?: number; // Standard as a percentage of actual, unset without clocked time
+};
+
+function roundHours(hours: number): number {
+  return Math.round(hours * 100) / 100;
+}
+
+// Running entries count up to now
+export function getEntryHours(entry: TimeEntry, now = new Date()): number {
+  const end = entry.endTime ? new Date(entry.endTime) : now;
+  const hours = (end.getTime() - new Date(entry.startTime).getTime()) / 3_600_000;
+  return Math.max(0, hours);
+}
+
+// Billable time on a job, only finished entries count
+export function getLoggedHours(entries: TimeEntry[]): number {
+  return roundHours(
+    entries.filter((entry) => entry.endTime).reduce((sum, entry) => sum + getEntryHours(entry), 0)
+  );
+}
+
+// Book time for a service line
+export function getStandardHours(service: Service | undefined, quantity = 1): number {
+  return (Number(service?.standardHours) || 0) * quantity;
+}
+
+// "2h 15m", "45m"
+export function formatHours(hours: number): string {
+  const totalMinutes = Math.round(hours * 60);
+  const wholeHours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (wholeHours === 0) return `${minutes}m`;
+  return minutes ? `${wholeHours}h ${minutes}m` : `${wholeHours}h`;
+}
+
+// Everyone who worked on a job: assigned employees plus any line technician
+export function getJobTechnicianIds(
+  request: Pick<MaintenanceRequest, "assignedEmployeeIds" | "servicesUsed">
+): string[] {
+  const ids = [
+    ...(request.assignedEmployeeIds || []),
+    ...request.servicesUsed.map((line) => line.technicianId),
+  ].filter((id): id is string => !!id);
+  return Array.from(new Set(ids));
+}
+
+/**
+ * Actual against standard labour time per technician over completed jobs.
+ * A line with a technician is credited to them; lines without one are
+ * split evenly between the employees assigned to the job.
+ */
+export function buildLabourReport({
+  requests,
+  entries,
+  services,
+  employees,
+}: {
+  requests: MaintenanceRequest[];
+  entries: TimeEntry[];
+  services: Service[];
+  employees: Employee[];
+}): TechnicianLabour[] {
+  const servicesById = new Map(services.map((service) => [service.id, service]));
+  const rows = new Map<string, TechnicianLabour>();
+
+  const getRow = (employeeId: string) => {
+    let row = rows.get(employeeId);
+    if (!row) {
+      row = {
+        employeeId,
+        employeeName: employees.find((employee) => employee.id === employeeId)?.name || "Former employee",
+        jobs: 0,
+        standardHours: 0,
+        actualHours: 0,
+      };
+      rows.set(employeeId, row);
+    }
+    return row;
+  };
+
+  for (const request of requests) {
+    const jobEntries = entries.filter((entry) => entry.maintenanceId === request.id && entry.endTime);
+    const assigned = request.assignedEmployeeIds || [];
+
+    for (const line of request.servicesUsed) {
+      const hours = getStandardHours(servicesById.get(line.serviceId), line.quantity);
+      if (!hours) continue;
+      if (line.technicianId) {
+        getRow(line.technicianId).standardHours += hours;
+      } else {
+        for (const employeeId of assigned) getRow(employeeId).standardHours += hours / assigned.length;
+      }
+    }
+
+    for (const entry of jobEntries) {
+      getRow(entry.employeeId).actualHours += getEntryHours(entry);
+    }
+
+    const workedOn = new Set([...getJobTechnicianIds(request), ...jobEntries.map((entry) => entry.employeeId)]);
+    for (const employeeId of workedOn) getRow(employeeId).jobs += 1;
+  }
+
+  return Array.from(rows.values())
+    .map((row) => ({
+      ...row,
+      standardHours: roundHours(row.standardHours),
+      actualHours: roundHours(row.actualHours),
+      efficiency: row.actualHours > 0 ? Math.round((row.standardHours / row.actualHours) * 100) : undefined,
+    }))
+    .sort((a, b) => a.employeeName.localeCompare(b.employeeName));
+}
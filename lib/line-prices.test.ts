@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest";
+import { getLineUnitPrice } from "@/lib/line-prices";
+
+describe("getLineUnitPrice", () => {
+  it("prefers the price saved on the line over the current price", () => {
+    expect(getLineUnitPrice({ unitPrice: 40 }, 55)).toBe(40);
+    expect(getLineUnitPrice({ unitPrice: 0 }, 55)).toBe(0);
+  });
+
+  it("falls back to the current price for lines saved without one", () => {
+    expect(getLineUnitPrice({}, 55)).toBe(55);
+    expect(getLineUnitPrice({}, undefined)).toBe(0);
+  });
+});
@@ -0,0 +1,8 @@
+// What a request line was charged per unit. Lines saved before prices were
+// kept on the request fall back to the item's current price.
+export function getLineUnitPrice(
+  line: { unitPrice?: number },
+  currentPrice: number | undefined
+): number {
+  return line.unitPrice !== undefined ? Number(line.unitPrice) : Number(currentPrice) || 0;
+}
@@ -0,0 +1,94 @@
+/**
+ * Offline read cache in IndexedDB.
+ *
+ * localStorage (see offline-storage.ts) holds the write queue; the data we read
+ * is far bigger than its ~5 MB limit, so cached lists and GET responses live
+ * in IndexedDB instead. Every entry remembers when it was saved so pages can
+ * say how stale it is.
+ */
+
+const DB_NAME = 'garage-offline-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+
+export interface CacheEntry<T = any> {
+  key: string;
+  data: T;
+  cachedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function isIndexedDbAvailable(): boolean {
+  return typeof window !== 'undefined' && 'indexedDB' in window;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Store data under a key, replacing what was there
+export async function writeCache<T>(key: string, data: T): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+
+  try {
+    const entry: CacheEntry<T> = { key, data, cachedAt: Date.now() };
+    await runRequest('readwrite', (store) => store.put(entry));
+  } catch (error) {
+    console.error(`Failed to write offline cache for ${key}:`, error);
+  }
+}
+
+// The cached entry for a key, or null when nothing was cached yet
+export async function readCache<T = any>(key: string): Promise<CacheEntry<T> | null> {
+  if (!isIndexedDbAvailable()) return null;
+
+  try {
+    const entry = await runRequest<CacheEntry<T> | undefined>('readonly', (store) => store.get(key));
+    return entry || null;
+  } catch (error) {
+    console.error(`Failed to read offline cache for ${key}:`, error);
+    return null;
+  }
+}
+
+// Drop everything, e.g. when signing out on a shared device. The service worker
+// (public/sw.js) is asked to forget the pages it kept as well.
+export async function clearCache(): Promise<void> {
+  if (typeof navigator !== 'undefined' && navigator.serviceWorker?.controller) {
+    navigator.serviceWorker.controller.postMessage({ type: 'clear-page-cache' });
+  }
+
+  if (!isIndexedDbAvailable()) return;
+
+  try {
+    await runRequest('readwrite', (store) => store.clear());
+  } catch (error) {
+    console.error('Failed to clear offline cache:', error);
+  }
+}
@@ -0,0 +1,108 @@
+"use client"
+
+import { useEffect, useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { getCars, getClients, getMaintenanceRequests, getProducts, getServices } from './actions'
+import { readCache, writeCache, type CacheEntry } from './offline-cache'
+import { useOnlineStatus } from './network-status'
+
+// Lists kept available offline
+export type CachedCollection = 'clients' | 'cars' | 'services' | 'products' | 'maintenance'
+
+const CACHED_COLLECTIONS: CachedCollection[] = ['clients', 'cars', 'services', 'products', 'maintenance']
+
+const loaders: Record<CachedCollection, () => Promise<{ success: boolean; data?: any[] | null }>> = {
+  clients: getClients,
+  cars: getCars,
+  services: getServices,
+  products: getProducts,
+  maintenance: getMaintenanceRequests,
+}
+
+function cacheKey(name: CachedCollection) {
+  return `collection:${name}`
+}
+
+// Finished and cancelled jobs aren't needed at the counter, so only open requests are kept
+function selectForCache(name: CachedCollection, data: any[]) {
+  if (name === 'maintenance') {
+    return data.filter((request) => request.status !== 'completed' && request.status !== 'cancelled')
+  }
+  return data
+}
+
+export async function cacheCollection(name: CachedCollection, data: any[]): Promise<void> {
+  await writeCache(cacheKey(name), selectForCache(name, data))
+}
+
+export async function readCachedCollection<T = any>(name: CachedCollection): Promise<CacheEntry<T[]> | null> {
+  return readCache<T[]>(cacheKey(name))
+}
+
+// Fetch a list from the server and cache it; null when the server can't be reached
+export async function refreshCollection<T = any>(name: CachedCollection): Promise<T[] | null> {
+  try {
+    const response = await loaders[name]()
+    if (!response.success || !response.data) return null
+    await cacheCollection(name, response.data)
+    return response.data as T[]
+  } catch (error) {
+    console.error(`Failed to refresh offline cache for ${name}:`, error)
+    return null
+  }
+}
+
+// Refresh every cached list, e.g. on start-up and after reconnecting
+export async function refreshOfflineCache(): Promise<void> {
+  for (const name of CACHED_COLLECTIONS) {
+    await refreshCollection(name)
+  }
+}
+
+/**
+ * The server's list when it can be reached, otherwise the cached copy.
+ * `cachedAt` is set when the data came from the cache.
+ */
+export async function loadCollection<T = any>(name: CachedCollection): Promise<{ data: T[]; cachedAt: number | null }> {
+  const fresh = await refreshCollection<T>(name)
+  if (fresh) return { data: fresh, cachedAt: null }
+
+  const cached = await readCachedCollection<T>(name)
+  return cached ? { data: cached.data, cachedAt: cached.cachedAt } : { data: [], cachedAt: null }
+}
+
+/**
+ * Wraps the list a page was rendered with. Online, the server data is used and
+ * saved to the cache; offline, the cached copy is shown with the time it was
+ * saved. When the connection returns the cache is refreshed in the background
+ * and the page re-rendered from the server.
+ */
+export function useCachedCollection<T>(
+  name: CachedCollection,
+  serverData: T[]
+): { data: T[]; staleSince: number | null } {
+  const isOnline = useOnlineStatus()
+  const router = useRouter()
+  const [cached, setCached] = useState<CacheEntry<T[]> | null>(null)
+  const wasOffline = useRef(false)
+
+  useEffect(() => {
+    if (isOnline) cacheCollection(name, serverData)
+  }, [name, serverData])
+
+  useEffect(() => {
+    if (!isOnline) {
+      wasOffline.current = true
+      readCachedCollection<T>(name).then(setCached)
+      return
+    }
+
+    setCached(null)
+    if (wasOffline.current) {
+      wasOffline.current = false
+      refreshCollection(name).finally(() => router.refresh())
+    }
+  }, [isOnline, name])
+
+  return cached ? { data: cached.data, staleSince: cached.cachedAt } : { data: serverData, staleSince: null }
+}
@@ -13,6 +13,14 @@ export interface PendingOperation {
   method: 'GET' | 'POST' | 'PUT' | 'DELETE';
   url: string;
   data?: any;
+  baseVersion?: string; // updatedAt of the record the change was based on
+  conflict?: OperationConflict;
+}
+
+// Set when the server rejected the operation because the record changed meanwhile
+export interface OperationConflict {
+  server: any; // The record as it is on the server, or null when it was deleted
+  detectedAt: number;
 }
 
 // Check if we're in a browser environment
@@ -49,6 +57,7 @@ export function queueOfflineOperation(
   method: 'GET' | 'POST' | 'PUT' | 'DELETE',
   url: string,
   data?: any,
+  baseVersion?: string,
 ): string {
   if (!isBrowser()) return '';
   
@@ -61,6 +70,7 @@ export function queueOfflineOperation(
     method,
     url,
     data,
+    baseVersion,
   };
   
   operations.push(newOperation);
@@ -131,19 +141,54 @@ export function clearOfflineData(): void {
   }
 }
 
+// Drop every queued write, e.g. when the session they were made in has ended
+export function clearPendingOperations(): void {
+  if (!isBrowser()) return;
+
+  try {
+    localStorage.removeItem(PENDING_OPERATIONS_KEY);
+  } catch (error) {
+    console.error('Failed to clear pending operations:', error);
+  }
+}
+
 // Check if there are pending operations
 export function hasPendingOperations(): boolean {
-  return loadPendingOperations().length > 0;
+  return getOfflineQueue().length > 0;
 }
 
 // Get the count of pending operations
 export function getPendingOperationsCount(): number {
-  return loadPendingOperations().length;
+  return getOfflineQueue().length;
 }
 
-// Get all pending operations (as the offline queue)
+// Get all pending operations (as the offline queue); conflicted ones wait for the user
 export function getOfflineQueue(): PendingOperation[] {
-  return loadPendingOperations();
+  return loadPendingOperations().filter(op => !op.conflict);
+}
+
+// Operations the server rejected as stale, waiting to be resolved
+export function getConflictedOperations(): PendingOperation[] {
+  return loadPendingOperations().filter(op => op.conflict);
+}
+
+export function getConflictCount(): number {
+  return getConflictedOperations().length;
+}
+
+// Park an operation until the user decides how to resolve it
+export function markOperationConflict(id: string, server: any): void {
+  if (!isBrowser()) return;
+
+  const operations = loadPendingOperations();
+  const updatedOperations = operations.map(op => {
+    if (op.id === id) {
+      return { ...op, conflict: { server, detectedAt: Date.now() } };
+    }
+    return op;
+  });
+
+  savePendingOperations(updatedOperations);
 }
 
 // Remove an operation from the offline queue
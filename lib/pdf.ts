@@ -0,0 +1,186 @@
+// Minimal PDF writer for simple text documents (invoices, quotes).
+// Uses the standard Helvetica fonts so no font files need to be embedded.
+
+export type PdfFont = "regular" | "bold";
+
+export type PdfTextOptions = {
+  size?: number;
+  font?: PdfFont;
+  align?: "left" | "center" | "right";
+  color?: [number, number, number]; // RGB, 0-1
+};
+
+export type PdfDocument = {
+  readonly width: number;
+  readonly height: number;
+  addPage(): void;
+  // Throws for text the fonts can't print (see canPrintInPdf)
+  text(x: number, y: number, value: string, options?: PdfTextOptions): void;
+  line(x1: number, y1: number, x2: number, y2: number, width?: number): void;
+  rect(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    fill: [number, number, number]
+  ): void;
+  measure(value: string, size?: number, font?: PdfFont): number;
+  toBuffer(): Buffer;
+};
+
+// A4 in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+
+// Approximate Helvetica advance widths (per 1000 units) for layout
+const NARROW = "iIjl.,:;'|!()[]`";
+const WIDE = "mwMW@%";
+
+function charWidth(char: string, font: PdfFont): number {
+  if (NARROW.includes(char)) return 260;
+  if (WIDE.includes(char)) return 860;
+  if (char === " ") return 278;
+  if (char >= "A" && char <= "Z") return font === "bold" ? 720 : 680;
+  if (char >= "0" && char <= "9") return 556;
+  return font === "bold" ? 590 : 540;
+}
+
+// The standard fonts only cover Latin-1. Text in other scripts (Arabic names,
+// say) is refused rather than printed as "????"; the HTML versions show it.
+export const PDF_UNPRINTABLE_ERROR = "The PDF fonts can't print this text, use the printable page instead";
+
+// Characters outside Latin-1 that have a plain stand-in
+const SUBSTITUTES: Record<string, string> = { "€": "EUR", "–": "-", "—": "-", "\t": " ", "\n": " ", "\r": " " };
+
+export function canPrintInPdf(value: string): boolean {
+  return Array.from(value).every((char) => /[\x20-\x7e\xa0-\xff]/.test(char) || char in SUBSTITUTES);
+}
+
+export function isUnprintablePdfError(error: unknown): boolean {
+  return error instanceof Error && error.message.startsWith(PDF_UNPRINTABLE_ERROR);
+}
+
+function toLatin1(value: string): string {
+  return value.replace(/[^\x20-\x7e\xa0-\xff]/g, (char) => SUBSTITUTES[char] ?? "?");
+}
+
+function escapeText(value: string): string {
+  return toLatin1(value).replace(/([\\()])/g, "\\$1");
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+export function createPdfDocument(): PdfDocument {
+  const pages: string[][] = [];
+
+  const currentPage = () => {
+    if (!pages.length) pages.push([]);
+    return pages[pages.length - 1];
+  };
+
+  const measure = (value: string, size = 10, font: PdfFont = "regular") =>
+    (toLatin1(value)
+      .split("")
+      .reduce((sum, char) => sum + charWidth(char, font), 0) *
+      size) /
+    1000;
+
+  return {
+    width: PAGE_WIDTH,
+    height: PAGE_HEIGHT,
+
+    addPage() {
+      pages.push([]);
+    },
+
+    // Coordinates are measured from the top-left corner of the page
+    text(x, y, value, options = {}) {
+      const { size = 10, font = "regular", align = "left", color } = options;
+      if (!canPrintInPdf(value)) {
+        throw new Error(`${PDF_UNPRINTABLE_ERROR}: "${value}"`);
+      }
+      const width = measure(value, size, font);
+      const left =
+        align === "right" ? x - width : align === "center" ? x - width / 2 : x;
+      const [r, g, b] = color || [0, 0, 0];
+      currentPage().push(
+        `${formatNumber(r)} ${formatNumber(g)} ${formatNumber(b)} rg`,
+        `BT /${font === "bold" ? "F2" : "F1"} ${size} Tf ${formatNumber(
+          left
+        )} ${formatNumber(PAGE_HEIGHT - y)} Td (${escapeText(value)}) Tj ET`
+      );
+    },
+
+    line(x1, y1, x2, y2, width = 0.5) {
+      currentPage().push(
+        `${formatNumber(width)} w 0.8 0.8 0.8 RG ${formatNumber(
+          x1
+        )} ${formatNumber(PAGE_HEIGHT - y1)} m ${formatNumber(
+          x2
+        )} ${formatNumber(PAGE_HEIGHT - y2)} l S`
+      );
+    },
+
+    rect(x, y, width, height, fill) {
+      currentPage().push(
+        `${fill.map(formatNumber).join(" ")} rg ${formatNumber(
+          x
+        )} ${formatNumber(PAGE_HEIGHT - y - height)} ${formatNumber(
+          width
+        )} ${formatNumber(height)} re f`
+      );
+    },
+
+    measure,
+
+    toBuffer() {
+      if (!pages.length) pages.push([]);
+
+      // Object layout: 1 catalog, 2 page tree, 3-4 fonts, then page/content pairs
+      const objects: string[] = [];
+      const pageIds = pages.map((_, index) => 5 + index * 2);
+
+      objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+      objects[2] = `<< /Type /Pages /Kids [${pageIds
+        .map((id) => `${id} 0 R`)
+        .join(" ")}] /Count ${pages.length} >>`;
+      objects[3] =
+        "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+      objects[4] =
+        "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+
+      pages.forEach((operations, index) => {
+        const pageId = pageIds[index];
+        const content = operations.join("\n");
+        objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(
+          PAGE_WIDTH
+        )} ${formatNumber(
+          PAGE_HEIGHT
+        )}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${
+          pageId + 1
+        } 0 R >>`;
+        objects[pageId + 1] = `<< /Length ${
+          Buffer.byteLength(content, "latin1")
+        } >>\nstream\n${content}\nendstream`;
+      });
+
+      let output = "%PDF-1.4\n";
+      const offsets: number[] = [];
+      for (let id = 1; id < objects.length; id++) {
+        offsets[id] = Buffer.byteLength(output, "latin1");
+        output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+      }
+
+      const xrefOffset = Buffer.byteLength(output, "latin1");
+      output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+      for (let id = 1; id < objects.length; id++) {
+        output += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+      }
+      output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+      return Buffer.from(output, "latin1");
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import type { Insurance, InsurancePolicy } from "@/lib/db";
+
+export type PolicyExpiryStatus = "expired" | "expiring" | "active" | "no-expiry";
+
+// A lapsing policy with the car and owner to contact, as listed on the dashboard
+export type ExpiringPolicy = InsurancePolicy & {
+  status: PolicyExpiryStatus;
+  insurerName: string;
+  carDetails: string;
+  licensePlate: string;
+  clientId: string;
+  clientName: string;
+  clientContact: string;
+};
+
+export const POLICY_EXPIRY_LABELS: Record<PolicyExpiryStatus, string> = {
+  expired: "Expired",
+  expiring: "Expiring soon",
+  active: "Active",
+  "no-expiry": "No expiry date",
+};
+
+// Companies still carrying the single policy they held before policies had their own records
+export function hasLegacyPolicy(insurer: Pick<Insurance, "policyNumber" | "coverageType" | "expiryDate">): boolean {
+  return Boolean(insurer.policyNumber || insurer.coverageType || insurer.expiryDate);
+}
+
+// Whole days until the policy expires; negative once it has
+export function getDaysToExpiry(policy: Pick<InsurancePolicy, "expiryDate">, today: Date = new Date()): number | null {
+  if (!policy.expiryDate) return null;
+  return differenceInCalendarDays(parseISO(policy.expiryDate), today);
+}
+
+export function getPolicyExpiryStatus(
+  policy: Pick<InsurancePolicy, "expiryDate">,
+  alertDays: number,
+  today: Date = new Date()
+): PolicyExpiryStatus {
+  const days = getDaysToExpiry(policy, today);
+  if (days === null) return "no-expiry";
+  if (days < 0) return "expired";
+  if (days <= alertDays) return "expiring";
+  return "active";
+}
+
+export function describeExpiry(policy: Pick<InsurancePolicy, "expiryDate">, today: Date = new Date()): string {
+  const days = getDaysToExpiry(policy, today);
+  if (days === null) return "No expiry date";
+  if (days === 0) return "Expires today";
+  if (days < 0) return `Expired ${-days} day${days === -1 ? "" : "s"} ago`;
+  return `${days} day${days === 1 ? "" : "s"} left`;
+}
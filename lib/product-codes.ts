@@ -0,0 +1,43 @@
+import type { Product } from "@/lib/db";
+
+type ProductCodes = Pick<Product, "sku" | "partNumber" | "barcodes">;
+
+// Codes match regardless of surrounding spaces and letter case
+export function normalizeCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+// Barcodes come one per line (as a scanner types them) or comma separated
+export function parseBarcodes(value: unknown): string[] {
+  const values = Array.isArray(value) ? value.map(String) : String(value ?? "").split(/[\n,]/);
+  const barcodes: string[] = [];
+  for (const barcode of values.map((code) => code.trim())) {
+    if (barcode && !barcodes.some((code) => normalizeCode(code) === normalizeCode(barcode))) {
+      barcodes.push(barcode);
+    }
+  }
+  return barcodes;
+}
+
+/**
+ * The product a typed or scanned code belongs to. SKUs and barcodes are unique
+ * to one product, so they are matched before manufacturer part numbers, which
+ * two products can share.
+ */
+export function findProductByCode<T extends ProductCodes>(products: T[], code: string): T | undefined {
+  const wanted = normalizeCode(code);
+  if (!wanted) return undefined;
+
+  return (
+    products.find(
+      (product) =>
+        (product.sku && normalizeCode(product.sku) === wanted) ||
+        (product.barcodes || []).some((barcode) => normalizeCode(barcode) === wanted)
+    ) || products.find((product) => product.partNumber && normalizeCode(product.partNumber) === wanted)
+  );
+}
+
+// Every code a product can be looked up by, for search and display
+export function getProductCodes(product: ProductCodes): string[] {
+  return [product.sku, product.partNumber, ...(product.barcodes || [])].filter((code): code is string => !!code);
+}
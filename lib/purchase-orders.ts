@@ -0,0 +1,27 @@
+import type { PurchaseOrder, PurchaseOrderLine, PurchaseOrderStatus } from "@/lib/db";
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: "Draft",
+  sent: "Sent",
+  "partially-received": "Partially received",
+  received: "Received",
+  cancelled: "Cancelled",
+};
+
+// Orders the supplier still owes goods on
+export function isOpenPurchaseOrder(order: Pick<PurchaseOrder, "status">): boolean {
+  return order.status === "sent" || order.status === "partially-received";
+}
+
+export function getOutstandingQuantity(line: Pick<PurchaseOrderLine, "quantity" | "receivedQuantity">): number {
+  return Math.max(0, line.quantity - (line.receivedQuantity || 0));
+}
+
+export function getOrderTotal(lines: { quantity?: number | string; unitCost?: number | string }[]): number {
+  return lines.reduce((sum, line) => sum + (Number(line.quantity) || 0) * (Number(line.unitCost) || 0), 0);
+}
+
+// Value of the goods still to be delivered
+export function getOutstandingValue(order: Pick<PurchaseOrder, "lines">): number {
+  return order.lines.reduce((sum, line) => sum + getOutstandingQuantity(line) * line.unitCost, 0);
+}
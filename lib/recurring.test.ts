@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import type { RecurringSchedule } from "@/lib/db";
+import { buildScheduledOccurrences, findException, getOccurrenceDates } from "@/lib/recurring";
+import { type NewRecord, financeRecord, recurringSchedule, stored } from "@/test/fixtures";
+
+// Monthly rent of 1200 from the end of January
+function schedule(overrides: Partial<NewRecord<RecurringSchedule>> = {}) {
+  return stored(recurringSchedule(overrides), "s1");
+}
+
+describe("getOccurrenceDates", () => {
+  it("keeps month-end schedules on the last day of shorter months", () => {
+    expect(getOccurrenceDates(schedule(), "2024-01-01", "2024-04-30")).toEqual([
+      "2024-01-31",
+      "2024-02-29",
+      "2024-03-31",
+      "2024-04-30",
+    ]);
+  });
+
+  it("only returns dates in the range and before the end date", () => {
+    const weekly = schedule({ frequency: "weekly", startDate: "2024-03-01", endDate: "2024-03-20" });
+    expect(getOccurrenceDates(weekly, "2024-03-05", "2024-12-31")).toEqual(["2024-03-08", "2024-03-15"]);
+  });
+
+  it("handles yearly schedules", () => {
+    const yearly = schedule({ frequency: "yearly", startDate: "2022-06-15" });
+    expect(getOccurrenceDates(yearly, "2023-01-01", "2024-12-31")).toEqual(["2023-06-15", "2024-06-15"]);
+  });
+});
+
+describe("findException", () => {
+  it("finds the change for one occurrence", () => {
+    const exceptions = [{ date: "2024-02-29", skip: true }];
+    expect(findException({ exceptions }, "2024-02-29")).toEqual({ date: "2024-02-29", skip: true });
+    expect(findException({ exceptions }, "2024-03-31")).toBeUndefined();
+  });
+});
+
+describe("buildScheduledOccurrences", () => {
+  const record = stored(financeRecord("rent", 1200, { scheduleId: "s1", scheduledFor: "2024-01-31" }), "r1");
+  const range = { from: "2024-01-01", to: "2024-04-30", today: "2024-03-31" };
+
+  it("marks occurrences posted, skipped, due or upcoming", () => {
+    const occurrences = buildScheduledOccurrences(
+      [schedule({ exceptions: [{ date: "2024-02-29", skip: true }, { date: "2024-03-31", amount: 1300 }] })],
+      [record],
+      range
+    );
+
+    expect(occurrences.map(({ date, status, amount, adjusted }) => ({ date, status, amount, adjusted }))).toEqual([
+      { date: "2024-01-31", status: "posted", amount: 1200, adjusted: false },
+      { date: "2024-02-29", status: "skipped", amount: 1200, adjusted: false },
+      { date: "2024-03-31", status: "due", amount: 1300, adjusted: true },
+      { date: "2024-04-30", status: "upcoming", amount: 1200, adjusted: false },
+    ]);
+    expect(occurrences[0].recordId).toBe("r1");
+  });
+
+  it("shows only what a paused schedule already posted", () => {
+    const occurrences = buildScheduledOccurrences([schedule({ active: false })], [record], range);
+    expect(occurrences.map((occurrence) => occurrence.date)).toEqual(["2024-01-31"]);
+  });
+});
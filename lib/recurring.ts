@@ -0,0 +1,102 @@
+import { addMonths, addWeeks, addYears, format, parseISO } from "date-fns";
+import type { FinanceRecord, RecurringFrequency, RecurringSchedule, ScheduleException } from "@/lib/db";
+
+export const FREQUENCY_LABELS: Record<RecurringFrequency, string> = {
+  weekly: "Weekly",
+  monthly: "Monthly",
+  yearly: "Yearly",
+};
+
+export type OccurrenceStatus = "posted" | "skipped" | "due" | "upcoming";
+
+// One date a schedule falls on, with any single-occurrence change applied
+export type ScheduledOccurrence = {
+  scheduleId: string;
+  date: string; // yyyy-MM-dd
+  categoryId: string;
+  amount: number;
+  currency?: string;
+  description: string;
+  mode: RecurringSchedule["mode"];
+  status: OccurrenceStatus;
+  adjusted: boolean;
+  recordId?: string; // Finance record, once posted
+};
+
+// Occurrences are counted from the start date so a schedule starting on the 31st
+// falls on the last day of shorter months without drifting
+function getNthDate(startDate: string, frequency: RecurringFrequency, n: number): Date {
+  const start = parseISO(startDate);
+  switch (frequency) {
+    case "weekly":
+      return addWeeks(start, n);
+    case "monthly":
+      return addMonths(start, n);
+    case "yearly":
+      return addYears(start, n);
+  }
+}
+
+// Dates a schedule falls on between two days, both included
+export function getOccurrenceDates(
+  schedule: Pick<RecurringSchedule, "startDate" | "endDate" | "frequency">,
+  from: string,
+  to: string
+): string[] {
+  const last = schedule.endDate && schedule.endDate < to ? schedule.endDate : to;
+  const dates: string[] = [];
+
+  for (let n = 0; ; n++) {
+    const date = format(getNthDate(schedule.startDate, schedule.frequency, n), "yyyy-MM-dd");
+    if (date > last) break;
+    if (date >= from) dates.push(date);
+  }
+
+  return dates;
+}
+
+export function findException(
+  schedule: Pick<RecurringSchedule, "exceptions">,
+  date: string
+): ScheduleException | undefined {
+  return (schedule.exceptions || []).find((exception) => exception.date === date);
+}
+
+// Occurrences of the schedules in a period, matched against the records already posted.
+// Paused schedules still show what they posted, but nothing new.
+export function buildScheduledOccurrences(
+  schedules: RecurringSchedule[],
+  records: FinanceRecord[],
+  { from, to, today }: { from: string; to: string; today: string }
+): ScheduledOccurrence[] {
+  const posted = new Map(
+    records
+      .filter((record) => record.scheduleId && record.scheduledFor)
+      .map((record) => [`${record.scheduleId}:${record.scheduledFor}`, record])
+  );
+
+  return schedules
+    .flatMap((schedule) =>
+      getOccurrenceDates(schedule, from, to).flatMap((date): ScheduledOccurrence[] => {
+        const record = posted.get(`${schedule.id}:${date}`);
+        const exception = findException(schedule, date);
+        if (!record && !schedule.active) return [];
+
+        return [
+          {
+            scheduleId: schedule.id,
+            date,
+            categoryId: schedule.categoryId,
+            amount: Number(exception?.amount ?? schedule.amount),
+            currency: schedule.currency,
+            description: exception?.description || schedule.description,
+            mode: schedule.mode,
+            status: record ? "posted" : exception?.skip ? "skipped" : date <= today ? "due" : "upcoming",
+            adjusted: exception?.amount !== undefined || Boolean(exception?.description),
+            ...(record ? { recordId: record.id } : {}),
+          },
+        ];
+      })
+    )
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import type { MaintenanceRequest, Product } from "@/lib/db";
+import { buildReorderSuggestions, getDailyUsage } from "@/lib/reorder";
+import { type NewRecord, product, purchaseOrder, savedRequest, stored, supplier } from "@/test/fixtures";
+
+const now = new Date("2024-06-30T00:00:00.000Z");
+const policy = { defaultLeadTimeDays: 7, safetyStockDays: 3, reorderCoverDays: 20 };
+
+const parts = stored(supplier({ leadTimeDays: 10 }), "s1");
+
+function stocked(id: string, stock: number, overrides: Partial<NewRecord<Product>> = {}) {
+  return stored(product(parts.id, { purchasePrice: 5, warehouseStock: stock, lowStockThreshold: 2, ...overrides }), id);
+}
+
+function job(productId: string, quantity: number, startDate: string, status: MaintenanceRequest["status"] = "completed") {
+  return savedRequest({
+    productsUsed: [{ productId, quantity, stockSource: "warehouse" }],
+    startDate,
+    status,
+  });
+}
+
+describe("getDailyUsage", () => {
+  it("averages the parts on jobs in the lookback period", () => {
+    const requests = [
+      job("p1", 60, "2024-06-01"),
+      job("p1", 30, "2024-05-01"),
+      job("p1", 500, "2024-01-15"), // Before the lookback period
+      job("p1", 500, "2024-06-10", "cancelled"),
+    ];
+    expect(getDailyUsage([stocked("p1", 0)], requests, now).get("p1")).toBe(1);
+  });
+
+  it("averages products added during the period over the days they have existed", () => {
+    const requests = [job("p1", 30, "2024-06-20")];
+    const added = { ...stocked("p1", 0), createdAt: "2024-06-15T00:00:00.000Z" };
+    expect(getDailyUsage([added], requests, now).get("p1")).toBe(2);
+  });
+});
+
+describe("buildReorderSuggestions", () => {
+  const suppliers = [parts];
+  // 90 used over the 90 day lookback: one a day
+  const requests = [job("p1", 90, "2024-06-01"), job("p2", 90, "2024-06-01")];
+
+  it("suggests topping up products at or below their reorder point", () => {
+    const suggestions = buildReorderSuggestions({
+      products: [stocked("p1", 13), stocked("p2", 14)],
+      requests,
+      suppliers,
+      purchaseOrders: [],
+      policy,
+      now,
+    });
+
+    // Reorder point: 1/day over the 10 day lead time plus 3 safety days
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0]).toMatchObject({
+      productId: "p1",
+      stock: 13,
+      dailyUsage: 1,
+      daysLeft: 13,
+      leadTimeDays: 10,
+      reorderPoint: 13,
+      quantity: 33 - 13,
+      unitCost: 5,
+    });
+  });
+
+  it("counts what is already on order", () => {
+    const order = stored(
+      purchaseOrder(parts.id, {
+        status: "sent",
+        lines: [{ productId: "p1", quantity: 10, unitCost: 5, receivedQuantity: 4 }],
+      })
+    );
+    const suggestions = buildReorderSuggestions({
+      products: [stocked("p1", 5)],
+      requests,
+      suppliers,
+      purchaseOrders: [order],
+      policy,
+      now,
+    });
+    expect(suggestions[0]).toMatchObject({ onOrder: 6, quantity: 33 - 5 - 6 });
+  });
+
+  it("tops up products without usage to just above their low stock threshold", () => {
+    const suggestions = buildReorderSuggestions({
+      products: [stocked("p3", 1, { lowStockThreshold: 4, supplierId: "unknown" })],
+      requests: [],
+      suppliers,
+      purchaseOrders: [],
+      policy,
+      now,
+    });
+    expect(suggestions[0]).toMatchObject({ leadTimeDays: 7, reorderPoint: 4, quantity: 4, daysLeft: undefined });
+  });
+});
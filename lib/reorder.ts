@@ -0,0 +1,135 @@
+import type { GarageSettings, MaintenanceRequest, Product, PurchaseOrder, Supplier } from "@/lib/db";
+import { getOutstandingQuantity, isOpenPurchaseOrder } from "@/lib/purchase-orders";
+
+// Period of job history average usage is taken over
+export const USAGE_LOOKBACK_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ReorderPolicy = Pick<GarageSettings, "defaultLeadTimeDays" | "safetyStockDays" | "reorderCoverDays">;
+
+export type ReorderSuggestion = {
+  productId: string;
+  productName: string;
+  supplierId: string;
+  stock: number; // Warehouse and shop together
+  onOrder: number; // Still to be delivered on sent orders
+  dailyUsage: number;
+  daysLeft?: number; // Days the stock lasts at the current usage, unset without usage
+  leadTimeDays: number;
+  reorderPoint: number;
+  quantity: number; // Suggested order quantity
+  unitCost: number; // Last purchase price
+};
+
+function roundUsage(usage: number): number {
+  return Math.round(usage * 1000) / 1000;
+}
+
+/**
+ * Average units used per day, from the parts on jobs started in the lookback
+ * period. Products added during the period are averaged over the days they
+ * have existed, so new lines aren't underestimated.
+ */
+export function getDailyUsage(
+  products: Pick<Product, "id" | "createdAt">[],
+  requests: Pick<MaintenanceRequest, "productsUsed" | "startDate" | "createdAt" | "status">[],
+  now = new Date(),
+  lookbackDays = USAGE_LOOKBACK_DAYS
+): Map<string, number> {
+  const since = now.getTime() - lookbackDays * DAY_MS;
+  const used = new Map<string, number>();
+
+  for (const request of requests) {
+    if (request.status === "cancelled") continue;
+    const started = new Date(request.startDate || request.createdAt).getTime();
+    if (started < since || started > now.getTime()) continue;
+    for (const line of request.productsUsed) {
+      used.set(line.productId, (used.get(line.productId) || 0) + Number(line.quantity || 0));
+    }
+  }
+
+  const usage = new Map<string, number>();
+  for (const product of products) {
+    const total = used.get(product.id);
+    if (!total) continue;
+    const age = (now.getTime() - new Date(product.createdAt).getTime()) / DAY_MS;
+    const days = Math.max(1, Math.min(lookbackDays, Number.isFinite(age) ? age : lookbackDays));
+    usage.set(product.id, roundUsage(total / days));
+  }
+  return usage;
+}
+
+/**
+ * Products to reorder. A product is due once stock plus what is already on
+ * order falls to its reorder point: usage over the supplier's lead time plus
+ * the safety stock, and never below the product's low stock threshold. The
+ * suggested quantity tops it back up to cover the lead time, safety stock and
+ * the reorder cover period.
+ */
+export function buildReorderSuggestions({
+  products,
+  requests,
+  suppliers,
+  purchaseOrders,
+  policy,
+  now = new Date(),
+}: {
+  products: Product[];
+  requests: MaintenanceRequest[];
+  suppliers: Supplier[];
+  purchaseOrders: PurchaseOrder[];
+  policy: ReorderPolicy;
+  now?: Date;
+}): ReorderSuggestion[] {
+  const usage = getDailyUsage(products, requests, now);
+  const suppliersById = new Map(suppliers.map((supplier) => [supplier.id, supplier]));
+
+  const onOrder = new Map<string, number>();
+  for (const order of purchaseOrders.filter(isOpenPurchaseOrder)) {
+    for (const line of order.lines) {
+      onOrder.set(line.productId, (onOrder.get(line.productId) || 0) + getOutstandingQuantity(line));
+    }
+  }
+
+  const suggestions: ReorderSuggestion[] = [];
+  for (const product of products) {
+    const dailyUsage = usage.get(product.id) || 0;
+    const stock = Number(product.warehouseStock || 0) + Number(product.shopStock || 0);
+    const pending = onOrder.get(product.id) || 0;
+    const leadTimeDays = suppliersById.get(product.supplierId)?.leadTimeDays || policy.defaultLeadTimeDays;
+
+    const reorderPoint = Math.max(
+      Math.ceil(dailyUsage * (leadTimeDays + policy.safetyStockDays)),
+      Number(product.lowStockThreshold || 0)
+    );
+    if (stock + pending > reorderPoint) continue;
+
+    // Without usage history, top up to just above the threshold
+    const target = Math.max(
+      Math.ceil(dailyUsage * (leadTimeDays + policy.safetyStockDays + policy.reorderCoverDays)),
+      reorderPoint + 1
+    );
+    const quantity = target - stock - pending;
+    if (quantity < 1) continue;
+
+    suggestions.push({
+      productId: product.id,
+      productName: product.name,
+      supplierId: product.supplierId,
+      stock,
+      onOrder: pending,
+      dailyUsage,
+      daysLeft: dailyUsage > 0 ? Math.floor(stock / dailyUsage) : undefined,
+      leadTimeDays,
+      reorderPoint,
+      quantity,
+      unitCost: Number(product.purchasePrice || 0),
+    });
+  }
+
+  // Most urgent first
+  return suggestions.sort(
+    (a, b) => (a.daysLeft ?? Infinity) - (b.daysLeft ?? Infinity) || a.productName.localeCompare(b.productName)
+  );
+}
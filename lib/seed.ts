@@ -3,6 +3,9 @@
 import { db } from "@/lib/db"
 import { debugLog } from "@/lib/debug"
 
+// Name the sample records are logged under
+const SEEDED_BY = "System"
+
 export async function seedDatabase() {
   try {
     // Check if database already has data
@@ -17,14 +20,14 @@ export async function seedDatabase() {
       contact: "555-123-4567",
       email: "john@example.com",
       address: "123 Main St, Anytown, CA 12345",
-    })
+    }, SEEDED_BY)
 
     const client2 = await db.clients.create({
       name: "Jane Smith",
       contact: "555-987-6543",
       email: "jane@example.com",
       address: "456 Oak Ave, Somewhere, CA 67890",
-    })
+    }, SEEDED_BY)
 
     // Seed insurance companies
     const insurance1 = await db.insurance.create({
@@ -33,7 +36,7 @@ export async function seedDatabase() {
       email: "bob@abcinsurance.com",
       phone: "555-111-2222",
       address: "789 Insurance Blvd, Insure City, CA 54321",
-    })
+    }, SEEDED_BY)
 
     // Seed cars
     await db.cars.create({
@@ -46,7 +49,7 @@ export async function seedDatabase() {
       color: "Blue",
       clientId: client1.id,
       insuranceId: insurance1.id,
-    })
+    }, SEEDED_BY)
 
     await db.cars.create({
       uin: "CAR002",
@@ -57,20 +60,34 @@ export async function seedDatabase() {
       vin: "5YJSA1E29JF123456",
       color: "Red",
       clientId: client2.id,
-    })
+    }, SEEDED_BY)
+
+    // Seed insurance policies
+    const policyStart = new Date()
+    policyStart.setMonth(policyStart.getMonth() - 11)
+    const policyExpiry = new Date(policyStart)
+    policyExpiry.setFullYear(policyExpiry.getFullYear() + 1)
+    await db.policies.create({
+      carUin: "CAR001",
+      insuranceId: insurance1.id,
+      policyNumber: "ABC-2020-0457",
+      coverageType: "Comprehensive",
+      startDate: policyStart.toISOString().split("T")[0],
+      expiryDate: policyExpiry.toISOString().split("T")[0],
+    }, SEEDED_BY)
 
     // Seed services
     const service1 = await db.services.create({
       name: "Oil Change",
       description: "Standard oil change service with filter replacement",
       standardFee: 49.99,
-    })
+    }, SEEDED_BY)
 
     const service2 = await db.services.create({
       name: "Brake Inspection",
       description: "Complete brake system inspection and adjustment",
       standardFee: 79.99,
-    })
+    }, SEEDED_BY)
 
     // Seed suppliers
     const supplier1 = await db.suppliers.create({
@@ -79,7 +96,7 @@ export async function seedDatabase() {
       email: "sarah@autopartsplus.com",
       phone: "555-333-4444",
       address: "101 Parts Lane, Partsville, CA 11111",
-    })
+    }, SEEDED_BY)
 
     // Seed products
     await db.products.create({
@@ -90,7 +107,7 @@ export async function seedDatabase() {
       shopStock: 10,
       supplierId: supplier1.id,
       lowStockThreshold: 15,
-    })
+    }, SEEDED_BY)
 
     await db.products.create({
       name: "Brake Pads",
@@ -100,7 +117,7 @@ export async function seedDatabase() {
       shopStock: 8,
       supplierId: supplier1.id,
       lowStockThreshold: 10,
-    })
+    }, SEEDED_BY)
 
     debugLog("Database seeded successfully")
     return { success: true, message: "Database seeded successfully" }
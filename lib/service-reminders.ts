@@ -0,0 +1,184 @@
+import { addMonths, differenceInCalendarDays } from "date-fns";
+import type { MaintenanceRequest, Service } from "@/lib/db";
+
+// A service counts as "due soon" this close to its next due distance or date
+export const DUE_SOON_DISTANCE = 1000;
+export const DUE_SOON_DAYS = 30;
+
+export type OdometerReading = {
+  date: string;
+  odometer: number;
+  maintenanceId: string;
+};
+
+export type ServiceDueStatus = "overdue" | "due-soon" | "ok";
+
+export type ServiceScheduleItem = {
+  serviceId: string;
+  serviceName: string;
+  intervalKm?: number;
+  intervalMonths?: number;
+  lastServiceDate: string;
+  lastServiceOdometer?: number;
+  nextDueOdometer?: number;
+  nextDueDate?: string;
+  distanceRemaining?: number; // Against the estimated current reading
+  daysRemaining?: number;
+  status: ServiceDueStatus;
+};
+
+export type ServiceReminder = ServiceScheduleItem & {
+  carUin: string;
+  carDetails: string;
+  licensePlate: string;
+  clientId: string;
+  clientName: string;
+  clientContact: string;
+};
+
+export function formatDistance(value: number): string {
+  return `${Math.round(value).toLocaleString()} km`;
+}
+
+// Unset, empty and zero intervals all mean "no interval"
+export function normalizeInterval(value: unknown): number | undefined {
+  const number = Number(value);
+  return Number.isFinite(number) && number > 0 ? Math.round(number) : undefined;
+}
+
+// Empty readings are left out; a brand new car may well read zero
+export function parseOdometer(value: unknown): number | undefined {
+  if (value === null || value === undefined || value === "") return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) && number >= 0 ? Math.round(number) : undefined;
+}
+
+export function hasServiceInterval(service: Service): boolean {
+  return !!(normalizeInterval(service.intervalKm) || normalizeInterval(service.intervalMonths));
+}
+
+function getRequestDate(request: MaintenanceRequest): string {
+  return request.endDate || request.startDate;
+}
+
+// Odometer readings taken at each visit, oldest first
+export function getMileageHistory(requests: MaintenanceRequest[]): OdometerReading[] {
+  return requests
+    .filter((request) => request.status !== "cancelled" && parseOdometer(request.odometer) !== undefined)
+    .map((request) => ({
+      date: getRequestDate(request),
+      odometer: Number(request.odometer),
+      maintenanceId: request.id,
+    }))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+}
+
+/**
+ * Readings are only taken when the car visits, so the current mileage is
+ * projected from the average daily distance between the first and last reading.
+ */
+export function estimateOdometer(history: OdometerReading[], now = new Date()): number | undefined {
+  if (history.length === 0) return undefined;
+
+  const first = history[0];
+  const last = history[history.length - 1];
+  const days = differenceInCalendarDays(new Date(last.date), new Date(first.date));
+  if (days <= 0 || last.odometer <= first.odometer) return last.odometer;
+
+  const perDay = (last.odometer - first.odometer) / days;
+  const daysSinceLast = Math.max(0, differenceInCalendarDays(now, new Date(last.date)));
+  return Math.round(last.odometer + perDay * daysSinceLast);
+}
+
+function getDueStatus(distanceRemaining?: number, daysRemaining?: number): ServiceDueStatus {
+  if ((distanceRemaining !== undefined && distanceRemaining <= 0) || (daysRemaining !== undefined && daysRemaining <= 0)) {
+    return "overdue";
+  }
+  if (
+    (distanceRemaining !== undefined && distanceRemaining <= DUE_SOON_DISTANCE) ||
+    (daysRemaining !== undefined && daysRemaining <= DUE_SOON_DAYS)
+  ) {
+    return "due-soon";
+  }
+  return "ok";
+}
+
+/**
+ * When each interval service is next due for one car, counted from the last
+ * completed visit that included it. Services the car has never had here have
+ * no starting point and are left out.
+ */
+export function getServiceSchedule(
+  requests: MaintenanceRequest[],
+  services: Service[],
+  now = new Date()
+): ServiceScheduleItem[] {
+  const currentOdometer = estimateOdometer(getMileageHistory(requests), now);
+  const completed = requests
+    .filter((request) => request.status === "completed")
+    .sort((a, b) => new Date(getRequestDate(b)).getTime() - new Date(getRequestDate(a)).getTime());
+
+  const schedule: ServiceScheduleItem[] = [];
+  for (const service of services) {
+    const intervalKm = normalizeInterval(service.intervalKm);
+    const intervalMonths = normalizeInterval(service.intervalMonths);
+    if (!intervalKm && !intervalMonths) continue;
+
+    const last = completed.find((request) =>
+      request.servicesUsed.some((used) => used.serviceId === service.id)
+    );
+    if (!last) continue;
+
+    const lastServiceDate = getRequestDate(last);
+    const lastServiceOdometer = parseOdometer(last.odometer);
+
+    const nextDueOdometer =
+      intervalKm && lastServiceOdometer !== undefined ? lastServiceOdometer + intervalKm : undefined;
+    const nextDueDate = intervalMonths ? addMonths(new Date(lastServiceDate), intervalMonths) : undefined;
+
+    const distanceRemaining =
+      nextDueOdometer !== undefined && currentOdometer !== undefined ? nextDueOdometer - currentOdometer : undefined;
+    const daysRemaining = nextDueDate ? differenceInCalendarDays(nextDueDate, now) : undefined;
+
+    schedule.push({
+      serviceId: service.id,
+      serviceName: service.name,
+      intervalKm,
+      intervalMonths,
+      lastServiceDate,
+      lastServiceOdometer,
+      nextDueOdometer,
+      nextDueDate: nextDueDate?.toISOString(),
+      distanceRemaining,
+      daysRemaining,
+      status: getDueStatus(distanceRemaining, daysRemaining),
+    });
+  }
+
+  return schedule;
+}
+
+// "420 km left / 12 days left", "1,200 km over"
+export function describeRemaining(
+  item: Pick<ServiceScheduleItem, "distanceRemaining" | "daysRemaining">
+): string {
+  const parts: string[] = [];
+  if (item.distanceRemaining !== undefined) {
+    parts.push(
+      item.distanceRemaining < 0
+        ? `${formatDistance(-item.distanceRemaining)} over`
+        : `${formatDistance(item.distanceRemaining)} left`
+    );
+  }
+  if (item.daysRemaining !== undefined) {
+    parts.push(item.daysRemaining < 0 ? `${-item.daysRemaining} days over` : `${item.daysRemaining} days left`);
+  }
+  return parts.join(" / ") || "-";
+}
+
+// Overdue first, then whatever is closest to being due
+export function compareScheduleItems(a: ServiceScheduleItem, b: ServiceScheduleItem): number {
+  const rank = { overdue: 0, "due-soon": 1, ok: 2 };
+  if (rank[a.status] !== rank[b.status]) return rank[a.status] - rank[b.status];
+  return (a.daysRemaining ?? Infinity) - (b.daysRemaining ?? Infinity);
+}
@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import type { MaintenanceRequest, Payment } from "@/lib/db";
+import {
+  buildAgingReport,
+  buildClientStatement,
+  getAgingBucket,
+  getCustomerCharge,
+  getInvoiceDate,
+  renderStatementCsv,
+} from "@/lib/statements";
+import {
+  type NewRecord,
+  car,
+  client,
+  creditTransaction,
+  garageSettings,
+  payment,
+  savedRequest,
+  stored,
+} from "@/test/fixtures";
+
+const garage = garageSettings();
+const jane = stored(client({ name: "Jane Doe" }), "c1");
+const cars = [car(jane.id, { uin: "car1", make: "Ford", model: "Focus", licensePlate: "AB-123" })];
+
+function invoiced(id: string, totalCost: number, overrides: Partial<MaintenanceRequest> = {}) {
+  return savedRequest({
+    id,
+    clientId: jane.id,
+    carUin: "car1",
+    totalCost,
+    status: "completed",
+    startDate: "2024-03-01T09:00:00.000Z",
+    ...overrides,
+  });
+}
+
+function paid(maintenanceId: string, amount: number, date: string, overrides: Partial<NewRecord<Payment>> = {}) {
+  return stored(payment(maintenanceId, amount, { clientId: jane.id, date, ...overrides }), `${maintenanceId}-${date}`);
+}
+
+describe("statement helpers", () => {
+  it("dates an invoice when the job finished, or started while open", () => {
+    expect(getInvoiceDate({ startDate: "2024-03-01T09:00:00Z", endDate: "2024-03-04T17:00:00Z" })).toBe("2024-03-04");
+    expect(getInvoiceDate({ startDate: "2024-03-01T09:00:00Z" })).toBe("2024-03-01");
+  });
+
+  it("charges the client only their share of a claim", () => {
+    expect(getCustomerCharge({ totalCost: 1000 })).toBe(1000);
+    expect(getCustomerCharge({ totalCost: 1000, customerPortion: 300 })).toBe(300);
+  });
+
+  it("buckets ages from the invoice date", () => {
+    expect([0, 30, 31, 60, 61, 90, 91].map(getAgingBucket)).toEqual([
+      "current",
+      "current",
+      "31-60",
+      "31-60",
+      "61-90",
+      "61-90",
+      "90+",
+    ]);
+  });
+});
+
+describe("buildClientStatement", () => {
+  const requests = [
+    invoiced("m1", 200, { invoiceNumber: "INV-000001", startDate: "2024-01-10" }),
+    invoiced("m2", 1000, { customerPortion: 300, insurerPortion: 700, startDate: "2024-03-05" }),
+    invoiced("m3", 500, { status: "cancelled", startDate: "2024-03-06" }),
+  ];
+  const payments = [
+    paid("m1", 150, "2024-01-12"),
+    paid("m2", 100, "2024-03-05"),
+    paid("m2", 700, "2024-03-20", { payer: "insurer" }),
+    paid("m2", 50, "2024-03-21", { method: "credit" }),
+    paid("m2", 40, "2024-03-22", { status: "voided" }),
+  ];
+  const credits = [
+    stored(creditTransaction(jane.id, "deposit", 80, { date: "2024-03-10", method: "cash" }), "cr1"),
+    stored(creditTransaction(jane.id, "application", 50, { date: "2024-03-21" }), "cr2"),
+  ];
+
+  it("lists the client's charges and payments with a running balance", () => {
+    const statement = buildClientStatement({
+      client: jane,
+      requests,
+      payments,
+      credits,
+      cars,
+      garage,
+      from: "2024-03-01",
+      to: "2024-03-31",
+      generatedAt: "2024-04-01T00:00:00.000Z",
+    });
+
+    expect(statement.openingBalance).toBe(50);
+    expect(statement.entries.map(({ date, type, debit, credit, balance }) => ({ date, type, debit, credit, balance }))).toEqual([
+      { date: "2024-03-05", type: "invoice", debit: 300, credit: 0, balance: 350 },
+      { date: "2024-03-05", type: "payment", debit: 0, credit: 100, balance: 250 },
+      { date: "2024-03-10", type: "deposit", debit: 0, credit: 80, balance: 170 },
+    ]);
+    expect(statement.entries[0].description).toBe("Ford Focus (AB-123), insurer covers $700.00");
+    expect(statement).toMatchObject({ totalInvoiced: 300, totalReceived: 180, closingBalance: 170 });
+  });
+
+  it("renders the statement as CSV", () => {
+    const statement = buildClientStatement({ client: jane, requests: [requests[0]], payments: [], cars, garage, to: "2024-01-31" });
+    expect(renderStatementCsv(statement).split("\n")).toEqual([
+      "Date,Type,Reference,Description,Debit,Credit,Balance",
+      ",Opening balance,,,,,0.00",
+      "2024-01-10,Invoice,INV-000001,Ford Focus (AB-123),200.00,,200.00",
+      "2024-01-31,Closing balance,,,,,200.00",
+    ]);
+  });
+});
+
+describe("buildAgingReport", () => {
+  it("buckets open balances by invoice age as of a date", () => {
+    const rows = buildAgingReport({
+      clients: [jane, stored(client({ name: "Paid Up" }), "c2")],
+      requests: [
+        invoiced("m1", 200, { startDate: "2024-01-10" }),
+        invoiced("m2", 400, { startDate: "2024-03-20" }),
+        invoiced("m3", 100, { clientId: "c2", startDate: "2024-03-20" }),
+        invoiced("m4", 900, { startDate: "2024-04-10" }), // After the report date
+      ],
+      payments: [
+        paid("m1", 50, "2024-02-01"),
+        paid("m2", 400, "2024-04-05"), // Paid after the report date
+        paid("m3", 100, "2024-03-25", { clientId: "c2" }),
+      ],
+      asOf: "2024-03-31",
+    });
+
+    expect(rows).toEqual([
+      {
+        clientId: "c1",
+        clientName: "Jane Doe",
+        openInvoices: 2,
+        buckets: { current: 400, "31-60": 0, "61-90": 150, "90+": 0 },
+        total: 550,
+        oldestInvoiceDate: "2024-01-10",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,580 @@
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import type { Car, Client, CreditTransaction, GarageSettings, MaintenanceRequest, Payment } from "@/lib/db";
+import { getPayer } from "@/lib/claims";
+import { escapeHtml } from "@/lib/invoices";
+import { createPdfDocument } from "@/lib/pdf";
+import { roundCurrency } from "@/lib/utils";
+
+export type StatementEntryType = "invoice" | "payment" | "deposit" | "refund";
+
+export type StatementEntry = {
+  date: string;
+  type: StatementEntryType;
+  reference: string;
+  description: string;
+  maintenanceId?: string; // Unset on deposits and credit refunds
+  debit: number;
+  credit: number;
+  balance: number; // Running balance after this entry
+};
+
+// A client's account over a date range, independent of the output format
+export type ClientStatement = {
+  garage: GarageSettings;
+  client: {
+    id: string;
+    name: string;
+    email?: string;
+    contact?: string;
+    address?: string;
+  };
+  from?: string; // yyyy-MM-dd; unset = since the first entry
+  to: string;
+  generatedAt: string;
+  openingBalance: number;
+  totalInvoiced: number;
+  totalReceived: number; // Payments less refunds
+  closingBalance: number;
+  entries: StatementEntry[];
+};
+
+export type AgingBucket = "current" | "31-60" | "61-90" | "90+";
+
+export const AGING_BUCKETS: AgingBucket[] = ["current", "31-60", "61-90", "90+"];
+
+export const AGING_BUCKET_LABELS: Record<AgingBucket, string> = {
+  current: "Current",
+  "31-60": "31-60 days",
+  "61-90": "61-90 days",
+  "90+": "90+ days",
+};
+
+export type AgingRow = {
+  clientId: string;
+  clientName: string;
+  openInvoices: number;
+  buckets: Record<AgingBucket, number>;
+  total: number;
+  oldestInvoiceDate?: string;
+};
+
+const ENTRY_TYPE_LABELS: Record<StatementEntryType, string> = {
+  invoice: "Invoice",
+  payment: "Payment",
+  deposit: "Deposit",
+  refund: "Refund",
+};
+
+// Same-day entries list the invoice before what was paid against it
+const ENTRY_TYPE_ORDER: Record<StatementEntryType, number> = { invoice: 0, payment: 1, deposit: 2, refund: 3 };
+
+function toDay(value: string): string {
+  return value.slice(0, 10);
+}
+
+// A job is billed once it is finished; open jobs count from the day they started
+export function getInvoiceDate(request: Pick<MaintenanceRequest, "startDate" | "endDate">): string {
+  return toDay(request.endDate || request.startDate);
+}
+
+// The client's share of a request; the insurer's portion of a claim is billed to the insurer
+export function getCustomerCharge(request: Pick<MaintenanceRequest, "totalCost" | "customerPortion">): number {
+  return Number(request.customerPortion ?? request.totalCost) || 0;
+}
+
+// Ages are counted from the invoice date: up to 30 days is current
+export function getAgingBucket(days: number): AgingBucket {
+  if (days <= 30) return "current";
+  if (days <= 60) return "31-60";
+  if (days <= 90) return "61-90";
+  return "90+";
+}
+
+function getCustomerPayments(payments: Payment[]): Payment[] {
+  return payments.filter((payment) => payment.status === "completed" && getPayer(payment) === "customer");
+}
+
+export function buildClientStatement({
+  client,
+  requests,
+  payments,
+  credits = [],
+  cars,
+  garage,
+  from,
+  to,
+  generatedAt = new Date().toISOString(),
+}: {
+  client: Client;
+  requests: MaintenanceRequest[];
+  payments: Payment[];
+  credits?: CreditTransaction[];
+  cars: Pick<Car, "uin" | "make" | "model" | "licensePlate">[];
+  garage: GarageSettings;
+  from?: string;
+  to: string;
+  generatedAt?: string;
+}): ClientStatement {
+  // Cancelled jobs are not billed, so neither they nor their payments are on the account
+  const billed = requests.filter((request) => request.status !== "cancelled");
+  const requestById = new Map(billed.map((request) => [request.id, request]));
+  const carByUin = new Map(cars.map((car) => [car.uin, car]));
+
+  const currency = new Intl.NumberFormat("en-US", { style: "currency", currency: garage.currency || "USD" });
+  const describe = (request: MaintenanceRequest) => {
+    const car = carByUin.get(request.carUin);
+    return car ? `${car.make} ${car.model} (${car.licensePlate})` : request.carUin;
+  };
+
+  const ledger: Omit<StatementEntry, "balance">[] = [
+    ...billed
+      .filter((request) => getCustomerCharge(request) > 0)
+      .map((request) => {
+        const insurerPortion = Number(request.insurerPortion) || 0;
+        return {
+          date: getInvoiceDate(request),
+          type: "invoice" as const,
+          reference: request.invoiceNumber || request.id,
+          description: insurerPortion
+            ? `${describe(request)}, insurer covers ${currency.format(insurerPortion)}`
+            : describe(request),
+          maintenanceId: request.id,
+          debit: roundCurrency(getCustomerCharge(request)),
+          credit: 0,
+        };
+      }),
+    // Payments made from credit were already counted when the money came in
+    ...getCustomerPayments(payments)
+      .filter((payment) => requestById.has(payment.maintenanceId) && payment.method !== "credit")
+      .map((payment) => {
+        const request = requestById.get(payment.maintenanceId)!;
+        return {
+          date: toDay(payment.date),
+          type: payment.type,
+          reference: payment.reference || "",
+          description: `${payment.type === "refund" ? "Refund on" : "Payment for"} ${request.invoiceNumber || request.id}`,
+          maintenanceId: payment.maintenanceId,
+          debit: payment.type === "refund" ? payment.amount : 0,
+          credit: payment.type === "refund" ? 0 : payment.amount,
+        };
+      }),
+    ...credits
+      .filter((credit) => credit.status === "completed" && credit.type !== "application")
+      .map((credit) => ({
+        date: toDay(credit.date),
+        type: (credit.type === "overpayment" ? "payment" : credit.type) as StatementEntryType,
+        reference: credit.reference || "",
+        description:
+          credit.type === "deposit"
+            ? "Deposit held as credit"
+            : credit.type === "overpayment"
+              ? "Overpayment held as credit"
+              : "Credit refunded",
+        maintenanceId: credit.maintenanceId,
+        debit: credit.type === "refund" ? credit.amount : 0,
+        credit: credit.type === "refund" ? 0 : credit.amount,
+      })),
+  ].sort((a, b) => a.date.localeCompare(b.date) || ENTRY_TYPE_ORDER[a.type] - ENTRY_TYPE_ORDER[b.type]);
+
+  const inRange = ledger.filter((entry) => (!from || entry.date >= from) && entry.date <= to);
+  const openingBalance = roundCurrency(
+    ledger.filter((entry) => from && entry.date < from).reduce((sum, entry) => sum + entry.debit - entry.credit, 0)
+  );
+
+  let balance = openingBalance;
+  const entries = inRange.map((entry) => {
+    balance = roundCurrency(balance + entry.debit - entry.credit);
+    return { ...entry, balance };
+  });
+
+  const totalInvoiced = roundCurrency(
+    inRange.filter((entry) => entry.type === "invoice").reduce((sum, entry) => sum + entry.debit, 0)
+  );
+
+  return {
+    garage,
+    client: {
+      id: client.id,
+      name: client.name,
+      email: client.email,
+      contact: client.contact,
+      address: client.address,
+    },
+    from,
+    to,
+    generatedAt,
+    openingBalance,
+    totalInvoiced,
+    totalReceived: roundCurrency(
+      inRange.reduce((sum, entry) => (entry.type === "invoice" ? sum : sum + entry.credit - entry.debit), 0)
+    ),
+    closingBalance: balance,
+    entries,
+  };
+}
+
+// Open client balances as of a date, bucketed by invoice age, largest total first.
+// Payments dated after that day are left out so past dates show what was owed then.
+export function buildAgingReport({
+  clients,
+  requests,
+  payments,
+  asOf,
+}: {
+  clients: Pick<Client, "id" | "name">[];
+  requests: MaintenanceRequest[];
+  payments: Payment[];
+  asOf: string;
+}): AgingRow[] {
+  const clientById = new Map(clients.map((client) => [client.id, client]));
+  const paidByRequest = new Map<string, number>();
+  getCustomerPayments(payments)
+    .filter((payment) => toDay(payment.date) <= asOf)
+    .forEach((payment) => {
+      const amount = payment.type === "refund" ? -payment.amount : payment.amount;
+      paidByRequest.set(payment.maintenanceId, (paidByRequest.get(payment.maintenanceId) || 0) + amount);
+    });
+
+  const rows = new Map<string, AgingRow>();
+
+  requests
+    .filter((request) => request.status !== "cancelled" && getInvoiceDate(request) <= asOf)
+    .forEach((request) => {
+      const balance = roundCurrency(getCustomerCharge(request) - (paidByRequest.get(request.id) || 0));
+      if (balance <= 0) return;
+
+      const invoiceDate = getInvoiceDate(request);
+      let row = rows.get(request.clientId);
+      if (!row) {
+        row = {
+          clientId: request.clientId,
+          clientName: clientById.get(request.clientId)?.name || request.clientName || "Unknown Client",
+          openInvoices: 0,
+          buckets: { current: 0, "31-60": 0, "61-90": 0, "90+": 0 },
+          total: 0,
+        };
+        rows.set(request.clientId, row);
+      }
+
+      const bucket = getAgingBucket(differenceInCalendarDays(parseISO(asOf), parseISO(invoiceDate)));
+      row.buckets[bucket] = roundCurrency(row.buckets[bucket] + balance);
+      row.total = roundCurrency(row.total + balance);
+      row.openInvoices++;
+      if (!row.oldestInvoiceDate || invoiceDate < row.oldestInvoiceDate) {
+        row.oldestInvoiceDate = invoiceDate;
+      }
+    });
+
+  return [...rows.values()].sort((a, b) => b.total - a.total);
+}
+
+function createFormatters(statement: ClientStatement) {
+  const currency = new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: statement.garage.currency || "USD",
+  });
+  const date = new Intl.DateTimeFormat("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+
+  return {
+    money: (amount: number) => currency.format(amount),
+    date: (value: string) => date.format(parseISO(`${toDay(value)}T00:00:00Z`)),
+  };
+}
+
+function getPeriodLabel(statement: ClientStatement): string {
+  const format = createFormatters(statement);
+  return statement.from
+    ? `${format.date(statement.from)} - ${format.date(statement.to)}`
+    : `All activity to ${format.date(statement.to)}`;
+}
+
+// Summary rows shared by the HTML and PDF renderers
+function getSummaryRows(statement: ClientStatement) {
+  const format = createFormatters(statement);
+  return [
+    { label: "Opening balance", value: format.money(statement.openingBalance) },
+    { label: "Invoiced", value: format.money(statement.totalInvoiced) },
+    { label: "Received", value: `-${format.money(statement.totalReceived)}` },
+    { label: "Balance due", value: format.money(statement.closingBalance), emphasis: true },
+  ];
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function renderStatementCsv(statement: ClientStatement): string {
+  const rows: (string | number)[][] = [
+    ["Date", "Type", "Reference", "Description", "Debit", "Credit", "Balance"],
+    [statement.from || "", "Opening balance", "", "", "", "", statement.openingBalance.toFixed(2)],
+    ...statement.entries.map((entry) => [
+      entry.date,
+      ENTRY_TYPE_LABELS[entry.type],
+      entry.reference,
+      entry.description,
+      entry.debit ? entry.debit.toFixed(2) : "",
+      entry.credit ? entry.credit.toFixed(2) : "",
+      entry.balance.toFixed(2),
+    ]),
+    [statement.to, "Closing balance", "", "", "", "", statement.closingBalance.toFixed(2)],
+  ];
+
+  return rows.map((row) => row.map(csvCell).join(",")).join("\n");
+}
+
+export function renderStatementHtml(
+  statement: ClientStatement,
+  { pdfUrl, csvUrl }: { pdfUrl?: string; csvUrl?: string } = {}
+): string {
+  const format = createFormatters(statement);
+
+  const entryRows = statement.entries.length
+    ? statement.entries
+        .map(
+          (entry) => `
+          <tr>
+            <td>${format.date(entry.date)}</td>
+            <td>${ENTRY_TYPE_LABELS[entry.type]}</td>
+            <td>${escapeHtml(entry.reference)}</td>
+            <td>${escapeHtml(entry.description)}</td>
+            <td class="num">${entry.debit ? format.money(entry.debit) : ""}</td>
+            <td class="num">${entry.credit ? format.money(entry.credit) : ""}</td>
+            <td class="num">${format.money(entry.balance)}</td>
+          </tr>`
+        )
+        .join("")
+    : `<tr><td colspan="7" class="muted">No activity in this period.</td></tr>`;
+
+  const summaryRows = getSummaryRows(statement)
+    .map(
+      (row) => `
+          <tr${row.emphasis ? ' class="emphasis"' : ""}>
+            <td>${escapeHtml(row.label)}</td>
+            <td class="num">${escapeHtml(row.value)}</td>
+          </tr>`
+    )
+    .join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>Statement - ${escapeHtml(statement.client.name)}</title>
+    <style>
+      * { box-sizing: border-box; }
+      body { font-family: Arial, Helvetica, sans-serif; color: #111; margin: 0; background: #f4f4f5; }
+      .toolbar { display: flex; gap: 8px; justify-content: flex-end; max-width: 900px; margin: 16px auto 0; }
+      .toolbar button, .toolbar a { font: inherit; font-size: 14px; padding: 8px 14px; border: 1px solid #d4d4d8; border-radius: 6px; background: #fff; color: #111; text-decoration: none; cursor: pointer; }
+      .page { max-width: 900px; margin: 16px auto; padding: 40px; background: #fff; border: 1px solid #e4e4e7; }
+      .header { display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 32px; }
+      .garage-name { font-size: 22px; font-weight: bold; margin-bottom: 4px; }
+      .title { font-size: 28px; font-weight: bold; text-transform: uppercase; text-align: right; }
+      .muted { color: #71717a; }
+      .meta div, .garage div { margin: 2px 0; }
+      .meta { text-align: right; }
+      .section-title { font-size: 12px; font-weight: bold; text-transform: uppercase; color: #71717a; margin-bottom: 6px; }
+      .client { margin-bottom: 24px; }
+      table { width: 100%; border-collapse: collapse; margin-bottom: 24px; }
+      th, td { padding: 8px; text-align: left; border-bottom: 1px solid #e4e4e7; font-size: 14px; }
+      th { background: #f4f4f5; font-size: 12px; text-transform: uppercase; }
+      .num { text-align: right; white-space: nowrap; }
+      .summary { width: 50%; margin-left: auto; }
+      .summary .emphasis td { font-weight: bold; }
+      @media print {
+        body { background: #fff; }
+        .toolbar { display: none; }
+        .page { margin: 0; border: none; padding: 0; max-width: none; }
+      }
+    </style>
+  </head>
+  <body>
+    <div class="toolbar">
+      <button type="button" onclick="window.print()">Print</button>
+      ${pdfUrl ? `<a href="${escapeHtml(pdfUrl)}">Download PDF</a>` : ""}
+      ${csvUrl ? `<a href="${escapeHtml(csvUrl)}">Download CSV</a>` : ""}
+    </div>
+    <div class="page">
+      <div class="header">
+        <div class="garage">
+          <div class="garage-name">${escapeHtml(statement.garage.garageName)}</div>
+          <div>${escapeHtml(statement.garage.address)}</div>
+          <div>${escapeHtml(statement.garage.phone)}</div>
+          <div>${escapeHtml(statement.garage.email)}</div>
+        </div>
+        <div>
+          <div class="title">Statement</div>
+          <div class="meta">
+            <div><strong>Period:</strong> ${escapeHtml(getPeriodLabel(statement))}</div>
+            <div><strong>Issued:</strong> ${format.date(statement.generatedAt)}</div>
+          </div>
+        </div>
+      </div>
+
+      <div class="client">
+        <div class="section-title">Statement for</div>
+        <div><strong>${escapeHtml(statement.client.name)}</strong></div>
+        ${statement.client.address ? `<div>${escapeHtml(statement.client.address)}</div>` : ""}
+        ${statement.client.contact ? `<div>${escapeHtml(statement.client.contact)}</div>` : ""}
+        ${statement.client.email ? `<div>${escapeHtml(statement.client.email)}</div>` : ""}
+      </div>
+
+      <table>
+        <thead>
+          <tr>
+            <th>Date</th>
+            <th>Type</th>
+            <th>Reference</th>
+            <th>Description</th>
+            <th class="num">Debit</th>
+            <th class="num">Credit</th>
+            <th class="num">Balance</th>
+          </tr>
+        </thead>
+        <tbody>
+          <tr>
+            <td>${statement.from ? format.date(statement.from) : ""}</td>
+            <td colspan="5"><strong>Opening balance</strong></td>
+            <td class="num"><strong>${format.money(statement.openingBalance)}</strong></td>
+          </tr>${entryRows}
+        </tbody>
+      </table>
+
+      <table class="summary">
+        <tbody>${summaryRows}
+        </tbody>
+      </table>
+    </div>
+  </body>
+</html>`;
+}
+
+export function renderStatementPdf(statement: ClientStatement): Buffer {
+  const format = createFormatters(statement);
+  const pdf = createPdfDocument();
+  const margin = 48;
+  const right = pdf.width - margin;
+  const bottom = pdf.height - margin;
+  const muted: [number, number, number] = [0.45, 0.45, 0.48];
+
+  const columns = {
+    date: margin + 6,
+    type: margin + 80,
+    reference: margin + 135,
+    description: margin + 215,
+    debit: right - 140,
+    credit: right - 70,
+    balance: right - 6,
+  };
+
+  let y = margin + 10;
+
+  const tableHeader = () => {
+    pdf.rect(margin, y, right - margin, 20, [0.96, 0.96, 0.97]);
+    (
+      [
+        ["Date", columns.date, "left"],
+        ["Type", columns.type, "left"],
+        ["Reference", columns.reference, "left"],
+        ["Description", columns.description, "left"],
+        ["Debit", columns.debit, "right"],
+        ["Credit", columns.credit, "right"],
+        ["Balance", columns.balance, "right"],
+      ] as Array<[string, number, "left" | "right"]>
+    ).forEach(([label, x, align]) => pdf.text(x, y + 14, label.toUpperCase(), { size: 8, font: "bold", align }));
+    y += 20;
+  };
+
+  // Start a new page, repeating the table header, when the next row would not fit
+  const ensureSpace = (height: number) => {
+    if (y + height > bottom) {
+      pdf.addPage();
+      y = margin + 10;
+      tableHeader();
+    }
+  };
+
+  const truncate = (value: string, width: number) => {
+    let text = value;
+    while (text.length > 3 && pdf.measure(text, 9) > width) {
+      text = `${text.slice(0, -4)}...`;
+    }
+    return text;
+  };
+
+  // Header: garage details on the left, statement details on the right
+  pdf.text(margin, y + 6, statement.garage.garageName, { size: 18, font: "bold" });
+  pdf.text(right, y + 6, "STATEMENT", { size: 22, font: "bold", align: "right" });
+  y += 24;
+
+  const garageLines = [statement.garage.address, statement.garage.phone, statement.garage.email].filter(Boolean);
+  const metaLines = [`Period: ${getPeriodLabel(statement)}`, `Issued: ${format.date(statement.generatedAt)}`];
+  for (let i = 0; i < Math.max(garageLines.length, metaLines.length); i++) {
+    if (garageLines[i]) pdf.text(margin, y, garageLines[i], { size: 9 });
+    if (metaLines[i]) pdf.text(right, y, metaLines[i], { size: 9, align: "right" });
+    y += 13;
+  }
+  y += 18;
+
+  pdf.text(margin, y, "STATEMENT FOR", { size: 8, font: "bold", color: muted });
+  y += 14;
+  pdf.text(margin, y, statement.client.name, { size: 10, font: "bold" });
+  y += 13;
+  [statement.client.address, statement.client.contact, statement.client.email]
+    .filter((line): line is string => Boolean(line))
+    .forEach((line) => {
+      pdf.text(margin, y, line, { size: 9 });
+      y += 12;
+    });
+  y += 20;
+
+  tableHeader();
+  pdf.text(columns.date, y + 14, statement.from ? format.date(statement.from) : "", { size: 9 });
+  pdf.text(columns.type, y + 14, "Opening balance", { size: 9, font: "bold" });
+  pdf.text(columns.balance, y + 14, format.money(statement.openingBalance), { size: 9, font: "bold", align: "right" });
+  y += 20;
+  pdf.line(margin, y, right, y);
+
+  if (!statement.entries.length) {
+    pdf.text(columns.date, y + 14, "No activity in this period.", { size: 9, color: muted });
+    y += 20;
+  }
+
+  statement.entries.forEach((entry) => {
+    ensureSpace(20);
+    pdf.text(columns.date, y + 14, format.date(entry.date), { size: 9 });
+    pdf.text(columns.type, y + 14, ENTRY_TYPE_LABELS[entry.type], { size: 9 });
+    pdf.text(columns.reference, y + 14, truncate(entry.reference, columns.description - columns.reference - 8), {
+      size: 9,
+    });
+    pdf.text(columns.description, y + 14, truncate(entry.description, columns.debit - columns.description - 60), {
+      size: 9,
+    });
+    if (entry.debit) pdf.text(columns.debit, y + 14, format.money(entry.debit), { size: 9, align: "right" });
+    if (entry.credit) pdf.text(columns.credit, y + 14, format.money(entry.credit), { size: 9, align: "right" });
+    pdf.text(columns.balance, y + 14, format.money(entry.balance), { size: 9, align: "right" });
+    y += 20;
+    pdf.line(margin, y, right, y);
+  });
+  y += 16;
+
+  // Totals
+  const summaryRows = getSummaryRows(statement);
+  if (y + summaryRows.length * 16 + 10 > bottom) {
+    pdf.addPage();
+    y = margin + 10;
+  }
+  summaryRows.forEach((row) => {
+    const font = row.emphasis ? "bold" : "regular";
+    pdf.text(right - 220, y + 12, row.label, { size: 9, font });
+    pdf.text(right - 6, y + 12, row.value, { size: 9, font, align: "right" });
+    y += 16;
+  });
+
+  return pdf.toBuffer();
+}
@@ -0,0 +1,59 @@
+import type { CostLayer, Product, StockMovement, StockMovementReason } from "@/lib/db";
+import { getStockValue } from "@/lib/costing";
+
+export const STOCK_MOVEMENT_REASON_LABELS: Record<StockMovementReason, string> = {
+  sale: "Used on job",
+  return: "Returned from job",
+  transfer: "Transfer",
+  adjustment: "Adjustment",
+  receipt: "Received",
+  "stock-count": "Stock count",
+};
+
+export type StockAtDate = {
+  productId: string;
+  productName: string;
+  warehouseStock: number;
+  shopStock: number;
+  value: number; // At cost
+};
+
+/**
+ * Stock of every product as it stood at the given moment, worked back from the
+ * current figures by undoing the movements recorded since. Its value is worked
+ * back the same way from the current cost layers, using the unit cost each
+ * movement was recorded at. Products created later are left out.
+ */
+export function rebuildStockAt(
+  products: Product[],
+  movements: StockMovement[],
+  layers: CostLayer[],
+  at: Date
+): StockAtDate[] {
+  const undo = new Map<string, { warehouse: number; shop: number; value: number }>();
+  for (const movement of movements) {
+    if (new Date(movement.createdAt) <= at) continue;
+    const change = undo.get(movement.productId) || { warehouse: 0, shop: 0, value: 0 };
+    change[movement.location] += Number(movement.quantity);
+    if (movement.reason !== "transfer") {
+      const unitCost =
+        movement.unitCost ?? products.find((product) => product.id === movement.productId)?.purchasePrice ?? 0;
+      change.value += Number(movement.quantity) * Number(unitCost);
+    }
+    undo.set(movement.productId, change);
+  }
+
+  return products
+    .filter((product) => new Date(product.createdAt) <= at)
+    .map((product) => {
+      const change = undo.get(product.id) || { warehouse: 0, shop: 0, value: 0 };
+      return {
+        productId: product.id,
+        productName: product.name,
+        warehouseStock: Number(product.warehouseStock || 0) - change.warehouse,
+        shopStock: Number(product.shopStock || 0) - change.shop,
+        value: Math.max(getStockValue(product, layers) - change.value, 0),
+      };
+    })
+    .sort((a, b) => a.productName.localeCompare(b.productName));
+}
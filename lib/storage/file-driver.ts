@@ -0,0 +1,140 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { StorageDriver, StorageWrite } from "./types";
+
+// Shape of the on-disk data file
+type FileStoreData = {
+  version: number;
+  sets: Record<string, string[]>;
+  hashes: Record<string, Record<string, unknown>>;
+};
+
+const FILE_STORE_VERSION = 1;
+
+// Values are round-tripped through JSON so callers never share references
+// with the in-memory store (matches what a networked backend would return)
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+function applyWrite(store: FileStoreData, write: StorageWrite) {
+  switch (write.op) {
+    case "sadd": {
+      const set = new Set(store.sets[write.key] || []);
+      write.members.forEach((member) => set.add(member));
+      store.sets[write.key] = Array.from(set);
+      break;
+    }
+    case "srem": {
+      const remaining = (store.sets[write.key] || []).filter(
+        (member) => !write.members.includes(member)
+      );
+      if (remaining.length) {
+        store.sets[write.key] = remaining;
+      } else {
+        delete store.sets[write.key];
+      }
+      break;
+    }
+    case "hset":
+      store.hashes[write.key] = {
+        ...(store.hashes[write.key] || {}),
+        ...clone(write.values),
+      };
+      break;
+    case "del":
+      for (const key of write.keys) {
+        delete store.hashes[key];
+        delete store.sets[key];
+      }
+      break;
+  }
+}
+
+/**
+ * Local embedded key-value backend persisted to a single JSON file.
+ *
+ * The whole store is kept in memory and flushed to disk after every batch
+ * (write to a temp file, then rename) so a crash never leaves a half-written
+ * data file behind. A batch that fails to persist is rolled back in memory.
+ */
+export function createFileDriver(filePath: string): StorageDriver {
+  const resolvedPath = path.resolve(filePath);
+  let data: FileStoreData | null = null;
+  let loading: Promise<FileStoreData> | null = null;
+  let execQueue: Promise<void> = Promise.resolve();
+
+  async function load(): Promise<FileStoreData> {
+    if (data) return data;
+    if (!loading) {
+      loading = (async () => {
+        try {
+          const raw = await fs.readFile(resolvedPath, "utf8");
+          const parsed = JSON.parse(raw) as Partial<FileStoreData>;
+          data = {
+            version: parsed.version || FILE_STORE_VERSION,
+            sets: parsed.sets || {},
+            hashes: parsed.hashes || {},
+          };
+        } catch (error: any) {
+          if (error?.code !== "ENOENT") {
+            throw new Error(
+              `Failed to read data file ${resolvedPath}: ${error.message}`
+            );
+          }
+          data = { version: FILE_STORE_VERSION, sets: {}, hashes: {} };
+        }
+        return data;
+      })();
+    }
+    return loading;
+  }
+
+  async function persist(snapshot: string): Promise<void> {
+    await fs.mkdir(path.dirname(resolvedPath), { recursive: true });
+    const tmpPath = `${resolvedPath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, snapshot, "utf8");
+    await fs.rename(tmpPath, resolvedPath);
+  }
+
+  return {
+    name: "file",
+
+    async smembers(key) {
+      const store = await load();
+      return [...(store.sets[key] || [])];
+    },
+
+    async hgetall<T extends Record<string, unknown>>(key: string) {
+      const store = await load();
+      const hash = store.hashes[key];
+      return hash ? (clone(hash) as T) : null;
+    },
+
+    async snapshot() {
+      const store = await load();
+      return clone({ sets: store.sets, hashes: store.hashes });
+    },
+
+    // Batches are applied one at a time so none can build on a stale copy.
+    // Only this process writes the file, so there are no versions to check.
+    async exec(writes) {
+      if (!writes.length) return true;
+
+      const run = execQueue
+        .catch(() => undefined)
+        .then(async () => {
+          const store = await load();
+          const next = clone(store);
+          writes.forEach((write) => applyWrite(next, write));
+
+          await persist(JSON.stringify(next));
+          data = next;
+          loading = Promise.resolve(next);
+        });
+      execQueue = run;
+      await run;
+      return true;
+    },
+  };
+}
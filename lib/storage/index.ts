@@ -0,0 +1,48 @@
+import { createFileDriver } from "./file-driver";
+import { createRedisDriver } from "./redis-driver";
+import { createStorageAdapter } from "./transaction";
+import type { StorageAdapter, StorageBackend } from "./types";
+
+export type { StorageAdapter, StorageBackend, StoreSnapshot } from "./types";
+
+const DEFAULT_DATA_FILE = ".data/garage.json";
+
+/**
+ * Resolve which backend to use.
+ *
+ * STORAGE_BACKEND ("redis" | "file") wins when set. Otherwise Redis is used
+ * when Upstash credentials are configured and the local file store when not,
+ * so a fresh install works fully offline.
+ */
+export function getStorageBackend(): StorageBackend {
+  const configured = process.env.STORAGE_BACKEND?.toLowerCase();
+  if (configured === "redis" || configured === "file") {
+    return configured;
+  }
+  if (configured) {
+    throw new Error(
+      `Unknown STORAGE_BACKEND "${process.env.STORAGE_BACKEND}". Expected "redis" or "file".`
+    );
+  }
+  return process.env.KV_REST_API_URL ? "redis" : "file";
+}
+
+export function getDataFilePath(): string {
+  return process.env.GARAGE_DATA_FILE || DEFAULT_DATA_FILE;
+}
+
+// Keep a single adapter per server process (survives dev hot reloads)
+const globalForStorage = globalThis as unknown as {
+  garageStorage?: StorageAdapter;
+};
+
+export function getStorageAdapter(): StorageAdapter {
+  if (!globalForStorage.garageStorage) {
+    globalForStorage.garageStorage = createStorageAdapter(
+      getStorageBackend() === "redis"
+        ? createRedisDriver()
+        : createFileDriver(getDataFilePath())
+    );
+  }
+  return globalForStorage.garageStorage;
+}
@@ -0,0 +1,131 @@
+import { Redis } from "@upstash/redis";
+import type { StorageDriver, StoreSnapshot } from "./types";
+
+// Hash of key -> change counter, bumped by every commit that writes the key
+const VERSIONS_KEY = "__versions";
+
+/**
+ * KEYS[1] is the versions hash; every other key is referenced by its index
+ * in KEYS. ARGV holds the number of version checks and the (key, version)
+ * pairs, then the writes: "sadd"/"srem"/"hset", key, count, values... and
+ * "del", count, keys... Returns 0 without writing if a version has changed.
+ */
+const COMMIT_SCRIPT = `
+local i = 2
+for _ = 1, tonumber(ARGV[1]) do
+  local current = redis.call("HGET", KEYS[1], KEYS[tonumber(ARGV[i])]) or "0"
+  if current ~= ARGV[i + 1] then return 0 end
+  i = i + 2
+end
+while i <= #ARGV do
+  local op = ARGV[i]
+  if op == "del" then
+    local count = tonumber(ARGV[i + 1])
+    for k = i + 2, i + 1 + count do
+      local key = KEYS[tonumber(ARGV[k])]
+      redis.call("DEL", key)
+      redis.call("HINCRBY", KEYS[1], key, 1)
+    end
+    i = i + 2 + count
+  else
+    local key = KEYS[tonumber(ARGV[i + 1])]
+    local count = tonumber(ARGV[i + 2])
+    redis.call(op, key, unpack(ARGV, i + 3, i + 2 + count))
+    redis.call("HINCRBY", KEYS[1], key, 1)
+    i = i + 3 + count
+  end
+end
+return 1
+`;
+
+// Same encoding @upstash/redis uses for hset, so hgetall reads values back unchanged
+function serialize(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+// Hosted Upstash Redis backend (the original storage of the app)
+export function createRedisDriver(): StorageDriver {
+  const redis = new Redis({
+    url: process.env.KV_REST_API_URL || "",
+    token: process.env.KV_REST_API_TOKEN || "",
+  });
+
+  return {
+    name: "redis",
+
+    async smembers(key) {
+      return redis.smembers(key);
+    },
+
+    async hgetall(key) {
+      return redis.hgetall(key);
+    },
+
+    // Walks the keyspace with SCAN; the app only ever stores sets and hashes
+    async snapshot() {
+      const snapshot: StoreSnapshot = { sets: {}, hashes: {} };
+      let cursor: string | number = 0;
+      do {
+        const [next, keys]: [string | number, string[]] = await redis.scan(cursor, { count: 500 });
+        for (const key of keys) {
+          if (key === VERSIONS_KEY) continue;
+          const type = await redis.type(key);
+          if (type === "set") {
+            snapshot.sets[key] = await redis.smembers(key);
+          } else if (type === "hash") {
+            snapshot.hashes[key] = (await redis.hgetall(key)) || {};
+          }
+        }
+        cursor = next;
+      } while (String(cursor) !== "0");
+      return snapshot;
+    },
+
+    async version(key) {
+      const version = await redis.hget(VERSIONS_KEY, key);
+      return String(version ?? 0);
+    },
+
+    // The version check and the writes run as one script, so no other
+    // client can change a checked key in between
+    async exec(writes, expected = new Map()) {
+      if (!writes.length) return true;
+
+      const keys = [VERSIONS_KEY];
+      const keyIndex = (key: string) => {
+        const index = keys.indexOf(key);
+        return String(index === -1 ? keys.push(key) : index + 1);
+      };
+
+      const args: string[] = [String(expected.size)];
+      for (const [key, version] of expected) {
+        args.push(keyIndex(key), version);
+      }
+      for (const write of writes) {
+        switch (write.op) {
+          case "sadd":
+          case "srem":
+            if (!write.members.length) break;
+            args.push(write.op, keyIndex(write.key), String(write.members.length), ...write.members);
+            break;
+          case "hset": {
+            const fields = Object.entries(write.values).flatMap(([field, value]) => [
+              field,
+              serialize(value),
+            ]);
+            if (!fields.length) break;
+            args.push("hset", keyIndex(write.key), String(fields.length), ...fields);
+            break;
+          }
+          case "del":
+            if (!write.keys.length) break;
+            args.push("del", String(write.keys.length), ...write.keys.map(keyIndex));
+            break;
+        }
+      }
+
+      const applied = await redis.eval<string[], number>(COMMIT_SCRIPT, keys, args);
+      return applied === 1;
+    },
+  };
+}
@@ -0,0 +1,172 @@
+import { readFile } from "fs/promises";
+import { describe, expect, it } from "vitest";
+import { useTempStore } from "@/test/temp-store";
+import { createFileDriver } from "./file-driver";
+import { createStorageAdapter } from "./transaction";
+import type { StorageDriver, StorageWrite } from "./types";
+
+const store = useTempStore();
+
+function openStore() {
+  return createStorageAdapter(createFileDriver(store.dataFile()));
+}
+
+// A store another server process writes to as well, tracked with key versions
+function openSharedStore() {
+  const driver = createFileDriver(store.dataFile());
+  const versions = new Map<string, number>();
+  const current = (key: string) => String(versions.get(key) ?? 0);
+  const bump = (writes: StorageWrite[]) => {
+    for (const key of writes.flatMap((write) => (write.op === "del" ? write.keys : [write.key]))) {
+      versions.set(key, (versions.get(key) ?? 0) + 1);
+    }
+  };
+
+  const shared: StorageDriver = {
+    ...driver,
+    async version(key) {
+      return current(key);
+    },
+    async exec(writes, expected = new Map()) {
+      for (const [key, version] of expected) {
+        if (current(key) !== version) return false;
+      }
+      bump(writes);
+      return driver.exec(writes);
+    },
+  };
+
+  return {
+    storage: createStorageAdapter(shared),
+    async otherProcess(writes: StorageWrite[]) {
+      bump(writes);
+      await driver.exec(writes);
+    },
+  };
+}
+
+describe("file storage", () => {
+  it("persists sets and hashes to the data file", async () => {
+    const storage = openStore();
+    await storage.hset("client:1", { name: "Jane", balance: 12.5 });
+    await storage.sadd("clients", "1", "2");
+    await storage.srem("clients", "2");
+
+    const reopened = openStore();
+    expect(await reopened.smembers("clients")).toEqual(["1"]);
+    expect(await reopened.hgetall("client:1")).toEqual({ name: "Jane", balance: 12.5 });
+
+    const file = JSON.parse(await readFile(store.dataFile(), "utf8"));
+    expect(file.hashes["client:1"]).toEqual({ name: "Jane", balance: 12.5 });
+  });
+
+  it("deletes keys and drops empty sets", async () => {
+    const storage = openStore();
+    await storage.hset("client:1", { name: "Jane" });
+    await storage.sadd("clients", "1");
+    await storage.srem("clients", "1");
+    await storage.del("client:1");
+
+    const file = JSON.parse(await readFile(store.dataFile(), "utf8"));
+    expect(file).toMatchObject({ sets: {}, hashes: {} });
+  });
+});
+
+describe("transactions", () => {
+  it("commits every write together and lets reads inside see them", async () => {
+    const storage = openStore();
+    const seen = await storage.transaction(async () => {
+      await storage.hset("product:1", { stock: 5 });
+      await storage.sadd("products", "1");
+      await storage.hset("product:1", { name: "Filter" });
+      return [await storage.smembers("products"), await storage.hgetall("product:1")];
+    });
+
+    expect(seen).toEqual([["1"], { stock: 5, name: "Filter" }]);
+    expect(await openStore().hgetall("product:1")).toEqual({ stock: 5, name: "Filter" });
+  });
+
+  it("drops every write when the transaction throws", async () => {
+    const storage = openStore();
+    await storage.hset("product:1", { stock: 5 });
+
+    await expect(
+      storage.transaction(async () => {
+        await storage.hset("product:1", { stock: 2 });
+        await storage.sadd("movements", "m1");
+        throw new Error("Not enough stock");
+      })
+    ).rejects.toThrow("Not enough stock");
+
+    const reopened = openStore();
+    expect(await reopened.hgetall("product:1")).toEqual({ stock: 5 });
+    expect(await reopened.smembers("movements")).toEqual([]);
+  });
+
+  it("rolls back nested transactions with the outer one", async () => {
+    const storage = openStore();
+    await expect(
+      storage.transaction(async () => {
+        await storage.transaction(async () => {
+          await storage.hset("client:1", { name: "Jane" });
+        });
+        throw new Error("Later step failed");
+      })
+    ).rejects.toThrow("Later step failed");
+
+    expect(await storage.hgetall("client:1")).toBeNull();
+  });
+
+  it("runs transactions one at a time so checks can't go stale", async () => {
+    const storage = openStore();
+    await storage.hset("product:1", { stock: 1 });
+
+    const take = () =>
+      storage.transaction(async () => {
+        const product = await storage.hgetall<{ stock: number }>("product:1");
+        if (!product || product.stock < 1) throw new Error("Out of stock");
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        await storage.hset("product:1", { stock: product.stock - 1 });
+      });
+
+    const results = await Promise.allSettled([take(), take()]);
+    expect(results.map((result) => result.status)).toEqual(["fulfilled", "rejected"]);
+    expect(await storage.hgetall("product:1")).toEqual({ stock: 0 });
+  });
+});
+
+describe("transactions on a shared store", () => {
+  it("runs again on fresh data when another process changed what it read", async () => {
+    const { storage, otherProcess } = openSharedStore();
+    await storage.hset("product:1", { stock: 1 });
+
+    let attempts = 0;
+    const take = storage.transaction(async () => {
+      attempts++;
+      const product = await storage.hgetall<{ stock: number }>("product:1");
+      if (!product || product.stock < 1) throw new Error("Out of stock");
+      if (attempts === 1) {
+        await otherProcess([{ op: "hset", key: "product:1", values: { stock: 0 } }]);
+      }
+      await storage.hset("product:1", { stock: product.stock - 1 });
+    });
+
+    await expect(take).rejects.toThrow("Out of stock");
+    expect(attempts).toBe(2);
+    expect(await storage.hgetall("product:1")).toEqual({ stock: 0 });
+  });
+
+  it("gives up without writing when the keys keep changing", async () => {
+    const { storage, otherProcess } = openSharedStore();
+
+    await expect(
+      storage.transaction(async () => {
+        await storage.smembers("clients");
+        await otherProcess([{ op: "sadd", key: "clients", members: ["other"] }]);
+        await storage.sadd("clients", "mine");
+      })
+    ).rejects.toThrow("changed by another server");
+
+    expect(await storage.smembers("clients")).toEqual(["other"]);
+  });
+});
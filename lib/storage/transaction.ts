@@ -0,0 +1,181 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { StorageAdapter, StorageDriver, StorageWrite } from "./types";
+
+// Buffered view of the store while a transaction is running
+type TransactionState = {
+  writes: StorageWrite[];
+  sets: Map<string, Set<string>>;
+  hashes: Map<string, Record<string, unknown> | null>;
+  // Version of each key when the transaction first read it
+  versions: Map<string, string>;
+};
+
+// Commits retried when another process keeps changing the same keys
+const MAX_COMMIT_ATTEMPTS = 5;
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Wrap a driver with the public adapter API and transaction support.
+ *
+ * Inside `transaction()` every write is recorded in a per-call overlay (kept
+ * in AsyncLocalStorage, so nested `db.*` calls join automatically) and reads
+ * see that overlay first. On success the buffered writes are handed to the
+ * driver as one batch; on error they are simply dropped.
+ *
+ * Transactions and standalone writes share one lock, so within this server
+ * process a transaction's checks cannot be invalidated before it commits.
+ * For drivers shared between processes (Redis), the version of every key is
+ * recorded before the transaction first reads it; if another process has
+ * written one of them by commit time nothing is written and `fn` runs again.
+ */
+export function createStorageAdapter(driver: StorageDriver): StorageAdapter {
+  const context = new AsyncLocalStorage<TransactionState>();
+  let lock: Promise<void> = Promise.resolve();
+
+  function exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const run = lock.then(fn);
+    lock = run.then(
+      () => undefined,
+      () => undefined
+    );
+    return run;
+  }
+
+  // Must run before the driver read, so a write in between is always caught
+  async function recordVersion(state: TransactionState, key: string) {
+    if (!driver.version || state.versions.has(key)) return;
+    const version = await driver.version(key);
+    if (!state.versions.has(key)) {
+      state.versions.set(key, version);
+    }
+  }
+
+  async function loadSet(
+    state: TransactionState,
+    key: string
+  ): Promise<Set<string>> {
+    if (!state.sets.has(key)) {
+      await recordVersion(state, key);
+      const members = await driver.smembers(key);
+      if (!state.sets.has(key)) {
+        state.sets.set(key, new Set(members));
+      }
+    }
+    return state.sets.get(key)!;
+  }
+
+  async function loadHash(
+    state: TransactionState,
+    key: string
+  ): Promise<Record<string, unknown> | null> {
+    if (state.hashes.has(key)) {
+      return state.hashes.get(key) ?? null;
+    }
+    await recordVersion(state, key);
+    return driver.hgetall(key);
+  }
+
+  async function write(
+    apply: (state: TransactionState) => Promise<void>,
+    entry: StorageWrite
+  ): Promise<void> {
+    const state = context.getStore();
+    if (state) {
+      await apply(state);
+      state.writes.push(entry);
+      return;
+    }
+    await exclusive(async () => {
+      await driver.exec([entry]);
+    });
+  }
+
+  return {
+    name: driver.name,
+
+    async smembers(key) {
+      const state = context.getStore();
+      if (!state) return driver.smembers(key);
+      return Array.from(await loadSet(state, key));
+    },
+
+    async hgetall<T extends Record<string, unknown>>(key: string) {
+      const state = context.getStore();
+      if (!state) return driver.hgetall<T>(key);
+      const hash = await loadHash(state, key);
+      return hash ? (clone(hash) as T) : null;
+    },
+
+    async sadd(key, ...members) {
+      await write(
+        async (state) => {
+          const set = await loadSet(state, key);
+          members.forEach((member) => set.add(member));
+        },
+        { op: "sadd", key, members }
+      );
+    },
+
+    async srem(key, ...members) {
+      await write(
+        async (state) => {
+          const set = await loadSet(state, key);
+          members.forEach((member) => set.delete(member));
+        },
+        { op: "srem", key, members }
+      );
+    },
+
+    async hset(key, values) {
+      await write(
+        async (state) => {
+          const existing = await loadHash(state, key);
+          state.hashes.set(key, { ...(existing || {}), ...clone(values) });
+        },
+        { op: "hset", key, values: clone(values) }
+      );
+    },
+
+    async del(...keys) {
+      await write(
+        async (state) => {
+          for (const key of keys) {
+            state.hashes.set(key, null);
+            state.sets.set(key, new Set());
+          }
+        },
+        { op: "del", keys }
+      );
+    },
+
+    // A running transaction already holds the lock, so it reads the driver directly
+    async snapshot() {
+      if (context.getStore()) return driver.snapshot();
+      return exclusive(() => driver.snapshot());
+    },
+
+    async transaction<T>(fn: () => Promise<T>): Promise<T> {
+      // Nested calls become part of the outer transaction
+      if (context.getStore()) return fn();
+
+      return exclusive(async () => {
+        for (let attempt = 1; attempt <= MAX_COMMIT_ATTEMPTS; attempt++) {
+          const state: TransactionState = {
+            writes: [],
+            sets: new Map(),
+            hashes: new Map(),
+            versions: new Map(),
+          };
+          const result = await context.run(state, fn);
+          if (await driver.exec(state.writes, state.versions)) {
+            return result;
+          }
+        }
+        throw new Error("The data was changed by another server while saving. Please try again.");
+      });
+    },
+  };
+}
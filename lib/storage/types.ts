@@ -0,0 +1,74 @@
+// Storage adapter contract used by `db`.
+//
+// The surface intentionally mirrors the small subset of Redis commands the
+// data layer relies on (sets for indexes, hashes for records) so that every
+// backend can be swapped in without touching the entity code in lib/db.ts.
+export interface StorageAdapter {
+  // Name of the backend, surfaced on the debug page
+  readonly name: string;
+
+  // Set operations (entity indexes such as "clients" or "maintenance")
+  smembers(key: string): Promise<string[]>;
+  sadd(key: string, ...members: string[]): Promise<void>;
+  srem(key: string, ...members: string[]): Promise<void>;
+
+  // Hash operations (one hash per record, e.g. "client:<id>")
+  hgetall<T extends Record<string, unknown> = Record<string, unknown>>(
+    key: string
+  ): Promise<T | null>;
+  hset(key: string, values: Record<string, unknown>): Promise<void>;
+
+  // Key operations
+  del(...keys: string[]): Promise<void>;
+
+  /**
+   * Every set and hash in the store, e.g. for a backup. Inside a transaction
+   * this is the committed store, without the transaction's own writes.
+   */
+  snapshot(): Promise<StoreSnapshot>;
+
+  /**
+   * Run `fn` as a single atomic unit. Every write made through this adapter
+   * while `fn` runs (including nested `db.*` calls) is buffered and committed
+   * together when `fn` resolves, or discarded if it throws. Transactions are
+   * serialized within a process; when another process changes a key `fn`
+   * read before it commits, `fn` is run again on fresh data.
+   */
+  transaction<T>(fn: () => Promise<T>): Promise<T>;
+}
+
+// The whole store as plain data: set members and hash fields by key
+export type StoreSnapshot = {
+  sets: Record<string, string[]>;
+  hashes: Record<string, Record<string, unknown>>;
+};
+
+// A single buffered write, applied by a driver on commit
+export type StorageWrite =
+  | { op: "sadd"; key: string; members: string[] }
+  | { op: "srem"; key: string; members: string[] }
+  | { op: "hset"; key: string; values: Record<string, unknown> }
+  | { op: "del"; keys: string[] };
+
+// Low-level backend: plain reads plus an all-or-nothing batch write
+export interface StorageDriver {
+  readonly name: string;
+  smembers(key: string): Promise<string[]>;
+  hgetall<T extends Record<string, unknown>>(key: string): Promise<T | null>;
+  snapshot(): Promise<StoreSnapshot>;
+
+  /**
+   * Change counter of a key, for backends shared by several server processes.
+   * Drivers without it are only ever written by the process that opened them.
+   */
+  version?(key: string): Promise<string>;
+
+  /**
+   * Apply `writes` together. With `expected` (key -> version read before the
+   * transaction used it) nothing is written and `false` is returned when any
+   * of those keys has changed since.
+   */
+  exec(writes: StorageWrite[], expected?: Map<string, string>): Promise<boolean>;
+}
+
+export type StorageBackend = "redis" | "file";
@@ -3,13 +3,17 @@
 import { toast } from '@/components/ui/use-toast'
 import { 
   getOfflineQueue, 
+  getConflictedOperations,
   removeFromOfflineQueue, 
   updateOperationRetryCount, 
   PendingOperation,
   PendingOperationWithRetry,
-  clearOfflineData
+  clearOfflineData,
+  markOperationConflict,
 } from './offline-storage'
 import { checkConnectivity } from './network-status'
+import { BASE_VERSION_HEADER, type ConflictBody } from './conflicts'
+import { refreshOfflineCache } from './offline-collections'
 
 // Alias for backward compatibility
 const clearOfflineQueue = clearOfflineData
@@ -23,45 +27,62 @@ const SYNC_RETRY_DELAY = 5000
 // Singleton flag to prevent multiple sync processes
 let isSyncing = false
 
+type OperationResult = 'synced' | 'failed' | 'conflict'
+
+export interface SyncResult {
+  success: boolean
+  syncedCount: number
+  failedCount: number
+  conflictCount: number
+}
+
 /**
  * Process a single offline operation by making the appropriate API call
  */
-async function processOperation(operation: PendingOperationWithRetry): Promise<boolean> {
+async function processOperation(operation: PendingOperationWithRetry): Promise<OperationResult> {
   try {
     // Make the API request based on the stored operation
     const response = await fetch(operation.url, {
       method: operation.method,
       headers: {
         'Content-Type': 'application/json',
+        ...(operation.baseVersion ? { [BASE_VERSION_HEADER]: operation.baseVersion } : {}),
       },
       body: operation.method !== 'GET' && operation.method !== 'DELETE' ? JSON.stringify(operation.data) : undefined,
     })
 
+    // The record changed on the server since this operation was queued
+    if (response.status === 409) {
+      const body = await response.json() as ConflictBody
+      markOperationConflict(operation.id, body.conflict.server)
+      return 'conflict'
+    }
+
     if (!response.ok) {
       console.error(`Sync failed for operation ${operation.id}:`, await response.text())
-      return false
+      return 'failed'
     }
 
-    return true
+    return 'synced'
   } catch (error) {
     console.error(`Error processing operation ${operation.id}:`, error)
-    return false
+    return 'failed'
   }
 }
 
 /**
  * Attempt to synchronize all pending offline operations
  */
-export async function syncOfflineData(): Promise<{ success: boolean; syncedCount: number; failedCount: number }> {
+export async function syncOfflineData(): Promise<SyncResult> {
   // If already syncing, don't start another sync process
   if (isSyncing) {
-    return { success: false, syncedCount: 0, failedCount: 0 }
+    return { success: false, syncedCount: 0, failedCount: 0, conflictCount: 0 }
   }
 
   // Check if we're online - if not, don't even try
   const isConnected = await checkConnectivity()
   if (!isConnected) {
-    return { success: false, syncedCount: 0, failedCount: 0 }
+    return { success: false, syncedCount: 0, failedCount: 0, conflictCount: 0 }
   }
 
   try {
@@ -71,17 +92,21 @@ export async function syncOfflineData(): Promise<{ success: boolean; syncedCount
     const operations = getOfflineQueue()
     
     if (operations.length === 0) {
-      return { success: true, syncedCount: 0, failedCount: 0 }
+      return { success: true, syncedCount: 0, failedCount: 0, conflictCount: 0 }
     }
     
     let syncedCount = 0
     let failedCount = 0
+    let conflictCount = 0
     
     // Process operations one by one
     for (const operation of operations) {
-      const success = await processOperation(operation)
+      const result = await processOperation(operation)
       
-      if (success) {
+      if (result === 'conflict') {
+        // Stays queued until the user resolves it
+        conflictCount++
+      } else if (result === 'synced') {
         // If successful, remove from queue
         removeFromOfflineQueue(operation.id)
         syncedCount++
@@ -100,10 +125,10 @@ export async function syncOfflineData(): Promise<{ success: boolean; syncedCount
       }
     }
     
-    return { success: syncedCount > 0, syncedCount, failedCount }
+    return { success: syncedCount > 0, syncedCount, failedCount, conflictCount }
   } catch (error) {
     console.error('Error during offline sync:', error)
-    return { success: false, syncedCount: 0, failedCount: 0 }
+    return { success: false, syncedCount: 0, failedCount: 0, conflictCount: 0 }
   } finally {
     isSyncing = false
   }
@@ -114,6 +139,11 @@ export async function syncOfflineData(): Promise<{ success: boolean; syncedCount
  */
 export function setupBackgroundSync() {
   if (typeof window === 'undefined') return
+
+  // Fill the read cache so lists can be shown offline, even ones not visited yet
+  checkConnectivity().then((isConnected) => {
+    if (isConnected) refreshOfflineCache()
+  })
   
   // Sync when we come online
   window.addEventListener('online', async () => {
@@ -142,6 +172,11 @@ export function setupBackgroundSync() {
         variant: 'destructive',
       })
     }
+
+    notifyConflicts(result)
+
+    // Queued writes go first so the refreshed cache includes them
+    await refreshOfflineCache()
   })
   
   // Setup periodic background sync attempt (every minute when online)
@@ -156,7 +191,7 @@ export function setupBackgroundSync() {
 /**
  * Manually trigger a sync attempt
  */
-export async function manualSync(): Promise<{ success: boolean; syncedCount: number; failedCount: number }> {
+export async function manualSync(): Promise<SyncResult> {
   toast({
     title: 'Syncing data',
     description: 'Attempting to synchronize your offline changes...',
@@ -176,12 +211,73 @@ export async function manualSync(): Promise<{ success: boolean; syncedCount: num
       description: `${result.failedCount} changes could not be synchronized.`,
       variant: 'destructive',
     })
-  } else {
+  } else if (result.conflictCount === 0) {
     toast({
       title: 'Nothing to sync',
       description: 'No offline changes were found.',
     })
   }
+
+  notifyConflicts(result)
   
+  return result
+}
+
+function notifyConflicts(result: SyncResult) {
+  if (result.conflictCount > 0) {
+    toast({
+      title: 'Conflicting changes',
+      description: `${result.conflictCount} changes conflict with edits made by someone else. Use "Resolve" to review them.`,
+      variant: 'destructive',
+    })
+  }
+}
+
+export type ConflictResolution =
+  | { keep: 'server' }
+  | { keep: 'local' }
+  // Field-by-field: the named fields take the server's value, the rest keep the local one
+  | { keep: 'merge'; serverFields: string[] }
+
+/**
+ * Settle a conflicted operation. Keeping the local (or merged) version re-sends it
+ * based on the server's current version; if the record changed yet again the
+ * operation stays conflicted with the fresh server values.
+ */
+export async function resolveConflict(
+  operationId: string,
+  resolution: ConflictResolution
+): Promise<OperationResult> {
+  const operation = getConflictedOperations().find(op => op.id === operationId)
+  if (!operation?.conflict) return 'failed'
+
+  if (resolution.keep === 'server') {
+    removeFromOfflineQueue(operationId)
+    return 'synced'
+  }
+
+  const server = operation.conflict.server
+  let data = operation.data
+  if (resolution.keep === 'merge' && server) {
+    data = { ...operation.data }
+    for (const field of resolution.serverFields) {
+      data[field] = server[field]
+    }
+  }
+
+  // A record deleted on the server can only be recreated by the user, not updated
+  if (!server && operation.method === 'PUT') {
+    return 'failed'
+  }
+
+  const result = await processOperation({
+    ...operation,
+    data,
+    baseVersion: server?.updatedAt,
+    conflict: undefined,
+  })
+  if (result === 'synced') {
+    removeFromOfflineQueue(operationId)
+  }
   return result
 }
\ No newline at end of file
@@ -5,10 +5,25 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
-export function formatCurrency(amount: number): string {
+// The currency is always passed in: client components get the garage's from useFormatCurrency
+// (components/settings/settings-provider), server code from the settings it loaded
+export function formatCurrency(amount: number, currency: string): string {
   return new Intl.NumberFormat("en-US", {
     style: "currency",
-    currency: "USD",
+    currency,
+  }).format(amount)
+}
+
+export function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+// Same as formatCurrency but without thousands separators, safe for unquoted CSV cells
+export function formatCurrencyForCsv(amount: number, currency: string): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+    useGrouping: false,
   }).format(amount)
 }
 
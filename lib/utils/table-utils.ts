@@ -1,7 +1,7 @@
 import { formatCurrency } from "@/lib/utils"
 
 // Format cell value for display or export
-export function formatCellValue(value: any, key: string): string {
+export function formatCellValue(value: any, key: string, currency: string): string {
   if (value === undefined || value === null) {
     return ""
   }
@@ -29,7 +29,7 @@ export function formatCellValue(value: any, key: string): string {
     key.includes('payment')
   ) {
     if (typeof value === 'number') {
-      return formatCurrency(value)
+      return formatCurrency(value, currency)
     }
   }
   
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { SESSION_COOKIE } from "@/lib/auth/cookie";
+
+// Cheap first pass: without a session cookie there's nothing to check, so
+// go straight to sign-in. The layout validates the session itself.
+export function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+
+  if (pathname !== "/login" && !request.cookies.has(SESSION_COOKIE)) {
+    const loginUrl = new URL("/login", request.url);
+    if (pathname !== "/") {
+      loginUrl.searchParams.set("from", `${pathname}${search}`);
+    }
+    return NextResponse.redirect(loginUrl);
+  }
+
+  // Layouts don't receive the pathname, so pass it along as a header
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.set("x-pathname", pathname);
+  return NextResponse.next({ request: { headers: requestHeaders } });
+}
+
+export const config = {
+  // API routes answer with their own errors; static files need no session
+  matcher: ["/((?!api|_next/static|_next/image|favicon.ico|.*\\.[a-zA-Z0-9]+$).*)"],
+};
@@ -0,0 +1,78 @@
+// Keeps visited pages and the app's static files available offline. Data is
+// cached separately in IndexedDB (lib/offline-cache.ts); this only makes sure
+// there is a page to show it in.
+
+const PAGE_CACHE = 'garage-pages-v1'
+const STATIC_CACHE = 'garage-static-v1'
+
+self.addEventListener('install', () => {
+  self.skipWaiting()
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key !== PAGE_CACHE && key !== STATIC_CACHE)
+            .map((key) => caches.delete(key)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  )
+})
+
+// Sent on sign-out so the next person at a shared device can't read the pages offline
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'clear-page-cache') {
+    event.waitUntil(caches.delete(PAGE_CACHE))
+  }
+})
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  if (request.method !== 'GET') return
+
+  const url = new URL(request.url)
+  if (url.origin !== self.location.origin) return
+
+  // Build output is content-hashed, so a cached copy never goes out of date
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(
+      caches.match(request).then(
+        (cached) =>
+          cached ||
+          fetch(request).then((response) => {
+            if (response.ok) {
+              const copy = response.clone()
+              caches.open(STATIC_CACHE).then((cache) => cache.put(request, copy))
+            }
+            return response
+          }),
+      ),
+    )
+    return
+  }
+
+  // Pages: always try the network first, fall back to the last copy we saw
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          // Redirects (e.g. to sign-in) aren't the page that was asked for
+          if (response.ok && !response.redirected) {
+            const copy = response.clone()
+            caches.open(PAGE_CACHE).then((cache) => cache.put(url.pathname, copy))
+          }
+          return response
+        })
+        .catch(() =>
+          caches.match(url.pathname).then((cached) => cached || caches.match('/')).then(
+            (cached) => cached || Response.error(),
+          ),
+        ),
+    )
+  }
+})
@@ -0,0 +1,287 @@
+import type {
+  Appointment,
+  Bay,
+  Budget,
+  Car,
+  Claim,
+  Client,
+  CreditTransaction,
+  ExchangeRate,
+  FinanceCategory,
+  FinanceRecord,
+  GarageSettings,
+  MaintenanceRequest,
+  Payment,
+  Product,
+  PurchaseOrder,
+  RecurringSchedule,
+  Supplier,
+  db as Db,
+} from "@/lib/db";
+
+/**
+ * Complete, valid records for tests. Builders return what `db.*.create`
+ * takes; `stored()` adds the fields the data layer fills in, for helpers
+ * that work on saved records. Override only what the test is about.
+ */
+
+export const TIMESTAMP = "2024-01-01T00:00:00.000Z";
+
+// Signed-in user the data-layer tests act as
+export const ADMIN_NAME = "Sam";
+
+// Fields `db` sets when a record is created
+export type NewRecord<T> = Omit<T, "id" | "createdAt" | "updatedAt">;
+
+export function stored<T extends object>(record: T, id: string = crypto.randomUUID()) {
+  return { ...record, id, createdAt: TIMESTAMP, updatedAt: TIMESTAMP };
+}
+
+// What `db.maintenance.create` takes; totals are worked out from the lines
+export type NewMaintenanceRequest = Omit<NewRecord<MaintenanceRequest>, "totalCost" | "remainingBalance">;
+
+export function client(overrides: Partial<NewRecord<Client>> = {}): NewRecord<Client> {
+  return {
+    name: "Jane Doe",
+    contact: "555-0101",
+    email: "jane@example.test",
+    address: "2 High Street",
+    ...overrides,
+  };
+}
+
+export function car(clientId: string, overrides: Partial<Omit<Car, "createdAt" | "updatedAt">> = {}) {
+  return {
+    uin: crypto.randomUUID(),
+    licensePlate: "AB-123",
+    make: "Toyota",
+    model: "Corolla",
+    year: 2018,
+    vin: "JT000000000000001",
+    color: "Grey",
+    clientId,
+    ...overrides,
+  };
+}
+
+export function maintenanceRequest(
+  carUin: string,
+  clientId: string,
+  overrides: Partial<NewMaintenanceRequest> = {}
+): NewMaintenanceRequest {
+  return {
+    carUin,
+    clientId,
+    servicesUsed: [],
+    productsUsed: [],
+    additionalFee: 100,
+    discount: 0,
+    paidAmount: 0,
+    paymentStatus: "pending",
+    startDate: "2024-01-02",
+    status: "pending",
+    ...overrides,
+  };
+}
+
+// A request as `db` saves it, for helpers that take one
+export function savedRequest(overrides: Partial<MaintenanceRequest> = {}): MaintenanceRequest {
+  return {
+    ...stored(maintenanceRequest("car-1", "client-1")),
+    totalCost: 100,
+    remainingBalance: 100,
+    ...overrides,
+  };
+}
+
+// A saved request with its client and car, for data-layer tests
+export async function createRequest(db: typeof Db, overrides: Partial<NewMaintenanceRequest> = {}) {
+  const owner = await db.clients.create(client(), ADMIN_NAME);
+  const vehicle = await db.cars.create(car(owner.id), ADMIN_NAME);
+  return db.maintenance.create(maintenanceRequest(vehicle.uin, owner.id, overrides), ADMIN_NAME);
+}
+
+export function garageSettings(overrides: Partial<GarageSettings> = {}): GarageSettings {
+  return {
+    garageName: "Test Garage",
+    email: "garage@example.test",
+    phone: "555-0199",
+    address: "3 Workshop Lane",
+    taxRate: 0,
+    taxServices: true,
+    taxParts: true,
+    currency: "USD",
+    labourRate: 60,
+    defaultLowStockThreshold: 5,
+    defaultLeadTimeDays: 7,
+    safetyStockDays: 7,
+    reorderCoverDays: 30,
+    costingMethod: "fifo",
+    secondaryCurrencies: "",
+    ...overrides,
+  };
+}
+
+export function supplier(overrides: Partial<NewRecord<Supplier>> = {}): NewRecord<Supplier> {
+  return {
+    name: "Parts Co",
+    contact: "Sam",
+    address: "1 Depot Road",
+    phone: "555-0100",
+    email: "orders@parts.test",
+    ...overrides,
+  };
+}
+
+export function product(
+  supplierId: string,
+  overrides: Partial<NewRecord<Product>> = {}
+): NewRecord<Product> {
+  return {
+    name: "Oil filter",
+    description: "",
+    purchasePrice: 4,
+    salePrice: 10,
+    warehouseStock: 0,
+    shopStock: 0,
+    supplierId,
+    lowStockThreshold: 0,
+    ...overrides,
+  };
+}
+
+export function bay(overrides: Partial<NewRecord<Bay>> = {}): NewRecord<Bay> {
+  return { name: "Bay 1", capacity: 1, isActive: true, ...overrides };
+}
+
+export function appointment(
+  bayId: string,
+  overrides: Partial<NewRecord<Appointment>> = {}
+): NewRecord<Appointment> {
+  return {
+    clientId: "client-1",
+    carUin: crypto.randomUUID(),
+    serviceIds: [],
+    bayId,
+    startTime: "2024-05-06T10:00:00.000Z",
+    endTime: "2024-05-06T11:00:00.000Z",
+    status: "scheduled",
+    ...overrides,
+  };
+}
+
+export function purchaseOrder(
+  supplierId: string,
+  overrides: Partial<NewRecord<PurchaseOrder>> = {}
+): NewRecord<PurchaseOrder> {
+  return {
+    orderNumber: "PO-000001",
+    supplierId,
+    status: "draft",
+    lines: [],
+    receipts: [],
+    ...overrides,
+  };
+}
+
+export function claim(
+  maintenanceId: string,
+  insuranceId: string,
+  overrides: Partial<NewRecord<Claim>> = {}
+): NewRecord<Claim> {
+  return {
+    maintenanceId,
+    insuranceId,
+    claimNumber: "CLM-1",
+    status: "submitted",
+    claimedAmount: 800,
+    deductible: 100,
+    submittedAt: "2024-03-01",
+    ...overrides,
+  };
+}
+
+export function payment(
+  maintenanceId: string,
+  amount: number,
+  overrides: Partial<NewRecord<Payment>> = {}
+): NewRecord<Payment> {
+  return {
+    maintenanceId,
+    clientId: "client-1",
+    type: "payment",
+    amount,
+    date: "2024-03-02",
+    method: "cash",
+    receivedBy: ADMIN_NAME,
+    status: "completed",
+    ...overrides,
+  };
+}
+
+export function creditTransaction(
+  clientId: string,
+  type: CreditTransaction["type"],
+  amount: number,
+  overrides: Partial<NewRecord<CreditTransaction>> = {}
+): NewRecord<CreditTransaction> {
+  return {
+    clientId,
+    type,
+    amount,
+    date: "2024-03-02",
+    receivedBy: ADMIN_NAME,
+    status: "completed",
+    ...overrides,
+  };
+}
+
+export function exchangeRate(currency: string, date: string, rate: number): NewRecord<ExchangeRate> {
+  return { currency, date, rate };
+}
+
+export function financeRecord(
+  categoryId: string,
+  amount: number,
+  overrides: Partial<NewRecord<FinanceRecord>> = {}
+): NewRecord<FinanceRecord> {
+  return {
+    categoryId,
+    amount,
+    description: "Test record",
+    date: "2024-03-01",
+    createdBy: ADMIN_NAME,
+    ...overrides,
+  };
+}
+
+export function recurringSchedule(overrides: Partial<NewRecord<RecurringSchedule>> = {}): NewRecord<RecurringSchedule> {
+  return {
+    categoryId: "rent",
+    amount: 1200,
+    description: "Workshop rent",
+    frequency: "monthly",
+    startDate: "2024-01-31",
+    mode: "auto",
+    active: true,
+    exceptions: [],
+    createdBy: ADMIN_NAME,
+    ...overrides,
+  };
+}
+
+export function financeCategory(
+  name: string,
+  type: FinanceCategory["type"],
+  overrides: Partial<NewRecord<FinanceCategory>> = {}
+): NewRecord<FinanceCategory> {
+  return { name, type, isDefault: false, ...overrides };
+}
+
+export function budget(
+  categoryId: string,
+  amount: number,
+  overrides: Partial<NewRecord<Budget>> = {}
+): NewRecord<Budget> {
+  return { categoryId, amount, period: "monthly", ...overrides };
+}
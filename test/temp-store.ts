@@ -0,0 +1,33 @@
+import { mkdtemp, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, vi } from "vitest";
+
+const globalForStorage = globalThis as unknown as { garageStorage?: unknown };
+
+/**
+ * Point the storage layer at a fresh file store for every test. Modules are
+ * reset too, so `loadDb()` returns a `db` bound to that test's data file.
+ */
+export function useTempStore() {
+  let dir = "";
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "garage-test-"));
+    vi.stubEnv("STORAGE_BACKEND", "file");
+    vi.stubEnv("GARAGE_DATA_FILE", path.join(dir, "garage.json"));
+    delete globalForStorage.garageStorage;
+    vi.resetModules();
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    delete globalForStorage.garageStorage;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  return {
+    dataFile: () => path.join(dir, "garage.json"),
+    loadDb: async () => (await import("@/lib/db")).db,
+  };
+}